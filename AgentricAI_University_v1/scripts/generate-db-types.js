@@ -0,0 +1,211 @@
+// Database Type Generator - Writes src/types/database.ts from the SQL in supabase/migrations
+// Usage: npm run db:types [-- --check]
+// Reads the enums, tables, columns and foreign keys the migrations create, no database needed, and
+// emits the `Database` shape supabase-js expects. --check exits non-zero when the file is stale.
+// Handles the statements this repo writes: create type ... as enum, create table, alter table ...
+// add/drop column.
+
+import { readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const migrationsDir = join(root, 'supabase', 'migrations');
+const outputFile = join(root, 'src', 'types', 'database.ts');
+
+const NUMBER_TYPES = ['smallint', 'integer', 'int', 'bigint', 'real', 'double precision', 'numeric', 'decimal', 'serial', 'bigserial'];
+const STRING_TYPES = ['text', 'uuid', 'varchar', 'character varying', 'char', 'date', 'time', 'timestamp', 'timestamptz', 'timestamp with time zone', 'interval'];
+const TABLE_CONSTRAINTS = /^(constraint|primary key|unique|check|foreign key|exclude)\b/i;
+
+// Splits on a separator outside parentheses and quotes
+function splitTopLevel(text, separator) {
+  const parts = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+
+  for (const char of text) {
+    if (char === "'") quoted = !quoted;
+    if (!quoted && char === '(') depth++;
+    if (!quoted && char === ')') depth--;
+    if (!quoted && depth === 0 && char === separator) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+function parseColumn(definition, enums) {
+  const [, name, rest] = definition.match(/^"?(\w+)"?\s+([\s\S]+)$/);
+  const typeMatch = rest.match(/^([a-z_]+(?: (?:precision|varying|with time zone))?)(?:\s*\([^)]*\))?(\[\])?/i);
+  const baseType = typeMatch[1].toLowerCase();
+  const reference = rest.match(/references\s+([\w.]+)\s*\((\w+)\)/i);
+
+  return {
+    name,
+    type: baseType,
+    isArray: Boolean(typeMatch[2]),
+    isEnum: enums.has(baseType),
+    nullable: !/\bnot null\b|\bprimary key\b/i.test(rest),
+    hasDefault: /\bdefault\b/i.test(rest) || /serial$/.test(baseType),
+    reference: reference ? { table: reference[1], column: reference[2] } : null
+  };
+}
+
+export function parseMigrations(sources) {
+  const enums = new Map();
+  const tables = new Map();
+
+  for (const source of sources) {
+    const sql = source.replace(/--.*$/gm, '').replace(/\$\$[\s\S]*?\$\$/g, '');
+
+    for (const statement of splitTopLevel(sql, ';')) {
+      const enumMatch = statement.match(/^create type\s+(?:public\.)?(\w+)\s+as enum\s*\(([\s\S]*)\)$/i);
+      if (enumMatch) {
+        enums.set(enumMatch[1], splitTopLevel(enumMatch[2], ',').map(value => value.replace(/^'|'$/g, '')));
+        continue;
+      }
+
+      const tableMatch = statement.match(/^create table\s+(?:if not exists\s+)?(?:public\.)?(\w+)\s*\(([\s\S]*)\)$/i);
+      if (tableMatch) {
+        const columns = splitTopLevel(tableMatch[2], ',')
+          .filter(definition => !TABLE_CONSTRAINTS.test(definition))
+          .map(definition => parseColumn(definition, enums));
+        tables.set(tableMatch[1], columns);
+        continue;
+      }
+
+      const alterMatch = statement.match(/^alter table\s+(?:if exists\s+)?(?:public\.)?(\w+)\s+([\s\S]+)$/i);
+      if (alterMatch && tables.has(alterMatch[1])) {
+        let columns = tables.get(alterMatch[1]);
+        for (const action of splitTopLevel(alterMatch[2], ',')) {
+          const added = action.match(/^add column\s+(?:if not exists\s+)?([\s\S]+)$/i);
+          const dropped = action.match(/^drop column\s+(?:if exists\s+)?"?(\w+)"?/i);
+          if (added) columns = [...columns.filter(column => column.name !== added[1].split(/\s/)[0]), parseColumn(added[1], enums)];
+          if (dropped) columns = columns.filter(column => column.name !== dropped[1]);
+        }
+        tables.set(alterMatch[1], columns);
+      }
+    }
+  }
+
+  return { enums, tables };
+}
+
+function tsType(column) {
+  let type;
+  if (column.isEnum) type = `Database["public"]["Enums"]["${column.type}"]`;
+  else if (NUMBER_TYPES.includes(column.type)) type = 'number';
+  else if (STRING_TYPES.includes(column.type)) type = 'string';
+  else if (column.type === 'boolean' || column.type === 'bool') type = 'boolean';
+  else if (column.type === 'json' || column.type === 'jsonb') type = 'Json';
+  else type = 'unknown';
+  return column.isArray ? `${type}[]` : type;
+}
+
+function renderTable(name, columns, tables) {
+  const field = (column, optional) =>
+    `          ${column.name}${optional ? '?' : ''}: ${tsType(column)}${column.nullable ? ' | null' : ''}`;
+  const relationships = columns
+    .filter(column => column.reference && tables.has(column.reference.table))
+    .map(column => [
+      '          {',
+      `            foreignKeyName: "${name}_${column.name}_fkey"`,
+      `            columns: ["${column.name}"]`,
+      '            isOneToOne: false',
+      `            referencedRelation: "${column.reference.table}"`,
+      `            referencedColumns: ["${column.reference.column}"]`,
+      '          }'
+    ].join('\n'));
+
+  return [
+    `      ${name}: {`,
+    '        Row: {',
+    ...columns.map(column => field(column, false)),
+    '        }',
+    '        Insert: {',
+    ...columns.map(column => field(column, column.nullable || column.hasDefault)),
+    '        }',
+    '        Update: {',
+    ...columns.map(column => field(column, true)),
+    '        }',
+    relationships.length > 0 ? `        Relationships: [\n${relationships.join(',\n')}\n        ]` : '        Relationships: []',
+    '      }'
+  ].join('\n');
+}
+
+export function renderDatabaseTypes({ enums, tables }) {
+  const tableNames = Array.from(tables.keys()).sort();
+  const enumNames = Array.from(enums.keys()).sort();
+
+  return `// Database Types - Row, insert and update shapes for the tables in supabase/migrations
+// Generated by \`npm run db:types\`. Change the migrations and regenerate instead of editing this file.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+${tableNames.map(name => renderTable(name, tables.get(name), tables)).join('\n')}
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      [_ in never]: never
+    }
+    Enums: {
+${enumNames.map(name => `      ${name}: ${enums.get(name).map(value => `"${value}"`).join(' | ')}`).join('\n')}
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database["public"]
+
+export type Tables<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Row"]
+export type TablesInsert<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Insert"]
+export type TablesUpdate<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Update"]
+export type Enums<T extends keyof PublicSchema["Enums"]> = PublicSchema["Enums"][T]
+`;
+}
+
+function main() {
+  const sources = readdirSync(migrationsDir)
+    .filter(file => file.endsWith('.sql'))
+    .sort()
+    .map(file => readFileSync(join(migrationsDir, file), 'utf8'));
+  const output = renderDatabaseTypes(parseMigrations(sources));
+
+  if (process.argv.includes('--check')) {
+    let current = '';
+    try {
+      current = readFileSync(outputFile, 'utf8');
+    } catch {
+      // Missing counts as stale
+    }
+    if (current !== output) {
+      console.error('❌ src/types/database.ts is out of date - run npm run db:types');
+      process.exit(1);
+    }
+    console.log('✅ src/types/database.ts matches the migrations');
+    return;
+  }
+
+  writeFileSync(outputFile, output);
+  console.log(`✅ Wrote src/types/database.ts`);
+}
+
+main();
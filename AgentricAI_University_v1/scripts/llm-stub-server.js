@@ -0,0 +1,245 @@
+// LLM Stub Server - Offline stand-in for Letta, OpenAI-compatible and Ollama endpoints
+// Usage: npm run llm:stub [-- --port 8787]
+// Replies are deterministic: the assistant echoes the last user message, and when a
+// registered tool's name appears in that message it asks for the tool first. A message
+// containing `[stall]` streams its first word and then never finishes, for testing timeouts.
+// `--port 0` picks a free port; the listening line reports the one in use.
+
+import { createServer } from 'node:http';
+
+const portFlag = process.argv.indexOf('--port');
+const port = Number(portFlag > -1 ? process.argv[portFlag + 1] : process.env.LLM_STUB_PORT || 8787);
+
+const lettaAgents = new Map();
+
+function lastMessage(messages, role) {
+  return [...(messages || [])].reverse().find(m => m.role === role);
+}
+
+// Shared reply logic for every protocol
+function planReply(messages, tools) {
+  const lastTool = lastMessage(messages, 'tool');
+  const lastUser = lastMessage(messages, 'user');
+  const lastIsTool = messages?.length > 0 && messages[messages.length - 1].role === 'tool';
+
+  if (lastIsTool) {
+    return { content: `Tool result: ${lastTool.content}`, toolCall: null };
+  }
+
+  const text = lastUser?.content || '';
+  const tool = (tools || [])
+    .map(t => t.function || t)
+    .find(t => t.name && text.includes(t.name));
+
+  if (tool) {
+    return { content: '', toolCall: { id: `call-${Date.now()}`, name: tool.name, arguments: { query: text } } };
+  }
+
+  return { content: `Stub reply: ${text}`, toolCall: null };
+}
+
+function words(content) {
+  return content.split(/(?<= )/).filter(Boolean);
+}
+
+function stalls(messages) {
+  return String(lastMessage(messages, 'user')?.content || '').includes('[stall]');
+}
+
+// Word counts stand in for tokens so clients can exercise usage accounting
+function usage(messages, reply) {
+  const promptTokens = (messages || []).reduce((total, m) => total + words(String(m.content || '')).length, 0);
+  return { prompt_tokens: promptTokens, completion_tokens: words(reply.content).length };
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+  res.end(JSON.stringify(body));
+}
+
+function startStream(res, contentType) {
+  res.writeHead(200, { 'Content-Type': contentType, 'Access-Control-Allow-Origin': '*' });
+}
+
+// OpenAI-compatible: /v1/chat/completions
+function handleChatCompletion(body, res) {
+  const reply = planReply(body.messages, body.tools);
+  const model = body.model || 'stub-model';
+  const toolCalls = reply.toolCall ? [{
+    id: reply.toolCall.id,
+    type: 'function',
+    function: { name: reply.toolCall.name, arguments: JSON.stringify(reply.toolCall.arguments) }
+  }] : undefined;
+
+  if (!body.stream) {
+    return sendJson(res, 200, {
+      id: `chatcmpl-${Date.now()}`,
+      object: 'chat.completion',
+      model,
+      choices: [{
+        index: 0,
+        message: { role: 'assistant', content: reply.content, tool_calls: toolCalls },
+        finish_reason: toolCalls ? 'tool_calls' : 'stop'
+      }],
+      usage: usage(body.messages, reply)
+    });
+  }
+
+  startStream(res, 'text/event-stream');
+  for (const word of words(reply.content)) {
+    res.write(`data: ${JSON.stringify({ model, choices: [{ index: 0, delta: { content: word } }] })}\n\n`);
+    if (stalls(body.messages)) return;
+  }
+  if (toolCalls) {
+    const delta = { tool_calls: toolCalls.map((call, index) => ({ index, ...call })) };
+    res.write(`data: ${JSON.stringify({ model, choices: [{ index: 0, delta }] })}\n\n`);
+  }
+  res.write('data: [DONE]\n\n');
+  res.end();
+}
+
+// Ollama: /api/chat
+function handleOllamaChat(body, res) {
+  const reply = planReply(body.messages, body.tools);
+  const model = body.model || 'stub-model';
+  const toolCalls = reply.toolCall
+    ? [{ function: { name: reply.toolCall.name, arguments: reply.toolCall.arguments } }]
+    : undefined;
+
+  if (body.stream === false) {
+    const tokens = usage(body.messages, reply);
+    return sendJson(res, 200, {
+      model,
+      message: { role: 'assistant', content: reply.content, tool_calls: toolCalls },
+      done: true,
+      done_reason: 'stop',
+      prompt_eval_count: tokens.prompt_tokens,
+      eval_count: tokens.completion_tokens
+    });
+  }
+
+  startStream(res, 'application/x-ndjson');
+  for (const word of words(reply.content)) {
+    res.write(`${JSON.stringify({ model, message: { role: 'assistant', content: word }, done: false })}\n`);
+    if (stalls(body.messages)) return;
+  }
+  res.write(`${JSON.stringify({ model, message: { role: 'assistant', content: '', tool_calls: toolCalls }, done: true, done_reason: 'stop' })}\n`);
+  res.end();
+}
+
+// Letta: agents with server-side memory blocks
+function handleLettaMessages(agent, body, res, stream) {
+  agent.history.push(...(body.messages || []));
+  const reply = planReply(agent.history, agent.tools.map(name => ({ name })));
+  agent.history.push({ role: 'assistant', content: reply.content });
+
+  const messages = [];
+  if (reply.toolCall) {
+    messages.push({
+      message_type: 'tool_call_message',
+      tool_call: { tool_call_id: reply.toolCall.id, name: reply.toolCall.name, arguments: JSON.stringify(reply.toolCall.arguments) }
+    });
+  }
+  if (reply.content) {
+    messages.push({ message_type: 'assistant_message', content: reply.content });
+  }
+
+  if (!stream) {
+    return sendJson(res, 200, { messages, stop_reason: { stop_reason: 'end_turn' }, usage: usage(body.messages, reply) });
+  }
+
+  startStream(res, 'text/event-stream');
+  for (const message of messages) {
+    if (message.message_type === 'assistant_message') {
+      for (const word of words(message.content)) {
+        res.write(`data: ${JSON.stringify({ message_type: 'assistant_message', content: word })}\n\n`);
+      }
+    } else {
+      res.write(`data: ${JSON.stringify(message)}\n\n`);
+    }
+  }
+  res.write('data: [DONE]\n\n');
+  res.end();
+}
+
+async function route(req, res) {
+  const url = new URL(req.url, `http://localhost:${port}`);
+  const path = url.pathname.replace(/\/+$/, '');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Allow-Methods': 'GET, POST, PATCH, OPTIONS'
+    });
+    return res.end();
+  }
+
+  if (req.method === 'GET' && ['/v1/health', '/v1/models', '/api/tags'].includes(path)) {
+    return sendJson(res, 200, { status: 'ok', data: [{ id: 'stub-model' }], models: [{ name: 'stub-model' }] });
+  }
+
+  const body = req.method === 'GET' ? {} : await readBody(req);
+
+  if (req.method === 'POST' && path === '/v1/chat/completions') return handleChatCompletion(body, res);
+  if (req.method === 'POST' && path === '/api/chat') return handleOllamaChat(body, res);
+
+  if (req.method === 'POST' && path === '/v1/agents') {
+    const agent = {
+      id: `agent-${Date.now()}-${lettaAgents.size}`,
+      name: body.name,
+      memoryBlocks: body.memory_blocks || [],
+      tools: body.tools || [],
+      history: body.system ? [{ role: 'system', content: body.system }] : []
+    };
+    lettaAgents.set(agent.id, agent);
+    return sendJson(res, 200, { id: agent.id, name: agent.name, memory: { blocks: agent.memoryBlocks } });
+  }
+
+  const agentMatch = path.match(/^\/v1\/agents\/([^/]+)(\/.*)?$/);
+  if (agentMatch) {
+    const agent = lettaAgents.get(agentMatch[1]);
+    if (!agent) return sendJson(res, 404, { detail: `Agent ${agentMatch[1]} not found` });
+
+    const rest = agentMatch[2] || '';
+    if (req.method === 'POST' && rest === '/messages') return handleLettaMessages(agent, body, res, false);
+    if (req.method === 'POST' && rest === '/messages/stream') return handleLettaMessages(agent, body, res, true);
+    if (req.method === 'GET' && rest === '/core-memory/blocks') return sendJson(res, 200, agent.memoryBlocks);
+
+    const blockMatch = rest.match(/^\/core-memory\/blocks\/([^/]+)$/);
+    if (req.method === 'PATCH' && blockMatch) {
+      const label = decodeURIComponent(blockMatch[1]);
+      const block = agent.memoryBlocks.find(b => b.label === label);
+      if (block) {
+        block.value = body.value;
+      } else {
+        agent.memoryBlocks.push({ label, value: body.value });
+      }
+      return sendJson(res, 200, agent.memoryBlocks.find(b => b.label === label));
+    }
+  }
+
+  sendJson(res, 404, { detail: `No stub route for ${req.method} ${path}` });
+}
+
+const server = createServer((req, res) => {
+  route(req, res).catch(error => sendJson(res, 400, { detail: error.message }));
+}).listen(port, () => {
+  console.log(`🧪 LLM stub server listening on http://localhost:${server.address().port}`);
+  console.log('   Letta: /v1/agents  OpenAI: /v1/chat/completions  Ollama: /api/chat');
+});
@@ -0,0 +1,90 @@
+// Agent Environment - Injectable clock, random source and scheduler for the agent ecosystem
+// Agents read time, randomness and timers through `clock`, `random` and `scheduler` instead of
+// Date, Math.random and the global timers. The running app uses the system implementations;
+// a simulation installs virtual time and a seeded generator so the same script gives the same output.
+
+export type TimerCallback = () => void | Promise<void>;
+
+export type TimerHandle = ReturnType<typeof setTimeout> | number;
+
+export interface Clock {
+  now(): number;
+  date(): Date;
+}
+
+export interface RandomSource {
+  // Uniform in [0, 1), like Math.random()
+  next(): number;
+}
+
+export interface Scheduler {
+  setTimeout(callback: TimerCallback, delayMs: number): TimerHandle;
+  clearTimeout(handle?: TimerHandle): void;
+  setInterval(callback: TimerCallback, intervalMs: number): TimerHandle;
+  clearInterval(handle?: TimerHandle): void;
+  sleep(ms: number): Promise<void>;
+}
+
+export interface AgentEnvironment {
+  clock: Clock;
+  random: RandomSource;
+  scheduler: Scheduler;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  date: () => new Date()
+};
+
+export const systemRandom: RandomSource = {
+  next: () => Math.random()
+};
+
+export const systemScheduler: Scheduler = {
+  setTimeout: (callback, delayMs) => setTimeout(callback, delayMs),
+  clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>),
+  setInterval: (callback, intervalMs) => setInterval(callback, intervalMs),
+  clearInterval: handle => clearInterval(handle as ReturnType<typeof setInterval>),
+  sleep: ms => new Promise(resolve => setTimeout(resolve, ms))
+};
+
+export const systemEnvironment: AgentEnvironment = {
+  clock: systemClock,
+  random: systemRandom,
+  scheduler: systemScheduler
+};
+
+let currentEnvironment: AgentEnvironment = systemEnvironment;
+
+export function getAgentEnvironment(): AgentEnvironment {
+  return currentEnvironment;
+}
+
+// Install before agents are constructed; returns the environment it replaced so it can be restored
+export function setAgentEnvironment(environment: Partial<AgentEnvironment>): AgentEnvironment {
+  const previous = currentEnvironment;
+  currentEnvironment = { ...currentEnvironment, ...environment };
+  return previous;
+}
+
+export function resetAgentEnvironment(): void {
+  currentEnvironment = systemEnvironment;
+}
+
+// Views that always delegate to whichever environment is installed
+export const clock: Clock = {
+  now: () => currentEnvironment.clock.now(),
+  date: () => currentEnvironment.clock.date()
+};
+
+export const random: RandomSource = {
+  next: () => currentEnvironment.random.next()
+};
+
+export const scheduler: Scheduler = {
+  setTimeout: (callback, delayMs) => currentEnvironment.scheduler.setTimeout(callback, delayMs),
+  clearTimeout: handle => currentEnvironment.scheduler.clearTimeout(handle),
+  setInterval: (callback, intervalMs) => currentEnvironment.scheduler.setInterval(callback, intervalMs),
+  clearInterval: handle => currentEnvironment.scheduler.clearInterval(handle),
+  sleep: ms => currentEnvironment.scheduler.sleep(ms)
+};
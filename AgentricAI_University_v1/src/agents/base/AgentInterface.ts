@@ -6,7 +6,8 @@ import {
   AgentMemory, 
   AgentMetrics, 
   NeurodiverseProfile,
-  AgentEvent 
+  AgentEvent,
+  TaskContext
 } from './AgentTypes';
 
 export interface IAgent {
@@ -34,7 +35,7 @@ export interface IAgent {
   subscribeToEvents(eventType: string, callback: (event: AgentEvent) => void): void;
 
   // Processing Methods
-  processTask(taskData: any): Promise<any>;
+  processTask(taskData: any, context?: TaskContext): Promise<any>;
   handleError(error: Error, context: any): Promise<void>;
   validateInput(input: any): boolean;
   formatOutput(output: any): any;
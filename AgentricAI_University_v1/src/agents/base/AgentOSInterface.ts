@@ -7,6 +7,10 @@ export interface ResourceRequest {
   network?: boolean;
   duration?: number; // milliseconds
   priority?: 'background' | 'normal' | 'high' | 'critical';
+  // What the resources are spent on, for the resource ledger
+  workflowId?: string;
+  sessionId?: string;
+  studentId?: string;
 }
 
 export interface ResourceAllocation {
@@ -73,12 +77,15 @@ export interface SystemMessage {
   priority: 'low' | 'normal' | 'high' | 'critical';
   timestamp: Date;
   ttl?: number; // time to live in milliseconds
+  idempotencyKey?: string; // deduplicates exactly-once deliveries, defaults to id
 }
 
 export interface MessageHandler {
   (message: SystemMessage): Promise<void> | void;
 }
 
+export type DeliveryGuarantee = 'at-most-once' | 'at-least-once' | 'exactly-once';
+
 export interface ServiceRequest {
   serviceType: string;
   operation: string;
@@ -143,7 +150,7 @@ export interface AgentMessageBus {
   // Quality of Service
   setPriority(messageId: string, priority: 'low' | 'normal' | 'high' | 'critical'): void;
   setRetryPolicy(messageId: string, retries: number, backoff: number): void;
-  setDeliveryGuarantee(messageId: string, guarantee: 'at-most-once' | 'at-least-once' | 'exactly-once'): void;
+  setDeliveryGuarantee(messageId: string, guarantee: DeliveryGuarantee): void;
 }
 
 // Resource Manager Interface
@@ -196,6 +203,10 @@ export interface ResourceUsage {
     bytesIn: number;
     bytesOut: number;
   };
+  messages?: {
+    sentPerMinute: number;
+    receivedPerMinute: number;
+  };
   timestamp: Date;
 }
 
@@ -210,10 +221,15 @@ export interface SystemResourceInfo {
   activeAgents: number;
 }
 
+// What the Resource Allocator does when an agent goes over one of its limits
+export type QuotaViolationAction = 'throttle' | 'reject' | 'notify';
+
 export interface ResourceLimits {
   maxMemory?: string;
   maxCpu?: number;
   maxStorage?: string;
   maxConnections?: number;
   maxBandwidth?: string;
+  maxMessagesPerMinute?: number;
+  onViolation?: QuotaViolationAction;
 }
\ No newline at end of file
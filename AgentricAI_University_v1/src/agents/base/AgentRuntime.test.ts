@@ -0,0 +1,34 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createTestEcosystem, TestEcosystem } from '../../test/testEcosystem';
+
+describe('AgentRuntime', () => {
+  let ecosystem: TestEcosystem;
+
+  beforeEach(async () => {
+    ecosystem = await createTestEcosystem({ fakes: ['principal', 'teacher', 'curriculum'] });
+  });
+
+  afterEach(async () => {
+    await ecosystem.stop();
+  });
+
+  it('keeps delivering a broadcast after one receiver fails', async () => {
+    vi.spyOn(ecosystem.fake('teacher'), 'receiveMessage').mockRejectedValue(new Error('teacher crashed'));
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await ecosystem.fake('principal').broadcastMessage({
+      id: '',
+      fromAgentId: 'principal',
+      toAgentId: 'broadcast',
+      type: 'institutional-goals-update',
+      data: { goals: {}, timeframe: 'term' },
+      priority: 'high',
+      timestamp: ecosystem.clock.date(),
+      requiresResponse: false
+    });
+
+    expect(ecosystem.fake('curriculum').receivedOfType('institutional-goals-update')).toHaveLength(1);
+    expect(logged).toHaveBeenCalledWith(expect.stringContaining('teacher failed to handle broadcast'), expect.any(Error));
+    expect(ecosystem.runtime.getDeliveryLog('broadcast')).toMatchObject([{ type: 'institutional-goals-update', status: 'delivered' }]);
+  });
+});
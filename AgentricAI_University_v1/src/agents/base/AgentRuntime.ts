@@ -0,0 +1,226 @@
+// Agent Runtime - In-process agent registry and message delivery for AgentricAI University
+
+import { BaseAgent } from './BaseAgent';
+import { AgentMessage } from './AgentTypes';
+import { CapabilityRegistry, capabilityRegistry } from './CapabilityRegistry';
+import { clock, scheduler, TimerHandle } from './AgentEnvironment';
+
+export interface DeliveryRecord {
+  messageId: string;
+  fromAgentId: string;
+  toAgentId: string;
+  type: string;
+  correlationId?: string;
+  status: 'delivered' | 'response' | 'undelivered';
+  deliveredAt: Date;
+}
+
+export type MessageObserver = (message: AgentMessage, status: DeliveryRecord['status']) => void;
+
+interface PendingResponse {
+  resolve: (response: AgentMessage) => void;
+  reject: (error: Error) => void;
+  timeoutId: TimerHandle;
+}
+
+export class AgentRuntime {
+  private static instance: AgentRuntime;
+  private agents: Map<string, BaseAgent> = new Map();
+  private aliases: Map<string, string> = new Map();
+  private pendingResponses: Map<string, PendingResponse> = new Map();
+  private deliveryLog: DeliveryRecord[] = [];
+  private maxDeliveryLog: number = 1000;
+  private messageObservers: Set<MessageObserver> = new Set();
+  private capabilities: CapabilityRegistry;
+
+  // Separate runtimes (e.g. event replays) pass their own registry to stay out of the live one
+  constructor(capabilities: CapabilityRegistry = capabilityRegistry) {
+    this.capabilities = capabilities;
+  }
+
+  static getInstance(): AgentRuntime {
+    if (!AgentRuntime.instance) {
+      AgentRuntime.instance = new AgentRuntime();
+    }
+    return AgentRuntime.instance;
+  }
+
+  // Registration
+  register(agent: BaseAgent, aliases: string[] = []): void {
+    if (this.agents.has(agent.id)) {
+      throw new Error(`Agent already registered: ${agent.id}`);
+    }
+
+    console.log(`📝 Runtime registering agent: ${agent.name} (${agent.id})`);
+    this.agents.set(agent.id, agent);
+    agent.attachRuntime(this);
+
+    // Advertise what the agent can do so routers can discover it by capability
+    this.capabilities.register(agent.id, agent.describeCapabilities(), {
+      healthCheck: () => {
+        if (agent.getStatus() !== 'active') return 'unavailable';
+        return agent.getHealth().status === 'healthy' ? 'healthy' : 'warning';
+      }
+    });
+
+    for (const alias of aliases) {
+      this.aliases.set(alias, agent.id);
+    }
+  }
+
+  unregister(agentId: string): void {
+    const agent = this.agents.get(agentId);
+    if (!agent) return;
+
+    console.log(`📝 Runtime unregistering agent: ${agent.name} (${agent.id})`);
+    this.agents.delete(agentId);
+    agent.detachRuntime();
+    this.capabilities.unregister(agentId);
+
+    for (const [alias, target] of this.aliases.entries()) {
+      if (target === agentId) {
+        this.aliases.delete(alias);
+      }
+    }
+  }
+
+  getAgent(agentId: string): BaseAgent | undefined {
+    return this.agents.get(agentId) || this.agents.get(this.aliases.get(agentId) || '');
+  }
+
+  listAgents(): BaseAgent[] {
+    return Array.from(this.agents.values());
+  }
+
+  hasAgent(agentId: string): boolean {
+    return this.getAgent(agentId) !== undefined;
+  }
+
+  getCapabilityRegistry(): CapabilityRegistry {
+    return this.capabilities;
+  }
+
+  // Lifecycle
+  async startAll(): Promise<void> {
+    for (const agent of this.agents.values()) {
+      await agent.initialize();
+      await agent.start();
+    }
+  }
+
+  async stopAll(): Promise<void> {
+    for (const agent of this.agents.values()) {
+      await agent.shutdown();
+    }
+
+    // Nobody is left to answer outstanding requests
+    for (const [messageId, pending] of this.pendingResponses.entries()) {
+      scheduler.clearTimeout(pending.timeoutId);
+      pending.reject(new Error(`Runtime stopped before response to message ${messageId}`));
+    }
+    this.pendingResponses.clear();
+  }
+
+  // Message Delivery
+  async deliver(message: AgentMessage): Promise<void> {
+    // Responses to an awaited request go back to the waiting caller
+    if (message.correlationId && this.pendingResponses.has(message.correlationId)) {
+      const pending = this.pendingResponses.get(message.correlationId)!;
+      this.pendingResponses.delete(message.correlationId);
+      scheduler.clearTimeout(pending.timeoutId);
+
+      this.recordDelivery(message, 'response');
+      pending.resolve(message);
+      return;
+    }
+
+    if (message.toAgentId === 'broadcast') {
+      for (const agent of this.agents.values()) {
+        if (agent.id === message.fromAgentId) continue;
+        // One receiver rejecting the message must not keep it from the rest
+        try {
+          await agent.receiveMessage({ ...message, toAgentId: agent.id });
+        } catch (error) {
+          console.error(`📢 ${agent.id} failed to handle broadcast ${message.type} (${message.id}):`, error);
+        }
+      }
+
+      this.recordDelivery(message, 'delivered');
+      return;
+    }
+
+    const target = this.getAgent(message.toAgentId);
+    if (!target) {
+      console.warn(`📭 No agent registered for ${message.toAgentId}, message ${message.id} not delivered`);
+      this.recordDelivery(message, 'undelivered');
+      // A sender waiting on a reply hears now rather than at its timeout
+      this.cancelResponse(message.id, new Error(`No agent registered for ${message.toAgentId}`));
+      return;
+    }
+
+    this.recordDelivery(message, 'delivered');
+    await target.receiveMessage(message);
+  }
+
+  awaitResponse(messageId: string, timeout: number): Promise<AgentMessage> {
+    return new Promise((resolve, reject) => {
+      const timeoutId = scheduler.setTimeout(() => {
+        this.pendingResponses.delete(messageId);
+        reject(new Error(`Response timeout after ${timeout}ms for message ${messageId}`));
+      }, timeout);
+
+      this.pendingResponses.set(messageId, { resolve, reject, timeoutId });
+    });
+  }
+
+  cancelResponse(messageId: string, error: Error): void {
+    const pending = this.pendingResponses.get(messageId);
+    if (!pending) return;
+
+    this.pendingResponses.delete(messageId);
+    scheduler.clearTimeout(pending.timeoutId);
+    pending.reject(error);
+  }
+
+  getDeliveryLog(agentId?: string): DeliveryRecord[] {
+    if (!agentId) return [...this.deliveryLog];
+
+    return this.deliveryLog.filter(record =>
+      record.fromAgentId === agentId || record.toAgentId === agentId
+    );
+  }
+
+  getPendingResponseCount(): number {
+    return this.pendingResponses.size;
+  }
+
+  // Observers see every message with its full payload, e.g. a test harness asserting on traffic
+  observeMessages(observer: MessageObserver): () => void {
+    this.messageObservers.add(observer);
+    return () => this.messageObservers.delete(observer);
+  }
+
+  // Private helper methods
+  private recordDelivery(message: AgentMessage, status: DeliveryRecord['status']): void {
+    this.deliveryLog.push({
+      messageId: message.id,
+      fromAgentId: message.fromAgentId,
+      toAgentId: message.toAgentId,
+      type: message.type,
+      correlationId: message.correlationId,
+      status,
+      deliveredAt: clock.date()
+    });
+
+    if (this.deliveryLog.length > this.maxDeliveryLog) {
+      this.deliveryLog = this.deliveryLog.slice(-this.maxDeliveryLog);
+    }
+
+    for (const observer of this.messageObservers) {
+      observer(message, status);
+    }
+  }
+}
+
+// Export singleton instance
+export const agentRuntime = AgentRuntime.getInstance();
@@ -0,0 +1,70 @@
+// Agent State Store - Snapshots of agent state, so a restarted agent picks up where it left off
+
+export interface AgentStateSnapshot {
+  agentId: string;
+  version: string;
+  state: any;
+  savedAt: Date;
+}
+
+export interface AgentStateAdapter {
+  readonly name: string;
+  save(snapshot: AgentStateSnapshot): Promise<void>;
+  load(agentId: string): Promise<AgentStateSnapshot | null>;
+  remove(agentId: string): Promise<void>;
+}
+
+// In-memory adapter; state survives agent restarts but not a page reload
+export class MemoryAgentStateAdapter implements AgentStateAdapter {
+  readonly name = 'memory';
+  private snapshots: Map<string, string> = new Map();
+
+  async save(snapshot: AgentStateSnapshot): Promise<void> {
+    this.snapshots.set(snapshot.agentId, serializeSnapshot(snapshot));
+  }
+
+  async load(agentId: string): Promise<AgentStateSnapshot | null> {
+    const stored = this.snapshots.get(agentId);
+    return stored ? deserializeSnapshot(stored) : null;
+  }
+
+  async remove(agentId: string): Promise<void> {
+    this.snapshots.delete(agentId);
+  }
+}
+
+export class LocalStorageAgentStateAdapter implements AgentStateAdapter {
+  readonly name = 'localStorage';
+
+  constructor(private prefix: string = 'agentricai_agent_state') {}
+
+  async save(snapshot: AgentStateSnapshot): Promise<void> {
+    localStorage.setItem(this.key(snapshot.agentId), serializeSnapshot(snapshot));
+  }
+
+  async load(agentId: string): Promise<AgentStateSnapshot | null> {
+    const stored = localStorage.getItem(this.key(agentId));
+    return stored ? deserializeSnapshot(stored) : null;
+  }
+
+  async remove(agentId: string): Promise<void> {
+    localStorage.removeItem(this.key(agentId));
+  }
+
+  private key(agentId: string): string {
+    return `${this.prefix}:${agentId}`;
+  }
+}
+
+function serializeSnapshot(snapshot: AgentStateSnapshot): string {
+  return JSON.stringify(snapshot);
+}
+
+const DATE_FIELDS = ['savedAt', 'createdAt', 'timestamp', 'lastActivity', 'lastAccessed', 'personalizedAt'];
+
+function deserializeSnapshot(stored: string): AgentStateSnapshot {
+  // Revive the Date fields JSON flattened to strings
+  return JSON.parse(stored, (key, value) =>
+    DATE_FIELDS.includes(key) && typeof value === 'string' ? new Date(value) : value
+  );
+}
@@ -1,5 +1,7 @@
 // Core type definitions for AgentricAI University agents
 
+import type { AgentMessageOf, MessageType, TypedAgentMessage } from './MessageCatalog';
+
 export interface AgentConfig {
   id: string;
   name: string;
@@ -52,17 +54,8 @@ export interface AgentMessage {
   correlationId?: string;
 }
 
-export type MessageType =
-  | 'direct-communication'
-  | 'knowledge-update'
-  | 'workflow-trigger'
-  | 'error-report'
-  | 'status-update'
-  | 'learning-assessment'
-  | 'behavior-analysis'
-  | 'content-request'
-  | 'safety-alert'
-  | 'system-command';
+// Message types and their payload contracts live in the message catalog
+export type { AgentMessageOf, MessageType, TypedAgentMessage };
 
 export interface AgentMemory {
   shortTerm: Map<string, any>;
@@ -79,6 +72,18 @@ export interface AgentCapability {
   outputTypes: string[];
   neurodiverseOptimized: boolean;
   processingTime: number;
+  // processTask types that serve the capability; an agent that lists none is assumed to take any
+  tasks?: string[];
+}
+
+// Passed to processTask when the Process Manager's scheduler runs it. Long tasks can check
+// shouldYield() between steps and await yieldSlot() to let higher-priority work run first.
+export interface TaskContext {
+  taskId: string;
+  pid: string;
+  priority: 'low' | 'normal' | 'high' | 'critical';
+  shouldYield(): boolean;
+  yieldSlot(): Promise<void>;
 }
 
 export interface AgentMetrics {
@@ -111,15 +116,40 @@ export interface NeurodiverseProfile {
   };
 }
 
+export interface WorkflowCondition {
+  path: string;
+  operator: 'equals' | 'notEquals' | 'in' | 'exists' | 'gt' | 'lt';
+  value?: any;
+}
+
+export type WorkflowFailurePolicy = 'retry' | 'skip' | 'compensate' | 'abort';
+
+export interface WorkflowCompensation {
+  action: string;
+  capability?: string;
+  task?: string;
+  input?: any;
+  timeout?: number;
+}
+
 export interface WorkflowStep {
   id: string;
   agentId: string;
   action: string;
   inputData: any;
   outputData?: any;
-  status: 'pending' | 'in-progress' | 'completed' | 'failed';
+  status: 'pending' | 'in-progress' | 'completed' | 'failed' | 'skipped' | 'compensated';
   dependencies: string[];
   timeout: number;
+  type?: 'agent-task' | 'wait';
+  capability?: string;
+  task?: string;
+  retries?: number;
+  retryDelayMs?: number;
+  condition?: WorkflowCondition;
+  durationMs?: number;
+  onFailure?: WorkflowFailurePolicy;
+  compensation?: WorkflowCompensation;
 }
 
 export interface AgentWorkflow {
@@ -129,6 +159,8 @@ export interface AgentWorkflow {
   steps: WorkflowStep[];
   status: 'created' | 'running' | 'completed' | 'failed' | 'paused';
   priority: AgentPriority;
+  parameters?: any;
+  concurrency?: number;
   createdAt: Date;
   completedAt?: Date;
 }
@@ -140,6 +172,8 @@ export interface AgentEvent {
   data: any;
   timestamp: Date;
   severity: 'info' | 'warning' | 'error' | 'critical';
+  // Position in the Event Bus log, set when the event is published
+  sequence?: number;
 }
 
 export interface SafetyRule {
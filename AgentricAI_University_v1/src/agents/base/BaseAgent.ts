@@ -14,6 +14,16 @@ import {
   NeurodiverseProfile,
   AgentEvent 
 } from './AgentInterface';
+import { AgentCapability, TaskContext } from './AgentTypes';
+import { AgentRuntime } from './AgentRuntime';
+import { CapabilityRegistry, capabilityRegistry } from './CapabilityRegistry';
+import { AgentStateAdapter } from './AgentStateStore';
+import { AgentMessageOf, MessageType, MessageValidationError, TypedAgentMessage, validateAgentMessage } from './MessageCatalog';
+import { clock, random, scheduler } from './AgentEnvironment';
+import { matchesTopic } from '../communication/EventTopics';
+
+// Set by a supervisor; called when processing a message throws
+export type AgentCrashHandler = (agent: BaseAgent, error: Error, context: any) => Promise<void>;
 
 export abstract class BaseAgent implements IAgent, AgentOSInterface {
   public readonly id: string;
@@ -28,6 +38,11 @@ export abstract class BaseAgent implements IAgent, AgentOSInterface {
   private eventListeners: Map<string, ((event: AgentEvent) => void)[]> = new Map();
   private isRunning: boolean = false;
   private isPaused: boolean = false;
+  private runtime?: AgentRuntime;
+  private agentStateStore?: AgentStateAdapter;
+  private crashHandler?: AgentCrashHandler;
+  private sendIntervalMs: number = 0;
+  private nextSendAt: number = 0;
 
   constructor(config: AgentConfig) {
     this.id = config.id;
@@ -40,7 +55,7 @@ export abstract class BaseAgent implements IAgent, AgentOSInterface {
       shortTerm: new Map(),
       longTerm: new Map(),
       workingMemory: {},
-      lastAccessed: new Date(),
+      lastAccessed: clock.date(),
       memorySize: 0
     };
 
@@ -50,7 +65,7 @@ export abstract class BaseAgent implements IAgent, AgentOSInterface {
       errorRate: 0,
       memoryUsage: 0,
       uptime: 0,
-      lastActivity: new Date(),
+      lastActivity: clock.date(),
       performanceScore: 100
     };
   }
@@ -107,42 +122,85 @@ export abstract class BaseAgent implements IAgent, AgentOSInterface {
     this.emitEvent('agent.shutdown', { agentId: this.id });
   }
 
-  // Communication Methods
-  async sendMessage(targetAgentId: string, message: AgentMessage): Promise<string> {
+  // Communication Methods; the payload is checked against the catalog entry for message.type
+  async sendMessage<T extends MessageType>(targetAgentId: string, message: AgentMessageOf<T>): Promise<string> {
     if (!this.isRunning || this.isPaused) {
       throw new Error(`Agent ${this.name} is not available for communication`);
     }
 
-    const messageId = `msg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    message.id = messageId;
-    message.fromAgentId = this.id;
-    message.toAgentId = targetAgentId;
-    message.timestamp = new Date();
-
-    // Route through communication system
-    await this.routeMessage(message);
-    
-    this.metrics.lastActivity = new Date();
+    const messageId = this.generateMessageId();
+    await this.dispatchMessage(targetAgentId, message, messageId);
     return messageId;
   }
 
+  async sendRequest<T extends MessageType>(targetAgentId: string, message: AgentMessageOf<T>, timeout: number = 30000): Promise<AgentMessage> {
+    if (!this.isRunning || this.isPaused) {
+      throw new Error(`Agent ${this.name} is not available for communication`);
+    }
+
+    if (!this.runtime) {
+      throw new Error(`Agent ${this.name} is not attached to an agent runtime`);
+    }
+
+    // Register the waiter before dispatch so a synchronous reply is not missed
+    const messageId = this.generateMessageId();
+    message.requiresResponse = true;
+    const response = this.runtime.awaitResponse(messageId, timeout);
+
+    try {
+      await this.dispatchMessage(targetAgentId, message, messageId);
+    } catch (error) {
+      this.runtime.cancelResponse(messageId, error as Error);
+    }
+
+    return response;
+  }
+
+  async respondTo<T extends MessageType>(request: AgentMessage, response: Omit<AgentMessageOf<T>, 'id' | 'fromAgentId' | 'toAgentId' | 'timestamp' | 'correlationId' | 'requiresResponse'>): Promise<string> {
+    return this.sendMessage<T>(request.fromAgentId, {
+      ...response,
+      id: '',
+      fromAgentId: this.id,
+      toAgentId: request.fromAgentId,
+      timestamp: clock.date(),
+      requiresResponse: false,
+      correlationId: request.id
+    });
+  }
+
   async receiveMessage(message: AgentMessage): Promise<void> {
     if (!this.isRunning || this.isPaused) {
       console.warn(`Agent ${this.name} received message while not available`);
       return;
     }
 
+    // Reject messages that break their catalog contract; the error reaches the sender
+    const validation = validateAgentMessage(message);
+    if (!validation.valid) {
+      const rejection = MessageValidationError.fromResult(message, validation);
+      console.warn(`⚠️ ${this.name} rejected message: ${rejection.message}`);
+      this.metrics.errorRate += 1;
+      this.emitEvent('message.rejected', rejection.toJSON());
+      throw rejection;
+    }
+
     try {
-      await this.processMessage(message);
-      this.metrics.lastActivity = new Date();
+      if (message.type === 'workflow-task' || message.type === 'workflow-compensate') {
+        await this.handleWorkflowTask(message);
+      } else if (message.type === 'event-notification') {
+        this.handleEventNotification(message.data.event);
+      } else {
+        // Validated above, so the payload matches the contract for its type
+        await this.processMessage(message as TypedAgentMessage);
+      }
+      this.metrics.lastActivity = clock.date();
     } catch (error) {
       await this.handleError(error as Error, { message });
     }
   }
 
-  async broadcastMessage(message: AgentMessage): Promise<void> {
-    message.toAgentId = 'broadcast';
-    await this.sendMessage('communication-router', message);
+  async broadcastMessage<T extends MessageType>(message: AgentMessageOf<T>): Promise<void> {
+    await this.sendMessage('broadcast', message);
   }
 
   subscribeToEvents(eventType: string, callback: (event: AgentEvent) => void): void {
@@ -153,7 +211,7 @@ export abstract class BaseAgent implements IAgent, AgentOSInterface {
   }
 
   // Processing Methods
-  abstract processTask(taskData: any): Promise<any>;
+  abstract processTask(taskData: any, context?: TaskContext): Promise<any>;
 
   async handleError(error: Error, context: any): Promise<void> {
     console.error(`❌ Error in agent ${this.name}:`, error);
@@ -161,11 +219,11 @@ export abstract class BaseAgent implements IAgent, AgentOSInterface {
     this.metrics.errorRate += 1;
     
     const errorEvent: AgentEvent = {
-      id: `error-${Date.now()}`,
+      id: `error-${clock.now()}`,
       type: 'agent.error',
       agentId: this.id,
       data: { error: error.message, context },
-      timestamp: new Date(),
+      timestamp: clock.date(),
       severity: 'error'
     };
 
@@ -184,7 +242,7 @@ export abstract class BaseAgent implements IAgent, AgentOSInterface {
     // Basic formatting - override in specific agents
     return {
       agentId: this.id,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       data: output
     };
   }
@@ -203,12 +261,12 @@ export abstract class BaseAgent implements IAgent, AgentOSInterface {
         break;
     }
     
-    this.memory.lastAccessed = new Date();
+    this.memory.lastAccessed = clock.date();
     this.updateMemorySize();
   }
 
   retrieveMemory(key: string, type: 'short' | 'long' | 'working' = 'short'): any {
-    this.memory.lastAccessed = new Date();
+    this.memory.lastAccessed = clock.date();
     
     switch (type) {
       case 'short':
@@ -246,7 +304,7 @@ export abstract class BaseAgent implements IAgent, AgentOSInterface {
 
   async optimizeMemory(): Promise<void> {
     // Remove old short-term memories
-    const cutoffTime = new Date(Date.now() - 60 * 60 * 1000); // 1 hour ago
+    const cutoffTime = new Date(clock.now() - 60 * 60 * 1000); // 1 hour ago
     
     for (const [key, value] of this.memory.shortTerm.entries()) {
       if (value.timestamp && value.timestamp < cutoffTime) {
@@ -339,6 +397,19 @@ export abstract class BaseAgent implements IAgent, AgentOSInterface {
     return this.config.capabilities.includes(capability);
   }
 
+  // Capability records advertised to the capability registry on registration
+  describeCapabilities(): AgentCapability[] {
+    return this.config.capabilities.map((name: string) => ({
+      name,
+      description: name,
+      inputTypes: ['any'],
+      outputTypes: ['any'],
+      neurodiverseOptimized: this.config.neurodiverseOptimized,
+      processingTime: 1000,
+      ...this.describeCapability(name)
+    }));
+  }
+
   // Safety and Security
   validateSafety(action: any, context: any): boolean {
     // Basic safety validation - override in specific agents
@@ -347,11 +418,11 @@ export abstract class BaseAgent implements IAgent, AgentOSInterface {
 
   async reportSafetyIssue(issue: any): Promise<void> {
     const safetyEvent: AgentEvent = {
-      id: `safety-${Date.now()}`,
+      id: `safety-${clock.now()}`,
       type: 'safety.issue',
       agentId: this.id,
       data: issue,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       severity: 'critical'
     };
 
@@ -364,7 +435,93 @@ export abstract class BaseAgent implements IAgent, AgentOSInterface {
     this.emitEvent('agent.emergency_stop', { agentId: this.id });
   }
 
+  // Runtime Attachment
+  attachRuntime(runtime: AgentRuntime): void {
+    this.runtime = runtime;
+  }
+
+  detachRuntime(): void {
+    this.runtime = undefined;
+  }
+
+  // Quotas
+  // Space outgoing messages at least intervalMs apart; set by the Resource Allocator, 0 lifts it
+  setSendThrottle(intervalMs: number): void {
+    this.sendIntervalMs = Math.max(0, intervalMs);
+    if (this.sendIntervalMs === 0) this.nextSendAt = 0;
+  }
+
+  getSendThrottle(): number {
+    return this.sendIntervalMs;
+  }
+
+  // Bytes held in the memory maps, measured as serialized JSON
+  getMemoryFootprint(): number {
+    try {
+      const serialized = JSON.stringify([
+        Array.from(this.memory.shortTerm.entries()),
+        Array.from(this.memory.longTerm.entries()),
+        this.memory.workingMemory
+      ]);
+      return new TextEncoder().encode(serialized).length;
+    } catch {
+      // Circular or otherwise unserializable entries; the entry count is better than nothing
+      return this.memory.memorySize;
+    }
+  }
+
+  // Supervision
+  attachStateStore(store: AgentStateAdapter | undefined): void {
+    this.agentStateStore = store;
+  }
+
+  setCrashHandler(handler: AgentCrashHandler | undefined): void {
+    this.crashHandler = handler;
+  }
+
+  // Snapshot captureState() to the attached state store; a no-op for unsupervised agents
+  async saveState(): Promise<void> {
+    if (!this.agentStateStore) return;
+
+    try {
+      await this.agentStateStore.save({
+        agentId: this.id,
+        version: this.version,
+        state: this.captureState(),
+        savedAt: clock.date()
+      });
+    } catch (error) {
+      console.warn(`💾 Could not save state for agent ${this.name}:`, error);
+    }
+  }
+
+  // Returns false when there is no saved state to restore
+  async restoreState(): Promise<boolean> {
+    if (!this.agentStateStore) return false;
+
+    const snapshot = await this.agentStateStore.load(this.id);
+    if (!snapshot) return false;
+
+    this.applyState(snapshot.state);
+    console.log(`💾 Restored state for agent ${this.name} from ${snapshot.savedAt.toISOString()}`);
+    return true;
+  }
+
+  // Look up a peer by id or alias in the runtime this agent is attached to
+  protected findAgent(idOrAlias: string): BaseAgent | undefined {
+    return this.runtime?.getAgent(idOrAlias);
+  }
+
+  // Capabilities advertised in that runtime; detached agents see the shared registry
+  protected get capabilityRegistry(): CapabilityRegistry {
+    return this.runtime?.getCapabilityRegistry() || capabilityRegistry;
+  }
+
   // Protected methods for subclasses to override
+  protected describeCapability(capability: string): Partial<AgentCapability> {
+    return { description: capability.replace(/-/g, ' ') };
+  }
+
   protected async onStart(): Promise<void> {
     // Override in subclasses
   }
@@ -385,7 +542,56 @@ export abstract class BaseAgent implements IAgent, AgentOSInterface {
     // Override in subclasses
   }
 
-  protected abstract processMessage(message: AgentMessage): Promise<void>;
+  // Override in subclasses to add their own state; call super to keep memory and metrics
+  protected captureState(): any {
+    return {
+      memory: {
+        shortTerm: Array.from(this.memory.shortTerm.entries()),
+        longTerm: Array.from(this.memory.longTerm.entries()),
+        workingMemory: this.memory.workingMemory
+      },
+      tasksCompleted: this.metrics.tasksCompleted
+    };
+  }
+
+  protected applyState(state: any): void {
+    if (state.memory) {
+      this.memory.shortTerm = new Map(state.memory.shortTerm || []);
+      this.memory.longTerm = new Map(state.memory.longTerm || []);
+      this.memory.workingMemory = state.memory.workingMemory || {};
+      this.updateMemorySize();
+    }
+    this.metrics.tasksCompleted = state.tasksCompleted ?? this.metrics.tasksCompleted;
+  }
+
+  protected abstract processMessage(message: TypedAgentMessage): Promise<void>;
+
+  // Events from the agent's Event Bus subscriptions go to the listeners added with subscribeToEvents,
+  // which may be registered under a topic pattern ('user.interaction.*') like the subscription itself
+  protected handleEventNotification(event: AgentEvent): void {
+    for (const [pattern, listeners] of this.eventListeners.entries()) {
+      if (!matchesTopic(pattern, event.type)) continue;
+      listeners.forEach(callback => callback(event));
+    }
+  }
+
+  // Workflow steps and their compensations; the orchestrator waits for the workflow-task-result,
+  // so a failing task is reported back rather than only logged here
+  protected async handleWorkflowTask(message: AgentMessage): Promise<void> {
+    let result: { success: boolean; output?: any; error?: string };
+    try {
+      result = { success: true, output: await this.performWorkflowTask(message.data) };
+    } catch (error) {
+      result = { success: false, error: (error as Error).message };
+    }
+
+    await this.respondTo(message, { type: 'workflow-task-result', data: result, priority: message.priority });
+  }
+
+  // The step's `task` names the processTask type to run; steps without one use their action
+  protected async performWorkflowTask(task: { action: string; task?: string; inputData?: any }): Promise<any> {
+    return this.processTask({ type: task.task || task.action, userId: task.inputData?.userId, data: task.inputData });
+  }
 
   protected async applyNeurodiverseOptimizations(profile: NeurodiverseProfile): Promise<void> {
     // Override in subclasses for specific optimizations
@@ -400,18 +606,104 @@ export abstract class BaseAgent implements IAgent, AgentOSInterface {
     // Initialize memory structures
   }
 
-  private async saveState(): Promise<void> {
-    // Save agent state for recovery
+  private generateMessageId(): string {
+    return `msg-${clock.now()}-${random.next().toString(36).substr(2, 9)}`;
+  }
+
+  private async dispatchMessage(targetAgentId: string, message: AgentMessage, messageId: string): Promise<void> {
+    await this.waitForSendSlot();
+
+    message.id = messageId;
+    message.fromAgentId = this.id;
+    message.toAgentId = targetAgentId;
+    message.timestamp = clock.date();
+
+    // Route through the agent runtime
+    await this.forwardToRuntime(message);
+    
+    this.metrics.lastActivity = clock.date();
+  }
+
+  // Forward a message that is already addressed, keeping its original sender
+  protected async relayMessage(message: AgentMessage): Promise<void> {
+    await this.forwardToRuntime(message);
+  }
+
+  // Publish on the Event Bus; a missing or failing bus never breaks the caller
+  protected async publishToEventBus(eventType: string, data: any, severity: AgentEvent['severity'] = 'info'): Promise<void> {
+    try {
+      await this.sendMessage('event-bus', {
+        id: '',
+        fromAgentId: this.id,
+        toAgentId: 'event-bus',
+        type: 'event-publish',
+        data: {
+          event: {
+            id: `${eventType}-${this.id}-${clock.now()}`,
+            type: eventType,
+            agentId: this.id,
+            data,
+            timestamp: clock.date(),
+            severity
+          }
+        },
+        priority: severity === 'critical' || severity === 'error' ? 'high' : 'low',
+        timestamp: clock.date(),
+        requiresResponse: false
+      });
+    } catch (error) {
+      console.warn(`${this.name} could not publish ${eventType}:`, error);
+    }
   }
 
-  private async routeMessage(message: AgentMessage): Promise<void> {
-    // Route message through communication system
-    // This would integrate with the MessageRouter agent
+  // Charge spending the Resource Allocator cannot see, such as model tokens, to the resource ledger
+  protected async reportResourceUsage(usage: any, attribution: { allocationId?: string; workflowId?: string; sessionId?: string; studentId?: string } = {}): Promise<void> {
+    try {
+      await this.sendMessage('resource-allocator', {
+        id: '',
+        fromAgentId: this.id,
+        toAgentId: 'resource-allocator',
+        type: 'resource-usage-report',
+        data: { usage, ...attribution },
+        priority: 'low',
+        timestamp: clock.date(),
+        requiresResponse: false
+      });
+    } catch (error) {
+      console.warn(`${this.name} could not report resource usage:`, error);
+    }
+  }
+
+  // Throttled agents queue up behind their own earlier sends
+  private async waitForSendSlot(): Promise<void> {
+    if (this.sendIntervalMs === 0) return;
+
+    const now = clock.now();
+    const sendAt = Math.max(now, this.nextSendAt);
+    this.nextSendAt = sendAt + this.sendIntervalMs;
+    if (sendAt > now) {
+      await scheduler.sleep(sendAt - now);
+    }
+  }
+
+  private async forwardToRuntime(message: AgentMessage): Promise<void> {
+    if (!this.runtime) {
+      console.warn(`📭 Agent ${this.name} has no runtime, message ${message.id} to ${message.toAgentId} not delivered`);
+      return;
+    }
+
+    await this.runtime.deliver(message);
   }
 
   private async attemptRecovery(error: Error, context: any): Promise<void> {
-    // Attempt to recover from error
-    console.log(`🔄 Attempting recovery for agent: ${this.name}`);
+    if (!this.crashHandler) {
+      console.log(`🔄 No supervisor to recover agent: ${this.name}`);
+      return;
+    }
+
+    // The supervisor replaces this instance with a fresh one restored from the last saved state
+    console.log(`🔄 Handing crashed agent ${this.name} to its supervisor`);
+    await this.crashHandler(this, error, context);
   }
 
   private updateMemorySize(): void {
@@ -425,11 +717,11 @@ export abstract class BaseAgent implements IAgent, AgentOSInterface {
 
   private emitEvent(eventType: string, data: any): void {
     const event: AgentEvent = {
-      id: `event-${Date.now()}`,
+      id: `event-${clock.now()}`,
       type: eventType,
       agentId: this.id,
       data,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       severity: 'info'
     };
 
@@ -448,17 +740,17 @@ export abstract class BaseAgent implements IAgent, AgentOSInterface {
     
     // In a real implementation, this would communicate with the ResourceAllocator
     // For now, we'll simulate resource allocation
-    const allocationId = `alloc-${this.id}-${Date.now()}`;
+    const allocationId = `alloc-${this.id}-${clock.now()}`;
     const allocation: ResourceAllocation = {
       allocationId,
-      expiresAt: resources.duration ? new Date(Date.now() + resources.duration) : undefined
+      expiresAt: resources.duration ? new Date(clock.now() + resources.duration) : undefined
     };
 
     // Simulate resource allocation based on request
     if (resources.memory) {
       allocation.memory = {
         allocated: resources.memory,
-        address: `0x${Math.random().toString(16).substr(2, 8)}`,
+        address: `0x${random.next().toString(16).substr(2, 8)}`,
         type: 'heap'
       };
     }
@@ -492,7 +784,7 @@ export abstract class BaseAgent implements IAgent, AgentOSInterface {
     console.log(`📝 Registering ${this.name} with AgentricAI OS`);
     this.storeMemory('os_registration', {
       registered: true,
-      registeredAt: new Date(),
+      registeredAt: clock.date(),
       agentId: this.id,
       capabilities: this.config.capabilities
     }, 'long');
@@ -567,5 +859,3 @@ export abstract class BaseAgent implements IAgent, AgentOSInterface {
     // Default implementation - can be overridden by specific agents
   }
 }
-
-export { BaseAgent }
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { CapabilityRegistry } from './CapabilityRegistry';
+import { ContentGenerator } from '../content/ContentGenerator';
+import { DifficultyAdapter } from '../content/DifficultyAdapter';
+import { SensoryOptimizer } from '../content/SensoryOptimizer';
+
+describe('CapabilityRegistry', () => {
+  it('picks an agent that can run the task, not just one advertising the capability', () => {
+    const registry = new CapabilityRegistry();
+    for (const agent of [new ContentGenerator(), new DifficultyAdapter(), new SensoryOptimizer()]) {
+      registry.register(agent.id, agent.describeCapabilities());
+    }
+    // Lists no tasks, so it is only a fallback
+    registry.register('sensory-processor-001', ['sensory-optimization']);
+
+    expect(registry.findProviders('difficulty-adaptation')).toEqual(['content-generator-001', 'difficulty-adapter-001']);
+    expect(registry.selectAgent('difficulty-adaptation', 'least-loaded', [], 'adapt_content_difficulty')).toBe('difficulty-adapter-001');
+    expect(registry.selectAgent('difficulty-adaptation', 'least-loaded', [], 'adapt_difficulty')).toBe('content-generator-001');
+    expect(registry.selectAgent('sensory-optimization', 'least-loaded', [], 'optimize_content')).toBe('sensory-optimizer-001');
+    expect(registry.selectAgent('sensory-optimization', 'least-loaded', [], 'optimize_environment')).toBe('sensory-processor-001');
+  });
+});
@@ -0,0 +1,259 @@
+// Capability Registry - Service discovery and load balancing across agent capabilities
+// Agents advertise AgentCapability records when they join the runtime; the Message Router
+// and Workflow Orchestrator both pick targets from here using live load and health.
+
+import { AgentCapability } from './AgentTypes';
+import { clock, random } from './AgentEnvironment';
+
+export type LoadBalancingStrategy = 'least-loaded' | 'weighted' | 'round-robin';
+
+export type AgentHealthStatus = 'healthy' | 'warning' | 'unavailable' | 'unknown';
+
+export interface AgentRegistration {
+  agentId: string;
+  capabilities: AgentCapability[];
+  weight: number;
+  registeredAt: Date;
+  inFlight: number;
+  dispatched: number;
+  lastDispatchAt?: Date;
+}
+
+export interface AgentLoadSnapshot {
+  agentId: string;
+  queueDepth: number;
+  inFlight: number;
+  load: number;
+  health: AgentHealthStatus;
+  weight: number;
+  processingTime: number;
+}
+
+export interface RegistrationOptions {
+  weight?: number;
+  // Reports the agent's health; agents without one are assumed reachable
+  healthCheck?: () => AgentHealthStatus;
+}
+
+const DEFAULT_PROCESSING_TIME = 1000;
+
+export class CapabilityRegistry {
+  private static instance: CapabilityRegistry;
+  private registrations: Map<string, AgentRegistration> = new Map();
+  private healthChecks: Map<string, () => AgentHealthStatus> = new Map();
+  private queueDepthSources: Map<string, (agentId: string) => number> = new Map();
+  private roundRobinCursors: Map<string, number> = new Map();
+  private defaultStrategy: LoadBalancingStrategy = 'least-loaded';
+
+  static getInstance(): CapabilityRegistry {
+    if (!CapabilityRegistry.instance) {
+      CapabilityRegistry.instance = new CapabilityRegistry();
+    }
+    return CapabilityRegistry.instance;
+  }
+
+  // Registration
+  register(agentId: string, capabilities: (AgentCapability | string)[], options: RegistrationOptions = {}): AgentRegistration {
+    const existing = this.registrations.get(agentId);
+    const registration: AgentRegistration = {
+      agentId,
+      capabilities: capabilities.map(normalizeCapability),
+      weight: Math.max(0, options.weight ?? existing?.weight ?? 1),
+      registeredAt: existing?.registeredAt || clock.date(),
+      inFlight: existing?.inFlight || 0,
+      dispatched: existing?.dispatched || 0,
+      lastDispatchAt: existing?.lastDispatchAt
+    };
+
+    this.registrations.set(agentId, registration);
+    if (options.healthCheck) {
+      this.healthChecks.set(agentId, options.healthCheck);
+    }
+
+    console.log(`🧭 Capabilities registered for ${agentId}: ${registration.capabilities.map(c => c.name).join(', ')}`);
+    return registration;
+  }
+
+  unregister(agentId: string): void {
+    this.registrations.delete(agentId);
+    this.healthChecks.delete(agentId);
+  }
+
+  isRegistered(agentId: string): boolean {
+    return this.registrations.has(agentId);
+  }
+
+  getRegistration(agentId: string): AgentRegistration | undefined {
+    return this.registrations.get(agentId);
+  }
+
+  listRegistrations(): AgentRegistration[] {
+    return Array.from(this.registrations.values());
+  }
+
+  // Discovery. With a task, agents that list it serve the capability; agents that list no tasks
+  // are only used when none does, and agents that list other tasks never are.
+  findProviders(capability: string, task?: string): string[] {
+    const providers = this.listRegistrations()
+      .map(registration => ({ agentId: registration.agentId, capability: registration.capabilities.find(c => c.name === capability) }))
+      .filter(provider => provider.capability);
+    if (!task) return providers.map(provider => provider.agentId);
+
+    const listing = providers.filter(provider => provider.capability!.tasks?.includes(task));
+    return (listing.length > 0 ? listing : providers.filter(provider => !provider.capability!.tasks))
+      .map(provider => provider.agentId);
+  }
+
+  findProvidersForInput(inputType: string): string[] {
+    return this.listRegistrations()
+      .filter(registration => registration.capabilities.some(c =>
+        c.inputTypes.includes(inputType) || c.inputTypes.includes('any')
+      ))
+      .map(registration => registration.agentId);
+  }
+
+  getCapability(agentId: string, capability: string): AgentCapability | undefined {
+    return this.registrations.get(agentId)?.capabilities.find(c => c.name === capability);
+  }
+
+  // Live load
+  addQueueDepthSource(sourceId: string, source: (agentId: string) => number): void {
+    this.queueDepthSources.set(sourceId, source);
+  }
+
+  removeQueueDepthSource(sourceId: string): void {
+    this.queueDepthSources.delete(sourceId);
+  }
+
+  // Call the returned function once the dispatched work has finished
+  beginDispatch(agentId: string): () => void {
+    const registration = this.registrations.get(agentId);
+    if (!registration) return () => {};
+
+    registration.inFlight += 1;
+    registration.dispatched += 1;
+    registration.lastDispatchAt = clock.date();
+
+    let finished = false;
+    return () => {
+      if (finished) return;
+      finished = true;
+      registration.inFlight = Math.max(0, registration.inFlight - 1);
+    };
+  }
+
+  getLoadSnapshot(agentId: string, capability?: string): AgentLoadSnapshot {
+    const registration = this.registrations.get(agentId);
+    let queueDepth = 0;
+    for (const source of this.queueDepthSources.values()) {
+      queueDepth += source(agentId);
+    }
+    const inFlight = registration?.inFlight || 0;
+
+    return {
+      agentId,
+      queueDepth,
+      inFlight,
+      load: queueDepth + inFlight,
+      health: this.checkHealth(agentId),
+      weight: registration?.weight ?? 0,
+      processingTime: (capability && this.getCapability(agentId, capability)?.processingTime) || DEFAULT_PROCESSING_TIME
+    };
+  }
+
+  // Selection
+  setDefaultStrategy(strategy: LoadBalancingStrategy): void {
+    this.defaultStrategy = strategy;
+  }
+
+  getDefaultStrategy(): LoadBalancingStrategy {
+    return this.defaultStrategy;
+  }
+
+  selectAgent(capability: string, strategy: LoadBalancingStrategy = this.defaultStrategy, exclude: string[] = [], task?: string): string | null {
+    const candidates = this.rankCandidates(capability, exclude, task);
+    if (candidates.length === 0) return null;
+
+    switch (strategy) {
+      case 'round-robin':
+        return this.selectRoundRobin(capability, candidates);
+
+      case 'weighted':
+        return this.selectWeighted(candidates);
+
+      case 'least-loaded':
+      default:
+        return this.selectLeastLoaded(candidates);
+    }
+  }
+
+  // Healthy candidates when there are any, otherwise those with warnings; never unavailable ones
+  private rankCandidates(capability: string, exclude: string[], task?: string): AgentLoadSnapshot[] {
+    const snapshots = this.findProviders(capability, task)
+      .filter(agentId => !exclude.includes(agentId))
+      .map(agentId => this.getLoadSnapshot(agentId, capability))
+      .filter(snapshot => snapshot.health !== 'unavailable');
+
+    const preferred = snapshots.filter(snapshot => snapshot.health === 'healthy' || snapshot.health === 'unknown');
+    return preferred.length > 0 ? preferred : snapshots;
+  }
+
+  private selectLeastLoaded(candidates: AgentLoadSnapshot[]): string {
+    const ranked = [...candidates].sort((a, b) =>
+      a.load - b.load ||
+      a.processingTime - b.processingTime ||
+      (this.registrations.get(a.agentId)?.dispatched || 0) - (this.registrations.get(b.agentId)?.dispatched || 0)
+    );
+    return ranked[0].agentId;
+  }
+
+  private selectWeighted(candidates: AgentLoadSnapshot[]): string {
+    // Heavier weights win more often; every queued or in-flight message halves the odds again
+    const scores = candidates.map(candidate => candidate.weight / (1 + candidate.load));
+    const total = scores.reduce((sum, score) => sum + score, 0);
+    if (total <= 0) return this.selectLeastLoaded(candidates);
+
+    let pick = random.next() * total;
+    for (let i = 0; i < candidates.length; i++) {
+      pick -= scores[i];
+      if (pick <= 0) return candidates[i].agentId;
+    }
+    return candidates[candidates.length - 1].agentId;
+  }
+
+  private selectRoundRobin(capability: string, candidates: AgentLoadSnapshot[]): string {
+    const ordered = [...candidates].sort((a, b) => a.agentId.localeCompare(b.agentId));
+    const cursor = this.roundRobinCursors.get(capability) || 0;
+    this.roundRobinCursors.set(capability, cursor + 1);
+    return ordered[cursor % ordered.length].agentId;
+  }
+
+  private checkHealth(agentId: string): AgentHealthStatus {
+    if (!this.registrations.has(agentId)) return 'unavailable';
+
+    const healthCheck = this.healthChecks.get(agentId);
+    if (!healthCheck) return 'unknown';
+
+    try {
+      return healthCheck();
+    } catch {
+      return 'unavailable';
+    }
+  }
+}
+
+function normalizeCapability(capability: AgentCapability | string): AgentCapability {
+  if (typeof capability !== 'string') return capability;
+
+  return {
+    name: capability,
+    description: capability.replace(/-/g, ' '),
+    inputTypes: ['any'],
+    outputTypes: ['any'],
+    neurodiverseOptimized: false,
+    processingTime: DEFAULT_PROCESSING_TIME
+  };
+}
+
+// Export singleton instance
+export const capabilityRegistry = CapabilityRegistry.getInstance();
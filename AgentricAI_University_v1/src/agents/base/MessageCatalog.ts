@@ -0,0 +1,1251 @@
+// Message Catalog - Typed contracts for every AgentMessage type exchanged between agents
+// Each entry names the payload fields its consumers read, which agents send it and which
+// handle it. BaseAgent.receiveMessage validates incoming messages against this catalog.
+
+import type { AgentMessage } from './AgentTypes';
+
+// Field kinds; a trailing '?' marks the field optional. A payload of 'any' is free-form.
+export type PayloadFieldKind = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'any';
+export type PayloadField = PayloadFieldKind | `${PayloadFieldKind}?`;
+export type PayloadSchema = Readonly<Record<string, PayloadField>> | 'any';
+
+export interface MessageContract {
+  readonly description: string;
+  readonly producers: readonly string[];
+  readonly consumers: readonly string[];
+  readonly payload: PayloadSchema;
+}
+
+export const MESSAGE_CATALOG = {
+  // General purpose
+  'direct-communication': {
+    description: 'Free-form message between two agents',
+    producers: [],
+    consumers: [],
+    payload: 'any'
+  },
+  'status-update': {
+    description: 'Agent status change',
+    producers: [],
+    consumers: [],
+    payload: { status: 'string', details: 'any?' }
+  },
+  'system-command': {
+    description: 'Command issued by the Core OS',
+    producers: [],
+    consumers: [],
+    payload: { command: 'string', parameters: 'any?' }
+  },
+  'safety-alert': {
+    description: 'Safety concern raised about a learner or content',
+    producers: [],
+    consumers: [],
+    payload: { alert: 'any', userId: 'string?' }
+  },
+  'workflow-trigger': {
+    description: 'Request to start a workflow from a template',
+    producers: [],
+    consumers: [],
+    payload: { workflowType: 'string', parameters: 'object?' }
+  },
+
+  // Learning
+  'learning-assessment': {
+    description: 'Assess a learner; replies with assessment-response',
+    producers: ['LearningCoordinator'],
+    consumers: ['LearningCoordinator'],
+    payload: { userId: 'string', assessment: 'object?' }
+  },
+  'assessment-response': {
+    description: 'Learning assessment result',
+    producers: ['LearningCoordinator'],
+    consumers: [],
+    payload: { assessment: 'object' }
+  },
+  'progress-update': {
+    description: 'Student progress recorded by a teacher',
+    producers: ['TeacherAgent'],
+    consumers: ['LearningCoordinator', 'DifficultyAdapter'],
+    payload: { studentId: 'string', progress: 'object' }
+  },
+  'content-adaptation-request': {
+    description: 'Adapt content to a learner profile; replies with adapted-content',
+    producers: [],
+    consumers: ['LearningCoordinator'],
+    payload: { content: 'object', userProfile: 'object' }
+  },
+  'adapted-content': {
+    description: 'Content adapted by the learning coordinator',
+    producers: ['LearningCoordinator'],
+    consumers: [],
+    payload: { adaptedContent: 'any' }
+  },
+
+  // Behavior
+  'behavior-analysis': {
+    description: 'Analyze interaction patterns; replies with behavior-analysis-response',
+    producers: [],
+    consumers: ['BehaviorAnalyst'],
+    payload: { userId: 'string', interactions: 'array' }
+  },
+  'behavior-analysis-response': {
+    description: 'Behavior pattern analysis',
+    producers: ['BehaviorAnalyst'],
+    consumers: [],
+    payload: { analysis: 'object' }
+  },
+  'engagement-update': {
+    description: 'Session engagement data for a learner',
+    producers: [],
+    consumers: ['BehaviorAnalyst'],
+    payload: { userId: 'string', sessionData: 'object' }
+  },
+  'sensory-assessment': {
+    description: 'Request a learner sensory profile; replies with sensory-profile-response',
+    producers: [],
+    consumers: ['BehaviorAnalyst'],
+    payload: { userId: 'string' }
+  },
+  'sensory-profile-response': {
+    description: 'Sensory profile of a learner',
+    producers: ['BehaviorAnalyst'],
+    consumers: [],
+    payload: { userId: 'string', profile: 'object' }
+  },
+  'start-monitoring': {
+    description: 'Start monitoring a learner session',
+    producers: [],
+    consumers: ['InteractionMonitor'],
+    payload: { userId: 'string', sessionId: 'string' }
+  },
+  'interaction-event': {
+    description: 'Single learner interaction in a monitored session',
+    producers: [],
+    consumers: ['InteractionMonitor'],
+    payload: { userId: 'string', interaction: 'object' }
+  },
+  'interaction-alert': {
+    description: 'Alert raised while monitoring a session',
+    producers: ['InteractionMonitor'],
+    consumers: [],
+    payload: { userId: 'string', alert: 'object' }
+  },
+  'monitoring-status': {
+    description: 'Request monitoring status; replies with monitoring-status-response',
+    producers: [],
+    consumers: ['InteractionMonitor'],
+    payload: { userId: 'string' }
+  },
+  'monitoring-status-response': {
+    description: 'Current monitoring session, or null',
+    producers: ['InteractionMonitor'],
+    consumers: [],
+    payload: { userId: 'string', session: 'any' }
+  },
+  'sensory-analysis-request': {
+    description: 'Analyze sensory responses; replies with sensory-analysis-response',
+    producers: [],
+    consumers: ['SensoryProcessor'],
+    payload: { userId: 'string', responseData: 'any' }
+  },
+  'sensory-analysis-response': {
+    description: 'Sensory response analysis',
+    producers: ['SensoryProcessor'],
+    consumers: [],
+    payload: { analysis: 'object' }
+  },
+  'trigger-detection-request': {
+    description: 'Detect sensory triggers in interactions; replies with triggers-detected',
+    producers: [],
+    consumers: ['SensoryProcessor'],
+    payload: { userId: 'string', interactions: 'array' }
+  },
+  'stress-trigger-detection-request': {
+    description: 'Detect triggers from visual, auditory and interaction stress readings; replies with triggers-detected',
+    producers: [],
+    consumers: ['SensoryOptimizer'],
+    payload: { userId: 'string', interactionData: 'object' }
+  },
+  'triggers-detected': {
+    description: 'Sensory triggers found for a learner',
+    producers: ['SensoryProcessor', 'SensoryOptimizer'],
+    consumers: [],
+    payload: { userId: 'string', triggers: 'array' }
+  },
+  'sensory-adaptation-request': {
+    description: 'Generate sensory adaptations for a context; replies with adaptations-generated',
+    producers: [],
+    consumers: ['SensoryProcessor'],
+    payload: { userId: 'string', context: 'any' }
+  },
+  'adaptations-generated': {
+    description: 'Sensory adaptations for a learner',
+    producers: ['SensoryProcessor'],
+    consumers: [],
+    payload: { userId: 'string', adaptations: 'any' }
+  },
+
+  // Content
+  'content-request': {
+    description: 'Generate content from requirements; replies with content-generated',
+    producers: ['LearningCoordinator', 'TeacherAgent'],
+    consumers: ['ContentGenerator'],
+    payload: { requirements: 'object', lessonPlan: 'object?' }
+  },
+  'content-generated': {
+    description: 'Newly generated content',
+    producers: ['ContentGenerator'],
+    consumers: [],
+    payload: { content: 'object' }
+  },
+  'adaptation-request': {
+    description: 'Adapt content difficulty, sensory load or instruction; replies with content-adapted',
+    producers: ['TeacherAgent'],
+    consumers: ['ContentGenerator'],
+    payload: { content: 'any', adaptationType: 'string', parameters: 'any?' }
+  },
+  'content-adapted': {
+    description: 'Adapted content',
+    producers: ['ContentGenerator', 'DifficultyAdapter'],
+    consumers: [],
+    payload: { adaptedContent: 'any' }
+  },
+  'validation-request': {
+    description: 'Check content safety; replies with validation-result',
+    producers: [],
+    consumers: ['ContentGenerator'],
+    payload: { content: 'object' }
+  },
+  'validation-result': {
+    description: 'Content safety verdict',
+    producers: ['ContentGenerator'],
+    consumers: [],
+    payload: { contentId: 'any', isValid: 'boolean' }
+  },
+  'difficulty-analysis-request': {
+    description: 'Analyze session difficulty; replies with difficulty-analysis-response',
+    producers: [],
+    consumers: ['DifficultyAdapter'],
+    payload: { userId: 'string', sessionData: 'object' }
+  },
+  'difficulty-analysis-response': {
+    description: 'Difficulty analysis for a session',
+    producers: ['DifficultyAdapter'],
+    consumers: [],
+    payload: { analysis: 'object' }
+  },
+  'difficulty-adaptation-request': {
+    description: 'Move content to a target difficulty; replies with content-adapted',
+    producers: [],
+    consumers: ['DifficultyAdapter'],
+    payload: { content: 'any', targetDifficulty: 'any', userId: 'string' }
+  },
+  'sensory-optimization-request': {
+    description: 'Optimize content for a sensory profile; replies with content-optimized',
+    producers: [],
+    consumers: ['SensoryOptimizer'],
+    payload: { content: 'any', sensoryProfile: 'object' }
+  },
+  'content-optimized': {
+    description: 'Sensory-optimized content',
+    producers: ['SensoryOptimizer'],
+    consumers: [],
+    payload: { optimizedContent: 'any' }
+  },
+  'comfort-assessment-request': {
+    description: 'Assess learner comfort with content; replies with comfort-assessment-complete',
+    producers: [],
+    consumers: ['SensoryOptimizer'],
+    payload: { userId: 'string', content: 'any', feedback: 'any?' }
+  },
+  'comfort-assessment-complete': {
+    description: 'Comfort assessment result',
+    producers: ['SensoryOptimizer'],
+    consumers: [],
+    payload: { assessment: 'object' }
+  },
+  'sensory-break-request': {
+    description: 'Schedule a sensory break for students',
+    producers: ['TeacherAgent'],
+    consumers: [],
+    payload: { students: 'array', duration: 'number' }
+  },
+
+  // Errors
+  'error-report': {
+    description: 'Report an error for analysis; replies with error-analysis-response',
+    producers: [],
+    consumers: ['ErrorHandler'],
+    payload: { error: 'any', context: 'any?' }
+  },
+  'error-analysis-response': {
+    description: 'Error analysis',
+    producers: ['ErrorHandler'],
+    consumers: [],
+    payload: { analysis: 'object' }
+  },
+  'fix-request': {
+    description: 'Generate a fix for an analyzed error; replies with fix-generated',
+    producers: [],
+    consumers: ['ErrorHandler'],
+    payload: { errorAnalysis: 'object' }
+  },
+  'fix-generated': {
+    description: 'Proposed fix',
+    producers: ['ErrorHandler'],
+    consumers: [],
+    payload: { fix: 'object' }
+  },
+  'safety-validation-request': {
+    description: 'Check a fix is safe to apply; replies with safety-validation-response',
+    producers: [],
+    consumers: ['ErrorHandler'],
+    payload: { fix: 'object', context: 'any?' }
+  },
+  'safety-validation-response': {
+    description: 'Fix safety verdict',
+    producers: ['ErrorHandler'],
+    consumers: [],
+    payload: { validation: 'object' }
+  },
+
+  // Knowledge
+  'knowledge-request': {
+    description: 'Look up a knowledge entry; replies with knowledge-response',
+    producers: [],
+    consumers: ['KnowledgeManager'],
+    payload: { category: 'string', key: 'string' }
+  },
+  'knowledge-response': {
+    description: 'Knowledge entry, if found',
+    producers: ['KnowledgeManager'],
+    consumers: [],
+    payload: { category: 'string', key: 'string', knowledge: 'any' }
+  },
+  'knowledge-update': {
+    description: 'Store a knowledge entry',
+    producers: [],
+    consumers: ['KnowledgeManager'],
+    // Stored under the sending agent; without a confidence it counts as fairly but not fully certain
+    payload: { category: 'string', key: 'string', value: 'any', confidence: 'number?' }
+  },
+  'search-request': {
+    description: 'Search the knowledge base; replies with search-results',
+    producers: [],
+    consumers: ['KnowledgeManager'],
+    payload: { query: 'string' }
+  },
+  'search-results': {
+    description: 'Knowledge search results',
+    producers: ['KnowledgeManager'],
+    consumers: [],
+    payload: { query: 'string', results: 'array' }
+  },
+  'pattern-analysis-request': {
+    description: 'Analyze knowledge patterns; replies with pattern-analysis-response',
+    producers: [],
+    consumers: ['KnowledgeManager'],
+    payload: {}
+  },
+  'pattern-analysis-response': {
+    description: 'Knowledge pattern analysis',
+    producers: ['KnowledgeManager'],
+    consumers: [],
+    payload: { analysis: 'object' }
+  },
+  'data-analysis-request': {
+    description: 'Analyze learner data over a timeframe; replies with data-analysis-response',
+    producers: [],
+    consumers: ['DataAnalyst'],
+    payload: { userId: 'string', timeframe: 'string?' }
+  },
+  'data-analysis-response': {
+    description: 'Learner data analysis',
+    producers: ['DataAnalyst'],
+    consumers: [],
+    payload: { analysis: 'object' }
+  },
+  'insight-generation-request': {
+    description: 'Generate insights from a data set; replies with insights-generated',
+    producers: [],
+    consumers: ['DataAnalyst'],
+    payload: { dataSet: 'any', analysisType: 'string' }
+  },
+  'insights-generated': {
+    description: 'Generated insights',
+    producers: ['DataAnalyst'],
+    consumers: [],
+    payload: { insights: 'any' }
+  },
+  'prediction-request': {
+    description: 'Predict outcomes for a scenario; replies with prediction-response',
+    producers: [],
+    consumers: ['DataAnalyst'],
+    payload: { userId: 'string', scenario: 'any' }
+  },
+  'prediction-response': {
+    description: 'Outcome prediction',
+    producers: ['DataAnalyst'],
+    consumers: [],
+    payload: { prediction: 'object' }
+  },
+  'trend-analysis-request': {
+    description: 'Analyze trends for a data type; replies with trend-analysis-response',
+    producers: [],
+    consumers: ['DataAnalyst'],
+    payload: { dataType: 'string', timeframe: 'string' }
+  },
+  'trend-analysis-response': {
+    description: 'Trend analysis',
+    producers: ['DataAnalyst'],
+    consumers: [],
+    payload: { trends: 'any' }
+  },
+  'memory-optimization-request': {
+    description: "Optimize an agent's memory; replies with memory-optimization-complete",
+    producers: [],
+    consumers: ['MemoryOptimizer'],
+    payload: { agentId: 'string' }
+  },
+  'memory-optimization-complete': {
+    description: 'Memory optimization result',
+    producers: ['MemoryOptimizer'],
+    consumers: [],
+    payload: { optimization: 'object' }
+  },
+  'garbage-collection-request': {
+    description: "Collect an agent's unused memory; replies with garbage-collection-complete",
+    producers: [],
+    consumers: ['MemoryOptimizer'],
+    payload: { agentId: 'string' }
+  },
+  'garbage-collection-complete': {
+    description: 'Garbage collection result',
+    producers: ['MemoryOptimizer'],
+    consumers: [],
+    payload: { collection: 'object' }
+  },
+  'memory-analysis-request': {
+    description: "Analyze an agent's memory use; replies with memory-analysis-response",
+    producers: [],
+    consumers: ['MemoryOptimizer'],
+    payload: { agentId: 'string' }
+  },
+  'memory-analysis-response': {
+    description: 'Memory usage analysis',
+    producers: ['MemoryOptimizer'],
+    consumers: [],
+    payload: { analysis: 'object' }
+  },
+
+  // Communication
+  'route-request': {
+    description: 'Route the enclosed message to its target',
+    producers: [],
+    consumers: ['MessageRouter'],
+    payload: { targetMessage: 'object' }
+  },
+  'agent-registration': {
+    description: 'Register an agent and its capabilities with the router',
+    producers: [],
+    consumers: ['MessageRouter'],
+    payload: { agentId: 'string', capabilities: 'array', weight: 'number?' }
+  },
+  'workflow-coordination': {
+    description: 'Hand a workflow to the router for coordination',
+    producers: [],
+    consumers: ['MessageRouter'],
+    payload: { workflowId: 'string' }
+  },
+  'emergency-broadcast': {
+    description: 'Emergency message relayed to every registered agent',
+    producers: ['MessageRouter'],
+    consumers: ['MessageRouter'],
+    payload: 'any'
+  },
+  'coordinated-task': {
+    description: 'Subtask of a task coordinated across several agents',
+    producers: ['MessageRouter'],
+    consumers: [],
+    payload: { coordinationId: 'string', subtask: 'any', dependencies: 'array' }
+  },
+  'workflow-step': {
+    description: 'Workflow step dispatched by the router',
+    producers: ['MessageRouter'],
+    consumers: [],
+    payload: { workflowId: 'string', step: 'object', inputData: 'any?' }
+  },
+  'event-publish': {
+    description: 'Publish an event on the event bus',
+    producers: ['InteractionMonitor', 'ErrorHandler'],
+    consumers: ['EventBus'],
+    payload: { event: 'object' }
+  },
+  'event-subscribe': {
+    description: "Subscribe an agent to an event type or topic pattern ('user.session.*', 'workflow.#'); replies with subscription-confirmed",
+    producers: [],
+    consumers: ['EventBus'],
+    payload: { agentId: 'string', eventType: 'string', filter: 'any?', resume: 'boolean?', fromSequence: 'number?', buffer: 'object?' }
+  },
+  'subscription-confirmed': {
+    description: 'Event subscription id',
+    producers: ['EventBus'],
+    consumers: [],
+    payload: { subscriptionId: 'string' }
+  },
+  'event-unsubscribe': {
+    description: 'Remove an event subscription; replies with unsubscription-confirmed',
+    producers: [],
+    consumers: ['EventBus'],
+    payload: { agentId: 'string', eventType: 'string' }
+  },
+  'unsubscription-confirmed': {
+    description: 'Event subscription removed',
+    producers: ['EventBus'],
+    consumers: [],
+    payload: { agentId: 'string', eventType: 'string' }
+  },
+  'event-history-request': {
+    description: 'Fetch past events; replies with event-history-response',
+    producers: [],
+    consumers: ['EventBus'],
+    payload: { eventType: 'string?', timeframe: 'any?' }
+  },
+  'event-history-response': {
+    description: 'Past events',
+    producers: ['EventBus'],
+    consumers: [],
+    payload: { history: 'array' }
+  },
+  'event-notification': {
+    description: 'Event delivered to a subscriber; agents hand it to their subscribeToEvents listeners',
+    producers: ['EventBus'],
+    consumers: ['BaseAgent'],
+    payload: { event: 'object' }
+  },
+
+  // Workflows
+  'workflow-create-request': {
+    description: 'Create a workflow from a template; replies with workflow-created',
+    producers: [],
+    consumers: ['WorkflowOrchestrator'],
+    payload: { templateName: 'string', parameters: 'object?' }
+  },
+  'workflow-created': {
+    description: 'Id of the created workflow',
+    producers: ['WorkflowOrchestrator'],
+    consumers: [],
+    payload: { workflowId: 'string' }
+  },
+  'workflow-execute-request': {
+    description: 'Run a workflow; replies with workflow-execution-complete',
+    producers: [],
+    consumers: ['WorkflowOrchestrator'],
+    payload: { workflowId: 'string' }
+  },
+  'workflow-execution-complete': {
+    description: 'Finished workflow execution',
+    producers: ['WorkflowOrchestrator'],
+    consumers: [],
+    payload: { execution: 'object' }
+  },
+  'workflow-step-complete': {
+    description: 'Report the result of a workflow step',
+    producers: [],
+    consumers: ['WorkflowOrchestrator'],
+    payload: { workflowId: 'string', stepId: 'string', result: 'any?' }
+  },
+  'workflow-status-request': {
+    description: 'Fetch workflow status; replies with workflow-status-response',
+    producers: [],
+    consumers: ['WorkflowOrchestrator'],
+    payload: { workflowId: 'string' }
+  },
+  'workflow-status-response': {
+    description: 'Workflow status',
+    producers: ['WorkflowOrchestrator'],
+    consumers: [],
+    payload: { status: 'object' }
+  },
+  'workflow-task': {
+    description: 'Workflow step handed to the agent with the matching capability; replies with workflow-task-result',
+    producers: ['WorkflowOrchestrator'],
+    consumers: ['BaseAgent'],
+    payload: { workflowId: 'string', stepId: 'string', action: 'string', task: 'string?', inputData: 'any?' }
+  },
+  'workflow-compensate': {
+    description: 'Undo a step of a failed workflow; replies with workflow-task-result',
+    producers: ['WorkflowOrchestrator'],
+    consumers: ['BaseAgent'],
+    payload: { workflowId: 'string', stepId: 'string', action: 'string', task: 'string?', inputData: 'any?' }
+  },
+  'workflow-task-result': {
+    description: 'Output of a workflow step or compensation, or the error it failed with',
+    producers: ['BaseAgent'],
+    consumers: ['WorkflowOrchestrator'],
+    payload: { success: 'boolean', output: 'any?', error: 'string?' }
+  },
+
+  // System
+  'process-spawn-request': {
+    description: 'Spawn a process for an agent; replies with process-spawn-response',
+    producers: [],
+    consumers: ['ProcessManager'],
+    payload: { agentId: 'string', config: 'object' }
+  },
+  'process-spawn-response': {
+    description: 'Spawned process id, or the error',
+    producers: ['ProcessManager'],
+    consumers: [],
+    payload: { success: 'boolean', pid: 'string?', error: 'string?' }
+  },
+  'process-terminate-request': {
+    description: 'Terminate a process; replies with process-terminate-response',
+    producers: [],
+    consumers: ['ProcessManager'],
+    payload: { pid: 'string' }
+  },
+  'process-terminate-response': {
+    description: 'Process termination result',
+    producers: ['ProcessManager'],
+    consumers: [],
+    payload: { success: 'boolean', error: 'string?' }
+  },
+  'health-check-request': {
+    description: 'Check process health; replies with health-check-response',
+    producers: [],
+    consumers: ['ProcessManager'],
+    payload: {}
+  },
+  'health-check-response': {
+    description: 'Process health reports',
+    producers: ['ProcessManager'],
+    consumers: [],
+    payload: { healthReports: 'array' }
+  },
+  'resource-allocation-request': {
+    description: 'Allocate system resources; replies with resource-allocation-response',
+    producers: ['PrincipalAgent'],
+    consumers: ['ResourceAllocator'],
+    payload: { request: 'object' }
+  },
+  'resource-allocation-response': {
+    description: 'Resource allocation, or the error',
+    producers: ['ResourceAllocator', 'AdministrativeAgent'],
+    consumers: [],
+    payload: { success: 'boolean', allocation: 'object?', error: 'string?' }
+  },
+  'resource-release-request': {
+    description: 'Release an allocation; replies with resource-release-response',
+    producers: [],
+    consumers: ['ResourceAllocator'],
+    payload: { allocationId: 'string' }
+  },
+  'resource-release-response': {
+    description: 'Resource release result',
+    producers: ['ResourceAllocator'],
+    consumers: [],
+    payload: { success: 'boolean', error: 'string?' }
+  },
+  'resource-usage-request': {
+    description: "Fetch an agent's resource usage; replies with resource-usage-response",
+    producers: [],
+    consumers: ['ResourceAllocator'],
+    payload: { agentId: 'string?' }
+  },
+  'resource-usage-response': {
+    description: 'Resource usage',
+    producers: ['ResourceAllocator'],
+    consumers: [],
+    payload: { usage: 'any' }
+  },
+  'resource-usage-report': {
+    description: 'Resources an agent has spent, recorded in the resource ledger',
+    producers: ['ContentGenerator'],
+    consumers: ['ResourceAllocator'],
+    payload: { usage: 'object', allocationId: 'string?', workflowId: 'string?', sessionId: 'string?', studentId: 'string?' }
+  },
+
+  // Classroom
+  'student-assessment-data': {
+    description: 'Assessment results shared for behavior analysis',
+    producers: ['TeacherAgent'],
+    consumers: [],
+    payload: { studentId: 'string', assessment: 'object' }
+  },
+  'attention-intervention': {
+    description: 'Attention strategy applied to students',
+    producers: ['TeacherAgent'],
+    consumers: [],
+    payload: { students: 'array', strategy: 'any' }
+  },
+  'student-behavior-alert': {
+    description: 'Behavior alert for a student in class',
+    producers: [],
+    consumers: ['TeacherAgent'],
+    payload: { studentId: 'string', alert: 'any' }
+  },
+  'curriculum-update': {
+    description: 'New or revised curriculum, broadcast to teachers',
+    producers: ['CurriculumAgent'],
+    consumers: ['TeacherAgent'],
+    payload: { curriculum: 'object' }
+  },
+  'assessment-request': {
+    description: 'Assess a student; replies with assessment-complete',
+    producers: [],
+    consumers: ['TeacherAgent'],
+    payload: { studentId: 'string', assessmentType: 'string' }
+  },
+  'assessment-complete': {
+    description: 'Student assessment result',
+    producers: ['TeacherAgent'],
+    consumers: [],
+    payload: { assessment: 'object' }
+  },
+  'parent-inquiry': {
+    description: 'Question from a parent',
+    producers: [],
+    consumers: ['TeacherAgent', 'ParentLiaisonAgent'],
+    payload: { inquiry: 'any', studentId: 'string?', parentId: 'string?' }
+  },
+  'learning-activity': {
+    description: 'Completed learning activity with performance',
+    producers: [],
+    consumers: ['StudentAgent'],
+    payload: { activity: 'any', performance: 'any' }
+  },
+  'goal-check': {
+    description: 'Check progress on a student goal',
+    producers: [],
+    consumers: ['StudentAgent'],
+    payload: { goalId: 'string' }
+  },
+  'behavior-intervention': {
+    description: 'Behavior intervention for a student',
+    producers: [],
+    consumers: ['StudentAgent'],
+    payload: { intervention: 'any' }
+  },
+  'social-opportunity': {
+    description: 'Social learning opportunity for a student',
+    producers: [],
+    consumers: ['StudentAgent'],
+    payload: { opportunity: 'any' }
+  },
+  'student-progress-update': {
+    description: 'Progress reported by a student agent',
+    producers: ['StudentAgent'],
+    consumers: [],
+    payload: { studentId: 'string', progressUpdate: 'object' }
+  },
+  'student-goals-update': {
+    description: 'Goals set for a student',
+    producers: ['StudentAgent'],
+    consumers: [],
+    payload: { studentId: 'string', goalSet: 'object' }
+  },
+  'behavior-concern': {
+    description: 'Behavior concern raised by a student agent',
+    producers: ['StudentAgent'],
+    consumers: [],
+    payload: { studentId: 'string', behaviorRecord: 'object', patternAnalysis: 'any' }
+  },
+  'support-request': {
+    description: 'Student asking for help',
+    producers: ['StudentAgent'],
+    consumers: [],
+    payload: { supportRequest: 'object' }
+  },
+  'achievement-notification': {
+    description: 'Student achievement to celebrate with the family',
+    producers: ['StudentAgent'],
+    consumers: ['ParentLiaisonAgent'],
+    payload: { studentId: 'string', celebration: 'any' }
+  },
+
+  // Curriculum
+  'curriculum-design-request': {
+    description: 'Design a curriculum; replies with curriculum-designed',
+    producers: [],
+    consumers: ['CurriculumAgent'],
+    payload: { subject: 'string', gradeLevel: 'string', standards: 'array' }
+  },
+  'curriculum-designed': {
+    description: 'Designed curriculum',
+    producers: ['CurriculumAgent'],
+    consumers: [],
+    payload: { curriculum: 'object' }
+  },
+  'curriculum-adaptation-request': {
+    description: 'Adapt a curriculum for a student; replies with curriculum-adapted',
+    producers: [],
+    consumers: ['CurriculumAgent'],
+    payload: { curriculumId: 'string', studentProfile: 'object' }
+  },
+  'curriculum-adapted': {
+    description: 'Curriculum adaptation',
+    producers: ['CurriculumAgent'],
+    consumers: [],
+    payload: { adaptation: 'object' }
+  },
+  'individualized-curriculum': {
+    description: 'Curriculum adapted for one student, sent to their teacher',
+    producers: ['CurriculumAgent'],
+    consumers: [],
+    payload: { studentId: 'string', adaptation: 'object' }
+  },
+  'assessment-creation-request': {
+    description: 'Create an assessment; replies with assessment-created',
+    producers: [],
+    consumers: ['CurriculumAgent'],
+    payload: { objectives: 'array', studentNeeds: 'array' }
+  },
+  'assessment-created': {
+    description: 'Created assessment',
+    producers: ['CurriculumAgent'],
+    consumers: [],
+    payload: { assessment: 'object' }
+  },
+  'standards-validation-request': {
+    description: 'Check curriculum standards alignment; replies with standards-validation-complete',
+    producers: [],
+    consumers: ['CurriculumAgent'],
+    payload: { curriculum: 'object', standards: 'array' }
+  },
+  'standards-validation-complete': {
+    description: 'Standards alignment result',
+    producers: ['CurriculumAgent'],
+    consumers: [],
+    payload: { validation: 'object' }
+  },
+
+  // Special education
+  'iep-development-request': {
+    description: 'Develop an IEP; replies with iep-developed',
+    producers: [],
+    consumers: ['IEPCoordinatorAgent'],
+    payload: { studentId: 'string', evaluationData: 'object' }
+  },
+  'iep-developed': {
+    description: 'Developed IEP',
+    producers: ['IEPCoordinatorAgent'],
+    consumers: [],
+    payload: { iep: 'object' }
+  },
+  'meeting-coordination-request': {
+    description: 'Schedule an IEP meeting; replies with meeting-coordinated',
+    producers: [],
+    consumers: ['IEPCoordinatorAgent'],
+    payload: { studentId: 'string', meetingType: 'string' }
+  },
+  'meeting-coordinated': {
+    description: 'Scheduled IEP meeting',
+    producers: ['IEPCoordinatorAgent'],
+    consumers: [],
+    payload: { meeting: 'object' }
+  },
+  'iep-meeting-invitation': {
+    description: 'Invitation sent to each IEP meeting participant',
+    producers: ['IEPCoordinatorAgent'],
+    consumers: [],
+    payload: { meeting: 'object' }
+  },
+  'compliance-review-request': {
+    description: 'Review IEP compliance; replies with compliance-review-complete',
+    producers: [],
+    consumers: ['IEPCoordinatorAgent'],
+    payload: { studentId: 'string' }
+  },
+  'compliance-review-complete': {
+    description: 'IEP compliance review',
+    producers: ['IEPCoordinatorAgent'],
+    consumers: [],
+    payload: { compliance: 'object' }
+  },
+  'service-coordination-request': {
+    description: 'Coordinate IEP services; replies with services-coordinated',
+    producers: [],
+    consumers: ['IEPCoordinatorAgent'],
+    payload: { studentId: 'string' }
+  },
+  'services-coordinated': {
+    description: 'Coordinated IEP services',
+    producers: ['IEPCoordinatorAgent'],
+    consumers: [],
+    payload: { coordination: 'object' }
+  },
+  'referral-received': {
+    description: 'Student referred to support staff',
+    producers: [],
+    consumers: ['SupportStaffAgent'],
+    payload: { studentId: 'string', referralReason: 'any' }
+  },
+  'evaluation-complete': {
+    description: 'Support staff evaluation',
+    producers: ['SupportStaffAgent'],
+    consumers: [],
+    payload: { evaluation: 'object' }
+  },
+  'consultation-request': {
+    description: 'Request a consultation about a student',
+    producers: [],
+    consumers: ['SupportStaffAgent'],
+    payload: { studentId: 'string', consultationType: 'string' }
+  },
+  'consultation-summary': {
+    description: 'Consultation summary',
+    producers: ['SupportStaffAgent'],
+    consumers: [],
+    payload: { consultation: 'object' }
+  },
+  'progress-review-request': {
+    description: 'Review therapy progress; replies with progress-review-complete',
+    producers: [],
+    consumers: ['SupportStaffAgent'],
+    payload: { studentId: 'string' }
+  },
+  'progress-review-complete': {
+    description: 'Therapy progress review',
+    producers: ['SupportStaffAgent'],
+    consumers: [],
+    payload: { progress: 'any' }
+  },
+  'progress-report': {
+    description: 'Progress report sent to each team member',
+    producers: ['SupportStaffAgent'],
+    consumers: [],
+    payload: { studentId: 'string', progressReport: 'object' }
+  },
+  'family-training-request': {
+    description: 'Request family training on a topic',
+    producers: [],
+    consumers: ['SupportStaffAgent'],
+    payload: { studentId: 'string', trainingType: 'string' }
+  },
+
+  // Family
+  'parent-communication': {
+    description: 'Message for a family, relayed by the parent liaison',
+    producers: ['TeacherAgent'],
+    consumers: ['ParentLiaisonAgent'],
+    payload: { communication: 'object' }
+  },
+  'collaborative-goals-update': {
+    description: 'Goals agreed between school and family',
+    producers: ['ParentLiaisonAgent'],
+    consumers: [],
+    payload: { collaboration: 'object' }
+  },
+  'crisis-notification': {
+    description: 'Crisis notice for families and stakeholders',
+    producers: ['PrincipalAgent'],
+    consumers: ['ParentLiaisonAgent'],
+    payload: { crisis: 'any', urgency: 'string?' }
+  },
+
+  // Administration
+  'performance-report': {
+    description: 'Department performance metrics for the principal',
+    producers: [],
+    consumers: ['PrincipalAgent'],
+    payload: { department: 'string', metrics: 'any' }
+  },
+  'crisis-alert': {
+    description: 'Crisis reported to the principal',
+    producers: [],
+    consumers: ['PrincipalAgent'],
+    payload: { crisis: 'any' }
+  },
+  'budget-request': {
+    description: 'Department budget request',
+    producers: [],
+    consumers: ['PrincipalAgent'],
+    payload: { department: 'string', request: 'any' }
+  },
+  'institutional-goals-update': {
+    description: 'Institutional goals, broadcast by the principal',
+    producers: ['PrincipalAgent'],
+    consumers: [],
+    payload: { goals: 'object', timeframe: 'any' }
+  },
+  'enrollment-request': {
+    description: 'Enroll a student; replies with enrollment-processed',
+    producers: [],
+    consumers: ['AdministrativeAgent'],
+    payload: { studentData: 'object', enrollmentType: 'string' }
+  },
+  'enrollment-processed': {
+    description: 'Processed enrollment',
+    producers: ['AdministrativeAgent'],
+    consumers: [],
+    payload: { enrollment: 'object' }
+  },
+  'scheduling-request': {
+    description: 'Build a schedule; replies with scheduling-complete',
+    producers: [],
+    consumers: ['AdministrativeAgent'],
+    payload: { scheduleType: 'string', parameters: 'any?' }
+  },
+  'scheduling-complete': {
+    description: 'Completed schedule',
+    producers: ['AdministrativeAgent'],
+    consumers: [],
+    payload: { scheduling: 'object' }
+  },
+  'compliance-check': {
+    description: 'Check compliance in an area; replies with compliance-status',
+    producers: [],
+    consumers: ['AdministrativeAgent'],
+    payload: { complianceArea: 'string' }
+  },
+  'compliance-status': {
+    description: 'Compliance status',
+    producers: ['AdministrativeAgent'],
+    consumers: [],
+    payload: { compliance: 'object' }
+  },
+  'compliance-alert': {
+    description: 'Compliance problem escalated to the principal',
+    producers: ['AdministrativeAgent'],
+    consumers: [],
+    payload: { compliance: 'object' }
+  },
+  'resource-request': {
+    description: 'Allocate school resources; replies with resource-allocation-response',
+    producers: [],
+    consumers: ['AdministrativeAgent'],
+    payload: { resourceType: 'string', allocation: 'any' }
+  },
+  'resource-escalation': {
+    description: 'Resource allocation needing principal approval',
+    producers: ['AdministrativeAgent'],
+    consumers: [],
+    payload: { allocation: 'object' }
+  },
+  'report-delivery': {
+    description: 'Administrative report sent to each recipient',
+    producers: ['AdministrativeAgent'],
+    consumers: [],
+    payload: { report: 'object' }
+  }
+} as const satisfies Record<string, MessageContract>;
+
+export type MessageType = keyof typeof MESSAGE_CATALOG;
+
+// Compile-time payload types derived from the catalog
+type FieldValue<F> =
+  F extends `${infer K}?` ? FieldValue<K> :
+  F extends 'string' ? string :
+  F extends 'number' ? number :
+  F extends 'boolean' ? boolean :
+  F extends 'array' ? any[] :
+  F extends 'object' ? Record<string, any> :
+  any;
+
+type RequiredFields<S> = { [K in keyof S]: S[K] extends `${string}?` ? never : K }[keyof S];
+type OptionalFields<S> = Exclude<keyof S, RequiredFields<S>>;
+
+type PayloadOf<S> = S extends 'any'
+  ? any
+  : { [K in RequiredFields<S>]: FieldValue<S[K]> } & { [K in OptionalFields<S>]?: FieldValue<S[K]> };
+
+export type MessagePayload<T extends MessageType> = PayloadOf<(typeof MESSAGE_CATALOG)[T]['payload']>;
+
+// A message whose payload is checked against its type's contract. Senders get T from the
+// literal `type`; a plain AgentMessage still fits, since its type is the whole MessageType union
+export type AgentMessageOf<T extends MessageType> = Omit<AgentMessage, 'type' | 'data'> & { type: T; data: MessagePayload<T> };
+
+// Discriminated union: narrowing on `type` gives the matching payload
+export type TypedAgentMessage = {
+  [T in MessageType]: AgentMessageOf<T>;
+}[MessageType];
+
+// Runtime validation
+export interface MessageValidationIssue {
+  path: string;
+  expected: string;
+  received: string;
+}
+
+export type MessageValidationCode = 'malformed-envelope' | 'unknown-type' | 'invalid-payload';
+
+export interface MessageValidationResult {
+  valid: boolean;
+  code?: MessageValidationCode;
+  issues: MessageValidationIssue[];
+}
+
+export class MessageValidationError extends Error {
+  constructor(
+    public code: MessageValidationCode,
+    public messageId: string,
+    public messageType: string,
+    public fromAgentId: string,
+    public toAgentId: string,
+    public issues: MessageValidationIssue[]
+  ) {
+    super(`Rejected ${messageType || 'untyped'} message ${messageId || ''} from ${fromAgentId || 'unknown'} to ${toAgentId || 'unknown'}: ` +
+      issues.map(issue => `${issue.path} expected ${issue.expected}, got ${issue.received}`).join('; '));
+    this.name = 'MessageValidationError';
+  }
+
+  static fromResult(message: any, result: MessageValidationResult): MessageValidationError {
+    return new MessageValidationError(
+      result.code ?? 'invalid-payload',
+      message?.id,
+      message?.type,
+      message?.fromAgentId,
+      message?.toAgentId,
+      result.issues
+    );
+  }
+
+  toJSON() {
+    return {
+      name: this.name,
+      code: this.code,
+      messageId: this.messageId,
+      messageType: this.messageType,
+      fromAgentId: this.fromAgentId,
+      toAgentId: this.toAgentId,
+      issues: this.issues
+    };
+  }
+}
+
+const ENVELOPE_FIELDS: Record<string, PayloadField> = {
+  type: 'string',
+  fromAgentId: 'string',
+  toAgentId: 'string',
+  requiresResponse: 'boolean?',
+  data: 'object'
+};
+
+export function isKnownMessageType(type: string): type is MessageType {
+  return Object.prototype.hasOwnProperty.call(MESSAGE_CATALOG, type);
+}
+
+export function getMessageContract(type: string): MessageContract | undefined {
+  return isKnownMessageType(type) ? MESSAGE_CATALOG[type] : undefined;
+}
+
+export function validateAgentMessage(message: any): MessageValidationResult {
+  if (!message || typeof message !== 'object') {
+    return { valid: false, code: 'malformed-envelope', issues: [{ path: 'message', expected: 'object', received: describe(message) }] };
+  }
+
+  const envelopeIssues = checkFields(message, ENVELOPE_FIELDS, '');
+  if (envelopeIssues.length > 0) {
+    return { valid: false, code: 'malformed-envelope', issues: envelopeIssues };
+  }
+
+  const contract = getMessageContract(message.type);
+  if (!contract) {
+    return {
+      valid: false,
+      code: 'unknown-type',
+      issues: [{ path: 'type', expected: 'a message type from MESSAGE_CATALOG', received: JSON.stringify(message.type) }]
+    };
+  }
+
+  if (contract.payload === 'any') {
+    return { valid: true, issues: [] };
+  }
+
+  const payloadIssues = checkFields(message.data, contract.payload, 'data.');
+  return payloadIssues.length > 0
+    ? { valid: false, code: 'invalid-payload', issues: payloadIssues }
+    : { valid: true, issues: [] };
+}
+
+// Producer/consumer reference, with the types that only one side knows about
+export interface MessageReferenceEntry {
+  type: MessageType;
+  description: string;
+  producers: readonly string[];
+  consumers: readonly string[];
+  payload: PayloadSchema;
+}
+
+export function getMessageReference(): MessageReferenceEntry[] {
+  return (Object.keys(MESSAGE_CATALOG) as MessageType[])
+    .sort()
+    .map(type => ({ type, ...MESSAGE_CATALOG[type] }));
+}
+
+export function findUnmatchedMessageTypes(): { producedOnly: MessageType[]; consumedOnly: MessageType[] } {
+  const reference = getMessageReference();
+  return {
+    producedOnly: reference.filter(entry => entry.producers.length > 0 && entry.consumers.length === 0).map(entry => entry.type),
+    consumedOnly: reference.filter(entry => entry.consumers.length > 0 && entry.producers.length === 0).map(entry => entry.type)
+  };
+}
+
+export function generateMessageReference(): string {
+  const formatPayload = (payload: PayloadSchema) => payload === 'any'
+    ? 'free-form'
+    : Object.entries(payload).map(([field, kind]) => `\`${field}: ${kind}\``).join(', ') || '—';
+  const formatAgents = (agents: readonly string[]) => agents.length > 0 ? agents.join(', ') : '—';
+
+  const lines = [
+    '# Agent Message Reference',
+    '',
+    '| Type | Producers | Consumers | Payload |',
+    '| --- | --- | --- | --- |',
+    ...getMessageReference().map(entry =>
+      `| \`${entry.type}\` | ${formatAgents(entry.producers)} | ${formatAgents(entry.consumers)} | ${formatPayload(entry.payload)} |`
+    )
+  ];
+
+  const { producedOnly, consumedOnly } = findUnmatchedMessageTypes();
+  if (producedOnly.length > 0) {
+    lines.push('', '## Sent but never handled', '', ...producedOnly.map(type => `- \`${type}\``));
+  }
+  if (consumedOnly.length > 0) {
+    lines.push('', '## Handled but never sent by an agent', '', ...consumedOnly.map(type => `- \`${type}\``));
+  }
+
+  return lines.join('\n');
+}
+
+function checkFields(value: any, schema: Readonly<Record<string, PayloadField>>, prefix: string): MessageValidationIssue[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return [{ path: prefix ? prefix.slice(0, -1) : 'message', expected: 'object', received: describe(value) }];
+  }
+
+  const issues: MessageValidationIssue[] = [];
+  for (const [field, spec] of Object.entries(schema)) {
+    const optional = spec.endsWith('?');
+    const kind = (optional ? spec.slice(0, -1) : spec) as PayloadFieldKind;
+    const fieldValue = value[field];
+
+    if (fieldValue === undefined) {
+      if (!optional) issues.push({ path: `${prefix}${field}`, expected: kind, received: 'undefined' });
+      continue;
+    }
+    if (!matchesKind(fieldValue, kind)) {
+      issues.push({ path: `${prefix}${field}`, expected: kind, received: describe(fieldValue) });
+    }
+  }
+  return issues;
+}
+
+function matchesKind(value: any, kind: PayloadFieldKind): boolean {
+  switch (kind) {
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'any':
+      return true;
+    default:
+      return typeof value === kind;
+  }
+}
+
+function describe(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
@@ -2,7 +2,8 @@
 
 import { BaseAgent } from '../base/BaseAgent';
 import { IBehaviorAgent } from '../base/AgentInterface';
-import { AgentConfig, AgentMessage, NeurodiverseProfile } from '../base/AgentTypes';
+import { AgentConfig, AgentMessageOf, TypedAgentMessage, NeurodiverseProfile, AgentCapability } from '../base/AgentTypes';
+import { clock, random } from '../base/AgentEnvironment';
 
 export class BehaviorAnalyst extends BaseAgent implements IBehaviorAgent {
   private interactionPatterns: Map<string, any[]> = new Map();
@@ -32,6 +33,9 @@ export class BehaviorAnalyst extends BaseAgent implements IBehaviorAgent {
     };
 
     super(config);
+
+    // Interactions the Interaction Monitor streams to the Event Bus, once this agent is subscribed to them
+    this.subscribeToEvents('user.interaction.*', event => this.recordInteraction(event.data));
   }
 
   async processTask(taskData: any): Promise<any> {
@@ -115,7 +119,7 @@ export class BehaviorAnalyst extends BaseAgent implements IBehaviorAgent {
     this.storeMemory(`interaction_analysis_${userId}`, analysis, 'long');
     
     this.metrics.tasksCompleted += 1;
-    this.metrics.lastActivity = new Date();
+    this.metrics.lastActivity = clock.date();
 
     return analysis;
   }
@@ -158,7 +162,7 @@ export class BehaviorAnalyst extends BaseAgent implements IBehaviorAgent {
     const engagementMetric = {
       userId,
       sessionId: sessionData.sessionId,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       engagementLevel: this.calculateEngagementLevel(sessionData),
       attentionSpan: sessionData.focusTime || 0,
       interactionFrequency: sessionData.interactions?.length || 0,
@@ -191,7 +195,7 @@ export class BehaviorAnalyst extends BaseAgent implements IBehaviorAgent {
     const prediction = {
       userId,
       context,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       predictedEngagement: this.predictEngagementLevel(historicalData, context),
       likelyBehaviors: this.predictLikelyBehaviors(historicalData, sensoryProfile, context),
       riskFactors: this.identifyRiskFactors(engagementHistory, context),
@@ -206,7 +210,16 @@ export class BehaviorAnalyst extends BaseAgent implements IBehaviorAgent {
     return prediction;
   }
 
-  protected async processMessage(message: AgentMessage): Promise<void> {
+  protected describeCapability(capability: string): Partial<AgentCapability> {
+    const details: Record<string, Partial<AgentCapability>> = {
+      'behavior-analysis': { inputTypes: ['behavior-analysis'], outputTypes: ['behavior-analysis-response'], processingTime: 800, tasks: ['analyze_interaction', 'detect_sensory_preferences', 'predict_behavior'] },
+      'sensory-profiling': { inputTypes: ['sensory-assessment'], outputTypes: ['sensory-profile-response'], processingTime: 600, tasks: ['detect_sensory_preferences'] },
+      'engagement-monitoring': { inputTypes: ['engagement-update'], outputTypes: [], processingTime: 300, tasks: ['monitor_engagement'] }
+    };
+    return { ...super.describeCapability(capability), ...details[capability] };
+  }
+
+  protected async processMessage(message: TypedAgentMessage): Promise<void> {
     switch (message.type) {
       case 'behavior-analysis':
         await this.handleBehaviorAnalysisRequest(message);
@@ -234,7 +247,7 @@ export class BehaviorAnalyst extends BaseAgent implements IBehaviorAgent {
       "Your learning style is unique and special - I love that! 🚀"
     ];
     
-    return responses[Math.floor(Math.random() * responses.length)];
+    return responses[Math.floor(random.next() * responses.length)];
   }
 
   // Private helper methods
@@ -443,7 +456,7 @@ export class BehaviorAnalyst extends BaseAgent implements IBehaviorAgent {
     return Math.min(100, confidence);
   }
 
-  private async handleBehaviorAnalysisRequest(message: AgentMessage): Promise<void> {
+  private async handleBehaviorAnalysisRequest(message: AgentMessageOf<'behavior-analysis'>): Promise<void> {
     const { userId, interactions } = message.data;
     const analysis = await this.analyzeInteractionPattern(interactions);
     
@@ -455,19 +468,28 @@ export class BehaviorAnalyst extends BaseAgent implements IBehaviorAgent {
         type: 'behavior-analysis-response',
         data: { analysis },
         priority: message.priority,
-        timestamp: new Date(),
+        timestamp: clock.date(),
         requiresResponse: false,
         correlationId: message.id
       });
     }
   }
 
-  private async handleEngagementUpdate(message: AgentMessage): Promise<void> {
+  // Kept where detectSensoryPreferences reads them; only the most recent interactions count
+  private recordInteraction(data: any): void {
+    if (!data?.userId || !data.interaction) return;
+
+    const interactions = this.retrieveMemory(`interactions_${data.userId}`, 'long') || [];
+    interactions.push(data.interaction);
+    this.storeMemory(`interactions_${data.userId}`, interactions.slice(-500), 'long');
+  }
+
+  private async handleEngagementUpdate(message: AgentMessageOf<'engagement-update'>): Promise<void> {
     const { userId, sessionData } = message.data;
     await this.monitorEngagement(userId, sessionData);
   }
 
-  private async handleSensoryAssessment(message: AgentMessage): Promise<void> {
+  private async handleSensoryAssessment(message: AgentMessageOf<'sensory-assessment'>): Promise<void> {
     const { userId } = message.data;
     const profile = await this.detectSensoryPreferences(userId);
     
@@ -478,7 +500,7 @@ export class BehaviorAnalyst extends BaseAgent implements IBehaviorAgent {
       type: 'sensory-profile-response',
       data: { userId, profile },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
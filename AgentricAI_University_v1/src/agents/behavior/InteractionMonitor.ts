@@ -1,7 +1,8 @@
 // Interaction Monitor Agent - Real-time user interaction monitoring
 
 import { BaseAgent } from '../base/BaseAgent';
-import { AgentConfig, AgentMessage } from '../base/AgentTypes';
+import { AgentConfig, AgentMessageOf, TypedAgentMessage } from '../base/AgentTypes';
+import { clock, random, scheduler } from '../base/AgentEnvironment';
 
 export class InteractionMonitor extends BaseAgent {
   private activeMonitoring: Map<string, any> = new Map();
@@ -58,7 +59,7 @@ export class InteractionMonitor extends BaseAgent {
     const monitoringSession = {
       userId,
       sessionId,
-      startTime: new Date(),
+      startTime: clock.date(),
       interactions: [],
       alerts: [],
       patterns: {},
@@ -88,8 +89,8 @@ export class InteractionMonitor extends BaseAgent {
 
     const timestampedInteraction = {
       ...interaction,
-      timestamp: new Date(),
-      sessionTime: Date.now() - monitoringSession.startTime.getTime()
+      timestamp: clock.date(),
+      sessionTime: clock.now() - monitoringSession.startTime.getTime()
     };
 
     // Add to interaction stream
@@ -109,6 +110,14 @@ export class InteractionMonitor extends BaseAgent {
     // Update patterns
     this.updateInteractionPatterns(userId, timestampedInteraction);
 
+    // Stream to Event Bus subscribers (dashboards subscribe to 'user.interaction.*')
+    await this.publishToEventBus('user.interaction.tracked', {
+      userId,
+      sessionId: monitoringSession.sessionId,
+      interaction: timestampedInteraction,
+      analysis
+    });
+
     this.metrics.tasksCompleted += 1;
     return analysis;
   }
@@ -122,7 +131,7 @@ export class InteractionMonitor extends BaseAgent {
     }
 
     const interactions = monitoringSession.interactions;
-    const sessionDuration = Date.now() - monitoringSession.startTime.getTime();
+    const sessionDuration = clock.now() - monitoringSession.startTime.getTime();
 
     const analysis = {
       sessionId,
@@ -151,7 +160,7 @@ export class InteractionMonitor extends BaseAgent {
       return { status: 'no_active_session' };
     }
 
-    monitoringSession.endTime = new Date();
+    monitoringSession.endTime = clock.date();
     monitoringSession.status = 'completed';
 
     // Final analysis
@@ -161,7 +170,7 @@ export class InteractionMonitor extends BaseAgent {
     this.activeMonitoring.delete(userId);
     
     // Keep interaction stream for a while for pattern analysis
-    setTimeout(() => {
+    scheduler.setTimeout(() => {
       this.interactionStreams.delete(userId);
     }, 300000); // 5 minutes
 
@@ -173,7 +182,7 @@ export class InteractionMonitor extends BaseAgent {
     };
   }
 
-  protected async processMessage(message: AgentMessage): Promise<void> {
+  protected async processMessage(message: TypedAgentMessage): Promise<void> {
     switch (message.type) {
       case 'start-monitoring':
         await this.handleStartMonitoring(message);
@@ -201,7 +210,7 @@ export class InteractionMonitor extends BaseAgent {
       "You're amazing! I love watching you learn! 🎉"
     ];
     
-    return responses[Math.floor(Math.random() * responses.length)];
+    return responses[Math.floor(random.next() * responses.length)];
   }
 
   // Private helper methods
@@ -259,7 +268,7 @@ export class InteractionMonitor extends BaseAgent {
     const alert = {
       userId,
       type: alertType,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       data,
       severity: this.determineAlertSeverity(alertType),
       handled: false
@@ -278,7 +287,7 @@ export class InteractionMonitor extends BaseAgent {
       type: 'interaction-alert',
       data: { userId, alert },
       priority: alert.severity === 'high' ? 'high' : 'medium',
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false
     });
 
@@ -447,17 +456,17 @@ export class InteractionMonitor extends BaseAgent {
     return 'low';
   }
 
-  private async handleStartMonitoring(message: AgentMessage): Promise<void> {
+  private async handleStartMonitoring(message: AgentMessageOf<'start-monitoring'>): Promise<void> {
     const { userId, sessionId } = message.data;
     await this.startMonitoring(userId, sessionId);
   }
 
-  private async handleInteractionEvent(message: AgentMessage): Promise<void> {
+  private async handleInteractionEvent(message: AgentMessageOf<'interaction-event'>): Promise<void> {
     const { userId, interaction } = message.data;
     await this.trackInteraction(userId, interaction);
   }
 
-  private async handleMonitoringStatus(message: AgentMessage): Promise<void> {
+  private async handleMonitoringStatus(message: AgentMessageOf<'monitoring-status'>): Promise<void> {
     const { userId } = message.data;
     const session = this.activeMonitoring.get(userId);
     
@@ -468,7 +477,7 @@ export class InteractionMonitor extends BaseAgent {
       type: 'monitoring-status-response',
       data: { userId, session: session || null },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
@@ -1,7 +1,8 @@
 // Sensory Processor Agent - Specialized sensory preference handling
 
 import { BaseAgent } from '../base/BaseAgent';
-import { AgentConfig, AgentMessage, NeurodiverseProfile } from '../base/AgentTypes';
+import { AgentConfig, AgentMessageOf, TypedAgentMessage, NeurodiverseProfile } from '../base/AgentTypes';
+import { clock, random } from '../base/AgentEnvironment';
 
 export class SensoryProcessor extends BaseAgent {
   private sensoryProfiles: Map<string, any> = new Map();
@@ -57,7 +58,7 @@ export class SensoryProcessor extends BaseAgent {
     
     const analysis = {
       userId,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       visualResponse: this.analyzeVisualResponse(responseData),
       auditoryResponse: this.analyzeAuditoryResponse(responseData),
       tactileResponse: this.analyzeTactileResponse(responseData),
@@ -159,7 +160,7 @@ export class SensoryProcessor extends BaseAgent {
     return optimizedEnvironment;
   }
 
-  protected async processMessage(message: AgentMessage): Promise<void> {
+  protected async processMessage(message: TypedAgentMessage): Promise<void> {
     switch (message.type) {
       case 'sensory-analysis-request':
         await this.handleSensoryAnalysisRequest(message);
@@ -169,7 +170,7 @@ export class SensoryProcessor extends BaseAgent {
         await this.handleTriggerDetectionRequest(message);
         break;
       
-      case 'adaptation-request':
+      case 'sensory-adaptation-request':
         await this.handleAdaptationRequest(message);
         break;
       
@@ -187,7 +188,7 @@ export class SensoryProcessor extends BaseAgent {
       "I'm adjusting things so they feel good for your eyes and ears! 👀👂"
     ];
     
-    return responses[Math.floor(Math.random() * responses.length)];
+    return responses[Math.floor(random.next() * responses.length)];
   }
 
   // Private helper methods
@@ -306,7 +307,7 @@ export class SensoryProcessor extends BaseAgent {
     };
   }
 
-  private async handleSensoryAnalysisRequest(message: AgentMessage): Promise<void> {
+  private async handleSensoryAnalysisRequest(message: AgentMessageOf<'sensory-analysis-request'>): Promise<void> {
     const { userId, responseData } = message.data;
     const analysis = await this.analyzeSensoryResponse(userId, responseData);
     
@@ -318,14 +319,14 @@ export class SensoryProcessor extends BaseAgent {
         type: 'sensory-analysis-response',
         data: { analysis },
         priority: message.priority,
-        timestamp: new Date(),
+        timestamp: clock.date(),
         requiresResponse: false,
         correlationId: message.id
       });
     }
   }
 
-  private async handleTriggerDetectionRequest(message: AgentMessage): Promise<void> {
+  private async handleTriggerDetectionRequest(message: AgentMessageOf<'trigger-detection-request'>): Promise<void> {
     const { userId, interactions } = message.data;
     const triggers = await this.detectSensoryTriggers(userId, interactions);
     
@@ -336,13 +337,13 @@ export class SensoryProcessor extends BaseAgent {
       type: 'triggers-detected',
       data: { userId, triggers },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
   }
 
-  private async handleAdaptationRequest(message: AgentMessage): Promise<void> {
+  private async handleAdaptationRequest(message: AgentMessageOf<'sensory-adaptation-request'>): Promise<void> {
     const { userId, context } = message.data;
     const adaptations = await this.generateSensoryAdaptations(userId, context);
     
@@ -353,7 +354,7 @@ export class SensoryProcessor extends BaseAgent {
       type: 'adaptations-generated',
       data: { userId, adaptations },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
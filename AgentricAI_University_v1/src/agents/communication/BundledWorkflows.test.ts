@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { WorkflowOrchestrator } from './WorkflowOrchestrator';
+import { MemoryWorkflowAdapter } from './WorkflowStateStore';
+import { ISOLATED_AGENT_DEFINITIONS } from '../system/AgentRegistry';
+import { ProcessManager } from '../system/ProcessManager';
+import { BaseAgent } from '../base/BaseAgent';
+import { createTestEcosystem, TestEcosystem } from '../../test/testEcosystem';
+
+// What the dashboard and the Core OS start each bundled workflow with
+const PARAMETERS: Record<string, any> = {
+  learning_assessment: { userId: 'learner-1', test_mode: true, initiated_by: 'admin_dashboard' },
+  content_adaptation: { user_id: 'learner-1', test_mode: true, initiated_by: 'admin_dashboard' },
+  agent_creation: { test_mode: true, initiated_by: 'admin_dashboard' },
+  error_resolution: {
+    error: { name: 'TypeError', message: "Cannot read properties of undefined (reading 'score')" },
+    context: 'lesson_player'
+  }
+};
+
+describe('bundled workflows', () => {
+  let ecosystem: TestEcosystem;
+  let orchestrator: WorkflowOrchestrator;
+
+  beforeEach(async () => {
+    // agent_creation deploys through the Core OS process manager; its private resourceAllocations
+    // clashes with BaseAgent's, so it needs the cast to be listed here
+    const processManager = () => new ProcessManager() as unknown as BaseAgent;
+    ecosystem = await createTestEcosystem({ agents: [...ISOLATED_AGENT_DEFINITIONS, processManager, () => new WorkflowOrchestrator()] });
+    orchestrator = ecosystem.get<WorkflowOrchestrator>('workflow-orchestrator-001');
+    orchestrator.setStorageAdapter(new MemoryWorkflowAdapter());
+  });
+
+  afterEach(async () => {
+    await ecosystem.stop();
+  });
+
+  it('ships a definition for every workflow the app starts', () => {
+    expect(orchestrator.listWorkflowTemplates().map(template => template.id).sort()).toEqual(Object.keys(PARAMETERS).sort());
+  });
+
+  it.each(Object.keys(PARAMETERS))('runs %s to completion on the real agents', async templateId => {
+    const workflowId = await orchestrator.createWorkflow(templateId, PARAMETERS[templateId]);
+    const execution = await ecosystem.settle(orchestrator.executeWorkflow(workflowId));
+
+    const steps = orchestrator.getWorkflowRun(workflowId)!.steps;
+    expect(steps.filter(step => step.status !== 'completed').map(step => `${step.id} on ${step.agentId}: ${step.error}`)).toEqual([]);
+    expect(execution.status).toBe('completed');
+  });
+});
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EventBus } from './EventBus';
+import { MemoryEventLogAdapter } from './EventLogStore';
+import { AgentEvent } from '../base/AgentTypes';
+import { createTestEcosystem, TestEcosystem } from '../../test/testEcosystem';
+
+function progress(step: number): AgentEvent {
+  return {
+    id: `progress-${step}`,
+    type: 'user.progress.updated',
+    agentId: 'learning-coordinator-001',
+    data: { userId: 'learner-1', step },
+    timestamp: new Date('2026-10-19T09:00:00Z'),
+    severity: 'info'
+  };
+}
+
+describe('EventBus', () => {
+  let ecosystem: TestEcosystem;
+  let eventBus: EventBus;
+
+  beforeEach(async () => {
+    ecosystem = await createTestEcosystem({
+      agents: [() => {
+        const bus = new EventBus();
+        bus.setEventLogAdapter(new MemoryEventLogAdapter());
+        return bus;
+      }],
+      fakes: ['stalled-dashboard', 'progress-tracker']
+    });
+    eventBus = ecosystem.get<EventBus>('event-bus-001');
+
+    // Takes the first notification and never finishes handling it
+    vi.spyOn(ecosystem.fake('stalled-dashboard'), 'receiveMessage').mockReturnValue(new Promise(() => {}));
+  });
+
+  afterEach(async () => {
+    await ecosystem.stop();
+  });
+
+  const notifiedSteps = (agentId: string) => ecosystem.messages
+    .filter(message => message.type === 'event-notification' && message.toAgentId === agentId)
+    .map(message => message.data.event.data.step);
+
+  it('keeps publishing while a subscriber is stalled', async () => {
+    await ecosystem.settle(eventBus.subscribeToEvent('stalled-dashboard', 'user.progress.*', undefined, { buffer: { capacity: 2 } }));
+    await ecosystem.settle(eventBus.subscribeToEvent('progress-tracker', 'user.progress.*'));
+
+    for (let step = 1; step <= 5; step++) {
+      await ecosystem.settle(eventBus.publishEvent(progress(step)));
+    }
+
+    expect(notifiedSteps('progress-tracker')).toEqual([1, 2, 3, 4, 5]);
+    // One in flight, the two newest pending, the rest dropped
+    expect(eventBus.getSubscriberStats().find(stats => stats.subscriberId === 'stalled-dashboard'))
+      .toMatchObject({ policy: 'drop-oldest', depth: 2, dropped: 2, delivered: 0 });
+  });
+
+  it('only holds the publisher for subscribers that opt into blocking, and not the others', async () => {
+    await ecosystem.settle(eventBus.subscribeToEvent('stalled-dashboard', 'user.progress.*', undefined, { buffer: { capacity: 1, policy: 'block' } }));
+    await ecosystem.settle(eventBus.subscribeToEvent('progress-tracker', 'user.progress.*'));
+
+    await ecosystem.settle(eventBus.publishEvent(progress(1)));
+    await ecosystem.settle(eventBus.publishEvent(progress(2)));
+
+    let published = false;
+    const blocked = eventBus.publishEvent(progress(3)).then(() => { published = true; });
+    await ecosystem.advance(1000);
+
+    expect(published).toBe(false);
+    expect(notifiedSteps('progress-tracker')).toEqual([1, 2, 3]);
+
+    // Dropping the stalled subscriber frees the publisher
+    await ecosystem.settle(eventBus.unsubscribeFromEvent('stalled-dashboard', 'user.progress.*'));
+    await ecosystem.settle(blocked);
+    expect(published).toBe(true);
+  });
+});
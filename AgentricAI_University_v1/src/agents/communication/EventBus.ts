@@ -1,14 +1,32 @@
 // Event Bus Agent - Event-driven communication for AgentricAI University
 
 import { BaseAgent } from '../base/BaseAgent';
-import { AgentConfig, AgentMessage, AgentEvent } from '../base/AgentTypes';
+import { AgentConfig, AgentMessageOf, TypedAgentMessage, AgentEvent } from '../base/AgentTypes';
+import { EventLogRecord, EventLogStorageAdapter, createDefaultEventLogStorage } from './EventLogStore';
+import { EventFilterExpression, evaluateEventFilter, matchesTopic, normalizeEventFilter, validateEventFilter, validateTopicPattern } from './EventTopics';
+import { SubscriberBuffer, SubscriberBufferOptions, SubscriberBufferStats } from './SubscriberBuffer';
+import { clock, random } from '../base/AgentEnvironment';
+
+export interface SubscriptionOptions {
+  // Deliver logged events the subscriber missed since its last committed offset
+  resume?: boolean;
+  // Deliver logged events from this sequence number onwards
+  fromSequence?: number;
+  // Bounded queue between the bus and this subscriber
+  buffer?: SubscriberBufferOptions;
+}
 
 export class EventBus extends BaseAgent {
   private eventSubscriptions: Map<string, Set<string>> = new Map();
   private eventHistory: AgentEvent[] = [];
   private eventHandlers: Map<string, Function> = new Map();
-  private eventFilters: Map<string, any> = new Map();
+  private eventFilters: Map<string, EventFilterExpression> = new Map();
+  private subscriberBuffers: Map<string, SubscriberBuffer> = new Map();
   private eventMetrics: Map<string, any> = new Map();
+  private eventLog: EventLogStorageAdapter = createDefaultEventLogStorage();
+  private eventLogReady: Promise<void> | null = null;
+  private lastSequence: number = 0;
+  private consumerOffsets: Map<string, number> = new Map();
 
   constructor() {
     const config: AgentConfig = {
@@ -43,7 +61,7 @@ export class EventBus extends BaseAgent {
         return await this.publishEvent(data.event);
       
       case 'subscribe_to_event':
-        return await this.subscribeToEvent(data.agentId, data.eventType, data.filter);
+        return await this.subscribeToEvent(data.agentId, data.eventType, data.filter, data.options);
       
       case 'unsubscribe_from_event':
         return await this.unsubscribeFromEvent(data.agentId, data.eventType);
@@ -57,6 +75,18 @@ export class EventBus extends BaseAgent {
       case 'filter_events':
         return this.filterEvents(data.events, data.criteria);
       
+      case 'read_event_log':
+        return await this.readEventLog(data.fromSequence, data.toSequence);
+      
+      case 'get_consumer_offset':
+        return await this.getConsumerOffset(data.agentId, data.eventType);
+      
+      case 'commit_offset':
+        return await this.commitOffset(data.agentId, data.eventType, data.sequence);
+      
+      case 'get_subscriber_stats':
+        return this.getSubscriberStats();
+      
       default:
         throw new Error(`Unknown task type: ${type}`);
     }
@@ -65,6 +95,10 @@ export class EventBus extends BaseAgent {
   async publishEvent(event: AgentEvent): Promise<void> {
     console.log(`📢 Publishing event: ${event.type} from ${event.agentId}`);
     
+    // Sequence and persist before anyone is notified, so offsets always point into the log
+    const record = await this.appendToLog({ kind: 'event', eventType: event.type, event });
+    event = record.event!;
+
     // Add to event history
     this.eventHistory.push(event);
     
@@ -76,13 +110,27 @@ export class EventBus extends BaseAgent {
     // Update event metrics
     this.updateEventMetrics(event);
 
-    // Find subscribers for this event type
-    const subscribers = this.eventSubscriptions.get(event.type) || new Set();
-    
-    // Notify all subscribers
-    for (const subscriberId of subscribers) {
-      await this.notifySubscriber(subscriberId, event);
+    // Hand the event to every matching subscriber's buffer; each drains on its own, so
+    // only subscribers with the 'block' policy can hold the publisher up. Their offers wait
+    // side by side, so a stalled one never keeps the event from the subscribers after it
+    const offers: Promise<void>[] = [];
+    for (const [pattern, subscribers] of this.eventSubscriptions.entries()) {
+      if (!matchesTopic(pattern, event.type)) continue;
+
+      for (const subscriberId of subscribers) {
+        const key = this.consumerKey(subscriberId, pattern);
+        const filter = this.eventFilters.get(key);
+
+        if (filter && !evaluateEventFilter(filter, event)) {
+          await this.commitOffset(subscriberId, pattern, record.sequence);
+          continue;
+        }
+
+        const buffer = this.subscriberBuffers.get(key);
+        if (buffer) offers.push(buffer.offer(event));
+      }
     }
+    await Promise.all(offers);
 
     // Store event persistently if important
     if (event.severity === 'critical' || event.severity === 'error') {
@@ -102,38 +150,83 @@ export class EventBus extends BaseAgent {
     this.metrics.tasksCompleted += 1;
   }
 
-  async subscribeToEvent(agentId: string, eventType: string, filter?: any): Promise<string> {
+  // eventType may be a topic pattern ('user.session.*', 'workflow.#')
+  async subscribeToEvent(agentId: string, eventType: string, filter?: any, options: SubscriptionOptions = {}): Promise<string> {
     console.log(`📝 Agent ${agentId} subscribing to event: ${eventType}`);
     
-    if (!this.eventSubscriptions.has(eventType)) {
-      this.eventSubscriptions.set(eventType, new Set());
-    }
-    
-    this.eventSubscriptions.get(eventType)!.add(agentId);
-    
-    // Store filter if provided
-    if (filter) {
-      const filterKey = `${agentId}:${eventType}`;
-      this.eventFilters.set(filterKey, filter);
+    const errors = [
+      ...validateTopicPattern(eventType),
+      ...(filter ? validateEventFilter(normalizeEventFilter(filter) ?? filter) : [])
+    ];
+    if (errors.length > 0) {
+      throw new Error(`Invalid subscription for ${agentId}: ${errors.join('; ')}`);
     }
 
+    await this.appendToLog({ kind: 'subscribe', eventType, agentId, filter, buffer: options.buffer });
+    this.applySubscription(agentId, eventType, filter, options.buffer);
+
     // Generate subscription ID
-    const subscriptionId = `sub-${agentId}-${eventType}-${Date.now()}`;
+    const subscriptionId = `sub-${agentId}-${eventType}-${clock.now()}`;
     
     this.storeMemory(`subscription_${subscriptionId}`, {
       agentId,
       eventType,
       filter,
-      subscribedAt: new Date()
+      subscribedAt: clock.date()
     }, 'long');
 
+    // Catch the subscriber up on what it missed
+    if (options.fromSequence !== undefined || options.resume) {
+      const fromSequence = options.fromSequence ?? (await this.getConsumerOffset(agentId, eventType)) + 1;
+      await this.redeliverFromLog(agentId, eventType, fromSequence);
+    }
+
     this.metrics.tasksCompleted += 1;
     return subscriptionId;
   }
 
+  // Adds a subscriber without logging it; replays use this to rebuild who was listening
+  applySubscription(agentId: string, eventType: string, filter?: any, bufferOptions: SubscriberBufferOptions = {}): void {
+    if (!this.eventSubscriptions.has(eventType)) {
+      this.eventSubscriptions.set(eventType, new Set());
+    }
+    
+    this.eventSubscriptions.get(eventType)!.add(agentId);
+    
+    // Store filter if provided
+    const key = this.consumerKey(agentId, eventType);
+    const expression = normalizeEventFilter(filter);
+    if (expression) {
+      this.eventFilters.set(key, expression);
+    } else {
+      this.eventFilters.delete(key);
+    }
+
+    // Resubscribing reconfigures the existing buffer so nothing pending is lost
+    const buffer = this.subscriberBuffers.get(key);
+    if (buffer) {
+      buffer.configure(bufferOptions);
+    } else {
+      this.subscriberBuffers.set(key, new SubscriberBuffer(agentId, eventType, async event => {
+        const delivered = await this.notifySubscriber(agentId, event);
+        if (delivered && event.sequence !== undefined) {
+          await this.commitOffset(agentId, eventType, event.sequence);
+        }
+        return delivered;
+      }, bufferOptions));
+    }
+  }
+
   async unsubscribeFromEvent(agentId: string, eventType: string): Promise<void> {
     console.log(`🗑️ Agent ${agentId} unsubscribing from event: ${eventType}`);
     
+    await this.appendToLog({ kind: 'unsubscribe', eventType, agentId });
+    this.removeSubscription(agentId, eventType);
+
+    this.metrics.tasksCompleted += 1;
+  }
+
+  removeSubscription(agentId: string, eventType: string): void {
     const subscribers = this.eventSubscriptions.get(eventType);
     if (subscribers) {
       subscribers.delete(agentId);
@@ -144,11 +237,54 @@ export class EventBus extends BaseAgent {
       }
     }
 
-    // Remove filter
-    const filterKey = `${agentId}:${eventType}`;
-    this.eventFilters.delete(filterKey);
+    // Remove filter and buffer
+    const key = this.consumerKey(agentId, eventType);
+    this.eventFilters.delete(key);
+    this.subscriberBuffers.get(key)?.close();
+    this.subscriberBuffers.delete(key);
+  }
 
-    this.metrics.tasksCompleted += 1;
+  getSubscriberStats(): SubscriberBufferStats[] {
+    return Array.from(this.subscriberBuffers.values()).map(buffer => buffer.getStats());
+  }
+
+  // Resolves once every subscriber has drained what was published so far
+  async flush(): Promise<void> {
+    await Promise.all(Array.from(this.subscriberBuffers.values()).map(buffer => buffer.idle()));
+  }
+
+  // Event log
+  setEventLogAdapter(adapter: EventLogStorageAdapter): void {
+    console.log(`💾 Event log now stored in ${adapter.name}`);
+    this.eventLog = adapter;
+    this.eventLogReady = null;
+  }
+
+  getEventLogAdapter(): EventLogStorageAdapter {
+    return this.eventLog;
+  }
+
+  async readEventLog(fromSequence: number = 1, toSequence?: number): Promise<EventLogRecord[]> {
+    await this.ensureEventLogReady();
+    return this.eventLog.read(fromSequence, toSequence);
+  }
+
+  async getConsumerOffset(agentId: string, eventType: string): Promise<number> {
+    await this.ensureEventLogReady();
+    return this.consumerOffsets.get(this.consumerKey(agentId, eventType)) || 0;
+  }
+
+  // Offsets only move forward; a consumer has seen everything up to and including `sequence`
+  async commitOffset(agentId: string, eventType: string, sequence: number): Promise<void> {
+    const key = this.consumerKey(agentId, eventType);
+    if ((this.consumerOffsets.get(key) || 0) >= sequence) return;
+
+    this.consumerOffsets.set(key, sequence);
+    try {
+      await this.eventLog.saveOffset(key, sequence);
+    } catch (error) {
+      console.warn(`Could not save offset for ${key}:`, error);
+    }
   }
 
   getEventHistory(eventType?: string, timeframe?: string): AgentEvent[] {
@@ -156,7 +292,7 @@ export class EventBus extends BaseAgent {
     
     // Filter by event type
     if (eventType) {
-      events = events.filter(e => e.type === eventType);
+      events = events.filter(e => matchesTopic(eventType, e.type));
     }
     
     // Filter by timeframe
@@ -165,7 +301,8 @@ export class EventBus extends BaseAgent {
       events = events.filter(e => e.timestamp >= cutoffTime);
     }
     
-    return events.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    // Newest first by log sequence; timestamps tie for events published in the same millisecond
+    return [...events].sort((a, b) => (b.sequence ?? 0) - (a.sequence ?? 0) || b.timestamp.getTime() - a.timestamp.getTime());
   }
 
   getEventMetrics(eventType?: string): any {
@@ -181,7 +318,7 @@ export class EventBus extends BaseAgent {
     // Return overall metrics
     const totalEvents = this.eventHistory.length;
     const recentEvents = this.eventHistory.filter(e => 
-      e.timestamp > new Date(Date.now() - 60 * 60 * 1000)
+      e.timestamp > new Date(clock.now() - 60 * 60 * 1000)
     ).length;
     
     return {
@@ -206,7 +343,7 @@ export class EventBus extends BaseAgent {
     });
   }
 
-  protected async processMessage(message: AgentMessage): Promise<void> {
+  protected async processMessage(message: TypedAgentMessage): Promise<void> {
     switch (message.type) {
       case 'event-publish':
         await this.handleEventPublish(message);
@@ -238,7 +375,7 @@ export class EventBus extends BaseAgent {
       "I'm like the school intercom that keeps everyone informed! 📻💙"
     ];
     
-    return responses[Math.floor(Math.random() * responses.length)];
+    return responses[Math.floor(random.next() * responses.length)];
   }
 
   // Private helper methods
@@ -283,10 +420,12 @@ export class EventBus extends BaseAgent {
 
     metrics.totalEvents += 1;
     metrics.lastEvent = event.timestamp;
-    metrics.subscriberCount = this.eventSubscriptions.get(event.type)?.size || 0;
+    metrics.subscriberCount = Array.from(this.eventSubscriptions.entries())
+      .filter(([pattern]) => matchesTopic(pattern, event.type))
+      .reduce((count, [, subscribers]) => count + subscribers.size, 0);
 
     // Calculate events per hour
-    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
+    const oneHourAgo = new Date(clock.now() - 60 * 60 * 1000);
     const recentEvents = this.eventHistory.filter(e => 
       e.type === event.type && e.timestamp > oneHourAgo
     ).length;
@@ -295,45 +434,92 @@ export class EventBus extends BaseAgent {
     this.eventMetrics.set(event.type, metrics);
   }
 
-  private async notifySubscriber(subscriberId: string, event: AgentEvent): Promise<void> {
+  // Resolves true once the subscriber has been handed the event; filters are applied by the caller
+  private async notifySubscriber(subscriberId: string, event: AgentEvent): Promise<boolean> {
     try {
-      // Check if subscriber has filters
-      const filterKey = `${subscriberId}:${event.type}`;
-      const filter = this.eventFilters.get(filterKey);
-      
-      if (filter && !this.eventMatchesFilter(event, filter)) {
-        return; // Event doesn't match filter
-      }
-
       // Send event notification
       await this.sendMessage(subscriberId, {
-        id: `event-notification-${Date.now()}`,
+        id: `event-notification-${clock.now()}`,
         fromAgentId: this.id,
         toAgentId: subscriberId,
         type: 'event-notification',
         data: { event },
         priority: this.mapSeverityToPriority(event.severity),
-        timestamp: new Date(),
+        timestamp: clock.date(),
         requiresResponse: false
       });
+      return true;
 
     } catch (error) {
       console.error(`Failed to notify subscriber ${subscriberId}:`, error);
+      return false;
     }
   }
 
-  private eventMatchesFilter(event: AgentEvent, filter: any): boolean {
-    // Apply filter criteria
-    if (filter.severity && event.severity !== filter.severity) return false;
-    if (filter.agentId && event.agentId !== filter.agentId) return false;
-    if (filter.dataFilter) {
-      // Apply data-specific filters
-      for (const [key, value] of Object.entries(filter.dataFilter)) {
-        if (event.data[key] !== value) return false;
-      }
+  private async ensureEventLogReady(): Promise<void> {
+    if (!this.eventLogReady) {
+      this.eventLogReady = this.restoreEventLog();
     }
-    
-    return true;
+    return this.eventLogReady;
+  }
+
+  // Pick up the sequence, offsets and recent history where the last session left off
+  private async restoreEventLog(): Promise<void> {
+    try {
+      this.lastSequence = await this.eventLog.lastSequence();
+      this.consumerOffsets = new Map(Object.entries(await this.eventLog.loadOffsets()));
+
+      const recent = await this.eventLog.read(Math.max(1, this.lastSequence - 1999));
+      this.eventHistory = recent
+        .filter(record => record.kind === 'event' && record.event)
+        .map(record => record.event!)
+        .slice(-1000);
+    } catch (error) {
+      console.warn(`Could not restore event log from ${this.eventLog.name}:`, error);
+    }
+  }
+
+  private async appendToLog(entry: Omit<EventLogRecord, 'sequence' | 'recordedAt'>): Promise<EventLogRecord> {
+    await this.ensureEventLogReady();
+
+    const sequence = ++this.lastSequence;
+    const record: EventLogRecord = {
+      ...entry,
+      sequence,
+      event: entry.event && { ...entry.event, sequence },
+      recordedAt: clock.date()
+    };
+
+    try {
+      await this.eventLog.append(record);
+    } catch (error) {
+      // Losing the log entry should not stop live delivery
+      console.warn(`Could not append to event log ${this.eventLog.name}:`, error);
+    }
+    return record;
+  }
+
+  private async redeliverFromLog(agentId: string, eventType: string, fromSequence: number): Promise<void> {
+    const records = await this.eventLog.read(fromSequence, this.lastSequence);
+    const filter = this.eventFilters.get(this.consumerKey(agentId, eventType));
+    const missed = records.filter(record =>
+      record.kind === 'event' &&
+      matchesTopic(eventType, record.eventType) &&
+      (!filter || evaluateEventFilter(filter, record.event!))
+    );
+
+    if (missed.length > 0) {
+      console.log(`⏪ Redelivering ${missed.length} ${eventType} events to ${agentId} from #${fromSequence}`);
+    }
+
+    for (const record of missed) {
+      if (!await this.notifySubscriber(agentId, record.event!)) break;
+      await this.commitOffset(agentId, eventType, record.sequence);
+    }
+  }
+
+  private consumerKey(agentId: string, eventType: string): string {
+    return `${agentId}:${eventType}`;
   }
 
   private mapSeverityToPriority(severity: string): 'low' | 'medium' | 'high' | 'critical' {
@@ -348,7 +534,7 @@ export class EventBus extends BaseAgent {
   }
 
   private parseTimeframe(timeframe: string): Date {
-    const now = Date.now();
+    const now = clock.now();
     const timeframes = {
       '1h': 60 * 60 * 1000,
       '24h': 24 * 60 * 60 * 1000,
@@ -361,14 +547,14 @@ export class EventBus extends BaseAgent {
   }
 
   // Message handlers
-  private async handleEventPublish(message: AgentMessage): Promise<void> {
+  private async handleEventPublish(message: AgentMessageOf<'event-publish'>): Promise<void> {
     const { event } = message.data;
-    await this.publishEvent(event);
+    await this.publishEvent(event as AgentEvent);
   }
 
-  private async handleEventSubscribe(message: AgentMessage): Promise<void> {
-    const { agentId, eventType, filter } = message.data;
-    const subscriptionId = await this.subscribeToEvent(agentId, eventType, filter);
+  private async handleEventSubscribe(message: AgentMessageOf<'event-subscribe'>): Promise<void> {
+    const { agentId, eventType, filter, resume, fromSequence, buffer } = message.data;
+    const subscriptionId = await this.subscribeToEvent(agentId, eventType, filter, { resume, fromSequence, buffer });
     
     await this.sendMessage(message.fromAgentId, {
       id: '',
@@ -377,13 +563,13 @@ export class EventBus extends BaseAgent {
       type: 'subscription-confirmed',
       data: { subscriptionId },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
   }
 
-  private async handleEventUnsubscribe(message: AgentMessage): Promise<void> {
+  private async handleEventUnsubscribe(message: AgentMessageOf<'event-unsubscribe'>): Promise<void> {
     const { agentId, eventType } = message.data;
     await this.unsubscribeFromEvent(agentId, eventType);
     
@@ -394,13 +580,13 @@ export class EventBus extends BaseAgent {
       type: 'unsubscription-confirmed',
       data: { agentId, eventType },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
   }
 
-  private async handleEventHistoryRequest(message: AgentMessage): Promise<void> {
+  private async handleEventHistoryRequest(message: AgentMessageOf<'event-history-request'>): Promise<void> {
     const { eventType, timeframe } = message.data;
     const history = this.getEventHistory(eventType, timeframe);
     
@@ -411,7 +597,7 @@ export class EventBus extends BaseAgent {
       type: 'event-history-response',
       data: { history },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
@@ -0,0 +1,121 @@
+// Event Log Store - Append-only, sequenced event log and consumer offsets for the Event Bus
+
+import { AgentEvent } from '../base/AgentTypes';
+import { SubscriberBufferOptions } from './SubscriberBuffer';
+
+// Subscriptions are logged alongside events so a replay knows who received what
+export type EventLogRecordKind = 'event' | 'subscribe' | 'unsubscribe';
+
+export interface EventLogRecord {
+  sequence: number;
+  kind: EventLogRecordKind;
+  eventType: string;
+  event?: AgentEvent;
+  agentId?: string;
+  filter?: any;
+  buffer?: SubscriberBufferOptions;
+  recordedAt: Date;
+}
+
+export interface EventLogStorageAdapter {
+  readonly name: string;
+  append(record: EventLogRecord): Promise<void>;
+  // Records with fromSequence <= sequence <= toSequence, oldest first
+  read(fromSequence: number, toSequence?: number): Promise<EventLogRecord[]>;
+  lastSequence(): Promise<number>;
+  saveOffset(consumerId: string, sequence: number): Promise<void>;
+  loadOffsets(): Promise<Record<string, number>>;
+}
+
+export class MemoryEventLogAdapter implements EventLogStorageAdapter {
+  readonly name = 'memory';
+  private records: string[] = [];
+  private offsets: Map<string, number> = new Map();
+
+  async append(record: EventLogRecord): Promise<void> {
+    this.records.push(serializeRecord(record));
+  }
+
+  async read(fromSequence: number, toSequence: number = Infinity): Promise<EventLogRecord[]> {
+    return this.records
+      .map(deserializeRecord)
+      .filter(record => record.sequence >= fromSequence && record.sequence <= toSequence);
+  }
+
+  async lastSequence(): Promise<number> {
+    return this.records.length > 0 ? deserializeRecord(this.records[this.records.length - 1]).sequence : 0;
+  }
+
+  async saveOffset(consumerId: string, sequence: number): Promise<void> {
+    this.offsets.set(consumerId, sequence);
+  }
+
+  async loadOffsets(): Promise<Record<string, number>> {
+    return Object.fromEntries(this.offsets);
+  }
+}
+
+// One key per record so appending never rewrites earlier entries
+export class LocalStorageEventLogAdapter implements EventLogStorageAdapter {
+  readonly name = 'localStorage';
+  private prefix: string;
+
+  constructor(prefix: string = 'agentricai_event_log') {
+    this.prefix = prefix;
+  }
+
+  async append(record: EventLogRecord): Promise<void> {
+    localStorage.setItem(this.recordKey(record.sequence), serializeRecord(record));
+    localStorage.setItem(`${this.prefix}:head`, String(record.sequence));
+  }
+
+  async read(fromSequence: number, toSequence?: number): Promise<EventLogRecord[]> {
+    const last = Math.min(toSequence ?? Infinity, await this.lastSequence());
+    const records: EventLogRecord[] = [];
+
+    for (let sequence = Math.max(1, fromSequence); sequence <= last; sequence++) {
+      const stored = localStorage.getItem(this.recordKey(sequence));
+      if (stored) records.push(deserializeRecord(stored));
+    }
+
+    return records;
+  }
+
+  async lastSequence(): Promise<number> {
+    return Number(localStorage.getItem(`${this.prefix}:head`) || 0);
+  }
+
+  async saveOffset(consumerId: string, sequence: number): Promise<void> {
+    const offsets = await this.loadOffsets();
+    offsets[consumerId] = sequence;
+    localStorage.setItem(`${this.prefix}:offsets`, JSON.stringify(offsets));
+  }
+
+  async loadOffsets(): Promise<Record<string, number>> {
+    const stored = localStorage.getItem(`${this.prefix}:offsets`);
+    return stored ? JSON.parse(stored) : {};
+  }
+
+  private recordKey(sequence: number): string {
+    return `${this.prefix}:${sequence}`;
+  }
+}
+
+// localStorage where available, then memory
+export function createDefaultEventLogStorage(): EventLogStorageAdapter {
+  if (typeof localStorage !== 'undefined') return new LocalStorageEventLogAdapter();
+  return new MemoryEventLogAdapter();
+}
+
+function serializeRecord(record: EventLogRecord): string {
+  return JSON.stringify(record);
+}
+
+const DATE_FIELDS = ['recordedAt', 'timestamp'];
+
+function deserializeRecord(stored: string): EventLogRecord {
+  // Revive the Date fields JSON flattened to strings
+  return JSON.parse(stored, (key, value) =>
+    DATE_FIELDS.includes(key) && typeof value === 'string' ? new Date(value) : value
+  );
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { replayEventLog } from './EventReplay';
+import { EventLogRecord, MemoryEventLogAdapter } from './EventLogStore';
+import { BehaviorAnalyst } from '../behavior/BehaviorAnalyst';
+
+const recordedAt = new Date('2026-10-19T09:00:00Z');
+
+function interaction(sequence: number, action: string): EventLogRecord {
+  return {
+    sequence,
+    kind: 'event',
+    eventType: 'user.interaction.tracked',
+    event: {
+      id: `interaction-${sequence}`,
+      type: 'user.interaction.tracked',
+      agentId: 'interaction-monitor-001',
+      data: { userId: 'learner-1', sessionId: 'session-1', interaction: { action } },
+      // Same millisecond: only the sequence tells them apart
+      timestamp: recordedAt,
+      severity: 'info',
+      sequence
+    },
+    recordedAt
+  };
+}
+
+describe('replayEventLog', () => {
+  it('redelivers logged events to the subscribers in force, in sequence order', async () => {
+    const log = new MemoryEventLogAdapter();
+    await log.append({ sequence: 1, kind: 'subscribe', eventType: 'user.interaction.*', agentId: 'behavior-analyst-001', recordedAt });
+    await log.append(interaction(2, 'tap_shape'));
+    await log.append(interaction(3, 'drag_letter'));
+    await log.append(interaction(4, 'replay_audio'));
+
+    const session = await replayEventLog(log, {
+      agents: [{ create: () => new BehaviorAnalyst(), aliases: ['behavior-analyst'] }]
+    });
+
+    try {
+      const analyst = session.agents.find(agent => agent.id === 'behavior-analyst-001')!;
+      expect(analyst.retrieveMemory('interactions_learner-1', 'long')).toEqual([
+        { action: 'tap_shape' },
+        { action: 'drag_letter' },
+        { action: 'replay_audio' }
+      ]);
+      expect(session.eventBus.getEventHistory().map(event => event.data.interaction.action)).toEqual([
+        'replay_audio',
+        'drag_letter',
+        'tap_shape'
+      ]);
+    } finally {
+      await session.stop();
+    }
+  });
+});
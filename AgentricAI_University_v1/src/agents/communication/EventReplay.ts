@@ -0,0 +1,110 @@
+// Event Replay - Replays a recorded Event Bus log into a fresh set of agents
+// Used to reproduce a learner's session when a parent reports a problem: the agents are
+// booted in their own runtime, the subscriptions in force are rebuilt from the log, and the
+// recorded events are published again in sequence order.
+
+import { BaseAgent } from '../base/BaseAgent';
+import { AgentEvent } from '../base/AgentTypes';
+import { AgentRuntime } from '../base/AgentRuntime';
+import { CapabilityRegistry } from '../base/CapabilityRegistry';
+import { AgentDefinition, AgentRegistry, ISOLATED_AGENT_DEFINITIONS } from '../system/AgentRegistry';
+import { EventBus } from './EventBus';
+import { EventLogRecord, EventLogStorageAdapter, MemoryEventLogAdapter } from './EventLogStore';
+
+export interface EventReplayOptions {
+  // Sequence number or point in time to start from; subscriptions before it still apply
+  from?: number | Date;
+  to?: number | Date;
+  eventTypes?: string[];
+  filter?: (event: AgentEvent) => boolean;
+  // Agents to replay into; defaults to the university agents that keep no shared state
+  agents?: AgentDefinition[];
+}
+
+export interface EventReplaySession {
+  runtime: AgentRuntime;
+  eventBus: EventBus;
+  agents: BaseAgent[];
+  fromSequence: number;
+  toSequence: number;
+  replayedEvents: number;
+  stop: () => Promise<void>;
+}
+
+// The replay brings its own bus
+export const DEFAULT_REPLAY_AGENTS: AgentDefinition[] = ISOLATED_AGENT_DEFINITIONS;
+
+export async function replayEventLog(source: EventLogStorageAdapter, options: EventReplayOptions = {}): Promise<EventReplaySession> {
+  const records = await source.read(1);
+  const fromSequence = resolveBoundary(records, options.from, 'from');
+  const toSequence = resolveBoundary(records, options.to, 'to');
+
+  console.log(`⏪ Replaying event log ${source.name} #${fromSequence}-#${toSequence}`);
+
+  // Fresh runtime, registry and bus so nothing leaks into the live system
+  const runtime = new AgentRuntime(new CapabilityRegistry());
+  const eventBus = new EventBus();
+  eventBus.setEventLogAdapter(new MemoryEventLogAdapter());
+  runtime.register(eventBus, ['event-bus']);
+  await eventBus.initialize();
+  await eventBus.start();
+
+  const agents = await new AgentRegistry(runtime).bootAgents(options.agents || DEFAULT_REPLAY_AGENTS);
+
+  let replayedEvents = 0;
+  for (const record of records) {
+    if (record.sequence > toSequence) break;
+
+    switch (record.kind) {
+      case 'subscribe':
+        // A replay hands over every logged event, so subscribers make it wait rather than drop
+        eventBus.applySubscription(record.agentId!, record.eventType, record.filter, { ...record.buffer, policy: 'block' });
+        break;
+
+      case 'unsubscribe':
+        eventBus.removeSubscription(record.agentId!, record.eventType);
+        break;
+
+      case 'event':
+        if (record.sequence < fromSequence || !matchesReplay(record, options)) break;
+        await eventBus.publishEvent({ ...record.event! });
+        replayedEvents += 1;
+        break;
+    }
+  }
+
+  await eventBus.flush();
+  console.log(`✅ Replayed ${replayedEvents} events into ${agents.length} agents`);
+
+  return {
+    runtime,
+    eventBus,
+    agents: [eventBus, ...agents],
+    fromSequence,
+    toSequence,
+    replayedEvents,
+    stop: () => runtime.stopAll()
+  };
+}
+
+function matchesReplay(record: EventLogRecord, options: EventReplayOptions): boolean {
+  if (options.eventTypes && !options.eventTypes.includes(record.eventType)) return false;
+  if (options.filter && !options.filter(record.event!)) return false;
+  return true;
+}
+
+function resolveBoundary(records: EventLogRecord[], boundary: number | Date | undefined, side: 'from' | 'to'): number {
+  const lastSequence = records.length > 0 ? records[records.length - 1].sequence : 0;
+
+  if (boundary === undefined) return side === 'from' ? 1 : lastSequence;
+  if (typeof boundary === 'number') return boundary;
+
+  // A point in time maps to the first record at or after it ('from') or the last one at or before it ('to')
+  if (side === 'from') {
+    const first = records.find(record => record.recordedAt >= boundary);
+    return first ? first.sequence : lastSequence + 1;
+  }
+
+  const before = records.filter(record => record.recordedAt <= boundary);
+  return before.length > 0 ? before[before.length - 1].sequence : 0;
+}
@@ -0,0 +1,97 @@
+// Event Topics - Hierarchical topic patterns and declarative filters for Event Bus subscriptions
+// Event types are dotted topics ('user.session.started'). In a pattern, '*' matches exactly one
+// segment and '#' matches zero or more, so 'user.session.*' and 'workflow.#' both work.
+
+import { AgentEvent, WorkflowCondition } from '../base/AgentTypes';
+import { evaluateCondition } from './WorkflowDefinition';
+
+// Conditions use the workflow condition operators; paths are relative to the event ('data.userId')
+export type EventFilterExpression =
+  | WorkflowCondition
+  | { all: EventFilterExpression[] }
+  | { any: EventFilterExpression[] }
+  | { not: EventFilterExpression };
+
+const CONDITION_OPERATORS: WorkflowCondition['operator'][] = ['equals', 'notEquals', 'in', 'exists', 'gt', 'lt'];
+
+export function isTopicPattern(topic: string): boolean {
+  return topic.split('.').some(segment => segment === '*' || segment === '#');
+}
+
+export function validateTopicPattern(pattern: string): string[] {
+  if (typeof pattern !== 'string' || pattern.trim() === '') return ['topic must be a non-empty string'];
+
+  return pattern.split('.').flatMap((segment, index) => {
+    if (segment === '') return [`topic segment ${index + 1} is empty`];
+    if (segment !== '*' && segment !== '#' && /[*#]/.test(segment)) {
+      return [`topic segment '${segment}' mixes a wildcard with text; wildcards must be a whole segment`];
+    }
+    return [];
+  });
+}
+
+export function matchesTopic(pattern: string, eventType: string): boolean {
+  if (pattern === eventType) return true;
+  return matchSegments(pattern.split('.'), 0, eventType.split('.'), 0);
+}
+
+function matchSegments(pattern: string[], p: number, topic: string[], t: number): boolean {
+  if (p === pattern.length) return t === topic.length;
+
+  if (pattern[p] === '#') {
+    // Try swallowing zero, one, two... remaining segments
+    for (let skip = t; skip <= topic.length; skip++) {
+      if (matchSegments(pattern, p + 1, topic, skip)) return true;
+    }
+    return false;
+  }
+
+  if (t === topic.length) return false;
+  if (pattern[p] !== '*' && pattern[p] !== topic[t]) return false;
+  return matchSegments(pattern, p + 1, topic, t + 1);
+}
+
+// Filters
+export function evaluateEventFilter(expression: EventFilterExpression, event: AgentEvent): boolean {
+  if ('all' in expression) return expression.all.every(part => evaluateEventFilter(part, event));
+  if ('any' in expression) return expression.any.some(part => evaluateEventFilter(part, event));
+  if ('not' in expression) return !evaluateEventFilter(expression.not, event);
+  return evaluateCondition(expression, event as any);
+}
+
+// Accepts a filter expression or the older { severity, agentId, dataFilter } object
+export function normalizeEventFilter(filter: any): EventFilterExpression | undefined {
+  if (!filter || typeof filter !== 'object') return undefined;
+  if ('all' in filter || 'any' in filter || 'not' in filter || 'operator' in filter) return filter;
+
+  const conditions: EventFilterExpression[] = [];
+  if (filter.severity) conditions.push({ path: 'severity', operator: 'equals', value: filter.severity });
+  if (filter.agentId) conditions.push({ path: 'agentId', operator: 'equals', value: filter.agentId });
+  for (const [key, value] of Object.entries(filter.dataFilter || {})) {
+    conditions.push({ path: `data.${key}`, operator: 'equals', value });
+  }
+
+  return conditions.length > 0 ? { all: conditions } : undefined;
+}
+
+export function validateEventFilter(expression: any, label: string = 'filter'): string[] {
+  if (!expression || typeof expression !== 'object') return [`${label} must be an object`];
+
+  for (const combinator of ['all', 'any'] as const) {
+    if (combinator in expression) {
+      if (!Array.isArray(expression[combinator])) return [`${label}.${combinator} must be an array`];
+      return expression[combinator].flatMap((part: any, index: number) =>
+        validateEventFilter(part, `${label}.${combinator}[${index}]`)
+      );
+    }
+  }
+
+  if ('not' in expression) return validateEventFilter(expression.not, `${label}.not`);
+
+  const errors: string[] = [];
+  if (typeof expression.path !== 'string' || !expression.path) errors.push(`${label}.path must be a non-empty string`);
+  if (!CONDITION_OPERATORS.includes(expression.operator)) {
+    errors.push(`${label}.operator must be one of ${CONDITION_OPERATORS.join(', ')}`);
+  }
+  return errors;
+}
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { MessageBus } from './MessageBus';
+import { SystemMessage } from '../base/AgentOSInterface';
+import { createTestEcosystem, TestEcosystem } from '../../test/testEcosystem';
+
+describe('MessageBus', () => {
+  let ecosystem: TestEcosystem;
+  let bus: MessageBus;
+
+  const message = (id: string): SystemMessage => ({
+    id,
+    type: 'resource-event',
+    source: 'resource-allocator-001',
+    data: { agentId: 'content-generator-001' },
+    priority: 'high',
+    timestamp: ecosystem.clock.date()
+  });
+
+  beforeEach(async () => {
+    ecosystem = await createTestEcosystem({ agents: [() => new MessageBus()] });
+    bus = ecosystem.get<MessageBus>('message-bus-001');
+  });
+
+  afterEach(async () => {
+    await ecosystem.stop();
+  });
+
+  it('retries only the exactly-once handlers that failed', async () => {
+    let ledgerWrites = 0;
+    let alertAttempts = 0;
+    bus.subscribe('resource-event', () => {
+      ledgerWrites += 1;
+    });
+    bus.subscribe('resource-event', () => {
+      alertAttempts += 1;
+      if (alertAttempts === 1) throw new Error('alert channel busy');
+    });
+
+    bus.setDeliveryGuarantee('quota-1', 'exactly-once');
+    await bus.routeMessage(message('quota-1'));
+    expect(bus.getDeliveryStatus('quota-1')?.status).toBe('retrying');
+
+    await ecosystem.advance(3000);
+
+    expect(bus.getDeliveryStatus('quota-1')?.status).toBe('acknowledged');
+    expect([ledgerWrites, alertAttempts]).toEqual([1, 2]);
+  });
+
+  it('forgets finished deliveries after the idempotency window', async () => {
+    bus.subscribe('resource-event', () => undefined);
+    bus.setDeliveryGuarantee('quota-2', 'exactly-once');
+    bus.setRetryPolicy('quota-2', 5, 500);
+    await bus.routeMessage(message('quota-2'));
+
+    await ecosystem.advance(30 * 60 * 1000);
+    expect(bus.getDeliveryStatus('quota-2')?.status).toBe('acknowledged');
+
+    await ecosystem.advance(31 * 60 * 1000);
+    expect(bus.getDeliveryStatus('quota-2')).toBeNull();
+  });
+});
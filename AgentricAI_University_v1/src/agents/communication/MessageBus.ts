@@ -1,13 +1,15 @@
 // Message Bus Agent - OS-level communication infrastructure for AgentricAI Core
 
 import { BaseAgent } from '../base/BaseAgent';
-import { AgentConfig, AgentMessage } from '../base/AgentTypes';
+import { AgentConfig, TypedAgentMessage } from '../base/AgentTypes';
 import { 
   AgentOSInterface, 
   SystemMessage, 
   MessageHandler, 
-  AgentMessageBus 
+  AgentMessageBus,
+  DeliveryGuarantee
 } from '../base/AgentOSInterface';
+import { clock, random, scheduler, TimerHandle } from '../base/AgentEnvironment';
 
 export interface MessageChannel {
   name: string;
@@ -32,6 +34,9 @@ export interface MessageStats {
   errorRate: number;
   channelCount: number;
   subscriberCount: number;
+  retryQueueSize: number;
+  deadLetterCount: number;
+  duplicatesSuppressed: number;
 }
 
 export interface QueuedMessage {
@@ -40,6 +45,32 @@ export interface QueuedMessage {
   maxRetries: number;
   nextRetry: Date;
   backoffMs: number;
+  guarantee: DeliveryGuarantee;
+  lastError?: string;
+}
+
+export interface RetryPolicy {
+  retries: number;
+  backoffMs: number;
+}
+
+export interface DeliveryReceipt {
+  messageId: string;
+  status: 'pending' | 'acknowledged' | 'retrying' | 'dead-lettered' | 'duplicate';
+  guarantee: DeliveryGuarantee;
+  attempts: number;
+  lastAttemptAt: Date;
+  acknowledgedAt?: Date;
+  lastError?: string;
+}
+
+export interface DeadLetter {
+  message: SystemMessage;
+  guarantee: DeliveryGuarantee;
+  attempts: number;
+  reason: 'max-retries-exceeded' | 'expired';
+  lastError?: string;
+  deadLetteredAt: Date;
 }
 
 export class MessageBus extends BaseAgent implements AgentOSInterface, AgentMessageBus {
@@ -48,13 +79,27 @@ export class MessageBus extends BaseAgent implements AgentOSInterface, AgentMess
   private routes: Map<string, MessageRoute> = new Map();
   private messageQueue: QueuedMessage[] = [];
   private messageHistory: SystemMessage[] = [];
+  private retryPolicies: Map<string, RetryPolicy> = new Map();
+  private deliveryGuarantees: Map<string, DeliveryGuarantee> = new Map();
+  private deliveryReceipts: Map<string, DeliveryReceipt> = new Map();
+  private processedIdempotencyKeys: Map<string, Date> = new Map();
+  // Exactly-once keys whose delivery is still in progress: the routes and subscriptions that already ran
+  private completedHandlers: Map<string, { handlerIds: Set<string>; updatedAt: Date }> = new Map();
+  private deadLetterQueue: DeadLetter[] = [];
+  private defaultRetryPolicy: RetryPolicy = { retries: 3, backoffMs: 1000 };
+  private idempotencyWindowMs: number = 60 * 60 * 1000;
+  private maxDeadLetters: number = 500;
+  private processorTimer?: TimerHandle;
   private stats: MessageStats = {
     totalMessages: 0,
     messagesPerSecond: 0,
     averageLatency: 0,
     errorRate: 0,
     channelCount: 0,
-    subscriberCount: 0
+    subscriberCount: 0,
+    retryQueueSize: 0,
+    deadLetterCount: 0,
+    duplicatesSuppressed: 0
   };
 
   constructor() {
@@ -80,9 +125,17 @@ export class MessageBus extends BaseAgent implements AgentOSInterface, AgentMess
 
     super(config);
     this.initializeDefaultChannels();
+  }
+
+  protected async onStart(): Promise<void> {
     this.startMessageProcessor();
   }
 
+  protected async onStop(): Promise<void> {
+    scheduler.clearInterval(this.processorTimer);
+    this.processorTimer = undefined;
+  }
+
   async processTask(taskData: any): Promise<any> {
     const { type, data } = taskData;
 
@@ -105,6 +158,21 @@ export class MessageBus extends BaseAgent implements AgentOSInterface, AgentMess
       case 'get_channels':
         return this.listChannels();
       
+      case 'get_delivery_status':
+        return this.getDeliveryStatus(data.messageId);
+      
+      case 'get_dead_letters':
+        return this.getDeadLetters();
+      
+      case 'replay_dead_letter':
+        return await this.replayDeadLetter(data.messageId);
+      
+      case 'replay_dead_letters':
+        return await this.replayAllDeadLetters();
+      
+      case 'purge_dead_letters':
+        return this.purgeDeadLetters(data?.messageId);
+      
       default:
         throw new Error(`Unknown task type: ${type}`);
     }
@@ -143,7 +211,7 @@ export class MessageBus extends BaseAgent implements AgentOSInterface, AgentMess
   }
 
   subscribe(eventType: string, handler: MessageHandler): string {
-    const subscriptionId = `sub-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const subscriptionId = `sub-${clock.now()}-${random.next().toString(36).substr(2, 9)}`;
     
     console.log(`📝 Creating subscription: ${subscriptionId} for event: ${eventType}`);
     
@@ -151,7 +219,7 @@ export class MessageBus extends BaseAgent implements AgentOSInterface, AgentMess
     this.storeMemory(`subscription_${subscriptionId}`, {
       eventType,
       subscriptionId,
-      createdAt: new Date()
+      createdAt: clock.date()
     }, 'long');
     
     return subscriptionId;
@@ -169,39 +237,30 @@ export class MessageBus extends BaseAgent implements AgentOSInterface, AgentMess
   }
 
   async routeMessage(message: SystemMessage): Promise<void> {
-    const startTime = Date.now();
+    const startTime = clock.now();
     
-    try {
-      // Add to message history
-      this.messageHistory.push(message);
-      if (this.messageHistory.length > 1000) {
-        this.messageHistory = this.messageHistory.slice(-1000);
-      }
+    // Add to message history
+    this.messageHistory.push(message);
+    if (this.messageHistory.length > 1000) {
+      this.messageHistory = this.messageHistory.slice(-1000);
+    }
 
-      // Find matching routes
-      const matchingRoutes = this.findMatchingRoutes(message);
-      
-      if (matchingRoutes.length === 0) {
-        console.warn(`No routes found for message type: ${message.type}`);
-        return;
-      }
+    const guarantee = this.getDeliveryGuarantee(message);
 
-      // Route to all matching handlers
-      for (const route of matchingRoutes) {
-        await this.executeRoute(route, message);
-      }
+    try {
+      await this.attemptDelivery(message, guarantee);
 
       // Update latency stats
-      const latency = Date.now() - startTime;
+      const latency = clock.now() - startTime;
       this.stats.averageLatency = (this.stats.averageLatency + latency) / 2;
       
     } catch (error) {
       console.error(`Error routing message:`, error);
       this.stats.errorRate += 1;
       
-      // Queue for retry if appropriate
-      if (message.priority === 'critical' || message.priority === 'high') {
-        await this.queueForRetry(message);
+      // Anything stronger than at-most-once must not be dropped
+      if (guarantee !== 'at-most-once') {
+        await this.queueForRetry(message, guarantee, (error as Error).message);
       }
     }
   }
@@ -218,7 +277,7 @@ export class MessageBus extends BaseAgent implements AgentOSInterface, AgentMess
       subscribers: new Set(),
       messageHistory: [],
       maxHistory: 100,
-      createdAt: new Date(),
+      createdAt: clock.date(),
       isPrivate: false
     };
 
@@ -226,12 +285,12 @@ export class MessageBus extends BaseAgent implements AgentOSInterface, AgentMess
     this.stats.channelCount = this.channels.size;
     
     await this.emitSystemEvent({
-      id: `event-${Date.now()}`,
+      id: `event-${clock.now()}`,
       type: 'system-event',
       source: this.id,
       data: { event: 'channel_created', channelName },
       priority: 'normal',
-      timestamp: new Date()
+      timestamp: clock.date()
     });
   }
 
@@ -247,12 +306,12 @@ export class MessageBus extends BaseAgent implements AgentOSInterface, AgentMess
     this.updateSubscriberCount();
     
     await this.emitSystemEvent({
-      id: `event-${Date.now()}`,
+      id: `event-${clock.now()}`,
       type: 'system-event',
       source: this.id,
       data: { event: 'channel_joined', channelName, agentId: this.id },
       priority: 'normal',
-      timestamp: new Date()
+      timestamp: clock.date()
     });
   }
 
@@ -268,12 +327,12 @@ export class MessageBus extends BaseAgent implements AgentOSInterface, AgentMess
     this.updateSubscriberCount();
     
     await this.emitSystemEvent({
-      id: `event-${Date.now()}`,
+      id: `event-${clock.now()}`,
       type: 'system-event',
       source: this.id,
       data: { event: 'channel_left', channelName, agentId: this.id },
       priority: 'normal',
-      timestamp: new Date()
+      timestamp: clock.date()
     });
   }
 
@@ -288,6 +347,9 @@ export class MessageBus extends BaseAgent implements AgentOSInterface, AgentMess
   }
 
   setRetryPolicy(messageId: string, retries: number, backoff: number): void {
+    // Remember the policy so it also applies if the message fails later
+    this.retryPolicies.set(messageId, { retries, backoffMs: backoff });
+
     const queuedMessage = this.messageQueue.find(qm => qm.message.id === messageId);
     if (queuedMessage) {
       queuedMessage.maxRetries = retries;
@@ -295,9 +357,73 @@ export class MessageBus extends BaseAgent implements AgentOSInterface, AgentMess
     }
   }
 
-  setDeliveryGuarantee(messageId: string, guarantee: 'at-most-once' | 'at-least-once' | 'exactly-once'): void {
-    // Store delivery guarantee preference
-    this.storeMemory(`delivery_${messageId}`, { guarantee }, 'short');
+  setDeliveryGuarantee(messageId: string, guarantee: DeliveryGuarantee): void {
+    this.deliveryGuarantees.set(messageId, guarantee);
+  }
+
+  // Acknowledgements and Dead Letters
+  acknowledge(messageId: string): void {
+    const receipt = this.deliveryReceipts.get(messageId);
+    if (!receipt) return;
+
+    receipt.status = 'acknowledged';
+    receipt.acknowledgedAt = clock.date();
+
+    // An acknowledged message no longer needs retrying
+    this.retryPolicies.delete(messageId);
+    this.messageQueue = this.messageQueue.filter(qm => qm.message.id !== messageId);
+    this.stats.retryQueueSize = this.messageQueue.length;
+  }
+
+  getDeliveryStatus(messageId: string): DeliveryReceipt | null {
+    const receipt = this.deliveryReceipts.get(messageId);
+    return receipt ? { ...receipt } : null;
+  }
+
+  getDeadLetters(): DeadLetter[] {
+    return [...this.deadLetterQueue];
+  }
+
+  async replayDeadLetter(messageId: string): Promise<boolean> {
+    const deadLetter = this.deadLetterQueue.find(dl => dl.message.id === messageId);
+    if (!deadLetter) {
+      throw new Error(`Dead letter not found: ${messageId}`);
+    }
+
+    console.log(`♻️ Replaying dead letter: ${messageId}`);
+    this.deadLetterQueue = this.deadLetterQueue.filter(dl => dl !== deadLetter);
+    this.stats.deadLetterCount = this.deadLetterQueue.length;
+
+    // Replays get a fresh TTL and go through the normal guarantee path
+    const message: SystemMessage = { ...deadLetter.message, timestamp: clock.date() };
+    this.deliveryGuarantees.set(message.id, deadLetter.guarantee);
+    await this.routeMessage(message);
+
+    return this.deliveryReceipts.get(message.id)?.status === 'acknowledged';
+  }
+
+  async replayAllDeadLetters(): Promise<{ replayed: number; failed: number }> {
+    const messageIds = this.deadLetterQueue.map(dl => dl.message.id);
+    let replayed = 0;
+
+    for (const messageId of messageIds) {
+      if (await this.replayDeadLetter(messageId)) {
+        replayed++;
+      }
+    }
+
+    return { replayed, failed: messageIds.length - replayed };
+  }
+
+  purgeDeadLetters(messageId?: string): number {
+    const before = this.deadLetterQueue.length;
+
+    this.deadLetterQueue = messageId
+      ? this.deadLetterQueue.filter(dl => dl.message.id !== messageId)
+      : [];
+    this.stats.deadLetterCount = this.deadLetterQueue.length;
+
+    return before - this.deadLetterQueue.length;
   }
 
   // Message Processing
@@ -311,24 +437,8 @@ export class MessageBus extends BaseAgent implements AgentOSInterface, AgentMess
       channel.messageHistory = channel.messageHistory.slice(-channel.maxHistory);
     }
 
-    // Notify all subscribers
-    for (const subscriberId of channel.subscribers) {
-      await this.notifySubscriber(subscriberId, message);
-    }
-  }
-
-  private async notifySubscriber(subscriberId: string, message: SystemMessage): Promise<void> {
-    try {
-      // Find matching subscriptions
-      for (const [subId, handler] of this.subscriptions.entries()) {
-        const subscription = this.retrieveMemory(`subscription_${subId}`, 'long');
-        if (subscription && this.matchesEventType(message.type, subscription.eventType)) {
-          await handler(message);
-        }
-      }
-    } catch (error) {
-      console.error(`Error notifying subscriber ${subscriberId}:`, error);
-    }
+    // Subscribers were already notified through routeMessage, which applies
+    // the delivery guarantee; channels only keep the history
   }
 
   private findMatchingRoutes(message: SystemMessage): MessageRoute[] {
@@ -358,17 +468,160 @@ export class MessageBus extends BaseAgent implements AgentOSInterface, AgentMess
     }
   }
 
-  private async queueForRetry(message: SystemMessage): Promise<void> {
+  private async attemptDelivery(message: SystemMessage, guarantee: DeliveryGuarantee): Promise<void> {
+    const receipt = this.recordAttempt(message, guarantee);
+
+    // Exactly-once: a key we already processed is acknowledged without redelivery
+    const idempotencyKey = message.idempotencyKey || message.id;
+    if (guarantee === 'exactly-once' && this.processedIdempotencyKeys.has(idempotencyKey)) {
+      console.log(`🔁 Suppressing duplicate delivery for key: ${idempotencyKey}`);
+      receipt.status = 'duplicate';
+      this.stats.duplicatesSuppressed += 1;
+      return;
+    }
+
+    const matchingRoutes = this.findMatchingRoutes(message);
+    const matchingHandlers = this.findMatchingHandlers(message);
+
+    if (matchingRoutes.length === 0 && matchingHandlers.length === 0) {
+      console.warn(`No routes found for message type: ${message.type}`);
+      receipt.status = 'acknowledged';
+      receipt.acknowledgedAt = clock.date();
+      return;
+    }
+
+    // Exactly-once retries skip whatever already ran, so one failing handler does not repeat the others
+    const completed = guarantee === 'exactly-once' ? this.getCompletedHandlers(idempotencyKey) : new Set<string>();
+
+    try {
+      // Route to all matching handlers
+      for (const route of matchingRoutes) {
+        const handlerId = `route:${route.pattern}`;
+        if (completed.has(handlerId)) continue;
+        await this.executeRoute(route, message);
+        completed.add(handlerId);
+      }
+
+      for (const [subscriptionId, handler] of matchingHandlers) {
+        if (completed.has(subscriptionId)) continue;
+        await handler(message);
+        completed.add(subscriptionId);
+      }
+    } catch (error) {
+      receipt.lastError = (error as Error).message;
+      throw error;
+    }
+
+    // Every handler returned without throwing, so the delivery is acknowledged
+    if (guarantee === 'exactly-once') {
+      this.processedIdempotencyKeys.set(idempotencyKey, clock.date());
+      this.completedHandlers.delete(idempotencyKey);
+    }
+    this.acknowledge(message.id);
+  }
+
+  private findMatchingHandlers(message: SystemMessage): [string, MessageHandler][] {
+    const handlers: [string, MessageHandler][] = [];
+
+    for (const [subId, handler] of this.subscriptions.entries()) {
+      const subscription = this.retrieveMemory(`subscription_${subId}`, 'long');
+      if (subscription && this.matchesEventType(message.type, subscription.eventType)) {
+        handlers.push([subId, handler]);
+      }
+    }
+
+    return handlers;
+  }
+
+  private getCompletedHandlers(idempotencyKey: string): Set<string> {
+    const progress = this.completedHandlers.get(idempotencyKey) || { handlerIds: new Set<string>(), updatedAt: clock.date() };
+    progress.updatedAt = clock.date();
+    this.completedHandlers.set(idempotencyKey, progress);
+    return progress.handlerIds;
+  }
+
+  private getDeliveryGuarantee(message: SystemMessage): DeliveryGuarantee {
+    const guarantee = this.deliveryGuarantees.get(message.id);
+    if (guarantee) return guarantee;
+
+    // Without an explicit guarantee, only urgent messages are retried
+    return message.priority === 'critical' || message.priority === 'high'
+      ? 'at-least-once'
+      : 'at-most-once';
+  }
+
+  private recordAttempt(message: SystemMessage, guarantee: DeliveryGuarantee): DeliveryReceipt {
+    const receipt: DeliveryReceipt = this.deliveryReceipts.get(message.id) || {
+      messageId: message.id,
+      status: 'pending',
+      guarantee,
+      attempts: 0,
+      lastAttemptAt: clock.date()
+    };
+
+    receipt.status = 'pending';
+    receipt.guarantee = guarantee;
+    receipt.attempts += 1;
+    receipt.lastAttemptAt = clock.date();
+    this.deliveryReceipts.set(message.id, receipt);
+
+    return receipt;
+  }
+
+  private async queueForRetry(message: SystemMessage, guarantee: DeliveryGuarantee, lastError?: string): Promise<void> {
+    if (this.messageQueue.some(qm => qm.message.id === message.id)) return;
+
+    const policy = this.retryPolicies.get(message.id) || this.defaultRetryPolicy;
     const queuedMessage: QueuedMessage = {
       message,
       retries: 0,
-      maxRetries: 3,
-      nextRetry: new Date(Date.now() + 1000), // 1 second initial delay
-      backoffMs: 1000
+      maxRetries: policy.retries,
+      nextRetry: new Date(clock.now() + policy.backoffMs),
+      backoffMs: policy.backoffMs,
+      guarantee,
+      lastError
     };
     
     this.messageQueue.push(queuedMessage);
     this.sortMessageQueue();
+    this.markReceipt(message.id, 'retrying', lastError);
+    this.stats.retryQueueSize = this.messageQueue.length;
+  }
+
+  private moveToDeadLetter(queuedMessage: QueuedMessage, reason: DeadLetter['reason']): void {
+    console.error(`☠️ Message ${queuedMessage.message.id} moved to dead-letter queue: ${reason}`);
+
+    this.messageQueue = this.messageQueue.filter(qm => qm !== queuedMessage);
+    this.deadLetterQueue.push({
+      message: queuedMessage.message,
+      guarantee: queuedMessage.guarantee,
+      attempts: queuedMessage.retries + 1,
+      reason,
+      lastError: queuedMessage.lastError,
+      deadLetteredAt: clock.date()
+    });
+
+    if (this.deadLetterQueue.length > this.maxDeadLetters) {
+      this.deadLetterQueue = this.deadLetterQueue.slice(-this.maxDeadLetters);
+    }
+
+    this.markReceipt(queuedMessage.message.id, 'dead-lettered', queuedMessage.lastError);
+    this.stats.retryQueueSize = this.messageQueue.length;
+    this.stats.deadLetterCount = this.deadLetterQueue.length;
+  }
+
+  private markReceipt(messageId: string, status: DeliveryReceipt['status'], lastError?: string): void {
+    const receipt = this.deliveryReceipts.get(messageId);
+    if (!receipt) return;
+
+    receipt.status = status;
+    if (lastError) {
+      receipt.lastError = lastError;
+    }
+  }
+
+  private isExpired(message: SystemMessage, now: Date): boolean {
+    return message.ttl !== undefined && now.getTime() - message.timestamp.getTime() > message.ttl;
   }
 
   private sortMessageQueue(): void {
@@ -388,36 +641,43 @@ export class MessageBus extends BaseAgent implements AgentOSInterface, AgentMess
 
   private startMessageProcessor(): void {
     // Process queued messages every second
-    setInterval(async () => {
+    this.processorTimer = scheduler.setInterval(async () => {
       await this.processMessageQueue();
       this.updateMessageStats();
     }, 1000);
   }
 
   private async processMessageQueue(): Promise<void> {
-    const now = new Date();
+    const now = clock.date();
     const messagesToProcess = this.messageQueue.filter(qm => qm.nextRetry <= now);
     
     for (const queuedMessage of messagesToProcess) {
+      if (this.isExpired(queuedMessage.message, now)) {
+        this.moveToDeadLetter(queuedMessage, 'expired');
+        continue;
+      }
+
       try {
-        await this.routeMessage(queuedMessage.message);
+        await this.attemptDelivery(queuedMessage.message, queuedMessage.guarantee);
         
         // Remove from queue on success
         this.messageQueue = this.messageQueue.filter(qm => qm !== queuedMessage);
         
       } catch (error) {
         queuedMessage.retries++;
+        queuedMessage.lastError = (error as Error).message;
         
         if (queuedMessage.retries >= queuedMessage.maxRetries) {
-          // Max retries exceeded, remove from queue
-          console.error(`Message ${queuedMessage.message.id} exceeded max retries`);
-          this.messageQueue = this.messageQueue.filter(qm => qm !== queuedMessage);
+          this.moveToDeadLetter(queuedMessage, 'max-retries-exceeded');
         } else {
           // Schedule next retry with exponential backoff
           queuedMessage.nextRetry = new Date(now.getTime() + queuedMessage.backoffMs * Math.pow(2, queuedMessage.retries));
+          this.markReceipt(queuedMessage.message.id, 'retrying', queuedMessage.lastError);
         }
       }
     }
+
+    this.stats.retryQueueSize = this.messageQueue.length;
   }
 
   private initializeDefaultChannels(): void {
@@ -436,7 +696,7 @@ export class MessageBus extends BaseAgent implements AgentOSInterface, AgentMess
         subscribers: new Set(),
         messageHistory: [],
         maxHistory: 100,
-        createdAt: new Date(),
+        createdAt: clock.date(),
         isPrivate: false
       };
       
@@ -461,7 +721,7 @@ export class MessageBus extends BaseAgent implements AgentOSInterface, AgentMess
     this.stats.totalMessages++;
     
     // Calculate messages per second (simple moving average)
-    const now = Date.now();
+    const now = clock.now();
     const recentMessages = this.messageHistory.filter(m => 
       now - m.timestamp.getTime() < 1000
     ).length;
@@ -473,6 +733,37 @@ export class MessageBus extends BaseAgent implements AgentOSInterface, AgentMess
     // Update various statistics
     this.stats.channelCount = this.channels.size;
     this.updateSubscriberCount();
+    this.pruneDeliveryState();
+  }
+
+  // Finished messages keep their receipt and guarantee for the idempotency window, so status lookups
+  // and same-id duplicates still work; queued and dead-lettered messages keep theirs until they leave
+  private pruneDeliveryState(): void {
+    const cutoff = clock.now() - this.idempotencyWindowMs;
+
+    for (const [key, processedAt] of this.processedIdempotencyKeys.entries()) {
+      if (processedAt.getTime() < cutoff) {
+        this.processedIdempotencyKeys.delete(key);
+      }
+    }
+
+    for (const [key, progress] of this.completedHandlers.entries()) {
+      if (progress.updatedAt.getTime() < cutoff) {
+        this.completedHandlers.delete(key);
+      }
+    }
+
+    const held = new Set([
+      ...this.messageQueue.map(qm => qm.message.id),
+      ...this.deadLetterQueue.map(dl => dl.message.id)
+    ]);
+    for (const [messageId, receipt] of this.deliveryReceipts.entries()) {
+      if (held.has(messageId) || (receipt.acknowledgedAt || receipt.lastAttemptAt).getTime() >= cutoff) continue;
+
+      this.deliveryReceipts.delete(messageId);
+      this.deliveryGuarantees.delete(messageId);
+      this.retryPolicies.delete(messageId);
+    }
   }
 
   private updateSubscriberCount(): void {
@@ -496,7 +787,7 @@ export class MessageBus extends BaseAgent implements AgentOSInterface, AgentMess
     console.log(`📝 Registering Message Bus with OS`);
     this.storeMemory('os_registration', {
       registered: true,
-      registeredAt: new Date(),
+      registeredAt: clock.date(),
       services: ['message-routing', 'channel-management', 'broadcast-messaging']
     }, 'long');
   }
@@ -514,7 +805,7 @@ export class MessageBus extends BaseAgent implements AgentOSInterface, AgentMess
   async requestSystemResources(resources: any): Promise<any> {
     // Message bus has minimal resource requirements
     return {
-      allocationId: `msgbus-${Date.now()}`,
+      allocationId: `msgbus-${clock.now()}`,
       memory: { allocated: '512MB', address: '0x12345678', type: 'heap' }
     };
   }
@@ -535,7 +826,8 @@ export class MessageBus extends BaseAgent implements AgentOSInterface, AgentMess
         messagesPerSecond: this.stats.messagesPerSecond,
         averageLatency: this.stats.averageLatency,
         errorRate: this.stats.errorRate,
-        queueSize: this.messageQueue.length
+        queueSize: this.messageQueue.length,
+        deadLetters: this.deadLetterQueue.length
       }
     };
     
@@ -546,6 +838,7 @@ export class MessageBus extends BaseAgent implements AgentOSInterface, AgentMess
     return {
       messageStats: this.stats,
       queueSize: this.messageQueue.length,
+      deadLetterCount: this.deadLetterQueue.length,
       channelHealth: this.getChannelHealth(),
       subscriptionHealth: this.getSubscriptionHealth()
     };
@@ -576,7 +869,7 @@ export class MessageBus extends BaseAgent implements AgentOSInterface, AgentMess
     console.log(`📋 Registering message bus service: ${serviceType}`);
   }
 
-  protected async processMessage(message: AgentMessage): Promise<void> {
+  protected async processMessage(message: TypedAgentMessage): Promise<void> {
     // Convert AgentMessage to SystemMessage and route
     const systemMessage: SystemMessage = {
       id: message.id,
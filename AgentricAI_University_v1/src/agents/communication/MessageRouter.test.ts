@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { MessageRouter } from './MessageRouter';
+import { capabilityRegistry } from '../base/CapabilityRegistry';
+import { createTestEcosystem } from '../../test/testEcosystem';
+
+describe('MessageRouter', () => {
+  it('routes and reports load through the registry of the runtime it runs in', async () => {
+    const ecosystem = await createTestEcosystem({
+      agents: [() => new MessageRouter()],
+      fakes: [{ id: 'phonics-tutor', capabilities: ['phonics-practice'] }]
+    });
+    const router = ecosystem.get<MessageRouter>('message-router-001');
+    const registry = ecosystem.runtime.getCapabilityRegistry();
+
+    expect(router.selectAgent('phonics-practice')).toBe('phonics-tutor');
+    expect(capabilityRegistry.isRegistered('phonics-tutor')).toBe(false);
+
+    // Held for a stopped target, and counted towards its load until the router stops
+    await ecosystem.fake('phonics-tutor').stop();
+    await router.routeMessage({
+      id: 'drill-1',
+      fromAgentId: 'learning-coordinator-001',
+      toAgentId: 'phonics-tutor',
+      type: 'direct-communication',
+      data: { task: 'drill' },
+      priority: 'low',
+      timestamp: ecosystem.clock.date(),
+      requiresResponse: false
+    });
+    expect(registry.getLoadSnapshot('phonics-tutor').queueDepth).toBe(1);
+
+    await ecosystem.stop();
+    expect(registry.getLoadSnapshot('phonics-tutor').queueDepth).toBe(0);
+  });
+});
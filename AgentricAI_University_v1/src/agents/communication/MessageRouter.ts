@@ -2,14 +2,21 @@
 
 import { BaseAgent } from '../base/BaseAgent';
 import { ICommunicationAgent } from '../base/AgentInterface';
-import { AgentConfig, AgentMessage } from '../base/AgentTypes';
+import { AgentCapability, AgentConfig, AgentMessage, AgentMessageOf, TypedAgentMessage } from '../base/AgentTypes';
+import { generateMessageReference, MessageValidationError } from '../base/MessageCatalog';
+import { AgentLoadSnapshot, CapabilityRegistry, LoadBalancingStrategy } from '../base/CapabilityRegistry';
+import { clock, random, scheduler, TimerHandle } from '../base/AgentEnvironment';
+
+// Messages addressed to `capability:<name>` go to the best agent advertising that capability
+const CAPABILITY_ADDRESS_PREFIX = 'capability:';
 
 export class MessageRouter extends BaseAgent implements ICommunicationAgent {
-  private routingTable: Map<string, string[]> = new Map();
   private messageQueue: Map<string, AgentMessage[]> = new Map();
   private deliveryHistory: Map<string, any> = new Map();
-  private agentRegistry: Map<string, any> = new Map();
   private routingRules: Map<string, any> = new Map();
+  private processorTimer?: TimerHandle;
+  // Where this router's queue depths are reported, kept so onStop removes them from the same registry
+  private queueDepthRegistry?: CapabilityRegistry;
 
   constructor() {
     const config: AgentConfig = {
@@ -33,11 +40,23 @@ export class MessageRouter extends BaseAgent implements ICommunicationAgent {
     };
 
     super(config);
-    this.initializeRoutingTable();
     this.initializeRoutingRules();
+  }
+
+  protected async onStart(): Promise<void> {
+    // Messages waiting in this router count towards each target's live load
+    this.queueDepthRegistry = this.capabilityRegistry;
+    this.queueDepthRegistry.addQueueDepthSource(this.id, agentId => this.messageQueue.get(agentId)?.length || 0);
     this.startMessageProcessor();
   }
 
+  protected async onStop(): Promise<void> {
+    scheduler.clearInterval(this.processorTimer);
+    this.processorTimer = undefined;
+    this.queueDepthRegistry?.removeQueueDepthSource(this.id);
+    this.queueDepthRegistry = undefined;
+  }
+
   async processTask(taskData: any): Promise<any> {
     const { type, data } = taskData;
 
@@ -46,11 +65,17 @@ export class MessageRouter extends BaseAgent implements ICommunicationAgent {
         return await this.routeMessage(data.message);
       
       case 'register_agent':
-        return await this.registerAgent(data.agentId, data.capabilities);
+        return await this.registerAgent(data.agentId, data.capabilities, data.weight);
       
       case 'discover_agents':
         return this.discoverAgents(data.capability);
       
+      case 'select_agent':
+        return this.selectAgent(data.capability, data.strategy, data.task);
+      
+      case 'get_agent_load':
+        return this.getAgentLoad(data.capability);
+      
       case 'manage_workflow':
         return await this.manageWorkflow(data.workflowId);
       
@@ -60,6 +85,9 @@ export class MessageRouter extends BaseAgent implements ICommunicationAgent {
       case 'emergency_broadcast':
         return await this.handleEmergencyBroadcast(data.message);
       
+      case 'get_message_reference':
+        return generateMessageReference();
+      
       default:
         throw new Error(`Unknown task type: ${type}`);
     }
@@ -73,8 +101,18 @@ export class MessageRouter extends BaseAgent implements ICommunicationAgent {
       throw new Error('Invalid message format');
     }
 
+    // Resolve capability addresses to a concrete agent
+    if (message.toAgentId.startsWith(CAPABILITY_ADDRESS_PREFIX)) {
+      const capability = message.toAgentId.slice(CAPABILITY_ADDRESS_PREFIX.length);
+      const agentId = this.selectAgent(capability);
+      if (!agentId) {
+        throw new Error(`No available agent for capability: ${capability}`);
+      }
+      message = { ...message, toAgentId: agentId };
+    }
+
     // Check if target agent is registered
-    if (message.toAgentId !== 'broadcast' && !this.agentRegistry.has(message.toAgentId)) {
+    if (message.toAgentId !== 'broadcast' && !this.capabilityRegistry.isRegistered(message.toAgentId)) {
       throw new Error(`Target agent not found: ${message.toAgentId}`);
     }
 
@@ -95,37 +133,19 @@ export class MessageRouter extends BaseAgent implements ICommunicationAgent {
     this.metrics.tasksCompleted += 1;
   }
 
-  async registerAgent(agentId: string, capabilities: string[]): Promise<void> {
-    console.log(`📝 Registering agent: ${agentId} with capabilities: ${capabilities.join(', ')}`);
-    
-    const registration = {
-      agentId,
-      capabilities,
-      registeredAt: new Date(),
-      status: 'active',
-      messageCount: 0,
-      lastActivity: new Date(),
-      loadLevel: 0
-    };
-
-    this.agentRegistry.set(agentId, registration);
-    
-    // Update routing table
-    for (const capability of capabilities) {
-      if (!this.routingTable.has(capability)) {
-        this.routingTable.set(capability, []);
-      }
-      this.routingTable.get(capability)!.push(agentId);
-    }
+  async registerAgent(agentId: string, capabilities: (AgentCapability | string)[], weight?: number): Promise<void> {
+    const registration = this.capabilityRegistry.register(agentId, capabilities, { weight });
+    const capabilityNames = registration.capabilities.map(capability => capability.name);
+    console.log(`📝 Registering agent: ${agentId} with capabilities: ${capabilityNames.join(', ')}`);
 
     // Notify ecosystem of new agent
     await this.emitSystemEvent({
-      id: `agent-registered-${Date.now()}`,
+      id: `agent-registered-${clock.now()}`,
       type: 'agent-event',
       source: this.id,
-      data: { event: 'agent_registered', agentId, capabilities },
+      data: { event: 'agent_registered', agentId, capabilities: capabilityNames },
       priority: 'normal',
-      timestamp: new Date()
+      timestamp: clock.date()
     });
 
     this.metrics.tasksCompleted += 1;
@@ -133,10 +153,18 @@ export class MessageRouter extends BaseAgent implements ICommunicationAgent {
 
   discoverAgents(capability?: string): string[] {
     if (capability) {
-      return this.routingTable.get(capability) || [];
+      return this.capabilityRegistry.findProviders(capability);
     }
     
-    return Array.from(this.agentRegistry.keys());
+    return this.capabilityRegistry.listRegistrations().map(registration => registration.agentId);
+  }
+
+  selectAgent(capability: string, strategy?: LoadBalancingStrategy, task?: string): string | null {
+    return this.capabilityRegistry.selectAgent(capability, strategy || this.routingRules.get('load_balancing').algorithm, [], task);
+  }
+
+  getAgentLoad(capability?: string): AgentLoadSnapshot[] {
+    return this.discoverAgents(capability).map(agentId => this.capabilityRegistry.getLoadSnapshot(agentId, capability));
   }
 
   async manageWorkflow(workflowId: string): Promise<void> {
@@ -154,7 +182,7 @@ export class MessageRouter extends BaseAgent implements ICommunicationAgent {
 
     // Mark workflow as completed
     workflow.status = 'completed';
-    workflow.completedAt = new Date();
+    workflow.completedAt = clock.date();
     this.storeMemory(`workflow_${workflowId}`, workflow, 'short');
 
     this.metrics.tasksCompleted += 1;
@@ -164,10 +192,10 @@ export class MessageRouter extends BaseAgent implements ICommunicationAgent {
     console.log(`🤝 Coordinating agents: ${agentIds.join(', ')} for task: ${task.type}`);
     
     const coordination = {
-      coordinationId: `coord-${Date.now()}`,
+      coordinationId: `coord-${clock.now()}`,
       agentIds,
       task,
-      startTime: new Date(),
+      startTime: clock.date(),
       steps: [],
       results: {},
       status: 'in_progress'
@@ -175,7 +203,7 @@ export class MessageRouter extends BaseAgent implements ICommunicationAgent {
 
     // Validate all agents are available
     for (const agentId of agentIds) {
-      if (!this.agentRegistry.has(agentId)) {
+      if (!this.capabilityRegistry.isRegistered(agentId)) {
         throw new Error(`Agent not available: ${agentId}`);
       }
     }
@@ -196,7 +224,7 @@ export class MessageRouter extends BaseAgent implements ICommunicationAgent {
           dependencies: subtask.dependencies || []
         },
         priority: task.priority || 'medium',
-        timestamp: new Date(),
+        timestamp: clock.date(),
         requiresResponse: true
       });
     }
@@ -214,14 +242,15 @@ export class MessageRouter extends BaseAgent implements ICommunicationAgent {
     // Set highest priority
     message.priority = 'critical';
     
-    // Broadcast to all registered agents
-    const allAgents = Array.from(this.agentRegistry.keys());
+    // Broadcast to all registered agents except the router itself and the sender
+    const allAgents = this.discoverAgents()
+      .filter(agentId => agentId !== this.id && agentId !== message.fromAgentId);
     
     for (const agentId of allAgents) {
       const emergencyMessage = {
         ...message,
         toAgentId: agentId,
-        id: `emergency-${Date.now()}-${agentId}`
+        id: `emergency-${clock.now()}-${agentId}`
       };
       
       await this.deliverMessage(emergencyMessage);
@@ -233,7 +262,7 @@ export class MessageRouter extends BaseAgent implements ICommunicationAgent {
     this.metrics.tasksCompleted += 1;
   }
 
-  protected async processMessage(message: AgentMessage): Promise<void> {
+  protected async processMessage(message: TypedAgentMessage): Promise<void> {
     switch (message.type) {
       case 'route-request':
         await this.handleRouteRequest(message);
@@ -266,21 +295,10 @@ export class MessageRouter extends BaseAgent implements ICommunicationAgent {
       "I'm like the telephone operator for all the smart helpers! ☎️🌟"
     ];
     
-    return responses[Math.floor(Math.random() * responses.length)];
+    return responses[Math.floor(random.next() * responses.length)];
   }
 
   // Private helper methods
-  private initializeRoutingTable(): void {
-    // Initialize routing table with agent capabilities
-    this.routingTable.set('learning-assessment', ['learning-coordinator']);
-    this.routingTable.set('behavior-analysis', ['behavior-analyst']);
-    this.routingTable.set('content-generation', ['content-generator']);
-    this.routingTable.set('error-handling', ['error-handler']);
-    this.routingTable.set('knowledge-management', ['knowledge-manager']);
-    this.routingTable.set('memory-optimization', ['memory-optimizer']);
-    this.routingTable.set('data-analysis', ['data-analyst']);
-  }
-
   private initializeRoutingRules(): void {
     this.routingRules.set('priority_routing', {
       critical: { maxDelay: 0, retries: 3 },
@@ -289,9 +307,10 @@ export class MessageRouter extends BaseAgent implements ICommunicationAgent {
       low: { maxDelay: 2000, retries: 0 }
     });
 
+    // Load is the target's queued plus in-flight messages
     this.routingRules.set('load_balancing', {
       enabled: true,
-      algorithm: 'round_robin',
+      algorithm: 'least-loaded',
       maxLoadPerAgent: 10
     });
 
@@ -304,7 +323,7 @@ export class MessageRouter extends BaseAgent implements ICommunicationAgent {
 
   private startMessageProcessor(): void {
     // Process queued messages every 100ms
-    setInterval(async () => {
+    this.processorTimer = scheduler.setInterval(async () => {
       await this.processMessageQueue();
     }, 100);
   }
@@ -333,12 +352,16 @@ export class MessageRouter extends BaseAgent implements ICommunicationAgent {
 
     // Check load balancing
     const loadRule = this.routingRules.get('load_balancing');
-    if (loadRule.enabled) {
-      const targetAgent = this.agentRegistry.get(message.toAgentId);
-      if (targetAgent && targetAgent.loadLevel > loadRule.maxLoadPerAgent) {
+    if (loadRule.enabled && message.toAgentId !== 'broadcast') {
+      const load = this.capabilityRegistry.getLoadSnapshot(message.toAgentId);
+      if (load.load >= loadRule.maxLoadPerAgent) {
         decision.queue = true;
         decision.route = false;
         decision.reason = 'target_agent_overloaded';
+      } else if (load.health === 'unavailable') {
+        decision.queue = true;
+        decision.route = false;
+        decision.reason = 'target_agent_unavailable';
       }
     }
 
@@ -370,31 +393,26 @@ export class MessageRouter extends BaseAgent implements ICommunicationAgent {
   }
 
   private async deliverMessage(message: AgentMessage): Promise<void> {
+    // The target counts this message as in flight until its handler returns
+    const finishDispatch = this.capabilityRegistry.beginDispatch(message.toAgentId);
+
     try {
-      // Simulate message delivery
       console.log(`📬 Delivering message ${message.id} to ${message.toAgentId}`);
-      
-      // Update agent load
-      const targetAgent = this.agentRegistry.get(message.toAgentId);
-      if (targetAgent) {
-        targetAgent.messageCount += 1;
-        targetAgent.lastActivity = new Date();
-        targetAgent.loadLevel = Math.min(10, targetAgent.loadLevel + 1);
-      }
+      await this.relayMessage(message);
 
       // Log delivery
       this.deliveryHistory.set(message.id, {
         messageId: message.id,
         fromAgent: message.fromAgentId,
         toAgent: message.toAgentId,
-        deliveredAt: new Date(),
-        deliveryTime: Date.now() - message.timestamp.getTime(),
+        deliveredAt: clock.date(),
+        deliveryTime: clock.now() - message.timestamp.getTime(),
         status: 'delivered'
       });
 
       // Emit delivery event
       await this.emitSystemEvent({
-        id: `message-delivered-${Date.now()}`,
+        id: `message-delivered-${clock.now()}`,
         type: 'system-event',
         source: this.id,
         data: { 
@@ -403,7 +421,7 @@ export class MessageRouter extends BaseAgent implements ICommunicationAgent {
           route: `${message.fromAgentId} → ${message.toAgentId}`
         },
         priority: 'low',
-        timestamp: new Date()
+        timestamp: clock.date()
       });
 
     } catch (error) {
@@ -414,15 +432,18 @@ export class MessageRouter extends BaseAgent implements ICommunicationAgent {
         messageId: message.id,
         fromAgent: message.fromAgentId,
         toAgent: message.toAgentId,
-        failedAt: new Date(),
+        failedAt: clock.date(),
         error: error.message,
         status: 'failed'
       });
       
-      // Retry if appropriate
-      if (message.priority === 'critical' || message.priority === 'high') {
+      // Retry if appropriate; a message the target rejected as invalid will never succeed
+      const retryable = !(error instanceof MessageValidationError);
+      if (retryable && (message.priority === 'critical' || message.priority === 'high')) {
         await this.queueMessage(message);
       }
+    } finally {
+      finishDispatch();
     }
   }
 
@@ -430,8 +451,9 @@ export class MessageRouter extends BaseAgent implements ICommunicationAgent {
     for (const [agentId, queue] of this.messageQueue.entries()) {
       if (queue.length === 0) continue;
       
-      const agent = this.agentRegistry.get(agentId);
-      if (!agent || agent.loadLevel >= 10) continue; // Agent overloaded
+      const load = this.capabilityRegistry.getLoadSnapshot(agentId);
+      const maxLoad = this.routingRules.get('load_balancing').maxLoadPerAgent;
+      if (load.health === 'unavailable' || load.inFlight >= maxLoad) continue; // Agent overloaded or down
       
       // Process next message in queue
       const message = queue.shift();
@@ -444,15 +466,12 @@ export class MessageRouter extends BaseAgent implements ICommunicationAgent {
   private async executeWorkflowStep(step: any, workflowId: string): Promise<void> {
     console.log(`⚙️ Executing workflow step: ${step.action} for workflow: ${workflowId}`);
     
-    // Find appropriate agent for this step
-    const capableAgents = this.routingTable.get(step.capability) || [];
+    // Select the best agent advertising this capability (load balancing)
+    const selectedAgent = this.selectAgent(step.capability);
     
-    if (capableAgents.length === 0) {
+    if (!selectedAgent) {
       throw new Error(`No agents capable of: ${step.capability}`);
     }
-
-    // Select best agent (load balancing)
-    const selectedAgent = this.selectOptimalAgent(capableAgents);
     
     // Send workflow step to agent
     await this.sendMessage(selectedAgent, {
@@ -466,7 +485,7 @@ export class MessageRouter extends BaseAgent implements ICommunicationAgent {
         inputData: step.inputData
       },
       priority: 'high',
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: true
     });
   }
@@ -508,26 +527,10 @@ export class MessageRouter extends BaseAgent implements ICommunicationAgent {
     }
   }
 
-  private selectOptimalAgent(agentIds: string[]): string {
-    // Select agent with lowest load
-    let optimalAgent = agentIds[0];
-    let lowestLoad = Infinity;
-    
-    for (const agentId of agentIds) {
-      const agent = this.agentRegistry.get(agentId);
-      if (agent && agent.loadLevel < lowestLoad) {
-        lowestLoad = agent.loadLevel;
-        optimalAgent = agentId;
-      }
-    }
-    
-    return optimalAgent;
-  }
-
   private async isDuplicateMessage(message: AgentMessage): Promise<boolean> {
     // Check recent delivery history for duplicates
     const recentDeliveries = Array.from(this.deliveryHistory.values())
-      .filter(d => d.deliveredAt > new Date(Date.now() - 60000)); // Last minute
+      .filter(d => d.deliveredAt > new Date(clock.now() - 60000)); // Last minute
     
     return recentDeliveries.some(d => 
       d.fromAgent === message.fromAgentId &&
@@ -543,7 +546,7 @@ export class MessageRouter extends BaseAgent implements ICommunicationAgent {
       messageId: message.id,
       fromAgent: message.fromAgentId,
       toAgent: message.toAgentId,
-      droppedAt: new Date(),
+      droppedAt: clock.date(),
       reason,
       status: 'dropped'
     });
@@ -552,24 +555,24 @@ export class MessageRouter extends BaseAgent implements ICommunicationAgent {
   private async logEmergencyBroadcast(message: AgentMessage): Promise<void> {
     console.log(`🚨 Emergency broadcast logged: ${message.type}`);
     
-    this.storeMemory(`emergency_${Date.now()}`, {
+    this.storeMemory(`emergency_${clock.now()}`, {
       messageType: message.type,
-      broadcastAt: new Date(),
-      agentCount: this.agentRegistry.size,
+      broadcastAt: clock.date(),
+      agentCount: this.discoverAgents().length,
       priority: message.priority
     }, 'long');
   }
 
-  private async handleRouteRequest(message: AgentMessage): Promise<void> {
-    await this.routeMessage(message.data.targetMessage);
+  private async handleRouteRequest(message: AgentMessageOf<'route-request'>): Promise<void> {
+    await this.routeMessage(message.data.targetMessage as AgentMessage);
   }
 
-  private async handleAgentRegistration(message: AgentMessage): Promise<void> {
-    const { agentId, capabilities } = message.data;
-    await this.registerAgent(agentId, capabilities);
+  private async handleAgentRegistration(message: AgentMessageOf<'agent-registration'>): Promise<void> {
+    const { agentId, capabilities, weight } = message.data;
+    await this.registerAgent(agentId, capabilities, weight);
   }
 
-  private async handleWorkflowCoordination(message: AgentMessage): Promise<void> {
+  private async handleWorkflowCoordination(message: AgentMessageOf<'workflow-coordination'>): Promise<void> {
     const { workflowId } = message.data;
     await this.manageWorkflow(workflowId);
   }
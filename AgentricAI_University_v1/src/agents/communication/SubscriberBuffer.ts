@@ -0,0 +1,184 @@
+// Subscriber Buffer - Bounded per-subscriber event queue with backpressure policies
+// Each Event Bus subscription drains its own buffer, so a slow subscriber only holds up
+// itself. When the buffer is full the policy decides what gives:
+//   drop-oldest  discard the oldest pending event (the default; offsets let a subscriber catch up)
+//   drop-newest  discard the incoming event
+//   block        make the publisher wait for room (opt-in, for subscribers that must see everything)
+//   coalesce     replace a pending event with the same key, otherwise drop the oldest
+
+import { AgentEvent } from '../base/AgentTypes';
+
+export type BackpressurePolicy = 'drop-oldest' | 'drop-newest' | 'block' | 'coalesce';
+
+export interface SubscriberBufferOptions {
+  capacity?: number;
+  policy?: BackpressurePolicy;
+  // Event paths that make up the coalescing key; defaults to the event type
+  coalesceBy?: string[];
+}
+
+export interface SubscriberBufferStats {
+  subscriberId: string;
+  pattern: string;
+  policy: BackpressurePolicy;
+  capacity: number;
+  depth: number;
+  delivered: number;
+  failed: number;
+  dropped: number;
+  coalesced: number;
+  blockedPublishes: number;
+}
+
+export const BACKPRESSURE_POLICIES: BackpressurePolicy[] = ['drop-oldest', 'drop-newest', 'block', 'coalesce'];
+
+const DEFAULT_BUFFER_OPTIONS: Required<SubscriberBufferOptions> = {
+  capacity: 256,
+  policy: 'drop-oldest',
+  coalesceBy: ['type']
+};
+
+export class SubscriberBuffer {
+  private options: Required<SubscriberBufferOptions> = { ...DEFAULT_BUFFER_OPTIONS };
+  private pending: AgentEvent[] = [];
+  private spaceWaiters: (() => void)[] = [];
+  private idleWaiters: (() => void)[] = [];
+  private draining: boolean = false;
+  private closed: boolean = false;
+  private stats = { delivered: 0, failed: 0, dropped: 0, coalesced: 0, blockedPublishes: 0 };
+
+  constructor(
+    private subscriberId: string,
+    private pattern: string,
+    private deliver: (event: AgentEvent) => Promise<boolean>,
+    options: SubscriberBufferOptions = {}
+  ) {
+    this.configure(options);
+  }
+
+  configure(options: SubscriberBufferOptions): void {
+    const capacity = options.capacity ?? this.options.capacity;
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new Error(`Buffer capacity must be a positive integer, got ${capacity}`);
+    }
+    if (options.policy && !BACKPRESSURE_POLICIES.includes(options.policy)) {
+      throw new Error(`Unknown backpressure policy: ${options.policy}`);
+    }
+
+    this.options = {
+      capacity,
+      policy: options.policy ?? this.options.policy,
+      coalesceBy: options.coalesceBy ?? this.options.coalesceBy
+    };
+    this.releaseSpace();
+  }
+
+  // Resolves once the event is buffered (or discarded by the policy); only 'block' ever waits
+  async offer(event: AgentEvent): Promise<void> {
+    if (this.closed) return;
+
+    if (this.options.policy === 'coalesce') {
+      const key = this.coalesceKey(event);
+      const index = this.pending.findIndex(queued => this.coalesceKey(queued) === key);
+      if (index >= 0) {
+        this.pending[index] = event;
+        this.stats.coalesced += 1;
+        return;
+      }
+    }
+
+    if (this.pending.length >= this.options.capacity) {
+      switch (this.options.policy) {
+        case 'drop-newest':
+          this.stats.dropped += 1;
+          return;
+
+        case 'block':
+          this.stats.blockedPublishes += 1;
+          while (this.pending.length >= this.options.capacity && !this.closed) {
+            await new Promise<void>(resolve => this.spaceWaiters.push(resolve));
+          }
+          if (this.closed) return;
+          break;
+
+        case 'drop-oldest':
+        case 'coalesce':
+          this.pending.shift();
+          this.stats.dropped += 1;
+          break;
+      }
+    }
+
+    this.pending.push(event);
+    void this.drain();
+  }
+
+  // Resolves when everything buffered so far has been handed to the subscriber
+  idle(): Promise<void> {
+    if (!this.draining && this.pending.length === 0) return Promise.resolve();
+    return new Promise(resolve => this.idleWaiters.push(resolve));
+  }
+
+  close(): void {
+    this.closed = true;
+    this.stats.dropped += this.pending.length;
+    this.pending = [];
+    this.releaseSpace();
+    this.releaseIdle();
+  }
+
+  getStats(): SubscriberBufferStats {
+    return {
+      subscriberId: this.subscriberId,
+      pattern: this.pattern,
+      policy: this.options.policy,
+      capacity: this.options.capacity,
+      depth: this.pending.length,
+      ...this.stats
+    };
+  }
+
+  private async drain(): Promise<void> {
+    if (this.draining) return;
+    this.draining = true;
+
+    try {
+      while (this.pending.length > 0 && !this.closed) {
+        const event = this.pending.shift()!;
+        this.releaseSpace();
+
+        try {
+          if (await this.deliver(event)) {
+            this.stats.delivered += 1;
+          } else {
+            this.stats.failed += 1;
+          }
+        } catch (error) {
+          console.error(`Subscriber ${this.subscriberId} failed on ${event.type}:`, error);
+          this.stats.failed += 1;
+        }
+      }
+    } finally {
+      this.draining = false;
+      if (this.pending.length === 0) this.releaseIdle();
+    }
+  }
+
+  private coalesceKey(event: AgentEvent): string {
+    return JSON.stringify(this.options.coalesceBy.map(path =>
+      path.split('.').reduce((value: any, key) => value?.[key], event)
+    ));
+  }
+
+  private releaseSpace(): void {
+    const waiters = this.spaceWaiters;
+    this.spaceWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+
+  private releaseIdle(): void {
+    const waiters = this.idleWaiters;
+    this.idleWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+}
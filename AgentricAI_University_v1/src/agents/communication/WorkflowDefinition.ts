@@ -0,0 +1,279 @@
+// Workflow Definition - Declarative JSON/YAML workflow format, validation and templating
+
+import { parse as parseYaml } from 'yaml';
+import { WorkflowCompensation, WorkflowCondition, WorkflowFailurePolicy } from '../base/AgentTypes';
+
+export type WorkflowStepType = 'agent-task' | 'wait';
+
+export interface WorkflowStepDefinition {
+  id: string;
+  action: string;
+  type?: WorkflowStepType;
+  capability?: string;
+  // processTask type the agent runs; the action when not given
+  task?: string;
+  dependencies?: string[];
+  timeout?: number;
+  retries?: number;
+  retryDelayMs?: number;
+  when?: WorkflowCondition;
+  input?: Record<string, any>;
+  durationMs?: number;
+  onFailure?: WorkflowFailurePolicy;
+  compensation?: WorkflowCompensation;
+}
+
+export interface WorkflowDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  version?: string;
+  concurrency?: number;
+  parameters?: Record<string, { required?: boolean; default?: any; description?: string }>;
+  steps: WorkflowStepDefinition[];
+}
+
+export interface WorkflowValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+export class WorkflowDefinitionError extends Error {
+  constructor(message: string, public errors: string[] = []) {
+    super(errors.length > 0 ? `${message}: ${errors.join('; ')}` : message);
+    this.name = 'WorkflowDefinitionError';
+  }
+}
+
+const STEP_TYPES: WorkflowStepType[] = ['agent-task', 'wait'];
+const FAILURE_POLICIES: WorkflowFailurePolicy[] = ['retry', 'skip', 'compensate', 'abort'];
+const CONDITION_OPERATORS: WorkflowCondition['operator'][] = ['equals', 'notEquals', 'in', 'exists', 'gt', 'lt'];
+const TEMPLATE_PATTERN = /\{\{\s*([^}|]+?)\s*(?:\|\s*default:\s*([^}]*?)\s*)?\}\}/g;
+
+export function parseWorkflowDefinition(source: string, format: 'json' | 'yaml' = 'yaml'): WorkflowDefinition {
+  let definition: any;
+
+  try {
+    definition = format === 'json' ? JSON.parse(source) : parseYaml(source);
+  } catch (error) {
+    throw new WorkflowDefinitionError(`Could not parse workflow ${format}`, [(error as Error).message]);
+  }
+
+  const result = validateWorkflowDefinition(definition);
+  if (!result.valid) {
+    throw new WorkflowDefinitionError(`Invalid workflow definition '${definition?.id || 'unknown'}'`, result.errors);
+  }
+
+  return definition;
+}
+
+export function validateWorkflowDefinition(definition: any): WorkflowValidationResult {
+  const errors: string[] = [];
+
+  if (!definition || typeof definition !== 'object') {
+    return { valid: false, errors: ['Definition must be an object'] };
+  }
+
+  if (typeof definition.id !== 'string' || !definition.id) errors.push('id must be a non-empty string');
+  if (typeof definition.name !== 'string' || !definition.name) errors.push('name must be a non-empty string');
+
+  if (definition.concurrency !== undefined && !(Number.isInteger(definition.concurrency) && definition.concurrency > 0)) {
+    errors.push('concurrency must be a positive integer');
+  }
+
+  if (!Array.isArray(definition.steps) || definition.steps.length === 0) {
+    errors.push('steps must be a non-empty array');
+    return { valid: false, errors };
+  }
+
+  const stepIds = new Set<string>();
+  for (const [index, step] of definition.steps.entries()) {
+    const label = `steps[${index}]${step?.id ? ` (${step.id})` : ''}`;
+
+    if (typeof step?.id !== 'string' || !step.id) {
+      errors.push(`${label}: id must be a non-empty string`);
+      continue;
+    }
+    if (stepIds.has(step.id)) errors.push(`${label}: duplicate step id`);
+    stepIds.add(step.id);
+
+    if (typeof step.action !== 'string' || !step.action) errors.push(`${label}: action must be a non-empty string`);
+    if (step.type !== undefined && !STEP_TYPES.includes(step.type)) {
+      errors.push(`${label}: type must be one of ${STEP_TYPES.join(', ')}`);
+    }
+    if (step.type === 'wait' && !isPositiveNumber(step.durationMs)) {
+      errors.push(`${label}: wait steps need a positive durationMs`);
+    }
+    if (step.dependencies !== undefined && !isStringArray(step.dependencies)) {
+      errors.push(`${label}: dependencies must be an array of step ids`);
+    }
+    if (step.timeout !== undefined && !isPositiveNumber(step.timeout)) errors.push(`${label}: timeout must be a positive number`);
+    if (step.retries !== undefined && !(Number.isInteger(step.retries) && step.retries >= 0)) {
+      errors.push(`${label}: retries must be a non-negative integer`);
+    }
+    if (step.retryDelayMs !== undefined && !(typeof step.retryDelayMs === 'number' && step.retryDelayMs >= 0)) {
+      errors.push(`${label}: retryDelayMs must be a non-negative number`);
+    }
+    if (step.when !== undefined) errors.push(...validateCondition(step.when, label));
+    if (step.onFailure !== undefined && !FAILURE_POLICIES.includes(step.onFailure)) {
+      errors.push(`${label}: onFailure must be one of ${FAILURE_POLICIES.join(', ')}`);
+    }
+    if (step.task !== undefined && (typeof step.task !== 'string' || !step.task)) errors.push(`${label}: task must be a non-empty string`);
+    if (step.compensation !== undefined && (typeof step.compensation?.action !== 'string' || !step.compensation.action)) {
+      errors.push(`${label}: compensation.action must be a non-empty string`);
+    }
+    if (step.compensation?.task !== undefined && (typeof step.compensation.task !== 'string' || !step.compensation.task)) {
+      errors.push(`${label}: compensation.task must be a non-empty string`);
+    }
+    if (step.input !== undefined && (typeof step.input !== 'object' || Array.isArray(step.input))) {
+      errors.push(`${label}: input must be an object`);
+    }
+  }
+
+  // References only make sense once every id is known
+  for (const step of definition.steps) {
+    if (typeof step?.id !== 'string') continue;
+
+    for (const dependency of isStringArray(step.dependencies) ? step.dependencies : []) {
+      if (!stepIds.has(dependency)) errors.push(`${step.id}: unknown dependency '${dependency}'`);
+      if (dependency === step.id) errors.push(`${step.id}: step cannot depend on itself`);
+    }
+
+    for (const reference of collectStepReferences([step.input, step.when, step.compensation?.input])) {
+      if (!stepIds.has(reference)) errors.push(`${step.id}: template references unknown step '${reference}'`);
+    }
+  }
+
+  if (errors.length === 0) {
+    const cycle = findDependencyCycle(definition.steps);
+    if (cycle) errors.push(`dependency cycle detected: ${cycle.join(' -> ')}`);
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+export function findDependencyCycle(steps: { id: string; dependencies?: string[] }[]): string[] | null {
+  const dependencies = new Map(steps.map(step => [step.id, step.dependencies || []]));
+  const visited = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (stepId: string): string[] | null => {
+    const cycleStart = path.indexOf(stepId);
+    if (cycleStart !== -1) return [...path.slice(cycleStart), stepId];
+    if (visited.has(stepId)) return null;
+
+    path.push(stepId);
+    for (const dependency of dependencies.get(stepId) || []) {
+      const cycle = visit(dependency);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    visited.add(stepId);
+
+    return null;
+  };
+
+  for (const step of steps) {
+    const cycle = visit(step.id);
+    if (cycle) return cycle;
+  }
+
+  return null;
+}
+
+// Templating: "{{ parameters.userId }}", "{{ steps.assess_progress.output.score }}",
+// "{{ parameters.activityType | default: general }}". A value that is a single
+// template keeps its original type; anything else is string-interpolated.
+export function renderTemplate(value: any, context: Record<string, any>, preserveUnresolved: boolean = false): any {
+  if (typeof value === 'string') {
+    const whole = value.match(/^\{\{\s*([^}|]+?)\s*(?:\|\s*default:\s*([^}]*?)\s*)?\}\}$/);
+    if (whole) {
+      const resolved = resolvePath(context, whole[1]);
+      if (resolved !== undefined) return resolved;
+      if (whole[2] !== undefined) return whole[2];
+      return preserveUnresolved ? value : undefined;
+    }
+
+    return value.replace(TEMPLATE_PATTERN, (match, path: string, fallback?: string) => {
+      const resolved = resolvePath(context, path);
+      if (resolved !== undefined) return String(resolved);
+      if (fallback !== undefined) return fallback;
+      return preserveUnresolved ? match : '';
+    });
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => renderTemplate(item, context, preserveUnresolved));
+  }
+
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const rendered: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      rendered[key] = renderTemplate(item, context, preserveUnresolved);
+    }
+    return rendered;
+  }
+
+  return value;
+}
+
+export function evaluateCondition(condition: WorkflowCondition, context: Record<string, any>): boolean {
+  const actual = resolvePath(context, condition.path);
+  const expected = renderTemplate(condition.value, context);
+
+  switch (condition.operator) {
+    case 'equals':
+      return actual === expected;
+    case 'notEquals':
+      return actual !== expected;
+    case 'in':
+      return Array.isArray(expected) && expected.includes(actual);
+    case 'exists':
+      return actual !== undefined && actual !== null;
+    case 'gt':
+      return typeof actual === 'number' && actual > expected;
+    case 'lt':
+      return typeof actual === 'number' && actual < expected;
+    default:
+      return false;
+  }
+}
+
+function resolvePath(context: Record<string, any>, path: string): any {
+  return path.trim().split('.').reduce((current, key) => current?.[key], context as any);
+}
+
+function validateCondition(condition: any, label: string): string[] {
+  if (!condition || typeof condition !== 'object') return [`${label}: when must be an object`];
+
+  const errors: string[] = [];
+  if (typeof condition.path !== 'string' || !condition.path) errors.push(`${label}: when.path must be a non-empty string`);
+  if (!CONDITION_OPERATORS.includes(condition.operator)) {
+    errors.push(`${label}: when.operator must be one of ${CONDITION_OPERATORS.join(', ')}`);
+  }
+  return errors;
+}
+
+function collectStepReferences(values: any[]): string[] {
+  const references: string[] = [];
+  const text = JSON.stringify(values) || '';
+
+  for (const match of text.matchAll(/\{\{\s*steps\.([^.}\s|]+)/g)) {
+    references.push(match[1]);
+  }
+  for (const value of values) {
+    if (value?.path && typeof value.path === 'string' && value.path.startsWith('steps.')) {
+      references.push(value.path.split('.')[1]);
+    }
+  }
+
+  return references;
+}
+
+function isStringArray(value: any): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isPositiveNumber(value: any): boolean {
+  return typeof value === 'number' && value > 0;
+}
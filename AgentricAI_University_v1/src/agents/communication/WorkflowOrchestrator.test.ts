@@ -0,0 +1,203 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { WorkflowOrchestrator } from './WorkflowOrchestrator';
+import { WorkflowDefinition } from './WorkflowDefinition';
+import { MemoryWorkflowAdapter } from './WorkflowStateStore';
+import { createTestEcosystem, TestEcosystem } from '../../test/testEcosystem';
+
+const definition: WorkflowDefinition = {
+  id: 'reading_check_in',
+  name: 'Reading Check-In',
+  parameters: { userId: { required: true } },
+  steps: [
+    {
+      id: 'assess_reading',
+      action: 'Assess reading',
+      capability: 'reading-assessment',
+      task: 'assess_learning',
+      input: { studentId: '{{ parameters.userId }}' },
+      onFailure: 'compensate',
+      compensation: { action: 'Discard assessment draft', task: 'discard_draft' }
+    },
+    {
+      id: 'plan_practice',
+      action: 'Plan practice',
+      capability: 'practice-planning',
+      dependencies: ['assess_reading'],
+      input: { score: '{{ steps.assess_reading.output.score }}' },
+      onFailure: 'compensate'
+    }
+  ]
+};
+
+describe('WorkflowOrchestrator', () => {
+  let ecosystem: TestEcosystem;
+  let orchestrator: WorkflowOrchestrator;
+  let stateStore: MemoryWorkflowAdapter;
+
+  // A fresh page: new agents reading the checkpoints the last one left behind
+  const boot = async () => {
+    ecosystem = await createTestEcosystem({
+      agents: [() => new WorkflowOrchestrator()],
+      fakes: [
+        { id: 'assessor', capabilities: ['reading-assessment'] },
+        { id: 'planner', capabilities: ['practice-planning'] }
+      ]
+    });
+    orchestrator = ecosystem.get<WorkflowOrchestrator>('workflow-orchestrator-001');
+    orchestrator.setStorageAdapter(stateStore);
+    orchestrator.registerWorkflowDefinition(definition);
+  };
+
+  beforeEach(async () => {
+    stateStore = new MemoryWorkflowAdapter();
+    await boot();
+  });
+
+  afterEach(async () => {
+    await ecosystem.stop();
+  });
+
+  it('runs each step on its agent and passes the reply on as the step output', async () => {
+    ecosystem.fake('assessor').on('workflow-task', () => ({ type: 'workflow-task-result', data: { success: true, output: { score: 42 } } }));
+    ecosystem.fake('planner').on('workflow-task', message => ({
+      type: 'workflow-task-result',
+      data: { success: true, output: { sessions: message.data.inputData.score < 60 ? 3 : 1 } }
+    }));
+
+    const workflowId = await orchestrator.createWorkflow('reading_check_in', { userId: 'learner-1' });
+    const execution = await ecosystem.settle(orchestrator.executeWorkflow(workflowId));
+
+    expect(execution.status).toBe('completed');
+    expect(ecosystem.expectMessage('workflow-orchestrator-001', 'assessor', 'workflow-task').data).toMatchObject({
+      task: 'assess_learning',
+      inputData: { studentId: 'learner-1' }
+    });
+    expect(orchestrator.getWorkflowRun(workflowId)!.steps.map(step => [step.agentId, step.output])).toEqual([
+      ['assessor', { score: 42 }],
+      ['planner', { sessions: 3 }]
+    ]);
+  });
+
+  it('fails a step with the error its agent reports and compensates on the real agent', async () => {
+    ecosystem.fake('assessor').on('workflow-task', () => ({ type: 'workflow-task-result', data: { success: true, output: { score: 90 } } }));
+    ecosystem.fake('assessor').on('workflow-compensate', () => ({
+      type: 'workflow-task-result',
+      data: { success: false, error: 'draft already shared with the teacher' }
+    }));
+    ecosystem.fake('planner').on('workflow-task', () => ({ type: 'workflow-task-result', data: { success: false, error: 'no practice sets for level' } }));
+
+    const workflowId = await orchestrator.createWorkflow('reading_check_in', { userId: 'learner-1' });
+    const execution = await ecosystem.settle(orchestrator.executeWorkflow(workflowId));
+
+    expect(execution.status).toBe('compensated');
+    expect(execution.errors).toContain('no practice sets for level');
+    // The run keeps what actually went back and forth with the failing agent
+    const planStep = orchestrator.getWorkflowRun(workflowId)!.steps[1];
+    expect(planStep.request).toMatchObject({ stepId: 'plan_practice', inputData: { score: 90 } });
+    expect(planStep.response).toEqual({ success: false, error: 'no practice sets for level' });
+    expect(planStep.respondedBy).toBe('planner');
+    expect(execution.compensations).toEqual([
+      { stepId: 'assess_reading', action: 'Discard assessment draft', status: 'failed', error: 'draft already shared with the teacher' }
+    ]);
+  });
+
+  it('fails the workflow when a step without a failure policy fails', async () => {
+    const unguarded = (onFailure?: 'skip'): WorkflowDefinition => ({
+      id: `reading_check_in_${onFailure || 'default'}`,
+      name: 'Reading Check-In',
+      steps: [
+        { id: 'assess_reading', action: 'Assess reading', capability: 'reading-assessment' },
+        { id: 'plan_practice', action: 'Plan practice', capability: 'practice-planning', dependencies: ['assess_reading'], onFailure }
+      ]
+    });
+    orchestrator.registerWorkflowDefinition(unguarded());
+    orchestrator.registerWorkflowDefinition(unguarded('skip'));
+    ecosystem.fake('assessor').on('workflow-task', () => ({ type: 'workflow-task-result', data: { success: true, output: { score: 90 } } }));
+    ecosystem.fake('planner').on('workflow-task', () => ({ type: 'workflow-task-result', data: { success: false, error: 'no practice sets for level' } }));
+
+    const failedId = await orchestrator.createWorkflow('reading_check_in_default', {});
+    const failed = await ecosystem.settle(orchestrator.executeWorkflow(failedId));
+    expect(failed.status).toBe('failed');
+    expect(orchestrator.getWorkflowRun(failedId)!.status).toBe('failed');
+
+    // Declaring the step skippable is what lets the workflow finish without it
+    const skippedId = await orchestrator.createWorkflow('reading_check_in_skip', {});
+    const skipped = await ecosystem.settle(orchestrator.executeWorkflow(skippedId));
+    expect(skipped.status).toBe('completed');
+    expect(orchestrator.getWorkflowRun(skippedId)!.steps[1].status).toBe('skipped');
+  });
+
+  it('times out a step whose agent never replies', async () => {
+    // No handler: the planner records the task and stays silent
+    ecosystem.fake('assessor').on('workflow-task', () => ({ type: 'workflow-task-result', data: { success: true, output: { score: 90 } } }));
+    ecosystem.fake('planner').on('workflow-task', () => undefined);
+
+    const workflowId = await orchestrator.createWorkflow('reading_check_in', { userId: 'learner-1' });
+    const execution = await ecosystem.settle(orchestrator.executeWorkflow(workflowId));
+
+    expect(execution.status).toBe('compensated');
+    expect(execution.errors[0]).toMatch(/Response timeout after 30000ms/);
+  });
+
+  it('resumes a workflow cut off mid-run after a reload, keeping the finished steps', async () => {
+    ecosystem.fake('assessor').on('workflow-task', () => ({ type: 'workflow-task-result', data: { success: true, output: { score: 42 } } }));
+    // The page goes away while the planner is still working
+    ecosystem.fake('planner').on('workflow-task', () => undefined);
+
+    const workflowId = await orchestrator.createWorkflow('reading_check_in', { userId: 'learner-1' });
+    void orchestrator.executeWorkflow(workflowId);
+    await ecosystem.advance(1000);
+    expect(ecosystem.fake('planner').receivedOfType('workflow-task')).toHaveLength(1);
+
+    // Only what was stored when the page went away survives; stopping fails the run still in flight
+    const saved = new MemoryWorkflowAdapter();
+    for (const checkpoint of await stateStore.list()) await saved.save(checkpoint);
+    await ecosystem.stop();
+    stateStore = saved;
+    await boot();
+    ecosystem.fake('planner').on('workflow-task', () => ({ type: 'workflow-task-result', data: { success: true, output: { sessions: 3 } } }));
+
+    expect(await orchestrator.restoreWorkflows()).toEqual([workflowId]);
+    expect(orchestrator.getWorkflowStatus(workflowId).status).toBe('paused');
+
+    await ecosystem.settle(orchestrator.resumeWorkflow(workflowId));
+
+    expect(ecosystem.fake('assessor').receivedOfType('workflow-task')).toHaveLength(0);
+    expect(orchestrator.getWorkflowRun(workflowId)!.status).toBe('completed');
+    expect(orchestrator.getWorkflowRun(workflowId)!.steps.map(step => step.output)).toEqual([{ score: 42 }, { sessions: 3 }]);
+  });
+
+  it('does not bring back a workflow cancelled while a step is in flight', async () => {
+    ecosystem.fake('assessor').on('workflow-task', () => ({ type: 'workflow-task-result', data: { success: true, output: { score: 42 } } }));
+
+    const workflowId = await orchestrator.createWorkflow('reading_check_in', { userId: 'learner-1' });
+    const run = orchestrator.executeWorkflow(workflowId);
+    await orchestrator.cancelWorkflow(workflowId);
+    await ecosystem.settle(run);
+
+    expect(await stateStore.load(workflowId)).toBeNull();
+    await ecosystem.stop();
+    await boot();
+    expect(await orchestrator.restoreWorkflows()).toEqual([]);
+  });
+
+  it('keeps finished checkpoints only within the retention limits', async () => {
+    orchestrator.setCheckpointRetention({ maxFinished: 1, maxAgeMs: 24 * 60 * 60 * 1000 });
+    ecosystem.fake('assessor').on('workflow-task', () => ({ type: 'workflow-task-result', data: { success: true, output: { score: 90 } } }));
+    ecosystem.fake('planner').on('workflow-task', () => ({ type: 'workflow-task-result', data: { success: true, output: { sessions: 1 } } }));
+
+    const firstId = await orchestrator.createWorkflow('reading_check_in', { userId: 'learner-1' });
+    await ecosystem.settle(orchestrator.executeWorkflow(firstId));
+    await ecosystem.advance(1000);
+    const secondId = await orchestrator.createWorkflow('reading_check_in', { userId: 'learner-2' });
+    await ecosystem.settle(orchestrator.executeWorkflow(secondId));
+    // Not started yet, so kept however old it gets
+    const pendingId = await orchestrator.createWorkflow('reading_check_in', { userId: 'learner-3' });
+
+    expect((await stateStore.list()).map(checkpoint => checkpoint.workflowId)).toEqual([secondId, pendingId]);
+
+    await ecosystem.advance(2 * 24 * 60 * 60 * 1000);
+    await orchestrator.restoreWorkflows();
+    expect((await stateStore.list()).map(checkpoint => checkpoint.workflowId)).toEqual([pendingId]);
+  });
+});
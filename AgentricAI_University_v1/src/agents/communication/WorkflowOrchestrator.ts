@@ -1,13 +1,114 @@
 // Workflow Orchestrator Agent - Workflow coordination for AgentricAI University
 
 import { BaseAgent } from '../base/BaseAgent';
-import { AgentConfig, AgentMessage, AgentWorkflow, WorkflowStep } from '../base/AgentTypes';
+import { AgentConfig, AgentMessage, AgentMessageOf, TypedAgentMessage, AgentWorkflow, WorkflowStep, WorkflowFailurePolicy } from '../base/AgentTypes';
+import {
+  WorkflowDefinition,
+  WorkflowDefinitionError,
+  WorkflowValidationResult,
+  parseWorkflowDefinition,
+  validateWorkflowDefinition,
+  renderTemplate,
+  evaluateCondition
+} from './WorkflowDefinition';
+import {
+  CheckpointRetention,
+  DEFAULT_CHECKPOINT_RETENTION,
+  WorkflowCheckpoint,
+  WorkflowStorageAdapter,
+  createDefaultWorkflowStorage
+} from './WorkflowStateStore';
+import { clock, random, scheduler } from '../base/AgentEnvironment';
+
+export interface WorkflowRunStep {
+  id: string;
+  action: string;
+  type: 'agent-task' | 'wait';
+  capability?: string;
+  dependencies: string[];
+  status: WorkflowStep['status'];
+  agentId: string;
+  input: any;
+  output: any;
+  // The workflow-task sent for the last attempt, the result that came back and who sent it
+  request: any;
+  response: any;
+  respondedBy: string | null;
+  error: string | null;
+  attempts: number;
+  startTime?: Date;
+  endTime?: Date;
+  duration?: number;
+}
+
+export interface WorkflowRun {
+  workflowId: string;
+  templateId?: string;
+  name: string;
+  description: string;
+  status: AgentWorkflow['status'];
+  priority: AgentWorkflow['priority'];
+  parameters?: any;
+  createdAt: Date;
+  startTime?: Date;
+  endTime?: Date;
+  duration?: number;
+  concurrency: number;
+  errors: string[];
+  steps: WorkflowRunStep[];
+}
+
+// What went to the agent for a step and what came back
+export interface WorkflowTaskExchange {
+  request?: any;
+  response?: any;
+  respondedBy?: string;
+}
+
+// One attempt sequence at a step, as recorded while the workflow runs and checkpointed with it
+export interface WorkflowStepExecution extends WorkflowTaskExchange {
+  stepId: string;
+  status: string;
+  startTime: Date;
+  endTime?: Date;
+  duration?: number;
+  agentId?: string;
+  attempts?: number;
+  input?: any;
+  result?: any;
+  error?: string | null;
+}
+
+export interface WorkflowExecution {
+  workflowId: string;
+  status: string;
+  startTime: Date;
+  // Start of the first run, when this one resumed a paused workflow
+  resumedFrom?: Date;
+  endTime?: Date;
+  duration?: number;
+  concurrency: number;
+  steps: WorkflowStepExecution[];
+  errors: string[];
+  compensations: any[];
+}
+
+// Bundled definitions; see ./workflows/README.md for the file format
+const BUNDLED_WORKFLOW_FILES: Record<string, string> = import.meta.glob('./workflows/*.{json,yaml,yml}', {
+  query: '?raw',
+  import: 'default',
+  eager: true
+});
 
 export class WorkflowOrchestrator extends BaseAgent {
   private activeWorkflows: Map<string, AgentWorkflow> = new Map();
-  private workflowTemplates: Map<string, any> = new Map();
-  private executionHistory: Map<string, any> = new Map();
-  private dependencyGraph: Map<string, Set<string>> = new Map();
+  private workflowTemplates: Map<string, WorkflowDefinition> = new Map();
+  private executionHistory: Map<string, WorkflowExecution> = new Map();
+  private dependencyGraph: Map<string, Map<string, Set<string>>> = new Map();
+  private defaultConcurrency: number = 4;
+  private workflowTemplateIds: Map<string, string> = new Map();
+  private stateStore: WorkflowStorageAdapter = createDefaultWorkflowStorage();
+  private checkpointRetention: CheckpointRetention = { ...DEFAULT_CHECKPOINT_RETENTION };
 
   constructor() {
     const config: AgentConfig = {
@@ -42,7 +143,7 @@ export class WorkflowOrchestrator extends BaseAgent {
         return await this.createWorkflow(data.template, data.parameters);
       
       case 'execute_workflow':
-        return await this.executeWorkflow(data.workflowId);
+        return await this.executeWorkflow(data.workflowId, data.concurrency);
       
       case 'pause_workflow':
         return await this.pauseWorkflow(data.workflowId);
@@ -56,6 +157,24 @@ export class WorkflowOrchestrator extends BaseAgent {
       case 'get_workflow_status':
         return this.getWorkflowStatus(data.workflowId);
       
+      case 'register_workflow_definition':
+        return this.registerWorkflowDefinition(data.definition, data.format);
+      
+      case 'validate_workflow_definition':
+        return this.validateDefinition(data.definition, data.format);
+      
+      case 'list_workflow_templates':
+        return this.listWorkflowTemplates();
+      
+      case 'restore_workflows':
+        return await this.restoreWorkflows();
+      
+      case 'list_resumable_workflows':
+        return this.listResumableWorkflows();
+      
+      case 'get_workflow_runs':
+        return data?.workflowId ? this.getWorkflowRun(data.workflowId) : this.getWorkflowRuns();
+      
       default:
         throw new Error(`Unknown task type: ${type}`);
     }
@@ -69,16 +188,19 @@ export class WorkflowOrchestrator extends BaseAgent {
       throw new Error(`Workflow template not found: ${templateName}`);
     }
 
-    const workflowId = `workflow-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const workflowId = `workflow-${clock.now()}-${random.next().toString(36).substr(2, 9)}`;
+    const resolvedParameters = this.resolveParameters(template, parameters || {});
     
     const workflow: AgentWorkflow = {
       id: workflowId,
       name: template.name,
-      description: template.description,
-      steps: this.instantiateWorkflowSteps(template.steps, parameters),
+      description: template.description || '',
+      steps: this.instantiateWorkflowSteps(template, resolvedParameters),
       status: 'created',
-      priority: parameters.priority || 'medium',
-      createdAt: new Date()
+      priority: resolvedParameters.priority || 'medium',
+      parameters: resolvedParameters,
+      concurrency: template.concurrency,
+      createdAt: clock.date()
     };
 
     // Build dependency graph
@@ -86,11 +208,13 @@ export class WorkflowOrchestrator extends BaseAgent {
     
     // Store workflow
     this.activeWorkflows.set(workflowId, workflow);
+    this.workflowTemplateIds.set(workflowId, templateName);
     this.storeMemory(`workflow_${workflowId}`, workflow, 'short');
+    await this.checkpointWorkflow(workflow);
 
     // Emit workflow created event
     await this.emitSystemEvent({
-      id: `workflow-created-${Date.now()}`,
+      id: `workflow-created-${clock.now()}`,
       type: 'system-event',
       source: this.id,
       data: { 
@@ -100,14 +224,14 @@ export class WorkflowOrchestrator extends BaseAgent {
         stepCount: workflow.steps.length
       },
       priority: 'normal',
-      timestamp: new Date()
+      timestamp: clock.date()
     });
 
     this.metrics.tasksCompleted += 1;
     return workflowId;
   }
 
-  async executeWorkflow(workflowId: string): Promise<any> {
+  async executeWorkflow(workflowId: string, concurrency?: number): Promise<any> {
     console.log(`▶️ Executing workflow: ${workflowId}`);
     
     const workflow = this.activeWorkflows.get(workflowId);
@@ -121,42 +245,112 @@ export class WorkflowOrchestrator extends BaseAgent {
 
     workflow.status = 'running';
     
-    const execution = {
+    // A resumed workflow keeps the step history of its earlier runs
+    const previousExecution = this.executionHistory.get(workflowId);
+    const execution: WorkflowExecution = {
       workflowId,
-      startTime: new Date(),
-      steps: [],
-      errors: [],
+      startTime: clock.date(),
+      resumedFrom: previousExecution?.startTime,
+      steps: [...(previousExecution?.steps || [])],
+      errors: [...(previousExecution?.errors || [])],
+      compensations: [],
+      concurrency: Math.max(1, concurrency || workflow.concurrency || this.defaultConcurrency),
       status: 'running'
     };
 
+    // Visible to run history while the steps are still in flight
+    this.executionHistory.set(workflowId, execution);
+
     try {
-      // Execute steps based on dependencies
+      // Topological order keeps scheduling deterministic and rejects cycles
       const executionOrder = this.calculateExecutionOrder(workflow);
-      
-      for (const stepId of executionOrder) {
-        const step = workflow.steps.find(s => s.id === stepId);
-        if (!step) continue;
-
-        const stepResult = await this.executeWorkflowStep(step, workflow);
-        execution.steps.push(stepResult);
-        
-        if (stepResult.status === 'failed') {
-          execution.errors.push(stepResult.error);
-          
-          // Handle step failure
-          const recoveryAction = await this.handleStepFailure(step, stepResult, workflow);
-          if (recoveryAction === 'abort') {
-            workflow.status = 'failed';
-            execution.status = 'failed';
-            break;
+      const running: Map<string, Promise<void>> = new Map();
+      const completionOrder: string[] = workflow.steps
+        .filter(s => s.status === 'completed')
+        .map(s => s.id);
+      let haltReason: 'abort' | 'compensate' | null = null;
+
+      const runStep = async (step: WorkflowStep): Promise<void> => {
+        let stepResult = await this.executeWorkflowStep(step, workflow, execution);
+
+        if (stepResult.status === 'completed') {
+          completionOrder.push(step.id);
+          return;
+        }
+
+        execution.errors.push(stepResult.error || `Step ${step.id} failed`);
+        let recoveryAction = await this.handleStepFailure(step, stepResult, workflow);
+
+        if (recoveryAction === 'retry') {
+          stepResult = await this.executeWorkflowStep(step, workflow, execution);
+
+          if (stepResult.status === 'completed') {
+            completionOrder.push(step.id);
+            return;
           }
+          execution.errors.push(stepResult.error || `Step ${step.id} failed`);
+          recoveryAction = 'abort';
+        }
+
+        if (recoveryAction === 'skip') {
+          // Dependents carry on as if the step had been skipped by a condition
+          step.status = 'skipped';
+        } else if (!haltReason || recoveryAction === 'compensate') {
+          haltReason = recoveryAction;
         }
+      };
+
+      while (true) {
+        // Launch every ready step while there is capacity
+        if (!haltReason && workflow.status === 'running') {
+          for (const stepId of executionOrder) {
+            if (running.size >= execution.concurrency) break;
+
+            const step = workflow.steps.find(s => s.id === stepId);
+            if (!step || step.status !== 'pending' || running.has(step.id)) continue;
+            if (!this.dependenciesSatisfied(step, workflow)) continue;
+
+            // Conditional branches: a step whose condition is false is skipped,
+            // and counts as satisfied for anything depending on it
+            if (step.condition && !evaluateCondition(step.condition, this.buildTemplateContext(workflow))) {
+              step.status = 'skipped';
+              execution.steps.push({ stepId: step.id, status: 'skipped', startTime: clock.date(), endTime: clock.date(), duration: 0 });
+              continue;
+            }
+
+            step.status = 'in-progress';
+            const task = runStep(step)
+              .then(() => this.checkpointWorkflow(workflow, execution))
+              .finally(() => running.delete(step.id));
+            running.set(step.id, task);
+          }
+        }
+
+        if (running.size === 0) {
+          // A skipped step may have unblocked others in the same pass
+          const hasReadyStep = !haltReason && workflow.status === 'running' &&
+            workflow.steps.some(s => s.status === 'pending' && this.dependenciesSatisfied(s, workflow));
+          if (!hasReadyStep) break;
+          continue;
+        }
+
+        await Promise.race(running.values());
+      }
+
+      if (haltReason === 'compensate') {
+        execution.compensations = await this.compensateWorkflow(workflow, completionOrder);
       }
 
-      if (workflow.status === 'running') {
+      if (haltReason) {
+        workflow.status = 'failed';
+        execution.status = haltReason === 'compensate' ? 'compensated' : 'failed';
+      } else if (workflow.status === 'running') {
         workflow.status = 'completed';
-        workflow.completedAt = new Date();
+        workflow.completedAt = clock.date();
         execution.status = 'completed';
+      } else {
+        // Paused or cancelled while steps were in flight
+        execution.status = workflow.status;
       }
 
     } catch (error) {
@@ -166,12 +360,16 @@ export class WorkflowOrchestrator extends BaseAgent {
       execution.errors.push(error.message);
     }
 
-    execution.endTime = new Date();
+    execution.endTime = clock.date();
     execution.duration = execution.endTime.getTime() - execution.startTime.getTime();
 
     // Store execution history
     this.executionHistory.set(workflowId, execution);
     this.storeMemory(`execution_${workflowId}`, execution, 'long');
+    await this.checkpointWorkflow(workflow, execution, true);
+    await this.pruneCheckpoints().catch(error => {
+      console.warn(`Could not prune workflow checkpoints in ${this.stateStore.name}:`, error);
+    });
 
     this.metrics.tasksCompleted += 1;
     return execution;
@@ -198,12 +396,18 @@ export class WorkflowOrchestrator extends BaseAgent {
       }
     }
 
+    await this.checkpointWorkflow(workflow, this.executionHistory.get(workflowId));
+
     this.metrics.tasksCompleted += 1;
   }
 
   async resumeWorkflow(workflowId: string): Promise<void> {
     console.log(`▶️ Resuming workflow: ${workflowId}`);
     
+    if (!this.activeWorkflows.has(workflowId)) {
+      await this.restoreWorkflow(workflowId);
+    }
+
     const workflow = this.activeWorkflows.get(workflowId);
     if (!workflow) {
       throw new Error(`Workflow not found: ${workflowId}`);
@@ -236,10 +440,151 @@ export class WorkflowOrchestrator extends BaseAgent {
 
     // Cleanup resources
     await this.cleanupWorkflowResources(workflowId);
+    await this.stateStore.remove(workflowId).catch(error => {
+      console.warn(`Could not remove checkpoint for workflow ${workflowId}:`, error);
+    });
 
     this.metrics.tasksCompleted += 1;
   }
 
+  registerWorkflowDefinition(definition: WorkflowDefinition | string, format: 'json' | 'yaml' = 'yaml'): string {
+    const parsed = typeof definition === 'string'
+      ? parseWorkflowDefinition(definition, format)
+      : definition;
+
+    // Cycles and dangling references are rejected here, before any dependency graph is built
+    const validation = validateWorkflowDefinition(parsed);
+    if (!validation.valid) {
+      throw new WorkflowDefinitionError(`Invalid workflow definition '${parsed.id}'`, validation.errors);
+    }
+
+    if (this.workflowTemplates.has(parsed.id)) {
+      console.log(`🔁 Replacing workflow template: ${parsed.id}`);
+    }
+    this.workflowTemplates.set(parsed.id, parsed);
+
+    return parsed.id;
+  }
+
+  validateDefinition(definition: WorkflowDefinition | string, format: 'json' | 'yaml' = 'yaml'): WorkflowValidationResult {
+    try {
+      const parsed = typeof definition === 'string' ? parseWorkflowDefinition(definition, format) : definition;
+      return validateWorkflowDefinition(parsed);
+    } catch (error) {
+      return {
+        valid: false,
+        errors: error instanceof WorkflowDefinitionError ? error.errors : [(error as Error).message]
+      };
+    }
+  }
+
+  listWorkflowTemplates(): { id: string; name: string; description?: string; version?: string; stepCount: number }[] {
+    return Array.from(this.workflowTemplates.values()).map(template => ({
+      id: template.id,
+      name: template.name,
+      description: template.description,
+      version: template.version,
+      stepCount: template.steps.length
+    }));
+  }
+
+  setStorageAdapter(adapter: WorkflowStorageAdapter): void {
+    console.log(`💾 Workflow state now stored in ${adapter.name}`);
+    this.stateStore = adapter;
+  }
+
+  setCheckpointRetention(retention: Partial<CheckpointRetention>): void {
+    this.checkpointRetention = { ...this.checkpointRetention, ...retention };
+  }
+
+  // Reload checkpointed workflows; ones cut off mid-run come back paused
+  async restoreWorkflows(): Promise<string[]> {
+    const restored: string[] = [];
+
+    try {
+      for (const checkpoint of await this.pruneCheckpoints()) {
+        if (this.activeWorkflows.has(checkpoint.workflowId)) continue;
+        this.restoreCheckpoint(checkpoint);
+        restored.push(checkpoint.workflowId);
+      }
+    } catch (error) {
+      console.warn(`Could not restore workflows from ${this.stateStore.name}:`, error);
+    }
+
+    if (restored.length > 0) {
+      console.log(`💾 Restored ${restored.length} workflows from ${this.stateStore.name}`);
+    }
+    return restored;
+  }
+
+  listResumableWorkflows(): any[] {
+    return Array.from(this.activeWorkflows.values())
+      .filter(workflow => workflow.status === 'paused')
+      .map(workflow => this.getWorkflowStatus(workflow.id));
+  }
+
+  // Run history for the workflow explorer, newest first
+  getWorkflowRuns(): WorkflowRun[] {
+    return Array.from(this.activeWorkflows.keys())
+      .map(workflowId => this.getWorkflowRun(workflowId)!)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  getWorkflowRun(workflowId: string): WorkflowRun | null {
+    const workflow = this.activeWorkflows.get(workflowId);
+    if (!workflow) return null;
+
+    const execution = this.executionHistory.get(workflowId);
+    const records: any[] = execution?.steps || [];
+
+    const steps = workflow.steps.map(step => {
+      const stepRecords = records.filter(record => record.stepId === step.id);
+      const first = stepRecords[0];
+      const last = stepRecords[stepRecords.length - 1];
+      const endTime = last?.endTime;
+
+      return {
+        id: step.id,
+        action: step.action,
+        type: step.type || 'agent-task',
+        capability: step.capability,
+        dependencies: step.dependencies,
+        status: step.status,
+        agentId: last?.agentId || step.agentId,
+        input: last?.input !== undefined ? last.input : step.inputData,
+        output: step.outputData ?? last?.result ?? null,
+        request: last?.request ?? null,
+        response: last?.response ?? null,
+        respondedBy: last?.respondedBy || null,
+        error: last?.error || null,
+        attempts: stepRecords.reduce((sum, record) => sum + (record.attempts || 0), 0),
+        startTime: first?.startTime,
+        endTime,
+        duration: first?.startTime && endTime ? endTime.getTime() - first.startTime.getTime() : undefined
+      };
+    });
+
+    const startTime: Date | undefined = execution?.resumedFrom || execution?.startTime;
+    const endTime: Date | undefined = execution?.endTime;
+
+    return {
+      workflowId,
+      templateId: this.workflowTemplateIds.get(workflowId),
+      name: workflow.name,
+      description: workflow.description,
+      status: workflow.status,
+      priority: workflow.priority,
+      parameters: workflow.parameters,
+      createdAt: workflow.createdAt,
+      startTime,
+      endTime,
+      duration: startTime && endTime ? endTime.getTime() - startTime.getTime() : undefined,
+      concurrency: execution?.concurrency || workflow.concurrency || this.defaultConcurrency,
+      errors: execution?.errors || [],
+      steps
+    };
+  }
+
   getWorkflowStatus(workflowId: string): any {
     const workflow = this.activeWorkflows.get(workflowId);
     if (!workflow) {
@@ -265,7 +610,11 @@ export class WorkflowOrchestrator extends BaseAgent {
     };
   }
 
-  protected async processMessage(message: AgentMessage): Promise<void> {
+  protected async onStart(): Promise<void> {
+    await this.restoreWorkflows();
+  }
+
+  protected async processMessage(message: TypedAgentMessage): Promise<void> {
     switch (message.type) {
       case 'workflow-create-request':
         await this.handleWorkflowCreateRequest(message);
@@ -297,197 +646,149 @@ export class WorkflowOrchestrator extends BaseAgent {
       "I make sure all the learning helpers work together like a well-oiled machine! ⚙️🌟"
     ];
     
-    return responses[Math.floor(Math.random() * responses.length)];
+    return responses[Math.floor(random.next() * responses.length)];
   }
 
   // Private helper methods
   private initializeWorkflowTemplates(): void {
-    // Learning Assessment Workflow
-    this.workflowTemplates.set('learning_assessment', {
-      name: 'Comprehensive Learning Assessment',
-      description: 'Analyzes user learning progress and generates recommendations',
-      steps: [
-        {
-          id: 'analyze_behavior',
-          action: 'Analyze user behavior patterns',
-          agentCapability: 'behavior-analysis',
-          dependencies: [],
-          timeout: 30000
-        },
-        {
-          id: 'assess_progress',
-          action: 'Assess learning progress',
-          agentCapability: 'learning-assessment',
-          dependencies: ['analyze_behavior'],
-          timeout: 20000
-        },
-        {
-          id: 'generate_insights',
-          action: 'Generate learning insights',
-          agentCapability: 'data-analysis',
-          dependencies: ['assess_progress'],
-          timeout: 15000
-        },
-        {
-          id: 'create_recommendations',
-          action: 'Create personalized recommendations',
-          agentCapability: 'learning-assessment',
-          dependencies: ['generate_insights'],
-          timeout: 10000
-        }
-      ]
-    });
+    for (const [path, source] of Object.entries(BUNDLED_WORKFLOW_FILES)) {
+      try {
+        this.registerWorkflowDefinition(source, path.endsWith('.json') ? 'json' : 'yaml');
+      } catch (error) {
+        console.error(`Skipping workflow definition ${path}:`, error);
+      }
+    }
+  }
 
-    // Content Adaptation Workflow
-    this.workflowTemplates.set('content_adaptation', {
-      name: 'Adaptive Content Generation',
-      description: 'Creates and optimizes content based on user preferences',
-      steps: [
-        {
-          id: 'analyze_preferences',
-          action: 'Analyze user preferences',
-          agentCapability: 'behavior-analysis',
-          dependencies: [],
-          timeout: 20000
-        },
-        {
-          id: 'generate_content',
-          action: 'Generate base content',
-          agentCapability: 'content-generation',
-          dependencies: ['analyze_preferences'],
-          timeout: 30000
-        },
-        {
-          id: 'adapt_difficulty',
-          action: 'Adapt content difficulty',
-          agentCapability: 'difficulty-adaptation',
-          dependencies: ['generate_content'],
-          timeout: 15000
-        },
-        {
-          id: 'optimize_sensory',
-          action: 'Optimize for sensory preferences',
-          agentCapability: 'sensory-optimization',
-          dependencies: ['adapt_difficulty'],
-          timeout: 20000
-        }
-      ]
-    });
+  // A cancelled workflow has left activeWorkflows and its checkpoint is gone; a finished one is
+  // saved once, by the run that finished it. Saving either later would bring it back on restore.
+  private async checkpointWorkflow(workflow: AgentWorkflow, execution?: any, closing: boolean = false): Promise<void> {
+    if (this.activeWorkflows.get(workflow.id) !== workflow) return;
+    if (!closing && (workflow.status === 'completed' || workflow.status === 'failed')) return;
 
-    // Error Resolution Workflow
-    this.workflowTemplates.set('error_resolution', {
-      name: 'Intelligent Error Resolution',
-      description: 'Analyzes and resolves errors with child-friendly communication',
-      steps: [
-        {
-          id: 'analyze_error',
-          action: 'Analyze error context and impact',
-          agentCapability: 'error-handling',
-          dependencies: [],
-          timeout: 10000
-        },
-        {
-          id: 'generate_fix',
-          action: 'Generate safe fix solution',
-          agentCapability: 'error-handling',
-          dependencies: ['analyze_error'],
-          timeout: 15000
-        },
-        {
-          id: 'validate_safety',
-          action: 'Validate fix safety',
-          agentCapability: 'error-handling',
-          dependencies: ['generate_fix'],
-          timeout: 5000
-        },
-        {
-          id: 'implement_fix',
-          action: 'Implement validated fix',
-          agentCapability: 'error-handling',
-          dependencies: ['validate_safety'],
-          timeout: 20000
-        }
-      ]
-    });
+    try {
+      await this.stateStore.save({
+        workflowId: workflow.id,
+        templateId: this.workflowTemplateIds.get(workflow.id),
+        workflow,
+        execution,
+        savedAt: clock.date()
+      });
+    } catch (error) {
+      // Losing a checkpoint should not stop the workflow itself
+      console.warn(`Could not checkpoint workflow ${workflow.id}:`, error);
+    }
+  }
 
-    // Agent Creation Workflow
-    this.workflowTemplates.set('agent_creation', {
-      name: 'Dynamic Agent Creation',
-      description: 'Creates specialized agents based on requirements',
-      steps: [
-        {
-          id: 'analyze_requirements',
-          action: 'Analyze agent requirements',
-          agentCapability: 'data-analysis',
-          dependencies: [],
-          timeout: 15000
-        },
-        {
-          id: 'design_agent',
-          action: 'Design agent architecture',
-          agentCapability: 'agent-design',
-          dependencies: ['analyze_requirements'],
-          timeout: 30000
-        },
-        {
-          id: 'generate_code',
-          action: 'Generate agent code',
-          agentCapability: 'code-generation',
-          dependencies: ['design_agent'],
-          timeout: 45000
-        },
-        {
-          id: 'test_agent',
-          action: 'Test agent functionality',
-          agentCapability: 'agent-testing',
-          dependencies: ['generate_code'],
-          timeout: 25000
-        },
-        {
-          id: 'deploy_agent',
-          action: 'Deploy agent to ecosystem',
-          agentCapability: 'agent-deployment',
-          dependencies: ['test_agent'],
-          timeout: 20000
-        }
-      ]
-    });
+  // Drops finished checkpoints past the retention limits and returns the ones left
+  private async pruneCheckpoints(): Promise<WorkflowCheckpoint[]> {
+    const checkpoints = await this.stateStore.list();
+    const { maxFinished, maxAgeMs } = this.checkpointRetention;
+    const expired = new Set(checkpoints
+      .filter(checkpoint => checkpoint.workflow.status === 'completed' || checkpoint.workflow.status === 'failed')
+      .sort((a, b) => b.savedAt.getTime() - a.savedAt.getTime())
+      .filter((checkpoint, index) => index >= maxFinished || clock.now() - checkpoint.savedAt.getTime() > maxAgeMs)
+      .map(checkpoint => checkpoint.workflowId));
+
+    for (const workflowId of expired) {
+      await this.stateStore.remove(workflowId);
+    }
+    return checkpoints.filter(checkpoint => !expired.has(checkpoint.workflowId));
+  }
+
+  private async restoreWorkflow(workflowId: string): Promise<void> {
+    const checkpoint = await this.stateStore.load(workflowId);
+    if (checkpoint) {
+      this.restoreCheckpoint(checkpoint);
+    }
   }
 
-  private instantiateWorkflowSteps(templateSteps: any[], parameters: any): WorkflowStep[] {
-    return templateSteps.map(templateStep => ({
+  private restoreCheckpoint(checkpoint: WorkflowCheckpoint): void {
+    const workflow: AgentWorkflow = checkpoint.workflow;
+
+    if (workflow.status === 'running') {
+      workflow.status = 'paused';
+    }
+    for (const step of workflow.steps) {
+      // Work that was in flight is redone; completed steps keep their outputs
+      if (step.status === 'in-progress') {
+        step.status = 'pending';
+      }
+    }
+
+    this.activeWorkflows.set(workflow.id, workflow);
+    if (checkpoint.templateId) {
+      this.workflowTemplateIds.set(workflow.id, checkpoint.templateId);
+    }
+    if (checkpoint.execution) {
+      for (const record of checkpoint.execution.steps || []) {
+        if (record.status === 'in-progress') record.status = 'interrupted';
+      }
+      this.executionHistory.set(workflow.id, checkpoint.execution);
+    }
+    this.buildDependencyGraph(workflow);
+  }
+
+  private resolveParameters(template: WorkflowDefinition, parameters: any): any {
+    const resolved = { ...parameters };
+    const missing: string[] = [];
+
+    for (const [name, spec] of Object.entries(template.parameters || {})) {
+      if (resolved[name] === undefined && spec.default !== undefined) {
+        resolved[name] = spec.default;
+      }
+      if (resolved[name] === undefined && spec.required) {
+        missing.push(name);
+      }
+    }
+
+    if (missing.length > 0) {
+      throw new WorkflowDefinitionError(`Missing parameters for workflow '${template.id}'`, missing.map(name => `${name} is required`));
+    }
+
+    return resolved;
+  }
+
+  private instantiateWorkflowSteps(template: WorkflowDefinition, parameters: any): WorkflowStep[] {
+    return template.steps.map(templateStep => ({
       id: templateStep.id,
       agentId: '', // Will be assigned during execution
       action: templateStep.action,
-      inputData: this.prepareStepInputData(templateStep, parameters),
+      // Parameters are filled in now; step output references wait until the step runs
+      inputData: renderTemplate({ ...parameters, ...(templateStep.input || {}) }, { parameters }, true),
       outputData: undefined,
       status: 'pending',
       dependencies: templateStep.dependencies || [],
-      timeout: templateStep.timeout || 30000
+      timeout: templateStep.timeout || 30000,
+      type: templateStep.type || 'agent-task',
+      capability: templateStep.capability,
+      task: templateStep.task,
+      // A retry policy without an explicit count gets two extra attempts
+      retries: templateStep.retries ?? (templateStep.onFailure === 'retry' ? 2 : 0),
+      retryDelayMs: templateStep.retryDelayMs || 1000,
+      condition: templateStep.when,
+      durationMs: templateStep.durationMs,
+      onFailure: templateStep.onFailure,
+      compensation: templateStep.compensation
+        ? {
+            ...templateStep.compensation,
+            input: renderTemplate(templateStep.compensation.input || {}, { parameters }, true)
+          }
+        : undefined
     }));
   }
 
-  private prepareStepInputData(templateStep: any, parameters: any): any {
-    // Prepare input data for the step based on template and parameters
-    const inputData = { ...parameters };
-    
-    // Add step-specific data
-    switch (templateStep.id) {
-      case 'analyze_behavior':
-        inputData.analysisType = 'behavior_patterns';
-        break;
-      case 'assess_progress':
-        inputData.assessmentType = 'comprehensive';
-        break;
-      case 'generate_content':
-        inputData.contentType = parameters.activityType || 'general';
-        break;
-      case 'adapt_difficulty':
-        inputData.targetDifficulty = parameters.difficulty || 'medium';
-        break;
+  private buildTemplateContext(workflow: AgentWorkflow): Record<string, any> {
+    const steps: Record<string, any> = {};
+    for (const step of workflow.steps) {
+      steps[step.id] = { status: step.status, output: step.outputData };
     }
 
-    return inputData;
+    return {
+      parameters: workflow.parameters || {},
+      workflow: { id: workflow.id, name: workflow.name, priority: workflow.priority },
+      steps
+    };
   }
 
   private buildDependencyGraph(workflow: AgentWorkflow): void {
@@ -537,67 +838,93 @@ export class WorkflowOrchestrator extends BaseAgent {
     return order;
   }
 
-  private async executeWorkflowStep(step: WorkflowStep, workflow: AgentWorkflow): Promise<any> {
+  private async executeWorkflowStep(step: WorkflowStep, workflow: AgentWorkflow, execution: WorkflowExecution): Promise<WorkflowStepExecution> {
     console.log(`⚙️ Executing workflow step: ${step.action}`);
     
-    const stepExecution = {
+    const stepExecution: WorkflowStepExecution = {
       stepId: step.id,
-      startTime: new Date(),
+      startTime: clock.date(),
       status: 'in-progress',
       agentId: '',
+      attempts: 0,
+      input: null,
       result: null,
       error: null
     };
 
-    try {
-      // Find appropriate agent for this step
-      const agentId = await this.findAgentForStep(step);
-      step.agentId = agentId;
-      stepExecution.agentId = agentId;
-      
-      // Send task to agent
-      const taskMessage: AgentMessage = {
-        id: `task-${Date.now()}`,
-        fromAgentId: this.id,
-        toAgentId: agentId,
-        type: 'workflow-task',
-        data: {
-          workflowId: workflow.id,
-          stepId: step.id,
-          action: step.action,
-          inputData: step.inputData
-        },
-        priority: workflow.priority,
-        timestamp: new Date(),
-        requiresResponse: true
-      };
+    const attempts = (step.retries || 0) + 1;
+    const inputData = renderTemplate(step.inputData, this.buildTemplateContext(workflow));
+    stepExecution.input = inputData;
+
+    // Recorded up front so the run timeline shows steps that are still running
+    execution.steps.push(stepExecution);
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      stepExecution.attempts = attempt;
+
+      try {
+        if (step.type === 'wait') {
+          await scheduler.sleep(step.durationMs || 0);
+          step.outputData = { waitedMs: step.durationMs };
+        } else {
+          // Find appropriate agent for this step
+          const agentId = await this.findAgentForStep(step);
+          step.agentId = agentId;
+          stepExecution.agentId = agentId;
+          
+          // Send task to agent
+          const taskMessage: AgentMessage = {
+            id: `task-${step.id}-${clock.now()}`,
+            fromAgentId: this.id,
+            toAgentId: agentId,
+            type: 'workflow-task',
+            data: {
+              workflowId: workflow.id,
+              stepId: step.id,
+              action: step.action,
+              task: step.task,
+              inputData
+            },
+            priority: workflow.priority,
+            timestamp: clock.date(),
+            requiresResponse: true
+          };
+
+          // Wait for response with timeout; the step counts towards the agent's load meanwhile
+          const finishDispatch = this.capabilityRegistry.beginDispatch(agentId);
+          try {
+            const response = await this.requestWorkflowTask(taskMessage, step.timeout, stepExecution);
+            step.outputData = response.data.output;
+          } finally {
+            finishDispatch();
+          }
+        }
 
-      // Wait for response with timeout
-      const response = await this.sendMessageWithTimeout(taskMessage, step.timeout);
-      
-      step.outputData = response.data;
-      step.status = 'completed';
-      stepExecution.status = 'completed';
-      stepExecution.result = response.data;
+        step.status = 'completed';
+        stepExecution.status = 'completed';
+        stepExecution.result = step.outputData;
+        stepExecution.error = null;
+        break;
 
-    } catch (error) {
-      console.error(`Step execution failed:`, error);
-      step.status = 'failed';
-      stepExecution.status = 'failed';
-      stepExecution.error = error.message;
-    }
+      } catch (error) {
+        console.error(`Step execution failed (attempt ${attempt}/${attempts}):`, error);
+        step.status = 'failed';
+        stepExecution.status = 'failed';
+        stepExecution.error = error.message;
 
-    stepExecution.endTime = new Date();
+        if (attempt < attempts) {
+          await scheduler.sleep(step.retryDelayMs || 1000);
+        }
+      }
+    }
+    stepExecution.endTime = clock.date();
     stepExecution.duration = stepExecution.endTime.getTime() - stepExecution.startTime.getTime();
 
     return stepExecution;
   }
 
   private async findAgentForStep(step: WorkflowStep): Promise<string> {
-    // Find agent with required capability
-    const messageRouter = 'message-router-001'; // Assume message router handles agent discovery
-    
-    // For now, return a mock agent ID based on capability
+    // Well-known agents, used when no running agent advertises the capability
     const capabilityAgentMap = {
       'behavior-analysis': 'behavior-analyst-001',
       'learning-assessment': 'learning-coordinator-001',
@@ -608,9 +935,10 @@ export class WorkflowOrchestrator extends BaseAgent {
       'difficulty-adaptation': 'difficulty-adapter-001'
     };
 
-    // Extract capability from step action
-    const capability = this.extractCapabilityFromAction(step.action);
-    const agentId = capabilityAgentMap[capability];
+    // Definitions name the capability; older steps fall back to matching the action text.
+    // An agent is only picked when it can run the step's task, not just advertise the capability.
+    const capability = step.capability || this.extractCapabilityFromAction(step.action);
+    const agentId = this.capabilityRegistry.selectAgent(capability, undefined, [], step.task) || capabilityAgentMap[capability];
     
     if (!agentId) {
       throw new Error(`No agent found for capability: ${capability}`);
@@ -638,38 +966,102 @@ export class WorkflowOrchestrator extends BaseAgent {
     return actionCapabilityMap[action] || 'general';
   }
 
-  private async sendMessageWithTimeout(message: AgentMessage, timeout: number): Promise<any> {
-    return new Promise((resolve, reject) => {
-      const timeoutId = setTimeout(() => {
-        reject(new Error(`Step timeout after ${timeout}ms`));
-      }, timeout);
+  // Sends a step or compensation to its agent and waits for the workflow-task-result. An agent that
+  // is not registered, a reported failure and no reply within the timeout all reject. The exchange,
+  // when given, is filled in as it happens so a failed or timed-out attempt still shows what was sent.
+  private async requestWorkflowTask(message: AgentMessage, timeout: number, exchange: WorkflowTaskExchange = {}): Promise<AgentMessage> {
+    exchange.request = message.data;
+    exchange.response = undefined;
+    exchange.respondedBy = undefined;
 
-      // Simulate message sending and response
-      setTimeout(() => {
-        clearTimeout(timeoutId);
-        resolve({
-          data: { result: 'Step completed successfully', timestamp: new Date() }
-        });
-      }, Math.random() * 1000 + 500); // 500-1500ms simulated processing
-    });
+    const response = await this.sendRequest(message.toAgentId, message, timeout);
+    exchange.response = response.data;
+    exchange.respondedBy = response.fromAgentId;
+
+    if (!response.data?.success) {
+      throw new Error(response.data?.error || `${message.toAgentId} could not ${message.data.action}`);
+    }
+    return response;
   }
 
-  private async handleStepFailure(step: WorkflowStep, stepResult: any, workflow: AgentWorkflow): Promise<'retry' | 'skip' | 'abort'> {
-    console.log(`❌ Handling step failure: ${step.id} in workflow: ${workflow.id}`);
+  private async handleStepFailure(step: WorkflowStep, stepResult: any, workflow: AgentWorkflow): Promise<WorkflowFailurePolicy> {
+    console.log(`❌ Handling step failure: ${step.id} in workflow: ${workflow.id} (${stepResult.error})`);
     
-    // Determine recovery action based on step importance and error type
+    // A declared policy wins; 'retry' means the step's own retries are used up
+    if (step.onFailure) {
+      return step.onFailure === 'retry' ? 'abort' : step.onFailure;
+    }
+
+    // Root step failure - try once more
     if (step.dependencies.length === 0) {
-      // Root step failure - try to retry
       return 'retry';
     }
-    
-    if (workflow.priority === 'critical') {
-      // Critical workflow - abort on failure
-      return 'abort';
+
+    // Only a step declared `onFailure: skip` may fail without failing the workflow
+    return 'abort';
+  }
+
+  private dependenciesSatisfied(step: WorkflowStep, workflow: AgentWorkflow): boolean {
+    return step.dependencies.every(dependencyId => {
+      const dependency = workflow.steps.find(s => s.id === dependencyId);
+      return dependency?.status === 'completed' || dependency?.status === 'skipped';
+    });
+  }
+
+  // Undo completed work newest-first, like ErrorHandler's rollback plans
+  private async compensateWorkflow(workflow: AgentWorkflow, completionOrder: string[]): Promise<any[]> {
+    console.log(`↩️ Compensating workflow: ${workflow.id}`);
+
+    const failedSteps = workflow.steps.filter(s => s.status === 'failed').map(s => s.id);
+    const compensations: any[] = [];
+
+    for (const stepId of [...failedSteps, ...[...completionOrder].reverse()]) {
+      const step = workflow.steps.find(s => s.id === stepId);
+      if (!step?.compensation) continue;
+
+      const compensation = {
+        stepId,
+        action: step.compensation.action,
+        status: 'completed',
+        error: null as string | null
+      };
+
+      try {
+        const agentId = await this.findAgentForStep({
+          ...step,
+          action: step.compensation.action,
+          capability: step.compensation.capability || step.capability
+        });
+
+        await this.requestWorkflowTask({
+          id: `compensate-${step.id}-${clock.now()}`,
+          fromAgentId: this.id,
+          toAgentId: agentId,
+          type: 'workflow-compensate',
+          data: {
+            workflowId: workflow.id,
+            stepId,
+            action: step.compensation.action,
+            task: step.compensation.task,
+            inputData: renderTemplate(step.compensation.input || {}, this.buildTemplateContext(workflow))
+          },
+          priority: workflow.priority,
+          timestamp: clock.date(),
+          requiresResponse: true
+        }, step.compensation.timeout || step.timeout);
+
+        step.status = 'compensated';
+      } catch (error) {
+        // Keep going: one failed compensation should not strand the rest
+        console.error(`Compensation failed for step ${stepId}:`, error);
+        compensation.status = 'failed';
+        compensation.error = (error as Error).message;
+      }
+
+      compensations.push(compensation);
     }
-    
-    // Try to skip non-critical steps
-    return 'skip';
+
+    return compensations;
   }
 
   private async cleanupWorkflowResources(workflowId: string): Promise<void> {
@@ -705,7 +1097,7 @@ export class WorkflowOrchestrator extends BaseAgent {
   }
 
   // Message handlers
-  private async handleWorkflowCreateRequest(message: AgentMessage): Promise<void> {
+  private async handleWorkflowCreateRequest(message: AgentMessageOf<'workflow-create-request'>): Promise<void> {
     const { templateName, parameters } = message.data;
     const workflowId = await this.createWorkflow(templateName, parameters);
     
@@ -716,13 +1108,13 @@ export class WorkflowOrchestrator extends BaseAgent {
       type: 'workflow-created',
       data: { workflowId },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
   }
 
-  private async handleWorkflowExecuteRequest(message: AgentMessage): Promise<void> {
+  private async handleWorkflowExecuteRequest(message: AgentMessageOf<'workflow-execute-request'>): Promise<void> {
     const { workflowId } = message.data;
     const execution = await this.executeWorkflow(workflowId);
     
@@ -733,13 +1125,13 @@ export class WorkflowOrchestrator extends BaseAgent {
       type: 'workflow-execution-complete',
       data: { execution },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
   }
 
-  private async handleWorkflowStepComplete(message: AgentMessage): Promise<void> {
+  private async handleWorkflowStepComplete(message: AgentMessageOf<'workflow-step-complete'>): Promise<void> {
     const { workflowId, stepId, result } = message.data;
     
     const workflow = this.activeWorkflows.get(workflowId);
@@ -752,7 +1144,7 @@ export class WorkflowOrchestrator extends BaseAgent {
     }
   }
 
-  private async handleWorkflowStatusRequest(message: AgentMessage): Promise<void> {
+  private async handleWorkflowStatusRequest(message: AgentMessageOf<'workflow-status-request'>): Promise<void> {
     const { workflowId } = message.data;
     const status = this.getWorkflowStatus(workflowId);
     
@@ -763,7 +1155,7 @@ export class WorkflowOrchestrator extends BaseAgent {
       type: 'workflow-status-response',
       data: { status },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
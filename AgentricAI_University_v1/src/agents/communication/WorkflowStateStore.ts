@@ -0,0 +1,221 @@
+// Workflow State Store - Checkpoints workflow instances so they survive a page reload
+
+import { AgentWorkflow } from '../base/AgentTypes';
+import { clock } from '../base/AgentEnvironment';
+
+export interface WorkflowCheckpoint {
+  workflowId: string;
+  templateId?: string;
+  workflow: AgentWorkflow;
+  execution?: any;
+  savedAt: Date;
+}
+
+// How long checkpoints of finished (completed or failed) workflows are kept for run history;
+// paused and running ones are always kept so they can be resumed
+export interface CheckpointRetention {
+  maxFinished: number;
+  maxAgeMs: number;
+}
+
+export const DEFAULT_CHECKPOINT_RETENTION: CheckpointRetention = {
+  maxFinished: 50,
+  maxAgeMs: 7 * 24 * 60 * 60 * 1000
+};
+
+export interface WorkflowStorageAdapter {
+  readonly name: string;
+  save(checkpoint: WorkflowCheckpoint): Promise<void>;
+  load(workflowId: string): Promise<WorkflowCheckpoint | null>;
+  list(): Promise<WorkflowCheckpoint[]>;
+  remove(workflowId: string): Promise<void>;
+}
+
+// In-memory adapter for environments without browser storage
+export class MemoryWorkflowAdapter implements WorkflowStorageAdapter {
+  readonly name = 'memory';
+  private checkpoints: Map<string, string> = new Map();
+
+  async save(checkpoint: WorkflowCheckpoint): Promise<void> {
+    this.checkpoints.set(checkpoint.workflowId, serializeCheckpoint(checkpoint));
+  }
+
+  async load(workflowId: string): Promise<WorkflowCheckpoint | null> {
+    const stored = this.checkpoints.get(workflowId);
+    return stored ? deserializeCheckpoint(stored) : null;
+  }
+
+  async list(): Promise<WorkflowCheckpoint[]> {
+    return Array.from(this.checkpoints.values()).map(deserializeCheckpoint);
+  }
+
+  async remove(workflowId: string): Promise<void> {
+    this.checkpoints.delete(workflowId);
+  }
+}
+
+export class LocalStorageWorkflowAdapter implements WorkflowStorageAdapter {
+  readonly name = 'localStorage';
+  private prefix: string;
+
+  constructor(prefix: string = 'agentricai_workflow_state') {
+    this.prefix = prefix;
+  }
+
+  async save(checkpoint: WorkflowCheckpoint): Promise<void> {
+    localStorage.setItem(this.key(checkpoint.workflowId), serializeCheckpoint(checkpoint));
+  }
+
+  async load(workflowId: string): Promise<WorkflowCheckpoint | null> {
+    const stored = localStorage.getItem(this.key(workflowId));
+    return stored ? deserializeCheckpoint(stored) : null;
+  }
+
+  async list(): Promise<WorkflowCheckpoint[]> {
+    const checkpoints: WorkflowCheckpoint[] = [];
+
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (!key?.startsWith(`${this.prefix}:`)) continue;
+
+      const stored = localStorage.getItem(key);
+      if (stored) checkpoints.push(deserializeCheckpoint(stored));
+    }
+
+    return checkpoints;
+  }
+
+  async remove(workflowId: string): Promise<void> {
+    localStorage.removeItem(this.key(workflowId));
+  }
+
+  private key(workflowId: string): string {
+    return `${this.prefix}:${workflowId}`;
+  }
+}
+
+export class IndexedDBWorkflowAdapter implements WorkflowStorageAdapter {
+  readonly name = 'indexedDB';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private databaseName: string = 'agentricai_workflows', private storeName: string = 'workflow_state') {}
+
+  async save(checkpoint: WorkflowCheckpoint): Promise<void> {
+    await this.request('readwrite', store => store.put({
+      workflowId: checkpoint.workflowId,
+      data: serializeCheckpoint(checkpoint)
+    }));
+  }
+
+  async load(workflowId: string): Promise<WorkflowCheckpoint | null> {
+    const record = await this.request('readonly', store => store.get(workflowId));
+    return record ? deserializeCheckpoint(record.data) : null;
+  }
+
+  async list(): Promise<WorkflowCheckpoint[]> {
+    const records = await this.request('readonly', store => store.getAll());
+    return (records || []).map((record: any) => deserializeCheckpoint(record.data));
+  }
+
+  async remove(workflowId: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(workflowId));
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName, { keyPath: 'workflowId' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async request(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<any> {
+    const db = await this.openDatabase();
+
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+// Table: agentricai_workflow_state (workflow_id text primary key, template_id text,
+// status text, state jsonb, updated_at timestamptz)
+export class SupabaseWorkflowAdapter implements WorkflowStorageAdapter {
+  readonly name = 'supabase';
+
+  constructor(private supabase: any, private table: string = 'agentricai_workflow_state') {}
+
+  async save(checkpoint: WorkflowCheckpoint): Promise<void> {
+    const { error } = await this.supabase
+      .from(this.table)
+      .upsert({
+        workflow_id: checkpoint.workflowId,
+        template_id: checkpoint.templateId,
+        status: checkpoint.workflow.status,
+        state: JSON.parse(serializeCheckpoint(checkpoint)),
+        updated_at: clock.date().toISOString()
+      }, { onConflict: 'workflow_id' });
+
+    if (error) throw error;
+  }
+
+  async load(workflowId: string): Promise<WorkflowCheckpoint | null> {
+    const { data, error } = await this.supabase
+      .from(this.table)
+      .select('state')
+      .eq('workflow_id', workflowId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? deserializeCheckpoint(JSON.stringify(data.state)) : null;
+  }
+
+  async list(): Promise<WorkflowCheckpoint[]> {
+    const { data, error } = await this.supabase
+      .from(this.table)
+      .select('state')
+      .order('updated_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map((row: any) => deserializeCheckpoint(JSON.stringify(row.state)));
+  }
+
+  async remove(workflowId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from(this.table)
+      .delete()
+      .eq('workflow_id', workflowId);
+
+    if (error) throw error;
+  }
+}
+
+// IndexedDB where available, then localStorage, then memory
+export function createDefaultWorkflowStorage(): WorkflowStorageAdapter {
+  if (typeof indexedDB !== 'undefined') return new IndexedDBWorkflowAdapter();
+  if (typeof localStorage !== 'undefined') return new LocalStorageWorkflowAdapter();
+  return new MemoryWorkflowAdapter();
+}
+
+function serializeCheckpoint(checkpoint: WorkflowCheckpoint): string {
+  return JSON.stringify(checkpoint);
+}
+
+const DATE_FIELDS = ['savedAt', 'createdAt', 'completedAt', 'startTime', 'endTime'];
+
+function deserializeCheckpoint(stored: string): WorkflowCheckpoint {
+  // Revive the Date fields JSON flattened to strings
+  return JSON.parse(stored, (key, value) =>
+    DATE_FIELDS.includes(key) && typeof value === 'string' ? new Date(value) : value
+  );
+}
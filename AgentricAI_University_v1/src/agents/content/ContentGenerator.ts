@@ -2,13 +2,16 @@
 
 import { BaseAgent } from '../base/BaseAgent';
 import { IContentAgent } from '../base/AgentInterface';
-import { AgentConfig, AgentMessage, NeurodiverseProfile } from '../base/AgentTypes';
+import { AgentConfig, AgentMessageOf, TypedAgentMessage, NeurodiverseProfile, AgentCapability } from '../base/AgentTypes';
+import type { LettaAgentService } from '../../services/lettaIntegration';
+import { clock, random } from '../base/AgentEnvironment';
 
 export class ContentGenerator extends BaseAgent implements IContentAgent {
   private contentTemplates: Map<string, any> = new Map();
   private generatedContent: Map<string, any> = new Map();
   private contentHistory: Map<string, any[]> = new Map();
   private adaptationRules: Map<string, any> = new Map();
+  private textGenerator: LettaAgentService | null = null;
 
   constructor() {
     const config: AgentConfig = {
@@ -70,10 +73,10 @@ export class ContentGenerator extends BaseAgent implements IContentAgent {
     }
 
     const generatedContent = {
-      id: `content-${Date.now()}`,
+      id: `content-${clock.now()}`,
       type: contentType,
       title: this.generateTitle(requirements),
-      description: this.generateDescription(requirements),
+      description: await this.composeDescription(requirements),
       instructions: this.generateInstructions(requirements),
       content: this.generateContentBody(template, requirements),
       metadata: {
@@ -83,7 +86,7 @@ export class ContentGenerator extends BaseAgent implements IContentAgent {
         neurodiverseOptimized: true,
         sensoryConsiderations: this.getSensoryConsiderations(requirements)
       },
-      createdAt: new Date(),
+      createdAt: clock.date(),
       version: '1.0'
     };
 
@@ -97,11 +100,19 @@ export class ContentGenerator extends BaseAgent implements IContentAgent {
     this.contentHistory.set(userId, history);
 
     this.metrics.tasksCompleted += 1;
-    this.metrics.lastActivity = new Date();
+    this.metrics.lastActivity = clock.date();
+
+    // Checkpoint so a restart mid-lesson keeps the lesson and the learner's history
+    await this.saveState();
 
     return generatedContent;
   }
 
+  // Opt in to language-model descriptions; templates remain the fallback
+  useTextGenerator(service: LettaAgentService | null): void {
+    this.textGenerator = service;
+  }
+
   async adaptDifficulty(content: any, targetLevel: string): Promise<any> {
     console.log(`🎯 Adapting content difficulty to: ${targetLevel}`);
     
@@ -141,7 +152,7 @@ export class ContentGenerator extends BaseAgent implements IContentAgent {
 
     adaptedContent.metadata.difficulty = targetLevel;
     adaptedContent.metadata.adaptedFrom = content.id;
-    adaptedContent.metadata.adaptedAt = new Date();
+    adaptedContent.metadata.adaptedAt = clock.date();
     adaptedContent.id = `${content.id}-${targetLevel}`;
 
     this.generatedContent.set(adaptedContent.id, adaptedContent);
@@ -205,7 +216,7 @@ export class ContentGenerator extends BaseAgent implements IContentAgent {
 
     optimizedContent.metadata.sensoryOptimized = true;
     optimizedContent.metadata.optimizedFor = preferences;
-    optimizedContent.metadata.optimizedAt = new Date();
+    optimizedContent.metadata.optimizedAt = clock.date();
 
     this.metrics.tasksCompleted += 1;
     return optimizedContent;
@@ -230,7 +241,7 @@ export class ContentGenerator extends BaseAgent implements IContentAgent {
       contentId: content.id,
       results: validationResults,
       isValid,
-      validatedAt: new Date()
+      validatedAt: clock.date()
     }, 'long');
 
     this.metrics.tasksCompleted += 1;
@@ -240,7 +251,7 @@ export class ContentGenerator extends BaseAgent implements IContentAgent {
   async personalizeContent(userId: string, content: any, profile: any): Promise<any> {
     console.log(`👤 Personalizing content for user: ${userId}`);
     
-    const personalizedContent = { ...content };
+    let personalizedContent = { ...content };
     
     // Apply learning style preferences
     if (profile.learningStyle === 'visual') {
@@ -289,16 +300,45 @@ export class ContentGenerator extends BaseAgent implements IContentAgent {
     }
 
     personalizedContent.metadata.personalizedFor = userId;
-    personalizedContent.metadata.personalizedAt = new Date();
+    personalizedContent.metadata.personalizedAt = clock.date();
     personalizedContent.id = `${content.id}-personalized-${userId}`;
 
     this.generatedContent.set(personalizedContent.id, personalizedContent);
     this.metrics.tasksCompleted += 1;
+    await this.saveState();
 
     return personalizedContent;
   }
 
-  protected async processMessage(message: AgentMessage): Promise<void> {
+  getGeneratedContent(contentId: string): any {
+    return this.generatedContent.get(contentId);
+  }
+
+  protected describeCapability(capability: string): Partial<AgentCapability> {
+    const details: Record<string, Partial<AgentCapability>> = {
+      'content-generation': { inputTypes: ['content-request'], outputTypes: ['content-generated'], processingTime: 2000, tasks: ['generate_content', 'personalize_content'] },
+      'difficulty-adaptation': { inputTypes: ['adaptation-request'], outputTypes: ['content-adapted'], processingTime: 1500, tasks: ['adapt_difficulty'] },
+      'sensory-optimization': { inputTypes: ['adaptation-request'], outputTypes: ['content-adapted'], processingTime: 1500, tasks: ['optimize_sensory'] },
+      'content-validation': { inputTypes: ['validation-request'], outputTypes: ['validation-result'], processingTime: 500, tasks: ['validate_content'] }
+    };
+    return { ...super.describeCapability(capability), ...details[capability] };
+  }
+
+  protected captureState(): any {
+    return {
+      ...super.captureState(),
+      generatedContent: Array.from(this.generatedContent.entries()),
+      contentHistory: Array.from(this.contentHistory.entries())
+    };
+  }
+
+  protected applyState(state: any): void {
+    super.applyState(state);
+    this.generatedContent = new Map(state.generatedContent || []);
+    this.contentHistory = new Map(state.contentHistory || []);
+  }
+
+  protected async processMessage(message: TypedAgentMessage): Promise<void> {
     switch (message.type) {
       case 'content-request':
         await this.handleContentRequest(message);
@@ -326,7 +366,7 @@ export class ContentGenerator extends BaseAgent implements IContentAgent {
       "I'm building something cool that matches your style! 💫"
     ];
     
-    return responses[Math.floor(Math.random() * responses.length)];
+    return responses[Math.floor(random.next() * responses.length)];
   }
 
   // Private helper methods
@@ -393,7 +433,7 @@ export class ContentGenerator extends BaseAgent implements IContentAgent {
     };
     
     const typeTitle = titles[requirements.type] || ['Learning Adventure'];
-    return typeTitle[Math.floor(Math.random() * typeTitle.length)];
+    return typeTitle[Math.floor(random.next() * typeTitle.length)];
   }
 
   private generateDescription(requirements: any): string {
@@ -407,6 +447,31 @@ export class ContentGenerator extends BaseAgent implements IContentAgent {
     return descriptions[requirements.type] || 'An exciting learning activity designed just for you!';
   }
 
+  private async composeDescription(requirements: any): Promise<string> {
+    const fallback = this.generateDescription(requirements);
+    if (!this.textGenerator?.isEnabled()) return fallback;
+
+    try {
+      const description = await this.textGenerator.generateText(
+        `Write a two-sentence description of a ${requirements.type || 'learning'} activity at ${requirements.difficulty || 'medium'} difficulty.`,
+        {
+          system: 'You write calm, literal, encouraging activity descriptions for autistic children. Avoid idioms and sarcasm.',
+          memoryBlocks: [{ label: 'learner', value: JSON.stringify({ interests: requirements.interests, age: requirements.age }) }],
+          maxTokens: 120,
+          onUsage: (usage, model) => this.reportResourceUsage({ llm: { model, ...usage } }, {
+            workflowId: requirements.workflowId,
+            sessionId: requirements.sessionId,
+            studentId: requirements.userId
+          })
+        }
+      );
+      return description.trim() || fallback;
+    } catch (error) {
+      console.warn('Text generation failed, using template description:', error);
+      return fallback;
+    }
+  }
+
   private generateInstructions(requirements: any): string[] {
     const instructions = {
       'color-recognition': [
@@ -745,7 +810,7 @@ export class ContentGenerator extends BaseAgent implements IContentAgent {
     return 'easy';
   }
 
-  private async handleContentRequest(message: AgentMessage): Promise<void> {
+  private async handleContentRequest(message: AgentMessageOf<'content-request'>): Promise<void> {
     const { requirements } = message.data;
     const content = await this.generateContent(requirements);
     
@@ -756,13 +821,13 @@ export class ContentGenerator extends BaseAgent implements IContentAgent {
       type: 'content-generated',
       data: { content },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
   }
 
-  private async handleAdaptationRequest(message: AgentMessage): Promise<void> {
+  private async handleAdaptationRequest(message: AgentMessageOf<'adaptation-request'>): Promise<void> {
     const { content, adaptationType, parameters } = message.data;
     
     let adaptedContent;
@@ -779,13 +844,13 @@ export class ContentGenerator extends BaseAgent implements IContentAgent {
       type: 'content-adapted',
       data: { adaptedContent },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
   }
 
-  private async handleValidationRequest(message: AgentMessage): Promise<void> {
+  private async handleValidationRequest(message: AgentMessageOf<'validation-request'>): Promise<void> {
     const { content } = message.data;
     const isValid = await this.validateContentSafety(content);
     
@@ -796,7 +861,7 @@ export class ContentGenerator extends BaseAgent implements IContentAgent {
       type: 'validation-result',
       data: { contentId: content.id, isValid },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
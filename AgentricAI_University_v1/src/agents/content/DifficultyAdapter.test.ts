@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DifficultyAdapter } from './DifficultyAdapter';
+import { createTestEcosystem, TestEcosystem } from '../../test/testEcosystem';
+
+// One session per learner profile; the golden file pins the difficulty each one gets
+const SESSIONS: Record<string, any> = {
+  excelling: {
+    attempts: Array.from({ length: 10 }, () => ({ correct: true, responseTime: 900 })),
+    sessionDuration: 600000,
+    interactionCount: 24,
+    completionRate: 1,
+    exploratoryBehavior: true
+  },
+  steady: {
+    attempts: Array.from({ length: 10 }, (_, i) => ({ correct: i % 4 !== 0, responseTime: 2800 })),
+    sessionDuration: 360000,
+    interactionCount: 12,
+    completionRate: 0.85
+  },
+  struggling: {
+    attempts: Array.from({ length: 10 }, (_, i) => ({ correct: i % 3 === 0, responseTime: 7500, isRetry: i % 3 !== 0 })),
+    sessionDuration: 240000,
+    interactionCount: 8,
+    completionRate: 0.4,
+    errorStreak: 4
+  },
+  frustrated: {
+    attempts: Array.from({ length: 10 }, (_, i) => ({ correct: i < 6, responseTime: 4000 })),
+    sessionDuration: 420000,
+    interactionCount: 14,
+    completionRate: 0.6,
+    rapidClicking: true,
+    longPauses: 4,
+    backtracking: 3,
+    quitAttempts: 1
+  }
+};
+
+describe('DifficultyAdapter.calculateOptimalDifficulty', () => {
+  let ecosystem: TestEcosystem;
+  let adapter: DifficultyAdapter;
+
+  beforeEach(async () => {
+    ecosystem = await createTestEcosystem({
+      agents: [() => new DifficultyAdapter()],
+      fakes: ['learning-coordinator', 'event-bus']
+    });
+    adapter = ecosystem.get<DifficultyAdapter>('difficulty-adapter-001');
+  });
+
+  afterEach(async () => {
+    await ecosystem.stop();
+  });
+
+  it('defaults to medium before any performance has been analyzed', async () => {
+    expect(await adapter.calculateOptimalDifficulty('new-student', 'shape-matching')).toBe('medium');
+  });
+
+  it('matches the golden difficulty for each learner profile', async () => {
+    const results: Record<string, any> = {};
+
+    for (const [profile, session] of Object.entries(SESSIONS)) {
+      const userId = `student-${profile}`;
+      const analysis = await adapter.analyzePerformance(userId, { sessionId: `session-${profile}`, ...session });
+      results[profile] = {
+        metrics: analysis.metrics,
+        difficulty: await adapter.calculateOptimalDifficulty(userId, 'shape-matching')
+      };
+    }
+
+    expect(results).toMatchSnapshot();
+  });
+
+  it('never raises difficulty for a frustrated learner', async () => {
+    await adapter.analyzePerformance('student-frustrated', { sessionId: 'session-frustrated', ...SESSIONS.frustrated });
+
+    expect(await adapter.calculateOptimalDifficulty('student-frustrated', 'shape-matching')).not.toBe('hard');
+  });
+});
@@ -1,7 +1,8 @@
 // Difficulty Adapter Agent - Specialized difficulty level adjustment
 
 import { BaseAgent } from '../base/BaseAgent';
-import { AgentConfig, AgentMessage } from '../base/AgentTypes';
+import { AgentConfig, AgentMessageOf, TypedAgentMessage, AgentCapability } from '../base/AgentTypes';
+import { clock, random } from '../base/AgentEnvironment';
 
 export class DifficultyAdapter extends BaseAgent {
   private difficultyProfiles: Map<string, any> = new Map();
@@ -16,6 +17,7 @@ export class DifficultyAdapter extends BaseAgent {
       version: '1.0.0',
       capabilities: [
         'difficulty-analysis',
+        'difficulty-adaptation',
         'adaptive-scaling',
         'performance-tracking',
         'challenge-optimization',
@@ -58,7 +60,7 @@ export class DifficultyAdapter extends BaseAgent {
     const analysis = {
       userId,
       sessionId: sessionData.sessionId,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       metrics: {
         accuracy: this.calculateAccuracy(sessionData),
         speed: this.calculateSpeed(sessionData),
@@ -145,7 +147,7 @@ export class DifficultyAdapter extends BaseAgent {
     // Store difficulty calculation
     this.storeMemory(`optimal_difficulty_${userId}_${activityType}`, {
       difficulty: optimalDifficulty,
-      calculatedAt: new Date(),
+      calculatedAt: clock.date(),
       basedOn: performanceData ? 'performance_data' : 'default'
     }, 'short');
 
@@ -200,7 +202,7 @@ export class DifficultyAdapter extends BaseAgent {
       ...adaptedContent.metadata,
       difficulty: targetDifficulty,
       adaptedFrom: currentDifficulty,
-      adaptedAt: new Date(),
+      adaptedAt: clock.date(),
       adaptedFor: userId
     };
 
@@ -210,7 +212,7 @@ export class DifficultyAdapter extends BaseAgent {
       fromDifficulty: currentDifficulty,
       toDifficulty: targetDifficulty,
       adaptations: adaptations,
-      timestamp: new Date()
+      timestamp: clock.date()
     });
 
     this.metrics.tasksCompleted += 1;
@@ -241,7 +243,7 @@ export class DifficultyAdapter extends BaseAgent {
     const adjustmentRecommendations = this.generateAdjustmentRecommendations(progressTrends, currentProfile);
 
     // Update difficulty profile
-    currentProfile.lastUpdated = new Date();
+    currentProfile.lastUpdated = clock.date();
     currentProfile.progressTrends = progressTrends;
     currentProfile.adjustmentRecommendations = adjustmentRecommendations;
 
@@ -256,13 +258,22 @@ export class DifficultyAdapter extends BaseAgent {
     };
   }
 
-  protected async processMessage(message: AgentMessage): Promise<void> {
+  protected describeCapability(capability: string): Partial<AgentCapability> {
+    const details: Record<string, Partial<AgentCapability>> = {
+      'difficulty-analysis': { inputTypes: ['difficulty-analysis-request'], outputTypes: ['difficulty-analysis-response'], processingTime: 700, tasks: ['analyze_performance', 'calculate_difficulty'] },
+      'difficulty-adaptation': { inputTypes: ['difficulty-adaptation-request'], outputTypes: ['content-adapted'], processingTime: 1000, tasks: ['adapt_content_difficulty'] },
+      'performance-tracking': { inputTypes: ['progress-update'], outputTypes: [], processingTime: 200, tasks: ['track_progress'] }
+    };
+    return { ...super.describeCapability(capability), ...details[capability] };
+  }
+
+  protected async processMessage(message: TypedAgentMessage): Promise<void> {
     switch (message.type) {
       case 'difficulty-analysis-request':
         await this.handleDifficultyAnalysisRequest(message);
         break;
       
-      case 'adaptation-request':
+      case 'difficulty-adaptation-request':
         await this.handleAdaptationRequest(message);
         break;
       
@@ -284,7 +295,7 @@ export class DifficultyAdapter extends BaseAgent {
       "I'm making sure you can learn and grow at your own pace! 🌱"
     ];
     
-    return responses[Math.floor(Math.random() * responses.length)];
+    return responses[Math.floor(random.next() * responses.length)];
   }
 
   // Private helper methods
@@ -588,7 +599,7 @@ export class DifficultyAdapter extends BaseAgent {
     return recommendations;
   }
 
-  private async handleDifficultyAnalysisRequest(message: AgentMessage): Promise<void> {
+  private async handleDifficultyAnalysisRequest(message: AgentMessageOf<'difficulty-analysis-request'>): Promise<void> {
     const { userId, sessionData } = message.data;
     const analysis = await this.analyzePerformance(userId, sessionData);
     
@@ -599,13 +610,13 @@ export class DifficultyAdapter extends BaseAgent {
       type: 'difficulty-analysis-response',
       data: { analysis },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
   }
 
-  private async handleAdaptationRequest(message: AgentMessage): Promise<void> {
+  private async handleAdaptationRequest(message: AgentMessageOf<'difficulty-adaptation-request'>): Promise<void> {
     const { content, targetDifficulty, userId } = message.data;
     const adaptedContent = await this.adaptContentDifficulty(content, targetDifficulty, userId);
     
@@ -616,14 +627,14 @@ export class DifficultyAdapter extends BaseAgent {
       type: 'content-adapted',
       data: { adaptedContent },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
   }
 
-  private async handleProgressUpdate(message: AgentMessage): Promise<void> {
-    const { userId, progressData } = message.data;
-    await this.trackProgressAndAdjust(userId, progressData);
+  private async handleProgressUpdate(message: AgentMessageOf<'progress-update'>): Promise<void> {
+    const { studentId, progress } = message.data;
+    await this.trackProgressAndAdjust(studentId, progress);
   }
 }
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { SensoryOptimizer } from './SensoryOptimizer';
+import { createTestEcosystem, TestEcosystem } from '../../test/testEcosystem';
+
+const LESSON = {
+  id: 'shapes-lesson-1',
+  title: 'Match the shapes',
+  visual: { elementsPerScreen: 8, brightness: 90, animationDuration: 300 },
+  audio: { volume: 80, backgroundMusic: true, soundEffects: true },
+  interaction: { timeLimit: 30000, feedbackStyle: 'immediate' },
+  layout: { density: 'high' },
+  animations: { speed: 'fast', duration: 800 }
+};
+
+const SENSORY_PROFILES: Record<string, any> = {
+  visuallySensitive: {
+    sensoryPreferences: { visualComplexity: 'low', contrastLevel: 'high', animationSpeed: 'slow', audioEnabled: true },
+    triggers: ['bright_visuals', 'flashing_elements', 'excessive_motion']
+  },
+  auditorySensitive: {
+    sensoryPreferences: { visualComplexity: 'medium', contrastLevel: 'medium', animationSpeed: 'normal', audioEnabled: true },
+    triggers: ['loud_audio', 'background_noise', 'sudden_sounds']
+  },
+  audioOff: {
+    sensoryPreferences: { visualComplexity: 'medium', audioEnabled: false },
+    triggers: ['time_pressure', 'precise_movements']
+  }
+};
+
+describe('SensoryOptimizer.optimizeContent', () => {
+  let ecosystem: TestEcosystem;
+  let optimizer: SensoryOptimizer;
+
+  beforeEach(async () => {
+    ecosystem = await createTestEcosystem({ agents: [() => new SensoryOptimizer()] });
+    optimizer = ecosystem.get<SensoryOptimizer>('sensory-optimizer-001');
+  });
+
+  afterEach(async () => {
+    await ecosystem.stop();
+  });
+
+  it.each(Object.keys(SENSORY_PROFILES))('matches the golden output for a %s learner', async profile => {
+    const optimized = await optimizer.optimizeContent(LESSON, SENSORY_PROFILES[profile]);
+
+    expect(optimized).toMatchSnapshot();
+  });
+
+  it('leaves the source content untouched', async () => {
+    const before = JSON.parse(JSON.stringify(LESSON));
+    await optimizer.optimizeContent(LESSON, SENSORY_PROFILES.visuallySensitive);
+
+    expect(LESSON).toEqual(before);
+  });
+});
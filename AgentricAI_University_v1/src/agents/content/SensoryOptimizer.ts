@@ -1,7 +1,8 @@
 // Sensory Optimizer Agent - Sensory-friendly content optimization
 
 import { BaseAgent } from '../base/BaseAgent';
-import { AgentConfig, AgentMessage, NeurodiverseProfile } from '../base/AgentTypes';
+import { AgentConfig, AgentMessageOf, TypedAgentMessage, NeurodiverseProfile, AgentCapability } from '../base/AgentTypes';
+import { clock, random } from '../base/AgentEnvironment';
 
 export class SensoryOptimizer extends BaseAgent {
   private sensoryProfiles: Map<string, any> = new Map();
@@ -81,7 +82,7 @@ export class SensoryOptimizer extends BaseAgent {
       optimizedFor: sensoryProfile,
       optimizationLevel: this.calculateOptimizationLevel(sensoryProfile),
       comfortScore: this.predictComfortScore(optimizedContent, sensoryProfile),
-      optimizedAt: new Date()
+      optimizedAt: clock.date()
     };
 
     this.metrics.tasksCompleted += 1;
@@ -94,7 +95,7 @@ export class SensoryOptimizer extends BaseAgent {
     const assessment = {
       userId,
       contentId: content.id,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       comfortMetrics: {
         visual: this.assessVisualComfort(feedback),
         auditory: this.assessAuditoryComfort(feedback),
@@ -257,7 +258,7 @@ export class SensoryOptimizer extends BaseAgent {
     
     // Add to learning history
     currentProfile.learningHistory.push({
-      timestamp: new Date(),
+      timestamp: clock.date(),
       behaviorData: behaviorData,
       learnedPreferences: preferences
     });
@@ -275,7 +276,16 @@ export class SensoryOptimizer extends BaseAgent {
     return currentProfile;
   }
 
-  protected async processMessage(message: AgentMessage): Promise<void> {
+  protected describeCapability(capability: string): Partial<AgentCapability> {
+    const details: Record<string, Partial<AgentCapability>> = {
+      'sensory-optimization': { inputTypes: ['sensory-optimization-request'], outputTypes: ['content-optimized'], processingTime: 900, tasks: ['optimize_content', 'generate_alternatives'] },
+      'comfort-assessment': { inputTypes: ['comfort-assessment-request'], outputTypes: ['comfort-assessment-complete'], processingTime: 600, tasks: ['assess_comfort'] },
+      'trigger-avoidance': { inputTypes: ['stress-trigger-detection-request'], outputTypes: ['triggers-detected'], processingTime: 400, tasks: ['detect_triggers'] }
+    };
+    return { ...super.describeCapability(capability), ...details[capability] };
+  }
+
+  protected async processMessage(message: TypedAgentMessage): Promise<void> {
     switch (message.type) {
       case 'sensory-optimization-request':
         await this.handleOptimizationRequest(message);
@@ -285,7 +295,7 @@ export class SensoryOptimizer extends BaseAgent {
         await this.handleComfortAssessmentRequest(message);
         break;
       
-      case 'trigger-detection-request':
+      case 'stress-trigger-detection-request':
         await this.handleTriggerDetectionRequest(message);
         break;
       
@@ -303,7 +313,7 @@ export class SensoryOptimizer extends BaseAgent {
       "I'm creating the most comfortable learning space for you! 🏠"
     ];
     
-    return responses[Math.floor(Math.random() * responses.length)];
+    return responses[Math.floor(random.next() * responses.length)];
   }
 
   // Private helper methods
@@ -602,7 +612,7 @@ export class SensoryOptimizer extends BaseAgent {
       profile.preferences = { ...profile.preferences, ...updates.preferences };
     }
     
-    profile.lastUpdated = new Date();
+    profile.lastUpdated = clock.date();
     this.sensoryProfiles.set(userId, profile);
     
     return Promise.resolve();
@@ -646,7 +656,7 @@ export class SensoryOptimizer extends BaseAgent {
     return zones;
   }
 
-  private async handleOptimizationRequest(message: AgentMessage): Promise<void> {
+  private async handleOptimizationRequest(message: AgentMessageOf<'sensory-optimization-request'>): Promise<void> {
     const { content, sensoryProfile } = message.data;
     const optimizedContent = await this.optimizeContent(content, sensoryProfile);
     
@@ -657,13 +667,13 @@ export class SensoryOptimizer extends BaseAgent {
       type: 'content-optimized',
       data: { optimizedContent },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
   }
 
-  private async handleComfortAssessmentRequest(message: AgentMessage): Promise<void> {
+  private async handleComfortAssessmentRequest(message: AgentMessageOf<'comfort-assessment-request'>): Promise<void> {
     const { userId, content, feedback } = message.data;
     const assessment = await this.assessSensoryComfort(userId, content, feedback);
     
@@ -674,13 +684,13 @@ export class SensoryOptimizer extends BaseAgent {
       type: 'comfort-assessment-complete',
       data: { assessment },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
   }
 
-  private async handleTriggerDetectionRequest(message: AgentMessage): Promise<void> {
+  private async handleTriggerDetectionRequest(message: AgentMessageOf<'stress-trigger-detection-request'>): Promise<void> {
     const { userId, interactionData } = message.data;
     const triggers = await this.detectSensoryTriggers(userId, interactionData);
     
@@ -691,7 +701,7 @@ export class SensoryOptimizer extends BaseAgent {
       type: 'triggers-detected',
       data: { userId, triggers },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
@@ -1,7 +1,8 @@
 // Administrative Agent - Handles scheduling, records, compliance, and operations
 
 import { BaseAgent } from '../base/BaseAgent';
-import { AgentConfig, AgentMessage } from '../base/AgentTypes';
+import { AgentConfig, AgentMessageOf, TypedAgentMessage } from '../base/AgentTypes';
+import { clock, random } from '../base/AgentEnvironment';
 
 export class AdministrativeAgent extends BaseAgent {
   private studentRecords: Map<string, any> = new Map();
@@ -11,7 +12,7 @@ export class AdministrativeAgent extends BaseAgent {
 
   constructor(adminType: 'registrar' | 'scheduler' | 'compliance' | 'operations') {
     const config: AgentConfig = {
-      id: `admin-${adminType}-${Date.now()}`,
+      id: `admin-${adminType}-${clock.now()}`,
       name: `Digital ${adminType.charAt(0).toUpperCase() + adminType.slice(1)}`,
       type: 'educational-administration',
       version: '1.0.0',
@@ -65,10 +66,10 @@ export class AdministrativeAgent extends BaseAgent {
     console.log(`📝 Managing student enrollment: ${enrollmentType} for ${studentData.name}`);
     
     const enrollment = {
-      enrollmentId: `enroll-${Date.now()}`,
+      enrollmentId: `enroll-${clock.now()}`,
       studentData,
       enrollmentType,
-      processedAt: new Date(),
+      processedAt: clock.date(),
       requiredDocuments: this.identifyRequiredDocuments(enrollmentType, studentData),
       complianceChecks: await this.performComplianceChecks(studentData),
       serviceNeeds: this.assessServiceNeeds(studentData),
@@ -101,10 +102,10 @@ export class AdministrativeAgent extends BaseAgent {
     console.log(`📅 Coordinating scheduling: ${scheduleType}`);
     
     const scheduling = {
-      scheduleId: `schedule-${Date.now()}`,
+      scheduleId: `schedule-${clock.now()}`,
       scheduleType,
       parameters,
-      createdAt: new Date(),
+      createdAt: clock.date(),
       conflicts: [],
       resolutions: [],
       finalSchedule: null
@@ -149,7 +150,7 @@ export class AdministrativeAgent extends BaseAgent {
     
     const compliance = {
       area: complianceArea,
-      monitoredAt: new Date(),
+      monitoredAt: clock.date(),
       requirements: this.getComplianceRequirements(complianceArea),
       currentStatus: await this.assessCurrentCompliance(complianceArea),
       gaps: [],
@@ -182,7 +183,7 @@ export class AdministrativeAgent extends BaseAgent {
         type: 'compliance-alert',
         data: { compliance },
         priority: 'high',
-        timestamp: new Date(),
+        timestamp: clock.date(),
         requiresResponse: true
       });
     }
@@ -195,12 +196,12 @@ export class AdministrativeAgent extends BaseAgent {
     console.log(`📦 Allocating resources: ${resourceType}`);
     
     const resourceAllocation = {
-      allocationId: `resource-${Date.now()}`,
+      allocationId: `resource-${clock.now()}`,
       resourceType,
       allocation,
       requestedBy: allocation.requestedBy,
       approvedBy: this.id,
-      allocatedAt: new Date(),
+      allocatedAt: clock.date(),
       availability: await this.checkResourceAvailability(resourceType, allocation),
       conflicts: this.identifyResourceConflicts(resourceType, allocation),
       alternatives: this.suggestAlternatives(resourceType, allocation),
@@ -227,10 +228,10 @@ export class AdministrativeAgent extends BaseAgent {
     console.log(`📊 Generating administrative report: ${reportType}`);
     
     const report = {
-      reportId: `report-${Date.now()}`,
+      reportId: `report-${clock.now()}`,
       reportType,
       parameters,
-      generatedAt: new Date(),
+      generatedAt: clock.date(),
       data: await this.gatherReportData(reportType, parameters),
       analysis: this.analyzeReportData(reportType, parameters),
       recommendations: this.generateReportRecommendations(reportType, parameters),
@@ -252,10 +253,10 @@ export class AdministrativeAgent extends BaseAgent {
     console.log(`💾 Managing data operation: ${operation}`);
     
     const dataOperation = {
-      operationId: `data-op-${Date.now()}`,
+      operationId: `data-op-${clock.now()}`,
       operation,
       dataSet,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       validation: await this.validateDataOperation(operation, dataSet),
       privacy: await this.ensureDataPrivacy(dataSet),
       backup: await this.createDataBackup(dataSet),
@@ -267,7 +268,7 @@ export class AdministrativeAgent extends BaseAgent {
     return dataOperation;
   }
 
-  protected async processMessage(message: AgentMessage): Promise<void> {
+  protected async processMessage(message: TypedAgentMessage): Promise<void> {
     switch (message.type) {
       case 'enrollment-request':
         await this.handleEnrollmentRequest(message);
@@ -395,7 +396,7 @@ export class AdministrativeAgent extends BaseAgent {
 
   private scheduleParentOrientation(studentData: any): any {
     return {
-      orientationDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 1 week
+      orientationDate: new Date(clock.now() + 7 * 24 * 60 * 60 * 1000), // 1 week
       duration: '2 hours',
       topics: ['school_overview', 'special_services', 'communication_systems', 'support_resources'],
       materials: ['parent_handbook', 'contact_directory', 'resource_guides'],
@@ -567,10 +568,10 @@ export class AdministrativeAgent extends BaseAgent {
   private async assessCurrentCompliance(complianceArea: string): Promise<any> {
     // Assess current compliance status
     return {
-      overallScore: Math.floor(Math.random() * 20) + 80, // 80-100%
+      overallScore: Math.floor(random.next() * 20) + 80, // 80-100%
       areaScores: this.generateAreaScores(complianceArea),
-      lastAudit: new Date(Date.now() - 90 * 24 * 60 * 60 * 1000), // 90 days ago
-      nextAudit: new Date(Date.now() + 275 * 24 * 60 * 60 * 1000), // 275 days from now
+      lastAudit: new Date(clock.now() - 90 * 24 * 60 * 60 * 1000), // 90 days ago
+      nextAudit: new Date(clock.now() + 275 * 24 * 60 * 60 * 1000), // 275 days from now
       riskAreas: this.identifyRiskAreas(complianceArea)
     };
   }
@@ -628,8 +629,11 @@ export class AdministrativeAgent extends BaseAgent {
   // Additional helper methods would continue here...
   // This represents a comprehensive administrative management system
 
-  private async handleEnrollmentRequest(message: AgentMessage): Promise<void> {
+  private async handleEnrollmentRequest(message: AgentMessageOf<'enrollment-request'>): Promise<void> {
     const { studentData, enrollmentType } = message.data;
+    if (enrollmentType !== 'new' && enrollmentType !== 'transfer' && enrollmentType !== 'update') {
+      throw new Error(`Unknown enrollment type: ${enrollmentType}`);
+    }
     const enrollment = await this.manageStudentEnrollment(studentData, enrollmentType);
     
     await this.sendMessage(message.fromAgentId, {
@@ -639,13 +643,13 @@ export class AdministrativeAgent extends BaseAgent {
       type: 'enrollment-processed',
       data: { enrollment },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
   }
 
-  private async handleSchedulingRequest(message: AgentMessage): Promise<void> {
+  private async handleSchedulingRequest(message: AgentMessageOf<'scheduling-request'>): Promise<void> {
     const { scheduleType, parameters } = message.data;
     const scheduling = await this.coordinateScheduling(scheduleType, parameters);
     
@@ -656,13 +660,13 @@ export class AdministrativeAgent extends BaseAgent {
       type: 'scheduling-complete',
       data: { scheduling },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
   }
 
-  private async handleComplianceCheck(message: AgentMessage): Promise<void> {
+  private async handleComplianceCheck(message: AgentMessageOf<'compliance-check'>): Promise<void> {
     const { complianceArea } = message.data;
     const compliance = await this.monitorCompliance(complianceArea);
     
@@ -673,13 +677,13 @@ export class AdministrativeAgent extends BaseAgent {
       type: 'compliance-status',
       data: { compliance },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
   }
 
-  private async handleResourceRequest(message: AgentMessage): Promise<void> {
+  private async handleResourceRequest(message: AgentMessageOf<'resource-request'>): Promise<void> {
     const { resourceType, allocation } = message.data;
     const resourceAllocation = await this.allocateResources(resourceType, allocation);
     
@@ -688,9 +692,9 @@ export class AdministrativeAgent extends BaseAgent {
       fromAgentId: this.id,
       toAgentId: message.fromAgentId,
       type: 'resource-allocation-response',
-      data: { resourceAllocation },
+      data: { success: true, allocation: resourceAllocation },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
@@ -772,21 +776,17 @@ export class AdministrativeAgent extends BaseAgent {
 
   private async notifyEnrollmentComplete(enrollment: any): Promise<void> {
     // Notify relevant agents of completed enrollment
-    const notifications = [
-      { agent: 'teacher-agent-001', type: 'new_student_assigned' },
-      { agent: 'parent-liaison-001', type: 'enrollment_complete' },
-      { agent: 'principal-agent-001', type: 'enrollment_processed' }
-    ];
+    const recipients = ['teacher-agent-001', 'parent-liaison-001', 'principal-agent-001'];
 
-    for (const notification of notifications) {
-      await this.sendMessage(notification.agent, {
+    for (const recipient of recipients) {
+      await this.sendMessage(recipient, {
         id: '',
         fromAgentId: this.id,
-        toAgentId: notification.agent,
-        type: notification.type,
+        toAgentId: recipient,
+        type: 'enrollment-processed',
         data: { enrollment },
         priority: 'medium',
-        timestamp: new Date(),
+        timestamp: clock.date(),
         requiresResponse: false
       });
     }
@@ -869,8 +869,8 @@ export class AdministrativeAgent extends BaseAgent {
 
   private async checkResourceAvailability(resourceType: string, allocation: any): Promise<any> {
     return {
-      sufficient: Math.random() > 0.2, // 80% availability
-      available: Math.floor(Math.random() * 100) + 50,
+      sufficient: random.next() > 0.2, // 80% availability
+      available: Math.floor(random.next() * 100) + 50,
       requested: allocation.amount || 50,
       timeline: allocation.timeline || 'immediate'
     };
@@ -878,7 +878,7 @@ export class AdministrativeAgent extends BaseAgent {
 
   private identifyResourceConflicts(resourceType: string, allocation: any): any[] {
     // Check for resource conflicts
-    return Math.random() > 0.7 ? [] : [{ type: 'scheduling_conflict', severity: 'medium' }];
+    return random.next() > 0.7 ? [] : [{ type: 'scheduling_conflict', severity: 'medium' }];
   }
 
   private suggestAlternatives(resourceType: string, allocation: any): any[] {
@@ -904,7 +904,7 @@ export class AdministrativeAgent extends BaseAgent {
       type: 'resource-escalation',
       data: { allocation },
       priority: 'high',
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: true
     });
   }
@@ -912,7 +912,7 @@ export class AdministrativeAgent extends BaseAgent {
   private async gatherReportData(reportType: string, parameters: any): Promise<any> {
     // Gather data for specific report type
     return {
-      dataPoints: Math.floor(Math.random() * 1000) + 500,
+      dataPoints: Math.floor(random.next() * 1000) + 500,
       timeframe: parameters.timeframe || 'monthly',
       scope: parameters.scope || 'institution_wide',
       quality: 'high'
@@ -963,7 +963,7 @@ export class AdministrativeAgent extends BaseAgent {
         type: 'report-delivery',
         data: { report },
         priority: 'low',
-        timestamp: new Date(),
+        timestamp: clock.date(),
         requiresResponse: false
       });
     }
@@ -989,8 +989,8 @@ export class AdministrativeAgent extends BaseAgent {
 
   private async createDataBackup(dataSet: any): Promise<any> {
     return {
-      backupId: `backup-${Date.now()}`,
-      timestamp: new Date(),
+      backupId: `backup-${clock.now()}`,
+      timestamp: clock.date(),
       location: 'secure_cloud_storage',
       encryption: 'AES_256',
       verification: 'completed'
@@ -1000,7 +1000,7 @@ export class AdministrativeAgent extends BaseAgent {
   private createAuditTrail(operation: string, dataSet: any): any {
     return {
       operation,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       user: this.id,
       dataAccessed: 'logged',
       changesTracked: 'complete',
@@ -1011,9 +1011,9 @@ export class AdministrativeAgent extends BaseAgent {
   // Placeholder implementations for remaining methods
   private generateAreaScores(complianceArea: string): any {
     return {
-      requirement1: Math.floor(Math.random() * 20) + 80,
-      requirement2: Math.floor(Math.random() * 25) + 75,
-      requirement3: Math.floor(Math.random() * 15) + 85
+      requirement1: Math.floor(random.next() * 20) + 80,
+      requirement2: Math.floor(random.next() * 25) + 75,
+      requirement3: Math.floor(random.next() * 15) + 85
     };
   }
 
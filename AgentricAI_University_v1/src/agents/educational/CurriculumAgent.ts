@@ -1,7 +1,8 @@
 // Curriculum Agent - Manages curriculum design and implementation
 
 import { BaseAgent } from '../base/BaseAgent';
-import { AgentConfig, AgentMessage } from '../base/AgentTypes';
+import { AgentConfig, AgentMessageOf, TypedAgentMessage } from '../base/AgentTypes';
+import { clock, random } from '../base/AgentEnvironment';
 
 export class CurriculumAgent extends BaseAgent {
   private curriculumStandards: Map<string, any> = new Map();
@@ -62,7 +63,7 @@ export class CurriculumAgent extends BaseAgent {
     console.log(`📚 Designing curriculum for ${subject} - Grade ${gradeLevel}`);
     
     const curriculum = {
-      id: `curriculum-${subject}-${gradeLevel}-${Date.now()}`,
+      id: `curriculum-${subject}-${gradeLevel}-${clock.now()}`,
       subject,
       gradeLevel,
       standards,
@@ -73,7 +74,7 @@ export class CurriculumAgent extends BaseAgent {
       progressionMap: this.createProgressionMap(subject, gradeLevel),
       timeline: this.establishCurriculumTimeline(subject, gradeLevel),
       resources: this.identifyRequiredResources(subject, gradeLevel),
-      createdAt: new Date()
+      createdAt: clock.date()
     };
 
     // Store curriculum
@@ -87,7 +88,7 @@ export class CurriculumAgent extends BaseAgent {
       type: 'curriculum-update',
       data: { curriculum },
       priority: 'medium',
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false
     });
 
@@ -113,7 +114,7 @@ export class CurriculumAgent extends BaseAgent {
       communicationAdaptations: this.createCommunicationAdaptations(studentProfile),
       assessmentModifications: this.modifyAssessments(baseCurriculum.assessments, studentProfile),
       supportServices: this.identifyRequiredServices(studentProfile),
-      adaptedAt: new Date()
+      adaptedAt: clock.date()
     };
 
     // Store adaptation
@@ -127,7 +128,7 @@ export class CurriculumAgent extends BaseAgent {
       type: 'individualized-curriculum',
       data: { studentId: studentProfile.studentId, adaptation },
       priority: 'high',
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false
     });
 
@@ -139,7 +140,7 @@ export class CurriculumAgent extends BaseAgent {
     console.log(`📝 Creating assessment for objectives: ${objectives.join(', ')}`);
     
     const assessment = {
-      id: `assessment-${Date.now()}`,
+      id: `assessment-${clock.now()}`,
       objectives,
       assessmentType: this.selectAssessmentType(objectives, studentNeeds),
       format: this.selectAssessmentFormat(studentNeeds),
@@ -149,7 +150,7 @@ export class CurriculumAgent extends BaseAgent {
       materials: this.identifyAssessmentMaterials(objectives, studentNeeds),
       administration: this.createAdministrationGuidelines(studentNeeds),
       scoring: this.createScoringGuidelines(objectives),
-      createdAt: new Date()
+      createdAt: clock.date()
     };
 
     // Store assessment
@@ -172,7 +173,7 @@ export class CurriculumAgent extends BaseAgent {
       timelineEstimate: this.estimateProgressionTimeline(subject, studentLevel),
       checkpoints: this.establishProgressionCheckpoints(subject, studentLevel),
       adaptationPoints: this.identifyAdaptationPoints(subject, studentLevel),
-      createdAt: new Date()
+      createdAt: clock.date()
     };
 
     this.storeMemory(`progression_${subject}_${studentLevel}`, progression, 'long');
@@ -196,7 +197,7 @@ export class CurriculumAgent extends BaseAgent {
       gapAnalysis: this.performGapAnalysis(curriculum, standards),
       recommendations: [],
       complianceLevel: 0,
-      validatedAt: new Date()
+      validatedAt: clock.date()
     };
 
     // Check each standard
@@ -215,13 +216,13 @@ export class CurriculumAgent extends BaseAgent {
     return validation;
   }
 
-  protected async processMessage(message: AgentMessage): Promise<void> {
+  protected async processMessage(message: TypedAgentMessage): Promise<void> {
     switch (message.type) {
       case 'curriculum-design-request':
         await this.handleCurriculumDesignRequest(message);
         break;
       
-      case 'adaptation-request':
+      case 'curriculum-adaptation-request':
         await this.handleAdaptationRequest(message);
         break;
       
@@ -265,7 +266,7 @@ export class CurriculumAgent extends BaseAgent {
     
     for (const standard of standards) {
       const unit = {
-        id: `unit-${subject}-${standard.id}-${Date.now()}`,
+        id: `unit-${subject}-${standard.id}-${clock.now()}`,
         title: this.generateUnitTitle(subject, standard),
         standard: standard,
         duration: this.calculateUnitDuration(standard, gradeLevel),
@@ -548,7 +549,7 @@ export class CurriculumAgent extends BaseAgent {
 
   private async createUnitLessons(subject: string, standard: any, gradeLevel: string): Promise<any[]> {
     // Create 5-8 lessons per unit
-    const lessonCount = Math.floor(Math.random() * 4) + 5;
+    const lessonCount = Math.floor(random.next() * 4) + 5;
     const lessons = [];
     
     for (let i = 1; i <= lessonCount; i++) {
@@ -705,7 +706,7 @@ export class CurriculumAgent extends BaseAgent {
   // Additional implementation methods would continue here...
   // This represents the comprehensive curriculum management system
 
-  private async handleCurriculumDesignRequest(message: AgentMessage): Promise<void> {
+  private async handleCurriculumDesignRequest(message: AgentMessageOf<'curriculum-design-request'>): Promise<void> {
     const { subject, gradeLevel, standards } = message.data;
     const curriculum = await this.designCurriculum(subject, gradeLevel, standards);
     
@@ -716,13 +717,13 @@ export class CurriculumAgent extends BaseAgent {
       type: 'curriculum-designed',
       data: { curriculum },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
   }
 
-  private async handleAdaptationRequest(message: AgentMessage): Promise<void> {
+  private async handleAdaptationRequest(message: AgentMessageOf<'curriculum-adaptation-request'>): Promise<void> {
     const { curriculumId, studentProfile } = message.data;
     const adaptation = await this.adaptCurriculumForStudent(curriculumId, studentProfile);
     
@@ -733,13 +734,13 @@ export class CurriculumAgent extends BaseAgent {
       type: 'curriculum-adapted',
       data: { adaptation },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
   }
 
-  private async handleAssessmentCreationRequest(message: AgentMessage): Promise<void> {
+  private async handleAssessmentCreationRequest(message: AgentMessageOf<'assessment-creation-request'>): Promise<void> {
     const { objectives, studentNeeds } = message.data;
     const assessment = await this.createAssessment(objectives, studentNeeds);
     
@@ -750,13 +751,13 @@ export class CurriculumAgent extends BaseAgent {
       type: 'assessment-created',
       data: { assessment },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
   }
 
-  private async handleStandardsValidationRequest(message: AgentMessage): Promise<void> {
+  private async handleStandardsValidationRequest(message: AgentMessageOf<'standards-validation-request'>): Promise<void> {
     const { curriculum, standards } = message.data;
     const validation = await this.validateStandardsAlignment(curriculum, standards);
     
@@ -767,7 +768,7 @@ export class CurriculumAgent extends BaseAgent {
       type: 'standards-validation-complete',
       data: { validation },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
@@ -826,7 +827,7 @@ export class CurriculumAgent extends BaseAgent {
 
   private checkStandardAlignment(curriculum: any, standard: any): 'fullyAligned' | 'partiallyAligned' | 'notAligned' | 'exceeds' {
     // Simplified alignment check
-    const coverage = Math.random();
+    const coverage = random.next();
     
     if (coverage > 0.9) return 'exceeds';
     if (coverage > 0.75) return 'fullyAligned';
@@ -878,7 +879,7 @@ export class CurriculumAgent extends BaseAgent {
 
   private hasAlignmentGap(unit: any, standard: any): boolean {
     // Check if unit fully addresses standard requirements
-    return Math.random() > 0.8; // 20% chance of gap
+    return random.next() > 0.8; // 20% chance of gap
   }
 
   // Simplified implementations for other helper methods
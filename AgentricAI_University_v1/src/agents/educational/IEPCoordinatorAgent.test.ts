@@ -0,0 +1,34 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { IEPCoordinatorAgent } from './IEPCoordinatorAgent';
+import { createTestEcosystem, TestEcosystem } from '../../test/testEcosystem';
+
+describe('IEPCoordinatorAgent.ensureIEPCompliance', () => {
+  let ecosystem: TestEcosystem;
+  let coordinator: IEPCoordinatorAgent;
+
+  beforeEach(async () => {
+    ecosystem = await createTestEcosystem({
+      agents: [() => new IEPCoordinatorAgent()],
+      fakes: ['parent-liaison', 'teacher-agent-001', 'principal-agent']
+    });
+    coordinator = ecosystem.get<IEPCoordinatorAgent>('iep-coordinator-001');
+  });
+
+  afterEach(async () => {
+    await ecosystem.stop();
+  });
+
+  it('matches the golden compliance report', async () => {
+    const compliance = await coordinator.ensureIEPCompliance('student-001');
+
+    expect(compliance).toMatchSnapshot();
+  });
+
+  it('only builds an action plan when an area is out of compliance', async () => {
+    const compliance = await coordinator.ensureIEPCompliance('student-001');
+    const outOfCompliance = Object.values(compliance.areas).filter((area: any) => !area.compliant);
+
+    expect(compliance.overallCompliance).toBe(outOfCompliance.length === 0);
+    expect(compliance.actionRequired.length > 0).toBe(outOfCompliance.length > 0);
+  });
+});
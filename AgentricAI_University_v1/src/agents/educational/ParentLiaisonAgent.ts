@@ -1,13 +1,16 @@
 // Parent Liaison Agent - Bridge between parents and educational system
 
 import { BaseAgent } from '../base/BaseAgent';
-import { AgentConfig, AgentMessage } from '../base/AgentTypes';
+import { AgentConfig, AgentMessageOf, TypedAgentMessage } from '../base/AgentTypes';
+import type { LettaAgentService } from '../../services/lettaIntegration';
+import { clock, random, scheduler } from '../base/AgentEnvironment';
 
 export class ParentLiaisonAgent extends BaseAgent {
   private parentProfiles: Map<string, any> = new Map();
   private communicationHistory: Map<string, any[]> = new Map();
   private parentGoals: Map<string, any> = new Map();
   private collaborationPlans: Map<string, any> = new Map();
+  private textGenerator: LettaAgentService | null = null;
 
   constructor() {
     const config: AgentConfig = {
@@ -61,11 +64,11 @@ export class ParentLiaisonAgent extends BaseAgent {
     console.log(`📞 Communicating with parent: ${parentId} (${type})`);
     
     const communication = {
-      communicationId: `comm-${Date.now()}`,
+      communicationId: `comm-${clock.now()}`,
       parentId,
       messageType: type,
       content: this.formatParentMessage(message, type),
-      timestamp: new Date(),
+      timestamp: clock.date(),
       priority: this.determinePriority(type),
       deliveryMethod: this.selectDeliveryMethod(parentId, type),
       responseExpected: this.requiresResponse(type),
@@ -88,7 +91,7 @@ export class ParentLiaisonAgent extends BaseAgent {
     console.log(`🤝 Collaborating on goals with parent: ${parentId} for student: ${studentId}`);
     
     const collaboration = {
-      collaborationId: `collab-${Date.now()}`,
+      collaborationId: `collab-${clock.now()}`,
       parentId,
       studentId,
       parentGoals: goals,
@@ -98,7 +101,7 @@ export class ParentLiaisonAgent extends BaseAgent {
       timeline: {},
       responsibilities: {},
       checkInSchedule: {},
-      createdAt: new Date()
+      createdAt: clock.date()
     };
 
     // Align parent and school goals
@@ -123,7 +126,7 @@ export class ParentLiaisonAgent extends BaseAgent {
       type: 'collaborative-goals-update',
       data: { collaboration },
       priority: 'medium',
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false
     });
 
@@ -135,7 +138,7 @@ export class ParentLiaisonAgent extends BaseAgent {
     console.log(`📊 Sharing progress report with parent: ${parentId}`);
     
     const report = {
-      reportId: `report-${Date.now()}`,
+      reportId: `report-${clock.now()}`,
       parentId,
       studentId,
       reportingPeriod: progress.period || 'weekly',
@@ -147,11 +150,11 @@ export class ParentLiaisonAgent extends BaseAgent {
       concerns: this.identifyConcerns(progress),
       recommendations: this.generateParentRecommendations(progress),
       nextSteps: this.outlineNextSteps(progress),
-      generatedAt: new Date()
+      generatedAt: clock.date()
     };
 
     // Format for parent-friendly presentation
-    const parentFriendlyReport = this.createParentFriendlyReport(report);
+    const parentFriendlyReport = await this.composeParentFriendlyReport(report);
     
     // Send to parent
     await this.communicateWithParent(parentId, parentFriendlyReport, 'progress_report');
@@ -160,18 +163,23 @@ export class ParentLiaisonAgent extends BaseAgent {
     return report;
   }
 
+  // Opt in to language-model report writing; the fixed template is the fallback
+  useTextGenerator(service: LettaAgentService | null): void {
+    this.textGenerator = service;
+  }
+
   async provideParentResources(parentId: string, resourceType: string): Promise<any> {
     console.log(`📚 Providing resources to parent: ${parentId} (${resourceType})`);
     
     const resources = {
-      resourceId: `resource-${Date.now()}`,
+      resourceId: `resource-${clock.now()}`,
       parentId,
       resourceType,
       resources: this.selectResources(resourceType),
       customizedFor: await this.getStudentNeeds(parentId),
       deliveryFormat: 'digital_package',
       followUpSupport: this.determineFollowUpSupport(resourceType),
-      providedAt: new Date()
+      providedAt: clock.date()
     };
 
     // Deliver resources
@@ -192,7 +200,7 @@ export class ParentLiaisonAgent extends BaseAgent {
       actionRequired: this.determineParentAction(crisis),
       supportOffered: this.offerCrisisSupport(crisis),
       followUpPlan: this.createCrisisFollowUpPlan(crisis),
-      communicatedAt: new Date()
+      communicatedAt: clock.date()
     };
 
     // Immediate communication
@@ -205,7 +213,7 @@ export class ParentLiaisonAgent extends BaseAgent {
     return crisisCommunication;
   }
 
-  protected async processMessage(message: AgentMessage): Promise<void> {
+  protected async processMessage(message: TypedAgentMessage): Promise<void> {
     switch (message.type) {
       case 'parent-communication':
         await this.handleParentCommunicationRequest(message);
@@ -279,7 +287,7 @@ export class ParentLiaisonAgent extends BaseAgent {
     };
     
     const delay = followUpTypes[type];
-    return delay ? new Date(Date.now() + delay) : null;
+    return delay ? new Date(clock.now() + delay) : null;
   }
 
   private async deliverCommunication(communication: any): Promise<void> {
@@ -322,7 +330,7 @@ export class ParentLiaisonAgent extends BaseAgent {
       
       if (matchingSchoolGoal) {
         aligned.push({
-          id: `aligned-${Date.now()}`,
+          id: `aligned-${clock.now()}`,
           parentGoal,
           schoolGoal: matchingSchoolGoal,
           combinedDescription: this.combineGoalDescriptions(parentGoal, matchingSchoolGoal),
@@ -330,7 +338,7 @@ export class ParentLiaisonAgent extends BaseAgent {
         });
       } else {
         aligned.push({
-          id: `parent-${Date.now()}`,
+          id: `parent-${clock.now()}`,
           parentGoal,
           schoolGoal: null,
           combinedDescription: parentGoal.description,
@@ -481,6 +489,30 @@ export class ParentLiaisonAgent extends BaseAgent {
     ];
   }
 
+  private async composeParentFriendlyReport(report: any): Promise<string> {
+    const fallback = this.createParentFriendlyReport(report);
+    if (!this.textGenerator?.isEnabled()) return fallback;
+
+    try {
+      const composed = await this.textGenerator.generateText(
+        `Write a progress letter to a parent from this report: ${JSON.stringify({
+          celebrations: report.celebrations,
+          concerns: report.concerns,
+          recommendations: report.recommendations,
+          nextSteps: report.nextSteps
+        })}`,
+        {
+          system: 'You write strengths-based, jargon-free progress letters to parents of neurodivergent children.',
+          maxTokens: 600
+        }
+      );
+      return composed.trim() || fallback;
+    } catch (error) {
+      console.warn('Text generation failed, using report template:', error);
+      return fallback;
+    }
+  }
+
   private createParentFriendlyReport(report: any): string {
     return `
 🌟 Your Child's Amazing Progress Report 🌟
@@ -601,7 +633,7 @@ AgentricAI University Team
     // Schedule follow-up based on communication type and urgency
     const followUpDelay = communication.urgency === 'immediate' ? 2 * 60 * 60 * 1000 : 24 * 60 * 60 * 1000;
     
-    setTimeout(async () => {
+    scheduler.setTimeout(async () => {
       await this.communicateWithParent(
         communication.parentId,
         'Following up on our previous communication. How are things going?',
@@ -664,15 +696,15 @@ AgentricAI University Team
     return goals.map(goal => ({
       goalId: goal.id,
       milestone: `25% progress toward ${goal.combinedDescription}`,
-      targetDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
+      targetDate: new Date(clock.now() + 30 * 24 * 60 * 60 * 1000)
     }));
   }
 
   private scheduleCheckPoints(goals: any[]): any[] {
     return [
-      { date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), type: 'weekly_check' },
-      { date: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), type: 'monthly_review' },
-      { date: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000), type: 'quarterly_assessment' }
+      { date: new Date(clock.now() + 7 * 24 * 60 * 60 * 1000), type: 'weekly_check' },
+      { date: new Date(clock.now() + 30 * 24 * 60 * 60 * 1000), type: 'monthly_review' },
+      { date: new Date(clock.now() + 90 * 24 * 60 * 60 * 1000), type: 'quarterly_assessment' }
     ];
   }
 
@@ -714,23 +746,23 @@ AgentricAI University Team
 
   private calculateGoalProgress(goal: any, progress: any): number {
     // Calculate progress toward specific goal
-    return Math.floor(Math.random() * 40) + 30; // 30-70% progress
+    return Math.floor(random.next() * 40) + 30; // 30-70% progress
   }
 
   private identifyNextMilestone(goal: any): string {
-    return `Next milestone: 50% completion by ${new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toLocaleDateString()}`;
+    return `Next milestone: 50% completion by ${new Date(clock.now() + 14 * 24 * 60 * 60 * 1000).toLocaleDateString()}`;
   }
 
   private isGoalOnTrack(goal: any, progress: any): boolean {
-    return Math.random() > 0.3; // 70% of goals on track
+    return random.next() > 0.3; // 70% of goals on track
   }
 
-  private async handleParentCommunicationRequest(message: AgentMessage): Promise<void> {
+  private async handleParentCommunicationRequest(message: AgentMessageOf<'parent-communication'>): Promise<void> {
     const { communication } = message.data;
     await this.deliverCommunication(communication);
   }
 
-  private async handleAchievementNotification(message: AgentMessage): Promise<void> {
+  private async handleAchievementNotification(message: AgentMessageOf<'achievement-notification'>): Promise<void> {
     const { studentId, celebration } = message.data;
     const parentId = this.findParentByStudent(studentId);
     
@@ -741,7 +773,7 @@ AgentricAI University Team
     );
   }
 
-  private async handleCrisisNotification(message: AgentMessage): Promise<void> {
+  private async handleCrisisNotification(message: AgentMessageOf<'crisis-notification'>): Promise<void> {
     const { crisis } = message.data;
     const affectedParents = this.findAffectedParents(crisis);
     
@@ -750,11 +782,12 @@ AgentricAI University Team
     }
   }
 
-  private async handleParentInquiry(message: AgentMessage): Promise<void> {
+  private async handleParentInquiry(message: AgentMessageOf<'parent-inquiry'>): Promise<void> {
     const { parentId, inquiry } = message.data;
     
+    // Without a parentId the inquiry came straight from the parent
     const response = this.generateInquiryResponse(inquiry);
-    await this.communicateWithParent(parentId, response, 'inquiry_response');
+    await this.communicateWithParent(parentId || message.fromAgentId, response, 'inquiry_response');
   }
 
   private findParentByStudent(studentId: string): string {
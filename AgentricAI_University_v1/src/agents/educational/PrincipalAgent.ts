@@ -1,7 +1,8 @@
 // Principal Agent - Executive leadership and institutional oversight
 
 import { BaseAgent } from '../base/BaseAgent';
-import { AgentConfig, AgentMessage } from '../base/AgentTypes';
+import { AgentConfig, AgentMessageOf, TypedAgentMessage } from '../base/AgentTypes';
+import { clock } from '../base/AgentEnvironment';
 
 export class PrincipalAgent extends BaseAgent {
   private institutionalPolicies: Map<string, any> = new Map();
@@ -95,7 +96,7 @@ export class PrincipalAgent extends BaseAgent {
       type: 'institutional-goals-update',
       data: { goals: goalFramework, timeframe },
       priority: 'high',
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false
     });
 
@@ -114,7 +115,7 @@ export class PrincipalAgent extends BaseAgent {
         priorityLevel: resources.priority || 'medium'
       },
       approvedBy: this.id,
-      approvedAt: new Date(),
+      approvedAt: clock.date(),
       budgetImpact: this.calculateBudgetImpact(resources),
       expectedOutcomes: this.predictResourceOutcomes(department, resources)
     };
@@ -127,16 +128,16 @@ export class PrincipalAgent extends BaseAgent {
       fromAgentId: this.id,
       toAgentId: 'resource-allocator-001',
       type: 'resource-allocation-request',
-      data: { allocation },
+      data: { request: allocation },
       priority: 'high',
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: true
     });
 
     return allocation;
   }
 
-  protected async processMessage(message: AgentMessage): Promise<void> {
+  protected async processMessage(message: TypedAgentMessage): Promise<void> {
     switch (message.type) {
       case 'performance-report':
         await this.handlePerformanceReport(message);
@@ -187,21 +188,21 @@ export class PrincipalAgent extends BaseAgent {
     ];
   }
 
-  private async handlePerformanceReport(message: AgentMessage): Promise<void> {
+  private async handlePerformanceReport(message: AgentMessageOf<'performance-report'>): Promise<void> {
     const { department, metrics } = message.data;
     this.performanceMetrics.set(department, {
       ...metrics,
-      reportedAt: new Date(),
+      reportedAt: clock.date(),
       reportedBy: message.fromAgentId
     });
   }
 
-  private async handleCrisisAlert(message: AgentMessage): Promise<void> {
+  private async handleCrisisAlert(message: AgentMessageOf<'crisis-alert'>): Promise<void> {
     const { crisis } = message.data;
     await this.handleInstitutionalCrisis(crisis);
   }
 
-  private async handleBudgetRequest(message: AgentMessage): Promise<void> {
+  private async handleBudgetRequest(message: AgentMessageOf<'budget-request'>): Promise<void> {
     const { department, request } = message.data;
     // Evaluate and respond to budget requests
   }
@@ -210,7 +211,7 @@ export class PrincipalAgent extends BaseAgent {
     console.log(`🚨 Handling institutional crisis: ${crisis.type}`);
     
     const response = {
-      crisisId: `crisis-${Date.now()}`,
+      crisisId: `crisis-${clock.now()}`,
       type: crisis.type,
       severity: crisis.severity,
       response: this.generateCrisisResponse(crisis),
@@ -241,7 +242,7 @@ export class PrincipalAgent extends BaseAgent {
         type: 'crisis-notification',
         data: { crisis, urgency: 'immediate' },
         priority: 'critical',
-        timestamp: new Date(),
+        timestamp: clock.date(),
         requiresResponse: false
       });
     }
@@ -272,7 +273,7 @@ export class PrincipalAgent extends BaseAgent {
     const approval = {
       curriculumId: curriculum.id,
       reviewedBy: this.id,
-      reviewedAt: new Date(),
+      reviewedAt: clock.date(),
       approved: this.evaluateCurriculumAlignment(curriculum),
       conditions: this.generateApprovalConditions(curriculum),
       implementationPlan: this.createImplementationPlan(curriculum)
@@ -308,7 +309,7 @@ export class PrincipalAgent extends BaseAgent {
     console.log(`📊 Monitoring institutional performance`);
     
     const performance = {
-      timestamp: new Date(),
+      timestamp: clock.date(),
       academicMetrics: await this.gatherAcademicMetrics(),
       operationalMetrics: await this.gatherOperationalMetrics(),
       financialMetrics: await this.gatherFinancialMetrics(),
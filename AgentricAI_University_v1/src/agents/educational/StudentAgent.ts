@@ -1,7 +1,8 @@
 // Student Agent - Digital representation of individual students
 
 import { BaseAgent } from '../base/BaseAgent';
-import { AgentConfig, AgentMessage } from '../base/AgentTypes';
+import { AgentConfig, AgentMessageOf, TypedAgentMessage } from '../base/AgentTypes';
+import { clock, random } from '../base/AgentEnvironment';
 
 export class StudentAgent extends BaseAgent {
   private learningProfile: any = {};
@@ -68,7 +69,7 @@ export class StudentAgent extends BaseAgent {
     const progressUpdate = {
       activityId: activity.id,
       subject: activity.subject,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       performance: {
         accuracy: performance.accuracy || 0,
         completionTime: performance.completionTime || 0,
@@ -97,7 +98,7 @@ export class StudentAgent extends BaseAgent {
       type: 'student-progress-update',
       data: { studentId: this.id, progressUpdate },
       priority: 'medium',
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false
     });
 
@@ -114,9 +115,9 @@ export class StudentAgent extends BaseAgent {
     const goalSet = {
       source,
       goals: goals.map(goal => ({
-        id: `goal-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        id: `goal-${clock.now()}-${random.next().toString(36).substr(2, 9)}`,
         description: goal.description,
-        targetDate: goal.targetDate || new Date(Date.now() + 90 * 24 * 60 * 60 * 1000), // 90 days
+        targetDate: goal.targetDate || new Date(clock.now() + 90 * 24 * 60 * 60 * 1000), // 90 days
         priority: goal.priority || 'medium',
         measurable: goal.measurable || true,
         progress: 0,
@@ -124,8 +125,8 @@ export class StudentAgent extends BaseAgent {
         accommodations: goal.accommodations || [],
         supportNeeded: goal.supportNeeded || []
       })),
-      setAt: new Date(),
-      reviewDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000) // 30 days
+      setAt: clock.date(),
+      reviewDate: new Date(clock.now() + 30 * 24 * 60 * 60 * 1000) // 30 days
     };
 
     this.parentalGoals.set(source, goalSet);
@@ -139,7 +140,7 @@ export class StudentAgent extends BaseAgent {
       type: 'student-goals-update',
       data: { studentId: this.id, goalSet },
       priority: 'medium',
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false
     });
 
@@ -152,7 +153,7 @@ export class StudentAgent extends BaseAgent {
     
     const behaviorRecord = {
       type: behavior.type,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       context: {
         activity: context.activity,
         timeOfDay: context.timeOfDay,
@@ -184,7 +185,7 @@ export class StudentAgent extends BaseAgent {
         type: 'behavior-concern',
         data: { studentId: this.id, behaviorRecord, patternAnalysis },
         priority: 'high',
-        timestamp: new Date(),
+        timestamp: clock.date(),
         requiresResponse: true
       });
     }
@@ -197,8 +198,8 @@ export class StudentAgent extends BaseAgent {
     console.log(`🤝 Recording social interaction`);
     
     const socialRecord = {
-      interactionId: `social-${Date.now()}`,
-      timestamp: new Date(),
+      interactionId: `social-${clock.now()}`,
+      timestamp: clock.date(),
       participants: interaction.participants || [],
       type: interaction.type || 'peer_interaction',
       quality: interaction.quality || 'positive',
@@ -224,12 +225,12 @@ export class StudentAgent extends BaseAgent {
     console.log(`🆘 Requesting support: ${supportType}`);
     
     const supportRequest = {
-      requestId: `support-${Date.now()}`,
+      requestId: `support-${clock.now()}`,
       studentId: this.id,
       supportType,
       context,
       urgency: this.determineSupportUrgency(supportType, context),
-      timestamp: new Date(),
+      timestamp: clock.date(),
       status: 'pending'
     };
 
@@ -243,7 +244,7 @@ export class StudentAgent extends BaseAgent {
       type: 'support-request',
       data: { supportRequest },
       priority: supportRequest.urgency,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: true
     });
 
@@ -255,10 +256,10 @@ export class StudentAgent extends BaseAgent {
     console.log(`🎉 Celebrating achievement: ${achievement.type}`);
     
     const celebration = {
-      achievementId: `achievement-${Date.now()}`,
+      achievementId: `achievement-${clock.now()}`,
       type: achievement.type,
       description: achievement.description,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       significance: this.assessAchievementSignificance(achievement),
       celebrationMethod: this.selectCelebrationMethod(achievement),
       shareWithParents: achievement.shareWithParents !== false,
@@ -279,7 +280,7 @@ export class StudentAgent extends BaseAgent {
         type: 'achievement-notification',
         data: { studentId: this.id, celebration },
         priority: 'low',
-        timestamp: new Date(),
+        timestamp: clock.date(),
         requiresResponse: false
       });
     }
@@ -288,7 +289,7 @@ export class StudentAgent extends BaseAgent {
     return celebration;
   }
 
-  protected async processMessage(message: AgentMessage): Promise<void> {
+  protected async processMessage(message: TypedAgentMessage): Promise<void> {
     switch (message.type) {
       case 'learning-activity':
         await this.handleLearningActivity(message);
@@ -320,7 +321,7 @@ export class StudentAgent extends BaseAgent {
       "You're doing such an amazing job, and I'm so proud of you! 🏆💙"
     ];
     
-    return responses[Math.floor(Math.random() * responses.length)];
+    return responses[Math.floor(random.next() * responses.length)];
   }
 
   // Private helper methods
@@ -340,8 +341,8 @@ export class StudentAgent extends BaseAgent {
       interests: studentData.interests || [],
       accommodations: studentData.accommodations || [],
       goals: studentData.goals || [],
-      createdAt: new Date(),
-      lastUpdated: new Date()
+      createdAt: clock.date(),
+      lastUpdated: clock.date()
     };
 
     this.storeMemory('learning_profile', this.learningProfile, 'long');
@@ -387,7 +388,7 @@ export class StudentAgent extends BaseAgent {
       }
     }
 
-    this.learningProfile.lastUpdated = new Date();
+    this.learningProfile.lastUpdated = clock.date();
     this.storeMemory('learning_profile', this.learningProfile, 'long');
   }
 
@@ -580,22 +581,22 @@ export class StudentAgent extends BaseAgent {
     return 'low';
   }
 
-  private async handleLearningActivity(message: AgentMessage): Promise<void> {
+  private async handleLearningActivity(message: AgentMessageOf<'learning-activity'>): Promise<void> {
     const { activity, performance } = message.data;
     await this.updateLearningProgress(activity, performance);
   }
 
-  private async handleGoalCheck(message: AgentMessage): Promise<void> {
+  private async handleGoalCheck(message: AgentMessageOf<'goal-check'>): Promise<void> {
     const { goalId } = message.data;
     // Check specific goal progress and respond
   }
 
-  private async handleBehaviorIntervention(message: AgentMessage): Promise<void> {
+  private async handleBehaviorIntervention(message: AgentMessageOf<'behavior-intervention'>): Promise<void> {
     const { intervention } = message.data;
     await this.trackBehaviorPattern(intervention.behavior, intervention.context);
   }
 
-  private async handleSocialOpportunity(message: AgentMessage): Promise<void> {
+  private async handleSocialOpportunity(message: AgentMessageOf<'social-opportunity'>): Promise<void> {
     const { opportunity } = message.data;
     await this.recordSocialInteraction(opportunity);
   }
@@ -1,7 +1,8 @@
 // Support Staff Agent - Specialized support services (OT, PT, Speech, etc.)
 
 import { BaseAgent } from '../base/BaseAgent';
-import { AgentConfig, AgentMessage } from '../base/AgentTypes';
+import { AgentConfig, AgentMessageOf, TypedAgentMessage } from '../base/AgentTypes';
+import { clock, random } from '../base/AgentEnvironment';
 
 export class SupportStaffAgent extends BaseAgent {
   private serviceType: string;
@@ -12,7 +13,7 @@ export class SupportStaffAgent extends BaseAgent {
 
   constructor(serviceType: 'speech' | 'occupational' | 'physical' | 'behavioral' | 'social_work') {
     const config: AgentConfig = {
-      id: `${serviceType}-therapist-${Date.now()}`,
+      id: `${serviceType}-therapist-${clock.now()}`,
       name: `Digital ${serviceType.charAt(0).toUpperCase() + serviceType.slice(1)} Therapist`,
       type: 'educational-support',
       version: '1.0.0',
@@ -67,11 +68,11 @@ export class SupportStaffAgent extends BaseAgent {
     console.log(`🔍 Conducting ${this.serviceType} evaluation for student: ${studentId}`);
     
     const evaluation = {
-      evaluationId: `eval-${this.serviceType}-${Date.now()}`,
+      evaluationId: `eval-${this.serviceType}-${clock.now()}`,
       studentId,
       serviceType: this.serviceType,
       referralReason,
-      evaluationDate: new Date(),
+      evaluationDate: clock.date(),
       assessmentTools: this.selectAssessmentTools(referralReason),
       results: await this.conductAssessments(studentId, referralReason),
       recommendations: [],
@@ -95,7 +96,7 @@ export class SupportStaffAgent extends BaseAgent {
       type: 'evaluation-complete',
       data: { evaluation },
       priority: 'high',
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false
     });
 
@@ -107,7 +108,7 @@ export class SupportStaffAgent extends BaseAgent {
     console.log(`📋 Creating intervention plan for student: ${studentId}`);
     
     const interventionPlan = {
-      planId: `plan-${this.serviceType}-${Date.now()}`,
+      planId: `plan-${this.serviceType}-${clock.now()}`,
       studentId,
       serviceType: this.serviceType,
       basedOnEvaluation: evaluationResults.evaluationId,
@@ -119,7 +120,7 @@ export class SupportStaffAgent extends BaseAgent {
       familyInvolvement: this.planFamilyInvolvement(evaluationResults),
       progressMonitoring: this.createProgressMonitoringPlan(evaluationResults),
       reviewSchedule: this.establishReviewSchedule(),
-      createdAt: new Date()
+      createdAt: clock.date()
     };
 
     // Store intervention plan
@@ -136,11 +137,11 @@ export class SupportStaffAgent extends BaseAgent {
     console.log(`🎯 Providing ${this.serviceType} service to student: ${studentId}`);
     
     const session = {
-      sessionId: `session-${Date.now()}`,
+      sessionId: `session-${clock.now()}`,
       studentId,
       serviceType: this.serviceType,
       sessionType,
-      date: new Date(),
+      date: clock.date(),
       duration: this.calculateSessionDuration(sessionType),
       objectives: this.getSessionObjectives(studentId, sessionType),
       activities: await this.planSessionActivities(studentId, sessionType),
@@ -167,11 +168,11 @@ export class SupportStaffAgent extends BaseAgent {
     console.log(`🤝 Consulting with team about student: ${studentId} (${consultationType})`);
     
     const consultation = {
-      consultationId: `consult-${Date.now()}`,
+      consultationId: `consult-${clock.now()}`,
       studentId,
       consultationType,
       serviceType: this.serviceType,
-      date: new Date(),
+      date: clock.date(),
       participants: this.identifyTeamMembers(studentId),
       recommendations: this.generateConsultationRecommendations(studentId, consultationType),
       actionItems: this.createActionItems(studentId, consultationType),
@@ -188,7 +189,7 @@ export class SupportStaffAgent extends BaseAgent {
         type: 'consultation-summary',
         data: { consultation },
         priority: 'medium',
-        timestamp: new Date(),
+        timestamp: clock.date(),
         requiresResponse: false
       });
     }
@@ -201,11 +202,11 @@ export class SupportStaffAgent extends BaseAgent {
     console.log(`👨‍👩‍👧‍👦 Training family for student: ${studentId} (${trainingType})`);
     
     const training = {
-      trainingId: `training-${Date.now()}`,
+      trainingId: `training-${clock.now()}`,
       studentId,
       trainingType,
       serviceType: this.serviceType,
-      date: new Date(),
+      date: clock.date(),
       participants: this.identifyFamilyMembers(studentId),
       objectives: this.createTrainingObjectives(trainingType),
       content: this.createTrainingContent(trainingType),
@@ -233,7 +234,7 @@ export class SupportStaffAgent extends BaseAgent {
       studentId,
       serviceType: this.serviceType,
       reportingPeriod: 'monthly',
-      date: new Date(),
+      date: clock.date(),
       goalProgress: this.assessGoalProgress(studentId),
       objectiveProgress: this.assessObjectiveProgress(studentId),
       serviceDelivery: this.reviewServiceDelivery(studentId),
@@ -244,7 +245,7 @@ export class SupportStaffAgent extends BaseAgent {
     };
 
     // Store progress data
-    this.progressData.set(`${studentId}_${Date.now()}`, progressReport);
+    this.progressData.set(`${studentId}_${clock.now()}`, progressReport);
     
     // Share with team
     await this.shareProgressWithTeam(studentId, progressReport);
@@ -253,7 +254,7 @@ export class SupportStaffAgent extends BaseAgent {
     return progressReport;
   }
 
-  protected async processMessage(message: AgentMessage): Promise<void> {
+  protected async processMessage(message: TypedAgentMessage): Promise<void> {
     switch (message.type) {
       case 'referral-received':
         await this.handleReferral(message);
@@ -306,7 +307,7 @@ export class SupportStaffAgent extends BaseAgent {
     };
     
     const serviceResponses = responses[this.serviceType] || responses.behavioral;
-    return serviceResponses[Math.floor(Math.random() * serviceResponses.length)];
+    return serviceResponses[Math.floor(random.next() * serviceResponses.length)];
   }
 
   // Private helper methods
@@ -503,8 +504,8 @@ export class SupportStaffAgent extends BaseAgent {
       setting: this.determineServiceSetting(evaluationResults),
       grouping: this.determineServiceGrouping(evaluationResults),
       provider: this.id,
-      startDate: new Date(),
-      reviewDate: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000) // 90 days
+      startDate: clock.date(),
+      reviewDate: new Date(clock.now() + 90 * 24 * 60 * 60 * 1000) // 90 days
     };
   }
 
@@ -551,7 +552,7 @@ export class SupportStaffAgent extends BaseAgent {
     caseload.push({
       studentId,
       planId: interventionPlan.planId,
-      startDate: new Date(),
+      startDate: clock.date(),
       priorityLevel: interventionPlan.priorityLevel || 'medium',
       serviceFrequency: interventionPlan.serviceDelivery.frequency
     });
@@ -609,9 +610,9 @@ export class SupportStaffAgent extends BaseAgent {
   private async deliverService(session: any): Promise<any> {
     // Simulate service delivery and collect outcomes
     const outcomes = {
-      objectivesMet: Math.floor(Math.random() * session.objectives.length) + 1,
-      engagementLevel: Math.floor(Math.random() * 30) + 70,
-      skillDemonstration: Math.random() > 0.3 ? 'successful' : 'emerging',
+      objectivesMet: Math.floor(random.next() * session.objectives.length) + 1,
+      engagementLevel: Math.floor(random.next() * 30) + 70,
+      skillDemonstration: random.next() > 0.3 ? 'successful' : 'emerging',
       behavioralObservations: this.generateBehavioralObservations(),
       dataCollected: this.generateSessionData(),
       studentResponse: this.generateStudentResponse(),
@@ -827,7 +828,7 @@ export class SupportStaffAgent extends BaseAgent {
 
   private async scheduleFollowUp(training: any): Promise<void> {
     // Schedule follow-up support
-    const followUpDate = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 1 week
+    const followUpDate = new Date(clock.now() + 7 * 24 * 60 * 60 * 1000); // 1 week
     
     // In real implementation, this would schedule actual follow-up
     console.log(`📅 Follow-up scheduled for ${followUpDate.toLocaleDateString()}`);
@@ -839,9 +840,9 @@ export class SupportStaffAgent extends BaseAgent {
     
     return plan.goals.map(goal => ({
       goal: goal,
-      progress: Math.floor(Math.random() * 60) + 40, // 40-100% progress
-      onTrack: Math.random() > 0.2, // 80% on track
-      adjustmentsNeeded: Math.random() > 0.7 // 30% need adjustments
+      progress: Math.floor(random.next() * 60) + 40, // 40-100% progress
+      onTrack: random.next() > 0.2, // 80% on track
+      adjustmentsNeeded: random.next() > 0.7 // 30% need adjustments
     }));
   }
 
@@ -915,7 +916,7 @@ export class SupportStaffAgent extends BaseAgent {
         type: 'progress-report',
         data: { studentId, progressReport },
         priority: 'medium',
-        timestamp: new Date(),
+        timestamp: clock.date(),
         requiresResponse: false
       });
     }
@@ -924,8 +925,8 @@ export class SupportStaffAgent extends BaseAgent {
   // Simplified implementations for remaining helper methods
   private generateStandardizedScores(): any[] {
     return [
-      { test: 'primary_assessment', percentile: Math.floor(Math.random() * 50) + 25 },
-      { test: 'secondary_assessment', percentile: Math.floor(Math.random() * 60) + 20 }
+      { test: 'primary_assessment', percentile: Math.floor(random.next() * 50) + 25 },
+      { test: 'secondary_assessment', percentile: Math.floor(random.next() * 60) + 20 }
     ];
   }
 
@@ -939,16 +940,16 @@ export class SupportStaffAgent extends BaseAgent {
 
   private generateFunctionalAssessment(): any {
     return {
-      impactLevel: ['minimal', 'moderate', 'significant'][Math.floor(Math.random() * 3)],
+      impactLevel: ['minimal', 'moderate', 'significant'][Math.floor(random.next() * 3)],
       functionalAreas: ['academic', 'social', 'daily_living'],
-      safetyRisk: Math.random() > 0.9
+      safetyRisk: random.next() > 0.9
     };
   }
 
   private assessEnvironmentalFactors(): any {
     return {
       supportive: true,
-      needsModification: Math.random() > 0.6,
+      needsModification: random.next() > 0.6,
       barriers: ['sensory_distractions', 'communication_challenges'],
       facilitators: ['visual_supports', 'structured_routine']
     };
@@ -958,7 +959,7 @@ export class SupportStaffAgent extends BaseAgent {
     return {
       strengths: ['visual_learner', 'motivated', 'follows_routines'],
       needs: ['communication_support', 'sensory_regulation', 'social_skills'],
-      familyTrainingNeeded: Math.random() > 0.4
+      familyTrainingNeeded: random.next() > 0.4
     };
   }
 
@@ -974,17 +975,17 @@ export class SupportStaffAgent extends BaseAgent {
   // Additional helper method implementations would continue...
   // This represents a comprehensive support staff agent system
 
-  private async handleReferral(message: AgentMessage): Promise<void> {
+  private async handleReferral(message: AgentMessageOf<'referral-received'>): Promise<void> {
     const { studentId, referralReason } = message.data;
     await this.conductEvaluation(studentId, referralReason);
   }
 
-  private async handleConsultationRequest(message: AgentMessage): Promise<void> {
+  private async handleConsultationRequest(message: AgentMessageOf<'consultation-request'>): Promise<void> {
     const { studentId, consultationType } = message.data;
     await this.consultWithTeam(studentId, consultationType);
   }
 
-  private async handleProgressReviewRequest(message: AgentMessage): Promise<void> {
+  private async handleProgressReviewRequest(message: AgentMessageOf<'progress-review-request'>): Promise<void> {
     const { studentId } = message.data;
     const progress = await this.monitorProgress(studentId);
     
@@ -995,13 +996,13 @@ export class SupportStaffAgent extends BaseAgent {
       type: 'progress-review-complete',
       data: { progress },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
   }
 
-  private async handleFamilyTrainingRequest(message: AgentMessage): Promise<void> {
+  private async handleFamilyTrainingRequest(message: AgentMessageOf<'family-training-request'>): Promise<void> {
     const { studentId, trainingType } = message.data;
     await this.trainFamily(studentId, trainingType);
   }
@@ -1037,21 +1038,21 @@ export class SupportStaffAgent extends BaseAgent {
 
   private determineServiceFrequency(evaluationResults: any): string {
     const frequencies = ['1x_weekly', '2x_weekly', '3x_weekly'];
-    return frequencies[Math.floor(Math.random() * frequencies.length)];
+    return frequencies[Math.floor(random.next() * frequencies.length)];
   }
 
   private determineSessionDuration(evaluationResults: any): number {
-    return Math.floor(Math.random() * 30) + 30; // 30-60 minutes
+    return Math.floor(random.next() * 30) + 30; // 30-60 minutes
   }
 
   private determineServiceSetting(evaluationResults: any): string {
     const settings = ['classroom', 'therapy_room', 'natural_environment'];
-    return settings[Math.floor(Math.random() * settings.length)];
+    return settings[Math.floor(random.next() * settings.length)];
   }
 
   private determineServiceGrouping(evaluationResults: any): string {
     const groupings = ['individual', 'small_group', 'classroom_based'];
-    return groupings[Math.floor(Math.random() * groupings.length)];
+    return groupings[Math.floor(random.next() * groupings.length)];
   }
 
   private createCommunicationSchedule(): any {
@@ -1157,11 +1158,11 @@ export class SupportStaffAgent extends BaseAgent {
 
   private selectActivityType(objective: string): string {
     const types = ['structured_practice', 'naturalistic_intervention', 'game_based_learning'];
-    return types[Math.floor(Math.random() * types.length)];
+    return types[Math.floor(random.next() * types.length)];
   }
 
   private calculateActivityDuration(objective: string): number {
-    return Math.floor(Math.random() * 10) + 10; // 10-20 minutes
+    return Math.floor(random.next() * 10) + 10; // 10-20 minutes
   }
 
   private identifyActivityMaterials(objective: string): string[] {
@@ -1193,10 +1194,10 @@ export class SupportStaffAgent extends BaseAgent {
 
   private generateSessionData(): any {
     return {
-      trialsCompleted: Math.floor(Math.random() * 10) + 10,
-      accuracyRate: Math.floor(Math.random() * 40) + 60,
-      independenceLevel: Math.floor(Math.random() * 50) + 50,
-      engagementScore: Math.floor(Math.random() * 30) + 70
+      trialsCompleted: Math.floor(random.next() * 10) + 10,
+      accuracyRate: Math.floor(random.next() * 40) + 60,
+      independenceLevel: Math.floor(random.next() * 50) + 50,
+      engagementScore: Math.floor(random.next() * 30) + 70
     };
   }
 
@@ -1212,7 +1213,7 @@ export class SupportStaffAgent extends BaseAgent {
 
   private identifySessionChallenges(): string[] {
     const challenges = ['attention_fluctuation', 'sensory_sensitivity', 'task_difficulty'];
-    return challenges.filter(() => Math.random() > 0.7); // 30% chance of each challenge
+    return challenges.filter(() => random.next() > 0.7); // 30% chance of each challenge
   }
 
   private identifySuccessfulStrategies(): string[] {
@@ -1227,7 +1228,7 @@ export class SupportStaffAgent extends BaseAgent {
   private initializeProgressTracking(studentId: string): any {
     return {
       studentId,
-      startDate: new Date(),
+      startDate: clock.date(),
       sessionsCompleted: 0,
       lastSessionDate: null,
       cumulativeEngagement: 0,
@@ -1265,16 +1266,16 @@ export class SupportStaffAgent extends BaseAgent {
 
   private assessCurrentLevel(objective: any): string {
     const levels = ['emerging', 'developing', 'proficient'];
-    return levels[Math.floor(Math.random() * levels.length)];
+    return levels[Math.floor(random.next() * levels.length)];
   }
 
   private calculateProgressRate(objective: any): string {
     const rates = ['slow', 'typical', 'accelerated'];
-    return rates[Math.floor(Math.random() * rates.length)];
+    return rates[Math.floor(random.next() * rates.length)];
   }
 
   private assessMastery(objective: any): boolean {
-    return Math.random() > 0.6; // 40% mastery rate
+    return random.next() > 0.6; // 40% mastery rate
   }
 
   private createTrainingModules(trainingType: string): any[] {
@@ -1,7 +1,9 @@
 // Teacher Agent - Digital twin of classroom teachers
 
 import { BaseAgent } from '../base/BaseAgent';
-import { AgentConfig, AgentMessage } from '../base/AgentTypes';
+import { AgentConfig, AgentMessageOf, TypedAgentMessage } from '../base/AgentTypes';
+import type { LettaAgentService } from '../../services/lettaIntegration';
+import { clock, random } from '../base/AgentEnvironment';
 
 export class TeacherAgent extends BaseAgent {
   private studentProfiles: Map<string, any> = new Map();
@@ -9,10 +11,11 @@ export class TeacherAgent extends BaseAgent {
   private classroomManagement: Map<string, any> = new Map();
   private assessmentData: Map<string, any> = new Map();
   private parentCommunications: Map<string, any[]> = new Map();
+  private textGenerator: LettaAgentService | null = null;
 
   constructor(teacherSpecialization: string = 'general') {
     const config: AgentConfig = {
-      id: `teacher-agent-${teacherSpecialization}-${Date.now()}`,
+      id: `teacher-agent-${teacherSpecialization}-${clock.now()}`,
       name: `Digital Teacher - ${teacherSpecialization}`,
       type: 'educational-instructor',
       version: '1.0.0',
@@ -67,7 +70,7 @@ export class TeacherAgent extends BaseAgent {
     console.log(`📝 Creating lesson plan for ${subject}`);
     
     const lessonPlan = {
-      id: `lesson-${Date.now()}`,
+      id: `lesson-${clock.now()}`,
       subject,
       objectives,
       duration: this.calculateOptimalDuration(studentNeeds),
@@ -77,7 +80,7 @@ export class TeacherAgent extends BaseAgent {
       materials: this.identifyRequiredMaterials(subject, studentNeeds),
       differentiation: this.createDifferentiationStrategies(studentNeeds),
       neurodiverseAdaptations: this.createNeurodiverseAdaptations(studentNeeds),
-      createdAt: new Date()
+      createdAt: clock.date()
     };
 
     // Store lesson plan
@@ -98,7 +101,7 @@ export class TeacherAgent extends BaseAgent {
         }
       },
       priority: 'medium',
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: true
     });
 
@@ -113,7 +116,7 @@ export class TeacherAgent extends BaseAgent {
     const assessment = {
       studentId,
       assessmentType,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       academicPerformance: await this.evaluateAcademicPerformance(studentId),
       behavioralObservations: await this.observeBehavior(studentId),
       socialEmotionalDevelopment: await this.assessSocialEmotional(studentId),
@@ -138,7 +141,7 @@ export class TeacherAgent extends BaseAgent {
       type: 'student-assessment-data',
       data: { studentId, assessment },
       priority: 'medium',
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false
     });
 
@@ -178,7 +181,7 @@ export class TeacherAgent extends BaseAgent {
         parameters: adaptation.adaptations
       },
       priority: 'high',
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: true
     });
 
@@ -191,7 +194,7 @@ export class TeacherAgent extends BaseAgent {
     
     const management = {
       situationType: situation.type,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       studentsInvolved: situation.students || [],
       intervention: this.selectIntervention(situation),
       preventiveMeasures: this.generatePreventiveMeasures(situation),
@@ -207,7 +210,7 @@ export class TeacherAgent extends BaseAgent {
     }
 
     // Log classroom management event
-    this.classroomManagement.set(`event_${Date.now()}`, management);
+    this.classroomManagement.set(`event_${clock.now()}`, management);
 
     this.metrics.tasksCompleted += 1;
     return management;
@@ -219,8 +222,8 @@ export class TeacherAgent extends BaseAgent {
     const communication = {
       studentId,
       messageType: type,
-      content: message,
-      timestamp: new Date(),
+      content: await this.composeParentMessage(studentId, message, type),
+      timestamp: clock.date(),
       teacherAgent: this.id,
       parentResponse: null,
       followUpRequired: this.determineFollowUpNeeded(type, message),
@@ -240,7 +243,7 @@ export class TeacherAgent extends BaseAgent {
       type: 'parent-communication',
       data: { communication },
       priority: communication.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: communication.followUpRequired
     });
 
@@ -248,13 +251,18 @@ export class TeacherAgent extends BaseAgent {
     return communication;
   }
 
+  // Opt in to language-model wording for parent messages; the teacher's text is the fallback
+  useTextGenerator(service: LettaAgentService | null): void {
+    this.textGenerator = service;
+  }
+
   async trackStudentProgress(studentId: string, activity: any): Promise<any> {
     console.log(`📈 Tracking progress for student: ${studentId}`);
     
     const progress = {
       studentId,
       activityId: activity.id,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       performance: {
         accuracy: activity.accuracy || 0,
         completionTime: activity.completionTime || 0,
@@ -271,7 +279,7 @@ export class TeacherAgent extends BaseAgent {
     const profile = this.studentProfiles.get(studentId) || this.createStudentProfile(studentId);
     profile.progressHistory = profile.progressHistory || [];
     profile.progressHistory.push(progress);
-    profile.lastUpdated = new Date();
+    profile.lastUpdated = clock.date();
     this.studentProfiles.set(studentId, profile);
 
     // Notify learning coordinator
@@ -282,7 +290,7 @@ export class TeacherAgent extends BaseAgent {
       type: 'progress-update',
       data: { studentId, progress },
       priority: 'medium',
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false
     });
 
@@ -290,7 +298,7 @@ export class TeacherAgent extends BaseAgent {
     return progress;
   }
 
-  protected async processMessage(message: AgentMessage): Promise<void> {
+  protected async processMessage(message: TypedAgentMessage): Promise<void> {
     switch (message.type) {
       case 'student-behavior-alert':
         await this.handleBehaviorAlert(message);
@@ -322,7 +330,7 @@ export class TeacherAgent extends BaseAgent {
       "I'm so proud of how hard you work and how much you're growing! 🌱🏆"
     ];
     
-    return responses[Math.floor(Math.random() * responses.length)];
+    return responses[Math.floor(random.next() * responses.length)];
   }
 
   // Private helper methods
@@ -363,7 +371,7 @@ export class TeacherAgent extends BaseAgent {
     
     for (const objective of objectives) {
       const activity = {
-        id: `activity-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        id: `activity-${clock.now()}-${random.next().toString(36).substr(2, 9)}`,
         objective,
         type: this.selectActivityType(subject, objective, studentNeeds),
         duration: this.calculateActivityDuration(objective, studentNeeds),
@@ -496,41 +504,41 @@ export class TeacherAgent extends BaseAgent {
 
   private async observeBehavior(studentId: string): Promise<any> {
     return {
-      engagementLevel: Math.floor(Math.random() * 30) + 70,
-      attentionSpan: Math.floor(Math.random() * 10) + 15,
-      socialInteraction: Math.floor(Math.random() * 40) + 60,
-      selfRegulation: Math.floor(Math.random() * 35) + 65,
-      adaptability: Math.floor(Math.random() * 25) + 75,
-      communicationSkills: Math.floor(Math.random() * 30) + 70
+      engagementLevel: Math.floor(random.next() * 30) + 70,
+      attentionSpan: Math.floor(random.next() * 10) + 15,
+      socialInteraction: Math.floor(random.next() * 40) + 60,
+      selfRegulation: Math.floor(random.next() * 35) + 65,
+      adaptability: Math.floor(random.next() * 25) + 75,
+      communicationSkills: Math.floor(random.next() * 30) + 70
     };
   }
 
   private async assessSocialEmotional(studentId: string): Promise<any> {
     return {
-      emotionalRegulation: Math.floor(Math.random() * 30) + 70,
-      socialSkills: Math.floor(Math.random() * 35) + 65,
-      selfAwareness: Math.floor(Math.random() * 25) + 75,
-      empathy: Math.floor(Math.random() * 40) + 60,
-      resilience: Math.floor(Math.random() * 30) + 70,
-      independence: Math.floor(Math.random() * 35) + 65
+      emotionalRegulation: Math.floor(random.next() * 30) + 70,
+      socialSkills: Math.floor(random.next() * 35) + 65,
+      selfAwareness: Math.floor(random.next() * 25) + 75,
+      empathy: Math.floor(random.next() * 40) + 60,
+      resilience: Math.floor(random.next() * 30) + 70,
+      independence: Math.floor(random.next() * 35) + 65
     };
   }
 
   private async assessSensoryNeeds(studentId: string): Promise<any> {
     return {
-      visualSensitivity: Math.random() > 0.7 ? 'high' : 'moderate',
-      auditorySensitivity: Math.random() > 0.6 ? 'high' : 'moderate',
-      tactileSensitivity: Math.random() > 0.5 ? 'high' : 'moderate',
-      vestibularNeeds: Math.random() > 0.8 ? 'high' : 'low',
-      proprioceptiveNeeds: Math.random() > 0.7 ? 'high' : 'moderate',
-      sensorySeekingBehaviors: Math.random() > 0.6,
-      sensoryAvoidanceBehaviors: Math.random() > 0.4
+      visualSensitivity: random.next() > 0.7 ? 'high' : 'moderate',
+      auditorySensitivity: random.next() > 0.6 ? 'high' : 'moderate',
+      tactileSensitivity: random.next() > 0.5 ? 'high' : 'moderate',
+      vestibularNeeds: random.next() > 0.8 ? 'high' : 'low',
+      proprioceptiveNeeds: random.next() > 0.7 ? 'high' : 'moderate',
+      sensorySeekingBehaviors: random.next() > 0.6,
+      sensoryAvoidanceBehaviors: random.next() > 0.4
     };
   }
 
   private async identifyLearningStyle(studentId: string): Promise<string> {
     const styles = ['visual', 'auditory', 'kinesthetic', 'mixed'];
-    return styles[Math.floor(Math.random() * styles.length)];
+    return styles[Math.floor(random.next() * styles.length)];
   }
 
   private generateStudentRecommendations(assessment: any): string[] {
@@ -723,7 +731,7 @@ export class TeacherAgent extends BaseAgent {
       type: 'sensory-break-request',
       data: { students, duration: 600000 }, // 10 minutes
       priority: 'high',
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false
     });
   }
@@ -739,11 +747,31 @@ export class TeacherAgent extends BaseAgent {
       type: 'attention-intervention',
       data: { students, strategy },
       priority: 'medium',
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false
     });
   }
 
+  private async composeParentMessage(studentId: string, message: string, type: string): Promise<string> {
+    if (!this.textGenerator?.isEnabled()) return message;
+
+    try {
+      const profile = this.studentProfiles.get(studentId);
+      const composed = await this.textGenerator.generateText(
+        `Rewrite this ${type.replace(/_/g, ' ')} note for a parent, keeping every fact: ${message}`,
+        {
+          system: 'You are a warm special education teacher writing short, clear notes to parents.',
+          memoryBlocks: profile ? [{ label: 'student', value: JSON.stringify(profile) }] : undefined,
+          maxTokens: 300
+        }
+      );
+      return composed.trim() || message;
+    } catch (error) {
+      console.warn('Text generation failed, sending teacher message as written:', error);
+      return message;
+    }
+  }
+
   private determineFollowUpNeeded(type: string, message: string): boolean {
     const followUpTypes = ['concern', 'behavior_issue', 'academic_struggle'];
     return followUpTypes.includes(type);
@@ -801,13 +829,13 @@ export class TeacherAgent extends BaseAgent {
   private createStudentProfile(studentId: string): any {
     return {
       studentId,
-      createdAt: new Date(),
+      createdAt: clock.date(),
       progressHistory: [],
       learningStyle: 'unknown',
       sensoryNeeds: {},
       accommodations: [],
       goals: [],
-      lastUpdated: new Date()
+      lastUpdated: clock.date()
     };
   }
 
@@ -820,7 +848,7 @@ export class TeacherAgent extends BaseAgent {
     };
     
     const types = activityTypes[subject] || ['general_practice'];
-    return types[Math.floor(Math.random() * types.length)];
+    return types[Math.floor(random.next() * types.length)];
   }
 
   private calculateActivityDuration(objective: string, studentNeeds: any[]): number {
@@ -900,30 +928,30 @@ export class TeacherAgent extends BaseAgent {
   }
 
   private calculateOverallGrade(profile: any): number {
-    return Math.floor(Math.random() * 30) + 70; // 70-100
+    return Math.floor(random.next() * 30) + 70; // 70-100
   }
 
   private analyzeSubjectPerformance(profile: any): any {
     return {
-      math: Math.floor(Math.random() * 40) + 60,
-      reading: Math.floor(Math.random() * 35) + 65,
-      science: Math.floor(Math.random() * 30) + 70,
-      socialStudies: Math.floor(Math.random() * 25) + 75
+      math: Math.floor(random.next() * 40) + 60,
+      reading: Math.floor(random.next() * 35) + 65,
+      science: Math.floor(random.next() * 30) + 70,
+      socialStudies: Math.floor(random.next() * 25) + 75
     };
   }
 
   private assessSkillMastery(profile: any): any {
     return {
-      foundationalSkills: Math.floor(Math.random() * 20) + 80,
-      criticalThinking: Math.floor(Math.random() * 30) + 70,
-      problemSolving: Math.floor(Math.random() * 25) + 75,
-      communication: Math.floor(Math.random() * 35) + 65
+      foundationalSkills: Math.floor(random.next() * 20) + 80,
+      criticalThinking: Math.floor(random.next() * 30) + 70,
+      problemSolving: Math.floor(random.next() * 25) + 75,
+      communication: Math.floor(random.next() * 35) + 65
     };
   }
 
   private calculateGrowthRate(profile: any): string {
     const rates = ['accelerated', 'typical', 'needs_support'];
-    return rates[Math.floor(Math.random() * rates.length)];
+    return rates[Math.floor(random.next() * rates.length)];
   }
 
   private identifyStrengths(profile: any): string[] {
@@ -947,7 +975,7 @@ export class TeacherAgent extends BaseAgent {
     return 'intensive';
   }
 
-  private async handleBehaviorAlert(message: AgentMessage): Promise<void> {
+  private async handleBehaviorAlert(message: AgentMessageOf<'student-behavior-alert'>): Promise<void> {
     const { studentId, alert } = message.data;
     await this.manageClassroom({
       type: alert.type,
@@ -956,18 +984,21 @@ export class TeacherAgent extends BaseAgent {
     });
   }
 
-  private async handleCurriculumUpdate(message: AgentMessage): Promise<void> {
+  private async handleCurriculumUpdate(message: AgentMessageOf<'curriculum-update'>): Promise<void> {
     const { curriculum } = message.data;
     // Update teaching strategies based on new curriculum
     this.storeMemory('current_curriculum', curriculum, 'long');
   }
 
-  private async handleParentInquiry(message: AgentMessage): Promise<void> {
+  private async handleParentInquiry(message: AgentMessageOf<'parent-inquiry'>): Promise<void> {
     const { studentId, inquiry } = message.data;
+    if (!studentId) {
+      throw new Error('Parent inquiry to a teacher needs the studentId');
+    }
     await this.communicateWithParent(studentId, inquiry.response, 'inquiry_response');
   }
 
-  private async handleAssessmentRequest(message: AgentMessage): Promise<void> {
+  private async handleAssessmentRequest(message: AgentMessageOf<'assessment-request'>): Promise<void> {
     const { studentId, assessmentType } = message.data;
     const assessment = await this.assessStudent(studentId, assessmentType);
     
@@ -978,7 +1009,7 @@ export class TeacherAgent extends BaseAgent {
       type: 'assessment-complete',
       data: { assessment },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
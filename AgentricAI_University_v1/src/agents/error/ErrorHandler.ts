@@ -2,7 +2,8 @@
 
 import { BaseAgent } from '../base/BaseAgent';
 import { IErrorAgent } from '../base/AgentInterface';
-import { AgentConfig, AgentMessage } from '../base/AgentTypes';
+import { AgentConfig, AgentMessageOf, TypedAgentMessage, AgentCapability } from '../base/AgentTypes';
+import { clock, random, scheduler } from '../base/AgentEnvironment';
 
 export class ErrorHandler extends BaseAgent implements IErrorAgent {
   private errorPatterns: Map<string, any> = new Map();
@@ -18,6 +19,7 @@ export class ErrorHandler extends BaseAgent implements IErrorAgent {
       version: '1.0.0',
       capabilities: [
         'error-detection',
+        'error-handling',
         'child-friendly-explanations',
         'auto-fix-generation',
         'safety-validation',
@@ -64,7 +66,7 @@ export class ErrorHandler extends BaseAgent implements IErrorAgent {
     console.log(`🔍 Analyzing error: ${error.name} - ${error.message}`);
     
     const analysis = {
-      errorId: `error-${Date.now()}`,
+      errorId: `error-${clock.now()}`,
       errorType: error.name,
       errorMessage: error.message,
       stackTrace: error.stack,
@@ -96,14 +98,22 @@ export class ErrorHandler extends BaseAgent implements IErrorAgent {
 
     // Notify AgentricAI Core OS of error
     await this.emitSystemEvent({
-      id: `system-error-${Date.now()}`,
+      id: `system-error-${clock.now()}`,
       type: 'error-event',
       source: this.id,
       data: { analysis, context },
       priority: analysis.severity === 'critical' ? 'critical' : 'high',
-      timestamp: new Date()
+      timestamp: clock.date()
     });
 
+    await this.publishToEventBus('error.detected', {
+      errorId: analysis.errorId,
+      errorType: analysis.errorType,
+      severity: analysis.severity,
+      autoFixable: analysis.autoFixable,
+      userType: analysis.contextAnalysis.userType
+    }, analysis.severity === 'critical' ? 'critical' : analysis.severity === 'high' ? 'error' : 'warning');
+
     this.metrics.tasksCompleted += 1;
     return analysis;
   }
@@ -112,7 +122,7 @@ export class ErrorHandler extends BaseAgent implements IErrorAgent {
     console.log(`🔧 Generating fix for error: ${errorAnalysis.errorType}`);
     
     const fix = {
-      fixId: `fix-${Date.now()}`,
+      fixId: `fix-${clock.now()}`,
       errorId: errorAnalysis.errorId,
       fixType: this.determineFixType(errorAnalysis),
       description: this.generateFixDescription(errorAnalysis),
@@ -190,7 +200,7 @@ export class ErrorHandler extends BaseAgent implements IErrorAgent {
       
       // Notify AgentricAI ecosystem of successful fix
       await this.emitSystemEvent({
-        id: `fix-success-${Date.now()}`,
+        id: `fix-success-${clock.now()}`,
         type: 'system-event',
         source: this.id,
         data: { 
@@ -200,7 +210,12 @@ export class ErrorHandler extends BaseAgent implements IErrorAgent {
           implementation: implementation.summary
         },
         priority: 'normal',
-        timestamp: new Date()
+        timestamp: clock.date()
+      });
+
+      await this.publishToEventBus('error.resolved', {
+        fixId: fix.fixId,
+        errorType: fix.errorType
       });
 
       this.metrics.tasksCompleted += 1;
@@ -222,7 +237,17 @@ export class ErrorHandler extends BaseAgent implements IErrorAgent {
     }
   }
 
-  protected async processMessage(message: AgentMessage): Promise<void> {
+  protected describeCapability(capability: string): Partial<AgentCapability> {
+    const details: Record<string, Partial<AgentCapability>> = {
+      'error-handling': { inputTypes: ['error-report'], outputTypes: ['error-analysis-response'], processingTime: 600, tasks: ['analyze_error', 'generate_fix', 'validate_safety', 'implement_fix', 'create_explanation'] },
+      'error-detection': { inputTypes: ['error-report'], outputTypes: ['error-analysis-response'], processingTime: 600, tasks: ['analyze_error'] },
+      'auto-fix-generation': { inputTypes: ['fix-request'], outputTypes: ['fix-generated'], processingTime: 1500, tasks: ['generate_fix'] },
+      'safety-validation': { inputTypes: ['safety-validation-request'], outputTypes: ['safety-validation-response'], processingTime: 500, tasks: ['validate_safety'] }
+    };
+    return { ...super.describeCapability(capability), ...details[capability] };
+  }
+
+  protected async processMessage(message: TypedAgentMessage): Promise<void> {
     switch (message.type) {
       case 'error-report':
         await this.handleErrorReport(message);
@@ -250,7 +275,7 @@ export class ErrorHandler extends BaseAgent implements IErrorAgent {
       "I'm your problem-solving friend - no worry is too big for me to handle! 🤝✨"
     ];
     
-    return responses[Math.floor(Math.random() * responses.length)];
+    return responses[Math.floor(random.next() * responses.length)];
   }
 
   // Private helper methods
@@ -558,12 +583,12 @@ export class ErrorHandler extends BaseAgent implements IErrorAgent {
     };
 
     pattern.occurrenceCount = (pattern.occurrenceCount || 0) + 1;
-    pattern.lastOccurrence = new Date();
+    pattern.lastOccurrence = clock.date();
     pattern.contexts = pattern.contexts || [];
     pattern.contexts.push({
       userType: context.userType,
       componentState: context.componentState,
-      timestamp: new Date()
+      timestamp: clock.date()
     });
 
     // Keep only recent contexts
@@ -576,13 +601,13 @@ export class ErrorHandler extends BaseAgent implements IErrorAgent {
   }
 
   private async createSystemBackup(): Promise<string> {
-    const backupId = `backup-${Date.now()}`;
+    const backupId = `backup-${clock.now()}`;
     
     // In a real implementation, this would create a system state backup
     console.log(`💾 Creating system backup: ${backupId}`);
     
     this.storeMemory(`backup_${backupId}`, {
-      timestamp: new Date(),
+      timestamp: clock.date(),
       systemState: 'captured',
       components: ['ui_state', 'agent_memory', 'user_progress']
     }, 'long');
@@ -596,7 +621,7 @@ export class ErrorHandler extends BaseAgent implements IErrorAgent {
     // Simulate fix execution
     const implementation = {
       fixId: fix.fixId,
-      startTime: new Date(),
+      startTime: clock.date(),
       steps: [],
       success: true,
       summary: `Applied ${fix.fixType} fix successfully`
@@ -630,7 +655,7 @@ export class ErrorHandler extends BaseAgent implements IErrorAgent {
         ];
     }
 
-    implementation.endTime = new Date();
+    implementation.endTime = clock.date();
     implementation.duration = implementation.endTime.getTime() - implementation.startTime.getTime();
 
     return implementation;
@@ -649,7 +674,7 @@ export class ErrorHandler extends BaseAgent implements IErrorAgent {
       console.log(`✅ Validating fix success for: ${fix.fixId}`);
       
       // Simulate validation checks
-      if (Math.random() > 0.1) { // 90% success rate
+      if (random.next() > 0.1) { // 90% success rate
         validation.successful = true;
       } else {
         validation.successful = false;
@@ -673,7 +698,7 @@ export class ErrorHandler extends BaseAgent implements IErrorAgent {
     }
 
     // Simulate rollback process
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    await scheduler.sleep(1000);
     
     console.log(`✅ Rollback completed for fix: ${fix.fixId}`);
   }
@@ -684,7 +709,7 @@ export class ErrorHandler extends BaseAgent implements IErrorAgent {
       errorType: fix.errorType,
       implementation: implementation.summary,
       duration: implementation.duration,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       agentricaiMetadata: {
         panelColor: 'neon-lime',
         successIndicator: true
@@ -701,7 +726,7 @@ export class ErrorHandler extends BaseAgent implements IErrorAgent {
 
   private async escalateToAdmin(fix: any, error: Error, rollbackError: Error): Promise<void> {
     const escalation = {
-      escalationId: `escalation-${Date.now()}`,
+      escalationId: `escalation-${clock.now()}`,
       fixId: fix.fixId,
       originalError: error.message,
       rollbackError: rollbackError.message,
@@ -720,13 +745,13 @@ export class ErrorHandler extends BaseAgent implements IErrorAgent {
       source: this.id,
       data: escalation,
       priority: 'critical',
-      timestamp: new Date()
+      timestamp: clock.date()
     });
 
     console.error(`🚨 CRITICAL: Escalated to admin - Fix and rollback both failed`);
   }
 
-  private async handleErrorReport(message: AgentMessage): Promise<void> {
+  private async handleErrorReport(message: AgentMessageOf<'error-report'>): Promise<void> {
     const { error, context } = message.data;
     const analysis = await this.analyzeError(error, context);
     
@@ -749,14 +774,14 @@ export class ErrorHandler extends BaseAgent implements IErrorAgent {
         type: 'error-analysis-response',
         data: { analysis },
         priority: message.priority,
-        timestamp: new Date(),
+        timestamp: clock.date(),
         requiresResponse: false,
         correlationId: message.id
       });
     }
   }
 
-  private async handleFixRequest(message: AgentMessage): Promise<void> {
+  private async handleFixRequest(message: AgentMessageOf<'fix-request'>): Promise<void> {
     const { errorAnalysis } = message.data;
     const fix = await this.generateFix(errorAnalysis);
     
@@ -767,13 +792,13 @@ export class ErrorHandler extends BaseAgent implements IErrorAgent {
       type: 'fix-generated',
       data: { fix },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
   }
 
-  private async handleSafetyValidationRequest(message: AgentMessage): Promise<void> {
+  private async handleSafetyValidationRequest(message: AgentMessageOf<'safety-validation-request'>): Promise<void> {
     const { fix, context } = message.data;
     const validation = await this.validateFixSafety(fix, context);
     
@@ -784,7 +809,7 @@ export class ErrorHandler extends BaseAgent implements IErrorAgent {
       type: 'safety-validation-response',
       data: { validation },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
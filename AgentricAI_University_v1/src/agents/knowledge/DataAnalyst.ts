@@ -1,7 +1,8 @@
 // Data Analyst Agent - Data analysis and insights for AgentricAI University
 
 import { BaseAgent } from '../base/BaseAgent';
-import { AgentConfig, AgentMessage } from '../base/AgentTypes';
+import { AgentConfig, AgentMessageOf, TypedAgentMessage, AgentCapability } from '../base/AgentTypes';
+import { clock, random } from '../base/AgentEnvironment';
 
 export class DataAnalyst extends BaseAgent {
   private analysisHistory: Map<string, any[]> = new Map();
@@ -67,7 +68,7 @@ export class DataAnalyst extends BaseAgent {
     const analysis = {
       userId,
       timeframe,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       learningProgress: await this.analyzeLearningProgress(userId, timeframe),
       engagementPatterns: await this.analyzeEngagementPatterns(userId, timeframe),
       behaviorTrends: await this.analyzeBehaviorTrends(userId, timeframe),
@@ -99,7 +100,7 @@ export class DataAnalyst extends BaseAgent {
     
     const insights = {
       analysisType,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       dataSetSize: Array.isArray(dataSet) ? dataSet.length : Object.keys(dataSet).length,
       keyFindings: [],
       patterns: [],
@@ -152,7 +153,7 @@ export class DataAnalyst extends BaseAgent {
     const prediction = {
       userId,
       scenario,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       predictions: {
         engagementLevel: this.predictEngagementLevel(userId, scenario),
         completionProbability: this.predictCompletionProbability(userId, scenario),
@@ -180,7 +181,7 @@ export class DataAnalyst extends BaseAgent {
     const trendAnalysis = {
       dataType,
       timeframe,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       trends: {
         overall: this.calculateOverallTrend(dataType, timeframe),
         seasonal: this.detectSeasonalPatterns(dataType, timeframe),
@@ -205,7 +206,7 @@ export class DataAnalyst extends BaseAgent {
     
     const performance = {
       agentId,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       metrics: {
         efficiency: this.calculateEfficiency(metrics),
         reliability: this.calculateReliability(metrics),
@@ -233,12 +234,12 @@ export class DataAnalyst extends BaseAgent {
     const report = {
       reportType,
       parameters,
-      generatedAt: new Date(),
+      generatedAt: clock.date(),
       sections: [],
       summary: {},
       recommendations: [],
       agentricaiMetadata: {
-        reportId: `report-${Date.now()}`,
+        reportId: `report-${clock.now()}`,
         panelColor: 'neon-blue',
         confidenceLevel: 'high'
       }
@@ -275,7 +276,17 @@ export class DataAnalyst extends BaseAgent {
     return report;
   }
 
-  protected async processMessage(message: AgentMessage): Promise<void> {
+  protected describeCapability(capability: string): Partial<AgentCapability> {
+    const details: Record<string, Partial<AgentCapability>> = {
+      'data-analysis': { inputTypes: ['data-analysis-request'], outputTypes: ['data-analysis-response'], processingTime: 1500, tasks: ['analyze_user_data', 'generate_insights', 'performance_analysis', 'generate_report'] },
+      'insight-generation': { inputTypes: ['insight-generation-request'], outputTypes: ['insights-generated'], processingTime: 1200, tasks: ['generate_insights'] },
+      'predictive-modeling': { inputTypes: ['prediction-request'], outputTypes: ['prediction-response'], processingTime: 2000, tasks: ['predict_outcomes'] },
+      'trend-analysis': { inputTypes: ['trend-analysis-request'], outputTypes: ['trend-analysis-response'], processingTime: 1000, tasks: ['analyze_trends'] }
+    };
+    return { ...super.describeCapability(capability), ...details[capability] };
+  }
+
+  protected async processMessage(message: TypedAgentMessage): Promise<void> {
     switch (message.type) {
       case 'data-analysis-request':
         await this.handleDataAnalysisRequest(message);
@@ -307,7 +318,7 @@ export class DataAnalyst extends BaseAgent {
       "I'm like a scientist studying how to make learning perfect for you! 🔬💙"
     ];
     
-    return responses[Math.floor(Math.random() * responses.length)];
+    return responses[Math.floor(random.next() * responses.length)];
   }
 
   // Private helper methods
@@ -317,64 +328,64 @@ export class DataAnalyst extends BaseAgent {
       type: 'regression',
       features: ['session_length', 'activity_type', 'time_of_day', 'previous_engagement'],
       accuracy: 0.85,
-      lastTrained: new Date()
+      lastTrained: clock.date()
     });
 
     this.dataModels.set('difficulty_optimization', {
       type: 'classification',
       features: ['completion_rate', 'time_spent', 'error_count', 'help_requests'],
       accuracy: 0.78,
-      lastTrained: new Date()
+      lastTrained: clock.date()
     });
 
     this.dataModels.set('sensory_preference', {
       type: 'clustering',
       features: ['visual_complexity', 'audio_preference', 'animation_speed', 'interaction_style'],
       accuracy: 0.82,
-      lastTrained: new Date()
+      lastTrained: clock.date()
     });
   }
 
   private async analyzeLearningProgress(userId: string, timeframe: string): Promise<any> {
     // Simulate learning progress analysis
     return {
-      overallProgress: Math.floor(Math.random() * 40) + 60, // 60-100%
+      overallProgress: Math.floor(random.next() * 40) + 60, // 60-100%
       skillAreas: {
-        colorRecognition: Math.floor(Math.random() * 30) + 70,
-        shapeMatching: Math.floor(Math.random() * 40) + 60,
-        numberGames: Math.floor(Math.random() * 50) + 50,
-        letterTracing: Math.floor(Math.random() * 35) + 65
+        colorRecognition: Math.floor(random.next() * 30) + 70,
+        shapeMatching: Math.floor(random.next() * 40) + 60,
+        numberGames: Math.floor(random.next() * 50) + 50,
+        letterTracing: Math.floor(random.next() * 35) + 65
       },
-      progressTrend: Math.random() > 0.5 ? 'improving' : 'stable',
-      completionRate: 0.7 + Math.random() * 0.3
+      progressTrend: random.next() > 0.5 ? 'improving' : 'stable',
+      completionRate: 0.7 + random.next() * 0.3
     };
   }
 
   private async analyzeEngagementPatterns(userId: string, timeframe: string): Promise<any> {
     return {
-      averageEngagement: Math.floor(Math.random() * 30) + 70,
+      averageEngagement: Math.floor(random.next() * 30) + 70,
       peakEngagementTime: '10:00 AM',
-      preferredSessionLength: Math.floor(Math.random() * 10) + 15, // 15-25 minutes
-      engagementTrend: Math.random() > 0.6 ? 'increasing' : 'stable',
+      preferredSessionLength: Math.floor(random.next() * 10) + 15, // 15-25 minutes
+      engagementTrend: random.next() > 0.6 ? 'increasing' : 'stable',
       motivationFactors: ['positive_feedback', 'achievement_badges', 'progress_visualization']
     };
   }
 
   private async analyzeBehaviorTrends(userId: string, timeframe: string): Promise<any> {
     return {
-      consistencyScore: Math.floor(Math.random() * 20) + 80,
-      adaptabilityScore: Math.floor(Math.random() * 30) + 70,
-      persistenceLevel: Math.random() > 0.7 ? 'high' : 'medium',
-      frustrationTolerance: Math.random() > 0.5 ? 'good' : 'needs_support',
-      learningStyle: ['visual', 'auditory', 'kinesthetic'][Math.floor(Math.random() * 3)]
+      consistencyScore: Math.floor(random.next() * 20) + 80,
+      adaptabilityScore: Math.floor(random.next() * 30) + 70,
+      persistenceLevel: random.next() > 0.7 ? 'high' : 'medium',
+      frustrationTolerance: random.next() > 0.5 ? 'good' : 'needs_support',
+      learningStyle: ['visual', 'auditory', 'kinesthetic'][Math.floor(random.next() * 3)]
     };
   }
 
   private async analyzeSensoryPreferences(userId: string, timeframe: string): Promise<any> {
     return {
-      visualComplexity: ['low', 'medium'][Math.floor(Math.random() * 2)],
-      audioPreference: Math.random() > 0.3,
-      animationSpeed: ['slow', 'medium'][Math.floor(Math.random() * 2)],
+      visualComplexity: ['low', 'medium'][Math.floor(random.next() * 2)],
+      audioPreference: random.next() > 0.3,
+      animationSpeed: ['slow', 'medium'][Math.floor(random.next() * 2)],
       contrastLevel: 'high',
       colorPreferences: ['blue', 'green', 'purple'],
       triggerAvoidance: ['flashing_lights', 'loud_sounds']
@@ -419,10 +430,10 @@ export class DataAnalyst extends BaseAgent {
 
   private generateUserPredictions(userId: string): any {
     return {
-      nextSessionEngagement: Math.floor(Math.random() * 20) + 70,
-      optimalActivityType: ['color-recognition', 'shape-matching', 'number-games'][Math.floor(Math.random() * 3)],
-      recommendedDifficulty: ['easy', 'medium', 'hard'][Math.floor(Math.random() * 3)],
-      estimatedSessionLength: Math.floor(Math.random() * 10) + 15
+      nextSessionEngagement: Math.floor(random.next() * 20) + 70,
+      optimalActivityType: ['color-recognition', 'shape-matching', 'number-games'][Math.floor(random.next() * 3)],
+      recommendedDifficulty: ['easy', 'medium', 'hard'][Math.floor(random.next() * 3)],
+      estimatedSessionLength: Math.floor(random.next() * 10) + 15
     };
   }
 
@@ -438,25 +449,25 @@ export class DataAnalyst extends BaseAgent {
     if (scenario.difficulty === 'optimal') prediction += 15;
     if (scenario.timeOfDay === 'peak') prediction += 10;
     
-    return Math.min(100, Math.max(0, prediction + (Math.random() - 0.5) * 20));
+    return Math.min(100, Math.max(0, prediction + (random.next() - 0.5) * 20));
   }
 
   private predictCompletionProbability(userId: string, scenario: any): number {
-    return 0.6 + Math.random() * 0.4; // 60-100%
+    return 0.6 + random.next() * 0.4; // 60-100%
   }
 
   private predictOptimalDifficulty(userId: string, scenario: any): string {
     const difficulties = ['easy', 'medium', 'hard'];
-    return difficulties[Math.floor(Math.random() * difficulties.length)];
+    return difficulties[Math.floor(random.next() * difficulties.length)];
   }
 
   private predictTimeToComplete(userId: string, scenario: any): number {
-    return Math.floor(Math.random() * 15) + 10; // 10-25 minutes
+    return Math.floor(random.next() * 15) + 10; // 10-25 minutes
   }
 
   private predictFrustrationRisk(userId: string, scenario: any): 'low' | 'medium' | 'high' {
     const risks = ['low', 'medium', 'high'];
-    return risks[Math.floor(Math.random() * risks.length)];
+    return risks[Math.floor(random.next() * risks.length)];
   }
 
   private calculatePredictionConfidence(userId: string, scenario: any): number {
@@ -564,7 +575,7 @@ export class DataAnalyst extends BaseAgent {
 
   // Trend analysis methods
   private calculateOverallTrend(dataType: string, timeframe: string): string {
-    return Math.random() > 0.5 ? 'increasing' : 'stable';
+    return random.next() > 0.5 ? 'increasing' : 'stable';
   }
 
   private detectSeasonalPatterns(dataType: string, timeframe: string): string[] {
@@ -597,23 +608,23 @@ export class DataAnalyst extends BaseAgent {
 
   // Performance analysis methods
   private calculateEfficiency(metrics: any): number {
-    return Math.floor(Math.random() * 20) + 80; // 80-100%
+    return Math.floor(random.next() * 20) + 80; // 80-100%
   }
 
   private calculateReliability(metrics: any): number {
-    return Math.floor(Math.random() * 15) + 85; // 85-100%
+    return Math.floor(random.next() * 15) + 85; // 85-100%
   }
 
   private calculateResponsiveness(metrics: any): number {
-    return Math.floor(Math.random() * 25) + 75; // 75-100%
+    return Math.floor(random.next() * 25) + 75; // 75-100%
   }
 
   private calculateResourceUtilization(metrics: any): number {
-    return Math.floor(Math.random() * 30) + 50; // 50-80%
+    return Math.floor(random.next() * 30) + 50; // 50-80%
   }
 
   private calculateErrorRate(metrics: any): number {
-    return Math.random() * 0.05; // 0-5%
+    return random.next() * 0.05; // 0-5%
   }
 
   private getBenchmarkComparisons(agentId: string, metrics: any): any {
@@ -729,7 +740,7 @@ export class DataAnalyst extends BaseAgent {
   }
 
   // Message handlers
-  private async handleDataAnalysisRequest(message: AgentMessage): Promise<void> {
+  private async handleDataAnalysisRequest(message: AgentMessageOf<'data-analysis-request'>): Promise<void> {
     const { userId, timeframe } = message.data;
     const analysis = await this.analyzeUserData(userId, timeframe);
     
@@ -740,13 +751,13 @@ export class DataAnalyst extends BaseAgent {
       type: 'data-analysis-response',
       data: { analysis },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
   }
 
-  private async handleInsightGenerationRequest(message: AgentMessage): Promise<void> {
+  private async handleInsightGenerationRequest(message: AgentMessageOf<'insight-generation-request'>): Promise<void> {
     const { dataSet, analysisType } = message.data;
     const insights = await this.generateInsights(dataSet, analysisType);
     
@@ -757,13 +768,13 @@ export class DataAnalyst extends BaseAgent {
       type: 'insights-generated',
       data: { insights },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
   }
 
-  private async handlePredictionRequest(message: AgentMessage): Promise<void> {
+  private async handlePredictionRequest(message: AgentMessageOf<'prediction-request'>): Promise<void> {
     const { userId, scenario } = message.data;
     const prediction = await this.predictOutcomes(userId, scenario);
     
@@ -774,13 +785,13 @@ export class DataAnalyst extends BaseAgent {
       type: 'prediction-response',
       data: { prediction },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
   }
 
-  private async handleTrendAnalysisRequest(message: AgentMessage): Promise<void> {
+  private async handleTrendAnalysisRequest(message: AgentMessageOf<'trend-analysis-request'>): Promise<void> {
     const { dataType, timeframe } = message.data;
     const trends = await this.analyzeTrends(dataType, timeframe);
     
@@ -791,7 +802,7 @@ export class DataAnalyst extends BaseAgent {
       type: 'trend-analysis-response',
       data: { trends },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { KnowledgeManager } from './KnowledgeManager';
+import { agentricaiKnowledgeDB } from '../../services/knowledgeDatabase';
+import { createDefaultKnowledgeStorage } from '../../services/knowledgeStorage';
+import { createTestEcosystem, TestEcosystem } from '../../test/testEcosystem';
+
+describe('KnowledgeManager', () => {
+  let ecosystem: TestEcosystem;
+  let manager: KnowledgeManager;
+
+  beforeEach(async () => {
+    ecosystem = await createTestEcosystem({ agents: [() => new KnowledgeManager()] });
+    manager = ecosystem.get<KnowledgeManager>('knowledge-manager-001');
+  });
+
+  afterEach(async () => {
+    await ecosystem.stop();
+  });
+
+  it('reads and writes the same entries as the knowledge database', async () => {
+    await agentricaiKnowledgeDB.storeKnowledge('classroom_routines', 'morning_check_in', { steps: 3 }, 'routine-agent');
+    expect(await manager.retrieveKnowledge('classroom_routines', 'morning_check_in')).toEqual({ steps: 3 });
+
+    await manager.storeKnowledge('classroom_routines', 'quiet_corner', { seats: 2 });
+    expect(await agentricaiKnowledgeDB.retrieveKnowledge('classroom_routines', 'quiet_corner')).toEqual({ seats: 2 });
+    expect(await manager.retrieveKnowledge('classroom_routines')).toEqual({
+      morning_check_in: { steps: 3 },
+      quiet_corner: { seats: 2 }
+    });
+  });
+
+  it('weighs updates from different agents against each other', async () => {
+    const update = (fromAgentId: string, value: any, confidence?: number) => manager.receiveMessage({
+      id: `update-${fromAgentId}`,
+      fromAgentId,
+      toAgentId: manager.id,
+      type: 'knowledge-update',
+      data: { category: 'reading_supports', key: 'font_size', value, confidence },
+      priority: 'medium',
+      timestamp: ecosystem.clock.date(),
+      requiresResponse: false
+    });
+
+    await update('sensory-optimizer-001', { points: 18 }, 0.9);
+    await update('content-generator-001', { points: 12 });
+
+    expect(await agentricaiKnowledgeDB.retrieveKnowledge('reading_supports', 'font_size')).toEqual({ points: 18 });
+    expect(agentricaiKnowledgeDB.getKnowledgeHistory('reading_supports', 'font_size').map(version => [version.source_agent, version.status]))
+      .toEqual([['sensory-optimizer-001', 'accepted'], ['content-generator-001', 'rejected']]);
+  });
+
+  it('seeds only the core entries that are missing', async () => {
+    await agentricaiKnowledgeDB.storeKnowledge('behavioral_indicators', 'frustration_indicators', ['hands_over_ears'], 'teacher-dashboard');
+
+    const rebooted = await createTestEcosystem({ agents: [() => new KnowledgeManager()] });
+    await rebooted.stop();
+
+    expect(await agentricaiKnowledgeDB.retrieveKnowledge('behavioral_indicators', 'frustration_indicators')).toEqual(['hands_over_ears']);
+    expect(await agentricaiKnowledgeDB.retrieveKnowledge('behavioral_indicators', 'engagement_positive')).toBeTruthy();
+  });
+
+  it('analyzes accesses made by any agent', async () => {
+    await agentricaiKnowledgeDB.storeKnowledge('transition_supports', 'visual_timer', { minutes: 5 }, 'routine-agent');
+    for (let i = 0; i < 3; i++) {
+      await agentricaiKnowledgeDB.retrieveKnowledge('transition_supports', 'visual_timer', 'routine-agent');
+    }
+
+    const analysis = await manager.analyzeKnowledgePatterns();
+
+    expect(analysis.categories.transition_supports).toMatchObject({ count: 1, totalAccesses: 3 });
+    // The store and three retrievals, all by another agent
+    expect(analysis.accessPatterns.mostAccessedCategories).toContainEqual({ category: 'transition_supports', count: 4 });
+
+    // The log is stored with the knowledge, so the next page load analyzes the same accesses
+    await agentricaiKnowledgeDB.flushStorage();
+    const stored = (await createDefaultKnowledgeStorage().loadAll()).access_log;
+    expect(stored.filter(access => access.knowledge_key === 'transition_supports:visual_timer')).toHaveLength(4);
+  });
+});
@@ -1,15 +1,24 @@
 // Knowledge Manager Agent - Knowledge base operations for AgentricAI University
+// The agent-facing facade over agentricaiKnowledgeDB: it keeps no knowledge of its own, so entries
+// stored here or straight through the database are the same entries, and the analysis covers both.
 
 import { BaseAgent } from '../base/BaseAgent';
 import { IKnowledgeAgent } from '../base/AgentInterface';
-import { AgentConfig, AgentMessage } from '../base/AgentTypes';
+import { AgentConfig, AgentMessageOf, TypedAgentMessage } from '../base/AgentTypes';
 import { agentricaiKnowledgeDB } from '../../services/knowledgeDatabase';
+import { KnowledgeGraphSnapshot } from '../../services/knowledgeGraph';
+import { clock, random } from '../base/AgentEnvironment';
+
+const CORE_CATEGORIES = [
+  'neurodiverse_learning_patterns',
+  'sensory_processing_preferences',
+  'behavioral_indicators'
+];
+
+// Writes that arrive without a confidence lose to entries an agent was certain of
+const DEFAULT_WRITE_CONFIDENCE = 0.8;
 
 export class KnowledgeManager extends BaseAgent implements IKnowledgeAgent {
-  private knowledgeCache: Map<string, any> = new Map();
-  private searchIndex: Map<string, Set<string>> = new Map();
-  private accessPatterns: Map<string, any> = new Map();
-  private knowledgeGraph: Map<string, Set<string>> = new Map();
 
   constructor() {
     const config: AgentConfig = {
@@ -33,7 +42,9 @@ export class KnowledgeManager extends BaseAgent implements IKnowledgeAgent {
     };
 
     super(config);
-    this.initializeKnowledgeStructure();
+    this.initializeKnowledgeStructure().catch(error => {
+      console.warn('⚠️ Could not seed the core knowledge structure:', error);
+    });
   }
 
   async processTask(taskData: any): Promise<any> {
@@ -41,7 +52,7 @@ export class KnowledgeManager extends BaseAgent implements IKnowledgeAgent {
 
     switch (type) {
       case 'store_knowledge':
-        return await this.storeKnowledge(data.category, data.key, data.value);
+        return await this.storeKnowledge(data.category, data.key, data.value, data.sourceAgent, data.confidence);
       
       case 'retrieve_knowledge':
         return await this.retrieveKnowledge(data.category, data.key);
@@ -50,7 +61,7 @@ export class KnowledgeManager extends BaseAgent implements IKnowledgeAgent {
         return await this.searchKnowledge(data.query);
       
       case 'update_knowledge':
-        return await this.updateKnowledge(data.category, data.key, data.value);
+        return await this.updateKnowledge(data.category, data.key, data.value, data.sourceAgent, data.confidence);
       
       case 'analyze_patterns':
         return await this.analyzeKnowledgePatterns();
@@ -63,93 +74,46 @@ export class KnowledgeManager extends BaseAgent implements IKnowledgeAgent {
     }
   }
 
-  async storeKnowledge(category: string, key: string, value: any): Promise<void> {
+  // Written under the agent the knowledge came from, so the merge policy weighs it against other agents
+  async storeKnowledge(category: string, key: string, value: any, sourceAgent?: string, confidence?: number): Promise<void> {
     console.log(`💾 Storing knowledge: ${category}/${key}`);
-    
-    // Store in AgentricAI Knowledge Database
-    const knowledgeId = await agentricaiKnowledgeDB.storeKnowledge(
-      category, 
-      key, 
-      value, 
-      this.id, 
-      1.0
-    );
-
-    // Update local cache
-    const cacheKey = `${category}:${key}`;
-    this.knowledgeCache.set(cacheKey, {
-      id: knowledgeId,
-      category,
-      key,
-      value,
-      timestamp: new Date(),
-      accessCount: 0
-    });
-
-    // Update search index
-    this.updateSearchIndex(category, key, value);
-    
-    // Update knowledge graph
-    this.updateKnowledgeGraph(category, key, value);
-
-    // Track storage patterns
-    await this.trackAccessPattern('store', category, key);
-
-    this.metrics.tasksCompleted += 1;
+    await this.writeKnowledge(category, key, value, sourceAgent, confidence);
   }
 
   async retrieveKnowledge(category: string, key?: string): Promise<any> {
     console.log(`🔍 Retrieving knowledge: ${category}${key ? `/${key}` : ''}`);
     
     if (key) {
-      // Retrieve specific knowledge entry
-      const cacheKey = `${category}:${key}`;
-      let knowledge = this.knowledgeCache.get(cacheKey);
-      
-      if (!knowledge) {
-        // Fetch from database
-        const value = await agentricaiKnowledgeDB.retrieveKnowledge(category, key, this.id);
-        if (value) {
-          knowledge = { category, key, value, timestamp: new Date(), accessCount: 1 };
-          this.knowledgeCache.set(cacheKey, knowledge);
-        }
-      } else {
-        knowledge.accessCount += 1;
-        knowledge.lastAccessed = new Date();
-      }
-
-      await this.trackAccessPattern('retrieve', category, key);
+      const value = await agentricaiKnowledgeDB.retrieveKnowledge(category, key, this.id);
       this.metrics.tasksCompleted += 1;
-      
-      return knowledge?.value || null;
-    } else {
-      // Retrieve all knowledge in category
-      const categoryKnowledge = {};
-      
-      for (const [cacheKey, knowledge] of this.knowledgeCache.entries()) {
-        if (knowledge.category === category) {
-          categoryKnowledge[knowledge.key] = knowledge.value;
-        }
-      }
+      return value;
+    }
 
-      this.metrics.tasksCompleted += 1;
-      return categoryKnowledge;
+    // Retrieve all knowledge in category
+    const categoryKnowledge: Record<string, any> = {};
+    for (const entry of await agentricaiKnowledgeDB.listKnowledge(category)) {
+      categoryKnowledge[entry.key] = entry.value;
     }
+
+    this.metrics.tasksCompleted += 1;
+    return categoryKnowledge;
   }
 
   async searchKnowledge(query: string): Promise<any[]> {
     console.log(`🔎 Searching knowledge base for: "${query}"`);
     
-    // Use AgentricAI Knowledge Database search
-    const results = await agentricaiKnowledgeDB.queryKnowledge(query, this.id);
+    // Hybrid keyword and semantic ranking from the AgentricAI Knowledge Database
+    const results = await agentricaiKnowledgeDB.searchKnowledge(query, this.id, { limit: 20 });
     
-    // Enhance results with local analysis
-    const enhancedResults = results.map(result => ({
+    // Enhance results with how often each entry is used and what it links to
+    const enhancedResults = await Promise.all(results.map(async result => ({
       ...result,
-      relevanceScore: this.calculateRelevanceScore(query, result),
-      accessFrequency: this.getAccessFrequency(result.category, result.key),
-      relatedKnowledge: this.findRelatedKnowledge(result.category, result.key)
-    }));
+      relevanceScore: result.scores.combined * 100,
+      accessFrequency: result.access_count || 0,
+      relatedKnowledge: (await agentricaiKnowledgeDB.getRelatedKnowledge(result.category, result.key))
+        .map(related => related.target)
+        .slice(0, 5)
+    })));
 
     // Sort by relevance and access frequency
     enhancedResults.sort((a, b) => {
@@ -158,58 +122,31 @@ export class KnowledgeManager extends BaseAgent implements IKnowledgeAgent {
       return scoreB - scoreA;
     });
 
-    await this.trackAccessPattern('search', 'query', query);
     this.metrics.tasksCompleted += 1;
     
     return enhancedResults.slice(0, 10); // Return top 10 results
   }
 
-  async updateKnowledge(category: string, key: string, value: any): Promise<void> {
+  async updateKnowledge(category: string, key: string, value: any, sourceAgent?: string, confidence?: number): Promise<void> {
     console.log(`📝 Updating knowledge: ${category}/${key}`);
-    
-    // Update in database
-    await agentricaiKnowledgeDB.storeKnowledge(category, key, value, this.id, 1.0);
-    
-    // Update local cache
-    const cacheKey = `${category}:${key}`;
-    const existing = this.knowledgeCache.get(cacheKey);
-    
-    if (existing) {
-      existing.value = value;
-      existing.timestamp = new Date();
-      existing.version = (existing.version || 1) + 1;
-    } else {
-      this.knowledgeCache.set(cacheKey, {
-        category,
-        key,
-        value,
-        timestamp: new Date(),
-        version: 1,
-        accessCount: 0
-      });
-    }
-
-    // Update search index
-    this.updateSearchIndex(category, key, value);
-    
-    // Update knowledge graph
-    this.updateKnowledgeGraph(category, key, value);
-
-    await this.trackAccessPattern('update', category, key);
-    this.metrics.tasksCompleted += 1;
+    await this.writeKnowledge(category, key, value, sourceAgent, confidence);
   }
 
   async analyzeKnowledgePatterns(): Promise<any> {
     console.log(`📊 Analyzing knowledge patterns`);
     
+    const entries = await agentricaiKnowledgeDB.listKnowledge();
+    const accessPatterns = await this.getAccessPatterns();
+    const graph = await agentricaiKnowledgeDB.getKnowledgeGraph();
+
     const analysis = {
-      totalEntries: this.knowledgeCache.size,
-      categories: this.getCategoryStats(),
-      accessPatterns: this.getAccessPatternAnalysis(),
-      knowledgeGraph: this.getKnowledgeGraphStats(),
-      recommendations: [],
-      trends: this.identifyKnowledgeTrends(),
-      optimization_opportunities: this.identifyOptimizationOpportunities()
+      totalEntries: entries.length,
+      categories: this.getCategoryStats(entries),
+      accessPatterns: this.getAccessPatternAnalysis(accessPatterns),
+      knowledgeGraph: this.getKnowledgeGraphStats(graph),
+      recommendations: [] as string[],
+      trends: this.identifyKnowledgeTrends(entries, accessPatterns),
+      optimization_opportunities: this.identifyOptimizationOpportunities(entries)
     };
 
     // Generate recommendations
@@ -221,7 +158,7 @@ export class KnowledgeManager extends BaseAgent implements IKnowledgeAgent {
     return analysis;
   }
 
-  protected async processMessage(message: AgentMessage): Promise<void> {
+  protected async processMessage(message: TypedAgentMessage): Promise<void> {
     switch (message.type) {
       case 'knowledge-request':
         await this.handleKnowledgeRequest(message);
@@ -244,7 +181,7 @@ export class KnowledgeManager extends BaseAgent implements IKnowledgeAgent {
     }
   }
 
-  generateChildFriendlyResponse(data: any): string {
+  generateChildFriendlyResponse(): string {
     const responses = [
       "I'm like a super smart library that remembers everything to help you learn! 📚✨",
       "I keep track of all the cool things you learn so we can build on them! 🧠💫",
@@ -253,7 +190,7 @@ export class KnowledgeManager extends BaseAgent implements IKnowledgeAgent {
       "I'm like your personal learning assistant that never forgets! 🤖💙"
     ];
     
-    return responses[Math.floor(Math.random() * responses.length)];
+    return responses[Math.floor(random.next() * responses.length)];
   }
 
   // Private helper methods
@@ -296,165 +233,102 @@ export class KnowledgeManager extends BaseAgent implements IKnowledgeAgent {
 
     const structure = structures[category];
     if (structure) {
+      // Only missing keys are seeded; what agents and teachers wrote since is kept on every boot
+      const existing = new Set((await agentricaiKnowledgeDB.listKnowledge(category)).map(entry => entry.key));
       for (const [key, value] of Object.entries(structure)) {
-        await this.storeKnowledge(category, key, value);
+        if (existing.has(key)) continue;
+        await agentricaiKnowledgeDB.storeKnowledge(category, key, value, 'system-init', 1.0);
       }
     }
   }
 
-  private updateSearchIndex(category: string, key: string, value: any): void {
-    const searchTerms = this.extractSearchTerms(category, key, value);
-    const cacheKey = `${category}:${key}`;
-    
-    for (const term of searchTerms) {
-      if (!this.searchIndex.has(term)) {
-        this.searchIndex.set(term, new Set());
-      }
-      this.searchIndex.get(term)!.add(cacheKey);
-    }
-  }
-
-  private extractSearchTerms(category: string, key: string, value: any): string[] {
-    const terms = [category, key];
-    
-    if (typeof value === 'string') {
-      terms.push(...value.toLowerCase().split(/\s+/));
-    } else if (typeof value === 'object' && value !== null) {
-      const jsonString = JSON.stringify(value).toLowerCase();
-      terms.push(...jsonString.match(/\w+/g) || []);
-    }
-    
-    return [...new Set(terms.filter(term => term.length > 2))];
-  }
-
-  private updateKnowledgeGraph(category: string, key: string, value: any): void {
-    const nodeId = `${category}:${key}`;
-    
-    if (!this.knowledgeGraph.has(nodeId)) {
-      this.knowledgeGraph.set(nodeId, new Set());
-    }
+  // The database logs and versions the write; one that lost the merge or awaits review is reported, not retried
+  private async writeKnowledge(category: string, key: string, value: any, sourceAgent?: string, confidence?: number): Promise<void> {
+    const result = await agentricaiKnowledgeDB.writeKnowledge(
+      category,
+      key,
+      value,
+      sourceAgent || this.id,
+      typeof confidence === 'number' ? confidence : DEFAULT_WRITE_CONFIDENCE
+    );
 
-    // Find relationships based on content
-    if (typeof value === 'object' && value !== null) {
-      for (const [k, v] of Object.entries(value)) {
-        if (typeof v === 'string' && v.includes('_')) {
-          // Potential reference to another knowledge entry
-          this.knowledgeGraph.get(nodeId)!.add(`reference:${v}`);
-        }
-      }
+    if (result.outcome === 'rejected' || result.outcome === 'pending') {
+      console.log(`⚖️ Knowledge ${category}/${key} kept at version ${result.current?.version} (${result.outcome})`);
+      return;
     }
 
-    // Category-based relationships
-    for (const [otherNodeId] of this.knowledgeGraph.entries()) {
-      if (otherNodeId.startsWith(category) && otherNodeId !== nodeId) {
-        this.knowledgeGraph.get(nodeId)!.add(`category_peer:${otherNodeId}`);
-      }
-    }
+    this.metrics.tasksCompleted += 1;
   }
 
-  private async trackAccessPattern(operation: string, category: string, key: string): Promise<void> {
-    const patternKey = `${operation}:${category}`;
-    const pattern = this.accessPatterns.get(patternKey) || {
-      operation,
-      category,
-      count: 0,
-      lastAccess: new Date(),
-      frequency: 0,
-      keys: new Set()
-    };
+  // Access patterns per operation and category, from the database's access log so every agent's
+  // reads and writes count, not just this one's. Searches and queries count under 'search'/'query'.
+  private async getAccessPatterns(): Promise<any[]> {
+    const patterns = new Map<string, any>();
 
-    pattern.count += 1;
-    pattern.lastAccess = new Date();
-    pattern.keys.add(key);
-    
-    // Calculate frequency (accesses per hour)
-    const hoursSinceFirst = pattern.firstAccess ? 
-      (Date.now() - pattern.firstAccess.getTime()) / (1000 * 60 * 60) : 1;
-    pattern.frequency = pattern.count / hoursSinceFirst;
-
-    if (!pattern.firstAccess) {
-      pattern.firstAccess = new Date();
+    for (const access of await agentricaiKnowledgeDB.getAccessLog()) {
+      const category = access.knowledge_key.split(':')[0];
+      const patternKey = `${access.access_type}:${category}`;
+      const timestamp = new Date(access.timestamp);
+      const pattern = patterns.get(patternKey) || {
+        operation: access.access_type,
+        category,
+        count: 0,
+        firstAccess: timestamp,
+        lastAccess: timestamp,
+        frequency: 0,
+        keys: new Set()
+      };
+
+      pattern.count += 1;
+      pattern.lastAccess = timestamp;
+      pattern.keys.add(access.knowledge_key);
+      patterns.set(patternKey, pattern);
     }
 
-    this.accessPatterns.set(patternKey, pattern);
-  }
-
-  private calculateRelevanceScore(query: string, result: any): number {
-    let score = 0;
-    const queryLower = query.toLowerCase();
-    
-    // Exact key match
-    if (result.key.toLowerCase().includes(queryLower)) score += 50;
-    
-    // Category match
-    if (result.category.toLowerCase().includes(queryLower)) score += 30;
-    
-    // Value content match
-    const valueString = JSON.stringify(result.value).toLowerCase();
-    const queryWords = queryLower.split(/\s+/);
-    
-    for (const word of queryWords) {
-      if (valueString.includes(word)) score += 10;
+    // Accesses per hour, counting at least an hour so a burst at startup does not look like a trend
+    for (const pattern of patterns.values()) {
+      const hours = (pattern.lastAccess.getTime() - pattern.firstAccess.getTime()) / (1000 * 60 * 60);
+      pattern.frequency = pattern.count / Math.max(hours, 1);
     }
-    
-    // Confidence score boost
-    score += (result.confidence_score || 0) * 20;
-    
-    return score;
-  }
 
-  private getAccessFrequency(category: string, key: string): number {
-    const cacheKey = `${category}:${key}`;
-    const knowledge = this.knowledgeCache.get(cacheKey);
-    return knowledge?.accessCount || 0;
+    return Array.from(patterns.values());
   }
 
-  private findRelatedKnowledge(category: string, key: string): string[] {
-    const nodeId = `${category}:${key}`;
-    const relationships = this.knowledgeGraph.get(nodeId);
+  private getCategoryStats(entries: any[]): Record<string, any> {
+    const stats: Record<string, any> = {};
     
-    if (!relationships) return [];
-    
-    return Array.from(relationships)
-      .map(rel => rel.split(':')[1])
-      .filter(rel => rel && rel !== nodeId)
-      .slice(0, 5);
-  }
-
-  private getCategoryStats(): any {
-    const stats = {};
-    
-    for (const knowledge of this.knowledgeCache.values()) {
-      if (!stats[knowledge.category]) {
-        stats[knowledge.category] = {
+    for (const entry of entries) {
+      const updated = new Date(entry.updated_at);
+      if (!stats[entry.category]) {
+        stats[entry.category] = {
           count: 0,
-          lastUpdated: knowledge.timestamp,
+          lastUpdated: updated,
           totalAccesses: 0
         };
       }
       
-      stats[knowledge.category].count += 1;
-      stats[knowledge.category].totalAccesses += knowledge.accessCount || 0;
+      stats[entry.category].count += 1;
+      stats[entry.category].totalAccesses += entry.access_count || 0;
       
-      if (knowledge.timestamp > stats[knowledge.category].lastUpdated) {
-        stats[knowledge.category].lastUpdated = knowledge.timestamp;
+      if (updated > stats[entry.category].lastUpdated) {
+        stats[entry.category].lastUpdated = updated;
       }
     }
     
     return stats;
   }
 
-  private getAccessPatternAnalysis(): any {
+  private getAccessPatternAnalysis(accessPatterns: any[]): any {
     const analysis = {
-      mostAccessedCategories: [],
-      mostFrequentOperations: [],
+      mostAccessedCategories: [] as { category: string; count: number }[],
+      mostFrequentOperations: [] as { operation: string; frequency: number }[],
       peakAccessTimes: [],
       accessTrends: {}
     };
 
     // Analyze most accessed categories
-    const categoryAccess = {};
-    for (const pattern of this.accessPatterns.values()) {
+    const categoryAccess: Record<string, number> = {};
+    for (const pattern of accessPatterns) {
       categoryAccess[pattern.category] = (categoryAccess[pattern.category] || 0) + pattern.count;
     }
 
@@ -464,8 +338,8 @@ export class KnowledgeManager extends BaseAgent implements IKnowledgeAgent {
       .map(([category, count]) => ({ category, count }));
 
     // Analyze operation frequency
-    const operationFreq = {};
-    for (const pattern of this.accessPatterns.values()) {
+    const operationFreq: Record<string, number> = {};
+    for (const pattern of accessPatterns) {
       operationFreq[pattern.operation] = (operationFreq[pattern.operation] || 0) + pattern.frequency;
     }
 
@@ -476,46 +350,44 @@ export class KnowledgeManager extends BaseAgent implements IKnowledgeAgent {
     return analysis;
   }
 
-  private getKnowledgeGraphStats(): any {
+  private getKnowledgeGraphStats(graph: KnowledgeGraphSnapshot): any {
+    // Each edge connects two nodes
+    const connections = new Map<string, number>();
+    for (const edge of graph.edges) {
+      connections.set(edge.from, (connections.get(edge.from) || 0) + 1);
+      connections.set(edge.to, (connections.get(edge.to) || 0) + 1);
+    }
+
     return {
-      totalNodes: this.knowledgeGraph.size,
-      totalConnections: Array.from(this.knowledgeGraph.values())
-        .reduce((sum, connections) => sum + connections.size, 0),
-      averageConnections: this.knowledgeGraph.size > 0 ? 
-        Array.from(this.knowledgeGraph.values())
-          .reduce((sum, connections) => sum + connections.size, 0) / this.knowledgeGraph.size : 0,
-      mostConnectedNodes: this.getMostConnectedNodes()
+      totalNodes: graph.nodes.length,
+      totalConnections: graph.edges.length,
+      averageConnections: graph.nodes.length > 0 ? (graph.edges.length * 2) / graph.nodes.length : 0,
+      mostConnectedNodes: Array.from(connections.entries())
+        .map(([nodeId, connectionCount]) => ({ nodeId, connectionCount }))
+        .sort((a, b) => b.connectionCount - a.connectionCount)
+        .slice(0, 5)
     };
   }
 
-  private getMostConnectedNodes(): any[] {
-    return Array.from(this.knowledgeGraph.entries())
-      .map(([nodeId, connections]) => ({ nodeId, connectionCount: connections.size }))
-      .sort((a, b) => b.connectionCount - a.connectionCount)
-      .slice(0, 5);
-  }
-
-  private identifyKnowledgeTrends(): any {
+  private identifyKnowledgeTrends(entries: any[], accessPatterns: any[]): any {
     const trends = {
-      growthRate: this.calculateGrowthRate(),
-      popularCategories: this.getPopularCategories(),
-      emergingPatterns: this.getEmergingPatterns(),
-      knowledgeGaps: this.identifyKnowledgeGaps()
+      growthRate: this.calculateGrowthRate(entries),
+      popularCategories: this.getPopularCategories(entries),
+      emergingPatterns: this.getEmergingPatterns(accessPatterns),
+      knowledgeGaps: this.identifyKnowledgeGaps(entries)
     };
 
     return trends;
   }
 
-  private calculateGrowthRate(): number {
-    // Calculate knowledge base growth rate
-    const recentEntries = Array.from(this.knowledgeCache.values())
-      .filter(k => k.timestamp > new Date(Date.now() - 24 * 60 * 60 * 1000));
-    
-    return recentEntries.length;
+  private calculateGrowthRate(entries: any[]): number {
+    // Entries created in the last day
+    const dayAgo = clock.now() - 24 * 60 * 60 * 1000;
+    return entries.filter(entry => new Date(entry.created_at).getTime() > dayAgo).length;
   }
 
-  private getPopularCategories(): any[] {
-    const categoryStats = this.getCategoryStats();
+  private getPopularCategories(entries: any[]): any[] {
+    const categoryStats = this.getCategoryStats(entries);
     
     return Object.entries(categoryStats)
       .sort(([,a], [,b]) => b.totalAccesses - a.totalAccesses)
@@ -523,12 +395,12 @@ export class KnowledgeManager extends BaseAgent implements IKnowledgeAgent {
       .map(([category, stats]) => ({ category, ...stats }));
   }
 
-  private getEmergingPatterns(): string[] {
+  private getEmergingPatterns(accessPatterns: any[]): string[] {
     // Identify emerging knowledge patterns
     const patterns = [];
     
-    const recentAccess = Array.from(this.accessPatterns.values())
-      .filter(p => p.lastAccess > new Date(Date.now() - 60 * 60 * 1000)); // Last hour
+    const recentAccess = accessPatterns
+      .filter(p => p.lastAccess > new Date(clock.now() - 60 * 60 * 1000)); // Last hour
     
     if (recentAccess.length > 0) {
       const mostActive = recentAccess
@@ -539,19 +411,12 @@ export class KnowledgeManager extends BaseAgent implements IKnowledgeAgent {
     return patterns;
   }
 
-  private identifyKnowledgeGaps(): string[] {
+  private identifyKnowledgeGaps(entries: any[]): string[] {
     const gaps = [];
     
     // Check for missing knowledge in core categories
-    const coreCategories = [
-      'neurodiverse_learning_patterns',
-      'sensory_processing_preferences',
-      'behavioral_indicators'
-    ];
-
-    for (const category of coreCategories) {
-      const categoryEntries = Array.from(this.knowledgeCache.values())
-        .filter(k => k.category === category);
+    for (const category of CORE_CATEGORIES) {
+      const categoryEntries = entries.filter(entry => entry.category === category);
       
       if (categoryEntries.length < 5) {
         gaps.push(`Insufficient knowledge in ${category}`);
@@ -561,35 +426,23 @@ export class KnowledgeManager extends BaseAgent implements IKnowledgeAgent {
     return gaps;
   }
 
-  private identifyOptimizationOpportunities(): string[] {
+  private identifyOptimizationOpportunities(entries: any[]): string[] {
     const opportunities = [];
     
-    // Check cache efficiency
-    const cacheHitRate = this.calculateCacheHitRate();
-    if (cacheHitRate < 0.8) {
-      opportunities.push('Improve cache hit rate through better prefetching');
-    }
-
     // Check for unused knowledge
-    const unusedKnowledge = Array.from(this.knowledgeCache.values())
-      .filter(k => (k.accessCount || 0) === 0);
+    const unusedKnowledge = entries.filter(entry => (entry.access_count || 0) === 0);
     
-    if (unusedKnowledge.length > this.knowledgeCache.size * 0.2) {
+    if (unusedKnowledge.length > entries.length * 0.2) {
       opportunities.push('Archive or remove unused knowledge entries');
     }
 
-    return opportunities;
-  }
+    // Writes held for review are knowledge agents cannot use yet
+    const conflicts = agentricaiKnowledgeDB.getPendingConflicts();
+    if (conflicts.length > 0) {
+      opportunities.push(`Review ${conflicts.length} conflicting knowledge ${conflicts.length === 1 ? 'write' : 'writes'}`);
+    }
 
-  private calculateCacheHitRate(): number {
-    // Simplified cache hit rate calculation
-    const totalRequests = Array.from(this.accessPatterns.values())
-      .reduce((sum, pattern) => sum + pattern.count, 0);
-    
-    const cacheHits = Array.from(this.knowledgeCache.values())
-      .reduce((sum, knowledge) => sum + (knowledge.accessCount || 0), 0);
-    
-    return totalRequests > 0 ? cacheHits / totalRequests : 1;
+    return opportunities;
   }
 
   private generateKnowledgeRecommendations(analysis: any): string[] {
@@ -610,7 +463,7 @@ export class KnowledgeManager extends BaseAgent implements IKnowledgeAgent {
     return recommendations;
   }
 
-  private async handleKnowledgeRequest(message: AgentMessage): Promise<void> {
+  private async handleKnowledgeRequest(message: AgentMessageOf<'knowledge-request'>): Promise<void> {
     const { category, key } = message.data;
     const knowledge = await this.retrieveKnowledge(category, key);
     
@@ -621,18 +474,18 @@ export class KnowledgeManager extends BaseAgent implements IKnowledgeAgent {
       type: 'knowledge-response',
       data: { category, key, knowledge },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
   }
 
-  private async handleKnowledgeUpdate(message: AgentMessage): Promise<void> {
-    const { category, key, value } = message.data;
-    await this.updateKnowledge(category, key, value);
+  private async handleKnowledgeUpdate(message: AgentMessageOf<'knowledge-update'>): Promise<void> {
+    const { category, key, value, confidence } = message.data;
+    await this.updateKnowledge(category, key, value, message.fromAgentId, confidence);
   }
 
-  private async handleSearchRequest(message: AgentMessage): Promise<void> {
+  private async handleSearchRequest(message: AgentMessageOf<'search-request'>): Promise<void> {
     const { query } = message.data;
     const results = await this.searchKnowledge(query);
     
@@ -643,13 +496,13 @@ export class KnowledgeManager extends BaseAgent implements IKnowledgeAgent {
       type: 'search-results',
       data: { query, results },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
   }
 
-  private async handlePatternAnalysisRequest(message: AgentMessage): Promise<void> {
+  private async handlePatternAnalysisRequest(message: AgentMessageOf<'pattern-analysis-request'>): Promise<void> {
     const analysis = await this.analyzeKnowledgePatterns();
     
     await this.sendMessage(message.fromAgentId, {
@@ -659,7 +512,7 @@ export class KnowledgeManager extends BaseAgent implements IKnowledgeAgent {
       type: 'pattern-analysis-response',
       data: { analysis },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
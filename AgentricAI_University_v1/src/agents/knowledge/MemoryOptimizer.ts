@@ -1,13 +1,15 @@
 // Memory Optimizer Agent - Memory and storage optimization for AgentricAI University
 
 import { BaseAgent } from '../base/BaseAgent';
-import { AgentConfig, AgentMessage } from '../base/AgentTypes';
+import { AgentConfig, AgentMessageOf, TypedAgentMessage } from '../base/AgentTypes';
+import { clock, random, scheduler, TimerHandle } from '../base/AgentEnvironment';
 
 export class MemoryOptimizer extends BaseAgent {
   private memoryPools: Map<string, any> = new Map();
   private optimizationRules: Map<string, any> = new Map();
   private memoryUsageHistory: Map<string, any[]> = new Map();
   private garbageCollectionSchedule: Map<string, Date> = new Map();
+  private monitoringTimer?: TimerHandle;
 
   constructor() {
     const config: AgentConfig = {
@@ -33,9 +35,17 @@ export class MemoryOptimizer extends BaseAgent {
     super(config);
     this.initializeMemoryPools();
     this.initializeOptimizationRules();
+  }
+
+  protected async onStart(): Promise<void> {
     this.startMemoryMonitoring();
   }
 
+  protected async onStop(): Promise<void> {
+    scheduler.clearInterval(this.monitoringTimer);
+    this.monitoringTimer = undefined;
+  }
+
   async processTask(taskData: any): Promise<any> {
     const { type, data } = taskData;
 
@@ -68,7 +78,7 @@ export class MemoryOptimizer extends BaseAgent {
     
     const optimization = {
       agentId,
-      startTime: new Date(),
+      startTime: clock.date(),
       memoryBefore: await this.getMemoryUsage(agentId),
       optimizations: [],
       memoryAfter: null,
@@ -109,7 +119,7 @@ export class MemoryOptimizer extends BaseAgent {
       optimization.memoryAfter
     );
 
-    optimization.endTime = new Date();
+    optimization.endTime = clock.date();
     optimization.duration = optimization.endTime.getTime() - optimization.startTime.getTime();
 
     // Store optimization results
@@ -124,7 +134,7 @@ export class MemoryOptimizer extends BaseAgent {
     
     const collection = {
       agentId,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       itemsCollected: 0,
       memoryFreed: 0,
       categories: {
@@ -162,7 +172,7 @@ export class MemoryOptimizer extends BaseAgent {
     
     const analysis = {
       agentId,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       shortTermMemorySize: this.getShortTermMemorySize(agentId),
       longTermMemorySize: this.getLongTermMemorySize(agentId),
       workingMemorySize: this.getWorkingMemorySize(agentId),
@@ -191,7 +201,7 @@ export class MemoryOptimizer extends BaseAgent {
     return analysis;
   }
 
-  protected async processMessage(message: AgentMessage): Promise<void> {
+  protected async processMessage(message: TypedAgentMessage): Promise<void> {
     switch (message.type) {
       case 'memory-optimization-request':
         await this.handleMemoryOptimizationRequest(message);
@@ -219,7 +229,7 @@ export class MemoryOptimizer extends BaseAgent {
       "I'm like Marie Kondo for computer memory - everything has its place! ✨📦"
     ];
     
-    return responses[Math.floor(Math.random() * responses.length)];
+    return responses[Math.floor(random.next() * responses.length)];
   }
 
   // Private helper methods
@@ -274,7 +284,7 @@ export class MemoryOptimizer extends BaseAgent {
 
   private startMemoryMonitoring(): void {
     // Monitor memory usage every 30 seconds
-    setInterval(async () => {
+    this.monitoringTimer = scheduler.setInterval(async () => {
       await this.performRoutineOptimization();
     }, 30000);
   }
@@ -310,40 +320,40 @@ export class MemoryOptimizer extends BaseAgent {
 
   private async getMemoryUsage(agentId: string): Promise<any> {
     return {
-      total: Math.floor(Math.random() * 1000) + 500, // Simulated
-      shortTerm: Math.floor(Math.random() * 300) + 100,
-      longTerm: Math.floor(Math.random() * 500) + 200,
-      cache: Math.floor(Math.random() * 200) + 50,
-      working: Math.floor(Math.random() * 100) + 25
+      total: Math.floor(random.next() * 1000) + 500, // Simulated
+      shortTerm: Math.floor(random.next() * 300) + 100,
+      longTerm: Math.floor(random.next() * 500) + 200,
+      cache: Math.floor(random.next() * 200) + 50,
+      working: Math.floor(random.next() * 100) + 25
     };
   }
 
   private getShortTermMemorySize(agentId: string): number {
-    return Math.floor(Math.random() * 300) + 100;
+    return Math.floor(random.next() * 300) + 100;
   }
 
   private getLongTermMemorySize(agentId: string): number {
-    return Math.floor(Math.random() * 500) + 200;
+    return Math.floor(random.next() * 500) + 200;
   }
 
   private getWorkingMemorySize(agentId: string): number {
-    return Math.floor(Math.random() * 100) + 25;
+    return Math.floor(random.next() * 100) + 25;
   }
 
   private getCacheSize(agentId: string): number {
-    return Math.floor(Math.random() * 200) + 50;
+    return Math.floor(random.next() * 200) + 50;
   }
 
   private calculateFragmentationLevel(agentId: string): number {
-    return Math.random() * 0.5; // 0-50% fragmentation
+    return random.next() * 0.5; // 0-50% fragmentation
   }
 
   private calculateCacheEfficiency(agentId: string): number {
-    return 0.6 + Math.random() * 0.4; // 60-100% efficiency
+    return 0.6 + random.next() * 0.4; // 60-100% efficiency
   }
 
   private getOldDataSize(agentId: string): number {
-    return Math.floor(Math.random() * 200);
+    return Math.floor(random.next() * 200);
   }
 
   private calculatePerformanceImprovement(before: any, after: any): number {
@@ -374,28 +384,28 @@ export class MemoryOptimizer extends BaseAgent {
   }
 
   private scheduleNextGarbageCollection(agentId: string): void {
-    const nextCollection = new Date(Date.now() + 60 * 60 * 1000); // 1 hour from now
+    const nextCollection = new Date(clock.now() + 60 * 60 * 1000); // 1 hour from now
     this.garbageCollectionSchedule.set(agentId, nextCollection);
   }
 
   private async collectExpiredCache(agentId: string): Promise<number> {
     // Simulate collecting expired cache entries
-    return Math.floor(Math.random() * 20) + 5;
+    return Math.floor(random.next() * 20) + 5;
   }
 
   private async removeUnusedReferences(agentId: string): Promise<number> {
     // Simulate removing unused references
-    return Math.floor(Math.random() * 15) + 3;
+    return Math.floor(random.next() * 15) + 3;
   }
 
   private async cleanOldTemporaryData(agentId: string): Promise<number> {
     // Simulate cleaning old temporary data
-    return Math.floor(Math.random() * 25) + 8;
+    return Math.floor(random.next() * 25) + 8;
   }
 
   private async removeDuplicateEntries(agentId: string): Promise<number> {
     // Simulate removing duplicate entries
-    return Math.floor(Math.random() * 10) + 2;
+    return Math.floor(random.next() * 10) + 2;
   }
 
   private async optimizeShortTermMemory(agentId: string): Promise<void> {
@@ -408,16 +418,16 @@ export class MemoryOptimizer extends BaseAgent {
     
     const optimization = {
       cacheType,
-      beforeSize: Math.floor(Math.random() * 500) + 200,
+      beforeSize: Math.floor(random.next() * 500) + 200,
       afterSize: 0,
       hitRateImprovement: 0,
       accessSpeedImprovement: 0
     };
 
     // Simulate cache optimization
-    optimization.afterSize = optimization.beforeSize * (0.7 + Math.random() * 0.2);
-    optimization.hitRateImprovement = Math.random() * 0.2; // Up to 20% improvement
-    optimization.accessSpeedImprovement = Math.random() * 0.3; // Up to 30% improvement
+    optimization.afterSize = optimization.beforeSize * (0.7 + random.next() * 0.2);
+    optimization.hitRateImprovement = random.next() * 0.2; // Up to 20% improvement
+    optimization.accessSpeedImprovement = random.next() * 0.3; // Up to 30% improvement
 
     return optimization;
   }
@@ -426,19 +436,19 @@ export class MemoryOptimizer extends BaseAgent {
     console.log(`🔧 Defragmenting system memory`);
     
     const defrag = {
-      startTime: new Date(),
-      fragmentationBefore: Math.random() * 0.5,
+      startTime: clock.date(),
+      fragmentationBefore: random.next() * 0.5,
       fragmentationAfter: 0,
       memoryReclaimed: 0,
       performanceGain: 0
     };
 
     // Simulate defragmentation
-    defrag.fragmentationAfter = defrag.fragmentationBefore * (0.1 + Math.random() * 0.2);
+    defrag.fragmentationAfter = defrag.fragmentationBefore * (0.1 + random.next() * 0.2);
     defrag.memoryReclaimed = (defrag.fragmentationBefore - defrag.fragmentationAfter) * 1000;
     defrag.performanceGain = (defrag.fragmentationBefore - defrag.fragmentationAfter) * 100;
 
-    defrag.endTime = new Date();
+    defrag.endTime = clock.date();
     defrag.duration = defrag.endTime.getTime() - defrag.startTime.getTime();
 
     return defrag;
@@ -449,18 +459,18 @@ export class MemoryOptimizer extends BaseAgent {
     
     const compression = {
       dataType,
-      originalSize: Math.floor(Math.random() * 1000) + 500,
+      originalSize: Math.floor(random.next() * 1000) + 500,
       compressedSize: 0,
       compressionRatio: 0,
       timeToCompress: 0
     };
 
-    const startTime = Date.now();
+    const startTime = clock.now();
     
     // Simulate compression
-    compression.compressedSize = compression.originalSize * (0.3 + Math.random() * 0.4);
+    compression.compressedSize = compression.originalSize * (0.3 + random.next() * 0.4);
     compression.compressionRatio = compression.compressedSize / compression.originalSize;
-    compression.timeToCompress = Date.now() - startTime;
+    compression.timeToCompress = clock.now() - startTime;
 
     return compression;
   }
@@ -490,7 +500,7 @@ export class MemoryOptimizer extends BaseAgent {
     // Simulate long-term memory compression
   }
 
-  private async handleMemoryOptimizationRequest(message: AgentMessage): Promise<void> {
+  private async handleMemoryOptimizationRequest(message: AgentMessageOf<'memory-optimization-request'>): Promise<void> {
     const { agentId } = message.data;
     const optimization = await this.optimizeAgentMemory(agentId);
     
@@ -501,13 +511,13 @@ export class MemoryOptimizer extends BaseAgent {
       type: 'memory-optimization-complete',
       data: { optimization },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
   }
 
-  private async handleGarbageCollectionRequest(message: AgentMessage): Promise<void> {
+  private async handleGarbageCollectionRequest(message: AgentMessageOf<'garbage-collection-request'>): Promise<void> {
     const { agentId } = message.data;
     const collection = await this.performGarbageCollection(agentId);
     
@@ -518,13 +528,13 @@ export class MemoryOptimizer extends BaseAgent {
       type: 'garbage-collection-complete',
       data: { collection },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
   }
 
-  private async handleMemoryAnalysisRequest(message: AgentMessage): Promise<void> {
+  private async handleMemoryAnalysisRequest(message: AgentMessageOf<'memory-analysis-request'>): Promise<void> {
     const { agentId } = message.data;
     const analysis = await this.analyzeMemoryUsage(agentId);
     
@@ -535,7 +545,7 @@ export class MemoryOptimizer extends BaseAgent {
       type: 'memory-analysis-response',
       data: { analysis },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
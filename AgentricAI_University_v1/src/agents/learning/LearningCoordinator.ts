@@ -2,7 +2,8 @@
 
 import { BaseAgent } from '../base/BaseAgent';
 import { ILearningAgent } from '../base/AgentInterface';
-import { AgentConfig, AgentMessage, NeurodiverseProfile } from '../base/AgentTypes';
+import { AgentConfig, AgentMessageOf, TypedAgentMessage, NeurodiverseProfile, AgentCapability } from '../base/AgentTypes';
+import { clock, random } from '../base/AgentEnvironment';
 
 export class LearningCoordinator extends BaseAgent implements ILearningAgent {
   private learningProfiles: Map<string, any> = new Map();
@@ -64,15 +65,15 @@ export class LearningCoordinator extends BaseAgent implements ILearningAgent {
     // Simulate learning assessment
     const assessment = {
       userId,
-      timestamp: new Date(),
-      overallProgress: Math.floor(Math.random() * 100),
+      timestamp: clock.date(),
+      overallProgress: Math.floor(random.next() * 100),
       skillAreas: {
-        colorRecognition: Math.floor(Math.random() * 100),
-        shapeMatching: Math.floor(Math.random() * 100),
-        numberGames: Math.floor(Math.random() * 100),
-        letterTracing: Math.floor(Math.random() * 100)
+        colorRecognition: Math.floor(random.next() * 100),
+        shapeMatching: Math.floor(random.next() * 100),
+        numberGames: Math.floor(random.next() * 100),
+        letterTracing: Math.floor(random.next() * 100)
       },
-      engagementLevel: Math.floor(Math.random() * 100),
+      engagementLevel: Math.floor(random.next() * 100),
       adaptiveRecommendations: await this.generateAdaptiveRecommendations(userId),
       neurodiverseConsiderations: this.analyzeNeurodiverseNeeds(userProfile)
     };
@@ -84,7 +85,7 @@ export class LearningCoordinator extends BaseAgent implements ILearningAgent {
 
     // Update metrics
     this.metrics.tasksCompleted += 1;
-    this.metrics.lastActivity = new Date();
+    this.metrics.lastActivity = clock.date();
 
     // Notify other agents
     await this.sendMessage('behavior-analyst', {
@@ -94,7 +95,7 @@ export class LearningCoordinator extends BaseAgent implements ILearningAgent {
       type: 'learning-assessment',
       data: { userId, assessment },
       priority: 'medium',
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false
     });
 
@@ -104,7 +105,7 @@ export class LearningCoordinator extends BaseAgent implements ILearningAgent {
   async adaptContent(content: any, userProfile: any): Promise<any> {
     console.log(`🎯 Adapting content for user profile`);
     
-    const adaptedContent = { ...content };
+    let adaptedContent = { ...content };
     
     // Apply neurodiverse optimizations
     if (userProfile.neurodiverseProfile) {
@@ -141,7 +142,7 @@ export class LearningCoordinator extends BaseAgent implements ILearningAgent {
     const engagementRecord = {
       userId,
       activityId,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       engagementLevel: engagement.level,
       timeSpent: engagement.timeSpent,
       completionRate: engagement.completionRate,
@@ -158,19 +159,21 @@ export class LearningCoordinator extends BaseAgent implements ILearningAgent {
     
     // If engagement is low, trigger content adaptation
     if (engagement.level < 50) {
-      await this.sendMessage('content-generator', {
+      await this.sendMessage('content-generator-001', {
         id: '',
         fromAgentId: this.id,
-        toAgentId: 'content-generator',
+        toAgentId: 'content-generator-001',
         type: 'content-request',
         data: { 
-          userId, 
-          activityId, 
-          reason: 'low_engagement',
-          patterns 
+          requirements: {
+            userId, 
+            activityId, 
+            reason: 'low_engagement',
+            patterns 
+          }
         },
         priority: 'high',
-        timestamp: new Date(),
+        timestamp: clock.date(),
         requiresResponse: true
       });
     }
@@ -241,7 +244,16 @@ export class LearningCoordinator extends BaseAgent implements ILearningAgent {
   }
 
   // Message processing
-  protected async processMessage(message: AgentMessage): Promise<void> {
+  protected describeCapability(capability: string): Partial<AgentCapability> {
+    const details: Record<string, Partial<AgentCapability>> = {
+      'learning-assessment': { inputTypes: ['learning-assessment'], outputTypes: ['assessment-response'], processingTime: 800, tasks: ['assess_learning', 'generate_recommendations'] },
+      'progress-tracking': { inputTypes: ['progress-update'], outputTypes: [], processingTime: 200, tasks: ['track_engagement'] },
+      'content-adaptation': { inputTypes: ['content-adaptation-request'], outputTypes: ['adapted-content'], processingTime: 1200, tasks: ['adapt_content'] }
+    };
+    return { ...super.describeCapability(capability), ...details[capability] };
+  }
+
+  protected async processMessage(message: TypedAgentMessage): Promise<void> {
     switch (message.type) {
       case 'learning-assessment':
         await this.handleAssessmentRequest(message);
@@ -287,7 +299,7 @@ export class LearningCoordinator extends BaseAgent implements ILearningAgent {
       "Your brain is like a super computer - so cool! 🧠✨"
     ];
     
-    return responses[Math.floor(Math.random() * responses.length)];
+    return responses[Math.floor(random.next() * responses.length)];
   }
 
   // Private helper methods
@@ -299,7 +311,7 @@ export class LearningCoordinator extends BaseAgent implements ILearningAgent {
       "Consider shorter activity sessions"
     ];
     
-    return recommendations.slice(0, Math.floor(Math.random() * 3) + 1);
+    return recommendations.slice(0, Math.floor(random.next() * 3) + 1);
   }
 
   private analyzeNeurodiverseNeeds(userProfile: any): any {
@@ -333,7 +345,7 @@ export class LearningCoordinator extends BaseAgent implements ILearningAgent {
     };
   }
 
-  private async handleAssessmentRequest(message: AgentMessage): Promise<void> {
+  private async handleAssessmentRequest(message: AgentMessageOf<'learning-assessment'>): Promise<void> {
     const { userId } = message.data;
     const assessment = await this.assessLearningProgress(userId);
     
@@ -346,25 +358,25 @@ export class LearningCoordinator extends BaseAgent implements ILearningAgent {
         type: 'assessment-response',
         data: { assessment },
         priority: message.priority,
-        timestamp: new Date(),
+        timestamp: clock.date(),
         requiresResponse: false,
         correlationId: message.id
       });
     }
   }
 
-  private async handleProgressUpdate(message: AgentMessage): Promise<void> {
-    const { userId, progress } = message.data;
-    this.storeMemory(`progress_${userId}`, progress, 'short');
+  private async handleProgressUpdate(message: AgentMessageOf<'progress-update'>): Promise<void> {
+    const { studentId, progress } = message.data;
+    this.storeMemory(`progress_${studentId}`, progress, 'short');
     
     // Update learning profile
-    const profile = this.learningProfiles.get(userId) || {};
-    profile.lastUpdate = new Date();
+    const profile = this.learningProfiles.get(studentId) || {};
+    profile.lastUpdate = clock.date();
     profile.currentProgress = progress;
-    this.learningProfiles.set(userId, profile);
+    this.learningProfiles.set(studentId, profile);
   }
 
-  private async handleContentAdaptationRequest(message: AgentMessage): Promise<void> {
+  private async handleContentAdaptationRequest(message: AgentMessageOf<'content-adaptation-request'>): Promise<void> {
     const { content, userProfile } = message.data;
     const adaptedContent = await this.adaptContent(content, userProfile);
     
@@ -376,7 +388,7 @@ export class LearningCoordinator extends BaseAgent implements ILearningAgent {
       type: 'adapted-content',
       data: { adaptedContent },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
@@ -0,0 +1,124 @@
+// Simulation Scenarios - Scripted learner sessions for the simulation runner
+
+import { InteractionMonitor } from '../behavior/InteractionMonitor';
+import { DifficultyAdapter } from '../content/DifficultyAdapter';
+import { SimulationRunner, SimulationScenario } from './SimulationRunner';
+
+export interface ShapeMatchingAttempt {
+  attempt: number;
+  at: Date;
+  correct: boolean;
+  responseTime: number;
+  frustrationIndicators: string[];
+  attentionLevel: number;
+  needsIntervention: boolean;
+}
+
+export interface ShapeMatchingOutput {
+  attempts: ShapeMatchingAttempt[];
+  difficultyTrail: { afterAttempt: number; accuracy: number; frustrationLevel: number; difficulty: string }[];
+  alerts: { type: string; at: Date; severity: string }[];
+  finalAnalysis: any;
+}
+
+const STUDENT_ID = 'sim-student-001';
+const SESSION_ID = 'sim-shape-matching-session';
+const ATTEMPTS = 20;
+const DIFFICULTY_CHECK_EVERY = 5;
+
+// A child makes 20 shape-matching attempts; frustration rises from calm to overwhelmed
+export const shapeMatchingFrustrationScenario: SimulationScenario<ShapeMatchingOutput> = {
+  name: 'shape-matching-rising-frustration',
+  description: 'Child does 20 shape-matching attempts with rising frustration',
+
+  async run(simulation: SimulationRunner): Promise<ShapeMatchingOutput> {
+    const monitor = simulation.getAgent<InteractionMonitor>('interaction-monitor');
+    const difficultyAdapter = simulation.getAgent<DifficultyAdapter>('difficulty-adapter');
+    const rng = simulation.random;
+
+    await monitor.startMonitoring(STUDENT_ID, SESSION_ID);
+    const sessionStart = simulation.clock.now();
+
+    const attempts: ShapeMatchingAttempt[] = [];
+    const sessionAttempts: any[] = [];
+    const difficultyTrail: ShapeMatchingOutput['difficultyTrail'] = [];
+    let errorStreak = 0;
+    let backtracking = 0;
+
+    for (let attempt = 1; attempt <= ATTEMPTS; attempt++) {
+      const frustration = (attempt - 1) / (ATTEMPTS - 1);
+      const responseTime = Math.round(2000 + frustration * 7000 + rng.next() * 1500);
+      const correct = !rng.chance(0.2 + frustration * 0.6);
+      errorStreak = correct ? 0 : errorStreak + 1;
+      const backtracked = frustration > 0.4 && rng.chance(frustration);
+      if (backtracked) backtracking += 1;
+
+      // Time passes while the child works on the shape
+      await simulation.advance(responseTime);
+
+      const analysis = await monitor.trackInteraction(STUDENT_ID, {
+        type: 'shape-matching',
+        completed: correct,
+        firstAttemptSuccess: correct && errorStreak === 0,
+        responseTime,
+        duration: responseTime,
+        errorCount: errorStreak,
+        rapidClicking: frustration > 0.5 && rng.chance(frustration),
+        longPause: frustration > 0.6 ? Math.round(8000 + rng.next() * 6000) : 0,
+        backtracking: backtracked,
+        negativeResponse: frustration > 0.75,
+        focusTime: Math.round(40000 * (1 - frustration)),
+        distractionCount: Math.floor(frustration * 4),
+        taskSwitching: Math.floor(frustration * 3)
+      });
+
+      attempts.push({
+        attempt,
+        at: simulation.clock.date(),
+        correct,
+        responseTime,
+        frustrationIndicators: analysis.frustrationIndicators,
+        attentionLevel: analysis.attentionLevel,
+        needsIntervention: analysis.needsIntervention
+      });
+      sessionAttempts.push({ correct, responseTime, isRetry: !correct });
+
+      if (attempt % DIFFICULTY_CHECK_EVERY === 0) {
+        const performance = await difficultyAdapter.analyzePerformance(STUDENT_ID, {
+          sessionId: SESSION_ID,
+          attempts: sessionAttempts,
+          sessionDuration: simulation.clock.now() - sessionStart,
+          interactionCount: sessionAttempts.length,
+          completionRate: sessionAttempts.filter(a => a.correct).length / sessionAttempts.length,
+          rapidClicking: attempts.slice(-DIFFICULTY_CHECK_EVERY).some(a => a.frustrationIndicators.includes('rapid_clicking')),
+          longPauses: attempts.filter(a => a.frustrationIndicators.includes('extended_pause')).length,
+          backtracking,
+          errorStreak
+        });
+
+        difficultyTrail.push({
+          afterAttempt: attempt,
+          accuracy: performance.metrics.accuracy,
+          frustrationLevel: performance.metrics.frustrationLevel,
+          difficulty: await difficultyAdapter.calculateOptimalDifficulty(STUDENT_ID, 'shape-matching')
+        });
+      }
+
+      // Short breather between shapes
+      await simulation.advance(3000);
+    }
+
+    const stopped = await monitor.stopMonitoring(STUDENT_ID);
+
+    return {
+      attempts,
+      difficultyTrail,
+      alerts: stopped.session.alerts.map((alert: any) => ({ type: alert.type, at: alert.timestamp, severity: alert.severity })),
+      finalAnalysis: stopped.finalAnalysis
+    };
+  }
+};
+
+export const SIMULATION_SCENARIOS: Record<string, SimulationScenario> = {
+  [shapeMatchingFrustrationScenario.name]: shapeMatchingFrustrationScenario
+};
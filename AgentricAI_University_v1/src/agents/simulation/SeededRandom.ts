@@ -0,0 +1,32 @@
+// Seeded Random - Reproducible random source for simulations (mulberry32)
+
+import { RandomSource } from '../base/AgentEnvironment';
+
+export class SeededRandom implements RandomSource {
+  private state: number;
+
+  constructor(readonly seed: number = 1) {
+    this.state = seed >>> 0;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Integer in [min, max]
+  nextInt(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  reset(): void {
+    this.state = this.seed >>> 0;
+  }
+}
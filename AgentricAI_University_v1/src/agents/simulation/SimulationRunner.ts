@@ -0,0 +1,168 @@
+// Simulation Runner - Boots agents under virtual time and a seeded random source
+// Scenarios script what a learner does and advance the clock between steps; with the same seed
+// and start time every run produces the same agent outputs, timestamps and message ids.
+
+import { BaseAgent } from '../base/BaseAgent';
+import { AgentEnvironment, setAgentEnvironment } from '../base/AgentEnvironment';
+import { AgentRuntime, DeliveryRecord } from '../base/AgentRuntime';
+import { CapabilityRegistry } from '../base/CapabilityRegistry';
+import { AgentDefinition, AgentRegistry, ISOLATED_AGENT_DEFINITIONS } from '../system/AgentRegistry';
+import { EventBus } from '../communication/EventBus';
+import { MemoryEventLogAdapter } from '../communication/EventLogStore';
+import { VirtualClock } from './VirtualClock';
+import { SeededRandom } from './SeededRandom';
+
+export interface SimulationOptions {
+  seed?: number;
+  startTime?: number | Date;
+  // Agents to boot alongside the simulation's own Event Bus
+  agents?: AgentDefinition[];
+  // Set false when the agents bring their own 'event-bus' (e.g. a fake in tests)
+  eventBus?: boolean;
+}
+
+export interface SimulationScenario<T = any> {
+  name: string;
+  description?: string;
+  agents?: AgentDefinition[];
+  run: (simulation: SimulationRunner) => Promise<T>;
+}
+
+export interface SimulationResult<T = any> {
+  scenario: string;
+  seed: number;
+  startTime: Date;
+  endTime: Date;
+  elapsedMs: number;
+  output: T;
+  deliveries: DeliveryRecord[];
+}
+
+// Fixed default so two runs without options line up
+export const DEFAULT_SIMULATION_START = Date.UTC(2025, 0, 6, 9, 0, 0);
+
+const MAX_SETTLE_MS = 24 * 60 * 60 * 1000;
+
+export class SimulationRunner {
+  readonly clock: VirtualClock;
+  readonly random: SeededRandom;
+  readonly runtime: AgentRuntime;
+  private eventBus?: EventBus;
+  private agents: BaseAgent[] = [];
+  private previousEnvironment?: AgentEnvironment;
+  private definitions: AgentDefinition[];
+  private withEventBus: boolean;
+
+  constructor(options: SimulationOptions = {}) {
+    this.clock = new VirtualClock(options.startTime ?? DEFAULT_SIMULATION_START);
+    this.random = new SeededRandom(options.seed ?? 1);
+    this.runtime = new AgentRuntime(new CapabilityRegistry());
+    this.definitions = options.agents || ISOLATED_AGENT_DEFINITIONS;
+    this.withEventBus = options.eventBus ?? true;
+  }
+
+  async start(): Promise<BaseAgent[]> {
+    if (this.previousEnvironment) return this.agents;
+
+    console.log(`🧪 Starting simulation (seed ${this.random.seed}) at ${this.clock.date().toISOString()}`);
+
+    // Installed before any agent exists so construction-time timestamps are virtual too
+    this.previousEnvironment = setAgentEnvironment({
+      clock: this.clock,
+      random: this.random,
+      scheduler: this.clock
+    });
+
+    // Its own bus and in-memory log, so nothing is written to the live event log
+    if (this.withEventBus) {
+      const eventBus = new EventBus();
+      eventBus.setEventLogAdapter(new MemoryEventLogAdapter());
+      this.runtime.register(eventBus, ['event-bus']);
+      await eventBus.initialize();
+      await eventBus.start();
+      this.eventBus = eventBus;
+    }
+
+    const agents = await new AgentRegistry(this.runtime).bootAgents(this.definitions);
+    this.agents = this.eventBus ? [this.eventBus, ...agents] : agents;
+    return this.agents;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.previousEnvironment) return;
+
+    await this.runtime.stopAll();
+    setAgentEnvironment(this.previousEnvironment);
+    this.previousEnvironment = undefined;
+
+    console.log(`🧪 Simulation stopped at ${this.clock.date().toISOString()}`);
+  }
+
+  getAgent<T extends BaseAgent = BaseAgent>(idOrAlias: string): T {
+    const agent = this.runtime.getAgent(idOrAlias);
+    if (!agent) {
+      throw new Error(`Agent not found in simulation: ${idOrAlias}`);
+    }
+    return agent as T;
+  }
+
+  getEventBus(): EventBus {
+    if (!this.eventBus) {
+      throw new Error('Simulation has no Event Bus of its own (not started, or started with eventBus: false)');
+    }
+    return this.eventBus;
+  }
+
+  getAgents(): BaseAgent[] {
+    return [...this.agents];
+  }
+
+  async advance(ms: number): Promise<number> {
+    return this.clock.advance(ms);
+  }
+
+  // Runs timers until `work` settles, for agent calls that sleep or wait on a timeout
+  async settle<T>(work: Promise<T>, maxVirtualMs: number = MAX_SETTLE_MS): Promise<T> {
+    let settled = false;
+    work.then(() => { settled = true; }, () => { settled = true; });
+    const deadline = this.clock.now() + maxVirtualMs;
+
+    await this.clock.advance(0);
+    while (!settled) {
+      const nextDue = this.clock.getNextDueTime();
+      if (nextDue === undefined || nextDue > deadline) {
+        throw new Error(`Simulated work did not settle within ${maxVirtualMs}ms of virtual time`);
+      }
+      await this.clock.advanceTo(nextDue);
+    }
+
+    return work;
+  }
+
+  getDeliveryLog(agentId?: string): DeliveryRecord[] {
+    return this.runtime.getDeliveryLog(agentId);
+  }
+}
+
+export async function runSimulation<T>(scenario: SimulationScenario<T>, options: SimulationOptions = {}): Promise<SimulationResult<T>> {
+  const simulation = new SimulationRunner({ ...options, agents: options.agents || scenario.agents });
+  const startTime = simulation.clock.date();
+
+  await simulation.start();
+  try {
+    const output = await scenario.run(simulation);
+    const endTime = simulation.clock.date();
+
+    return {
+      scenario: scenario.name,
+      seed: simulation.random.seed,
+      startTime,
+      endTime,
+      elapsedMs: endTime.getTime() - startTime.getTime(),
+      output,
+      deliveries: simulation.getDeliveryLog()
+    };
+  } finally {
+    await simulation.stop();
+  }
+}
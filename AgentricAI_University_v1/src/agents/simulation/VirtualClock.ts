@@ -0,0 +1,145 @@
+// Virtual Clock - Simulated time and timers that only move when a simulation advances them
+
+import { Clock, Scheduler, TimerCallback, TimerHandle } from '../base/AgentEnvironment';
+
+interface VirtualTimer {
+  id: number;
+  dueAt: number;
+  intervalMs?: number;
+  callback: TimerCallback;
+  // Ties on dueAt fire in scheduling order, like the browser
+  order: number;
+}
+
+export class VirtualClock implements Clock, Scheduler {
+  private currentTime: number;
+  private timers: Map<number, VirtualTimer> = new Map();
+  private nextTimerId: number = 1;
+  private nextOrder: number = 0;
+  private firedTimers: number = 0;
+
+  constructor(startTime: number | Date = 0) {
+    this.currentTime = startTime instanceof Date ? startTime.getTime() : startTime;
+  }
+
+  // Clock
+  now(): number {
+    return this.currentTime;
+  }
+
+  date(): Date {
+    return new Date(this.currentTime);
+  }
+
+  // Scheduler
+  setTimeout(callback: TimerCallback, delayMs: number): TimerHandle {
+    return this.addTimer(callback, delayMs);
+  }
+
+  clearTimeout(handle?: TimerHandle): void {
+    this.timers.delete(handle as number);
+  }
+
+  setInterval(callback: TimerCallback, intervalMs: number): TimerHandle {
+    return this.addTimer(callback, intervalMs, Math.max(1, intervalMs));
+  }
+
+  clearInterval(handle?: TimerHandle): void {
+    this.timers.delete(handle as number);
+  }
+
+  sleep(ms: number): Promise<void> {
+    return new Promise(resolve => this.addTimer(resolve, ms));
+  }
+
+  // Simulation control
+  getPendingTimerCount(): number {
+    return this.timers.size;
+  }
+
+  getFiredTimerCount(): number {
+    return this.firedTimers;
+  }
+
+  getNextDueTime(): number | undefined {
+    return this.peekNextTimer()?.dueAt;
+  }
+
+  // Fires every timer due within the next `ms`, in order, awaiting each callback
+  async advance(ms: number): Promise<number> {
+    if (ms < 0) throw new Error(`Cannot advance virtual time backwards (${ms}ms)`);
+    return this.advanceTo(this.currentTime + ms);
+  }
+
+  async advanceTo(time: number): Promise<number> {
+    let fired = 0;
+
+    await flushPendingWork();
+    for (let timer = this.peekNextTimer(); timer && timer.dueAt <= time; timer = this.peekNextTimer()) {
+      await this.fire(timer);
+      fired += 1;
+    }
+
+    this.currentTime = Math.max(this.currentTime, time);
+    await flushPendingWork();
+    return fired;
+  }
+
+  // Jumps straight to the next timer and fires it; false when nothing is scheduled
+  async runNextTimer(): Promise<boolean> {
+    const timer = this.peekNextTimer();
+    if (!timer) return false;
+
+    await this.fire(timer);
+    return true;
+  }
+
+  private addTimer(callback: TimerCallback, delayMs: number, intervalMs?: number): number {
+    const id = this.nextTimerId++;
+    this.timers.set(id, {
+      id,
+      dueAt: this.currentTime + Math.max(0, delayMs || 0),
+      intervalMs,
+      callback,
+      order: this.nextOrder++
+    });
+    return id;
+  }
+
+  private peekNextTimer(): VirtualTimer | undefined {
+    let next: VirtualTimer | undefined;
+    for (const timer of this.timers.values()) {
+      if (!next || timer.dueAt < next.dueAt || (timer.dueAt === next.dueAt && timer.order < next.order)) {
+        next = timer;
+      }
+    }
+    return next;
+  }
+
+  private async fire(timer: VirtualTimer): Promise<void> {
+    this.currentTime = Math.max(this.currentTime, timer.dueAt);
+
+    if (timer.intervalMs) {
+      timer.dueAt += timer.intervalMs;
+      timer.order = this.nextOrder++;
+    } else {
+      this.timers.delete(timer.id);
+    }
+
+    this.firedTimers += 1;
+    try {
+      await timer.callback();
+    } catch (error) {
+      console.error(`Virtual timer ${timer.id} failed:`, error);
+    }
+    await flushPendingWork();
+  }
+}
+
+// Lets promise chains woken by a timer run to their next await before time moves on;
+// a real macrotask only starts once every queued microtask has drained
+function flushPendingWork(): Promise<void> {
+  const setImmediate = (globalThis as any).setImmediate;
+  if (typeof setImmediate === 'function') return new Promise(resolve => setImmediate(resolve));
+  return new Promise(resolve => globalThis.setTimeout(resolve, 0));
+}
@@ -0,0 +1,99 @@
+// Agent Registry - Instantiates the concrete agents and registers them with the runtime
+
+import { BaseAgent } from '../base/BaseAgent';
+import { AgentRuntime, agentRuntime } from '../base/AgentRuntime';
+import { LearningCoordinator } from '../learning/LearningCoordinator';
+import { BehaviorAnalyst } from '../behavior/BehaviorAnalyst';
+import { InteractionMonitor } from '../behavior/InteractionMonitor';
+import { SensoryProcessor } from '../behavior/SensoryProcessor';
+import { ContentGenerator } from '../content/ContentGenerator';
+import { DifficultyAdapter } from '../content/DifficultyAdapter';
+import { SensoryOptimizer } from '../content/SensoryOptimizer';
+import { ErrorHandler } from '../error/ErrorHandler';
+import { KnowledgeManager } from '../knowledge/KnowledgeManager';
+import { MemoryOptimizer } from '../knowledge/MemoryOptimizer';
+import { DataAnalyst } from '../knowledge/DataAnalyst';
+import { EventBus } from '../communication/EventBus';
+import { MessageRouter } from '../communication/MessageRouter';
+import { WorkflowOrchestrator } from '../communication/WorkflowOrchestrator';
+import { CurriculumAgent } from '../educational/CurriculumAgent';
+import { IEPCoordinatorAgent } from '../educational/IEPCoordinatorAgent';
+import { ParentLiaisonAgent } from '../educational/ParentLiaisonAgent';
+import { PrincipalAgent } from '../educational/PrincipalAgent';
+import { TeacherAgent } from '../educational/TeacherAgent';
+
+export interface AgentDefinition {
+  create: () => BaseAgent;
+  aliases: string[];
+}
+
+// Agents send to a mix of full ids ('behavior-analyst-001') and short names
+// ('behavior-analyst'), so each definition lists the names it answers to.
+export const UNIVERSITY_AGENT_DEFINITIONS: AgentDefinition[] = [
+  { create: () => new LearningCoordinator(), aliases: ['learning-coordinator'] },
+  { create: () => new BehaviorAnalyst(), aliases: ['behavior-analyst'] },
+  { create: () => new InteractionMonitor(), aliases: ['interaction-monitor'] },
+  { create: () => new SensoryProcessor(), aliases: ['sensory-processor'] },
+  { create: () => new ContentGenerator(), aliases: ['content-generator'] },
+  { create: () => new DifficultyAdapter(), aliases: ['difficulty-adapter'] },
+  { create: () => new SensoryOptimizer(), aliases: ['sensory-optimizer'] },
+  { create: () => new ErrorHandler(), aliases: ['error-handler'] },
+  { create: () => new KnowledgeManager(), aliases: ['knowledge-manager'] },
+  { create: () => new MemoryOptimizer(), aliases: ['memory-optimizer'] },
+  { create: () => new DataAnalyst(), aliases: ['data-analyst'] },
+  { create: () => new EventBus(), aliases: ['event-bus'] },
+  { create: () => new MessageRouter(), aliases: ['message-router', 'communication-router'] },
+  { create: () => new WorkflowOrchestrator(), aliases: ['workflow-orchestrator'] },
+  { create: () => new CurriculumAgent(), aliases: ['curriculum-agent'] },
+  { create: () => new IEPCoordinatorAgent(), aliases: ['iep-coordinator'] },
+  { create: () => new ParentLiaisonAgent(), aliases: ['parent-liaison'] },
+  { create: () => new PrincipalAgent(), aliases: ['principal-agent'] },
+  { create: () => new TeacherAgent('special_education'), aliases: ['teacher-agent-001', 'teacher-agent'] }
+];
+
+// These share router queues, workflow storage, the knowledge base or the event log with the
+// running system, so sandboxes (replays, simulations) leave them out or bring their own
+const SHARED_STATE_ALIASES = ['event-bus', 'message-router', 'workflow-orchestrator', 'knowledge-manager'];
+
+export const ISOLATED_AGENT_DEFINITIONS: AgentDefinition[] = UNIVERSITY_AGENT_DEFINITIONS
+  .filter(definition => !definition.aliases.some(alias => SHARED_STATE_ALIASES.includes(alias)));
+
+export class AgentRegistry {
+  private runtime: AgentRuntime;
+
+  constructor(runtime: AgentRuntime = agentRuntime) {
+    this.runtime = runtime;
+  }
+
+  async bootAgents(definitions: AgentDefinition[] = UNIVERSITY_AGENT_DEFINITIONS): Promise<BaseAgent[]> {
+    console.log(`🚀 Booting ${definitions.length} agents into the runtime`);
+
+    const agents: BaseAgent[] = [];
+
+    for (const definition of definitions) {
+      const agent = definition.create();
+      this.runtime.register(agent, definition.aliases);
+      agents.push(agent);
+    }
+
+    // Start only after everyone is registered so early messages have a recipient
+    for (const agent of agents) {
+      await agent.initialize();
+      await agent.start();
+    }
+
+    return agents;
+  }
+
+  async shutdownAgents(): Promise<void> {
+    await this.runtime.stopAll();
+
+    for (const agent of this.runtime.listAgents()) {
+      this.runtime.unregister(agent.id);
+    }
+  }
+
+  getRuntime(): AgentRuntime {
+    return this.runtime;
+  }
+}
@@ -1,8 +1,11 @@
 // Process Manager Agent - OS-level process management for AgentricAI Core
 
 import { BaseAgent } from '../base/BaseAgent';
-import { AgentConfig, AgentMessage } from '../base/AgentTypes';
+import { AgentCapability, AgentConfig, AgentMessageOf, TypedAgentMessage, TaskContext } from '../base/AgentTypes';
 import { AgentOSInterface, ResourceRequest, ResourceAllocation, HealthReport } from '../base/AgentOSInterface';
+import { clock, random, scheduler, TimerHandle } from '../base/AgentEnvironment';
+import { ProcessScheduler, ProcessSchedulerOptions, ProcessSchedulerStats } from './ProcessScheduler';
+import { Supervisor } from './Supervisor';
 
 export interface ProcessInfo {
   pid: string;
@@ -18,6 +21,10 @@ export interface ProcessInfo {
   healthStatus: 'healthy' | 'degraded' | 'critical';
   restartCount: number;
   maxRestarts: number;
+  // Set on children paused along with their parent, so resuming the parent resumes only those
+  pausedBy?: string;
+  lastError?: string;
+  nextRestartAt?: Date;
 }
 
 export interface ProcessSchedule {
@@ -27,14 +34,24 @@ export interface ProcessSchedule {
   parameters?: any;
 }
 
+export const PROCESS_ACTIONS: ProcessSchedule['action'][] = ['start', 'stop', 'restart', 'pause', 'resume'];
+
+// Crash restarts back off 1s, 2s, 4s, ... up to a minute
+const RESTART_BACKOFF_BASE_MS = 1000;
+const RESTART_BACKOFF_MAX_MS = 60000;
+
 export class ProcessManager extends BaseAgent implements AgentOSInterface {
   private processes: Map<string, ProcessInfo> = new Map();
   private processQueue: ProcessSchedule[] = [];
   private resourceAllocations: Map<string, ResourceAllocation> = new Map();
   private healthReports: Map<string, HealthReport> = new Map();
   private systemMetrics: any = {};
+  private taskScheduler: ProcessScheduler;
+  private actionTimer?: TimerHandle;
+  private runningActions: boolean = false;
+  private supervisor?: Supervisor;
 
-  constructor() {
+  constructor(schedulerOptions: ProcessSchedulerOptions = {}) {
     const config: AgentConfig = {
       id: 'process-manager-001',
       name: 'System Process Manager',
@@ -56,6 +73,11 @@ export class ProcessManager extends BaseAgent implements AgentOSInterface {
     };
 
     super(config);
+    this.taskScheduler = new ProcessScheduler(
+      (pid, taskData, context) => this.runProcessTask(pid, taskData, context),
+      pid => this.processes.get(pid)?.status === 'running',
+      schedulerOptions
+    );
   }
 
   async processTask(taskData: any): Promise<any> {
@@ -86,6 +108,18 @@ export class ProcessManager extends BaseAgent implements AgentOSInterface {
       case 'monitor_health':
         return await this.monitorProcessHealth();
       
+      case 'schedule_task':
+        return await this.scheduleTask(data.pid, data.task);
+      
+      case 'schedule_action':
+        return this.scheduleProcessAction(data.schedule);
+      
+      case 'cancel_scheduled_actions':
+        return this.cancelScheduledActions(data.pid, data.action);
+      
+      case 'get_scheduler_stats':
+        return this.getSchedulerStats();
+      
       default:
         throw new Error(`Unknown task type: ${type}`);
     }
@@ -95,7 +129,7 @@ export class ProcessManager extends BaseAgent implements AgentOSInterface {
   async spawnProcess(agentId: string, config: any): Promise<string> {
     console.log(`🚀 Spawning process for agent: ${agentId}`);
     
-    const pid = `proc-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const pid = `proc-${clock.now()}-${random.next().toString(36).substr(2, 9)}`;
     
     const processInfo: ProcessInfo = {
       pid,
@@ -105,12 +139,12 @@ export class ProcessManager extends BaseAgent implements AgentOSInterface {
       priority: config.priority || 'normal',
       parentPid: config.parentPid,
       childPids: [],
-      startTime: new Date(),
-      lastActivity: new Date(),
+      startTime: clock.date(),
+      lastActivity: clock.date(),
       resourceAllocations: [],
       healthStatus: 'healthy',
       restartCount: 0,
-      maxRestarts: config.maxRestarts || 3
+      maxRestarts: config.maxRestarts ?? 3
     };
 
     // Request initial resources
@@ -157,6 +191,10 @@ export class ProcessManager extends BaseAgent implements AgentOSInterface {
 
     // Update status
     process.status = 'stopping';
+
+    // Drop queued tasks and pending actions, including any crash restart
+    this.taskScheduler.cancel(pid, `Process ${pid} was terminated`);
+    this.cancelScheduledActions(pid);
     
     // Release resources
     for (const allocation of process.resourceAllocations) {
@@ -176,18 +214,18 @@ export class ProcessManager extends BaseAgent implements AgentOSInterface {
     
     // Emit termination event
     await this.emitSystemEvent({
-      id: `event-${Date.now()}`,
+      id: `event-${clock.now()}`,
       type: 'system-event',
       source: this.id,
       data: { event: 'process_terminated', pid, agentId: process.agentId },
       priority: 'normal',
-      timestamp: new Date()
+      timestamp: clock.date()
     });
 
     this.metrics.tasksCompleted += 1;
   }
 
-  async pauseProcess(pid: string): Promise<void> {
+  async pauseProcess(pid: string, pausedBy?: string): Promise<void> {
     console.log(`⏸️ Pausing process: ${pid}`);
     
     const process = this.processes.get(pid);
@@ -200,17 +238,25 @@ export class ProcessManager extends BaseAgent implements AgentOSInterface {
     }
 
     process.status = 'paused';
-    process.lastActivity = new Date();
+    process.pausedBy = pausedBy;
+    process.lastActivity = clock.date();
 
     await this.emitSystemEvent({
-      id: `event-${Date.now()}`,
+      id: `event-${clock.now()}`,
       type: 'system-event',
       source: this.id,
-      data: { event: 'process_paused', pid, agentId: process.agentId },
+      data: { event: 'process_paused', pid, agentId: process.agentId, pausedBy },
       priority: 'normal',
-      timestamp: new Date()
+      timestamp: clock.date()
     });
 
+    // Children that are already paused or stopped keep their own state
+    for (const childPid of process.childPids) {
+      if (this.processes.get(childPid)?.status === 'running') {
+        await this.pauseProcess(childPid, pid);
+      }
+    }
+
     this.metrics.tasksCompleted += 1;
   }
 
@@ -227,17 +273,28 @@ export class ProcessManager extends BaseAgent implements AgentOSInterface {
     }
 
     process.status = 'running';
-    process.lastActivity = new Date();
+    process.pausedBy = undefined;
+    process.lastActivity = clock.date();
 
     await this.emitSystemEvent({
-      id: `event-${Date.now()}`,
+      id: `event-${clock.now()}`,
       type: 'system-event',
       source: this.id,
       data: { event: 'process_resumed', pid, agentId: process.agentId },
       priority: 'normal',
-      timestamp: new Date()
+      timestamp: clock.date()
     });
 
+    // Resume only the children this process paused
+    for (const childPid of process.childPids) {
+      const child = this.processes.get(childPid);
+      if (child?.status === 'paused' && child.pausedBy === pid) {
+        await this.resumeProcess(childPid);
+      }
+    }
+
+    this.taskScheduler.wake();
+
     this.metrics.tasksCompleted += 1;
   }
 
@@ -257,21 +314,22 @@ export class ProcessManager extends BaseAgent implements AgentOSInterface {
     process.status = 'stopping';
     
     // Wait a moment for cleanup
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    await scheduler.sleep(1000);
     
     // Start it again
     await this.startProcess(pid);
     
     process.restartCount += 1;
-    process.lastActivity = new Date();
+    process.nextRestartAt = undefined;
+    process.lastActivity = clock.date();
 
     await this.emitSystemEvent({
-      id: `event-${Date.now()}`,
+      id: `event-${clock.now()}`,
       type: 'system-event',
       source: this.id,
       data: { event: 'process_restarted', pid, agentId: process.agentId, restartCount: process.restartCount },
       priority: 'high',
-      timestamp: new Date()
+      timestamp: clock.date()
     });
 
     this.metrics.tasksCompleted += 1;
@@ -319,20 +377,79 @@ export class ProcessManager extends BaseAgent implements AgentOSInterface {
     return healthReports;
   }
 
+  // Scheduling Methods
+  // Runs taskData through the process's agent once the scheduler gives it a slot
+  async scheduleTask(pid: string, taskData: any): Promise<any> {
+    const process = this.processes.get(pid);
+    if (!process) {
+      throw new Error(`Process not found: ${pid}`);
+    }
+    if (process.status === 'stopping' || process.status === 'stopped') {
+      throw new Error(`Cannot schedule task for process in ${process.status} state`);
+    }
+    // A crashed process only takes work while a restart is pending
+    if (process.status === 'crashed' && !process.nextRestartAt) {
+      throw new Error(`Process ${pid} crashed and will not be restarted`);
+    }
+
+    return this.taskScheduler.submit(pid, process.priority, taskData);
+  }
+
+  scheduleProcessAction(schedule: ProcessSchedule): ProcessSchedule {
+    if (!this.processes.has(schedule.pid)) {
+      throw new Error(`Process not found: ${schedule.pid}`);
+    }
+    if (!PROCESS_ACTIONS.includes(schedule.action)) {
+      throw new Error(`Unknown process action: ${schedule.action}`);
+    }
+
+    const entry: ProcessSchedule = { ...schedule, scheduledAt: new Date(schedule.scheduledAt) };
+    if (isNaN(entry.scheduledAt.getTime())) {
+      throw new Error(`Invalid scheduledAt for ${schedule.action} of ${schedule.pid}`);
+    }
+
+    // Keep the queue in time order; equal times run in the order they were scheduled
+    const index = this.processQueue.findIndex(queued => queued.scheduledAt.getTime() > entry.scheduledAt.getTime());
+    this.processQueue.splice(index === -1 ? this.processQueue.length : index, 0, entry);
+    this.armActionTimer();
+
+    return entry;
+  }
+
+  cancelScheduledActions(pid: string, action?: ProcessSchedule['action']): number {
+    const before = this.processQueue.length;
+    this.processQueue = this.processQueue.filter(entry => entry.pid !== pid || (action && entry.action !== action));
+    this.armActionTimer();
+    return before - this.processQueue.length;
+  }
+
+  getScheduledActions(pid?: string): ProcessSchedule[] {
+    return this.processQueue.filter(entry => !pid || entry.pid === pid);
+  }
+
+  getSchedulerStats(): ProcessSchedulerStats {
+    return this.taskScheduler.getStats();
+  }
+
+  // Unresponsive agents under this supervision tree are restarted by their supervisor
+  setSupervisor(supervisor: Supervisor | undefined): void {
+    this.supervisor = supervisor;
+  }
+
   // AgentOSInterface Implementation
   async requestSystemResources(resources: ResourceRequest): Promise<ResourceAllocation> {
-    const allocationId = `alloc-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const allocationId = `alloc-${clock.now()}-${random.next().toString(36).substr(2, 9)}`;
     
     const allocation: ResourceAllocation = {
       allocationId,
-      expiresAt: resources.duration ? new Date(Date.now() + resources.duration) : undefined
+      expiresAt: resources.duration ? new Date(clock.now() + resources.duration) : undefined
     };
 
     // Simulate resource allocation
     if (resources.memory) {
       allocation.memory = {
         allocated: resources.memory,
-        address: `0x${Math.random().toString(16).substr(2, 8)}`,
+        address: `0x${random.next().toString(16).substr(2, 8)}`,
         type: 'heap'
       };
     }
@@ -388,7 +505,7 @@ export class ProcessManager extends BaseAgent implements AgentOSInterface {
     // Register as system service
     this.storeMemory('os_registration', {
       registered: true,
-      registeredAt: new Date(),
+      registeredAt: clock.date(),
       services: ['process-management', 'resource-allocation', 'health-monitoring']
     }, 'long');
   }
@@ -415,7 +532,7 @@ export class ProcessManager extends BaseAgent implements AgentOSInterface {
         taskQueueSize: 0
       },
       issues: [],
-      lastReported: new Date()
+      lastReported: clock.date()
     };
 
     // Check for issues
@@ -424,7 +541,7 @@ export class ProcessManager extends BaseAgent implements AgentOSInterface {
         severity: 'medium',
         type: 'high_process_count',
         description: `Managing ${this.processes.size} processes`,
-        timestamp: new Date(),
+        timestamp: clock.date(),
         resolved: false
       });
     }
@@ -438,7 +555,9 @@ export class ProcessManager extends BaseAgent implements AgentOSInterface {
       runningProcesses: Array.from(this.processes.values()).filter(p => p.status === 'running').length,
       healthyProcesses: Array.from(this.healthReports.values()).filter(h => h.status === 'healthy').length,
       resourceAllocations: this.resourceAllocations.size,
-      systemLoad: this.calculateSystemLoad()
+      systemLoad: this.calculateSystemLoad(),
+      scheduler: this.taskScheduler.getStats(),
+      scheduledActions: this.processQueue.length
     };
   }
 
@@ -470,7 +589,16 @@ export class ProcessManager extends BaseAgent implements AgentOSInterface {
     console.log(`📋 Registering service: ${serviceType}`);
   }
 
-  protected async processMessage(message: AgentMessage): Promise<void> {
+  protected describeCapability(capability: string): Partial<AgentCapability> {
+    const details: Record<string, Partial<AgentCapability>> = {
+      'process-management': { inputTypes: ['process-spawn-request', 'process-terminate-request'], outputTypes: ['process-spawn-response', 'process-terminate-response'], processingTime: 300, tasks: ['spawn_process', 'terminate_process', 'pause_process', 'resume_process', 'restart_process', 'get_process_info', 'list_processes'] },
+      'health-monitoring': { inputTypes: ['health-check-request'], outputTypes: ['health-check-response'], processingTime: 500, tasks: ['monitor_health'] },
+      'process-scheduling': { processingTime: 200, tasks: ['schedule_task', 'schedule_action', 'cancel_scheduled_actions', 'get_scheduler_stats'] }
+    };
+    return { ...super.describeCapability(capability), ...details[capability] };
+  }
+
+  protected async processMessage(message: TypedAgentMessage): Promise<void> {
     switch (message.type) {
       case 'process-spawn-request':
         await this.handleProcessSpawnRequest(message);
@@ -493,26 +621,187 @@ export class ProcessManager extends BaseAgent implements AgentOSInterface {
     return "I'm the system helper that makes sure all the learning helpers work properly! 🔧⚙️";
   }
 
+  protected async onStart(): Promise<void> {
+    this.armActionTimer();
+  }
+
+  protected async onStop(): Promise<void> {
+    if (this.actionTimer !== undefined) {
+      scheduler.clearTimeout(this.actionTimer);
+      this.actionTimer = undefined;
+    }
+  }
+
   // Private helper methods
   private async startProcess(pid: string): Promise<void> {
     const process = this.processes.get(pid);
     if (!process) return;
 
     process.status = 'running';
-    process.lastActivity = new Date();
+    process.healthStatus = 'healthy';
+    process.lastActivity = clock.date();
 
     await this.emitSystemEvent({
-      id: `event-${Date.now()}`,
+      id: `event-${clock.now()}`,
       type: 'system-event',
       source: this.id,
       data: { event: 'process_started', pid, agentId: process.agentId },
       priority: 'normal',
-      timestamp: new Date()
+      timestamp: clock.date()
     });
+
+    this.taskScheduler.wake();
+  }
+
+  private async runProcessTask(pid: string, taskData: any, context: TaskContext): Promise<any> {
+    const process = this.processes.get(pid);
+    if (!process) {
+      throw new Error(`Process not found: ${pid}`);
+    }
+
+    const agent = this.findAgent(process.agentId);
+    if (!agent) {
+      throw new Error(`Agent ${process.agentId} for process ${pid} is not registered`);
+    }
+
+    try {
+      const result = await agent.processTask(taskData, context);
+      process.lastActivity = clock.date();
+      return result;
+    } catch (error) {
+      await this.handleProcessCrash(process, error as Error);
+      throw error;
+    }
+  }
+
+  private async handleProcessCrash(process: ProcessInfo, error: Error): Promise<void> {
+    // Another task of the same process may have crashed it already
+    if (process.status !== 'running') return;
+
+    console.error(`💥 Process ${process.pid} crashed:`, error.message);
+    process.status = 'crashed';
+    process.healthStatus = 'critical';
+    process.lastError = error.message;
+
+    if (process.restartCount >= process.maxRestarts) {
+      process.nextRestartAt = undefined;
+      this.taskScheduler.cancel(process.pid, `Process ${process.pid} crashed and exceeded maximum restart attempts`);
+
+      await this.emitSystemEvent({
+        id: `event-${clock.now()}`,
+        type: 'error-event',
+        source: this.id,
+        data: {
+          event: 'process_restart_failed',
+          pid: process.pid,
+          agentId: process.agentId,
+          restartCount: process.restartCount,
+          error: error.message
+        },
+        priority: 'critical',
+        timestamp: clock.date()
+      });
+      return;
+    }
+
+    const backoffMs = Math.min(RESTART_BACKOFF_MAX_MS, RESTART_BACKOFF_BASE_MS * 2 ** process.restartCount);
+    process.nextRestartAt = new Date(clock.now() + backoffMs);
+    this.scheduleProcessAction({
+      pid: process.pid,
+      scheduledAt: process.nextRestartAt,
+      action: 'restart',
+      parameters: { reason: 'crash', error: error.message }
+    });
+
+    await this.emitSystemEvent({
+      id: `event-${clock.now()}`,
+      type: 'system-event',
+      source: this.id,
+      data: {
+        event: 'process_crashed',
+        pid: process.pid,
+        agentId: process.agentId,
+        error: error.message,
+        restartCount: process.restartCount,
+        nextRestartAt: process.nextRestartAt
+      },
+      priority: 'high',
+      timestamp: clock.date()
+    });
+  }
+
+  private armActionTimer(): void {
+    if (this.actionTimer !== undefined) {
+      scheduler.clearTimeout(this.actionTimer);
+      this.actionTimer = undefined;
+    }
+    if (this.processQueue.length === 0 || this.runningActions) return;
+
+    const delay = Math.max(0, this.processQueue[0].scheduledAt.getTime() - clock.now());
+    this.actionTimer = scheduler.setTimeout(() => {
+      this.actionTimer = undefined;
+      this.runDueActions();
+    }, delay);
+  }
+
+  private async runDueActions(): Promise<void> {
+    this.runningActions = true;
+    try {
+      while (this.processQueue.length > 0 && this.processQueue[0].scheduledAt.getTime() <= clock.now()) {
+        await this.executeScheduledAction(this.processQueue.shift()!);
+      }
+    } finally {
+      this.runningActions = false;
+      this.armActionTimer();
+    }
+  }
+
+  private async executeScheduledAction(schedule: ProcessSchedule): Promise<void> {
+    const process = this.processes.get(schedule.pid);
+    if (!process) return;
+
+    console.log(`⏰ Running scheduled ${schedule.action} for process: ${schedule.pid}`);
+
+    try {
+      switch (schedule.action) {
+        case 'start':
+          if (process.status === 'stopped' || process.status === 'crashed') {
+            await this.startProcess(schedule.pid);
+          }
+          break;
+        case 'stop':
+          await this.terminateProcess(schedule.pid);
+          break;
+        case 'restart':
+          await this.restartProcess(schedule.pid);
+          break;
+        case 'pause':
+          await this.pauseProcess(schedule.pid);
+          break;
+        case 'resume':
+          await this.resumeProcess(schedule.pid);
+          break;
+      }
+    } catch (error) {
+      console.error(`Scheduled ${schedule.action} failed for process ${schedule.pid}:`, error);
+      await this.emitSystemEvent({
+        id: `event-${clock.now()}`,
+        type: 'error-event',
+        source: this.id,
+        data: {
+          event: 'scheduled_action_failed',
+          pid: schedule.pid,
+          action: schedule.action,
+          error: (error as Error).message
+        },
+        priority: 'high',
+        timestamp: clock.date()
+      });
+    }
   }
 
   private async assessProcessHealth(process: ProcessInfo): Promise<HealthReport> {
-    const timeSinceActivity = Date.now() - process.lastActivity.getTime();
+    const timeSinceActivity = clock.now() - process.lastActivity.getTime();
     let status: 'healthy' | 'degraded' | 'critical' | 'unresponsive' = 'healthy';
     const issues: any[] = [];
 
@@ -523,7 +812,7 @@ export class ProcessManager extends BaseAgent implements AgentOSInterface {
         severity: 'critical',
         type: 'unresponsive',
         description: 'Process has not responded in over 5 minutes',
-        timestamp: new Date(),
+        timestamp: clock.date(),
         resolved: false
       });
     } else if (timeSinceActivity > 60000) { // 1 minute
@@ -532,7 +821,7 @@ export class ProcessManager extends BaseAgent implements AgentOSInterface {
         severity: 'medium',
         type: 'slow_response',
         description: 'Process response time is degraded',
-        timestamp: new Date(),
+        timestamp: clock.date(),
         resolved: false
       });
     }
@@ -544,7 +833,7 @@ export class ProcessManager extends BaseAgent implements AgentOSInterface {
         severity: 'high',
         type: 'frequent_restarts',
         description: `Process has restarted ${process.restartCount} times`,
-        timestamp: new Date(),
+        timestamp: clock.date(),
         resolved: false
       });
     }
@@ -560,7 +849,7 @@ export class ProcessManager extends BaseAgent implements AgentOSInterface {
         taskQueueSize: 0
       },
       issues,
-      lastReported: new Date()
+      lastReported: clock.date()
     };
   }
 
@@ -568,6 +857,16 @@ export class ProcessManager extends BaseAgent implements AgentOSInterface {
     console.log(`🚨 Critical health issue detected for process ${process.pid}`);
     
     if (health.status === 'unresponsive') {
+      const agentId = this.findAgent(process.agentId)?.id;
+      const supervisor = agentId ? this.supervisor?.findSupervisorOf(agentId) : undefined;
+      if (agentId && supervisor) {
+        // The supervisor applies its own strategy and restart limits, escalating if they are exceeded
+        await supervisor.handleChildCrash(agentId, new Error(`Process ${process.pid} has been unresponsive`));
+        process.lastActivity = clock.date();
+        process.healthStatus = 'healthy';
+        return;
+      }
+
       // Attempt restart
       try {
         await this.restartProcess(process.pid);
@@ -575,7 +874,7 @@ export class ProcessManager extends BaseAgent implements AgentOSInterface {
         console.error(`Failed to restart unresponsive process ${process.pid}:`, error);
         // Escalate to system administrator
         await this.emitSystemEvent({
-          id: `event-${Date.now()}`,
+          id: `event-${clock.now()}`,
           type: 'error-event',
           source: this.id,
           data: { 
@@ -585,7 +884,7 @@ export class ProcessManager extends BaseAgent implements AgentOSInterface {
             error: error.message 
           },
           priority: 'critical',
-          timestamp: new Date()
+          timestamp: clock.date()
         });
       }
     }
@@ -597,7 +896,7 @@ export class ProcessManager extends BaseAgent implements AgentOSInterface {
     return totalProcesses > 0 ? (runningProcesses / totalProcesses) * 100 : 0;
   }
 
-  private async handleProcessSpawnRequest(message: AgentMessage): Promise<void> {
+  private async handleProcessSpawnRequest(message: AgentMessageOf<'process-spawn-request'>): Promise<void> {
     const { agentId, config } = message.data;
     try {
       const pid = await this.spawnProcess(agentId, config);
@@ -610,7 +909,7 @@ export class ProcessManager extends BaseAgent implements AgentOSInterface {
           type: 'process-spawn-response',
           data: { success: true, pid },
           priority: message.priority,
-          timestamp: new Date(),
+          timestamp: clock.date(),
           requiresResponse: false,
           correlationId: message.id
         });
@@ -624,7 +923,7 @@ export class ProcessManager extends BaseAgent implements AgentOSInterface {
           type: 'process-spawn-response',
           data: { success: false, error: error.message },
           priority: message.priority,
-          timestamp: new Date(),
+          timestamp: clock.date(),
           requiresResponse: false,
           correlationId: message.id
         });
@@ -632,7 +931,7 @@ export class ProcessManager extends BaseAgent implements AgentOSInterface {
     }
   }
 
-  private async handleProcessTerminateRequest(message: AgentMessage): Promise<void> {
+  private async handleProcessTerminateRequest(message: AgentMessageOf<'process-terminate-request'>): Promise<void> {
     const { pid } = message.data;
     try {
       await this.terminateProcess(pid);
@@ -645,7 +944,7 @@ export class ProcessManager extends BaseAgent implements AgentOSInterface {
           type: 'process-terminate-response',
           data: { success: true },
           priority: message.priority,
-          timestamp: new Date(),
+          timestamp: clock.date(),
           requiresResponse: false,
           correlationId: message.id
         });
@@ -659,7 +958,7 @@ export class ProcessManager extends BaseAgent implements AgentOSInterface {
           type: 'process-terminate-response',
           data: { success: false, error: error.message },
           priority: message.priority,
-          timestamp: new Date(),
+          timestamp: clock.date(),
           requiresResponse: false,
           correlationId: message.id
         });
@@ -667,7 +966,7 @@ export class ProcessManager extends BaseAgent implements AgentOSInterface {
     }
   }
 
-  private async handleHealthCheckRequest(message: AgentMessage): Promise<void> {
+  private async handleHealthCheckRequest(message: AgentMessageOf<'health-check-request'>): Promise<void> {
     const healthReports = await this.monitorProcessHealth();
     
     await this.sendMessage(message.fromAgentId, {
@@ -677,7 +976,7 @@ export class ProcessManager extends BaseAgent implements AgentOSInterface {
       type: 'health-check-response',
       data: { healthReports },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
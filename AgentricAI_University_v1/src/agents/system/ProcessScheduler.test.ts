@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { ProcessScheduler } from './ProcessScheduler';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('ProcessScheduler', () => {
+  it('gives low priority a fair share instead of starving it', async () => {
+    const order: string[] = [];
+    const scheduler = new ProcessScheduler(async (_pid, taskData) => { order.push(taskData); }, () => true, { maxConcurrent: 1 });
+
+    const work = [
+      ...Array.from({ length: 16 }, (_, i) => scheduler.submit('critical-proc', 'critical', `C${i}`)),
+      ...Array.from({ length: 2 }, (_, i) => scheduler.submit('low-proc', 'low', `L${i}`))
+    ];
+    await Promise.all(work);
+
+    // 8:1 weights - each low task runs after about eight critical ones
+    expect(order.indexOf('L0')).toBeLessThan(10);
+    expect(order.indexOf('L1')).toBeLessThan(order.indexOf('C15'));
+  });
+
+  it('holds tasks of processes that are not runnable until woken', async () => {
+    const runnable = new Set<string>();
+    const scheduler = new ProcessScheduler(async (_pid, taskData) => taskData, pid => runnable.has(pid));
+
+    let done = false;
+    const task = scheduler.submit('paused-proc', 'normal', 'result').then(result => { done = true; return result; });
+    await tick();
+    expect(done).toBe(false);
+    expect(scheduler.getQueuedCount('paused-proc')).toBe(1);
+
+    runnable.add('paused-proc');
+    scheduler.wake();
+    expect(await task).toBe('result');
+  });
+
+  it('asks a running task to yield when higher-priority work is waiting', async () => {
+    const order: string[] = [];
+    let release!: () => void;
+    const gate = new Promise<void>(resolve => { release = resolve; });
+
+    const scheduler = new ProcessScheduler(async (_pid, taskData, context) => {
+      if (taskData === 'long') {
+        await gate;
+        if (context.shouldYield()) {
+          order.push('long:yield');
+          await context.yieldSlot();
+        }
+      }
+      order.push(taskData);
+    }, () => true, { maxConcurrent: 1 });
+
+    const long = scheduler.submit('low-proc', 'low', 'long');
+    await tick();
+    const urgent = scheduler.submit('critical-proc', 'critical', 'urgent');
+    release();
+    await Promise.all([long, urgent]);
+
+    expect(order).toEqual(['long:yield', 'urgent', 'long']);
+    expect(scheduler.getStats().yields).toBe(1);
+  });
+
+  it('rejects queued tasks of a cancelled process', async () => {
+    const scheduler = new ProcessScheduler(async () => 'ran', () => false);
+
+    const task = scheduler.submit('stopped-proc', 'high', {});
+    expect(scheduler.cancel('stopped-proc', 'Process stopped')).toBe(1);
+    await expect(task).rejects.toThrow('Process stopped');
+  });
+});
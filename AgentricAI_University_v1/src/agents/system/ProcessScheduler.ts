@@ -0,0 +1,247 @@
+// Process Scheduler - Priority task dispatch with fair share for the Process Manager
+// Tasks wait in one queue per process priority. A free slot goes to the queue with the lowest
+// "pass" value (stride scheduling): each dispatch advances a queue's pass by STRIDE / weight,
+// so with the default weights critical:high:normal:low get 8:4:2:1 of the slots and a steady
+// stream of critical work never starves low-priority tasks.
+// Preemption is cooperative: a running task is never interrupted, but TaskContext.shouldYield()
+// tells it a higher-priority task is waiting, and yieldSlot() hands over its slot until the
+// scheduler picks it again.
+
+import { TaskContext } from '../base/AgentTypes';
+import { clock } from '../base/AgentEnvironment';
+
+export type ProcessPriority = TaskContext['priority'];
+
+export interface ProcessSchedulerOptions {
+  // Tasks that may run at the same time
+  maxConcurrent?: number;
+  weights?: Partial<Record<ProcessPriority, number>>;
+}
+
+export interface ProcessSchedulerStats {
+  maxConcurrent: number;
+  running: number;
+  queued: Record<ProcessPriority, number>;
+  dispatched: Record<ProcessPriority, number>;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  yields: number;
+}
+
+export type TaskRunner = (pid: string, taskData: any, context: TaskContext) => Promise<any>;
+
+interface QueuedEntry {
+  taskId: string;
+  pid: string;
+  priority: ProcessPriority;
+  enqueuedAt: number;
+  // Called when the entry gets a slot: starts a new task or resumes a yielded one
+  start: () => void;
+  cancel: (error: Error) => void;
+}
+
+export const PROCESS_PRIORITIES: ProcessPriority[] = ['critical', 'high', 'normal', 'low'];
+
+export const DEFAULT_PRIORITY_WEIGHTS: Record<ProcessPriority, number> = {
+  critical: 8,
+  high: 4,
+  normal: 2,
+  low: 1
+};
+
+const STRIDE = 1000;
+
+const emptyCounts = (): Record<ProcessPriority, number> => ({ critical: 0, high: 0, normal: 0, low: 0 });
+
+export class ProcessScheduler {
+  private maxConcurrent: number;
+  private weights: Record<ProcessPriority, number>;
+  private queues: Record<ProcessPriority, QueuedEntry[]> = { critical: [], high: [], normal: [], low: [] };
+  private pass: Record<ProcessPriority, number> = emptyCounts();
+  private running: Map<string, ProcessPriority> = new Map();
+  private taskCounter: number = 0;
+  private stats = { dispatched: emptyCounts(), completed: 0, failed: 0, cancelled: 0, yields: 0 };
+
+  constructor(
+    private runTask: TaskRunner,
+    // Tasks for processes that are paused, crashed or restarting stay queued until this allows them
+    private isRunnable: (pid: string) => boolean,
+    options: ProcessSchedulerOptions = {}
+  ) {
+    this.maxConcurrent = options.maxConcurrent ?? 2;
+    if (!Number.isInteger(this.maxConcurrent) || this.maxConcurrent < 1) {
+      throw new Error(`maxConcurrent must be a positive integer, got ${this.maxConcurrent}`);
+    }
+
+    this.weights = { ...DEFAULT_PRIORITY_WEIGHTS, ...options.weights };
+    for (const priority of PROCESS_PRIORITIES) {
+      if (!(this.weights[priority] > 0)) {
+        throw new Error(`Weight for ${priority} priority must be positive, got ${this.weights[priority]}`);
+      }
+    }
+  }
+
+  submit(pid: string, priority: ProcessPriority, taskData: any): Promise<any> {
+    if (!PROCESS_PRIORITIES.includes(priority)) {
+      throw new Error(`Unknown process priority: ${priority}`);
+    }
+
+    const taskId = `task-${++this.taskCounter}`;
+
+    return new Promise((resolve, reject) => {
+      this.enqueue({
+        taskId,
+        pid,
+        priority,
+        enqueuedAt: clock.now(),
+        start: () => {
+          this.execute(taskId, pid, priority, taskData).then(resolve, reject);
+        },
+        cancel: reject
+      });
+      this.dispatch();
+    });
+  }
+
+  // Reject every queued task of a process; tasks already running are left to finish
+  cancel(pid: string, reason: string): number {
+    let cancelled = 0;
+
+    for (const priority of PROCESS_PRIORITIES) {
+      this.queues[priority] = this.queues[priority].filter(entry => {
+        if (entry.pid !== pid) return true;
+        entry.cancel(new Error(reason));
+        cancelled += 1;
+        return false;
+      });
+    }
+
+    this.stats.cancelled += cancelled;
+    return cancelled;
+  }
+
+  // Re-check runnable processes, e.g. after a resume or restart
+  wake(): void {
+    this.dispatch();
+  }
+
+  getQueuedCount(pid?: string): number {
+    return PROCESS_PRIORITIES.reduce(
+      (total, priority) => total + this.queues[priority].filter(entry => !pid || entry.pid === pid).length,
+      0
+    );
+  }
+
+  getStats(): ProcessSchedulerStats {
+    const queued = emptyCounts();
+    for (const priority of PROCESS_PRIORITIES) {
+      queued[priority] = this.queues[priority].length;
+    }
+
+    return {
+      maxConcurrent: this.maxConcurrent,
+      running: this.running.size,
+      queued,
+      dispatched: { ...this.stats.dispatched },
+      completed: this.stats.completed,
+      failed: this.stats.failed,
+      cancelled: this.stats.cancelled,
+      yields: this.stats.yields
+    };
+  }
+
+  private async execute(taskId: string, pid: string, priority: ProcessPriority, taskData: any): Promise<any> {
+    try {
+      const result = await this.runTask(pid, taskData, this.createContext(taskId, pid, priority));
+      this.stats.completed += 1;
+      return result;
+    } catch (error) {
+      this.stats.failed += 1;
+      throw error;
+    } finally {
+      this.running.delete(taskId);
+      this.dispatch();
+    }
+  }
+
+  private createContext(taskId: string, pid: string, priority: ProcessPriority): TaskContext {
+    return {
+      taskId,
+      pid,
+      priority,
+      shouldYield: () => {
+        if (this.running.size < this.maxConcurrent) return false;
+        const next = this.peekNext();
+        return !!next && PROCESS_PRIORITIES.indexOf(next) < PROCESS_PRIORITIES.indexOf(priority);
+      },
+      yieldSlot: () => {
+        if (!this.running.has(taskId)) return Promise.resolve();
+
+        this.stats.yields += 1;
+        this.running.delete(taskId);
+
+        // Back to the head of its own queue so it keeps its place among equals
+        return new Promise<void>((resolve, reject) => {
+          this.enqueue({ taskId, pid, priority, enqueuedAt: clock.now(), start: resolve, cancel: reject }, true);
+          this.dispatch();
+        });
+      }
+    };
+  }
+
+  private enqueue(entry: QueuedEntry, atFront: boolean = false): void {
+    const queue = this.queues[entry.priority];
+
+    // A queue that was idle rejoins at the current pass so it cannot claim a burst of slots
+    if (queue.length === 0 && !this.hasRunning(entry.priority)) {
+      this.pass[entry.priority] = Math.max(this.pass[entry.priority], this.minimumActivePass());
+    }
+
+    if (atFront) {
+      queue.unshift(entry);
+    } else {
+      queue.push(entry);
+    }
+  }
+
+  private dispatch(): void {
+    while (this.running.size < this.maxConcurrent) {
+      const priority = this.peekNext();
+      if (!priority) return;
+
+      const queue = this.queues[priority];
+      const index = queue.findIndex(entry => this.isRunnable(entry.pid));
+      const [entry] = queue.splice(index, 1);
+
+      this.pass[priority] += STRIDE / this.weights[priority];
+      this.stats.dispatched[priority] += 1;
+      this.running.set(entry.taskId, priority);
+      entry.start();
+    }
+  }
+
+  // Priority of the queue that would get the next free slot
+  private peekNext(): ProcessPriority | undefined {
+    let next: ProcessPriority | undefined;
+
+    // PROCESS_PRIORITIES runs highest first, so ties go to the higher priority
+    for (const priority of PROCESS_PRIORITIES) {
+      if (!this.queues[priority].some(entry => this.isRunnable(entry.pid))) continue;
+      if (!next || this.pass[priority] < this.pass[next]) {
+        next = priority;
+      }
+    }
+
+    return next;
+  }
+
+  private minimumActivePass(): number {
+    const active = PROCESS_PRIORITIES.filter(priority => this.queues[priority].length > 0 || this.hasRunning(priority));
+    return active.length > 0 ? Math.min(...active.map(priority => this.pass[priority])) : 0;
+  }
+
+  private hasRunning(priority: ProcessPriority): boolean {
+    return Array.from(this.running.values()).includes(priority);
+  }
+}
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createTestEcosystem, TestEcosystem } from '../../test/testEcosystem';
+import { QuotaExceededError, ResourceAllocator } from './ResourceAllocator';
+
+describe('ResourceAllocator quotas', () => {
+  let ecosystem: TestEcosystem;
+  let allocator: ResourceAllocator;
+  const storedBytes: Record<string, number> = {};
+
+  const chat = (from: string, to: string) =>
+    ecosystem.fake(from).sendMessage(to, {
+      id: '',
+      fromAgentId: from,
+      toAgentId: to,
+      type: 'validation-request',
+      data: { content: {} },
+      priority: 'low',
+      timestamp: ecosystem.clock.date(),
+      requiresResponse: false
+    });
+
+  beforeEach(async () => {
+    ecosystem = await createTestEcosystem({
+      agents: [() => new ResourceAllocator({ measureStorage: async agentId => storedBytes[agentId] || 0 })],
+      fakes: ['chatty', 'quiet', 'event-bus']
+    });
+    allocator = ecosystem.get<ResourceAllocator>('resource-allocator-001');
+  });
+
+  afterEach(async () => {
+    await ecosystem.stop();
+  });
+
+  it('throttles an agent over its message rate until traffic dies down', async () => {
+    await allocator.setResourceLimits('chatty', { maxMessagesPerMinute: 2, onViolation: 'throttle' });
+    for (let i = 0; i < 3; i++) await chat('chatty', 'quiet');
+
+    const violations = await allocator.checkQuotas();
+    expect(violations).toMatchObject([{ agentId: 'chatty', resource: 'messages', used: 3, limit: 2 }]);
+    expect(ecosystem.fake('chatty').getSendThrottle()).toBe(30000);
+    ecosystem.expectEvent('resource.quota_exceeded', event => event.data.agentId === 'chatty');
+
+    // The sampler lifts the throttle once the last minute is quiet
+    await ecosystem.advance(70000);
+    expect(ecosystem.fake('chatty').getSendThrottle()).toBe(0);
+    ecosystem.expectEvent('resource.quota_restored');
+  });
+
+  it('rejects allocations while an agent is over its storage quota', async () => {
+    storedBytes.chatty = 4096;
+    await allocator.setResourceLimits('chatty', { maxStorage: '1KB', onViolation: 'reject' });
+    await allocator.checkQuotas();
+
+    await expect(allocator.requestSystemResources({ memory: '1MB' }, 'chatty')).rejects.toThrow(QuotaExceededError);
+
+    storedBytes.chatty = 100;
+    await allocator.checkQuotas();
+    const before = (await allocator.getSystemHealth()).resourcePools.memory.allocated;
+    const allocation = await allocator.requestSystemResources({ memory: '1MB' }, 'chatty');
+    expect((await allocator.getSystemHealth()).resourcePools.memory.allocated).toBe(before + 1024 ** 2);
+
+    await allocator.releaseResources(allocation.allocationId);
+    expect((await allocator.getSystemHealth()).resourcePools.memory.allocated).toBe(before);
+  });
+
+  it('shrinks a quota the agent never comes near gradually, down to a floor under the configured limit', async () => {
+    await allocator.setResourceLimits('quiet', { maxMemory: '1MB' });
+    const rebalanceAfterQuietSpell = async () => {
+      for (let i = 0; i < 3; i++) {
+        await allocator.measureAgent('quiet');
+        await ecosystem.advance(5 * 60 * 1000);
+      }
+      return (await allocator.optimizeResourceAllocations()).quotasRebalanced;
+    };
+
+    // Too few minutes of samples to trust
+    await allocator.measureAgent('quiet');
+    expect((await allocator.optimizeResourceAllocations()).quotasRebalanced).toEqual([]);
+
+    const peak = ecosystem.fake('quiet').getMemoryFootprint();
+    expect(peak * 1.5).toBeLessThan(512 * 1024);
+    expect(await rebalanceAfterQuietSpell()).toEqual([{ agentId: 'quiet', resource: 'memory', from: 1024 ** 2, to: 768 * 1024, peak }]);
+    expect(await rebalanceAfterQuietSpell()).toMatchObject([{ from: 768 * 1024, to: 576 * 1024 }]);
+    expect(await rebalanceAfterQuietSpell()).toMatchObject([{ from: 576 * 1024, to: 512 * 1024 }]);
+    expect(await rebalanceAfterQuietSpell()).toEqual([]);
+    expect(allocator.getQuotaStatus('quiet')).toMatchObject({ limits: { maxMemory: `${512 * 1024}B` }, configuredLimits: { maxMemory: '1MB' } });
+  });
+});
@@ -1,7 +1,7 @@
 // Resource Allocator Agent - OS-level resource management for AgentricAI Core
 
 import { BaseAgent } from '../base/BaseAgent';
-import { AgentConfig, AgentMessage } from '../base/AgentTypes';
+import { AgentConfig, AgentMessage, AgentMessageOf, TypedAgentMessage } from '../base/AgentTypes';
 import { 
   AgentOSInterface, 
   ResourceRequest, 
@@ -12,8 +12,13 @@ import {
   MemoryAllocation,
   ComputeAllocation,
   StorageAllocation,
-  NetworkAllocation
+  NetworkAllocation,
+  QuotaViolationAction
 } from '../base/AgentOSInterface';
+import { AgentRuntime, DeliveryRecord } from '../base/AgentRuntime';
+import { clock, random, scheduler, TimerHandle } from '../base/AgentEnvironment';
+import { agentricaiKnowledgeDB } from '../../services/knowledgeDatabase';
+import { LedgerAmounts, LedgerAttribution, LedgerFilter, LedgerGroupBy, LedgerSummary, ResourceLedger } from './ResourceLedger';
 
 export interface ResourcePool {
   type: 'memory' | 'compute' | 'storage' | 'network';
@@ -33,16 +38,96 @@ export interface AllocationRecord {
   expiresAt?: Date;
   priority: 'low' | 'normal' | 'high' | 'critical';
   status: 'active' | 'expired' | 'released';
+  // What the allocation took from each pool, returned on release
+  amounts: Partial<Record<ResourcePool['type'], number>>;
+  workflowId?: string;
+  sessionId?: string;
+  studentId?: string;
 }
 
+// One reading of an agent's real usage: memory map bytes, knowledge storage bytes, messages sent
+export interface ResourceMeasurement {
+  agentId: string;
+  memoryBytes: number;
+  storageBytes: number;
+  messagesPerMinute: number;
+  measuredAt: Date;
+}
+
+export type QuotaResource = 'memory' | 'storage' | 'messages';
+
+export interface QuotaViolation {
+  agentId: string;
+  resource: QuotaResource;
+  used: number;
+  limit: number;
+  action: QuotaViolationAction;
+  detectedAt: Date;
+}
+
+export interface QuotaAdjustment {
+  agentId: string;
+  resource: QuotaResource;
+  from: number;
+  to: number;
+  peak: number;
+}
+
+export interface ResourceAllocatorOptions {
+  // Bytes an agent holds in storage; defaults to its rows in the knowledge database
+  measureStorage?: (agentId: string) => Promise<number>;
+  sampleIntervalMs?: number;
+  ledger?: ResourceLedger;
+}
+
+export class QuotaExceededError extends Error {
+  constructor(public agentId: string, public violations: QuotaViolation[]) {
+    super(`Agent ${agentId} is over quota: ` +
+      violations.map(violation => `${violation.resource} ${violation.used} over limit ${violation.limit}`).join('; '));
+    this.name = 'QuotaExceededError';
+  }
+}
+
+// Capacities used until the browser reports real ones
+const DEFAULT_MEMORY_BYTES = 1024 ** 3;
+const DEFAULT_STORAGE_BYTES = 5 * 1024 ** 2; // the usual localStorage quota
+const DEFAULT_BANDWIDTH_MBPS = 10;
+
+const MESSAGE_WINDOW_MS = 60000;
+const MAX_MEASUREMENTS = 100;
+// Throttle rate for agents over a memory or storage quota that have no message quota
+const DEFAULT_THROTTLED_RATE = 30;
+// Once over quota, an agent stays there until usage drops below this share of the limit
+const QUOTA_RESTORE_RATIO = 0.8;
+// Rebalancing fits quotas to the peak measured over the last window, once the samples cover it
+const MIN_SAMPLES_TO_REBALANCE = 3;
+const REBALANCE_WINDOW_MS = 10 * 60 * 1000;
+const QUOTA_GROW_ABOVE = 0.9;
+const QUOTA_SHRINK_BELOW = 0.5;
+const QUOTA_HEADROOM = 1.5;
+// A quiet spell shrinks a quota by at most this share per rebalance, and never below this share
+// of the limit an administrator set
+const QUOTA_SHRINK_STEP = 0.25;
+const QUOTA_FLOOR_RATIO = 0.5;
+
 export class ResourceAllocator extends BaseAgent implements AgentOSInterface {
   private resourcePools: Map<string, ResourcePool> = new Map();
   private allocations: Map<string, AllocationRecord> = new Map();
   private agentLimits: Map<string, ResourceLimits> = new Map();
+  // Limits as an administrator set them, before any rebalancing
+  private configuredLimits: Map<string, ResourceLimits> = new Map();
   private usageHistory: Map<string, ResourceUsage[]> = new Map();
   private allocationQueue: ResourceRequest[] = [];
-
-  constructor() {
+  private measurements: Map<string, ResourceMeasurement[]> = new Map();
+  private violations: Map<string, QuotaViolation[]> = new Map();
+  private messageLog: Map<string, { sent: number[]; received: number[] }> = new Map();
+  private stopMetering?: () => void;
+  private samplingTimer?: TimerHandle;
+  private measureStorage: (agentId: string) => Promise<number>;
+  private sampleIntervalMs: number;
+  private ledger: ResourceLedger;
+
+  constructor(options: ResourceAllocatorOptions = {}) {
     const config: AgentConfig = {
       id: 'resource-allocator-001',
       name: 'System Resource Allocator',
@@ -64,6 +149,9 @@ export class ResourceAllocator extends BaseAgent implements AgentOSInterface {
     };
 
     super(config);
+    this.measureStorage = options.measureStorage ?? (agentId => agentricaiKnowledgeDB.getAgentStorageBytes(agentId));
+    this.sampleIntervalMs = options.sampleIntervalMs ?? 10000;
+    this.ledger = options.ledger ?? new ResourceLedger();
     this.initializeResourcePools();
   }
 
@@ -89,94 +177,125 @@ export class ResourceAllocator extends BaseAgent implements AgentOSInterface {
       case 'optimize_allocations':
         return await this.optimizeResourceAllocations();
       
+      case 'check_quotas':
+        return await this.checkQuotas();
+      
+      case 'get_quota_status':
+        return this.getQuotaStatus(data.agentId);
+      
+      case 'record_usage':
+        return await this.recordUsage(data.agentId, data.usage, data.attribution);
+      
+      case 'get_usage_report':
+        return this.getUsageReport(data.groupBy, data.filter);
+      
+      case 'export_ledger_csv':
+        return this.exportLedgerCSV(data.filter, data.groupBy);
+      
       default:
         throw new Error(`Unknown task type: ${type}`);
     }
   }
 
   // Resource Pool Management
+  // Capacities are what the browser reports; storage is refined by measureSystemCapacity() on start
   private initializeResourcePools(): void {
-    // Initialize system resource pools
-    this.resourcePools.set('memory', {
-      type: 'memory',
-      total: 16 * 1024 * 1024 * 1024, // 16GB in bytes
-      allocated: 0,
-      available: 16 * 1024 * 1024 * 1024,
-      reserved: 2 * 1024 * 1024 * 1024, // 2GB reserved for system
-      unit: 'bytes'
-    });
-
-    this.resourcePools.set('compute', {
-      type: 'compute',
-      total: 100, // 100% CPU
-      allocated: 0,
-      available: 100,
-      reserved: 20, // 20% reserved for system
-      unit: 'percentage'
-    });
+    const browser: any = typeof navigator !== 'undefined' ? navigator : {};
+    const heapLimit = (globalThis as any).performance?.memory?.jsHeapSizeLimit;
+    const memoryTotal = heapLimit || (browser.deviceMemory ? browser.deviceMemory * 1024 ** 3 : DEFAULT_MEMORY_BYTES);
+    const bandwidth = browser.connection?.downlink || DEFAULT_BANDWIDTH_MBPS;
+
+    this.setResourcePool('memory', memoryTotal, memoryTotal * 0.1, 'bytes');
+    this.setResourcePool('compute', 100, 20, 'percentage');
+    this.setResourcePool('storage', DEFAULT_STORAGE_BYTES, DEFAULT_STORAGE_BYTES * 0.1, 'bytes');
+    this.setResourcePool('network', bandwidth, bandwidth * 0.1, 'mbps');
+  }
 
-    this.resourcePools.set('storage', {
-      type: 'storage',
-      total: 1024 * 1024 * 1024 * 1024, // 1TB in bytes
-      allocated: 0,
-      available: 1024 * 1024 * 1024 * 1024,
-      reserved: 100 * 1024 * 1024 * 1024, // 100GB reserved
-      unit: 'bytes'
-    });
+  private async measureSystemCapacity(): Promise<void> {
+    try {
+      const estimate = await (globalThis as any).navigator?.storage?.estimate?.();
+      if (estimate?.quota) {
+        this.setResourcePool('storage', estimate.quota, estimate.quota * 0.1, 'bytes');
+      }
+    } catch (error) {
+      console.warn('Storage estimate unavailable, keeping the default storage capacity:', error);
+    }
+  }
 
-    this.resourcePools.set('network', {
-      type: 'network',
-      total: 1000, // 1Gbps in Mbps
-      allocated: 0,
-      available: 1000,
-      reserved: 100, // 100Mbps reserved
-      unit: 'mbps'
+  // Resizing a pool keeps what is already allocated from it
+  private setResourcePool(type: ResourcePool['type'], total: number, reserved: number, unit: string): void {
+    const allocated = this.resourcePools.get(type)?.allocated || 0;
+    this.resourcePools.set(type, {
+      type,
+      total,
+      allocated,
+      available: Math.max(0, total - reserved - allocated),
+      reserved,
+      unit
     });
   }
 
   // AgentOSInterface Implementation
-  async requestSystemResources(request: ResourceRequest): Promise<ResourceAllocation> {
-    console.log(`📋 Processing resource allocation request:`, request);
+  async requestSystemResources(request: ResourceRequest, agentId: string = 'system'): Promise<ResourceAllocation> {
+    console.log(`📋 Processing resource allocation request from ${agentId}:`, request);
+
+    const violations = this.violations.get(agentId);
+    if (violations?.some(violation => violation.action === 'reject')) {
+      throw new QuotaExceededError(agentId, violations);
+    }
     
-    const allocationId = `alloc-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const allocationId = `alloc-${clock.now()}-${random.next().toString(36).substr(2, 9)}`;
     const allocation: ResourceAllocation = {
       allocationId,
-      expiresAt: request.duration ? new Date(Date.now() + request.duration) : undefined
+      expiresAt: request.duration ? new Date(clock.now() + request.duration) : undefined
     };
 
-    // Validate and allocate memory
-    if (request.memory) {
-      allocation.memory = await this.allocateMemory('system', request.memory);
-    }
+    // Validate and allocate each resource; a failure hands back what was already taken
+    const amounts: AllocationRecord['amounts'] = {};
+    try {
+      if (request.memory) {
+        allocation.memory = await this.allocateMemory(agentId, request.memory);
+        amounts.memory = this.parseMemorySize(request.memory);
+      }
 
-    // Validate and allocate compute
-    if (request.compute) {
-      allocation.compute = await this.allocateCompute('system', request.compute);
-    }
+      if (request.compute) {
+        allocation.compute = await this.allocateCompute(agentId, request.compute);
+        amounts.compute = allocation.compute.cpuQuota;
+      }
 
-    // Validate and allocate storage
-    if (request.storage) {
-      allocation.storage = await this.allocateStorage('system', request.storage);
-    }
+      if (request.storage) {
+        allocation.storage = await this.allocateStorage(agentId, request.storage);
+        amounts.storage = this.parseMemorySize(request.storage);
+      }
 
-    // Validate and allocate network
-    if (request.network) {
-      allocation.network = await this.allocateNetwork('system', '100Mbps');
+      if (request.network) {
+        const bandwidth = `${Math.max(1, Math.round(this.resourcePools.get('network')!.total / 10))}Mbps`;
+        allocation.network = await this.allocateNetwork(agentId, bandwidth);
+        amounts.network = this.parseBandwidth(bandwidth);
+      }
+    } catch (error) {
+      this.returnToPools(amounts);
+      throw error;
     }
 
     // Record the allocation
     const record: AllocationRecord = {
       allocationId,
-      agentId: 'system',
+      agentId,
       resourceType: 'mixed',
       amount: 1,
-      allocatedAt: new Date(),
+      allocatedAt: clock.date(),
       expiresAt: allocation.expiresAt,
-      priority: request.priority || 'normal',
-      status: 'active'
+      priority: request.priority === 'background' ? 'low' : request.priority || 'normal',
+      status: 'active',
+      amounts,
+      workflowId: request.workflowId,
+      sessionId: request.sessionId,
+      studentId: request.studentId
     };
 
     this.allocations.set(allocationId, record);
+    await this.ledger.record('allocate', agentId, this.toLedgerAmounts(amounts), this.attributionOf(record));
     
     this.metrics.tasksCompleted += 1;
     return allocation;
@@ -190,11 +309,7 @@ export class ResourceAllocator extends BaseAgent implements AgentOSInterface {
       throw new Error(`Allocation not found: ${allocationId}`);
     }
 
-    // Mark as released
-    record.status = 'released';
-    
-    // Update resource pools (simplified - in real implementation would track specific amounts)
-    this.updateResourcePools();
+    await this.releaseRecord(record);
     
     this.metrics.tasksCompleted += 1;
   }
@@ -202,6 +317,11 @@ export class ResourceAllocator extends BaseAgent implements AgentOSInterface {
   async updateResourceUsage(allocationId: string, usage: any): Promise<void> {
     const record = this.allocations.get(allocationId);
     if (record) {
+      await this.ledger.record('usage', record.agentId, this.usageAmounts(usage), {
+        ...this.attributionOf(record),
+        llmModel: usage.llm?.model
+      });
+
       // Update usage tracking
       const agentUsage = this.usageHistory.get(record.agentId) || [];
       agentUsage.push({
@@ -210,7 +330,7 @@ export class ResourceAllocator extends BaseAgent implements AgentOSInterface {
         compute: usage.compute || { cpuUsage: 0, threads: 0, priority: 0 },
         storage: usage.storage || { allocated: '0MB', used: '0MB' },
         network: usage.network || { bandwidth: '0Mbps', connections: 0, bytesIn: 0, bytesOut: 0 },
-        timestamp: new Date()
+        timestamp: clock.date()
       });
       
       // Keep only recent history
@@ -234,7 +354,7 @@ export class ResourceAllocator extends BaseAgent implements AgentOSInterface {
     const limits = this.agentLimits.get(agentId);
     if (limits?.maxMemory) {
       const maxBytes = this.parseMemorySize(limits.maxMemory);
-      const currentUsage = await this.getAgentMemoryUsage(agentId);
+      const currentUsage = this.getAllocatedAmount(agentId, 'memory');
       if (currentUsage + bytesRequested > maxBytes) {
         throw new Error(`Memory limit exceeded for agent ${agentId}`);
       }
@@ -246,7 +366,7 @@ export class ResourceAllocator extends BaseAgent implements AgentOSInterface {
 
     return {
       allocated: amount,
-      address: `0x${Math.random().toString(16).substr(2, 8).toUpperCase()}`,
+      address: `0x${random.next().toString(16).substr(2, 8).toUpperCase()}`,
       type
     };
   }
@@ -254,8 +374,7 @@ export class ResourceAllocator extends BaseAgent implements AgentOSInterface {
   async deallocateMemory(allocationId: string): Promise<void> {
     const record = this.allocations.get(allocationId);
     if (record) {
-      record.status = 'released';
-      this.updateResourcePools();
+      await this.releaseRecord(record);
     }
   }
 
@@ -300,8 +419,7 @@ export class ResourceAllocator extends BaseAgent implements AgentOSInterface {
   async deallocateCompute(allocationId: string): Promise<void> {
     const record = this.allocations.get(allocationId);
     if (record) {
-      record.status = 'released';
-      this.updateResourcePools();
+      await this.releaseRecord(record);
     }
   }
 
@@ -327,7 +445,7 @@ export class ResourceAllocator extends BaseAgent implements AgentOSInterface {
     const limits = this.agentLimits.get(agentId);
     if (limits?.maxStorage) {
       const maxBytes = this.parseMemorySize(limits.maxStorage);
-      const currentUsage = await this.getAgentStorageUsage(agentId);
+      const currentUsage = this.getAllocatedAmount(agentId, 'storage');
       if (currentUsage + bytesRequested > maxBytes) {
         throw new Error(`Storage limit exceeded for agent ${agentId}`);
       }
@@ -338,7 +456,7 @@ export class ResourceAllocator extends BaseAgent implements AgentOSInterface {
     storagePool.available -= bytesRequested;
 
     return {
-      path: `/tmp/agent-${agentId}-${Date.now()}`,
+      path: `/tmp/agent-${agentId}-${clock.now()}`,
       size,
       type
     };
@@ -347,8 +465,7 @@ export class ResourceAllocator extends BaseAgent implements AgentOSInterface {
   async deallocateStorage(allocationId: string): Promise<void> {
     const record = this.allocations.get(allocationId);
     if (record) {
-      record.status = 'released';
-      this.updateResourcePools();
+      await this.releaseRecord(record);
     }
   }
 
@@ -393,8 +510,7 @@ export class ResourceAllocator extends BaseAgent implements AgentOSInterface {
   async deallocateNetwork(allocationId: string): Promise<void> {
     const record = this.allocations.get(allocationId);
     if (record) {
-      record.status = 'released';
-      this.updateResourcePools();
+      await this.releaseRecord(record);
     }
   }
 
@@ -409,23 +525,111 @@ export class ResourceAllocator extends BaseAgent implements AgentOSInterface {
   }
 
   async monitorUsage(agentId: string): Promise<ResourceUsage> {
+    const measurement = await this.measureAgent(agentId);
+    const limits = this.agentLimits.get(agentId);
+    const peakMemory = Math.max(...this.measurements.get(agentId)!.map(sample => sample.memoryBytes));
+    const messages = this.getMessageTimes(agentId);
+
     const usage: ResourceUsage = {
       agentId,
-      memory: await this.getMemoryUsage(agentId),
+      memory: {
+        allocated: limits?.maxMemory || this.formatBytes(this.getAllocatedAmount(agentId, 'memory')),
+        used: this.formatBytes(measurement.memoryBytes),
+        peak: this.formatBytes(peakMemory)
+      },
       compute: await this.getComputeUsage(agentId),
-      storage: await this.getStorageUsage(agentId),
+      storage: {
+        allocated: limits?.maxStorage || this.formatBytes(this.getAllocatedAmount(agentId, 'storage')),
+        used: this.formatBytes(measurement.storageBytes)
+      },
       network: await this.getNetworkUsage(agentId),
-      timestamp: new Date()
+      messages: {
+        sentPerMinute: messages.sent.length,
+        receivedPerMinute: messages.received.length
+      },
+      timestamp: measurement.measuredAt
     };
 
     // Store in history
     const history = this.usageHistory.get(agentId) || [];
     history.push(usage);
+    if (history.length > MAX_MEASUREMENTS) {
+      history.splice(0, history.length - MAX_MEASUREMENTS);
+    }
     this.usageHistory.set(agentId, history);
 
     return usage;
   }
 
+  // Resource Accounting
+  // Usage with no allocation behind it, such as the language-model tokens spent on a lesson
+  async recordUsage(agentId: string, usage: any, attribution: LedgerAttribution = {}): Promise<void> {
+    await this.ledger.record('usage', agentId, this.usageAmounts(usage), {
+      ...attribution,
+      llmModel: usage.llm?.model
+    });
+  }
+
+  getUsageReport(groupBy: LedgerGroupBy = 'agent', filter: LedgerFilter = {}): LedgerSummary[] {
+    return this.ledger.summarize(groupBy, filter);
+  }
+
+  // Every ledger entry, or the per-group summary when groupBy is given
+  exportLedgerCSV(filter: LedgerFilter = {}, groupBy?: LedgerGroupBy): string {
+    return groupBy ? this.ledger.summaryToCSV(groupBy, filter) : this.ledger.toCSV(filter);
+  }
+
+  getLedger(): ResourceLedger {
+    return this.ledger;
+  }
+
+  // Quota Enforcement
+  async measureAgent(agentId: string): Promise<ResourceMeasurement> {
+    const agent = this.findAgent(agentId);
+    const measurement: ResourceMeasurement = {
+      agentId,
+      memoryBytes: agent ? agent.getMemoryFootprint() : 0,
+      storageBytes: await this.measureStorage(agentId),
+      messagesPerMinute: this.getMessageTimes(agentId).sent.length,
+      measuredAt: clock.date()
+    };
+
+    const history = this.measurements.get(agentId) || [];
+    history.push(measurement);
+    if (history.length > MAX_MEASUREMENTS) {
+      history.splice(0, history.length - MAX_MEASUREMENTS);
+    }
+    this.measurements.set(agentId, history);
+
+    return measurement;
+  }
+
+  // Measure every agent with limits and enforce them; runs on the sampling timer
+  async checkQuotas(): Promise<QuotaViolation[]> {
+    for (const agentId of this.agentLimits.keys()) {
+      try {
+        const measurement = await this.measureAgent(agentId);
+        await this.enforceQuotas(agentId, measurement);
+      } catch (error) {
+        console.warn(`⚖️ Could not check quotas for agent ${agentId}:`, error);
+      }
+    }
+
+    return Array.from(this.violations.values()).flat();
+  }
+
+  getQuotaStatus(agentId: string): any {
+    const history = this.measurements.get(agentId) || [];
+    return {
+      agentId,
+      limits: this.agentLimits.get(agentId),
+      configuredLimits: this.configuredLimits.get(agentId),
+      violations: this.violations.get(agentId) || [],
+      latest: history[history.length - 1],
+      sendThrottleMs: this.findAgent(agentId)?.getSendThrottle() || 0
+    };
+  }
+
   async getSystemResources(): Promise<SystemResourceInfo> {
     const memoryPool = this.resourcePools.get('memory')!;
     const computePool = this.resourcePools.get('compute')!;
@@ -446,6 +650,19 @@ export class ResourceAllocator extends BaseAgent implements AgentOSInterface {
 
   async setResourceLimits(agentId: string, limits: ResourceLimits): Promise<void> {
     console.log(`⚖️ Setting resource limits for agent ${agentId}:`, limits);
+
+    // Fail on malformed sizes now rather than on every quota check
+    if (limits.maxMemory) this.parseMemorySize(limits.maxMemory);
+    if (limits.maxStorage) this.parseMemorySize(limits.maxStorage);
+    if (limits.maxMessagesPerMinute !== undefined && !(limits.maxMessagesPerMinute > 0)) {
+      throw new Error(`maxMessagesPerMinute must be positive, got ${limits.maxMessagesPerMinute}`);
+    }
+
+    this.configuredLimits.set(agentId, limits);
+    this.applyResourceLimits(agentId, limits);
+  }
+
+  private applyResourceLimits(agentId: string, limits: ResourceLimits): void {
     this.agentLimits.set(agentId, limits);
     this.storeMemory(`limits_${agentId}`, limits, 'long');
   }
@@ -457,18 +674,23 @@ export class ResourceAllocator extends BaseAgent implements AgentOSInterface {
       memoryDefragmented: 0,
       computeRebalanced: 0,
       expiredAllocationsReleased: 0,
-      recommendations: []
+      quotasRebalanced: [] as QuotaAdjustment[],
+      recommendations: [] as string[]
     };
 
     // Release expired allocations
-    const now = new Date();
+    const now = clock.date();
     for (const [id, record] of this.allocations.entries()) {
       if (record.expiresAt && record.expiresAt < now && record.status === 'active') {
         await this.releaseResources(id);
+        record.status = 'expired';
         optimizations.expiredAllocationsReleased++;
       }
     }
 
+    // Fit quotas to what agents have actually used
+    optimizations.quotasRebalanced = await this.rebalanceQuotas();
+
     // Generate recommendations
     const memoryPool = this.resourcePools.get('memory')!;
     if (memoryPool.available < memoryPool.total * 0.2) {
@@ -489,7 +711,7 @@ export class ResourceAllocator extends BaseAgent implements AgentOSInterface {
     console.log(`📝 Registering Resource Allocator with OS`);
     this.storeMemory('os_registration', {
       registered: true,
-      registeredAt: new Date(),
+      registeredAt: clock.date(),
       services: ['resource-allocation', 'resource-monitoring', 'quota-management']
     }, 'long');
   }
@@ -544,7 +766,7 @@ export class ResourceAllocator extends BaseAgent implements AgentOSInterface {
     console.log(`📋 Registering service: ${serviceType}`);
   }
 
-  protected async processMessage(message: AgentMessage): Promise<void> {
+  protected async processMessage(message: TypedAgentMessage): Promise<void> {
     switch (message.type) {
       case 'resource-allocation-request':
         await this.handleResourceAllocationRequest(message);
@@ -558,6 +780,10 @@ export class ResourceAllocator extends BaseAgent implements AgentOSInterface {
         await this.handleResourceUsageRequest(message);
         break;
       
+      case 'resource-usage-report':
+        await this.handleResourceUsageReport(message);
+        break;
+      
       default:
         console.log(`Resource Allocator received unknown message type: ${message.type}`);
     }
@@ -567,20 +793,243 @@ export class ResourceAllocator extends BaseAgent implements AgentOSInterface {
     return "I'm the resource helper that makes sure everyone gets what they need to work properly! 📦⚡";
   }
 
+  // Message throughput is metered from everything the runtime delivers
+  attachRuntime(runtime: AgentRuntime): void {
+    super.attachRuntime(runtime);
+    this.stopMetering = runtime.observeMessages((message, status) => this.recordMessage(message, status));
+  }
+
+  detachRuntime(): void {
+    this.stopMetering?.();
+    this.stopMetering = undefined;
+    super.detachRuntime();
+  }
+
+  protected async onStart(): Promise<void> {
+    await this.measureSystemCapacity();
+    this.samplingTimer = scheduler.setInterval(async () => { await this.checkQuotas(); }, this.sampleIntervalMs);
+  }
+
+  protected async onStop(): Promise<void> {
+    scheduler.clearInterval(this.samplingTimer);
+    this.samplingTimer = undefined;
+  }
+
   // Private helper methods
-  private updateResourcePools(): void {
-    // Recalculate resource pool availability based on active allocations
-    // This is a simplified version - real implementation would track exact amounts
-    for (const pool of this.resourcePools.values()) {
-      const activeAllocations = Array.from(this.allocations.values())
-        .filter(a => a.status === 'active').length;
-      
-      // Simplified calculation
-      pool.allocated = activeAllocations * (pool.total * 0.1);
-      pool.available = pool.total - pool.allocated - pool.reserved;
+  private async releaseRecord(record: AllocationRecord): Promise<void> {
+    if (record.status !== 'active') return;
+
+    record.status = 'released';
+    this.returnToPools(record.amounts);
+    await this.ledger.record('deallocate', record.agentId, this.toLedgerAmounts(record.amounts), this.attributionOf(record));
+  }
+
+  private attributionOf(record: AllocationRecord): LedgerAttribution {
+    return {
+      allocationId: record.allocationId,
+      workflowId: record.workflowId,
+      sessionId: record.sessionId,
+      studentId: record.studentId
+    };
+  }
+
+  private toLedgerAmounts(amounts: AllocationRecord['amounts']): LedgerAmounts {
+    return {
+      memoryBytes: amounts.memory,
+      cpuPercent: amounts.compute,
+      storageBytes: amounts.storage,
+      networkMbps: amounts.network
+    };
+  }
+
+  // Usage reports give sizes as strings ('12MB') and model calls as token counts
+  private usageAmounts(usage: any): LedgerAmounts {
+    const bytes = (size?: string) => {
+      if (!size) return undefined;
+      try {
+        return this.parseMemorySize(size);
+      } catch {
+        return undefined;
+      }
+    };
+
+    return {
+      memoryBytes: bytes(usage?.memory?.used),
+      cpuPercent: usage?.compute?.cpuUsage,
+      storageBytes: bytes(usage?.storage?.used),
+      llmTokens: usage?.llm ? (usage.llm.promptTokens || 0) + (usage.llm.completionTokens || 0) : undefined
+    };
+  }
+
+  private returnToPools(amounts: AllocationRecord['amounts']): void {
+    for (const [type, amount] of Object.entries(amounts)) {
+      const pool = this.resourcePools.get(type);
+      if (!pool || !amount) continue;
+
+      pool.allocated = Math.max(0, pool.allocated - amount);
+      pool.available = Math.max(0, pool.total - pool.reserved - pool.allocated);
     }
   }
 
+  private getAllocatedAmount(agentId: string, type: ResourcePool['type']): number {
+    return Array.from(this.allocations.values())
+      .filter(record => record.agentId === agentId && record.status === 'active')
+      .reduce((total, record) => total + (record.amounts[type] || 0), 0);
+  }
+
+  private recordMessage(message: AgentMessage, status: DeliveryRecord['status']): void {
+    if (status === 'undelivered') return;
+
+    const now = clock.now();
+    this.getMessageTimes(message.fromAgentId).sent.push(now);
+    if (message.toAgentId !== 'broadcast') {
+      this.getMessageTimes(message.toAgentId).received.push(now);
+    }
+  }
+
+  // Send and receive times within the last minute, keyed by agent id rather than alias
+  private getMessageTimes(idOrAlias: string): { sent: number[]; received: number[] } {
+    const agentId = this.findAgent(idOrAlias)?.id || idOrAlias;
+    let times = this.messageLog.get(agentId);
+    if (!times) {
+      times = { sent: [], received: [] };
+      this.messageLog.set(agentId, times);
+    }
+
+    const cutoff = clock.now() - MESSAGE_WINDOW_MS;
+    for (const list of [times.sent, times.received]) {
+      while (list.length > 0 && list[0] <= cutoff) list.shift();
+    }
+    return times;
+  }
+
+  private async enforceQuotas(agentId: string, measurement: ResourceMeasurement): Promise<void> {
+    const limits = this.agentLimits.get(agentId) || {};
+    const action = limits.onViolation || 'notify';
+    const previous = this.violations.get(agentId) || [];
+    const current: QuotaViolation[] = [];
+
+    const check = (resource: QuotaResource, used: number, limit?: number) => {
+      if (limit === undefined) return;
+      const existing = previous.find(violation => violation.resource === resource);
+      const threshold = existing ? limit * QUOTA_RESTORE_RATIO : limit;
+      if (used > threshold) {
+        current.push({ agentId, resource, used, limit, action, detectedAt: existing?.detectedAt || clock.date() });
+      }
+    };
+    check('memory', measurement.memoryBytes, limits.maxMemory ? this.parseMemorySize(limits.maxMemory) : undefined);
+    check('storage', measurement.storageBytes, limits.maxStorage ? this.parseMemorySize(limits.maxStorage) : undefined);
+    check('messages', measurement.messagesPerMinute, limits.maxMessagesPerMinute);
+
+    if (current.length === 0) {
+      this.violations.delete(agentId);
+      if (previous.length > 0) {
+        await this.liftQuotaEnforcement(agentId, previous);
+      }
+      return;
+    }
+
+    this.violations.set(agentId, current);
+    const exceeded = current.filter(violation => !previous.some(earlier => earlier.resource === violation.resource));
+    if (exceeded.length === 0) return;
+
+    console.warn(`⚖️ Agent ${agentId} over quota (${action}): ${exceeded.map(violation => violation.resource).join(', ')}`);
+    if (action === 'throttle') {
+      const rate = limits.maxMessagesPerMinute || DEFAULT_THROTTLED_RATE;
+      this.findAgent(agentId)?.setSendThrottle(MESSAGE_WINDOW_MS / rate);
+    }
+    await this.notifyQuotaEvent('quota_exceeded', agentId, exceeded);
+  }
+
+  private async liftQuotaEnforcement(agentId: string, resolved: QuotaViolation[]): Promise<void> {
+    console.log(`⚖️ Agent ${agentId} is back within quota`);
+    if (resolved.some(violation => violation.action === 'throttle')) {
+      this.findAgent(agentId)?.setSendThrottle(0);
+    }
+    await this.notifyQuotaEvent('quota_restored', agentId, resolved);
+  }
+
+  // Admins watch system events; the Event Bus copy reaches subscribed agents
+  private async notifyQuotaEvent(event: 'quota_exceeded' | 'quota_restored', agentId: string, violations: QuotaViolation[]): Promise<void> {
+    const exceeded = event === 'quota_exceeded';
+    const details = violations.map(({ resource, used, limit, action }) => ({ resource, used, limit, action }));
+
+    await this.emitSystemEvent({
+      id: `event-${clock.now()}`,
+      type: exceeded ? 'error-event' : 'system-event',
+      source: this.id,
+      data: { event, agentId, violations: details },
+      priority: exceeded ? 'high' : 'normal',
+      timestamp: clock.date()
+    });
+    await this.publishToEventBus(`resource.${event}`, { agentId, violations: details }, exceeded ? 'warning' : 'info');
+  }
+
+  // Grow quotas an agent keeps pressing against while the pool has room; shrink ones it never
+  // nears step by step, down to a floor under the configured limit
+  private async rebalanceQuotas(): Promise<QuotaAdjustment[]> {
+    const adjustments: QuotaAdjustment[] = [];
+    const windowStart = clock.now() - REBALANCE_WINDOW_MS;
+
+    for (const [agentId, limits] of this.agentLimits.entries()) {
+      const measured = this.measurements.get(agentId) || [];
+      if (measured.length === 0 || measured[0].measuredAt.getTime() > windowStart) continue;
+
+      const history = measured.filter(sample => sample.measuredAt.getTime() >= windowStart);
+      if (history.length < MIN_SAMPLES_TO_REBALANCE) continue;
+
+      const configured = this.configuredLimits.get(agentId) || limits;
+      const updated: ResourceLimits = { ...limits };
+      const fit = (resource: QuotaResource, limit: number | undefined, configuredLimit: number | undefined, peak: number, room: number): number | undefined => {
+        if (!limit) return undefined;
+
+        let target = limit;
+        if (peak > limit * QUOTA_GROW_ABOVE) {
+          target = Math.min(Math.ceil(peak * QUOTA_HEADROOM), limit + room);
+        } else if (peak < limit * QUOTA_SHRINK_BELOW) {
+          const floor = Math.ceil((configuredLimit || limit) * QUOTA_FLOOR_RATIO);
+          target = Math.max(Math.ceil(peak * QUOTA_HEADROOM), Math.ceil(limit * (1 - QUOTA_SHRINK_STEP)), floor, 1);
+          // Already at or under the floor, e.g. after an administrator lowered the limit
+          if (target > limit) target = limit;
+        }
+        if (target === limit) return undefined;
+
+        adjustments.push({ agentId, resource, from: limit, to: target, peak });
+        return target;
+      };
+
+      const peakOf = (field: keyof Omit<ResourceMeasurement, 'agentId' | 'measuredAt'>) =>
+        Math.max(...history.map(sample => sample[field]));
+
+      const bytes = (size: string | undefined) => size ? this.parseMemorySize(size) : undefined;
+
+      const memory = fit('memory', bytes(limits.maxMemory), bytes(configured.maxMemory),
+        peakOf('memoryBytes'), this.resourcePools.get('memory')!.available);
+      if (memory !== undefined) updated.maxMemory = `${memory}B`;
+
+      const storage = fit('storage', bytes(limits.maxStorage), bytes(configured.maxStorage),
+        peakOf('storageBytes'), this.resourcePools.get('storage')!.available);
+      if (storage !== undefined) updated.maxStorage = `${storage}B`;
+
+      const messages = fit('messages', limits.maxMessagesPerMinute, configured.maxMessagesPerMinute,
+        peakOf('messagesPerMinute'), Infinity);
+      if (messages !== undefined) {
+        updated.maxMessagesPerMinute = messages;
+        // Keep an active throttle in step with the new rate
+        const agent = this.findAgent(agentId);
+        if (agent && agent.getSendThrottle() > 0) {
+          agent.setSendThrottle(MESSAGE_WINDOW_MS / messages);
+        }
+      }
+
+      if (memory !== undefined || storage !== undefined || messages !== undefined) {
+        this.applyResourceLimits(agentId, updated);
+      }
+    }
+
+    return adjustments;
+  }
+
   private parseMemorySize(size: string): number {
     const units = { B: 1, KB: 1024, MB: 1024**2, GB: 1024**3, TB: 1024**4 };
     const match = size.match(/^(\d+(?:\.\d+)?)\s*([KMGT]?B)$/i);
@@ -612,16 +1061,6 @@ export class ResourceAllocator extends BaseAgent implements AgentOSInterface {
     return `${size.toFixed(1)}${units[unitIndex]}`;
   }
 
-  private async getAgentMemoryUsage(agentId: string): number {
-    const usage = await this.getMemoryUsage(agentId);
-    return this.parseMemorySize(usage.allocated || '0MB');
-  }
-
-  private async getAgentStorageUsage(agentId: string): number {
-    const usage = await this.getStorageUsage(agentId);
-    return this.parseMemorySize(usage.allocated || '0MB');
-  }
-
   private calculateSystemLoad(): number {
     const totalAllocations = this.allocations.size;
     const activeAllocations = Array.from(this.allocations.values())
@@ -648,10 +1087,10 @@ export class ResourceAllocator extends BaseAgent implements AgentOSInterface {
     return recommendations;
   }
 
-  private async handleResourceAllocationRequest(message: AgentMessage): Promise<void> {
+  private async handleResourceAllocationRequest(message: AgentMessageOf<'resource-allocation-request'>): Promise<void> {
     const { request } = message.data;
     try {
-      const allocation = await this.requestSystemResources(request);
+      const allocation = await this.requestSystemResources(request, message.fromAgentId);
       
       if (message.requiresResponse) {
         await this.sendMessage(message.fromAgentId, {
@@ -661,7 +1100,7 @@ export class ResourceAllocator extends BaseAgent implements AgentOSInterface {
           type: 'resource-allocation-response',
           data: { success: true, allocation },
           priority: message.priority,
-          timestamp: new Date(),
+          timestamp: clock.date(),
           requiresResponse: false,
           correlationId: message.id
         });
@@ -675,7 +1114,7 @@ export class ResourceAllocator extends BaseAgent implements AgentOSInterface {
           type: 'resource-allocation-response',
           data: { success: false, error: error.message },
           priority: message.priority,
-          timestamp: new Date(),
+          timestamp: clock.date(),
           requiresResponse: false,
           correlationId: message.id
         });
@@ -683,7 +1122,7 @@ export class ResourceAllocator extends BaseAgent implements AgentOSInterface {
     }
   }
 
-  private async handleResourceReleaseRequest(message: AgentMessage): Promise<void> {
+  private async handleResourceReleaseRequest(message: AgentMessageOf<'resource-release-request'>): Promise<void> {
     const { allocationId } = message.data;
     try {
       await this.releaseResources(allocationId);
@@ -696,7 +1135,7 @@ export class ResourceAllocator extends BaseAgent implements AgentOSInterface {
           type: 'resource-release-response',
           data: { success: true },
           priority: message.priority,
-          timestamp: new Date(),
+          timestamp: clock.date(),
           requiresResponse: false,
           correlationId: message.id
         });
@@ -710,7 +1149,7 @@ export class ResourceAllocator extends BaseAgent implements AgentOSInterface {
           type: 'resource-release-response',
           data: { success: false, error: error.message },
           priority: message.priority,
-          timestamp: new Date(),
+          timestamp: clock.date(),
           requiresResponse: false,
           correlationId: message.id
         });
@@ -718,8 +1157,19 @@ export class ResourceAllocator extends BaseAgent implements AgentOSInterface {
     }
   }
 
-  private async handleResourceUsageRequest(message: AgentMessage): Promise<void> {
-    const { agentId } = message.data;
+  private async handleResourceUsageReport(message: AgentMessageOf<'resource-usage-report'>): Promise<void> {
+    const { usage, allocationId, workflowId, sessionId, studentId } = message.data;
+
+    if (allocationId && this.allocations.has(allocationId)) {
+      await this.updateResourceUsage(allocationId, usage);
+    } else {
+      await this.recordUsage(message.fromAgentId, usage, { workflowId, sessionId, studentId });
+    }
+  }
+
+  private async handleResourceUsageRequest(message: AgentMessageOf<'resource-usage-request'>): Promise<void> {
+    // Without an agentId the sender asks about its own usage
+    const agentId = message.data.agentId || message.fromAgentId;
     const usage = await this.monitorUsage(agentId);
     
     await this.sendMessage(message.fromAgentId, {
@@ -729,7 +1179,7 @@ export class ResourceAllocator extends BaseAgent implements AgentOSInterface {
       type: 'resource-usage-response',
       data: { usage },
       priority: message.priority,
-      timestamp: new Date(),
+      timestamp: clock.date(),
       requiresResponse: false,
       correlationId: message.id
     });
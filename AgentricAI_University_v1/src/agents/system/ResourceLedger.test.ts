@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createTestEcosystem, TestEcosystem } from '../../test/testEcosystem';
+import { ResourceAllocator } from './ResourceAllocator';
+import { LocalStorageResourceLedgerAdapter, MemoryResourceLedgerAdapter, ResourceLedger } from './ResourceLedger';
+
+describe('ResourceLedger', () => {
+  let ecosystem: TestEcosystem;
+  let allocator: ResourceAllocator;
+  let adapter: MemoryResourceLedgerAdapter;
+
+  beforeEach(async () => {
+    adapter = new MemoryResourceLedgerAdapter();
+    ecosystem = await createTestEcosystem({
+      agents: [{
+        create: () => new ResourceAllocator({ measureStorage: async () => 0, ledger: new ResourceLedger(adapter) }),
+        aliases: ['resource-allocator']
+      }],
+      fakes: ['content-generator-001', 'teacher']
+    });
+    allocator = ecosystem.get<ResourceAllocator>('resource-allocator');
+  });
+
+  afterEach(async () => {
+    await ecosystem.stop();
+  });
+
+  it('records allocations, releases and usage reports with their attribution', async () => {
+    const allocation = await allocator.requestSystemResources(
+      { memory: '2MB', workflowId: 'wf-1', sessionId: 'session-1', studentId: 'student-1' },
+      'teacher'
+    );
+    await allocator.updateResourceUsage(allocation.allocationId, { memory: { used: '1MB' } });
+    await allocator.releaseResources(allocation.allocationId);
+
+    await ecosystem.fake('content-generator-001').sendMessage('resource-allocator', {
+      id: '',
+      fromAgentId: 'content-generator-001',
+      toAgentId: 'resource-allocator',
+      type: 'resource-usage-report',
+      data: { usage: { llm: { model: 'gpt-4o-mini', promptTokens: 1500, completionTokens: 500 } }, studentId: 'student-1' },
+      priority: 'low',
+      timestamp: ecosystem.clock.date(),
+      requiresResponse: false
+    });
+
+    const entries = allocator.getLedger().getEntries();
+    expect(entries.map(entry => [entry.kind, entry.agentId])).toEqual([
+      ['allocate', 'teacher'],
+      ['usage', 'teacher'],
+      ['deallocate', 'teacher'],
+      ['usage', 'content-generator-001']
+    ]);
+    expect(entries.slice(0, 3).every(entry => entry.workflowId === 'wf-1' && entry.sessionId === 'session-1')).toBe(true);
+    expect(entries[3]).toMatchObject({ llmModel: 'gpt-4o-mini', amounts: { llmTokens: 2000 }, cost: 2 });
+
+    // Persisted as they happen, so a reload picks them up
+    const reloaded = new ResourceLedger(adapter);
+    expect(await reloaded.restore()).toBe(4);
+  });
+
+  it('drops persisted entries beyond maxEntries', async () => {
+    localStorage.clear();
+    const ledger = new ResourceLedger(new LocalStorageResourceLedgerAdapter('ledger-test'), { maxEntries: 3 });
+    for (let i = 0; i < 5; i++) {
+      await ledger.record('usage', 'teacher', { llmTokens: 10 });
+    }
+
+    expect(localStorage.getItem('ledger-test:1')).toBeNull();
+    expect(localStorage.getItem('ledger-test:2')).toBeNull();
+    expect(localStorage.getItem('ledger-test:3')).not.toBeNull();
+
+    const reloaded = new ResourceLedger(new LocalStorageResourceLedgerAdapter('ledger-test'), { maxEntries: 3 });
+    expect(await reloaded.restore()).toBe(3);
+    expect(reloaded.getEntries().map(entry => entry.sequence)).toEqual([3, 4, 5]);
+  });
+
+  it('ranks agents by cost, with model tokens dominating', async () => {
+    await allocator.requestSystemResources({ memory: '64MB', compute: 'high' }, 'teacher');
+    await allocator.recordUsage('content-generator-001', { llm: { promptTokens: 800, completionTokens: 200 } }, { studentId: 'student-1' });
+
+    const byAgent = allocator.getUsageReport('agent');
+    expect(byAgent.map(summary => summary.key)).toEqual(['content-generator-001', 'teacher']);
+    expect(byAgent[0].share).toBeGreaterThan(0.9);
+
+    expect(allocator.getUsageReport('student').map(summary => summary.key)).toEqual(['student-1', '(unattributed)']);
+  });
+
+  it('exports entries and summaries as CSV', async () => {
+    await allocator.recordUsage('teacher', { llm: { model: 'local, "tuned"', promptTokens: 10, completionTokens: 0 } }, { workflowId: '=HYPERLINK()' });
+
+    const [header, row] = allocator.exportLedgerCSV().trim().split('\n');
+    expect(header).toBe('sequence,recordedAt,kind,agentId,allocationId,workflowId,sessionId,studentId,memoryBytes,cpuPercent,storageBytes,networkMbps,llmTokens,llmModel,cost');
+    expect(row).toBe(`1,${ecosystem.clock.date().toISOString()},usage,teacher,,'=HYPERLINK(),,,,,,,10,"local, ""tuned""",0.01`);
+
+    expect(allocator.exportLedgerCSV({}, 'agent')).toBe(
+      'agent,allocations,releases,usageReports,memoryBytes,cpuPercent,storageBytes,llmTokens,cost,share\n' +
+      'teacher,0,0,1,0,0,0,10,0.01,1\n'
+    );
+  });
+});
@@ -0,0 +1,325 @@
+// Resource Ledger - Append-only accounting of every allocation, release and usage report
+// Entries are attributed to the agent and, where known, the workflow, student session and student
+// they were spent on, and priced in cost units so reports show who dominates spend. One cost unit
+// is roughly a thousand language-model tokens; reserved memory, CPU and storage are cheap by comparison.
+
+import { clock } from '../base/AgentEnvironment';
+
+export type LedgerEntryKind = 'allocate' | 'deallocate' | 'usage';
+
+export type LedgerGroupBy = 'agent' | 'workflow' | 'session' | 'student';
+
+export interface LedgerAmounts {
+  memoryBytes?: number;
+  cpuPercent?: number;
+  storageBytes?: number;
+  networkMbps?: number;
+  llmTokens?: number;
+}
+
+export interface LedgerAttribution {
+  allocationId?: string;
+  workflowId?: string;
+  sessionId?: string;
+  studentId?: string;
+  llmModel?: string;
+}
+
+export interface LedgerEntry extends LedgerAttribution {
+  sequence: number;
+  kind: LedgerEntryKind;
+  agentId: string;
+  amounts: LedgerAmounts;
+  cost: number;
+  recordedAt: Date;
+}
+
+export interface LedgerFilter {
+  kind?: LedgerEntryKind;
+  agentId?: string;
+  workflowId?: string;
+  sessionId?: string;
+  studentId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+// Reserved amounts come from allocations; tokens from usage reports
+export interface LedgerSummary {
+  key: string;
+  allocations: number;
+  releases: number;
+  usageReports: number;
+  memoryBytes: number;
+  cpuPercent: number;
+  storageBytes: number;
+  llmTokens: number;
+  cost: number;
+  // Fraction of the total cost in the report
+  share: number;
+}
+
+// Cost units per MB, per CPU percent, per Mbps and per token
+export interface LedgerCostRates {
+  memoryMB: number;
+  cpuPercent: number;
+  storageMB: number;
+  networkMbps: number;
+  llmToken: number;
+}
+
+export const DEFAULT_COST_RATES: LedgerCostRates = {
+  memoryMB: 0.001,
+  cpuPercent: 0.001,
+  storageMB: 0.0005,
+  networkMbps: 0.0001,
+  llmToken: 0.001
+};
+
+export const UNATTRIBUTED = '(unattributed)';
+
+export interface ResourceLedgerAdapter {
+  readonly name: string;
+  append(entry: LedgerEntry): Promise<void>;
+  load(): Promise<LedgerEntry[]>;
+  // Drops every entry before the given sequence
+  compact(keepFrom: number): Promise<void>;
+}
+
+export class MemoryResourceLedgerAdapter implements ResourceLedgerAdapter {
+  readonly name = 'memory';
+  private entries: { sequence: number; stored: string }[] = [];
+
+  async append(entry: LedgerEntry): Promise<void> {
+    this.entries.push({ sequence: entry.sequence, stored: JSON.stringify(entry) });
+  }
+
+  async load(): Promise<LedgerEntry[]> {
+    return this.entries.map(({ stored }) => deserializeEntry(stored));
+  }
+
+  async compact(keepFrom: number): Promise<void> {
+    this.entries = this.entries.filter(entry => entry.sequence >= keepFrom);
+  }
+}
+
+// One key per entry so appending never rewrites earlier entries; `tail` is the oldest one kept
+export class LocalStorageResourceLedgerAdapter implements ResourceLedgerAdapter {
+  readonly name = 'localStorage';
+
+  constructor(private prefix: string = 'agentricai_resource_ledger') {}
+
+  async append(entry: LedgerEntry): Promise<void> {
+    localStorage.setItem(`${this.prefix}:${entry.sequence}`, JSON.stringify(entry));
+    localStorage.setItem(`${this.prefix}:head`, String(entry.sequence));
+  }
+
+  async load(): Promise<LedgerEntry[]> {
+    const head = Number(localStorage.getItem(`${this.prefix}:head`) || 0);
+    const entries: LedgerEntry[] = [];
+
+    for (let sequence = this.tail(); sequence <= head; sequence++) {
+      const stored = localStorage.getItem(`${this.prefix}:${sequence}`);
+      if (stored) entries.push(deserializeEntry(stored));
+    }
+    return entries;
+  }
+
+  async compact(keepFrom: number): Promise<void> {
+    const tail = this.tail();
+    if (keepFrom <= tail) return;
+
+    for (let sequence = tail; sequence < keepFrom; sequence++) {
+      localStorage.removeItem(`${this.prefix}:${sequence}`);
+    }
+    localStorage.setItem(`${this.prefix}:tail`, String(keepFrom));
+  }
+
+  private tail(): number {
+    return Number(localStorage.getItem(`${this.prefix}:tail`) || 1);
+  }
+}
+
+export interface ResourceLedgerOptions {
+  rates?: Partial<LedgerCostRates>;
+  // Entries kept for reports, in memory and in the adapter; older ones are dropped from both
+  maxEntries?: number;
+}
+
+const CSV_COLUMNS = [
+  'sequence', 'recordedAt', 'kind', 'agentId', 'allocationId', 'workflowId', 'sessionId', 'studentId',
+  'memoryBytes', 'cpuPercent', 'storageBytes', 'networkMbps', 'llmTokens', 'llmModel', 'cost'
+];
+
+const SUMMARY_CSV_COLUMNS = [
+  'key', 'allocations', 'releases', 'usageReports', 'memoryBytes', 'cpuPercent', 'storageBytes', 'llmTokens', 'cost', 'share'
+];
+
+const GROUP_FIELDS: Record<LedgerGroupBy, keyof LedgerEntry> = {
+  agent: 'agentId',
+  workflow: 'workflowId',
+  session: 'sessionId',
+  student: 'studentId'
+};
+
+export class ResourceLedger {
+  private adapter: ResourceLedgerAdapter;
+  private rates: LedgerCostRates;
+  private maxEntries: number;
+  private entries: LedgerEntry[] = [];
+  private sequence: number = 0;
+
+  constructor(adapter: ResourceLedgerAdapter = new MemoryResourceLedgerAdapter(), options: ResourceLedgerOptions = {}) {
+    this.adapter = adapter;
+    this.rates = { ...DEFAULT_COST_RATES, ...options.rates };
+    this.maxEntries = options.maxEntries ?? 10000;
+  }
+
+  // Reload entries persisted by an earlier session; returns how many were loaded
+  async restore(): Promise<number> {
+    const stored = await this.adapter.load();
+    this.entries = stored.slice(-this.maxEntries);
+    this.sequence = stored.length > 0 ? stored[stored.length - 1].sequence : 0;
+    if (stored.length > this.maxEntries) {
+      await this.compact();
+    }
+    return stored.length;
+  }
+
+  async record(kind: LedgerEntryKind, agentId: string, amounts: LedgerAmounts, attribution: LedgerAttribution = {}): Promise<LedgerEntry> {
+    const entry: LedgerEntry = {
+      sequence: ++this.sequence,
+      kind,
+      agentId,
+      ...withoutEmpty(attribution),
+      amounts: withoutEmpty(amounts),
+      // Releasing hands resources back, so only reservations and reported usage cost anything
+      cost: kind === 'deallocate' ? 0 : this.costOf(amounts),
+      recordedAt: clock.date()
+    };
+
+    this.entries.push(entry);
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+
+    // Accounting must never break the allocation it records
+    try {
+      await this.adapter.append(entry);
+      if (entry.sequence > this.maxEntries) {
+        await this.compact();
+      }
+    } catch (error) {
+      console.warn(`📒 Could not persist ledger entry ${entry.sequence}:`, error);
+    }
+    return entry;
+  }
+
+  private async compact(): Promise<void> {
+    await this.adapter.compact(this.sequence - this.maxEntries + 1);
+  }
+
+  costOf(amounts: LedgerAmounts): number {
+    const megabytes = (bytes?: number) => (bytes || 0) / 1024 ** 2;
+    return roundCost(
+      megabytes(amounts.memoryBytes) * this.rates.memoryMB +
+      (amounts.cpuPercent || 0) * this.rates.cpuPercent +
+      megabytes(amounts.storageBytes) * this.rates.storageMB +
+      (amounts.networkMbps || 0) * this.rates.networkMbps +
+      (amounts.llmTokens || 0) * this.rates.llmToken
+    );
+  }
+
+  getEntries(filter: LedgerFilter = {}): LedgerEntry[] {
+    return this.entries.filter(entry =>
+      (!filter.kind || entry.kind === filter.kind) &&
+      (!filter.agentId || entry.agentId === filter.agentId) &&
+      (!filter.workflowId || entry.workflowId === filter.workflowId) &&
+      (!filter.sessionId || entry.sessionId === filter.sessionId) &&
+      (!filter.studentId || entry.studentId === filter.studentId) &&
+      (!filter.from || entry.recordedAt >= filter.from) &&
+      (!filter.to || entry.recordedAt <= filter.to)
+    );
+  }
+
+  // Most expensive first
+  summarize(groupBy: LedgerGroupBy, filter: LedgerFilter = {}): LedgerSummary[] {
+    const field = GROUP_FIELDS[groupBy];
+    if (!field) {
+      throw new Error(`Unknown ledger grouping: ${groupBy}`);
+    }
+
+    const groups = new Map<string, LedgerSummary>();
+    for (const entry of this.getEntries(filter)) {
+      const key = (entry[field] as string | undefined) || UNATTRIBUTED;
+      const summary = groups.get(key) || {
+        key, allocations: 0, releases: 0, usageReports: 0,
+        memoryBytes: 0, cpuPercent: 0, storageBytes: 0, llmTokens: 0, cost: 0, share: 0
+      };
+
+      if (entry.kind === 'allocate') {
+        summary.allocations += 1;
+        summary.memoryBytes += entry.amounts.memoryBytes || 0;
+        summary.cpuPercent += entry.amounts.cpuPercent || 0;
+        summary.storageBytes += entry.amounts.storageBytes || 0;
+      } else if (entry.kind === 'deallocate') {
+        summary.releases += 1;
+      } else {
+        summary.usageReports += 1;
+      }
+      summary.llmTokens += entry.amounts.llmTokens || 0;
+      summary.cost = roundCost(summary.cost + entry.cost);
+      groups.set(key, summary);
+    }
+
+    const summaries = Array.from(groups.values());
+    const total = summaries.reduce((sum, summary) => sum + summary.cost, 0);
+    for (const summary of summaries) {
+      summary.share = total > 0 ? Math.round((summary.cost / total) * 1000) / 1000 : 0;
+    }
+    return summaries.sort((a, b) => b.cost - a.cost || a.key.localeCompare(b.key));
+  }
+
+  toCSV(filter: LedgerFilter = {}): string {
+    const rows = this.getEntries(filter).map(entry => [
+      entry.sequence, entry.recordedAt.toISOString(), entry.kind, entry.agentId,
+      entry.allocationId, entry.workflowId, entry.sessionId, entry.studentId,
+      entry.amounts.memoryBytes, entry.amounts.cpuPercent, entry.amounts.storageBytes,
+      entry.amounts.networkMbps, entry.amounts.llmTokens, entry.llmModel, entry.cost
+    ]);
+    return toCSV(CSV_COLUMNS, rows);
+  }
+
+  summaryToCSV(groupBy: LedgerGroupBy, filter: LedgerFilter = {}): string {
+    const rows = this.summarize(groupBy, filter).map(summary => SUMMARY_CSV_COLUMNS.map(column => (summary as any)[column]));
+    return toCSV([groupBy, ...SUMMARY_CSV_COLUMNS.slice(1)], rows);
+  }
+}
+
+function toCSV(header: string[], rows: any[][]): string {
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+function csvField(value: any): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'number') return String(value);
+
+  let text = String(value);
+  // Spreadsheets run cells starting with these as formulas
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function roundCost(cost: number): number {
+  return Math.round(cost * 1e6) / 1e6;
+}
+
+function withoutEmpty<T extends object>(values: T): T {
+  return Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined && value !== null && value !== 0 && value !== '')
+  ) as T;
+}
+
+function deserializeEntry(stored: string): LedgerEntry {
+  return JSON.parse(stored, (key, value) => key === 'recordedAt' && typeof value === 'string' ? new Date(value) : value);
+}
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AgentMessage } from '../base/AgentTypes';
+import { ContentGenerator } from '../content/ContentGenerator';
+import { FakeAgent } from '../../test/FakeAgent';
+import { createTestEcosystem, TestEcosystem } from '../../test/testEcosystem';
+import { RestartStrategy, Supervisor } from './Supervisor';
+
+// A peer that crashes on any message asking it to
+class CrashingAgent extends FakeAgent {
+  protected async processMessage(message: AgentMessage): Promise<void> {
+    await super.processMessage(message);
+    if (message.data.crash) throw new Error('crashed on purpose');
+  }
+}
+
+describe('Supervisor', () => {
+  let ecosystem: TestEcosystem;
+
+  const send = (to: string, type: AgentMessage['type'], data: any) =>
+    ecosystem.fake('driver').sendMessage(to, {
+      id: '',
+      fromAgentId: 'driver',
+      toAgentId: to,
+      type,
+      data,
+      priority: 'medium',
+      timestamp: ecosystem.clock.date(),
+      requiresResponse: false
+    });
+
+  const crash = (to: string) => send(to, 'validation-request', { content: {}, crash: true });
+
+  beforeEach(async () => {
+    ecosystem = await createTestEcosystem({ fakes: ['driver'] });
+  });
+
+  afterEach(async () => {
+    await ecosystem.stop();
+  });
+
+  it('restarts a crashed ContentGenerator mid-lesson with its lessons restored', async () => {
+    const supervisor = new Supervisor('lessons', { runtime: ecosystem.runtime });
+    const original = await supervisor.addChild({ create: () => new ContentGenerator(), aliases: ['content-generator'] }) as ContentGenerator;
+    await supervisor.start();
+
+    const lesson = await original.generateContent({ type: 'shape-matching', userId: 'learner-1', difficulty: 'easy' });
+
+    // Malformed adaptation parameters make processMessage throw
+    await send('content-generator', 'adaptation-request', { content: lesson, adaptationType: 'difficulty', parameters: null });
+
+    const restarted = ecosystem.get<ContentGenerator>('content-generator');
+    expect(restarted).not.toBe(original);
+    expect(restarted.getStatus()).toBe('active');
+    expect(restarted.getGeneratedContent(lesson.id)).toEqual(lesson);
+    expect(supervisor.getChildren()[0]).toMatchObject({ restarts: 1, lastError: expect.stringContaining('targetLevel') });
+  });
+
+  it.each<[RestartStrategy, string[]]>([
+    ['one-for-one', ['b']],
+    ['one-for-all', ['a', 'b', 'c']],
+    ['rest-for-one', ['b', 'c']]
+  ])('%s restarts %j when b crashes', async (strategy, expected) => {
+    const supervisor = new Supervisor(strategy, { runtime: ecosystem.runtime, strategy });
+    const originals = [];
+    for (const id of ['a', 'b', 'c']) {
+      originals.push(await supervisor.addChild({ create: () => new CrashingAgent(id), aliases: [] }));
+    }
+    await supervisor.start();
+
+    await crash('b');
+
+    const restarted = originals.filter(agent => ecosystem.get(agent.id) !== agent).map(agent => agent.id);
+    expect(restarted).toEqual(expected);
+    await supervisor.stop();
+  });
+
+  it('escalates to its parent once restart intensity is exceeded', async () => {
+    const root = new Supervisor('root', { runtime: ecosystem.runtime });
+    const inner = new Supervisor('inner', { runtime: ecosystem.runtime, maxRestarts: 1, withinMs: 60000 });
+    await inner.addChild({ create: () => new CrashingAgent('worker'), aliases: [] });
+    await root.addSupervisor(inner);
+    await root.start();
+
+    await crash('worker');
+    expect(root.getChildren()[0].restarts).toBe(0);
+
+    await crash('worker');
+    expect(root.getChildren()[0]).toMatchObject({ id: 'inner', restarts: 1, status: 'running' });
+    expect(ecosystem.get('worker').getStatus()).toBe('active');
+    await root.stop();
+  });
+});
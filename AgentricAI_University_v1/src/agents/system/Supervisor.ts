@@ -0,0 +1,294 @@
+// Supervisor - Erlang-style crash recovery for agents
+// A supervisor starts its children in order and restarts them when they crash:
+//   one-for-one   restart only the crashed child
+//   one-for-all   restart every child (children that rely on each other's state)
+//   rest-for-one  restart the crashed child and every child started after it
+// More than maxRestarts restarts within withinMs means restarting is not helping, so the
+// supervisor stops its children and escalates to its parent, which handles the whole subtree
+// as one crashed child. A restarted agent is a fresh instance that restores its last saved state.
+
+import { BaseAgent } from '../base/BaseAgent';
+import { AgentRuntime, agentRuntime } from '../base/AgentRuntime';
+import { AgentStateAdapter, MemoryAgentStateAdapter } from '../base/AgentStateStore';
+import { clock } from '../base/AgentEnvironment';
+import type { AgentDefinition } from './AgentRegistry';
+
+export type RestartStrategy = 'one-for-one' | 'one-for-all' | 'rest-for-one';
+
+export type SupervisorStatus = 'stopped' | 'running' | 'restarting' | 'failed';
+
+export interface SupervisorOptions {
+  strategy?: RestartStrategy;
+  // Restart intensity: at most maxRestarts restarts within withinMs
+  maxRestarts?: number;
+  withinMs?: number;
+  stateStore?: AgentStateAdapter;
+  runtime?: AgentRuntime;
+}
+
+export interface SupervisorChildStatus {
+  id: string;
+  kind: 'agent' | 'supervisor';
+  status: string;
+  restarts: number;
+  lastRestartAt?: Date;
+  lastError?: string;
+  children?: SupervisorChildStatus[];
+}
+
+interface SupervisedChild {
+  id: string;
+  restarts: number;
+  lastRestartAt?: Date;
+  lastError?: string;
+  definition?: AgentDefinition;
+  agent?: BaseAgent;
+  supervisor?: Supervisor;
+  // Stopped agents are replaced by a fresh instance on their next start
+  stopped: boolean;
+}
+
+export const RESTART_STRATEGIES: RestartStrategy[] = ['one-for-one', 'one-for-all', 'rest-for-one'];
+
+export class Supervisor {
+  readonly id: string;
+  private strategy: RestartStrategy;
+  private maxRestarts: number;
+  private withinMs: number;
+  private stateStore: AgentStateAdapter;
+  private runtime: AgentRuntime;
+  private children: SupervisedChild[] = [];
+  private restartTimes: number[] = [];
+  private parent?: Supervisor;
+  private status: SupervisorStatus = 'stopped';
+
+  constructor(id: string, options: SupervisorOptions = {}) {
+    this.id = id;
+    this.strategy = options.strategy ?? 'one-for-one';
+    this.maxRestarts = options.maxRestarts ?? 3;
+    this.withinMs = options.withinMs ?? 5000;
+    this.stateStore = options.stateStore ?? new MemoryAgentStateAdapter();
+    this.runtime = options.runtime ?? agentRuntime;
+
+    if (!RESTART_STRATEGIES.includes(this.strategy)) {
+      throw new Error(`Unknown restart strategy: ${this.strategy}`);
+    }
+    if (!Number.isInteger(this.maxRestarts) || this.maxRestarts < 0) {
+      throw new Error(`maxRestarts must be a non-negative integer, got ${this.maxRestarts}`);
+    }
+  }
+
+  // Children start in the order they are added; added to a running supervisor they start at once
+  async addChild(definition: AgentDefinition): Promise<BaseAgent> {
+    const agent = definition.create();
+    this.assertNewChild(agent.id);
+
+    const child: SupervisedChild = { id: agent.id, definition, agent, restarts: 0, stopped: false };
+    this.children.push(child);
+    if (this.status === 'running') {
+      await this.startChild(child);
+    }
+    return agent;
+  }
+
+  async addSupervisor(supervisor: Supervisor): Promise<Supervisor> {
+    this.assertNewChild(supervisor.id);
+
+    supervisor.parent = this;
+    const child: SupervisedChild = { id: supervisor.id, supervisor, restarts: 0, stopped: false };
+    this.children.push(child);
+    if (this.status === 'running') {
+      await this.startChild(child);
+    }
+    return supervisor;
+  }
+
+  async start(): Promise<void> {
+    if (this.status === 'running' || this.status === 'restarting') return;
+
+    console.log(`🛡️ Starting supervisor ${this.id} (${this.strategy}) with ${this.children.length} children`);
+    this.status = 'running';
+    this.restartTimes = [];
+
+    for (const child of this.children) {
+      await this.startChild(child);
+    }
+  }
+
+  async stop(): Promise<void> {
+    // A failed supervisor already stopped its children when it escalated
+    if (this.status !== 'failed') {
+      await this.stopChildren();
+    }
+    this.status = 'stopped';
+  }
+
+  // Called by a child agent's crash handler, a child supervisor's escalation or the Process Manager
+  async handleChildCrash(childId: string, error: Error): Promise<void> {
+    // Crashes while a restart is already under way are covered by that restart
+    if (this.status !== 'running') return;
+
+    const index = this.children.findIndex(child => child.id === childId);
+    if (index === -1) return;
+
+    const crashed = this.children[index];
+    crashed.lastError = error.message;
+    console.warn(`💥 ${childId} crashed under supervisor ${this.id}: ${error.message}`);
+
+    if (this.exceedsRestartIntensity()) {
+      await this.escalate(crashed, error);
+      return;
+    }
+
+    const affected = this.strategy === 'one-for-one'
+      ? [crashed]
+      : this.strategy === 'one-for-all'
+        ? [...this.children]
+        : this.children.slice(index);
+
+    this.status = 'restarting';
+    try {
+      // Stop in reverse start order; healthy siblings shut down cleanly and save their state
+      for (const child of [...affected].reverse()) {
+        await this.stopChild(child, child !== crashed);
+      }
+      for (const child of affected) {
+        child.restarts += 1;
+        child.lastRestartAt = clock.date();
+        await this.startChild(child);
+      }
+    } finally {
+      this.status = 'running';
+    }
+
+    console.log(`🔁 Supervisor ${this.id} restarted ${affected.map(child => child.id).join(', ')}`);
+    this.emitSystemEvent('child_restarted', {
+      childId,
+      strategy: this.strategy,
+      restarted: affected.map(child => child.id),
+      error: error.message
+    }, 'high');
+  }
+
+  // The supervisor, in this subtree, that directly supervises agentId
+  findSupervisorOf(agentId: string): Supervisor | undefined {
+    for (const child of this.children) {
+      if (child.agent && child.id === agentId) return this;
+      const nested = child.supervisor?.findSupervisorOf(agentId);
+      if (nested) return nested;
+    }
+    return undefined;
+  }
+
+  // The current instance; it changes every time the child is restarted
+  getChild(agentId: string): BaseAgent | undefined {
+    return this.children.find(child => child.id === agentId)?.agent;
+  }
+
+  getStatus(): SupervisorStatus {
+    return this.status;
+  }
+
+  getChildren(): SupervisorChildStatus[] {
+    return this.children.map(child => ({
+      id: child.id,
+      kind: child.supervisor ? 'supervisor' : 'agent',
+      status: child.supervisor ? child.supervisor.getStatus() : child.stopped ? 'stopped' : child.agent!.getStatus(),
+      restarts: child.restarts,
+      lastRestartAt: child.lastRestartAt,
+      lastError: child.lastError,
+      children: child.supervisor?.getChildren()
+    }));
+  }
+
+  private assertNewChild(childId: string): void {
+    if (this.children.some(child => child.id === childId)) {
+      throw new Error(`Supervisor ${this.id} already supervises ${childId}`);
+    }
+  }
+
+  private async startChild(child: SupervisedChild): Promise<void> {
+    if (child.supervisor) {
+      await child.supervisor.start();
+      return;
+    }
+
+    if (child.stopped) {
+      child.agent = child.definition!.create();
+      child.stopped = false;
+    }
+
+    const agent = child.agent!;
+    this.runtime.register(agent, child.definition!.aliases);
+    agent.attachStateStore(this.stateStore);
+    agent.setCrashHandler((crashedAgent, error) => this.handleChildCrash(crashedAgent.id, error));
+    await agent.restoreState();
+    await agent.initialize();
+    await agent.start();
+  }
+
+  private async stopChild(child: SupervisedChild, graceful: boolean): Promise<void> {
+    if (child.supervisor) {
+      await child.supervisor.stop();
+      return;
+    }
+    if (child.stopped) return;
+
+    const agent = child.agent!;
+    agent.setCrashHandler(undefined);
+    // Shutting down saves state; a crashed agent is only stopped so its last good snapshot stays
+    if (graceful) {
+      await agent.shutdown();
+    } else {
+      await agent.stop();
+    }
+    this.runtime.unregister(agent.id);
+    child.stopped = true;
+  }
+
+  private async stopChildren(crashedId?: string): Promise<void> {
+    for (const child of [...this.children].reverse()) {
+      await this.stopChild(child, child.id !== crashedId);
+    }
+  }
+
+  private exceedsRestartIntensity(): boolean {
+    const now = clock.now();
+    this.restartTimes = this.restartTimes.filter(time => now - time < this.withinMs);
+    this.restartTimes.push(now);
+    return this.restartTimes.length > this.maxRestarts;
+  }
+
+  private async escalate(crashed: SupervisedChild, error: Error): Promise<void> {
+    console.error(`🚨 Supervisor ${this.id} exceeded ${this.maxRestarts} restarts in ${this.withinMs}ms, escalating`);
+
+    this.status = 'restarting';
+    await this.stopChildren(crashed.id);
+    this.status = 'failed';
+
+    this.emitSystemEvent('supervisor_escalated', {
+      childId: crashed.id,
+      maxRestarts: this.maxRestarts,
+      withinMs: this.withinMs,
+      parentId: this.parent?.id,
+      error: error.message
+    }, 'critical');
+
+    if (this.parent) {
+      await this.parent.handleChildCrash(this.id, error);
+    }
+  }
+
+  private emitSystemEvent(event: string, data: any, priority: 'high' | 'critical'): void {
+    window.dispatchEvent(new CustomEvent('systemEvent', {
+      detail: {
+        id: `event-${clock.now()}`,
+        type: priority === 'critical' ? 'error-event' : 'system-event',
+        source: `supervisor:${this.id}`,
+        data: { event, supervisorId: this.id, ...data },
+        priority,
+        timestamp: clock.date()
+      }
+    }));
+  }
+}
@@ -18,6 +18,8 @@ import { useAgentricAICoreOS } from '../hooks/useStealthEcosystem';
 import StealthPanel from './ui/StealthPanel';
 import AgentricAIPanel from './ui/AgentricAIPanel';
 import NeonButton from './ui/NeonButton';
+import WorkflowExplorer from './WorkflowExplorer';
+import ResourceCostReport from './ResourceCostReport';
 
 const AgentMonitoringDashboard: React.FC = () => {
   const {
@@ -28,7 +30,10 @@ const AgentMonitoringDashboard: React.FC = () => {
     error,
     getAgentMetrics,
     sendAgentMessage,
-    triggerWorkflow
+    triggerWorkflow,
+    getWorkflowRuns,
+    getResourceUsageReport,
+    exportResourceLedgerCSV
   } = useAgentricAICoreOS();
 
   const [selectedAgent, setSelectedAgent] = useState<string | null>(null);
@@ -308,21 +313,20 @@ const AgentMonitoringDashboard: React.FC = () => {
             ) : (
               <div className="space-y-4">
                 {/* Agent List View */}
-                {[
-                  { name: 'Core OS Process Manager', status: 'active', color: 'neon-cyan', tasks: 8 },
-                  { name: 'Core OS Resource Allocator', status: 'active', color: 'neon-blue', tasks: 5 },
-                  { name: 'Core OS Message Bus', status: 'processing', color: 'neon-lime', tasks: 127 },
-                  { name: 'Learning Coordinator', status: 'active', color: 'neon-orange', tasks: 3 },
-                  { name: 'Behavior Analyst', status: 'processing', color: 'neon-cyan', tasks: 1 },
-                  { name: 'Content Generator', status: 'idle', color: 'neon-blue', tasks: 0 }
-                ].map((agent, index) => (
+                {(coreOSStatus?.agents || []).map((osAgent: any) => ({
+                  id: osAgent.id,
+                  name: osAgent.name,
+                  status: osAgent.status,
+                  color: osAgent.health.status === 'healthy' ? osAgent.panel_color : 'neon-orange',
+                  tasks: osAgent.metrics.tasksCompleted
+                })).map((agent: any, index: number) => (
                   <motion.div
-                    key={agent.name}
+                    key={agent.id}
                     initial={{ opacity: 0, x: -20 }}
                     animate={{ opacity: 1, x: 0 }}
                     transition={{ delay: index * 0.1 }}
                     className="flex items-center justify-between p-4 bg-stealth-panel-light rounded-lg cursor-pointer hover:bg-stealth-border transition-colors"
-                    onClick={() => setSelectedAgent(agent.name)}
+                    onClick={() => setSelectedAgent(agent.id)}
                   >
                     <div className="flex items-center space-x-3">
                       <div className={`w-3 h-3 rounded-full bg-${agent.color} ${agent.status === 'active' ? 'animate-pulse' : ''}`} />
@@ -353,20 +357,37 @@ const AgentMonitoringDashboard: React.FC = () => {
             <div className="space-y-3">
               <div className="flex items-center justify-between">
                 <span className="text-stealth-light text-sm">Core OS Health</span>
-                <span className="text-neon-lime font-medium">OPTIMAL</span>
+                <span className="text-neon-lime font-medium">{(coreOSStatus?.core_os_health || 'unknown').toUpperCase()}</span>
               </div>
               <div className="flex items-center justify-between">
                 <span className="text-stealth-light text-sm">Response Time</span>
-                <span className="text-neon-cyan font-medium">120ms</span>
+                <span className="text-neon-cyan font-medium">{coreOSStatus?.communication_activity?.avg_response_time || '0ms'}</span>
               </div>
               <div className="flex items-center justify-between">
-                <span className="text-stealth-light text-sm">Memory Usage</span>
-                <span className="text-neon-blue font-medium">5.1/16 GB</span>
+                <span className="text-stealth-light text-sm">Processing</span>
+                <span className="text-neon-blue font-medium">{coreOSStatus?.agent_status?.processing || 0} agents</span>
               </div>
               <div className="flex items-center justify-between">
-                <span className="text-stealth-light text-sm">Uptime</span>
-                <span className="text-neon-orange font-medium">12h 34m</span>
+                <span className="text-stealth-light text-sm">Idle</span>
+                <span className="text-neon-orange font-medium">{coreOSStatus?.agent_status?.idle || 0} agents</span>
               </div>
+              {agentMetrics?.agent_id && (
+                <div className="pt-3 border-t border-stealth-border space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-stealth-light text-sm">{agentMetrics.agent_id}</span>
+                    <span className="text-neon-cyan font-medium">{agentMetrics.status}</span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-stealth-light text-sm">Tasks / Success</span>
+                    <span className="text-neon-lime font-medium">
+                      {agentMetrics.total_tasks} / {Math.round(agentMetrics.success_rate)}%
+                    </span>
+                  </div>
+                  {agentMetrics.health?.[0]?.issues?.map((issue: string) => (
+                    <p key={issue} className="text-neon-orange text-xs">{issue}</p>
+                  ))}
+                </div>
+              )}
             </div>
           </AgentricAIPanel>
 
@@ -430,6 +451,29 @@ const AgentMonitoringDashboard: React.FC = () => {
         </div>
       </div>
 
+      {/* Workflow Runs */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.7 }}
+        className="mt-8"
+      >
+        <WorkflowExplorer getWorkflowRuns={getWorkflowRuns} />
+      </motion.div>
+
+      {/* Resource Cost */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.75 }}
+        className="mt-8"
+      >
+        <ResourceCostReport
+          getResourceUsageReport={getResourceUsageReport}
+          exportResourceLedgerCSV={exportResourceLedgerCSV}
+        />
+      </motion.div>
+
       {/* Performance Metrics */}
       {coreOSStatus?.agentricai_core_os_metrics && (
         <motion.div
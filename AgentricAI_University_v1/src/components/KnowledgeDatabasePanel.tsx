@@ -13,12 +13,53 @@ import {
   Filter,
   Download,
   Upload,
-  RefreshCw
+  RefreshCw,
+  GitMerge,
+  History,
+  Check,
+  X,
+  Link2,
+  Route
 } from 'lucide-react';
 import { agentricaiKnowledgeDB } from '../services/knowledgeDatabase';
+import { MERGE_POLICIES } from '../services/knowledgeVersioning';
+import type { KnowledgeConflict, KnowledgeMergePolicy, KnowledgeVersion } from '../services/knowledgeVersioning';
+import { KNOWLEDGE_EDGE_TYPES, LINKABLE_EDGE_TYPES } from '../services/knowledgeGraph';
+import type { KnowledgeEdgeType, KnowledgeGraphSnapshot, KnowledgePath } from '../services/knowledgeGraph';
 import StealthPanel from './ui/StealthPanel';
 import NeonButton from './ui/NeonButton';
 
+const GRAPH_WIDTH = 800;
+const GRAPH_HEIGHT = 480;
+
+const edgeColors: Record<KnowledgeEdgeType, string> = {
+  prerequisite_of: '#00ff80',
+  contradicts: '#ff8000',
+  derived_from: '#0080ff',
+  references: '#3a3a3a'
+};
+
+// Each category is a ring of nodes, and the categories sit on a larger ring around the centre
+const layoutGraph = (graph: KnowledgeGraphSnapshot) => {
+  const categories = Array.from(new Set(graph.nodes.map(node => node.category))).sort();
+  const positions = new Map<string, { x: number; y: number }>();
+  const outer = categories.length > 1 ? Math.min(GRAPH_WIDTH, GRAPH_HEIGHT) / 2 - 90 : 0;
+
+  categories.forEach((category, c) => {
+    const angle = (2 * Math.PI * c) / categories.length - Math.PI / 2;
+    const cx = GRAPH_WIDTH / 2 + outer * Math.cos(angle);
+    const cy = GRAPH_HEIGHT / 2 + outer * Math.sin(angle);
+    const members = graph.nodes.filter(node => node.category === category);
+    const inner = members.length > 1 ? Math.min(70, 14 * members.length) : 0;
+
+    members.forEach((node, n) => {
+      const memberAngle = (2 * Math.PI * n) / members.length;
+      positions.set(node.id, { x: cx + inner * Math.cos(memberAngle), y: cy + inner * Math.sin(memberAngle) });
+    });
+  });
+  return positions;
+};
+
 const KnowledgeDatabasePanel: React.FC = () => {
   const [knowledgeStats, setKnowledgeStats] = useState<any>(null);
   const [searchQuery, setSearchQuery] = useState('');
@@ -33,6 +74,21 @@ const KnowledgeDatabasePanel: React.FC = () => {
     value: '',
     confidence: 1.0
   });
+  const [conflicts, setConflicts] = useState<KnowledgeConflict[]>([]);
+  const [mergePolicy, setMergePolicy] = useState<KnowledgeMergePolicy>(agentricaiKnowledgeDB.getMergePolicy());
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [graph, setGraph] = useState<KnowledgeGraphSnapshot>({ nodes: [], edges: [] });
+  const [graphCategory, setGraphCategory] = useState('all');
+  const [selectedNode, setSelectedNode] = useState<string | null>(null);
+  const [traversalDepth, setTraversalDepth] = useState(2);
+  const [reachable, setReachable] = useState<Map<string, number>>(new Map());
+  const [pathEnds, setPathEnds] = useState({ from: '', to: '' });
+  const [explainedPath, setExplainedPath] = useState<KnowledgePath | null | undefined>(undefined);
+  const [newLink, setNewLink] = useState<{ from: string; type: KnowledgeEdgeType; to: string }>({
+    from: '',
+    type: 'prerequisite_of',
+    to: ''
+  });
 
   useEffect(() => {
     loadKnowledgeStats();
@@ -45,6 +101,9 @@ const KnowledgeDatabasePanel: React.FC = () => {
       const stats = await agentricaiKnowledgeDB.getKnowledgeStats();
       setKnowledgeStats(stats);
       setRecentAccesses(stats.recent_accesses || []);
+      setConflicts(agentricaiKnowledgeDB.getPendingConflicts());
+      setMergePolicy(agentricaiKnowledgeDB.getMergePolicy());
+      setGraph(await agentricaiKnowledgeDB.getKnowledgeGraph());
     } catch (error) {
       console.error('Failed to load knowledge stats:', error);
     } finally {
@@ -71,7 +130,7 @@ const KnowledgeDatabasePanel: React.FC = () => {
     
     try {
       setLoading(true);
-      const results = await agentricaiKnowledgeDB.queryKnowledge(searchQuery, 'admin-panel');
+      const results = await agentricaiKnowledgeDB.searchKnowledge(searchQuery, 'admin-panel');
       setSearchResults(results);
     } catch (error) {
       console.error('Search failed:', error);
@@ -113,10 +172,97 @@ const KnowledgeDatabasePanel: React.FC = () => {
     }
   };
 
+  const handleMergePolicyChange = (policy: KnowledgeMergePolicy) => {
+    agentricaiKnowledgeDB.setMergePolicy(policy);
+    setMergePolicy(policy);
+  };
+
+  const handleResolveConflict = async (conflictId: string, decision: 'accept' | 'reject') => {
+    try {
+      setLoading(true);
+      await agentricaiKnowledgeDB.resolveConflict(conflictId, decision, 'admin-panel');
+      await loadKnowledgeStats();
+    } catch (error) {
+      console.error('Failed to resolve knowledge conflict:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRollback = async (version: KnowledgeVersion) => {
+    try {
+      setLoading(true);
+      const restored = await agentricaiKnowledgeDB.rollbackKnowledge(version.category, version.key, version.version, 'admin-panel');
+      setSearchResults(results => results.map(result =>
+        result.category === version.category && result.key === version.key
+          ? { ...result, value: restored.value, confidence_score: restored.confidence_score, source_agent: restored.source_agent }
+          : result
+      ));
+      await loadKnowledgeStats();
+    } catch (error) {
+      console.error('Rollback failed:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Nodes within the chosen depth of the selection, keyed by how many hops away they are
+  useEffect(() => {
+    if (!selectedNode) {
+      setReachable(new Map());
+      return;
+    }
+    agentricaiKnowledgeDB.traverseKnowledge(selectedNode, { maxDepth: traversalDepth, direction: 'both' })
+      .then(hits => setReachable(new Map(hits.map(hit => [hit.id, hit.depth]))))
+      .catch(error => console.error('Knowledge traversal failed:', error));
+  }, [selectedNode, traversalDepth, graph]);
+
+  const handleExplainPath = async () => {
+    if (!pathEnds.from || !pathEnds.to) return;
+    try {
+      setExplainedPath(await agentricaiKnowledgeDB.explainKnowledgePath(pathEnds.from, pathEnds.to));
+    } catch (error) {
+      console.error('Failed to explain knowledge path:', error);
+    }
+  };
+
+  const handleAddLink = async () => {
+    if (!newLink.from || !newLink.to || newLink.from === newLink.to) return;
+    try {
+      setLoading(true);
+      await agentricaiKnowledgeDB.linkKnowledge(newLink.from, newLink.type, newLink.to, 'admin-panel');
+      setNewLink({ ...newLink, to: '' });
+      await loadKnowledgeStats();
+    } catch (error) {
+      console.error('Failed to link knowledge:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const visibleGraph: KnowledgeGraphSnapshot = graphCategory === 'all' ? graph : {
+    nodes: graph.nodes.filter(node => node.category === graphCategory),
+    edges: graph.edges.filter(edge => edge.from.startsWith(`${graphCategory}:`) && edge.to.startsWith(`${graphCategory}:`))
+  };
+  const graphPositions = layoutGraph(visibleGraph);
+  const pathEdges = new Set((explainedPath?.edges || []).map(edge => `${edge.from}|${edge.type}|${edge.to}`));
+  const graphCategories = Array.from(new Set(graph.nodes.map(node => node.category))).sort();
+
+  // The conflict's versions may have been pruned since it was raised
+  const describeConflict = (conflict: KnowledgeConflict) => {
+    try {
+      return agentricaiKnowledgeDB.diffKnowledge(conflict.category, conflict.key, conflict.current_version, conflict.proposed_version);
+    } catch {
+      return null;
+    }
+  };
+
   const tabs = [
     { id: 'overview', label: 'Overview', icon: Database },
     { id: 'search', label: 'Search', icon: Search },
     { id: 'add', label: 'Add Knowledge', icon: Plus },
+    { id: 'graph', label: 'Graph', icon: Network },
+    { id: 'review', label: `Review${conflicts.length > 0 ? ` (${conflicts.length})` : ''}`, icon: GitMerge },
     { id: 'activity', label: 'Activity Log', icon: Activity }
   ];
 
@@ -229,8 +375,10 @@ const KnowledgeDatabasePanel: React.FC = () => {
                       <div className="text-stealth-light text-sm">Graph Nodes</div>
                     </div>
                     <div className="text-center">
-                      <div className="text-xl font-bold text-neon-lime mb-1">ACTIVE</div>
-                      <div className="text-stealth-light text-sm">Network Status</div>
+                      <div className="text-xl font-bold text-neon-lime mb-1">
+                        {knowledgeStats?.knowledge_graph_edges || 0}
+                      </div>
+                      <div className="text-stealth-light text-sm">Graph Edges</div>
                     </div>
                     <div className="text-center">
                       <div className="text-xl font-bold text-neon-blue mb-1">OPTIMAL</div>
@@ -262,6 +410,13 @@ const KnowledgeDatabasePanel: React.FC = () => {
                   </NeonButton>
                 </div>
 
+                {knowledgeStats?.search_index && (
+                  <p className="text-stealth-light text-xs mb-4">
+                    Ranking by keywords and meaning across {knowledgeStats.search_index.entries} indexed entries
+                    ({knowledgeStats.search_index.embedding_provider} embeddings, {knowledgeStats.search_index.dimensions} dimensions)
+                  </p>
+                )}
+
                 {searchResults.length > 0 && (
                   <div className="space-y-4">
                     <h4 className="text-white font-medium">Search Results ({searchResults.length})</h4>
@@ -280,12 +435,27 @@ const KnowledgeDatabasePanel: React.FC = () => {
                             <span className="text-white">{result.key}</span>
                           </div>
                           <div className="flex items-center space-x-2">
+                            {result.scores && (
+                              <span
+                                className="text-xs text-neon-cyan"
+                                title={`Keyword ${(result.scores.keyword * 100).toFixed(0)}% • Semantic ${(result.scores.vector * 100).toFixed(0)}%`}
+                              >
+                                Match: {(result.scores.combined * 100).toFixed(0)}%
+                              </span>
+                            )}
                             <span className="text-xs text-stealth-light">
                               Confidence: {(result.confidence_score * 100).toFixed(0)}%
                             </span>
                             <span className="text-xs text-stealth-light">
                               Accessed: {result.access_count || 0}x
                             </span>
+                            <button
+                              onClick={() => setHistoryFor(historyFor === result.id ? null : result.id)}
+                              className="text-xs text-stealth-light hover:text-neon-cyan transition-colors flex items-center"
+                            >
+                              <History className="w-3 h-3 mr-1" />
+                              History
+                            </button>
                           </div>
                         </div>
                         <div className="text-stealth-light text-sm">
@@ -293,6 +463,32 @@ const KnowledgeDatabasePanel: React.FC = () => {
                             {JSON.stringify(result.value, null, 2)}
                           </pre>
                         </div>
+                        {historyFor === result.id && (
+                          <div className="mt-3 pt-3 border-t border-stealth-border space-y-2">
+                            {agentricaiKnowledgeDB.getKnowledgeHistory(result.category, result.key).reverse().map(version => (
+                              <div key={version.version} className="flex items-center justify-between text-xs">
+                                <span className="text-white">
+                                  v{version.version} • {version.source_agent} • {(version.confidence_score * 100).toFixed(0)}%
+                                  <span className="text-stealth-light ml-2">
+                                    {version.status}{version.rolled_back_from ? ` (rollback of v${version.rolled_back_from})` : ''}
+                                  </span>
+                                </span>
+                                <span className="flex items-center space-x-3">
+                                  <span className="text-stealth-light">{new Date(version.created_at).toLocaleString()}</span>
+                                  {JSON.stringify(version.value) !== JSON.stringify(result.value) && (
+                                    <button
+                                      onClick={() => handleRollback(version)}
+                                      disabled={loading}
+                                      className="text-neon-orange hover:text-white transition-colors"
+                                    >
+                                      Roll back
+                                    </button>
+                                  )}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
                       </motion.div>
                     ))}
                   </div>
@@ -362,6 +558,275 @@ const KnowledgeDatabasePanel: React.FC = () => {
             </StealthPanel>
           )}
 
+          {activeTab === 'graph' && (
+            <div className="space-y-6">
+              <StealthPanel className="p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-bold text-white flex items-center">
+                    <Network className="w-5 h-5 text-neon-cyan mr-2" />
+                    Knowledge Graph
+                  </h3>
+                  <div className="flex items-center space-x-4 text-sm text-stealth-light">
+                    <select
+                      value={graphCategory}
+                      onChange={(e) => setGraphCategory(e.target.value)}
+                      className="px-3 py-1 bg-stealth-panel-light border border-stealth-border rounded text-white focus:border-neon-cyan focus:outline-none"
+                    >
+                      <option value="all">All categories</option>
+                      {graphCategories.map(category => (
+                        <option key={category} value={category}>{category}</option>
+                      ))}
+                    </select>
+                    <label className="flex items-center space-x-2">
+                      <span>Depth {traversalDepth}</span>
+                      <input
+                        type="range"
+                        min="1"
+                        max="6"
+                        value={traversalDepth}
+                        onChange={(e) => setTraversalDepth(parseInt(e.target.value, 10))}
+                      />
+                    </label>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-4 mb-4 text-xs">
+                  {KNOWLEDGE_EDGE_TYPES.map(type => (
+                    <span key={type} className="flex items-center text-stealth-light">
+                      <span className="inline-block w-4 h-0.5 mr-2" style={{ backgroundColor: edgeColors[type] }} />
+                      {type.replace(/_/g, ' ')}
+                    </span>
+                  ))}
+                </div>
+
+                <div className="overflow-x-auto">
+                  <svg width={GRAPH_WIDTH} height={GRAPH_HEIGHT} className="bg-stealth-panel-light rounded-lg">
+                    <defs>
+                      {KNOWLEDGE_EDGE_TYPES.map(type => (
+                        <marker key={type} id={`arrow-${type}`} viewBox="0 0 10 10" refX="16" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                          <path d="M 0 0 L 10 5 L 0 10 z" fill={edgeColors[type]} />
+                        </marker>
+                      ))}
+                    </defs>
+                    {visibleGraph.edges.map(edge => {
+                      const from = graphPositions.get(edge.from);
+                      const to = graphPositions.get(edge.to);
+                      if (!from || !to) return null;
+                      const onPath = pathEdges.has(`${edge.from}|${edge.type}|${edge.to}`);
+                      return (
+                        <line
+                          key={`${edge.from}|${edge.type}|${edge.to}`}
+                          x1={from.x}
+                          y1={from.y}
+                          x2={to.x}
+                          y2={to.y}
+                          stroke={edgeColors[edge.type]}
+                          strokeWidth={onPath ? 4 : 1.5}
+                          markerEnd={`url(#arrow-${edge.type})`}
+                        >
+                          <title>{`${edge.from} ${edge.type} ${edge.to}`}</title>
+                        </line>
+                      );
+                    })}
+                    {visibleGraph.nodes.map(node => {
+                      const position = graphPositions.get(node.id)!;
+                      const depth = reachable.get(node.id);
+                      const selected = node.id === selectedNode;
+                      return (
+                        <g key={node.id} onClick={() => setSelectedNode(selected ? null : node.id)} className="cursor-pointer">
+                          <circle
+                            cx={position.x}
+                            cy={position.y}
+                            r={selected ? 9 : 7}
+                            fill={selected ? '#00ffff' : depth !== undefined ? '#0080ff' : '#1a1a1a'}
+                            stroke={selected || depth !== undefined ? '#00ffff' : '#a0a0a0'}
+                            strokeWidth={1.5}
+                            opacity={selectedNode && !selected && depth === undefined ? 0.35 : 1}
+                          />
+                          <text x={position.x + 10} y={position.y + 4} fontSize="10" fill="#a0a0a0">
+                            {node.key}{depth !== undefined ? ` (${depth})` : ''}
+                          </text>
+                          <title>{node.id}</title>
+                        </g>
+                      );
+                    })}
+                  </svg>
+                </div>
+
+                {visibleGraph.nodes.length === 0 && (
+                  <div className="text-center py-4 text-stealth-light">No knowledge entries to show</div>
+                )}
+                {selectedNode && (
+                  <p className="text-stealth-light text-xs mt-3">
+                    {reachable.size} entries within {traversalDepth} {traversalDepth === 1 ? 'hop' : 'hops'} of {selectedNode}
+                  </p>
+                )}
+              </StealthPanel>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <StealthPanel className="p-6">
+                  <h4 className="text-white font-bold mb-4 flex items-center">
+                    <Route className="w-4 h-4 text-neon-lime mr-2" />
+                    Explain a Connection
+                  </h4>
+                  <div className="space-y-3">
+                    {(['from', 'to'] as const).map(end => (
+                      <select
+                        key={end}
+                        value={pathEnds[end]}
+                        onChange={(e) => {
+                          setPathEnds({ ...pathEnds, [end]: e.target.value });
+                          setExplainedPath(undefined);
+                        }}
+                        className="w-full px-3 py-2 bg-stealth-panel-light border border-stealth-border rounded text-white focus:border-neon-cyan focus:outline-none"
+                      >
+                        <option value="">{end === 'from' ? 'From entry…' : 'To entry…'}</option>
+                        {graph.nodes.map(node => (
+                          <option key={node.id} value={node.id}>{node.id}</option>
+                        ))}
+                      </select>
+                    ))}
+                    <NeonButton onClick={handleExplainPath} disabled={!pathEnds.from || !pathEnds.to} className="w-full">
+                      <Route className="w-4 h-4 mr-2" />
+                      Explain
+                    </NeonButton>
+                    {explainedPath === null && (
+                      <p className="text-stealth-light text-sm">These entries are not connected within 6 links.</p>
+                    )}
+                    {explainedPath && (
+                      <ol className="space-y-1 text-sm list-decimal list-inside">
+                        {explainedPath.explanation.map((sentence, index) => (
+                          <li key={index} className="text-white">{sentence}</li>
+                        ))}
+                        {explainedPath.explanation.length === 0 && (
+                          <li className="text-stealth-light">Both ends are the same entry</li>
+                        )}
+                      </ol>
+                    )}
+                  </div>
+                </StealthPanel>
+
+                <StealthPanel className="p-6">
+                  <h4 className="text-white font-bold mb-4 flex items-center">
+                    <Link2 className="w-4 h-4 text-neon-blue mr-2" />
+                    Link Entries
+                  </h4>
+                  <div className="space-y-3">
+                    <select
+                      value={newLink.from}
+                      onChange={(e) => setNewLink({ ...newLink, from: e.target.value })}
+                      className="w-full px-3 py-2 bg-stealth-panel-light border border-stealth-border rounded text-white focus:border-neon-cyan focus:outline-none"
+                    >
+                      <option value="">Entry…</option>
+                      {graph.nodes.map(node => (
+                        <option key={node.id} value={node.id}>{node.id}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={newLink.type}
+                      onChange={(e) => setNewLink({ ...newLink, type: e.target.value as KnowledgeEdgeType })}
+                      className="w-full px-3 py-2 bg-stealth-panel-light border border-stealth-border rounded text-white focus:border-neon-cyan focus:outline-none"
+                    >
+                      {LINKABLE_EDGE_TYPES.map(type => (
+                        <option key={type} value={type}>{type.replace(/_/g, ' ')}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={newLink.to}
+                      onChange={(e) => setNewLink({ ...newLink, to: e.target.value })}
+                      className="w-full px-3 py-2 bg-stealth-panel-light border border-stealth-border rounded text-white focus:border-neon-cyan focus:outline-none"
+                    >
+                      <option value="">Target entry…</option>
+                      {graph.nodes.filter(node => node.id !== newLink.from).map(node => (
+                        <option key={node.id} value={node.id}>{node.id}</option>
+                      ))}
+                    </select>
+                    <NeonButton onClick={handleAddLink} disabled={loading || !newLink.from || !newLink.to} className="w-full">
+                      <Link2 className="w-4 h-4 mr-2" />
+                      Add Link
+                    </NeonButton>
+                  </div>
+                </StealthPanel>
+              </div>
+            </div>
+          )}
+
+          {activeTab === 'review' && (
+            <StealthPanel className="p-6">
+              <div className="flex items-center justify-between mb-6">
+                <h3 className="text-lg font-bold text-white flex items-center">
+                  <GitMerge className="w-5 h-5 text-neon-orange mr-2" />
+                  Conflicting Knowledge Writes
+                </h3>
+                <label className="text-stealth-light text-sm flex items-center space-x-2">
+                  <span>Default merge policy</span>
+                  <select
+                    value={mergePolicy}
+                    onChange={(e) => handleMergePolicyChange(e.target.value as KnowledgeMergePolicy)}
+                    className="px-3 py-1 bg-stealth-panel-light border border-stealth-border rounded text-white focus:border-neon-cyan focus:outline-none"
+                  >
+                    {MERGE_POLICIES.map(policy => (
+                      <option key={policy} value={policy}>{policy.replace('_', ' ')}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+
+              <div className="space-y-4">
+                {conflicts.map(conflict => {
+                  const diff = describeConflict(conflict);
+                  return (
+                    <div key={conflict.id} className="bg-stealth-panel-light p-4 rounded-lg border border-stealth-border">
+                      <div className="flex items-start justify-between mb-3">
+                        <div>
+                          <span className="text-neon-cyan font-medium">{conflict.category}</span>
+                          <span className="text-stealth-light mx-2">•</span>
+                          <span className="text-white">{conflict.key}</span>
+                          {diff && (
+                            <div className="text-stealth-light text-xs mt-1">
+                              v{diff.from.version} by {diff.from.source_agent} ({(diff.from.confidence_score * 100).toFixed(0)}%)
+                              {' → '}
+                              v{diff.to.version} by {diff.to.source_agent} ({(diff.to.confidence_score * 100).toFixed(0)}%)
+                            </div>
+                          )}
+                        </div>
+                        <div className="flex space-x-2">
+                          <NeonButton onClick={() => handleResolveConflict(conflict.id, 'accept')} disabled={loading} className="text-sm">
+                            <Check className="w-4 h-4 mr-1 inline" />
+                            Accept
+                          </NeonButton>
+                          <NeonButton onClick={() => handleResolveConflict(conflict.id, 'reject')} disabled={loading} variant="secondary" className="text-sm">
+                            <X className="w-4 h-4 mr-1 inline" />
+                            Reject
+                          </NeonButton>
+                        </div>
+                      </div>
+                      <div className="space-y-1 font-mono text-xs">
+                        {diff?.changes.map(change => (
+                          <div key={change.path} className={
+                            change.kind === 'added' ? 'text-neon-lime' :
+                            change.kind === 'removed' ? 'text-red-400' : 'text-neon-orange'
+                          }>
+                            {change.kind === 'added' ? '+' : change.kind === 'removed' ? '-' : '~'} {change.path || '(value)'}:
+                            {change.kind !== 'added' && ` ${JSON.stringify(change.before)}`}
+                            {change.kind === 'changed' && ' →'}
+                            {change.kind !== 'removed' && ` ${JSON.stringify(change.after)}`}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+
+                {conflicts.length === 0 && (
+                  <div className="text-center py-8 text-stealth-light">
+                    No writes waiting for review. Categories under the manual review policy queue disagreements here.
+                  </div>
+                )}
+              </div>
+            </StealthPanel>
+          )}
+
           {activeTab === 'activity' && (
             <StealthPanel className="p-6">
               <h3 className="text-lg font-bold text-white mb-6 flex items-center">
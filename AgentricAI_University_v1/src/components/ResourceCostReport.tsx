@@ -0,0 +1,137 @@
+import React, { useState, useEffect } from 'react';
+import { Download, Receipt } from 'lucide-react';
+import type { LedgerGroupBy, LedgerSummary } from '../agents/system/ResourceLedger';
+import StealthPanel from './ui/StealthPanel';
+import NeonButton from './ui/NeonButton';
+
+interface ResourceCostReportProps {
+  getResourceUsageReport: (groupBy: LedgerGroupBy) => LedgerSummary[];
+  exportResourceLedgerCSV: (groupBy?: LedgerGroupBy) => string;
+  refreshInterval?: number;
+}
+
+const GROUPINGS: { id: LedgerGroupBy; label: string }[] = [
+  { id: 'agent', label: 'Agent' },
+  { id: 'workflow', label: 'Workflow' },
+  { id: 'session', label: 'Session' },
+  { id: 'student', label: 'Student' }
+];
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 ** 2) return `${(bytes / 1024).toFixed(1)}KB`;
+  return `${(bytes / 1024 ** 2).toFixed(1)}MB`;
+};
+
+const downloadCSV = (csv: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const ResourceCostReport: React.FC<ResourceCostReportProps> = ({
+  getResourceUsageReport,
+  exportResourceLedgerCSV,
+  refreshInterval = 5000
+}) => {
+  const [groupBy, setGroupBy] = useState<LedgerGroupBy>('agent');
+  const [summaries, setSummaries] = useState<LedgerSummary[]>([]);
+
+  // The ledger grows as agents work, so poll like the workflow explorer does
+  useEffect(() => {
+    const refresh = () => setSummaries(getResourceUsageReport(groupBy));
+
+    refresh();
+    const interval = setInterval(refresh, refreshInterval);
+    return () => clearInterval(interval);
+  }, [getResourceUsageReport, groupBy, refreshInterval]);
+
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  return (
+    <StealthPanel className="p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-bold text-white flex items-center">
+          <Receipt className="w-6 h-6 text-neon-orange mr-2" />
+          Resource Cost
+        </h3>
+        <div className="flex items-center space-x-2">
+          {GROUPINGS.map(grouping => (
+            <button
+              key={grouping.id}
+              onClick={() => setGroupBy(grouping.id)}
+              className={`px-3 py-1 rounded text-sm border transition-colors ${
+                grouping.id === groupBy
+                  ? 'border-neon-orange text-neon-orange'
+                  : 'border-stealth-border text-stealth-light hover:text-white'
+              }`}
+            >
+              {grouping.label}
+            </button>
+          ))}
+          <NeonButton
+            onClick={() => downloadCSV(exportResourceLedgerCSV(groupBy), `resource-cost-by-${groupBy}-${stamp}.csv`)}
+            variant="secondary"
+            className="text-sm"
+          >
+            <Download className="w-4 h-4 mr-1 inline" />
+            Summary CSV
+          </NeonButton>
+          <NeonButton
+            onClick={() => downloadCSV(exportResourceLedgerCSV(), `resource-ledger-${stamp}.csv`)}
+            variant="primary"
+            className="text-sm"
+          >
+            <Download className="w-4 h-4 mr-1 inline" />
+            Full Ledger
+          </NeonButton>
+        </div>
+      </div>
+
+      {summaries.length === 0 ? (
+        <p className="text-stealth-light text-sm">
+          Nothing recorded yet. Allocations and model usage appear here as agents work.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-stealth-light border-b border-stealth-border">
+                <th className="py-2 pr-4">{GROUPINGS.find(grouping => grouping.id === groupBy)?.label}</th>
+                <th className="py-2 pr-4">Cost</th>
+                <th className="py-2 pr-4 w-48">Share</th>
+                <th className="py-2 pr-4">LLM Tokens</th>
+                <th className="py-2 pr-4">Memory Reserved</th>
+                <th className="py-2 pr-4">Allocations</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summaries.map(summary => (
+                <tr key={summary.key} className="border-b border-stealth-border/50 text-white">
+                  <td className="py-2 pr-4 font-mono">{summary.key}</td>
+                  <td className="py-2 pr-4">{summary.cost.toFixed(3)}</td>
+                  <td className="py-2 pr-4">
+                    <div className="flex items-center space-x-2">
+                      <div className="flex-1 h-2 bg-stealth-panel-light rounded">
+                        <div className="h-2 bg-neon-orange rounded" style={{ width: `${summary.share * 100}%` }} />
+                      </div>
+                      <span className="text-stealth-light text-xs w-10 text-right">{Math.round(summary.share * 100)}%</span>
+                    </div>
+                  </td>
+                  <td className="py-2 pr-4">{summary.llmTokens.toLocaleString()}</td>
+                  <td className="py-2 pr-4">{formatBytes(summary.memoryBytes)}</td>
+                  <td className="py-2 pr-4">{summary.allocations}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </StealthPanel>
+  );
+};
+
+export default ResourceCostReport;
@@ -0,0 +1,361 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { GitBranch, Clock, Cpu, AlertCircle, ArrowRight, ListTree } from 'lucide-react';
+import type { WorkflowRun, WorkflowRunStep } from '../agents/communication/WorkflowOrchestrator';
+import StealthPanel from './ui/StealthPanel';
+
+interface WorkflowExplorerProps {
+  getWorkflowRuns: () => WorkflowRun[];
+  refreshInterval?: number;
+}
+
+const NODE_WIDTH = 168;
+const NODE_HEIGHT = 52;
+const COLUMN_GAP = 56;
+const ROW_GAP = 16;
+
+const statusStyles: Record<string, { dot: string; bar: string; border: string; text: string }> = {
+  created: { dot: 'bg-neon-blue', bar: 'bg-neon-blue', border: 'border-neon-blue', text: 'text-neon-blue' },
+  pending: { dot: 'bg-stealth-border', bar: 'bg-stealth-border', border: 'border-stealth-border', text: 'text-stealth-light' },
+  running: { dot: 'bg-neon-cyan animate-pulse', bar: 'bg-neon-cyan', border: 'border-neon-cyan', text: 'text-neon-cyan' },
+  'in-progress': { dot: 'bg-neon-cyan animate-pulse', bar: 'bg-neon-cyan animate-pulse', border: 'border-neon-cyan', text: 'text-neon-cyan' },
+  completed: { dot: 'bg-neon-lime', bar: 'bg-neon-lime', border: 'border-neon-lime', text: 'text-neon-lime' },
+  paused: { dot: 'bg-neon-orange', bar: 'bg-neon-orange', border: 'border-neon-orange', text: 'text-neon-orange' },
+  compensated: { dot: 'bg-neon-orange', bar: 'bg-neon-orange', border: 'border-neon-orange', text: 'text-neon-orange' },
+  failed: { dot: 'bg-red-500', bar: 'bg-red-500', border: 'border-red-500', text: 'text-red-500' },
+  skipped: { dot: 'bg-stealth-light', bar: 'bg-stealth-light', border: 'border-stealth-light', text: 'text-stealth-light' }
+};
+
+const styleFor = (status: string) => statusStyles[status] || statusStyles.pending;
+
+const formatDuration = (ms?: number) => {
+  if (ms === undefined) return '—';
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+};
+
+const formatPayload = (payload: any) => {
+  if (payload === undefined || payload === null) return 'none';
+  return JSON.stringify(payload, null, 2);
+};
+
+// Depth of each step in the DAG: roots are 0, everything else sits one past its deepest dependency
+const layoutSteps = (steps: WorkflowRunStep[]) => {
+  const levels = new Map<string, number>();
+  const levelOf = (step: WorkflowRunStep, seen: Set<string> = new Set()): number => {
+    if (levels.has(step.id)) return levels.get(step.id)!;
+    if (seen.has(step.id)) return 0;
+    seen.add(step.id);
+
+    const level = step.dependencies.reduce((deepest, dependencyId) => {
+      const dependency = steps.find(s => s.id === dependencyId);
+      return dependency ? Math.max(deepest, levelOf(dependency, seen) + 1) : deepest;
+    }, 0);
+    levels.set(step.id, level);
+    return level;
+  };
+
+  const columns: WorkflowRunStep[][] = [];
+  for (const step of steps) {
+    const level = levelOf(step);
+    (columns[level] = columns[level] || []).push(step);
+  }
+
+  const positions = new Map<string, { x: number; y: number }>();
+  columns.forEach((column, col) => column.forEach((step, row) => {
+    positions.set(step.id, { x: col * (NODE_WIDTH + COLUMN_GAP), y: row * (NODE_HEIGHT + ROW_GAP) });
+  }));
+
+  const rows = Math.max(1, ...columns.map(column => column?.length || 0));
+  return {
+    positions,
+    width: Math.max(1, columns.length) * (NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP,
+    height: rows * (NODE_HEIGHT + ROW_GAP) - ROW_GAP
+  };
+};
+
+const WorkflowExplorer: React.FC<WorkflowExplorerProps> = ({ getWorkflowRuns, refreshInterval = 1000 }) => {
+  const [runs, setRuns] = useState<WorkflowRun[]>([]);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [selectedStepId, setSelectedStepId] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  // Runs are read from the orchestrator in place, so poll for progress
+  useEffect(() => {
+    const refresh = () => {
+      setRuns(getWorkflowRuns());
+      setNow(Date.now());
+    };
+
+    refresh();
+    const interval = setInterval(refresh, refreshInterval);
+    return () => clearInterval(interval);
+  }, [getWorkflowRuns, refreshInterval]);
+
+  const selectedRun = runs.find(run => run.workflowId === selectedRunId) || runs[0] || null;
+  const selectedStep = selectedRun?.steps.find(step => step.id === selectedStepId) || null;
+  const layout = useMemo(() => layoutSteps(selectedRun?.steps || []), [selectedRun]);
+
+  // Gantt scale runs from the first step start to the last end (or now, while running)
+  const timeline = useMemo(() => {
+    if (!selectedRun) return null;
+
+    const starts = selectedRun.steps
+      .filter(step => step.startTime)
+      .map(step => new Date(step.startTime!).getTime());
+    if (starts.length === 0) return null;
+
+    const origin = Math.min(...starts);
+    const ends = selectedRun.steps
+      .filter(step => step.startTime)
+      .map(step => step.endTime ? new Date(step.endTime).getTime() : now);
+    return { origin, span: Math.max(1, Math.max(...ends) - origin) };
+  }, [selectedRun, now]);
+
+  const selectRun = (workflowId: string) => {
+    setSelectedRunId(workflowId);
+    setSelectedStepId(null);
+  };
+
+  return (
+    <StealthPanel className="p-6">
+      <h3 className="text-xl font-bold text-white mb-6 flex items-center">
+        <ListTree className="w-6 h-6 text-neon-cyan mr-2" />
+        Workflow Explorer
+      </h3>
+
+      {runs.length === 0 ? (
+        <p className="text-stealth-light text-sm">
+          No workflow runs yet. Trigger a workflow to see its steps here.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          {/* Run History */}
+          <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+            {runs.map(run => (
+              <button
+                key={run.workflowId}
+                onClick={() => selectRun(run.workflowId)}
+                className={`w-full text-left p-3 rounded border transition-colors ${
+                  run.workflowId === selectedRun?.workflowId
+                    ? 'border-neon-cyan bg-stealth-panel-light'
+                    : 'border-stealth-border hover:border-neon-blue'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-white text-sm font-medium truncate">{run.name}</span>
+                  <div className={`w-2 h-2 rounded-full flex-shrink-0 ${styleFor(run.status).dot}`} />
+                </div>
+                <div className="flex items-center justify-between text-xs text-stealth-light mt-1">
+                  <span>{new Date(run.createdAt).toLocaleTimeString()}</span>
+                  <span className={styleFor(run.status).text}>{run.status}</span>
+                </div>
+                <div className="text-xs text-stealth-light mt-1">
+                  {run.steps.filter(step => step.status === 'completed').length}/{run.steps.length} steps · {formatDuration(run.duration)}
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {selectedRun && (
+            <div className="lg:col-span-3 space-y-6 min-w-0">
+              {/* Run Summary */}
+              <div className="flex flex-wrap items-center gap-4 text-sm">
+                <span className="text-white font-bold">{selectedRun.name}</span>
+                <span className={styleFor(selectedRun.status).text}>{selectedRun.status.toUpperCase()}</span>
+                <span className="text-stealth-light flex items-center">
+                  <Clock className="w-4 h-4 mr-1" />
+                  {formatDuration(selectedRun.duration)}
+                </span>
+                <span className="text-stealth-light">concurrency {selectedRun.concurrency}</span>
+                <span className="text-stealth-light font-mono text-xs">{selectedRun.workflowId}</span>
+              </div>
+
+              {selectedRun.errors.length > 0 && (
+                <div className="space-y-1">
+                  {selectedRun.errors.map((message, index) => (
+                    <p key={index} className="text-neon-orange text-xs flex items-center">
+                      <AlertCircle className="w-3 h-3 mr-1 flex-shrink-0" />
+                      {message}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              {/* Step DAG */}
+              <div>
+                <h4 className="text-white text-sm font-bold mb-3 flex items-center">
+                  <GitBranch className="w-4 h-4 text-neon-blue mr-2" />
+                  Step Graph
+                </h4>
+                <div className="overflow-x-auto pb-2">
+                  <div className="relative" style={{ width: layout.width, height: layout.height }}>
+                    <svg className="absolute inset-0 pointer-events-none" width={layout.width} height={layout.height}>
+                      {selectedRun.steps.flatMap(step => step.dependencies.map(dependencyId => {
+                        const from = layout.positions.get(dependencyId);
+                        const to = layout.positions.get(step.id);
+                        if (!from || !to) return null;
+
+                        const x1 = from.x + NODE_WIDTH;
+                        const y1 = from.y + NODE_HEIGHT / 2;
+                        const x2 = to.x;
+                        const y2 = to.y + NODE_HEIGHT / 2;
+                        const bend = (x2 - x1) / 2;
+                        return (
+                          <path
+                            key={`${dependencyId}-${step.id}`}
+                            d={`M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`}
+                            fill="none"
+                            stroke="#3a3a3a"
+                            strokeWidth={2}
+                          />
+                        );
+                      }))}
+                    </svg>
+
+                    {selectedRun.steps.map(step => {
+                      const position = layout.positions.get(step.id)!;
+                      return (
+                        <motion.button
+                          key={step.id}
+                          initial={{ opacity: 0, scale: 0.9 }}
+                          animate={{ opacity: 1, scale: 1 }}
+                          onClick={() => setSelectedStepId(step.id)}
+                          className={`absolute text-left px-3 py-2 rounded border-2 bg-stealth-panel-light ${styleFor(step.status).border} ${
+                            step.id === selectedStep?.id ? 'shadow-neon-cyan' : ''
+                          }`}
+                          style={{ left: position.x, top: position.y, width: NODE_WIDTH, height: NODE_HEIGHT }}
+                        >
+                          <div className="text-white text-xs font-medium truncate">{step.id}</div>
+                          <div className={`text-xs truncate ${styleFor(step.status).text}`}>{step.status}</div>
+                        </motion.button>
+                      );
+                    })}
+                  </div>
+                </div>
+              </div>
+
+              {/* Step Timeline */}
+              <div>
+                <h4 className="text-white text-sm font-bold mb-3 flex items-center">
+                  <Clock className="w-4 h-4 text-neon-lime mr-2" />
+                  Timeline
+                </h4>
+                <div className="space-y-2">
+                  {selectedRun.steps.map(step => {
+                    const start = step.startTime ? new Date(step.startTime).getTime() : null;
+                    const end = step.endTime ? new Date(step.endTime).getTime() : now;
+                    const left = timeline && start !== null ? ((start - timeline.origin) / timeline.span) * 100 : 0;
+                    const width = timeline && start !== null ? Math.max(0.5, ((end - start) / timeline.span) * 100) : 0;
+
+                    return (
+                      <div
+                        key={step.id}
+                        onClick={() => setSelectedStepId(step.id)}
+                        className="grid grid-cols-4 gap-3 items-center cursor-pointer group"
+                      >
+                        <span className="text-xs text-stealth-light truncate group-hover:text-white">{step.id}</span>
+                        <div className="col-span-3 relative h-4 bg-stealth-black rounded">
+                          {start !== null && (
+                            <div
+                              className={`absolute h-4 rounded ${styleFor(step.status).bar}`}
+                              style={{ left: `${left}%`, width: `${width}%` }}
+                              title={`${step.status} · ${formatDuration(step.endTime ? step.duration : end - start)}`}
+                            />
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                  {timeline && (
+                    <div className="grid grid-cols-4 gap-3 text-xs text-stealth-light">
+                      <span />
+                      <div className="col-span-3 flex justify-between">
+                        <span>0s</span>
+                        <span>{formatDuration(timeline.span)}</span>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {/* Step Details */}
+              {selectedStep && (
+                <motion.div
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="border-t border-stealth-border pt-4 space-y-3"
+                >
+                  <div className="flex flex-wrap items-center gap-4 text-sm">
+                    <span className="text-white font-bold">{selectedStep.action}</span>
+                    <span className={styleFor(selectedStep.status).text}>{selectedStep.status}</span>
+                    <span className="text-stealth-light flex items-center">
+                      <Cpu className="w-4 h-4 mr-1" />
+                      {selectedStep.agentId || (selectedStep.type === 'wait' ? 'wait step' : 'not assigned')}
+                    </span>
+                    {selectedStep.respondedBy && selectedStep.respondedBy !== selectedStep.agentId && (
+                      <span className="text-stealth-light">answered by {selectedStep.respondedBy}</span>
+                    )}
+                    {selectedStep.capability && (
+                      <span className="text-stealth-light">{selectedStep.capability}</span>
+                    )}
+                    <span className="text-stealth-light">
+                      {selectedStep.attempts} attempt{selectedStep.attempts === 1 ? '' : 's'} · {formatDuration(selectedStep.duration)}
+                    </span>
+                  </div>
+
+                  {selectedStep.dependencies.length > 0 && (
+                    <div className="text-xs text-stealth-light flex items-center flex-wrap gap-1">
+                      {selectedStep.dependencies.join(', ')}
+                      <ArrowRight className="w-3 h-3" />
+                      {selectedStep.id}
+                    </div>
+                  )}
+
+                  {selectedStep.error && (
+                    <p className="text-neon-orange text-xs">{selectedStep.error}</p>
+                  )}
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <div className="text-xs text-neon-blue mb-1">INPUT</div>
+                      <pre className="text-xs text-stealth-light bg-stealth-black rounded p-3 max-h-60 overflow-auto">
+                        {formatPayload(selectedStep.input)}
+                      </pre>
+                    </div>
+                    <div>
+                      <div className="text-xs text-neon-lime mb-1">OUTPUT</div>
+                      <pre className="text-xs text-stealth-light bg-stealth-black rounded p-3 max-h-60 overflow-auto">
+                        {formatPayload(selectedStep.output)}
+                      </pre>
+                    </div>
+                  </div>
+
+                  {selectedStep.request && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <div className="text-xs text-neon-blue mb-1">REQUEST TO {selectedStep.agentId}</div>
+                        <pre className="text-xs text-stealth-light bg-stealth-black rounded p-3 max-h-60 overflow-auto">
+                          {formatPayload(selectedStep.request)}
+                        </pre>
+                      </div>
+                      <div>
+                        <div className="text-xs text-neon-lime mb-1">
+                          {selectedStep.respondedBy ? `RESPONSE FROM ${selectedStep.respondedBy}` : 'NO RESPONSE'}
+                        </div>
+                        <pre className="text-xs text-stealth-light bg-stealth-black rounded p-3 max-h-60 overflow-auto">
+                          {formatPayload(selectedStep.response)}
+                        </pre>
+                      </div>
+                    </div>
+                  )}
+                </motion.div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </StealthPanel>
+  );
+};
+
+export default WorkflowExplorer;
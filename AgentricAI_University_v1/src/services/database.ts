@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import { Database, Enums, TablesInsert } from '../types/database';
 
 // Database service interfaces
 export interface DatabaseConfig {
@@ -24,7 +25,7 @@ export class DatabaseService {
 
   constructor(config: DatabaseConfig) {
     // Initialize Supabase
-    this.supabase = createClient(config.supabase.url, config.supabase.anonKey);
+    this.supabase = createClient<Database>(config.supabase.url, config.supabase.anonKey);
     
     // Initialize Redis if configured
     if (config.redis) {
@@ -38,7 +39,7 @@ export class DatabaseService {
   }
 
   // Agent Management
-  async createAgent(agentData: any) {
+  async createAgent(agentData: TablesInsert<'agents'>) {
     const { data, error } = await this.supabase
       .from('agents')
       .insert(agentData)
@@ -60,7 +61,7 @@ export class DatabaseService {
     return data;
   }
 
-  async updateAgentStatus(id: string, status: string) {
+  async updateAgentStatus(id: string, status: Enums<'agent_status'>) {
     const { data, error } = await this.supabase
       .from('agents')
       .update({ status, updated_at: new Date().toISOString() })
@@ -73,7 +74,7 @@ export class DatabaseService {
   }
 
   // User Session Management
-  async createUserSession(sessionData: any) {
+  async createUserSession(sessionData: TablesInsert<'user_sessions'>) {
     const { data, error } = await this.supabase
       .from('user_sessions')
       .insert(sessionData)
@@ -102,7 +103,7 @@ export class DatabaseService {
   }
 
   // Task Management
-  async assignTask(taskData: any) {
+  async assignTask(taskData: TablesInsert<'agent_tasks'>) {
     const { data, error } = await this.supabase
       .from('agent_tasks')
       .insert(taskData)
@@ -1,4 +1,50 @@
 import { createClient } from '@supabase/supabase-js';
+import {
+  KnowledgeVersionStore,
+  KnowledgeMergePolicy,
+  KnowledgeVersion,
+  KnowledgeWriteResult,
+  KnowledgeConflict,
+  KnowledgeDiff,
+  MERGE_POLICIES
+} from './knowledgeVersioning';
+import { KnowledgeSearchIndex, KnowledgeSearchOptions } from './knowledgeSearch';
+import { EmbeddingProvider } from './knowledgeEmbeddings';
+import {
+  KnowledgeGraph,
+  KnowledgeEdgeType,
+  KnowledgeGraphSnapshot,
+  KnowledgePath,
+  KnowledgeRelationships,
+  KnowledgeTraversalHit,
+  KnowledgeTraversalOptions,
+  LINKABLE_EDGE_TYPES,
+  normalizeRelationships
+} from './knowledgeGraph';
+import {
+  KnowledgeStorageAdapter,
+  KnowledgeStorageContents,
+  KnowledgeStoreName,
+  MemoryKnowledgeStorageAdapter,
+  createDefaultKnowledgeStorage,
+  migrateLegacyKnowledgeBase,
+  VERSION_STATE_ID
+} from './knowledgeStorage';
+import {
+  KnowledgeSyncEngine,
+  SupabaseSyncRemote,
+  SyncOutboxEntry,
+  SyncResolution,
+  SyncStatus,
+  SyncTable,
+  SyncReport,
+  SYNC_TABLES,
+  resolveByTimestamp
+} from './knowledgeSync';
+import { clock } from '../agents/base/AgentEnvironment';
+
+// The seeded protocol entry whose conflict_resolution sets the default merge policy
+const KNOWLEDGE_SHARING_PROTOCOL = 'agentricai_protocols:knowledge_sharing';
 
 // Enhanced Knowledge Database - Active Working Memory for AgentricAI Ecosystem
 export class AgentricAIKnowledgeDatabase {
@@ -8,13 +54,28 @@ export class AgentricAIKnowledgeDatabase {
   private agentMemories: Map<string, any> = new Map();
   private learningPatterns: Map<string, any> = new Map();
   private realTimeSubscriptions: Map<string, any> = new Map();
-  private knowledgeGraph: Map<string, Set<string>> = new Map();
-  private accessLog: Array<any> = [];
+  private knowledgeGraph: KnowledgeGraph = new KnowledgeGraph();
+  // The most recent accesses, oldest first by id insertion; stored locally so analysis outlives the page
+  private accessLog: Map<string, any> = new Map();
+  private maxAccessLog: number = 1000;
+  private versionStore: KnowledgeVersionStore = new KnowledgeVersionStore();
+  private searchIndex: KnowledgeSearchIndex = new KnowledgeSearchIndex();
+  private storage: KnowledgeStorageAdapter = createDefaultKnowledgeStorage();
+  // Serialized size of each stored knowledge entry and memory, and the running total per agent
+  private recordBytes: Map<string, { agentId: string; bytes: number }> = new Map();
+  private agentStorageBytes: Map<string, number> = new Map();
+  // Records changed since the last flush, as `store/id`
+  private pendingWrites: Set<string> = new Set();
+  private flushQueue: Promise<void> = Promise.resolve();
+  // Replicates local writes to Supabase; null in local mode
+  private syncEngine: KnowledgeSyncEngine | null = null;
+  // Settles once locally stored knowledge has been loaded
+  private ready: Promise<void>;
 
   private constructor() {
-    this.initializeDatabase();
+    this.ready = this.initializeDatabase();
     this.setupRealTimeSync();
-    this.initializeKnowledgeStructure();
+    this.ready.then(() => this.initializeKnowledgeStructure());
   }
 
   static getInstance(): AgentricAIKnowledgeDatabase {
@@ -30,99 +91,73 @@ export class AgentricAIKnowledgeDatabase {
     
     if (supabaseUrl && supabaseKey && supabaseUrl !== 'https://your-project.supabase.co' && supabaseKey !== 'your-anon-key') {
       this.supabase = createClient(supabaseUrl, supabaseKey);
-      await this.createTables();
+      if (!(await this.signIn())) this.supabase = null;
     } else {
       console.log('AgentricAI Knowledge Database running in local mode - Supabase not configured');
       this.supabase = null;
-      this.initializeLocalStorage();
+    }
+
+    // Loaded with Supabase too: local storage is the working copy and Supabase a replica of it
+    const contents = await this.loadLocalStorage();
+    // The tables come from supabase/migrations (npm run db:migrate)
+    if (this.supabase) {
+      this.syncEngine = new KnowledgeSyncEngine(new SupabaseSyncRemote(this.supabase), {
+        applyRemote: (table, record, pending) => this.applyRemoteRecord(table, record, pending),
+        getLocal: (table, key) => this.recordFor(table, key)
+      }, this.storage);
+      if (contents) this.syncEngine.restore(contents);
+      this.syncEngine.start();
     }
   }
 
-  private async createTables() {
-    if (!this.supabase) return;
-    
+  // Rows are scoped to the signed-in user, so a device without a session signs in anonymously
+  // and keeps that identity; without one every table would look empty
+  private async signIn(): Promise<boolean> {
     try {
-      // Create knowledge base table
-      await this.supabase.rpc('create_knowledge_table', {
-        sql: `
-          CREATE TABLE IF NOT EXISTS agentricai_knowledge_base (
-            id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
-            category text NOT NULL,
-            key text NOT NULL,
-            value jsonb NOT NULL,
-            confidence_score float DEFAULT 1.0,
-            source_agent text,
-            created_at timestamptz DEFAULT now(),
-            updated_at timestamptz DEFAULT now(),
-            access_count integer DEFAULT 0,
-            tags text[] DEFAULT '{}',
-            relationships jsonb DEFAULT '{}',
-            UNIQUE(category, key)
-          );
-        `
-      });
-
-      // Create agent memory table
-      await this.supabase.rpc('create_agent_memory_table', {
-        sql: `
-          CREATE TABLE IF NOT EXISTS agentricai_agent_memory (
-            id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
-            agent_id text NOT NULL,
-            memory_type text NOT NULL,
-            memory_data jsonb NOT NULL,
-            priority integer DEFAULT 5,
-            expiry_date timestamptz,
-            created_at timestamptz DEFAULT now(),
-            last_accessed timestamptz DEFAULT now(),
-            access_frequency integer DEFAULT 1
-          );
-        `
-      });
-
-      // Create learning patterns table
-      await this.supabase.rpc('create_learning_patterns_table', {
-        sql: `
-          CREATE TABLE IF NOT EXISTS agentricai_learning_patterns (
-            id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
-            user_id text,
-            pattern_type text NOT NULL,
-            pattern_data jsonb NOT NULL,
-            effectiveness_score float DEFAULT 0.5,
-            usage_count integer DEFAULT 1,
-            created_at timestamptz DEFAULT now(),
-            updated_at timestamptz DEFAULT now()
-          );
-        `
-      });
-
-      // Create knowledge access log
-      await this.supabase.rpc('create_access_log_table', {
-        sql: `
-          CREATE TABLE IF NOT EXISTS agentricai_knowledge_access_log (
-            id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
-            agent_id text NOT NULL,
-            knowledge_key text NOT NULL,
-            access_type text NOT NULL,
-            timestamp timestamptz DEFAULT now(),
-            context jsonb DEFAULT '{}'
-          );
-        `
-      });
+      const { data } = await this.supabase.auth.getSession();
+      if (data.session) return true;
 
+      const { error } = await this.supabase.auth.signInAnonymously();
+      if (error) throw error;
+      return true;
     } catch (error) {
-      console.warn('Database table creation failed, using local storage:', error);
-      this.initializeLocalStorage();
+      console.warn('Supabase sign-in failed, AgentricAI Knowledge Database running in local mode:', error);
+      return false;
     }
   }
 
-  private initializeLocalStorage() {
-    // Initialize local storage structure
-    const stored = localStorage.getItem('agentricai_knowledge_base');
-    if (stored) {
-      const data = JSON.parse(stored);
-      this.localKnowledge = new Map(data.knowledge || []);
-      this.agentMemories = new Map(data.memories || []);
-      this.learningPatterns = new Map(data.patterns || []);
+  private async loadLocalStorage(): Promise<KnowledgeStorageContents | null> {
+    try {
+      await migrateLegacyKnowledgeBase(this.storage);
+      const contents = await this.storage.loadAll();
+      const byId = (records: any[]) => new Map(records.map(record => [record.id, record] as [string, any]));
+
+      this.localKnowledge = byId(contents.knowledge);
+      this.agentMemories = byId(contents.memories);
+      this.learningPatterns = byId(contents.patterns);
+      this.accessLog = byId(
+        contents.access_log
+          .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+          .slice(-this.maxAccessLog)
+      );
+      for (const entry of contents.knowledge) {
+        this.knowledgeGraph.setNode(entry.id, entry.relationships);
+        this.trackStorageBytes('knowledge', entry.id, entry);
+      }
+      for (const memory of contents.memories) {
+        this.trackStorageBytes('memories', memory.id, memory);
+      }
+      this.versionStore.restore({
+        ...contents.meta.find(record => record.id === VERSION_STATE_ID),
+        versions: contents.versions.flatMap(record => record.versions || [])
+      });
+      await this.indexForSearch(contents.knowledge);
+      console.log(`💾 Knowledge storage: ${this.storage.name} (${this.localKnowledge.size} entries)`);
+      return contents;
+    } catch (error) {
+      console.warn(`Knowledge storage (${this.storage.name}) unavailable, keeping knowledge in memory:`, error);
+      this.storage = new MemoryKnowledgeStorageAdapter();
+      return null;
     }
   }
 
@@ -182,85 +217,177 @@ export class AgentricAIKnowledgeDatabase {
 
   // Core Knowledge Operations
   async storeKnowledge(category: string, key: string, value: any, sourceAgent?: string, confidence: number = 1.0): Promise<string> {
+    const result = await this.writeKnowledge(category, key, value, sourceAgent, confidence);
+    return result.knowledgeId;
+  }
+
+  // Versioned write: the category's merge policy decides whether the value becomes current
+  async writeKnowledge(category: string, key: string, value: any, sourceAgent?: string, confidence: number = 1.0): Promise<KnowledgeWriteResult> {
+    await this.ready;
     const knowledgeId = `${category}:${key}`;
+    const existing = this.versionStore.getCurrent(knowledgeId) ? undefined : await this.findStoredEntry(category, key);
+
+    const result = this.versionStore.propose(knowledgeId, {
+      category,
+      key,
+      value,
+      source_agent: sourceAgent || 'system',
+      confidence_score: confidence
+    }, existing);
+
+    if (result.outcome === 'unchanged') {
+      return result;
+    }
+
+    if (result.outcome === 'accepted') {
+      await this.applyVersion(result.version);
+    } else {
+      // Losing and disputed writes stay in the history where a reviewer can find them
+      this.persistKnowledge(knowledgeId);
+      console.log(`⚖️ Knowledge write to ${knowledgeId} by ${result.version.source_agent} ${result.outcome} (${result.policy})`);
+      this.emitKnowledgeUpdate({ eventType: 'CONFLICT', outcome: result.outcome, version: result.version, conflictId: result.conflictId });
+    }
+    await this.persistVersion(result.version);
+
+    // Log the storage operation
+    if (sourceAgent !== 'system-init') {
+      await this.logKnowledgeAccess(sourceAgent || 'system', knowledgeId, 'store', { confidence, outcome: result.outcome, version: result.version.version });
+    }
+
+    return result;
+  }
+
+  // Make a version the stored entry; versions merged from Supabase are not queued back to it
+  private async applyVersion(version: KnowledgeVersion, replicate: boolean = true) {
+    const { category, key, value } = version;
+    const knowledgeId = version.knowledge_id;
+    const previous = this.localKnowledge.get(knowledgeId);
     const knowledgeEntry = {
       id: knowledgeId,
       category,
       key,
       value,
-      confidence_score: confidence,
-      source_agent: sourceAgent || 'system',
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-      access_count: 0,
+      confidence_score: version.confidence_score,
+      source_agent: version.source_agent,
+      created_at: previous?.created_at || version.created_at,
+      updated_at: version.created_at,
+      access_count: previous?.access_count || 0,
       tags: this.extractTags(value),
-      relationships: this.findRelationships(category, key, value)
+      relationships: this.findRelationships(value, previous?.relationships)
     };
 
-    if (this.supabase) {
-      try {
-        const { data, error } = await this.supabase
-          .from('agentricai_knowledge_base')
-          .upsert(knowledgeEntry);
-        
-        if (error) throw error;
-      } catch (error) {
-        console.warn('Supabase storage failed, falling back to local storage:', error);
-        this.localKnowledge.set(knowledgeId, knowledgeEntry);
-        this.saveToLocalStorage();
-      }
-    } else {
-      this.localKnowledge.set(knowledgeId, knowledgeEntry);
-      this.saveToLocalStorage();
+    this.localKnowledge.set(knowledgeId, knowledgeEntry);
+    this.persistKnowledge(knowledgeId);
+    if (replicate) {
+      await this.syncEngine?.enqueue('knowledge', knowledgeEntry);
     }
 
     // Update knowledge graph
     this.updateKnowledgeGraph(category, key, knowledgeEntry.relationships);
-    
-    // Log the storage operation
-    if (sourceAgent !== 'system-init') {
-      await this.logKnowledgeAccess(sourceAgent || 'system', knowledgeId, 'store', { confidence });
+    await this.indexForSearch([knowledgeEntry]);
+
+    if (knowledgeId === KNOWLEDGE_SHARING_PROTOCOL && MERGE_POLICIES.includes(value?.conflict_resolution)) {
+      this.versionStore.setMergePolicy(value.conflict_resolution);
     }
+  }
+
+  private async findStoredEntry(category: string, key: string): Promise<any> {
+    const local = this.localKnowledge.get(`${category}:${key}`);
+    if (local || !this.supabase) return local;
 
-    return knowledgeId;
+    try {
+      const { data, error } = await this.supabase
+        .from('agentricai_knowledge_base')
+        .select('*')
+        .eq('category', category)
+        .eq('key', key)
+        .maybeSingle();
+      if (error) throw error;
+      return data || undefined;
+    } catch (error) {
+      console.warn('Supabase lookup failed, versioning from local history:', error);
+      return undefined;
+    }
+  }
+
+  private async persistVersion(version: KnowledgeVersion) {
+    if (!this.supabase) return;
+
+    try {
+      await this.supabase
+        .from('agentricai_knowledge_versions')
+        .upsert(version, { onConflict: 'owner_id,knowledge_id,version' });
+    } catch (error) {
+      console.warn('Failed to store knowledge version in Supabase, keeping local history:', error);
+    }
+  }
+
+  // Knowledge Versioning
+  setMergePolicy(policy: KnowledgeMergePolicy, category?: string) {
+    this.versionStore.setMergePolicy(policy, category);
+    this.persist('meta', VERSION_STATE_ID);
+  }
+
+  getMergePolicy(category?: string): KnowledgeMergePolicy {
+    return this.versionStore.getMergePolicy(category);
+  }
+
+  getKnowledgeHistory(category: string, key: string): KnowledgeVersion[] {
+    return this.versionStore.getHistory(`${category}:${key}`);
+  }
+
+  diffKnowledge(category: string, key: string, fromVersion: number, toVersion?: number): KnowledgeDiff {
+    return this.versionStore.diff(`${category}:${key}`, fromVersion, toVersion);
+  }
+
+  async rollbackKnowledge(category: string, key: string, version: number, requestedBy: string): Promise<KnowledgeVersion> {
+    const knowledgeId = `${category}:${key}`;
+    const restored = this.versionStore.rollback(knowledgeId, version, requestedBy);
+    console.log(`⏪ Rolled ${knowledgeId} back to version ${version} for ${requestedBy}`);
+
+    await this.applyVersion(restored);
+    await this.persistVersion(restored);
+    await this.logKnowledgeAccess(requestedBy, knowledgeId, 'rollback', { version: restored.version, rolled_back_from: version });
+    this.emitKnowledgeUpdate({ eventType: 'ROLLBACK', version: restored });
+    return restored;
+  }
+
+  getPendingConflicts(category?: string): KnowledgeConflict[] {
+    return this.versionStore.getPendingConflicts(category);
+  }
+
+  async resolveConflict(conflictId: string, decision: 'accept' | 'reject', resolvedBy: string): Promise<KnowledgeVersion | undefined> {
+    const conflict = this.versionStore.getConflict(conflictId);
+    const accepted = this.versionStore.resolveConflict(conflictId, decision, resolvedBy);
+
+    if (accepted) {
+      await this.applyVersion(accepted);
+    } else if (conflict) {
+      this.persistKnowledge(conflict.knowledge_id);
+    }
+    if (conflict) {
+      const proposed = this.versionStore.getVersion(conflict.knowledge_id, conflict.proposed_version);
+      if (proposed) await this.persistVersion(proposed);
+      await this.logKnowledgeAccess(resolvedBy, conflict.knowledge_id, 'resolve', { decision, version: conflict.proposed_version });
+    }
+    this.emitKnowledgeUpdate({ eventType: 'RESOLVED', conflictId, decision });
+    return accepted;
   }
 
   async retrieveKnowledge(category: string, key: string, requestingAgent?: string): Promise<any> {
+    await this.ready;
     const knowledgeId = `${category}:${key}`;
-    let knowledge = null;
 
-    if (this.supabase) {
-      try {
-        const { data, error } = await this.supabase
-          .from('agentricai_knowledge_base')
-          .select('*')
-          .eq('category', category)
-          .eq('key', key)
-          .single();
-        
-        if (!error && data) {
-          knowledge = data;
-          // Update access count
-          await this.supabase
-            .from('agentricai_knowledge_base')
-            .update({ 
-              access_count: data.access_count + 1,
-              updated_at: new Date().toISOString()
-            })
-            .eq('id', data.id);
-        }
-      } catch (error) {
-        console.warn('Supabase retrieval failed, using local:', error);
-      }
+    // Sync keeps the local copy current; Supabase is only asked for entries never pulled here
+    if (!this.localKnowledge.has(knowledgeId)) {
+      const stored = await this.findStoredEntry(category, key);
+      if (stored) await this.applyRemoteRecord('knowledge', stored);
     }
 
-    if (!knowledge) {
-      knowledge = this.localKnowledge.get(knowledgeId);
-      if (knowledge) {
-        knowledge.access_count = (knowledge.access_count || 0) + 1;
-        this.localKnowledge.set(knowledgeId, knowledge);
-        this.saveToLocalStorage();
-      }
+    const knowledge = this.localKnowledge.get(knowledgeId);
+    if (knowledge) {
+      knowledge.access_count = (knowledge.access_count || 0) + 1;
+      this.persist('knowledge', knowledgeId);
     }
 
     // Log the retrieval
@@ -274,35 +401,25 @@ export class AgentricAIKnowledgeDatabase {
   }
 
   async queryKnowledge(query: string, requestingAgent?: string): Promise<any[]> {
-    const results: any[] = [];
-    
-    if (this.supabase) {
-      try {
-        const { data, error } = await this.supabase
-          .from('agentricai_knowledge_base')
-          .select('*')
-          .or(`key.ilike.%${query}%,value::text.ilike.%${query}%`)
-          .order('confidence_score', { ascending: false })
-          .limit(10);
-        
-        if (!error && data) {
-          results.push(...data);
-        }
-      } catch (error) {
-        console.warn('Supabase query failed, using local search:', error);
-      }
-    }
-
-    // Local search fallback
-    if (results.length === 0) {
-      for (const [id, entry] of this.localKnowledge.entries()) {
-        if (entry.key.toLowerCase().includes(query.toLowerCase()) ||
-            JSON.stringify(entry.value).toLowerCase().includes(query.toLowerCase())) {
-          results.push(entry);
-        }
-      }
-      results.sort((a, b) => b.confidence_score - a.confidence_score);
+    await this.ready;
+    const remote: any[] = await this.querySupabaseKnowledge(query);
+    const local = Array.from(this.localKnowledge.values()).filter(entry =>
+      entry.key.toLowerCase().includes(query.toLowerCase()) ||
+      JSON.stringify(entry.value).toLowerCase().includes(query.toLowerCase())
+    );
+
+    // Local search fallback; otherwise local writes still waiting in the outbox are newer than
+    // what Supabase returned, so they are added or replace the remote copy
+    let results = local;
+    if (remote.length > 0) {
+      const { keyOf } = SYNC_TABLES.knowledge;
+      const pending = new Set((this.syncEngine?.getPending() || [])
+        .filter(entry => entry.table === 'knowledge')
+        .map(entry => entry.key));
+      const unsynced = local.filter(entry => pending.has(keyOf(entry)));
+      results = [...unsynced, ...remote.filter(row => !pending.has(keyOf(row)))];
     }
+    results.sort((a, b) => b.confidence_score - a.confidence_score);
 
     // Log the query
     await this.logKnowledgeAccess(requestingAgent || 'unknown', `query:${query}`, 'query', {
@@ -312,8 +429,60 @@ export class AgentricAIKnowledgeDatabase {
     return results.slice(0, 10);
   }
 
+  // Hybrid keyword and semantic search over the knowledge this browser has seen
+  async searchKnowledge(query: string, requestingAgent?: string, options: KnowledgeSearchOptions = {}): Promise<any[]> {
+    await this.ready;
+    // Remote keyword matches are indexed first so entries written elsewhere can rank too
+    await this.indexForSearch(await this.querySupabaseKnowledge(query));
+
+    const hits = await this.searchIndex.search(query, options);
+
+    await this.logKnowledgeAccess(requestingAgent || 'unknown', `search:${query}`, 'search', {
+      results_count: hits.length,
+      embedding_provider: this.searchIndex.getProvider().name
+    });
+
+    return hits.map(hit => ({ ...hit.entry, scores: hit.scores }));
+  }
+
+  // Re-embeds every indexed entry with the new provider
+  async setEmbeddingProvider(provider: EmbeddingProvider) {
+    await this.searchIndex.setProvider(provider);
+    console.log(`🧭 Knowledge search now embeds with ${provider.name} (${provider.dimensions} dimensions)`);
+  }
+
+  private async querySupabaseKnowledge(query: string): Promise<any[]> {
+    if (!this.supabase) return [];
+
+    try {
+      const { data, error } = await this.supabase
+        .from('agentricai_knowledge_base')
+        .select('*')
+        .or(`key.ilike.%${query}%,value::text.ilike.%${query}%`)
+        .order('confidence_score', { ascending: false })
+        .limit(10);
+      
+      if (!error && data) {
+        return data;
+      }
+    } catch (error) {
+      console.warn('Supabase query failed, using local search:', error);
+    }
+    return [];
+  }
+
+  // Search indexing must never fail the write that triggered it
+  private async indexForSearch(entries: any[]) {
+    try {
+      await this.searchIndex.upsertAll(entries);
+    } catch (error) {
+      console.warn('Knowledge search indexing failed:', error);
+    }
+  }
+
   // Agent Memory Management
   async storeAgentMemory(agentId: string, memoryType: string, memoryData: any, priority: number = 5): Promise<string> {
+    await this.ready;
     const memoryId = `${agentId}:${memoryType}:${Date.now()}`;
     const memoryEntry = {
       id: memoryId,
@@ -326,30 +495,19 @@ export class AgentricAIKnowledgeDatabase {
       access_frequency: 1
     };
 
-    if (this.supabase) {
-      try {
-        const { data, error } = await this.supabase
-          .from('agentricai_agent_memory')
-          .insert(memoryEntry);
-        
-        if (error) throw error;
-      } catch (error) {
-        console.warn('Supabase memory storage failed, using local:', error);
-        this.agentMemories.set(memoryId, memoryEntry);
-        this.saveToLocalStorage();
-      }
-    } else {
-      this.agentMemories.set(memoryId, memoryEntry);
-      this.saveToLocalStorage();
-    }
+    this.agentMemories.set(memoryId, memoryEntry);
+    this.persist('memories', memoryId);
+    await this.syncEngine?.enqueue('memories', memoryEntry);
 
     return memoryId;
   }
 
   async retrieveAgentMemory(agentId: string, memoryType?: string): Promise<any[]> {
-    let memories: any[] = [];
+    await this.ready;
+    const matches = (memory: any) => memory.agent_id === agentId && (!memoryType || memory.memory_type === memoryType);
 
-    if (this.supabase) {
+    // Only go to Supabase for an agent this browser has never pulled memories for
+    if (this.supabase && !Array.from(this.agentMemories.values()).some(matches)) {
       try {
         let query = this.supabase
           .from('agentricai_agent_memory')
@@ -360,32 +518,24 @@ export class AgentricAIKnowledgeDatabase {
           query = query.eq('memory_type', memoryType);
         }
         
-        const { data, error } = await query
-          .order('priority', { ascending: false })
-          .order('last_accessed', { ascending: false });
-        
-        if (!error && data) {
-          memories = data;
+        const { data, error } = await query;
+        if (error) throw error;
+        for (const memory of data || []) {
+          await this.applyRemoteRecord('memories', memory);
         }
       } catch (error) {
         console.warn('Supabase memory retrieval failed, using local:', error);
       }
     }
 
-    if (memories.length === 0) {
-      for (const [id, memory] of this.agentMemories.entries()) {
-        if (memory.agent_id === agentId && (!memoryType || memory.memory_type === memoryType)) {
-          memories.push(memory);
-        }
-      }
-      memories.sort((a, b) => b.priority - a.priority || new Date(b.last_accessed).getTime() - new Date(a.last_accessed).getTime());
-    }
-
+    const memories = Array.from(this.agentMemories.values()).filter(matches);
+    memories.sort((a, b) => b.priority - a.priority || new Date(b.last_accessed).getTime() - new Date(a.last_accessed).getTime());
     return memories;
   }
 
   // Learning Pattern Management
   async storeLearningPattern(userId: string, patternType: string, patternData: any, effectiveness: number = 0.5): Promise<string> {
+    await this.ready;
     const patternId = `${userId}:${patternType}:${Date.now()}`;
     const patternEntry = {
       id: patternId,
@@ -398,30 +548,18 @@ export class AgentricAIKnowledgeDatabase {
       updated_at: new Date().toISOString()
     };
 
-    if (this.supabase) {
-      try {
-        const { data, error } = await this.supabase
-          .from('agentricai_learning_patterns')
-          .insert(patternEntry);
-        
-        if (error) throw error;
-      } catch (error) {
-        console.warn('Supabase pattern storage failed, using local:', error);
-        this.learningPatterns.set(patternId, patternEntry);
-        this.saveToLocalStorage();
-      }
-    } else {
-      this.learningPatterns.set(patternId, patternEntry);
-      this.saveToLocalStorage();
-    }
+    this.learningPatterns.set(patternId, patternEntry);
+    this.persist('patterns', patternId);
+    await this.syncEngine?.enqueue('patterns', patternEntry);
 
     return patternId;
   }
 
   async retrieveLearningPatterns(userId: string, patternType?: string): Promise<any[]> {
-    let patterns: any[] = [];
+    await this.ready;
+    const matches = (pattern: any) => pattern.user_id === userId && (!patternType || pattern.pattern_type === patternType);
 
-    if (this.supabase) {
+    if (this.supabase && !Array.from(this.learningPatterns.values()).some(matches)) {
       try {
         let query = this.supabase
           .from('agentricai_learning_patterns')
@@ -432,26 +570,18 @@ export class AgentricAIKnowledgeDatabase {
           query = query.eq('pattern_type', patternType);
         }
         
-        const { data, error } = await query
-          .order('effectiveness_score', { ascending: false });
-        
-        if (!error && data) {
-          patterns = data;
+        const { data, error } = await query;
+        if (error) throw error;
+        for (const pattern of data || []) {
+          await this.applyRemoteRecord('patterns', pattern);
         }
       } catch (error) {
         console.warn('Supabase pattern retrieval failed, using local:', error);
       }
     }
 
-    if (patterns.length === 0) {
-      for (const [id, pattern] of this.learningPatterns.entries()) {
-        if (pattern.user_id === userId && (!patternType || pattern.pattern_type === patternType)) {
-          patterns.push(pattern);
-        }
-      }
-      patterns.sort((a, b) => b.effectiveness_score - a.effectiveness_score);
-    }
-
+    const patterns = Array.from(this.learningPatterns.values()).filter(matches);
+    patterns.sort((a, b) => b.effectiveness_score - a.effectiveness_score);
     return patterns;
   }
 
@@ -482,19 +612,22 @@ export class AgentricAIKnowledgeDatabase {
     }
   }
 
-  private handleKnowledgeChange(payload: any) {
+  // Realtime changes merge like pulled ones, so a queued local write is not silently replaced
+  private async handleKnowledgeChange(payload: any) {
     const { eventType, new: newRecord, old: oldRecord } = payload;
+    await this.ready;
     
     switch (eventType) {
       case 'INSERT':
       case 'UPDATE':
-        const knowledgeId = `${newRecord.category}:${newRecord.key}`;
-        this.localKnowledge.set(knowledgeId, newRecord);
-        this.updateKnowledgeGraph(newRecord.category, newRecord.key, newRecord.relationships);
+        await this.receiveRemote('knowledge', newRecord);
         break;
       case 'DELETE':
         const deletedId = `${oldRecord.category}:${oldRecord.key}`;
         this.localKnowledge.delete(deletedId);
+        this.persist('knowledge', deletedId);
+        this.knowledgeGraph.removeNode(deletedId);
+        this.searchIndex.remove(oldRecord);
         break;
     }
 
@@ -502,16 +635,18 @@ export class AgentricAIKnowledgeDatabase {
     this.emitKnowledgeUpdate(payload);
   }
 
-  private handleMemoryChange(payload: any) {
+  private async handleMemoryChange(payload: any) {
     const { eventType, new: newRecord, old: oldRecord } = payload;
+    await this.ready;
     
     switch (eventType) {
       case 'INSERT':
       case 'UPDATE':
-        this.agentMemories.set(newRecord.id, newRecord);
+        await this.receiveRemote('memories', newRecord);
         break;
       case 'DELETE':
         this.agentMemories.delete(oldRecord.id);
+        this.persist('memories', oldRecord.id);
         break;
     }
 
@@ -519,46 +654,159 @@ export class AgentricAIKnowledgeDatabase {
     this.emitMemoryUpdate(payload);
   }
 
-  // Knowledge Graph Management
-  private updateKnowledgeGraph(category: string, key: string, relationships: any) {
-    const nodeId = `${category}:${key}`;
-    
-    if (!this.knowledgeGraph.has(nodeId)) {
-      this.knowledgeGraph.set(nodeId, new Set());
+  private async receiveRemote(table: SyncTable, record: any) {
+    if (this.syncEngine) {
+      await this.syncEngine.receive(table, record);
+    } else {
+      await this.applyRemoteRecord(table, record);
     }
+  }
 
-    if (relationships && typeof relationships === 'object') {
-      for (const [relType, relTargets] of Object.entries(relationships)) {
-        if (Array.isArray(relTargets)) {
-          relTargets.forEach(target => {
-            this.knowledgeGraph.get(nodeId)?.add(`${relType}:${target}`);
-          });
-        }
+  // Merges a record written elsewhere. Knowledge goes through the merge policy like any other
+  // write, so the remote copy lands in the version history even when it loses; memories and
+  // learning patterns keep whichever copy was written last.
+  private async applyRemoteRecord(table: SyncTable, record: any, pending?: SyncOutboxEntry): Promise<SyncResolution> {
+    if (table === 'knowledge') {
+      const knowledgeId = `${record.category}:${record.key}`;
+      const result = this.versionStore.propose(knowledgeId, {
+        category: record.category,
+        key: record.key,
+        value: record.value,
+        source_agent: record.source_agent || 'system',
+        confidence_score: record.confidence_score ?? 1
+      }, this.localKnowledge.get(knowledgeId));
+
+      if (result.outcome === 'accepted') {
+        await this.applyVersion(result.version, false);
+        this.adoptRemoteLinks(knowledgeId, record, true);
+      } else if (result.outcome === 'unchanged') {
+        this.adoptRemoteLinks(knowledgeId, record, false);
+      } else {
+        this.persistKnowledge(knowledgeId);
+        this.emitKnowledgeUpdate({ eventType: 'CONFLICT', outcome: result.outcome, version: result.version, conflictId: result.conflictId });
       }
+
+      if (result.outcome === 'rejected') return 'local';
+      return result.outcome === 'pending' ? 'held' : 'remote';
     }
+
+    const records = table === 'memories' ? this.agentMemories : this.learningPatterns;
+    const local = pending?.record || records.get(record.id);
+    if (resolveByTimestamp(table, local, record) === 'local') return 'local';
+
+    records.set(record.id, record);
+    this.persist(table, record.id);
+    return 'remote';
+  }
+
+  // Links travel with the entry row. A new remote value adds its links to the local ones; an unchanged
+  // value edited more recently elsewhere (a link added or removed) replaces them.
+  private adoptRemoteLinks(knowledgeId: string, record: any, merge: boolean) {
+    const local = this.localKnowledge.get(knowledgeId);
+    if (!local || !record.relationships) return;
+    if (!merge && new Date(record.updated_at).getTime() <= new Date(local.updated_at).getTime()) return;
+
+    const remote = normalizeRelationships(record.relationships);
+    const relationships = normalizeRelationships(local.relationships);
+    for (const type of LINKABLE_EDGE_TYPES) {
+      const targets = merge ? [...(relationships[type] || []), ...(remote[type] || [])] : remote[type] || [];
+      if (targets.length > 0) relationships[type] = Array.from(new Set(targets));
+      else delete relationships[type];
+    }
+    if (JSON.stringify(relationships) === JSON.stringify(normalizeRelationships(local.relationships))) return;
+
+    local.relationships = relationships;
+    if (!merge) local.updated_at = record.updated_at;
+    this.persist('knowledge', knowledgeId);
+    this.knowledgeGraph.setNode(knowledgeId, relationships);
   }
 
-  private findRelationships(category: string, key: string, value: any): any {
-    const relationships: any = {};
+  // Pulls remote changes and pushes queued local writes now rather than on the next interval
+  async syncNow(): Promise<SyncReport | null> {
+    await this.ready;
+    return this.syncEngine ? this.syncEngine.sync() : null;
+  }
+
+  getSyncStatus(): SyncStatus | null {
+    return this.syncEngine?.getStatus() || null;
+  }
+
+  // Knowledge Graph Management
+  private updateKnowledgeGraph(category: string, key: string, relationships: KnowledgeRelationships) {
+    this.knowledgeGraph.setNode(`${category}:${key}`, relationships);
+  }
+
+  // Links agents declared carry over to every new version; references are read again from the value
+  private findRelationships(value: any, previous?: KnowledgeRelationships): KnowledgeRelationships {
+    const relationships = normalizeRelationships(previous);
+    delete relationships.references;
     
     // Find semantic relationships based on content
     if (typeof value === 'object' && value !== null) {
-      // Look for references to other knowledge
-      for (const [k, v] of Object.entries(value)) {
-        if (typeof v === 'string' && v.includes('_')) {
-          // Potential reference to another knowledge entry
-          relationships.references = relationships.references || [];
-          relationships.references.push(v);
-        }
+      // String values naming another entry's key, such as 'sensory_processing'
+      const references = Object.values(value).filter((v): v is string => typeof v === 'string' && v.includes('_'));
+      if (references.length > 0) {
+        relationships.references = Array.from(new Set(references));
       }
     }
-
-    // Category-based relationships
-    relationships.category_peers = [category];
     
     return relationships;
   }
 
+  // Declares a typed edge between two entries, e.g. ('curriculum:counting', 'prerequisite_of', 'curriculum:addition')
+  async linkKnowledge(fromId: string, type: KnowledgeEdgeType, toId: string, linkedBy: string): Promise<void> {
+    await this.updateLinks(fromId, type, toId, linkedBy, 'link');
+  }
+
+  async unlinkKnowledge(fromId: string, type: KnowledgeEdgeType, toId: string, unlinkedBy: string): Promise<void> {
+    await this.updateLinks(fromId, type, toId, unlinkedBy, 'unlink');
+  }
+
+  private async updateLinks(fromId: string, type: KnowledgeEdgeType, toId: string, requestedBy: string, action: 'link' | 'unlink') {
+    await this.ready;
+    if (!LINKABLE_EDGE_TYPES.includes(type)) {
+      throw new Error(`Knowledge links must be one of ${LINKABLE_EDGE_TYPES.join(', ')}, not ${type}`);
+    }
+    const entry = this.localKnowledge.get(fromId);
+    for (const id of [fromId, toId]) {
+      if (!this.localKnowledge.has(id)) throw new Error(`Unknown knowledge entry ${id}`);
+    }
+
+    const relationships = normalizeRelationships(entry.relationships);
+    const targets = (relationships[type] || []).filter(target => target !== toId);
+    if (action === 'link') targets.push(toId);
+    if (targets.length > 0) relationships[type] = targets;
+    else delete relationships[type];
+
+    entry.relationships = relationships;
+    entry.updated_at = clock.date().toISOString();
+    this.persist('knowledge', fromId);
+    this.updateKnowledgeGraph(entry.category, entry.key, relationships);
+    await this.syncEngine?.enqueue('knowledge', entry);
+
+    console.log(`🔗 ${requestedBy} ${action === 'link' ? 'linked' : 'unlinked'} ${fromId} ${type} ${toId}`);
+    await this.logKnowledgeAccess(requestedBy, fromId, action, { type, to: toId });
+    this.emitKnowledgeUpdate({ eventType: action.toUpperCase(), from: fromId, type, to: toId });
+  }
+
+  // Entries reachable from `startId` within `maxDepth` hops, nearest first, each with the edges that led there
+  async traverseKnowledge(startId: string, options: KnowledgeTraversalOptions = {}): Promise<(KnowledgeTraversalHit & { entry: any })[]> {
+    await this.ready;
+    return this.knowledgeGraph.traverse(startId, options)
+      .map(hit => ({ ...hit, entry: this.localKnowledge.get(hit.id) }));
+  }
+
+  // The fewest links between two entries, with a sentence per link: why one leads to the other
+  async explainKnowledgePath(fromId: string, toId: string, options: KnowledgeTraversalOptions = {}): Promise<KnowledgePath | null> {
+    await this.ready;
+    return this.knowledgeGraph.shortestPath(fromId, toId, options);
+  }
+
+  async getKnowledgeGraph(filter: { category?: string; types?: KnowledgeEdgeType[] } = {}): Promise<KnowledgeGraphSnapshot> {
+    await this.ready;
+    return this.knowledgeGraph.snapshot(filter);
+  }
+
   // Utility Methods
   private extractTags(value: any): string[] {
     const tags: string[] = [];
@@ -582,6 +830,7 @@ export class AgentricAIKnowledgeDatabase {
 
   private async logKnowledgeAccess(agentId: string, knowledgeKey: string, accessType: string, context: any = {}) {
     const logEntry = {
+      id: crypto.randomUUID(),
       agent_id: agentId,
       knowledge_key: knowledgeKey,
       access_type: accessType,
@@ -589,11 +838,14 @@ export class AgentricAIKnowledgeDatabase {
       context
     };
 
-    this.accessLog.push(logEntry);
-    
-    // Keep only last 1000 entries in memory
-    if (this.accessLog.length > 1000) {
-      this.accessLog = this.accessLog.slice(-1000);
+    this.accessLog.set(logEntry.id, logEntry);
+    this.persist('access_log', logEntry.id);
+
+    // Keep only the most recent entries, here and in storage
+    for (const id of this.accessLog.keys()) {
+      if (this.accessLog.size <= this.maxAccessLog) break;
+      this.accessLog.delete(id);
+      this.persist('access_log', id);
     }
 
     if (this.supabase) {
@@ -631,13 +883,58 @@ export class AgentricAIKnowledgeDatabase {
     }
   }
 
-  private saveToLocalStorage() {
-    const data = {
-      knowledge: Array.from(this.localKnowledge.entries()),
-      memories: Array.from(this.agentMemories.entries()),
-      patterns: Array.from(this.learningPatterns.entries())
-    };
-    localStorage.setItem('agentricai_knowledge_base', JSON.stringify(data));
+  // Local persistence: changed records are collected and written in one batch once the
+  // current burst of work yields, so a write never waits on storage
+  private persist(store: KnowledgeStoreName, id: string) {
+    if (this.pendingWrites.size === 0) {
+      queueMicrotask(() => this.flushStorage());
+    }
+    this.pendingWrites.add(`${store}/${id}`);
+  }
+
+  private persistKnowledge(knowledgeId: string) {
+    this.persist('knowledge', knowledgeId);
+    this.persist('versions', knowledgeId);
+    this.persist('meta', VERSION_STATE_ID);
+  }
+
+  // Writes whatever is pending; resolves once everything queued so far is stored
+  async flushStorage(): Promise<void> {
+    const pending = Array.from(this.pendingWrites);
+    this.pendingWrites.clear();
+
+    const operations = pending.map(pendingWrite => {
+      const separator = pendingWrite.indexOf('/');
+      const store = pendingWrite.slice(0, separator) as KnowledgeStoreName;
+      const id = pendingWrite.slice(separator + 1);
+      const value = this.recordFor(store, id);
+      this.trackStorageBytes(store, id, value);
+      return value ? { type: 'put' as const, store, value } : { type: 'delete' as const, store, id };
+    });
+
+    this.flushQueue = this.flushQueue
+      .then(() => operations.length > 0 ? this.storage.batch(operations) : undefined)
+      .catch(error => console.warn(`💾 Knowledge storage (${this.storage.name}) write failed:`, error));
+    return this.flushQueue;
+  }
+
+  private recordFor(store: KnowledgeStoreName, id: string): any {
+    switch (store) {
+      case 'knowledge':
+        return this.localKnowledge.get(id);
+      case 'memories':
+        return this.agentMemories.get(id);
+      case 'patterns':
+        return this.learningPatterns.get(id);
+      case 'versions': {
+        const versions = this.versionStore.getHistory(id);
+        return versions.length > 0 ? { id, versions } : undefined;
+      }
+      case 'meta':
+        return id === VERSION_STATE_ID ? { id, ...this.versionStore.stateSnapshot() } : undefined;
+      case 'access_log':
+        return this.accessLog.get(id);
+    }
   }
 
   private emitKnowledgeUpdate(payload: any) {
@@ -649,37 +946,82 @@ export class AgentricAIKnowledgeDatabase {
   }
 
   // Public API for Agents
+  // The local working copy of every entry, or one category's; sync keeps it current with Supabase
+  async listKnowledge(category?: string): Promise<any[]> {
+    await this.ready;
+    return Array.from(this.localKnowledge.values())
+      .filter(entry => !category || entry.category === category);
+  }
+
+  // The most recent accesses by every agent, oldest first, including earlier sessions on this device.
+  // Supabase keeps the full log, but it is write-only for the app.
+  async getAccessLog(filter: { agentId?: string; accessType?: string; since?: Date } = {}): Promise<any[]> {
+    await this.ready;
+    return Array.from(this.accessLog.values()).filter(access =>
+      (!filter.agentId || access.agent_id === filter.agentId) &&
+      (!filter.accessType || access.access_type === filter.accessType) &&
+      (!filter.since || new Date(access.timestamp) >= filter.since)
+    );
+  }
+
   async getKnowledgeStats(): Promise<any> {
+    await this.ready;
     return {
       total_entries: this.localKnowledge.size,
       categories: new Set(Array.from(this.localKnowledge.keys()).map(k => k.split(':')[0])).size,
       agent_memories: this.agentMemories.size,
       learning_patterns: this.learningPatterns.size,
-      recent_accesses: this.accessLog.slice(-10),
-      knowledge_graph_nodes: this.knowledgeGraph.size
+      recent_accesses: Array.from(this.accessLog.values()).slice(-10),
+      knowledge_graph_nodes: this.knowledgeGraph.nodeCount,
+      knowledge_graph_edges: this.knowledgeGraph.edgeCount,
+      storage_backend: this.storage.name,
+      sync: this.getSyncStatus(),
+      search_index: {
+        entries: this.searchIndex.size,
+        embedding_provider: this.searchIndex.getProvider().name,
+        dimensions: this.searchIndex.getProvider().dimensions
+      }
     };
   }
 
-  async getRelatedKnowledge(category: string, key: string): Promise<any[]> {
-    const nodeId = `${category}:${key}`;
-    const related: any[] = [];
-    
-    const relationships = this.knowledgeGraph.get(nodeId);
-    if (relationships) {
-      for (const rel of relationships) {
-        const [relType, target] = rel.split(':', 2);
-        const knowledge = await this.retrieveKnowledge('core', target);
-        if (knowledge) {
-          related.push({ type: relType, target, knowledge });
-        }
-      }
+  // Bytes of knowledge an agent has stored and memories kept for it, as serialized JSON. Sync pulls
+  // other devices' rows into local storage, so the running totals cover them without asking Supabase.
+  async getAgentStorageBytes(agentId: string): Promise<number> {
+    await this.ready;
+    return this.agentStorageBytes.get(agentId) || 0;
+  }
+
+  // Updated as records are written, replacing whatever the record's previous version counted
+  private trackStorageBytes(store: KnowledgeStoreName, id: string, value: any) {
+    if (store !== 'knowledge' && store !== 'memories') return;
+
+    const key = `${store}/${id}`;
+    const previous = this.recordBytes.get(key);
+    if (previous) {
+      this.agentStorageBytes.set(previous.agentId, (this.agentStorageBytes.get(previous.agentId) || 0) - previous.bytes);
+      this.recordBytes.delete(key);
     }
 
-    return related;
+    const agentId = store === 'knowledge' ? value?.source_agent : value?.agent_id;
+    if (!agentId) return;
+
+    const bytes = new TextEncoder().encode(JSON.stringify(value)).length;
+    this.recordBytes.set(key, { agentId, bytes });
+    this.agentStorageBytes.set(agentId, (this.agentStorageBytes.get(agentId) || 0) + bytes);
+  }
+
+  // One hop along outgoing links
+  async getRelatedKnowledge(category: string, key: string): Promise<any[]> {
+    const hits = await this.traverseKnowledge(`${category}:${key}`, { maxDepth: 1 });
+    return hits
+      .filter(hit => hit.entry)
+      .map(hit => ({ type: hit.path[0].type, target: hit.id, knowledge: hit.entry.value }));
   }
 
   // Cleanup
   destroy() {
+    this.syncEngine?.stop();
+    this.flushStorage();
     for (const [name, subscription] of this.realTimeSubscriptions.entries()) {
       subscription.unsubscribe();
     }
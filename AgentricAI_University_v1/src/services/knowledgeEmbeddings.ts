@@ -0,0 +1,112 @@
+// Knowledge Embeddings - Pluggable text embeddings for semantic knowledge search
+// The default provider works offline: words and their character n-grams are hashed into a fixed
+// number of dimensions, so near-spellings, plurals and shared word parts land close together
+// without a model or a fitted vocabulary. A hosted embedding model can be plugged in instead.
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly dimensions: number;
+  // One unit-length vector per text, in the same order
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface HashedNgramEmbeddingOptions {
+  dimensions?: number;
+  ngramSize?: number;
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'to', 'was', 'with'
+]);
+
+export class HashedNgramEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hashed-ngram';
+  readonly dimensions: number;
+  private ngramSize: number;
+
+  constructor(options: HashedNgramEmbeddingOptions = {}) {
+    this.dimensions = options.dimensions ?? 512;
+    this.ngramSize = options.ngramSize ?? 3;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  embedText(text: string): number[] {
+    const vector = new Array(this.dimensions).fill(0);
+
+    for (const word of tokenize(text)) {
+      this.addFeature(vector, `w:${word}`, 1);
+
+      // Word boundaries mark prefixes and suffixes, so "sensory" and "sensor" share "#se" and "sen"
+      const padded = `#${word}#`;
+      for (let i = 0; i + this.ngramSize <= padded.length; i++) {
+        this.addFeature(vector, `g:${padded.slice(i, i + this.ngramSize)}`, 0.5);
+      }
+    }
+
+    return normalize(vector);
+  }
+
+  // Signed feature hashing keeps collisions from only ever adding up
+  private addFeature(vector: number[], feature: string, weight: number) {
+    const hash = fnv1a(feature);
+    vector[hash % this.dimensions] += hash & 0x80000000 ? -weight : weight;
+  }
+}
+
+// Lowercased words, split on anything that is not a letter or digit (so snake_case keys split too)
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length > 1 && !STOPWORDS.has(word));
+}
+
+// The searchable text of a knowledge entry: its category, key, and every key and value inside it
+export function knowledgeText(entry: { category?: string; key?: string; value?: any }): string {
+  const parts: string[] = [entry.category || '', entry.key || ''];
+
+  const collect = (value: any) => {
+    if (value === null || value === undefined) return;
+    if (typeof value === 'object') {
+      for (const [key, nested] of Object.entries(value)) {
+        if (!Array.isArray(value)) parts.push(key);
+        collect(nested);
+      }
+    } else {
+      parts.push(String(value));
+    }
+  };
+  collect(entry.value);
+
+  return parts.join(' ');
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { KnowledgeGraph, normalizeRelationships } from './knowledgeGraph';
+
+function curriculumGraph() {
+  const graph = new KnowledgeGraph();
+  graph.setNode('curriculum:counting', { prerequisite_of: ['curriculum:addition'] });
+  graph.setNode('curriculum:addition', { prerequisite_of: ['curriculum:multiplication'] });
+  graph.setNode('curriculum:multiplication', {});
+  graph.setNode('strategies:skip_counting', { derived_from: ['curriculum:counting'], references: ['multiplication'] });
+  graph.setNode('strategies:rote_drills', { contradicts: ['strategies:skip_counting'] });
+  return graph;
+}
+
+describe('KnowledgeGraph', () => {
+  it('walks typed edges to a depth limit, nearest first', () => {
+    const graph = curriculumGraph();
+
+    const oneHop = graph.traverse('curriculum:counting', { maxDepth: 1 });
+    expect(oneHop.map(hit => hit.id)).toEqual(['curriculum:addition']);
+
+    const twoHops = graph.traverse('curriculum:counting', { maxDepth: 2, types: ['prerequisite_of'] });
+    expect(twoHops.map(hit => [hit.id, hit.depth])).toEqual([
+      ['curriculum:addition', 1],
+      ['curriculum:multiplication', 2]
+    ]);
+
+    // Walking backwards finds what was built on counting
+    const dependants = graph.traverse('curriculum:counting', { direction: 'in' });
+    expect(dependants.map(hit => hit.id)).toEqual(['strategies:skip_counting', 'strategies:rote_drills']);
+  });
+
+  it('explains the shortest path between two entries', () => {
+    const graph = curriculumGraph();
+
+    const path = graph.shortestPath('strategies:rote_drills', 'curriculum:multiplication');
+    // The bare `multiplication` reference resolves, so the path goes through it rather than via counting
+    expect(path?.nodes).toEqual(['strategies:rote_drills', 'strategies:skip_counting', 'curriculum:multiplication']);
+    expect(path?.explanation).toEqual([
+      'rote drills contradicts skip counting',
+      'skip counting references multiplication'
+    ]);
+
+    expect(graph.shortestPath('strategies:rote_drills', 'curriculum:multiplication', { types: ['contradicts'] })).toBeNull();
+  });
+
+  it('drops edges to removed entries and unknown relationship types', () => {
+    const graph = curriculumGraph();
+    graph.removeNode('curriculum:addition');
+
+    expect(graph.getEdges('curriculum:counting')).toEqual([
+      { from: 'strategies:skip_counting', to: 'curriculum:counting', type: 'derived_from' }
+    ]);
+    expect(normalizeRelationships({ category_peers: ['x'], contradicts: ['a', 'a'] } as any)).toEqual({ contradicts: ['a'] });
+  });
+});
@@ -0,0 +1,257 @@
+// Knowledge Graph - Typed relationships between knowledge entries, with traversal and path explanations
+// Nodes are knowledge ids (`category:key`); each entry's `relationships` field lists its outgoing edges by
+// type. Agents set `prerequisite_of`, `contradicts` and `derived_from`. `references` is inferred from
+// string values that name another entry, so a target may be a bare key and is resolved when queried.
+
+export type KnowledgeEdgeType = 'prerequisite_of' | 'contradicts' | 'derived_from' | 'references';
+
+export const KNOWLEDGE_EDGE_TYPES: KnowledgeEdgeType[] = ['prerequisite_of', 'contradicts', 'derived_from', 'references'];
+
+// The edge types agents declare; the rest are inferred from values
+export const LINKABLE_EDGE_TYPES: KnowledgeEdgeType[] = ['prerequisite_of', 'contradicts', 'derived_from'];
+
+export type KnowledgeRelationships = Partial<Record<KnowledgeEdgeType, string[]>>;
+
+export type KnowledgeTraversalDirection = 'out' | 'in' | 'both';
+
+// Traversals never go deeper than this, whatever the caller asks for
+export const MAX_TRAVERSAL_DEPTH = 6;
+
+export interface KnowledgeEdge {
+  from: string;
+  to: string;
+  type: KnowledgeEdgeType;
+}
+
+export interface KnowledgeGraphNode {
+  id: string;
+  category: string;
+  key: string;
+}
+
+export interface KnowledgeTraversalOptions {
+  maxDepth?: number;
+  types?: KnowledgeEdgeType[];
+  direction?: KnowledgeTraversalDirection;
+  limit?: number;
+}
+
+export interface KnowledgeTraversalHit {
+  id: string;
+  depth: number;
+  // Edges from the start node to this one, in the order they were walked
+  path: KnowledgeEdge[];
+}
+
+export interface KnowledgePath {
+  from: string;
+  to: string;
+  nodes: string[];
+  edges: KnowledgeEdge[];
+  // One sentence per edge, e.g. "sensory processing is a prerequisite of visual supports"
+  explanation: string[];
+}
+
+export interface KnowledgeGraphSnapshot {
+  nodes: KnowledgeGraphNode[];
+  edges: KnowledgeEdge[];
+}
+
+const EDGE_PHRASES: Record<KnowledgeEdgeType, string> = {
+  prerequisite_of: 'is a prerequisite of',
+  contradicts: 'contradicts',
+  derived_from: 'is derived from',
+  references: 'references'
+};
+
+export class KnowledgeGraph {
+  private nodes: Map<string, KnowledgeGraphNode> = new Map();
+  private outgoing: Map<string, { type: KnowledgeEdgeType; target: string }[]> = new Map();
+  private idsByKey: Map<string, Set<string>> = new Map();
+
+  get nodeCount(): number {
+    return this.nodes.size;
+  }
+
+  get edgeCount(): number {
+    return this.edges().length;
+  }
+
+  has(id: string): boolean {
+    return this.nodes.has(id);
+  }
+
+  // Adds the node, or replaces its outgoing edges when it is already there
+  setNode(id: string, relationships?: KnowledgeRelationships | null) {
+    if (!this.nodes.has(id)) {
+      const separator = id.indexOf(':');
+      const node = { id, category: id.slice(0, separator), key: id.slice(separator + 1) };
+      this.nodes.set(id, node);
+      this.idsByKey.set(node.key, new Set([...(this.idsByKey.get(node.key) || []), id]));
+    }
+
+    const normalized = normalizeRelationships(relationships);
+    this.outgoing.set(id, KNOWLEDGE_EDGE_TYPES.flatMap(type =>
+      (normalized[type] || []).map(target => ({ type, target }))
+    ));
+  }
+
+  removeNode(id: string) {
+    const node = this.nodes.get(id);
+    if (!node) return;
+
+    this.nodes.delete(id);
+    this.outgoing.delete(id);
+    this.idsByKey.get(node.key)?.delete(id);
+  }
+
+  // Edges touching a node whose other end is in the graph
+  getEdges(id: string, direction: KnowledgeTraversalDirection = 'both', types?: KnowledgeEdgeType[]): KnowledgeEdge[] {
+    return this.steps(id, direction, types, this.incomingEdges(direction)).map(step => step.edge);
+  }
+
+  // Breadth-first from `start`; each reachable node appears once, at its shallowest depth
+  traverse(start: string, options: KnowledgeTraversalOptions = {}): KnowledgeTraversalHit[] {
+    const { limit = 100 } = options;
+    const hits: KnowledgeTraversalHit[] = [];
+
+    this.search(start, options, hit => {
+      hits.push(hit);
+      return hits.length >= limit;
+    });
+    return hits;
+  }
+
+  // Fewest hops from one entry to another. Edges are walked in both directions by default,
+  // since "B depends on A" explains a link from A to B as well as one from B to A.
+  shortestPath(from: string, to: string, options: KnowledgeTraversalOptions = {}): KnowledgePath | null {
+    if (!this.nodes.has(from) || !this.nodes.has(to)) return null;
+    if (from === to) return { from, to, nodes: [from], edges: [], explanation: [] };
+
+    let found: KnowledgeTraversalHit | null = null;
+    this.search(from, { direction: 'both', maxDepth: MAX_TRAVERSAL_DEPTH, ...options }, hit => {
+      if (hit.id === to) found = hit;
+      return found !== null;
+    });
+    if (!found) return null;
+
+    const { path } = found as KnowledgeTraversalHit;
+    const nodes = [from];
+    for (const edge of path) {
+      nodes.push(edge.from === nodes[nodes.length - 1] ? edge.to : edge.from);
+    }
+    return { from, to, nodes, edges: path, explanation: path.map(edge => this.describe(edge)) };
+  }
+
+  describe(edge: KnowledgeEdge): string {
+    return `${this.label(edge.from)} ${EDGE_PHRASES[edge.type]} ${this.label(edge.to)}`;
+  }
+
+  snapshot(filter: { category?: string; types?: KnowledgeEdgeType[] } = {}): KnowledgeGraphSnapshot {
+    const nodes = Array.from(this.nodes.values())
+      .filter(node => !filter.category || node.category === filter.category);
+    const included = new Set(nodes.map(node => node.id));
+    const edges = this.edges(filter.types).filter(edge => included.has(edge.from) && included.has(edge.to));
+    return { nodes, edges };
+  }
+
+  private search(start: string, options: KnowledgeTraversalOptions, visit: (hit: KnowledgeTraversalHit) => boolean) {
+    if (!this.nodes.has(start)) return;
+
+    const { types, direction = 'out' } = options;
+    const maxDepth = Math.min(Math.max(options.maxDepth ?? 2, 0), MAX_TRAVERSAL_DEPTH);
+    const incoming = this.incomingEdges(direction);
+    const seen = new Set([start]);
+    let frontier: KnowledgeTraversalHit[] = [{ id: start, depth: 0, path: [] }];
+
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+      const next: KnowledgeTraversalHit[] = [];
+      for (const current of frontier) {
+        for (const { edge, neighbour } of this.steps(current.id, direction, types, incoming)) {
+          if (seen.has(neighbour)) continue;
+          seen.add(neighbour);
+
+          const hit = { id: neighbour, depth, path: [...current.path, edge] };
+          if (visit(hit)) return;
+          next.push(hit);
+        }
+      }
+      frontier = next;
+    }
+  }
+
+  private steps(
+    id: string,
+    direction: KnowledgeTraversalDirection,
+    types: KnowledgeEdgeType[] | undefined,
+    incoming: Map<string, KnowledgeEdge[]> | null
+  ): { edge: KnowledgeEdge; neighbour: string }[] {
+    const allowed = (edge: KnowledgeEdge) => !types || types.includes(edge.type);
+    const steps: { edge: KnowledgeEdge; neighbour: string }[] = [];
+
+    if (direction !== 'in') {
+      for (const edge of this.resolvedEdges(id)) {
+        if (allowed(edge)) steps.push({ edge, neighbour: edge.to });
+      }
+    }
+    if (incoming) {
+      for (const edge of incoming.get(id) || []) {
+        if (allowed(edge)) steps.push({ edge, neighbour: edge.from });
+      }
+    }
+    return steps;
+  }
+
+  // Reverse adjacency, built once per query when it walks edges backwards
+  private incomingEdges(direction: KnowledgeTraversalDirection): Map<string, KnowledgeEdge[]> | null {
+    if (direction === 'out') return null;
+
+    const incoming = new Map<string, KnowledgeEdge[]>();
+    for (const edge of this.edges()) {
+      incoming.set(edge.to, [...(incoming.get(edge.to) || []), edge]);
+    }
+    return incoming;
+  }
+
+  private edges(types?: KnowledgeEdgeType[]): KnowledgeEdge[] {
+    return Array.from(this.nodes.keys())
+      .flatMap(id => this.resolvedEdges(id))
+      .filter(edge => !types || types.includes(edge.type));
+  }
+
+  private resolvedEdges(id: string): KnowledgeEdge[] {
+    const edges: KnowledgeEdge[] = [];
+    for (const { type, target } of this.outgoing.get(id) || []) {
+      const to = this.resolve(target);
+      if (to && to !== id) edges.push({ from: id, to, type });
+    }
+    return edges;
+  }
+
+  // A full id, or a bare key that names exactly one entry
+  private resolve(target: string): string | undefined {
+    if (this.nodes.has(target)) return target;
+    const ids = this.idsByKey.get(target);
+    return ids && ids.size === 1 ? ids.values().next().value : undefined;
+  }
+
+  private label(id: string): string {
+    return (this.nodes.get(id)?.key || id).replace(/_/g, ' ');
+  }
+}
+
+// Known edge types only, each a list of distinct string targets. Drops anything else stored in
+// `relationships`, such as the old `category_peers` lists.
+export function normalizeRelationships(relationships?: KnowledgeRelationships | null): KnowledgeRelationships {
+  const normalized: KnowledgeRelationships = {};
+  if (!relationships || typeof relationships !== 'object') return normalized;
+
+  for (const type of KNOWLEDGE_EDGE_TYPES) {
+    const targets = relationships[type];
+    if (Array.isArray(targets)) {
+      const strings = Array.from(new Set(targets.filter(target => typeof target === 'string')));
+      if (strings.length > 0) normalized[type] = strings;
+    }
+  }
+  return normalized;
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { HashedNgramEmbeddingProvider } from './knowledgeEmbeddings';
+import { KnowledgeSearchIndex, RandomProjectionIndex } from './knowledgeSearch';
+import { SeededRandom } from '../agents/simulation/SeededRandom';
+
+const entries = [
+  {
+    category: 'neurodiverse_learning',
+    key: 'sensory_processing',
+    value: { visual_preferences: { high_contrast: true }, auditory_preferences: { background_noise: false } },
+    confidence_score: 1
+  },
+  {
+    category: 'neurodiverse_learning',
+    key: 'communication_styles',
+    value: { direct_language: true, visual_supports: true, processing_time: 'extended' },
+    confidence_score: 0.9
+  },
+  {
+    category: 'university_curriculum',
+    key: 'progress_tracking',
+    value: { metrics: ['engagement', 'completion', 'retention'], reporting: 'real_time' },
+    confidence_score: 1
+  }
+];
+
+describe('KnowledgeSearchIndex', () => {
+  it('ranks exact keywords first and still finds related wording', async () => {
+    const index = new KnowledgeSearchIndex();
+    await index.upsertAll(entries);
+
+    const exact = await index.search('sensory processing');
+    expect(exact[0].entry.key).toBe('sensory_processing');
+    expect(exact[0].scores.keyword).toBe(1);
+
+    // Neither word appears in any entry, but their n-grams overlap with "visual" and "contrast"
+    const related = await index.search('contrasting visuals');
+    expect(related[0].entry.key).toBe('sensory_processing');
+    expect(related[0].scores).toMatchObject({ keyword: 0 });
+    expect(related[0].scores.vector).toBeGreaterThan(0.2);
+
+    const tracked = await index.search('tracking retention metrics');
+    expect(tracked[0].entry.key).toBe('progress_tracking');
+  });
+
+  it('replaces entries on upsert and re-embeds when the provider changes', async () => {
+    const index = new KnowledgeSearchIndex();
+    await index.upsertAll(entries);
+    await index.upsert({ ...entries[2], value: { metrics: ['attendance'] } });
+    expect(index.size).toBe(3);
+    expect((await index.search('retention')).map(hit => hit.entry.key)).not.toContain('progress_tracking');
+
+    await index.setProvider(new HashedNgramEmbeddingProvider({ dimensions: 64 }));
+    expect((await index.search('attendance'))[0].entry.key).toBe('progress_tracking');
+  });
+});
+
+describe('RandomProjectionIndex', () => {
+  it('finds the same nearest neighbours as an exhaustive search', () => {
+    const random = new SeededRandom(7);
+    const vector = () => Array.from({ length: 32 }, () => random.next() * 2 - 1);
+    const approximate = new RandomProjectionIndex(32, { exactSearchBelow: 0 });
+    const exact = new RandomProjectionIndex(32);
+
+    for (let i = 0; i < 200; i++) {
+      const v = vector();
+      approximate.add(`v${i}`, v);
+      exact.add(`v${i}`, v);
+    }
+
+    // A query close to a stored vector must find it through the hash buckets
+    const query = approximate.get('v42')!.map(value => value + (random.next() - 0.5) * 0.1);
+    expect(approximate.search(query, 1)[0].id).toBe('v42');
+    expect(approximate.search(query, 1)).toEqual(exact.search(query, 1));
+
+    approximate.remove('v42');
+    expect(approximate.search(query, 5).map(hit => hit.id)).not.toContain('v42');
+  });
+});
@@ -0,0 +1,265 @@
+// Knowledge Search - Hybrid keyword and vector ranking over knowledge entries
+// Entries are embedded with a pluggable EmbeddingProvider and kept in an in-memory approximate
+// nearest-neighbour index (random-projection LSH). A search merges the nearest vectors with keyword
+// matches and ranks them by a weighted blend of both scores, so exact terms still count while
+// related wording is found too.
+
+import { SeededRandom } from '../agents/simulation/SeededRandom';
+import { cosineSimilarity, EmbeddingProvider, HashedNgramEmbeddingProvider, knowledgeText, tokenize } from './knowledgeEmbeddings';
+
+export interface VectorSearchHit {
+  id: string;
+  score: number;
+}
+
+export interface RandomProjectionIndexOptions {
+  tables?: number;
+  bitsPerTable?: number;
+  seed?: number;
+  // Collections this small are searched exhaustively; hashing only pays off above it
+  exactSearchBelow?: number;
+}
+
+// Each table hashes a vector to the sign pattern of its dot products with random hyperplanes.
+// Similar vectors tend to share a bucket in at least one table; neighbouring buckets (one bit
+// flipped) are probed too, and the candidates are re-ranked by exact cosine similarity.
+export class RandomProjectionIndex {
+  private vectors: Map<string, number[]> = new Map();
+  private planes: number[][][] = [];
+  private buckets: Map<number, Set<string>>[] = [];
+  private exactSearchBelow: number;
+
+  constructor(readonly dimensions: number, options: RandomProjectionIndexOptions = {}) {
+    const tables = options.tables ?? 6;
+    const bits = Math.min(options.bitsPerTable ?? 10, 30);
+    this.exactSearchBelow = options.exactSearchBelow ?? 256;
+
+    // Seeded so the same entries land in the same buckets on every load
+    const random = new SeededRandom(options.seed ?? 1);
+    for (let table = 0; table < tables; table++) {
+      this.planes.push(Array.from({ length: bits }, () =>
+        Array.from({ length: dimensions }, () => random.next() * 2 - 1)
+      ));
+      this.buckets.push(new Map());
+    }
+  }
+
+  get size(): number {
+    return this.vectors.size;
+  }
+
+  has(id: string): boolean {
+    return this.vectors.has(id);
+  }
+
+  get(id: string): number[] | undefined {
+    return this.vectors.get(id);
+  }
+
+  add(id: string, vector: number[]): void {
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Vector for ${id} has ${vector.length} dimensions, index expects ${this.dimensions}`);
+    }
+    this.remove(id);
+    this.vectors.set(id, vector);
+    this.planes.forEach((planes, table) => {
+      const signature = this.signature(planes, vector);
+      const bucket = this.buckets[table].get(signature) || new Set();
+      bucket.add(id);
+      this.buckets[table].set(signature, bucket);
+    });
+  }
+
+  remove(id: string): void {
+    const vector = this.vectors.get(id);
+    if (!vector) return;
+
+    this.planes.forEach((planes, table) => {
+      const signature = this.signature(planes, vector);
+      const bucket = this.buckets[table].get(signature);
+      bucket?.delete(id);
+      if (bucket?.size === 0) this.buckets[table].delete(signature);
+    });
+    this.vectors.delete(id);
+  }
+
+  clear(): void {
+    this.vectors.clear();
+    this.buckets.forEach(bucket => bucket.clear());
+  }
+
+  search(vector: number[], limit: number): VectorSearchHit[] {
+    const candidates = this.vectors.size < this.exactSearchBelow
+      ? this.vectors.keys()
+      : this.candidates(vector);
+
+    const hits: VectorSearchHit[] = [];
+    for (const id of candidates) {
+      hits.push({ id, score: cosineSimilarity(vector, this.vectors.get(id)!) });
+    }
+    return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  private candidates(vector: number[]): Set<string> {
+    const found = new Set<string>();
+    this.planes.forEach((planes, table) => {
+      const signature = this.signature(planes, vector);
+      const probes = [signature, ...planes.map((_, bit) => signature ^ (1 << bit))];
+      for (const probe of probes) {
+        this.buckets[table].get(probe)?.forEach(id => found.add(id));
+      }
+    });
+    return found;
+  }
+
+  private signature(planes: number[][], vector: number[]): number {
+    let signature = 0;
+    planes.forEach((plane, bit) => {
+      let dot = 0;
+      for (let i = 0; i < plane.length; i++) dot += plane[i] * vector[i];
+      if (dot >= 0) signature |= 1 << bit;
+    });
+    return signature;
+  }
+}
+
+export interface KnowledgeSearchScores {
+  keyword: number;
+  vector: number;
+  combined: number;
+}
+
+export interface KnowledgeSearchHit {
+  entry: any;
+  scores: KnowledgeSearchScores;
+}
+
+export interface KnowledgeSearchOptions {
+  limit?: number;
+  // Weight of the vector score in the blend; the keyword score gets the rest
+  vectorWeight?: number;
+  // Hits scoring below this are left out
+  minScore?: number;
+}
+
+interface IndexedEntry {
+  entry: any;
+  text: string;
+  tokens: Set<string>;
+}
+
+export class KnowledgeSearchIndex {
+  private provider: EmbeddingProvider;
+  private vectors: RandomProjectionIndex;
+  private entries: Map<string, IndexedEntry> = new Map();
+
+  constructor(provider: EmbeddingProvider = new HashedNgramEmbeddingProvider()) {
+    this.provider = provider;
+    this.vectors = new RandomProjectionIndex(provider.dimensions);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  getProvider(): EmbeddingProvider {
+    return this.provider;
+  }
+
+  // Switching providers re-embeds everything already indexed
+  async setProvider(provider: EmbeddingProvider): Promise<void> {
+    this.provider = provider;
+    this.vectors = new RandomProjectionIndex(provider.dimensions);
+
+    const indexed = Array.from(this.entries.entries());
+    const embeddings = await provider.embed(indexed.map(([, item]) => item.text));
+    indexed.forEach(([id], index) => this.vectors.add(id, embeddings[index]));
+  }
+
+  async upsert(entry: any): Promise<void> {
+    await this.upsertAll([entry]);
+  }
+
+  async upsertAll(entries: any[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    const texts = entries.map(entry => knowledgeText(entry));
+    const embeddings = await this.provider.embed(texts);
+    entries.forEach((entry, index) => {
+      const id = entryId(entry);
+      this.entries.set(id, { entry, text: texts[index], tokens: new Set(tokenize(texts[index])) });
+      this.vectors.add(id, embeddings[index]);
+    });
+  }
+
+  remove(entry: any): void {
+    const id = entryId(entry);
+    this.entries.delete(id);
+    this.vectors.remove(id);
+  }
+
+  async search(query: string, options: KnowledgeSearchOptions = {}): Promise<KnowledgeSearchHit[]> {
+    const limit = options.limit ?? 10;
+    const vectorWeight = options.vectorWeight ?? 0.6;
+    const minScore = options.minScore ?? 0.05;
+    const queryTokens = tokenize(query);
+    if (queryTokens.length === 0 || this.entries.size === 0) return [];
+
+    const [queryVector] = await this.provider.embed([query]);
+    const vectorScores = new Map(
+      this.vectors.search(queryVector, limit * 4).map(hit => [hit.id, Math.max(0, hit.score)] as [string, number])
+    );
+
+    // Keyword matches join the vector neighbours as candidates
+    const candidates = new Set(vectorScores.keys());
+    const keywordScores = new Map<string, number>();
+    for (const [id, item] of this.entries.entries()) {
+      const score = keywordScore(queryTokens, item.tokens);
+      if (score > 0) {
+        keywordScores.set(id, score);
+        candidates.add(id);
+      }
+    }
+
+    const hits: KnowledgeSearchHit[] = [];
+    for (const id of candidates) {
+      const item = this.entries.get(id);
+      if (!item) continue;
+
+      const keyword = keywordScores.get(id) || 0;
+      const vector = vectorScores.get(id) ?? Math.max(0, cosineSimilarity(queryVector, this.vectors.get(id)!));
+      const combined = vectorWeight * vector + (1 - vectorWeight) * keyword;
+      if (combined >= minScore) {
+        hits.push({ entry: item.entry, scores: { keyword: round(keyword), vector: round(vector), combined: round(combined) } });
+      }
+    }
+
+    return hits
+      .sort((a, b) => b.scores.combined - a.scores.combined || (b.entry.confidence_score || 0) - (a.entry.confidence_score || 0))
+      .slice(0, limit);
+  }
+}
+
+// Share of query words found in the entry; a word that only starts an entry word counts half
+export function keywordScore(queryTokens: string[], entryTokens: Set<string>): number {
+  if (queryTokens.length === 0) return 0;
+
+  let matched = 0;
+  for (const token of queryTokens) {
+    if (entryTokens.has(token)) {
+      matched += 1;
+    } else if (token.length >= 3 && Array.from(entryTokens).some(entryToken => entryToken.startsWith(token))) {
+      matched += 0.5;
+    }
+  }
+  return matched / queryTokens.length;
+}
+
+// Supabase rows carry a uuid id, local entries `category:key`; index both under the latter
+function entryId(entry: any): string {
+  return `${entry.category}:${entry.key}`;
+}
+
+function round(score: number): number {
+  return Math.round(score * 1000) / 1000;
+}
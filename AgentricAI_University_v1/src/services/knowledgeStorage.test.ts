@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  LEGACY_KNOWLEDGE_KEY,
+  LocalStorageKnowledgeStorageAdapter,
+  MemoryKnowledgeStorageAdapter,
+  migrateLegacyKnowledgeBase,
+  VERSION_STATE_ID
+} from './knowledgeStorage';
+
+const legacySnapshot = {
+  knowledge: [
+    ['core:sensory_processing', { id: 'core:sensory_processing', category: 'core', key: 'sensory_processing', value: { noise: 'avoid' }, source_agent: 'sensory-optimizer' }],
+    ['core:routines', { id: 'core:routines', category: 'core', key: 'routines', value: 'critical', source_agent: 'system-init' }]
+  ],
+  memories: [['tutor:note:1', { id: 'tutor:note:1', agent_id: 'tutor', memory_type: 'note', memory_data: {} }]],
+  patterns: [['student-1:pace:1', { id: 'student-1:pace:1', user_id: 'student-1', pattern_type: 'pace' }]],
+  versions: {
+    versions: [
+      { knowledge_id: 'core:sensory_processing', version: 1, value: { noise: 'tolerates' }, status: 'accepted' },
+      { knowledge_id: 'core:sensory_processing', version: 2, value: { noise: 'avoid' }, status: 'accepted' }
+    ],
+    current: [['core:sensory_processing', 2]],
+    conflicts: [],
+    policies: [],
+    defaultPolicy: 'highest_confidence'
+  }
+};
+
+describe('knowledge storage', () => {
+  afterEach(() => {
+    localStorage.clear();
+    vi.restoreAllMocks();
+  });
+
+  it('migrates the single-key snapshot into one record per entry and removes the old key', async () => {
+    localStorage.setItem(LEGACY_KNOWLEDGE_KEY, JSON.stringify(legacySnapshot));
+    const adapter = new LocalStorageKnowledgeStorageAdapter();
+
+    expect(await migrateLegacyKnowledgeBase(adapter)).toBe(6);
+    expect(localStorage.getItem(LEGACY_KNOWLEDGE_KEY)).toBeNull();
+    expect(localStorage.getItem('agentricai_knowledge:knowledge:core:routines')).not.toBeNull();
+
+    const contents = await adapter.loadAll();
+    expect(contents.knowledge).toHaveLength(2);
+    expect(contents.versions).toEqual([{ id: 'core:sensory_processing', versions: legacySnapshot.versions.versions }]);
+    expect(contents.meta).toMatchObject([{ id: VERSION_STATE_ID, current: [['core:sensory_processing', 2]] }]);
+
+    // Nothing left to migrate the second time
+    expect(await migrateLegacyKnowledgeBase(adapter)).toBe(0);
+  });
+
+  it('leaves unreadable legacy data in place', async () => {
+    localStorage.setItem(LEGACY_KNOWLEDGE_KEY, '{not json');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await migrateLegacyKnowledgeBase(new MemoryKnowledgeStorageAdapter())).toBe(0);
+    expect(localStorage.getItem(LEGACY_KNOWLEDGE_KEY)).toBe('{not json');
+  });
+
+  it('looks records up by category, agent and user', async () => {
+    const adapter = new MemoryKnowledgeStorageAdapter();
+    localStorage.setItem(LEGACY_KNOWLEDGE_KEY, JSON.stringify(legacySnapshot));
+    await migrateLegacyKnowledgeBase(adapter);
+
+    expect((await adapter.query('knowledge', 'agent', 'sensory-optimizer')).map(entry => entry.id)).toEqual(['core:sensory_processing']);
+    expect(await adapter.query('knowledge', 'category', 'core')).toHaveLength(2);
+    expect(await adapter.query('memories', 'agent', 'tutor')).toHaveLength(1);
+    expect(await adapter.query('patterns', 'user', 'student-1')).toHaveLength(1);
+    await expect(adapter.query('patterns', 'agent', 'tutor')).rejects.toThrow('patterns has no agent index');
+  });
+
+  it('undoes a localStorage batch that runs out of quota', async () => {
+    const adapter = new LocalStorageKnowledgeStorageAdapter();
+    await adapter.batch([{ type: 'put', store: 'knowledge', value: { id: 'core:a', value: 1 } }]);
+
+    const setItem = localStorage.setItem.bind(localStorage);
+    vi.spyOn(localStorage, 'setItem').mockImplementation((key: string, value: string) => {
+      if (key.endsWith('core:c')) throw new Error('QuotaExceededError');
+      setItem(key, value);
+    });
+
+    await expect(adapter.batch([
+      { type: 'put', store: 'knowledge', value: { id: 'core:b', value: 2 } },
+      { type: 'delete', store: 'knowledge', id: 'core:a' },
+      { type: 'put', store: 'knowledge', value: { id: 'core:c', value: 3 } }
+    ])).rejects.toThrow('QuotaExceededError');
+
+    expect((await adapter.loadAll()).knowledge).toEqual([{ id: 'core:a', value: 1 }]);
+  });
+});
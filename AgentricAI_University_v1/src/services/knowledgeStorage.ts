@@ -0,0 +1,264 @@
+// Knowledge Storage - Local persistence backends for the knowledge database
+// Each knowledge entry, agent memory, learning pattern and version history is its own record, so
+// a write touches only what changed. Batches apply all-or-nothing. IndexedDB is preferred: it holds
+// far more than localStorage's few megabytes and does not block the page while it writes.
+
+export type KnowledgeStoreName = 'knowledge' | 'memories' | 'patterns' | 'versions' | 'meta' | 'outbox' | 'access_log';
+
+export type KnowledgeIndexName = 'category' | 'agent' | 'user';
+
+export const KNOWLEDGE_STORES: KnowledgeStoreName[] = ['knowledge', 'memories', 'patterns', 'versions', 'meta', 'outbox', 'access_log'];
+
+// Which record field each store's indexes look up
+export const KNOWLEDGE_STORE_INDEXES: Record<KnowledgeStoreName, Partial<Record<KnowledgeIndexName, string>>> = {
+  knowledge: { category: 'category', agent: 'source_agent' },
+  memories: { agent: 'agent_id' },
+  patterns: { user: 'user_id' },
+  versions: {},
+  meta: {},
+  outbox: {},
+  access_log: { agent: 'agent_id' }
+};
+
+// The single localStorage key every record used to be serialized into
+export const LEGACY_KNOWLEDGE_KEY = 'agentricai_knowledge_base';
+
+// The meta record holding current-version pointers, open conflicts and merge policies
+export const VERSION_STATE_ID = 'version_state';
+
+// The meta record holding how far each table has been pulled from Supabase
+export const SYNC_STATE_ID = 'sync_state';
+
+export type KnowledgeStorageOperation =
+  | { type: 'put'; store: KnowledgeStoreName; value: { id: string; [field: string]: any } }
+  | { type: 'delete'; store: KnowledgeStoreName; id: string };
+
+export type KnowledgeStorageContents = Record<KnowledgeStoreName, any[]>;
+
+export interface KnowledgeStorageAdapter {
+  readonly name: string;
+  loadAll(): Promise<KnowledgeStorageContents>;
+  // Applies every operation or none of them
+  batch(operations: KnowledgeStorageOperation[]): Promise<void>;
+  query(store: KnowledgeStoreName, index: KnowledgeIndexName, value: string): Promise<any[]>;
+}
+
+// In-memory adapter for environments without browser storage
+export class MemoryKnowledgeStorageAdapter implements KnowledgeStorageAdapter {
+  readonly name = 'memory';
+  private stores: Map<KnowledgeStoreName, Map<string, string>> = new Map(
+    KNOWLEDGE_STORES.map(store => [store, new Map()])
+  );
+
+  async loadAll(): Promise<KnowledgeStorageContents> {
+    return mapStores(store => Array.from(this.stores.get(store)!.values()).map(record => JSON.parse(record)));
+  }
+
+  async batch(operations: KnowledgeStorageOperation[]): Promise<void> {
+    // Serialize everything first so a record that cannot be stored fails the batch before any change
+    const prepared = operations.map(operation => ({
+      operation,
+      serialized: operation.type === 'put' ? JSON.stringify(operation.value) : ''
+    }));
+
+    for (const { operation, serialized } of prepared) {
+      const records = this.stores.get(operation.store)!;
+      if (operation.type === 'put') {
+        records.set(operation.value.id, serialized);
+      } else {
+        records.delete(operation.id);
+      }
+    }
+  }
+
+  async query(store: KnowledgeStoreName, index: KnowledgeIndexName, value: string): Promise<any[]> {
+    const field = indexField(store, index);
+    return (await this.loadAll())[store].filter(record => record[field] === value);
+  }
+}
+
+// One key per record; a batch that runs out of quota puts back what it already wrote
+export class LocalStorageKnowledgeStorageAdapter implements KnowledgeStorageAdapter {
+  readonly name = 'localStorage';
+
+  constructor(private prefix: string = 'agentricai_knowledge') {}
+
+  async loadAll(): Promise<KnowledgeStorageContents> {
+    const contents = mapStores(() => [] as any[]);
+
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      const store = key?.startsWith(`${this.prefix}:`) ? key.slice(this.prefix.length + 1).split(':', 1)[0] : null;
+      if (!store || !(store in contents)) continue;
+
+      const stored = localStorage.getItem(key!);
+      if (stored) contents[store as KnowledgeStoreName].push(JSON.parse(stored));
+    }
+    return contents;
+  }
+
+  async batch(operations: KnowledgeStorageOperation[]): Promise<void> {
+    const previous = new Map<string, string | null>();
+
+    try {
+      for (const operation of operations) {
+        const key = this.key(operation.store, operation.type === 'put' ? operation.value.id : operation.id);
+        if (!previous.has(key)) previous.set(key, localStorage.getItem(key));
+
+        if (operation.type === 'put') {
+          localStorage.setItem(key, JSON.stringify(operation.value));
+        } else {
+          localStorage.removeItem(key);
+        }
+      }
+    } catch (error) {
+      for (const [key, value] of previous.entries()) {
+        if (value === null) localStorage.removeItem(key);
+        else localStorage.setItem(key, value);
+      }
+      throw error;
+    }
+  }
+
+  async query(store: KnowledgeStoreName, index: KnowledgeIndexName, value: string): Promise<any[]> {
+    const field = indexField(store, index);
+    return (await this.loadAll())[store].filter(record => record[field] === value);
+  }
+
+  private key(store: KnowledgeStoreName, id: string): string {
+    return `${this.prefix}:${store}:${id}`;
+  }
+}
+
+export class IndexedDBKnowledgeStorageAdapter implements KnowledgeStorageAdapter {
+  readonly name = 'indexedDB';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private databaseName: string = 'agentricai_knowledge') {}
+
+  async loadAll(): Promise<KnowledgeStorageContents> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(KNOWLEDGE_STORES, 'readonly');
+    const results = await Promise.all(
+      KNOWLEDGE_STORES.map(store => requestResult(transaction.objectStore(store).getAll()))
+    );
+    return mapStores(store => results[KNOWLEDGE_STORES.indexOf(store)] || []);
+  }
+
+  async batch(operations: KnowledgeStorageOperation[]): Promise<void> {
+    if (operations.length === 0) return;
+
+    const db = await this.openDatabase();
+    const stores = Array.from(new Set(operations.map(operation => operation.store)));
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(stores, 'readwrite');
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+
+      for (const operation of operations) {
+        const store = transaction.objectStore(operation.store);
+        if (operation.type === 'put') {
+          store.put(operation.value);
+        } else {
+          store.delete(operation.id);
+        }
+      }
+    });
+  }
+
+  async query(store: KnowledgeStoreName, index: KnowledgeIndexName, value: string): Promise<any[]> {
+    indexField(store, index);
+    const db = await this.openDatabase();
+    return (await requestResult(db.transaction(store, 'readonly').objectStore(store).index(index).getAll(value))) || [];
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        // Version 2 added the sync outbox and version 3 the access log; missing stores are created on upgrade
+        const request = indexedDB.open(this.databaseName, 3);
+        request.onupgradeneeded = () => {
+          for (const storeName of KNOWLEDGE_STORES) {
+            if (request.result.objectStoreNames.contains(storeName)) continue;
+
+            const store = request.result.createObjectStore(storeName, { keyPath: 'id' });
+            for (const [index, field] of Object.entries(KNOWLEDGE_STORE_INDEXES[storeName])) {
+              store.createIndex(index, field!, { unique: false });
+            }
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+}
+
+// IndexedDB where available, then localStorage, then memory
+export function createDefaultKnowledgeStorage(): KnowledgeStorageAdapter {
+  if (typeof indexedDB !== 'undefined') return new IndexedDBKnowledgeStorageAdapter();
+  if (typeof localStorage !== 'undefined') return new LocalStorageKnowledgeStorageAdapter();
+  return new MemoryKnowledgeStorageAdapter();
+}
+
+// Moves the old single-key localStorage snapshot into the adapter, record by record. The old key
+// is removed only once the batch has been written, and unreadable data is left where it is.
+export async function migrateLegacyKnowledgeBase(adapter: KnowledgeStorageAdapter, legacyKey: string = LEGACY_KNOWLEDGE_KEY): Promise<number> {
+  if (typeof localStorage === 'undefined') return 0;
+
+  const stored = localStorage.getItem(legacyKey);
+  if (!stored) return 0;
+
+  let data: any;
+  try {
+    data = JSON.parse(stored);
+  } catch (error) {
+    console.warn(`Could not read ${legacyKey}, leaving it in place:`, error);
+    return 0;
+  }
+
+  const operations: KnowledgeStorageOperation[] = [];
+  const put = (store: KnowledgeStoreName, entries: [string, any][] = []) => {
+    for (const [id, value] of entries) operations.push({ type: 'put', store, value: { ...value, id } });
+  };
+  put('knowledge', data.knowledge);
+  put('memories', data.memories);
+  put('patterns', data.patterns);
+
+  if (data.versions) {
+    const { versions = [], ...state } = data.versions;
+    const histories = new Map<string, any[]>();
+    for (const version of versions) {
+      histories.set(version.knowledge_id, [...(histories.get(version.knowledge_id) || []), version]);
+    }
+    put('versions', Array.from(histories.entries()).map(([id, history]) => [id, { versions: history }]));
+    put('meta', [[VERSION_STATE_ID, state]]);
+  }
+
+  await adapter.batch(operations);
+  localStorage.removeItem(legacyKey);
+  console.log(`📦 Migrated ${operations.length} knowledge records from ${legacyKey} to ${adapter.name}`);
+  return operations.length;
+}
+
+function indexField(store: KnowledgeStoreName, index: KnowledgeIndexName): string {
+  const field = KNOWLEDGE_STORE_INDEXES[store][index];
+  if (!field) {
+    throw new Error(`Knowledge store ${store} has no ${index} index`);
+  }
+  return field;
+}
+
+function mapStores<T>(build: (store: KnowledgeStoreName) => T): Record<KnowledgeStoreName, T> {
+  return Object.fromEntries(KNOWLEDGE_STORES.map(store => [store, build(store)])) as Record<KnowledgeStoreName, T>;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
@@ -0,0 +1,185 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MemoryKnowledgeStorageAdapter } from './knowledgeStorage';
+import {
+  KnowledgeSyncEngine,
+  resolveByTimestamp,
+  SYNC_TABLES,
+  SyncCursor,
+  SyncLocalStore,
+  SyncRemote,
+  SyncTable
+} from './knowledgeSync';
+
+const tables = (): Record<SyncTable, Map<string, any>> => ({ knowledge: new Map(), memories: new Map(), patterns: new Map() });
+
+class FakeRemote implements SyncRemote {
+  rows = tables();
+  offline = false;
+  private seq = 0;
+
+  async push(table: SyncTable, records: any[]): Promise<void> {
+    if (this.offline) throw new Error('Failed to fetch');
+    for (const record of records) this.write(table, record);
+  }
+
+  // Numbers each write like the sync_seq trigger does
+  write(table: SyncTable, record: any) {
+    this.begin(table, record)();
+  }
+
+  // Takes a number now but only shows the row once the returned commit runs, like a slow transaction
+  begin(table: SyncTable, record: any) {
+    const row = { ...record, sync_seq: ++this.seq };
+    return () => { this.rows[table].set(SYNC_TABLES[table].keyOf(record), row); };
+  }
+
+  async pull(table: SyncTable, after: SyncCursor | null, limit: number): Promise<any[]> {
+    if (this.offline) throw new Error('Failed to fetch');
+    return Array.from(this.rows[table].values())
+      .filter(record => !after || record.sync_seq > after.seq || (record.sync_seq === after.seq && record.id > after.id))
+      .sort((a, b) => a.sync_seq - b.sync_seq || a.id.localeCompare(b.id))
+      .slice(0, limit);
+  }
+}
+
+class FakeLocal implements SyncLocalStore {
+  rows = tables();
+
+  async applyRemote(table: SyncTable, record: any) {
+    const key = SYNC_TABLES[table].keyOf(record);
+    if (resolveByTimestamp(table, this.rows[table].get(key), record) === 'local') return 'local' as const;
+    this.rows[table].set(key, record);
+    return 'remote' as const;
+  }
+
+  getLocal(table: SyncTable, key: string) {
+    return this.rows[table].get(key);
+  }
+
+  write(table: SyncTable, record: any) {
+    this.rows[table].set(SYNC_TABLES[table].keyOf(record), record);
+    return record;
+  }
+}
+
+const pattern = (id: string, score: number, updatedAt: string) => ({
+  id,
+  user_id: 'student-1',
+  pattern_type: 'pace',
+  effectiveness_score: score,
+  updated_at: updatedAt
+});
+
+describe('KnowledgeSyncEngine', () => {
+  let engine: KnowledgeSyncEngine | undefined;
+
+  afterEach(() => {
+    engine?.stop();
+    vi.restoreAllMocks();
+  });
+
+  it('queues writes while offline and pushes them when the connection returns', async () => {
+    const remote = new FakeRemote();
+    const local = new FakeLocal();
+    const storage = new MemoryKnowledgeStorageAdapter();
+    engine = new KnowledgeSyncEngine(remote, local, storage);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    engine.start();
+    window.dispatchEvent(new Event('offline'));
+    await engine.enqueue('patterns', local.write('patterns', pattern('p1', 0.4, '2026-10-19T09:00:00.000Z')));
+    await engine.enqueue('patterns', local.write('patterns', pattern('p1', 0.6, '2026-10-19T09:05:00.000Z')));
+
+    expect(await engine.sync()).toMatchObject({ pushed: 0 });
+    expect(engine.getStatus()).toMatchObject({ online: false, pending: 1 });
+
+    // A reload while offline keeps the queue
+    const reloaded = new KnowledgeSyncEngine(remote, local, storage);
+    reloaded.restore(await storage.loadAll());
+    expect(reloaded.getPending().map(entry => entry.record.effectiveness_score)).toEqual([0.6]);
+
+    window.dispatchEvent(new Event('online'));
+    await engine.sync();
+    expect(remote.rows.patterns.get('p1')).toMatchObject({ effectiveness_score: 0.6 });
+    expect(engine.getStatus()).toMatchObject({ online: true, pending: 0 });
+    expect((await storage.loadAll()).outbox).toEqual([]);
+  });
+
+  it('pulls before pushing and keeps the copy written last', async () => {
+    const remote = new FakeRemote();
+    const local = new FakeLocal();
+    engine = new KnowledgeSyncEngine(remote, local, new MemoryKnowledgeStorageAdapter());
+
+    // Written on another tablet after this one's offline edit of p1, and before its edit of p2
+    remote.write('patterns', pattern('p1', 0.9, '2026-10-19T10:00:00.000Z'));
+    remote.write('patterns', pattern('p2', 0.1, '2026-10-19T10:00:00.000Z'));
+    await engine.enqueue('patterns', local.write('patterns', pattern('p1', 0.2, '2026-10-19T09:30:00.000Z')));
+    await engine.enqueue('patterns', local.write('patterns', pattern('p2', 0.7, '2026-10-19T10:30:00.000Z')));
+
+    expect(await engine.sync()).toEqual({ pulled: 2, pushed: 1, keptLocal: 1 });
+    expect(local.rows.patterns.get('p1').effectiveness_score).toBe(0.9);
+    expect(remote.rows.patterns.get('p1').effectiveness_score).toBe(0.9);
+    expect(remote.rows.patterns.get('p2').effectiveness_score).toBe(0.7);
+
+    // The cursor moved past what was pulled; only the echo of the push comes back
+    expect(engine.getStatus().cursors.patterns).toEqual({ seq: 2, id: 'p2' });
+    expect(await engine.sync()).toEqual({ pulled: 1, pushed: 0, keptLocal: 0 });
+  });
+
+  it('pulls what a device that was offline pushes, whatever its clock says', async () => {
+    const remote = new FakeRemote();
+    const local = new FakeLocal();
+    engine = new KnowledgeSyncEngine(remote, local, new MemoryKnowledgeStorageAdapter(), { pageSize: 1 });
+
+    remote.write('patterns', pattern('p1', 0.5, '2026-10-19T10:00:00.000Z'));
+    remote.write('patterns', pattern('p2', 0.5, '2026-10-19T10:00:00.000Z'));
+    expect(await engine.sync()).toMatchObject({ pulled: 2 });
+
+    // Edited at 08:00 on a tablet that only reconnected after this one had pulled 10:00
+    const tablet = new KnowledgeSyncEngine(remote, new FakeLocal(), new MemoryKnowledgeStorageAdapter());
+    await tablet.enqueue('patterns', pattern('p3', 0.8, '2026-10-19T08:00:00.000Z'));
+    await tablet.push();
+
+    expect(await engine.sync()).toMatchObject({ pulled: 1 });
+    expect(local.rows.patterns.get('p3')).toMatchObject({ effectiveness_score: 0.8 });
+  });
+
+  it('pulls a row that committed after a later one was pulled', async () => {
+    const remote = new FakeRemote();
+    const local = new FakeLocal();
+    engine = new KnowledgeSyncEngine(remote, local, new MemoryKnowledgeStorageAdapter());
+
+    const commit = remote.begin('patterns', pattern('p1', 0.3, '2026-10-19T10:00:00.000Z'));
+    remote.write('patterns', pattern('p2', 0.5, '2026-10-19T10:00:01.000Z'));
+    expect(await engine.sync()).toMatchObject({ pulled: 1 });
+    expect(engine.getStatus().cursors.patterns).toEqual({ seq: 2, id: 'p2' });
+
+    commit();
+    expect(await engine.sync()).toMatchObject({ pulled: 1 });
+    expect(local.rows.patterns.get('p1')).toMatchObject({ effectiveness_score: 0.3 });
+    // The cursor stays on the newest row, and rows already merged are not merged again
+    expect(engine.getStatus().cursors.patterns).toEqual({ seq: 2, id: 'p2' });
+    expect(await engine.sync()).toMatchObject({ pulled: 0 });
+  });
+
+  it('keeps the outbox and backs off while Supabase is unreachable', async () => {
+    const remote = new FakeRemote();
+    const local = new FakeLocal();
+    engine = new KnowledgeSyncEngine(remote, local, new MemoryKnowledgeStorageAdapter(), { retryBaseMs: 1000 });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    remote.offline = true;
+    await engine.enqueue('memories', local.write('memories', { id: 'tutor:note:1', agent_id: 'tutor', last_accessed: '2026-10-19T09:00:00.000Z' }));
+
+    expect(await engine.sync()).toMatchObject({ pushed: 0, error: 'Failed to fetch' });
+    expect(await engine.push()).toMatchObject({ error: 'Failed to fetch' });
+    expect(engine.getStatus()).toMatchObject({ pending: 1, failures: 2, lastError: 'Failed to fetch' });
+    // The first round failed on its pull, before it reached the push
+    expect(engine.getPending()[0].attempts).toBe(1);
+
+    remote.offline = false;
+    expect(await engine.sync()).toMatchObject({ pushed: 1 });
+    expect(engine.getStatus()).toMatchObject({ pending: 0, failures: 0 });
+    expect(remote.rows.memories.has('tutor:note:1')).toBe(true);
+  });
+});
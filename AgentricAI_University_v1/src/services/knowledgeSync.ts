@@ -0,0 +1,415 @@
+// Knowledge Sync - Offline-first replication between local knowledge storage and Supabase
+// Local writes are queued in an outbox that survives reloads and is pushed whenever Supabase can be
+// reached. Each round pulls what changed remotely since the last cursor before pushing, so a device
+// that comes back online merges what happened while it was away instead of overwriting it. Pulls
+// follow the server-assigned `sync_seq` (supabase/migrations), never a device clock. A row takes its
+// `sync_seq` when it is written but only becomes visible when its transaction commits, so a slow
+// commit can appear behind the cursor; each round re-reads the last `pullOverlap` sequence values
+// and merges the rows it has not seen yet.
+
+import { clock, scheduler, TimerHandle } from '../agents/base/AgentEnvironment';
+import { KnowledgeStorageAdapter, KnowledgeStorageContents, KnowledgeStorageOperation, SYNC_STATE_ID } from './knowledgeStorage';
+
+export type SyncTable = 'knowledge' | 'memories' | 'patterns';
+
+export const SYNC_TABLE_NAMES: SyncTable[] = ['knowledge', 'memories', 'patterns'];
+
+export interface SyncTableSpec {
+  remoteTable: string;
+  // Decides last-writer-wins conflicts; set by the writing device, so it never orders pulls
+  clockField: string;
+  conflictTarget: string;
+  keyOf(record: any): string;
+  toRemote(record: any): any;
+}
+
+export const SYNC_TABLES: Record<SyncTable, SyncTableSpec> = {
+  knowledge: {
+    remoteTable: 'agentricai_knowledge_base',
+    clockField: 'updated_at',
+    conflictTarget: 'owner_id,category,key',
+    keyOf: record => `${record.category}:${record.key}`,
+    // Remote rows have their own ids; entries are matched on category and key within the owner's rows
+    toRemote: record => {
+      const remote = { ...record };
+      delete remote.id;
+      return remote;
+    }
+  },
+  memories: {
+    remoteTable: 'agentricai_agent_memory',
+    clockField: 'last_accessed',
+    conflictTarget: 'id',
+    keyOf: record => record.id,
+    toRemote: record => record
+  },
+  patterns: {
+    remoteTable: 'agentricai_learning_patterns',
+    clockField: 'updated_at',
+    conflictTarget: 'id',
+    keyOf: record => record.id,
+    toRemote: record => record
+  }
+};
+
+// Position of the last pulled row: its sync sequence value, with the id breaking ties. An empty id
+// starts before every row at `seq`.
+export interface SyncCursor {
+  seq: number;
+  id: string;
+}
+
+export interface SyncOutboxEntry {
+  id: string;
+  table: SyncTable;
+  key: string;
+  record: any;
+  queued_at: string;
+  attempts: number;
+}
+
+// Which copy a merge kept. `held` keeps the local copy without pushing it, e.g. while a
+// remote write waits for manual review.
+export type SyncResolution = 'remote' | 'local' | 'held';
+
+export interface SyncRemote {
+  push(table: SyncTable, records: any[]): Promise<void>;
+  // Records written after `after`, in (sync_seq, id) order
+  pull(table: SyncTable, after: SyncCursor | null, limit: number): Promise<any[]>;
+}
+
+export interface SyncLocalStore {
+  // Merges a remote record into local state; `pending` is the queued local write to the same record
+  applyRemote(table: SyncTable, record: any, pending?: SyncOutboxEntry): Promise<SyncResolution>;
+  getLocal(table: SyncTable, key: string): any;
+}
+
+export interface KnowledgeSyncOptions {
+  pullIntervalMs?: number;
+  pushDelayMs?: number;
+  retryBaseMs?: number;
+  maxRetryMs?: number;
+  pageSize?: number;
+  // Sequence values below the cursor re-read each round for commits that landed late
+  pullOverlap?: number;
+}
+
+export interface SyncReport {
+  pulled: number;
+  pushed: number;
+  keptLocal: number;
+  error?: string;
+}
+
+export interface SyncStatus {
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  failures: number;
+  lastSyncedAt?: string;
+  lastError?: string;
+  cursors: Partial<Record<SyncTable, SyncCursor>>;
+}
+
+export class SupabaseSyncRemote implements SyncRemote {
+  constructor(private supabase: any) {}
+
+  async push(table: SyncTable, records: any[]): Promise<void> {
+    const spec = SYNC_TABLES[table];
+    const { error } = await this.supabase
+      .from(spec.remoteTable)
+      .upsert(records.map(record => spec.toRemote(record)), { onConflict: spec.conflictTarget });
+    if (error) throw error;
+  }
+
+  async pull(table: SyncTable, after: SyncCursor | null, limit: number): Promise<any[]> {
+    const spec = SYNC_TABLES[table];
+    let query = this.supabase.from(spec.remoteTable).select('*');
+    if (after?.id) {
+      query = query.or(`sync_seq.gt.${after.seq},and(sync_seq.eq.${after.seq},id.gt."${after.id}")`);
+    } else if (after) {
+      query = query.gte('sync_seq', after.seq);
+    }
+
+    const { data, error } = await query
+      .order('sync_seq', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(limit);
+    if (error) throw error;
+    return data || [];
+  }
+}
+
+// Last writer wins on the table's clock field. Ties keep the remote copy so every device settles on the same one.
+export function resolveByTimestamp(table: SyncTable, local: any, remote: any): 'local' | 'remote' {
+  if (!local) return 'remote';
+  const field = SYNC_TABLES[table].clockField;
+  return timestampOf(local[field]) > timestampOf(remote[field]) ? 'local' : 'remote';
+}
+
+export class KnowledgeSyncEngine {
+  private outbox: Map<string, SyncOutboxEntry> = new Map();
+  private cursors: Partial<Record<SyncTable, SyncCursor>> = {};
+  // Sequence values already merged inside each table's overlap window
+  private seen: Record<SyncTable, Set<number>> = { knowledge: new Set(), memories: new Set(), patterns: new Set() };
+  private options: Required<KnowledgeSyncOptions>;
+  private online: boolean;
+  private syncing = false;
+  private started = false;
+  private failures = 0;
+  private lastSyncedAt?: string;
+  private lastError?: string;
+  // Rounds run one at a time so a push never races the pull that should precede it
+  private rounds: Promise<void> = Promise.resolve();
+  private pullTimer?: TimerHandle;
+  private pushTimer?: TimerHandle;
+  private retryTimer?: TimerHandle;
+
+  constructor(
+    private remote: SyncRemote,
+    private local: SyncLocalStore,
+    private storage: KnowledgeStorageAdapter,
+    options: KnowledgeSyncOptions = {}
+  ) {
+    this.options = {
+      pullIntervalMs: 30000,
+      pushDelayMs: 500,
+      retryBaseMs: 2000,
+      maxRetryMs: 5 * 60 * 1000,
+      pageSize: 200,
+      pullOverlap: 200,
+      ...options
+    };
+    this.online = typeof navigator === 'undefined' || navigator.onLine !== false;
+  }
+
+  // Picks up the outbox and cursors an earlier session left in storage
+  restore(contents: KnowledgeStorageContents) {
+    this.outbox = new Map(contents.outbox.map(entry => [entry.id, entry] as [string, SyncOutboxEntry]));
+    const cursors = contents.meta.find(record => record.id === SYNC_STATE_ID)?.cursors || {};
+    // Timestamp cursors from before the sync sequence start over; merging a record again is harmless
+    this.cursors = {};
+    for (const table of SYNC_TABLE_NAMES) {
+      if (typeof cursors[table] === 'object') this.cursors[table] = cursors[table];
+    }
+  }
+
+  start() {
+    if (this.started) return;
+    this.started = true;
+
+    window.addEventListener('online', this.handleOnline);
+    window.addEventListener('offline', this.handleOffline);
+    this.pullTimer = scheduler.setInterval(() => { this.sync(); }, this.options.pullIntervalMs);
+    this.sync();
+  }
+
+  stop() {
+    this.started = false;
+    window.removeEventListener('online', this.handleOnline);
+    window.removeEventListener('offline', this.handleOffline);
+    scheduler.clearInterval(this.pullTimer);
+    scheduler.clearTimeout(this.pushTimer);
+    scheduler.clearTimeout(this.retryTimer);
+    this.pullTimer = this.pushTimer = this.retryTimer = undefined;
+  }
+
+  // Queues a local write. A later write to the same record replaces the queued one.
+  async enqueue(table: SyncTable, record: any): Promise<void> {
+    const key = SYNC_TABLES[table].keyOf(record);
+    const id = `${table}/${key}`;
+    const entry: SyncOutboxEntry = {
+      id,
+      table,
+      key,
+      record,
+      queued_at: clock.date().toISOString(),
+      attempts: this.outbox.get(id)?.attempts || 0
+    };
+
+    this.outbox.set(id, entry);
+    await this.save([{ type: 'put', store: 'outbox', value: entry }]);
+    this.schedulePush();
+  }
+
+  // Pull then push
+  sync(): Promise<SyncReport> {
+    return this.run(true);
+  }
+
+  // Push the outbox without pulling
+  push(): Promise<SyncReport> {
+    return this.run(false);
+  }
+
+  // Merges one remote record, from a pull or a realtime notification
+  async receive(table: SyncTable, record: any): Promise<SyncResolution> {
+    const key = SYNC_TABLES[table].keyOf(record);
+    const id = `${table}/${key}`;
+    const pending = this.outbox.get(id);
+    const resolution = await this.local.applyRemote(table, record, pending);
+
+    if (resolution === 'remote' && pending && this.outbox.get(id) === pending) {
+      this.outbox.delete(id);
+      await this.save([{ type: 'delete', store: 'outbox', id }]);
+    } else if (resolution === 'local' && !this.outbox.has(id)) {
+      // The local copy won against a remote that does not have it yet
+      const current = this.local.getLocal(table, key);
+      if (current) await this.enqueue(table, current);
+    }
+    return resolution;
+  }
+
+  getPending(): SyncOutboxEntry[] {
+    return Array.from(this.outbox.values());
+  }
+
+  getStatus(): SyncStatus {
+    return {
+      online: this.online,
+      syncing: this.syncing,
+      pending: this.outbox.size,
+      failures: this.failures,
+      lastSyncedAt: this.lastSyncedAt,
+      lastError: this.lastError,
+      cursors: { ...this.cursors }
+    };
+  }
+
+  private handleOnline = () => {
+    this.online = true;
+    this.failures = 0;
+    console.log(`🌐 Back online, syncing ${this.outbox.size} queued knowledge writes`);
+    this.sync();
+  };
+
+  private handleOffline = () => {
+    this.online = false;
+    console.log('📴 Offline, queueing knowledge writes until the connection returns');
+  };
+
+  private run(pull: boolean): Promise<SyncReport> {
+    const round = this.rounds.then(() => this.round(pull));
+    this.rounds = round.then(() => undefined);
+    return round;
+  }
+
+  // Never rejects: a failed round is reported and retried with exponential backoff
+  private async round(pull: boolean): Promise<SyncReport> {
+    const report: SyncReport = { pulled: 0, pushed: 0, keptLocal: 0 };
+    if (!this.online) return report;
+
+    this.syncing = true;
+    try {
+      if (pull) {
+        for (const table of SYNC_TABLE_NAMES) {
+          await this.pullTable(table, report);
+        }
+      }
+      await this.pushOutbox(report);
+
+      this.failures = 0;
+      this.lastError = undefined;
+      this.lastSyncedAt = clock.date().toISOString();
+      scheduler.clearTimeout(this.retryTimer);
+      this.retryTimer = undefined;
+    } catch (error) {
+      this.failures++;
+      // Supabase errors are plain objects with a message
+      this.lastError = report.error = (error as any)?.message || String(error);
+      const delay = Math.min(this.options.maxRetryMs, this.options.retryBaseMs * 2 ** (this.failures - 1));
+      console.warn(`🔁 Knowledge sync failed (${this.outbox.size} writes queued), retrying in ${delay}ms:`, error);
+      this.scheduleRetry(delay);
+    } finally {
+      this.syncing = false;
+    }
+    return report;
+  }
+
+  private async pullTable(table: SyncTable, report: SyncReport) {
+    const seen = this.seen[table];
+    const cursor = this.cursors[table];
+    // The first page backs up over the overlap window; later pages follow on from the last row
+    let after: SyncCursor | null = cursor ? { seq: Math.max(0, cursor.seq - this.options.pullOverlap), id: '' } : null;
+
+    for (;;) {
+      const records = await this.remote.pull(table, after, this.options.pageSize);
+
+      for (const record of records) {
+        const seq = Number(record.sync_seq);
+        after = { seq, id: String(record.id) };
+        if (seen.has(seq)) continue;
+
+        if (await this.receive(table, record) !== 'remote') report.keptLocal++;
+        seen.add(seq);
+        report.pulled++;
+        if (isAfter(after, this.cursors[table])) this.cursors[table] = after;
+      }
+
+      const windowStart = (this.cursors[table]?.seq || 0) - this.options.pullOverlap;
+      seen.forEach(seq => { if (seq < windowStart) seen.delete(seq); });
+      await this.save([{ type: 'put', store: 'meta', value: { id: SYNC_STATE_ID, cursors: { ...this.cursors } } }]);
+
+      if (records.length < this.options.pageSize) return;
+    }
+  }
+
+  private async pushOutbox(report: SyncReport) {
+    for (const table of SYNC_TABLE_NAMES) {
+      const entries = this.getPending().filter(entry => entry.table === table);
+
+      for (let i = 0; i < entries.length; i += this.options.pageSize) {
+        const batch = entries.slice(i, i + this.options.pageSize);
+        try {
+          await this.remote.push(table, batch.map(entry => entry.record));
+        } catch (error) {
+          batch.forEach(entry => entry.attempts++);
+          await this.save(batch.map(entry => ({ type: 'put' as const, store: 'outbox' as const, value: entry })));
+          throw error;
+        }
+
+        // Writes queued while the push was in flight replaced these entries and still need sending
+        const sent = batch.filter(entry => this.outbox.get(entry.id) === entry);
+        sent.forEach(entry => this.outbox.delete(entry.id));
+        await this.save(sent.map(entry => ({ type: 'delete' as const, store: 'outbox' as const, id: entry.id })));
+        report.pushed += sent.length;
+      }
+    }
+  }
+
+  private schedulePush() {
+    if (!this.started || !this.online || this.pushTimer || this.retryTimer) return;
+
+    this.pushTimer = scheduler.setTimeout(() => {
+      this.pushTimer = undefined;
+      this.push();
+    }, this.options.pushDelayMs);
+  }
+
+  private scheduleRetry(delayMs: number) {
+    scheduler.clearTimeout(this.retryTimer);
+    this.retryTimer = scheduler.setTimeout(() => {
+      this.retryTimer = undefined;
+      this.sync();
+    }, delayMs);
+  }
+
+  // A storage failure must not stop syncing; the entries stay queued in memory for this session
+  private async save(operations: KnowledgeStorageOperation[]) {
+    if (operations.length === 0) return;
+    try {
+      await this.storage.batch(operations);
+    } catch (error) {
+      console.warn(`💾 Could not store the knowledge sync outbox in ${this.storage.name}:`, error);
+    }
+  }
+}
+
+function isAfter(position: SyncCursor, cursor?: SyncCursor): boolean {
+  return !cursor || position.seq > cursor.seq || (position.seq === cursor.seq && position.id > cursor.id);
+}
+
+function timestampOf(value: any): number {
+  const time = value ? new Date(value).getTime() : NaN;
+  return Number.isNaN(time) ? 0 : time;
+}
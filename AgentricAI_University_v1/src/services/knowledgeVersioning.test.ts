@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { diffKnowledgeValues, KnowledgeVersionStore } from './knowledgeVersioning';
+
+const SENSORY = 'student_profiles:sensory_processing';
+
+const proposal = (value: any, source_agent: string, confidence_score: number) => ({
+  category: 'student_profiles',
+  key: 'sensory_processing',
+  value,
+  source_agent,
+  confidence_score
+});
+
+describe('KnowledgeVersionStore', () => {
+  it('keeps the more confident value and records the losing write', () => {
+    const store = new KnowledgeVersionStore();
+    store.propose(SENSORY, proposal({ noise: 'avoid', lighting: 'dim' }, 'sensory-optimizer', 0.9));
+
+    const result = store.propose(SENSORY, proposal({ noise: 'tolerates', lighting: 'dim' }, 'behavior-analyst', 0.6));
+
+    expect(result).toMatchObject({ outcome: 'rejected', policy: 'highest_confidence', current: { version: 1 } });
+    expect(store.getCurrent(SENSORY)?.value.noise).toBe('avoid');
+    expect(store.getHistory(SENSORY).map(version => [version.version, version.source_agent, version.status])).toEqual([
+      [1, 'sensory-optimizer', 'accepted'],
+      [2, 'behavior-analyst', 'rejected']
+    ]);
+
+    // An agent revising its own entry is not a conflict, and repeating a write changes nothing
+    expect(store.propose(SENSORY, proposal({ noise: 'avoid', lighting: 'soft' }, 'sensory-optimizer', 0.5)).outcome).toBe('accepted');
+    expect(store.propose(SENSORY, proposal({ noise: 'avoid', lighting: 'soft' }, 'sensory-optimizer', 0.5)).outcome).toBe('unchanged');
+    expect(store.getHistory(SENSORY)).toHaveLength(3);
+  });
+
+  it('queues disagreements for review under the manual review policy', () => {
+    const store = new KnowledgeVersionStore();
+    store.setMergePolicy('manual_review', 'student_profiles');
+    store.propose(SENSORY, proposal({ noise: 'avoid' }, 'sensory-optimizer', 0.6), {
+      category: 'student_profiles', key: 'sensory_processing', value: { noise: 'avoid' }, source_agent: 'teacher', confidence_score: 1
+    });
+
+    const result = store.propose(SENSORY, proposal({ noise: 'tolerates' }, 'behavior-analyst', 1));
+    expect(result.outcome).toBe('pending');
+    expect(store.getCurrent(SENSORY)?.value.noise).toBe('avoid');
+    expect(store.getPendingConflicts('student_profiles')).toMatchObject([{ id: result.conflictId, current_version: 2, proposed_version: 3 }]);
+
+    const accepted = store.resolveConflict(result.conflictId!, 'accept', 'admin');
+    expect(accepted).toMatchObject({ version: 3, status: 'accepted', resolved_by: 'admin' });
+    expect(store.getCurrent(SENSORY)?.value.noise).toBe('tolerates');
+    expect(store.getPendingConflicts()).toEqual([]);
+  });
+
+  it('diffs versions and rolls back by writing the old value as a new version', () => {
+    const store = new KnowledgeVersionStore({ defaultPolicy: 'latest_wins' });
+    store.propose(SENSORY, proposal({ noise: 'avoid', supports: ['headphones'] }, 'sensory-optimizer', 0.9));
+    store.propose(SENSORY, proposal({ noise: 'tolerates', supports: ['headphones', 'timer'], notes: 'x' }, 'behavior-analyst', 0.2));
+
+    expect(store.diff(SENSORY, 1).changes).toEqual([
+      { path: 'noise', kind: 'changed', before: 'avoid', after: 'tolerates' },
+      { path: 'supports.1', kind: 'added', after: 'timer' },
+      { path: 'notes', kind: 'added', after: 'x' }
+    ]);
+
+    const restored = store.rollback(SENSORY, 1, 'admin');
+    expect(restored).toMatchObject({ version: 3, rolled_back_from: 1, source_agent: 'sensory-optimizer', status: 'accepted' });
+    expect(store.getCurrent(SENSORY)?.value).toEqual({ noise: 'avoid', supports: ['headphones'] });
+    expect(store.diff(SENSORY, 2, 3).changes.map(change => change.kind)).toEqual(['changed', 'removed', 'removed']);
+
+    // History survives a save and reload
+    const reloaded = new KnowledgeVersionStore();
+    reloaded.restore(JSON.parse(JSON.stringify(store.snapshot())));
+    expect(reloaded.getCurrent(SENSORY)?.version).toBe(3);
+    expect(reloaded.getMergePolicy('student_profiles')).toBe('latest_wins');
+  });
+
+  it('treats a value replaced by a different type as one change', () => {
+    expect(diffKnowledgeValues({ level: 'low' }, 'low')).toEqual([{ path: '', kind: 'changed', before: { level: 'low' }, after: 'low' }]);
+    expect(diffKnowledgeValues([1, 2], [1, 2])).toEqual([]);
+  });
+});
@@ -0,0 +1,354 @@
+// Knowledge Versioning - Version history and merge policies for knowledge entries
+// Every write to a `category:key` entry is kept as a version with its source agent and confidence.
+// When another agent writes a different value, the entry's merge policy decides whether the write
+// becomes current, is kept as a rejected version, or waits for a reviewer. Nothing is silently lost.
+
+import { clock } from '../agents/base/AgentEnvironment';
+
+export type KnowledgeMergePolicy = 'highest_confidence' | 'latest_wins' | 'manual_review';
+
+export const MERGE_POLICIES: KnowledgeMergePolicy[] = ['highest_confidence', 'latest_wins', 'manual_review'];
+
+// accepted: became current when written. rejected: lost to a more confident version.
+// pending: waiting for review. dismissed: a reviewer turned it down.
+export type KnowledgeVersionStatus = 'accepted' | 'rejected' | 'pending' | 'dismissed';
+
+export type KnowledgeWriteOutcome = 'accepted' | 'rejected' | 'pending' | 'unchanged';
+
+export interface KnowledgeVersion {
+  knowledge_id: string;
+  category: string;
+  key: string;
+  version: number;
+  value: any;
+  confidence_score: number;
+  source_agent: string;
+  status: KnowledgeVersionStatus;
+  created_at: string;
+  // Set on versions written by rollbackKnowledge
+  rolled_back_from?: number;
+  resolved_by?: string;
+}
+
+export interface KnowledgeProposal {
+  category: string;
+  key: string;
+  value: any;
+  source_agent: string;
+  confidence_score: number;
+}
+
+export interface KnowledgeWriteResult {
+  knowledgeId: string;
+  outcome: KnowledgeWriteOutcome;
+  policy: KnowledgeMergePolicy;
+  version: KnowledgeVersion;
+  // The version that was current when the write arrived
+  current?: KnowledgeVersion;
+  conflictId?: string;
+}
+
+export interface KnowledgeConflict {
+  id: string;
+  knowledge_id: string;
+  category: string;
+  key: string;
+  current_version: number;
+  proposed_version: number;
+  raised_at: string;
+}
+
+export interface KnowledgeChange {
+  // Dotted path into the value; empty for the value as a whole
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: any;
+  after?: any;
+}
+
+export interface KnowledgeDiff {
+  knowledgeId: string;
+  from: KnowledgeVersion;
+  to: KnowledgeVersion;
+  changes: KnowledgeChange[];
+}
+
+export interface KnowledgeVersionSnapshot {
+  versions: KnowledgeVersion[];
+  current: [string, number][];
+  conflicts: KnowledgeConflict[];
+  policies: [string, KnowledgeMergePolicy][];
+  defaultPolicy: KnowledgeMergePolicy;
+}
+
+export interface KnowledgeVersionStoreOptions {
+  defaultPolicy?: KnowledgeMergePolicy;
+  // Older versions beyond this are pruned, except the current one and any awaiting review
+  maxVersionsPerKey?: number;
+}
+
+export class KnowledgeVersionStore {
+  private histories: Map<string, KnowledgeVersion[]> = new Map();
+  private current: Map<string, number> = new Map();
+  private conflicts: Map<string, KnowledgeConflict> = new Map();
+  private policies: Map<string, KnowledgeMergePolicy> = new Map();
+  private defaultPolicy: KnowledgeMergePolicy;
+  private maxVersionsPerKey: number;
+
+  constructor(options: KnowledgeVersionStoreOptions = {}) {
+    this.defaultPolicy = options.defaultPolicy ?? 'highest_confidence';
+    this.maxVersionsPerKey = options.maxVersionsPerKey ?? 50;
+  }
+
+  // Without a category this sets the policy for every category that has no policy of its own
+  setMergePolicy(policy: KnowledgeMergePolicy, category?: string): void {
+    if (!MERGE_POLICIES.includes(policy)) {
+      throw new Error(`Unknown merge policy: ${policy}`);
+    }
+    if (category) {
+      this.policies.set(category, policy);
+    } else {
+      this.defaultPolicy = policy;
+    }
+  }
+
+  getMergePolicy(category?: string): KnowledgeMergePolicy {
+    return (category && this.policies.get(category)) || this.defaultPolicy;
+  }
+
+  // Decide what happens to a write and record it. `existing` is an entry stored before versioning
+  // (or by another client); it becomes version 1 so the history has something to compare against.
+  propose(knowledgeId: string, proposal: KnowledgeProposal, existing?: any): KnowledgeWriteResult {
+    if (existing && !this.current.has(knowledgeId)) {
+      this.adopt(knowledgeId, existing);
+    }
+
+    const policy = this.getMergePolicy(proposal.category);
+    const current = this.getCurrent(knowledgeId);
+
+    if (!current) {
+      const version = this.append(knowledgeId, proposal, 'accepted');
+      return { knowledgeId, outcome: 'accepted', policy, version };
+    }
+
+    const agrees = diffKnowledgeValues(current.value, proposal.value).length === 0;
+    if (agrees && current.source_agent === proposal.source_agent && current.confidence_score === proposal.confidence_score) {
+      return { knowledgeId, outcome: 'unchanged', policy, version: current, current };
+    }
+
+    // Agreement and an agent revising its own knowledge are not conflicts.
+    // Agreement keeps the stronger confidence so a weak echo cannot water it down.
+    if (agrees || current.source_agent === proposal.source_agent) {
+      const confidence = agrees ? Math.max(current.confidence_score, proposal.confidence_score) : proposal.confidence_score;
+      const version = this.append(knowledgeId, { ...proposal, confidence_score: confidence }, 'accepted');
+      return { knowledgeId, outcome: 'accepted', policy, version, current };
+    }
+
+    switch (policy) {
+      case 'latest_wins': {
+        const version = this.append(knowledgeId, proposal, 'accepted');
+        return { knowledgeId, outcome: 'accepted', policy, version, current };
+      }
+
+      case 'manual_review': {
+        const version = this.append(knowledgeId, proposal, 'pending');
+        const conflict: KnowledgeConflict = {
+          id: `conflict:${knowledgeId}:v${version.version}`,
+          knowledge_id: knowledgeId,
+          category: proposal.category,
+          key: proposal.key,
+          current_version: current.version,
+          proposed_version: version.version,
+          raised_at: version.created_at
+        };
+        this.conflicts.set(conflict.id, conflict);
+        return { knowledgeId, outcome: 'pending', policy, version, current, conflictId: conflict.id };
+      }
+
+      case 'highest_confidence':
+      default: {
+        // Ties go to the newer write
+        const wins = proposal.confidence_score >= current.confidence_score;
+        const version = this.append(knowledgeId, proposal, wins ? 'accepted' : 'rejected');
+        return { knowledgeId, outcome: wins ? 'accepted' : 'rejected', policy, version, current };
+      }
+    }
+  }
+
+  getHistory(knowledgeId: string): KnowledgeVersion[] {
+    return [...(this.histories.get(knowledgeId) || [])];
+  }
+
+  getVersion(knowledgeId: string, version: number): KnowledgeVersion | undefined {
+    return this.histories.get(knowledgeId)?.find(entry => entry.version === version);
+  }
+
+  getCurrent(knowledgeId: string): KnowledgeVersion | undefined {
+    const version = this.current.get(knowledgeId);
+    return version === undefined ? undefined : this.getVersion(knowledgeId, version);
+  }
+
+  // Compares two versions; `toVersion` defaults to the current one
+  diff(knowledgeId: string, fromVersion: number, toVersion?: number): KnowledgeDiff {
+    const from = this.requireVersion(knowledgeId, fromVersion);
+    const to = toVersion === undefined ? this.getCurrent(knowledgeId) : this.requireVersion(knowledgeId, toVersion);
+    if (!to) {
+      throw new Error(`No current version of ${knowledgeId}`);
+    }
+    return { knowledgeId, from, to, changes: diffKnowledgeValues(from.value, to.value) };
+  }
+
+  // Rolling back writes a new accepted version with the old value, so the history keeps the bad one
+  rollback(knowledgeId: string, version: number, requestedBy: string): KnowledgeVersion {
+    const target = this.requireVersion(knowledgeId, version);
+    const restored = this.append(knowledgeId, {
+      category: target.category,
+      key: target.key,
+      value: target.value,
+      source_agent: target.source_agent,
+      confidence_score: target.confidence_score
+    }, 'accepted');
+
+    restored.rolled_back_from = target.version;
+    restored.resolved_by = requestedBy;
+    return restored;
+  }
+
+  getPendingConflicts(category?: string): KnowledgeConflict[] {
+    return Array.from(this.conflicts.values())
+      .filter(conflict => !category || conflict.category === category)
+      .sort((a, b) => a.raised_at.localeCompare(b.raised_at));
+  }
+
+  getConflict(conflictId: string): KnowledgeConflict | undefined {
+    return this.conflicts.get(conflictId);
+  }
+
+  // Accepting makes the proposed version current; returns it, or undefined when dismissed
+  resolveConflict(conflictId: string, decision: 'accept' | 'reject', resolvedBy: string): KnowledgeVersion | undefined {
+    const conflict = this.conflicts.get(conflictId);
+    if (!conflict) {
+      throw new Error(`Knowledge conflict not found: ${conflictId}`);
+    }
+
+    const proposed = this.requireVersion(conflict.knowledge_id, conflict.proposed_version);
+    this.conflicts.delete(conflictId);
+    proposed.resolved_by = resolvedBy;
+
+    if (decision === 'accept') {
+      proposed.status = 'accepted';
+      this.current.set(conflict.knowledge_id, proposed.version);
+      return proposed;
+    }
+
+    proposed.status = 'dismissed';
+    return undefined;
+  }
+
+  snapshot(): KnowledgeVersionSnapshot {
+    return {
+      versions: Array.from(this.histories.values()).flat(),
+      ...this.stateSnapshot()
+    };
+  }
+
+  // Everything but the histories, for storage that keeps each key's history as its own record
+  stateSnapshot(): Omit<KnowledgeVersionSnapshot, 'versions'> {
+    return {
+      current: Array.from(this.current.entries()),
+      conflicts: Array.from(this.conflicts.values()),
+      policies: Array.from(this.policies.entries()),
+      defaultPolicy: this.defaultPolicy
+    };
+  }
+
+  restore(snapshot: Partial<KnowledgeVersionSnapshot>): void {
+    this.histories.clear();
+    for (const version of snapshot.versions || []) {
+      const history = this.histories.get(version.knowledge_id) || [];
+      history.push(version);
+      this.histories.set(version.knowledge_id, history);
+    }
+    this.current = new Map(snapshot.current || []);
+    this.conflicts = new Map((snapshot.conflicts || []).map(conflict => [conflict.id, conflict]));
+    this.policies = new Map(snapshot.policies || []);
+    if (snapshot.defaultPolicy) {
+      this.defaultPolicy = snapshot.defaultPolicy;
+    }
+  }
+
+  private adopt(knowledgeId: string, existing: any): void {
+    const version = this.append(knowledgeId, {
+      category: existing.category,
+      key: existing.key,
+      value: existing.value,
+      source_agent: existing.source_agent || 'system',
+      confidence_score: existing.confidence_score ?? 1.0
+    }, 'accepted');
+    version.created_at = existing.updated_at || existing.created_at || version.created_at;
+  }
+
+  private append(knowledgeId: string, proposal: KnowledgeProposal, status: KnowledgeVersionStatus): KnowledgeVersion {
+    const history = this.histories.get(knowledgeId) || [];
+    const version: KnowledgeVersion = {
+      knowledge_id: knowledgeId,
+      category: proposal.category,
+      key: proposal.key,
+      version: history.length > 0 ? history[history.length - 1].version + 1 : 1,
+      value: proposal.value,
+      confidence_score: proposal.confidence_score,
+      source_agent: proposal.source_agent,
+      status,
+      created_at: clock.date().toISOString()
+    };
+
+    history.push(version);
+    this.histories.set(knowledgeId, history);
+    if (status === 'accepted') {
+      this.current.set(knowledgeId, version.version);
+    }
+    this.prune(knowledgeId, history);
+    return version;
+  }
+
+  private prune(knowledgeId: string, history: KnowledgeVersion[]): void {
+    const current = this.current.get(knowledgeId);
+    while (history.length > this.maxVersionsPerKey) {
+      const index = history.findIndex(version => version.version !== current && version.status !== 'pending');
+      if (index === -1) return;
+      history.splice(index, 1);
+    }
+  }
+
+  private requireVersion(knowledgeId: string, version: number): KnowledgeVersion {
+    const found = this.getVersion(knowledgeId, version);
+    if (!found) {
+      throw new Error(`Version ${version} of ${knowledgeId} not found`);
+    }
+    return found;
+  }
+}
+
+// Structural diff of two knowledge values; objects and arrays are compared member by member
+export function diffKnowledgeValues(before: any, after: any, path: string = ''): KnowledgeChange[] {
+  const isContainer = (value: any) => typeof value === 'object' && value !== null;
+
+  if (isContainer(before) && isContainer(after) && Array.isArray(before) === Array.isArray(after)) {
+    const changes: KnowledgeChange[] = [];
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+    for (const key of keys) {
+      const childPath = path ? `${path}.${key}` : key;
+      if (!(key in after)) {
+        changes.push({ path: childPath, kind: 'removed', before: before[key] });
+      } else if (!(key in before)) {
+        changes.push({ path: childPath, kind: 'added', after: after[key] });
+      } else {
+        changes.push(...diffKnowledgeValues(before[key], after[key], childPath));
+      }
+    }
+    return changes;
+  }
+
+  return Object.is(before, after) ? [] : [{ path, kind: 'changed', before, after }];
+}
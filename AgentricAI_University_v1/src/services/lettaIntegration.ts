@@ -1,13 +1,54 @@
-// Letta Integration Service - Demo Mode Only
-// This service provides a placeholder for future Letta integration
-// Currently operates in demo mode to show the intended architecture
+// Letta Integration Service - Agent conversations over a pluggable LLM provider
+// Defaults to demo mode; set VITE_LLM_PROVIDER to 'letta', 'openai-compatible' or 'ollama'
+// (with VITE_LLM_BASE_URL, VITE_LLM_MODEL and VITE_LLM_API_KEY) to use a real backend.
+// `npm run llm:stub` starts a local server that speaks all three protocols.
+
+import {
+  LLMProvider,
+  LLMProviderConfig,
+  LLMProviderKind,
+  LLMMessage,
+  LLMToolCall,
+  LLMToolDefinition,
+  LLMStreamChunk,
+  LLMUsage,
+  MemoryBlock,
+  createLLMProvider,
+  trimHistory
+} from './llmProviders';
+
+export type ToolHandler = (args: Record<string, any>) => Promise<any> | any;
+
+export interface GenerateTextOptions {
+  system?: string;
+  memoryBlocks?: MemoryBlock[];
+  temperature?: number;
+  maxTokens?: number;
+  // Called with the token counts when the provider reports them, e.g. to charge the resource ledger
+  onUsage?: (usage: LLMUsage, model: string) => void | Promise<void>;
+}
+
+interface AgentSession {
+  id: string;
+  name: string;
+  system?: string;
+  memoryBlocks: MemoryBlock[];
+  history: LLMMessage[];
+  createdAt: Date;
+}
 
 export class LettaAgentService {
   private static instance: LettaAgentService;
+  private provider: LLMProvider;
   private isConnected: boolean = false;
+  private sessions: Map<string, AgentSession> = new Map();
+  private tools: Map<string, { definition: LLMToolDefinition; handler: ToolHandler }> = new Map();
+  private maxToolRounds: number = 3;
+  private maxHistory: number = 40;
 
   private constructor() {
-    console.log('🤖 Letta Agent Service initialized in demo mode');
+    this.provider = createLLMProvider(this.readEnvironmentConfig());
+    console.log(`🤖 Letta Agent Service initialized with ${this.provider.kind} provider`);
   }
 
   static getInstance(): LettaAgentService {
@@ -17,36 +58,241 @@ export class LettaAgentService {
     return LettaAgentService.instance;
   }
 
-  // Demo mode create agent
+  // Provider Management
+  configureProvider(config: LLMProviderConfig): void {
+    console.log(`🔌 Switching LLM provider to ${config.kind}`);
+    this.provider = createLLMProvider(config);
+    this.isConnected = false;
+    this.sessions.clear();
+  }
+
+  async connect(): Promise<boolean> {
+    this.isConnected = await this.provider.healthCheck();
+    return this.isConnected;
+  }
+
+  isEnabled(): boolean {
+    return this.provider.kind !== 'demo';
+  }
+
+  getProvider(): LLMProvider {
+    return this.provider;
+  }
+
+  registerTool(definition: LLMToolDefinition, handler: ToolHandler): void {
+    this.tools.set(definition.name, { definition, handler });
+  }
+
+  // Agent Conversations
   async createUniversityAgent(agentConfig: any) {
-    console.log('📝 Demo Mode: Would create Letta agent:', agentConfig.name);
+    const memoryBlocks: MemoryBlock[] = agentConfig.memoryBlocks || agentConfig.memory_blocks || [];
+    const system = agentConfig.system || agentConfig.persona;
+
+    let id = `${this.provider.kind}-agent-${Date.now()}`;
+    if (this.provider.createAgent) {
+      const agent = await this.provider.createAgent({
+        name: agentConfig.name,
+        system,
+        memoryBlocks,
+        tools: this.getToolDefinitions()
+      });
+      id = agent.id;
+    }
+
+    this.sessions.set(id, {
+      id,
+      name: agentConfig.name,
+      system,
+      memoryBlocks: [...memoryBlocks],
+      history: [],
+      createdAt: new Date()
+    });
+
+    console.log(`📝 Created ${this.provider.kind} agent: ${agentConfig.name} (${id})`);
     return {
-      id: `demo-letta-${Date.now()}`,
+      id,
       name: agentConfig.name,
-      status: 'demo',
+      status: this.provider.kind === 'demo' ? 'demo' : 'active',
+      provider: this.provider.kind,
       created_at: new Date().toISOString()
     };
   }
 
-  // Demo mode send message
   async sendMessageToAgent(agentId: string, message: string) {
-    console.log('💬 Demo Mode: Would send message to Letta agent:', { agentId, message });
+    const session = this.getSession(agentId);
+    const turn: LLMMessage[] = [{ role: 'user', content: message }];
+
+    let response = await this.provider.complete(this.buildRequest(session, turn));
+    const toolResults: any[] = [];
+
+    // Letta runs tools server-side; everyone else hands tool calls back to us
+    for (let round = 0; round < this.maxToolRounds && this.shouldRunTools(response.toolCalls); round++) {
+      turn.push({ role: 'assistant', content: response.content, toolCalls: response.toolCalls });
+
+      for (const call of response.toolCalls) {
+        const result = await this.runTool(call);
+        toolResults.push({ tool: call.name, arguments: call.arguments, result });
+        turn.push({ role: 'tool', content: JSON.stringify(result), toolCallId: call.id });
+      }
+
+      response = await this.provider.complete(this.buildRequest(session, turn));
+    }
+
+    turn.push({ role: 'assistant', content: response.content });
+    this.appendHistory(session, turn);
+
     return {
-      id: `demo-msg-${Date.now()}`,
-      content: `Demo response to: ${message}`,
+      id: response.id,
+      content: response.content,
+      tool_calls: response.toolCalls,
+      tool_results: toolResults,
+      provider: response.provider,
       timestamp: new Date().toISOString()
     };
   }
 
+  // Aborting `signal` stops the stream; the unfinished turn is left out of the history
+  async *streamMessageToAgent(agentId: string, message: string, signal?: AbortSignal): AsyncGenerator<LLMStreamChunk> {
+    const session = this.getSession(agentId);
+    const turn: LLMMessage[] = [{ role: 'user', content: message }];
+    let content = '';
+
+    for await (const chunk of this.provider.stream({ ...this.buildRequest(session, turn), signal })) {
+      content += chunk.delta;
+      yield chunk;
+    }
+
+    turn.push({ role: 'assistant', content });
+    this.appendHistory(session, turn);
+  }
+
+  // One-shot generation for agents that only need text back
+  async generateText(prompt: string, options: GenerateTextOptions = {}): Promise<string> {
+    const messages: LLMMessage[] = [];
+    if (options.system) {
+      messages.push({ role: 'system', content: options.system });
+    }
+    messages.push({ role: 'user', content: prompt });
+
+    const response = await this.provider.complete({
+      messages,
+      memoryBlocks: options.memoryBlocks,
+      temperature: options.temperature,
+      maxTokens: options.maxTokens
+    });
+
+    if (response.usage && options.onUsage) {
+      await options.onUsage(response.usage, response.model);
+    }
+
+    return response.content;
+  }
+
+  // Memory Blocks
+  async getMemoryBlocks(agentId: string): Promise<MemoryBlock[]> {
+    if (this.provider.getMemoryBlocks) {
+      return this.provider.getMemoryBlocks(agentId);
+    }
+    return [...this.getSession(agentId).memoryBlocks];
+  }
+
+  async updateMemoryBlock(agentId: string, label: string, value: string): Promise<void> {
+    if (this.provider.updateMemoryBlock) {
+      await this.provider.updateMemoryBlock(agentId, label, value);
+    }
+
+    const session = this.sessions.get(agentId);
+    if (!session) return;
+
+    const block = session.memoryBlocks.find(b => b.label === label);
+    if (block) {
+      block.value = value;
+    } else {
+      session.memoryBlocks.push({ label, value });
+    }
+  }
+
   // Get connection status
   getConnectionStatus() {
     return {
-      isConnected: false,
-      mode: 'demo',
-      message: 'Letta integration ready for future implementation'
+      isConnected: this.provider.kind === 'demo' ? false : this.isConnected,
+      mode: this.provider.kind,
+      model: this.provider.model,
+      message: this.provider.kind === 'demo'
+        ? 'Demo mode: configure VITE_LLM_PROVIDER to use a language model'
+        : `Using ${this.provider.kind} provider (${this.provider.model})`
     };
   }
+
+  // Private helper methods
+  private readEnvironmentConfig(): LLMProviderConfig {
+    const env = import.meta.env || {};
+
+    return {
+      kind: (env.VITE_LLM_PROVIDER as LLMProviderKind) || 'demo',
+      baseUrl: env.VITE_LLM_BASE_URL,
+      apiKey: env.VITE_LLM_API_KEY,
+      model: env.VITE_LLM_MODEL
+    };
+  }
+
+  private getSession(agentId: string): AgentSession {
+    let session = this.sessions.get(agentId);
+
+    // Agents created elsewhere (e.g. directly on a Letta server) still get a local session
+    if (!session) {
+      session = { id: agentId, name: agentId, memoryBlocks: [], history: [], createdAt: new Date() };
+      this.sessions.set(agentId, session);
+    }
+
+    return session;
+  }
+
+  private buildRequest(session: AgentSession, turn: LLMMessage[]) {
+    const statefulProvider = this.provider.kind === 'letta';
+    const messages: LLMMessage[] = statefulProvider
+      ? turn
+      : [
+          ...(session.system ? [{ role: 'system' as const, content: session.system }] : []),
+          ...session.history,
+          ...turn
+        ];
+
+    return {
+      agentId: statefulProvider ? session.id : undefined,
+      messages,
+      memoryBlocks: statefulProvider ? undefined : session.memoryBlocks,
+      tools: this.getToolDefinitions()
+    };
+  }
+
+  private getToolDefinitions(): LLMToolDefinition[] | undefined {
+    if (this.tools.size === 0) return undefined;
+    return Array.from(this.tools.values()).map(tool => tool.definition);
+  }
+
+  private shouldRunTools(toolCalls: LLMToolCall[]): boolean {
+    return this.provider.kind !== 'letta' && toolCalls.length > 0;
+  }
+
+  private async runTool(call: LLMToolCall): Promise<any> {
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      return { error: `Unknown tool: ${call.name}` };
+    }
+
+    try {
+      return await tool.handler(call.arguments);
+    } catch (error) {
+      console.error(`Tool ${call.name} failed:`, error);
+      return { error: (error as Error).message };
+    }
+  }
+
+  private appendHistory(session: AgentSession, turn: LLMMessage[]): void {
+    session.history = trimHistory([...session.history, ...turn], this.maxHistory);
+  }
 }
 
 // Export singleton instance
-export const lettaService = LettaAgentService.getInstance();
\ No newline at end of file
+export const lettaService = LettaAgentService.getInstance();
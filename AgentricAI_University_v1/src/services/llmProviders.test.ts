@@ -0,0 +1,116 @@
+import { ChildProcess, spawn } from 'node:child_process';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  LettaProvider,
+  LLMMessage,
+  LLMProvider,
+  LLMRequest,
+  LLMToolCall,
+  OllamaProvider,
+  OpenAICompatibleProvider,
+  trimHistory
+} from './llmProviders';
+
+const weatherTool = { name: 'lookup_weather', description: 'Looks up the weather', parameters: { type: 'object' } };
+
+async function collect(provider: LLMProvider, request: LLMRequest) {
+  let content = '';
+  const toolCalls: LLMToolCall[] = [];
+  for await (const chunk of provider.stream(request)) {
+    content += chunk.delta;
+    toolCalls.push(...(chunk.toolCalls || []));
+  }
+  return { content, toolCalls };
+}
+
+describe('LLM providers against the stub server', () => {
+  let server: ChildProcess;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = spawn(process.execPath, ['scripts/llm-stub-server.js', '--port', '0']);
+    baseUrl = await new Promise<string>((resolve, reject) => {
+      server.stdout!.on('data', data => {
+        const match = String(data).match(/http:\/\/localhost:\d+/);
+        if (match) resolve(match[0]);
+      });
+      server.on('exit', code => reject(new Error(`Stub server exited with ${code}`)));
+    });
+  });
+
+  afterAll(() => {
+    server.kill();
+  });
+
+  it('completes and streams over the OpenAI-compatible protocol, tool calls included', async () => {
+    const provider = new OpenAICompatibleProvider({ kind: 'openai-compatible', baseUrl });
+    const request: LLMRequest = { messages: [{ role: 'user', content: 'hello there' }] };
+
+    const response = await provider.complete(request);
+    expect(response).toMatchObject({ content: 'Stub reply: hello there', usage: { promptTokens: 2, completionTokens: 4 } });
+    expect(await collect(provider, request)).toEqual({ content: 'Stub reply: hello there', toolCalls: [] });
+
+    const toolRequest: LLMRequest = { messages: [{ role: 'user', content: 'use lookup_weather' }], tools: [weatherTool] };
+    expect((await provider.complete(toolRequest)).toolCalls).toMatchObject([{ name: 'lookup_weather', arguments: { query: 'use lookup_weather' } }]);
+    expect((await collect(provider, toolRequest)).toolCalls).toMatchObject([{ name: 'lookup_weather' }]);
+  });
+
+  it('completes and streams over the Ollama protocol', async () => {
+    const provider = new OllamaProvider({ kind: 'ollama', baseUrl });
+    const request: LLMRequest = { messages: [{ role: 'user', content: 'hello there' }] };
+
+    expect(await provider.complete(request)).toMatchObject({ content: 'Stub reply: hello there', finishReason: 'stop' });
+    expect((await collect(provider, request)).content).toBe('Stub reply: hello there');
+  });
+
+  it('keeps Letta agents and their memory blocks on the server', async () => {
+    const provider = new LettaProvider({ kind: 'letta', baseUrl });
+    const { id } = await provider.createAgent({ name: 'tutor', memoryBlocks: [{ label: 'persona', value: 'patient' }] });
+
+    await provider.updateMemoryBlock(id, 'human', 'likes trains');
+    expect(await provider.getMemoryBlocks(id)).toMatchObject([{ label: 'persona' }, { label: 'human', value: 'likes trains' }]);
+    expect((await provider.complete({ agentId: id, messages: [{ role: 'user', content: 'hi' }] })).content).toBe('Stub reply: hi');
+    expect((await collect(provider, { agentId: id, messages: [{ role: 'user', content: 'bye' }] })).content).toBe('Stub reply: bye');
+  });
+
+  it('fails a stream that stops sending chunks', async () => {
+    const provider = new OpenAICompatibleProvider({ kind: 'openai-compatible', baseUrl, timeoutMs: 200 });
+
+    await expect(collect(provider, { messages: [{ role: 'user', content: 'wait [stall]' }] }))
+      .rejects.toThrow('openai-compatible request to /v1/chat/completions timed out after 200ms');
+  });
+
+  it('stops a stream when the caller aborts', async () => {
+    const provider = new OllamaProvider({ kind: 'ollama', baseUrl });
+    const controller = new AbortController();
+    const deltas: string[] = [];
+
+    const streaming = (async () => {
+      for await (const chunk of provider.stream({ messages: [{ role: 'user', content: 'wait [stall]' }], signal: controller.signal })) {
+        deltas.push(chunk.delta);
+        controller.abort();
+      }
+    })();
+
+    await expect(streaming).rejects.toThrow('ollama request to /api/chat was aborted');
+    expect(deltas).toEqual(['Stub ']);
+  });
+});
+
+describe('trimHistory', () => {
+  it('drops tool results together with the call they answer', () => {
+    const history: LLMMessage[] = [
+      { role: 'user', content: 'weather?' },
+      { role: 'assistant', content: '', toolCalls: [{ id: 'call-1', name: 'lookup_weather', arguments: {} }] },
+      { role: 'tool', content: '{"sunny":true}', toolCallId: 'call-1' },
+      { role: 'tool', content: '{"warm":true}', toolCallId: 'call-1' },
+      { role: 'assistant', content: 'Sunny and warm' },
+      { role: 'user', content: 'thanks' },
+      { role: 'assistant', content: 'You are welcome' }
+    ];
+
+    expect(trimHistory(history, 5).map(message => message.content)).toEqual(['Sunny and warm', 'thanks', 'You are welcome']);
+    expect(trimHistory(history, 6)).toEqual(history.slice(1));
+    expect(trimHistory(history, 10)).toBe(history);
+  });
+});
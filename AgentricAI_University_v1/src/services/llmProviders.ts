@@ -0,0 +1,628 @@
+// LLM Providers - Pluggable text generation backends for AgentricAI University
+// Supports Letta, OpenAI-compatible and Ollama-style HTTP endpoints
+
+export type LLMProviderKind = 'demo' | 'letta' | 'openai-compatible' | 'ollama';
+
+export interface LLMProviderConfig {
+  kind: LLMProviderKind;
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+  // Limit for a whole request, and for streams the longest wait between two chunks
+  timeoutMs?: number;
+}
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  toolCallId?: string;
+  toolCalls?: LLMToolCall[];
+}
+
+export interface MemoryBlock {
+  label: string;
+  value: string;
+  limit?: number;
+}
+
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export interface LLMRequest {
+  agentId?: string;
+  messages: LLMMessage[];
+  memoryBlocks?: MemoryBlock[];
+  tools?: LLMToolDefinition[];
+  temperature?: number;
+  maxTokens?: number;
+  // Aborting stops the request, or a stream between chunks
+  signal?: AbortSignal;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LLMResponse {
+  id: string;
+  content: string;
+  toolCalls: LLMToolCall[];
+  provider: LLMProviderKind;
+  model: string;
+  finishReason?: string;
+  // Token counts, when the backend reports them
+  usage?: LLMUsage;
+}
+
+export interface LLMStreamChunk {
+  delta: string;
+  toolCalls?: LLMToolCall[];
+  done: boolean;
+}
+
+export interface LLMAgentConfig {
+  name: string;
+  system?: string;
+  memoryBlocks?: MemoryBlock[];
+  tools?: LLMToolDefinition[];
+}
+
+export interface LLMProvider {
+  readonly kind: LLMProviderKind;
+  readonly model: string;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+  stream(request: LLMRequest): AsyncGenerator<LLMStreamChunk>;
+  healthCheck(): Promise<boolean>;
+  // Only providers that keep agent state server-side implement these
+  createAgent?(config: LLMAgentConfig): Promise<{ id: string }>;
+  getMemoryBlocks?(agentId: string): Promise<MemoryBlock[]>;
+  updateMemoryBlock?(agentId: string, label: string, value: string): Promise<void>;
+}
+
+export class LLMProviderError extends Error {
+  constructor(message: string, public provider: LLMProviderKind, public status?: number) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
+
+interface HttpRequestInit {
+  method?: string;
+  body?: any;
+  signal?: AbortSignal;
+}
+
+interface OpenRequest {
+  response: Response;
+  // Restarts the timeout, e.g. when a stream chunk arrives
+  touch(): void;
+  close(): void;
+}
+
+// Shared HTTP plumbing
+abstract class HttpLLMProvider implements LLMProvider {
+  abstract readonly kind: LLMProviderKind;
+  readonly model: string;
+  protected baseUrl: string;
+  protected apiKey?: string;
+  protected timeoutMs: number;
+
+  constructor(config: LLMProviderConfig, defaultBaseUrl: string, defaultModel: string) {
+    this.baseUrl = (config.baseUrl || defaultBaseUrl).replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+    this.model = config.model || defaultModel;
+    this.timeoutMs = config.timeoutMs || 60000;
+  }
+
+  abstract complete(request: LLMRequest): Promise<LLMResponse>;
+  abstract stream(request: LLMRequest): AsyncGenerator<LLMStreamChunk>;
+  abstract healthCheck(): Promise<boolean>;
+
+  protected async request(path: string, init: HttpRequestInit = {}): Promise<Response> {
+    const { response, close } = await this.open(path, init);
+    close();
+    return response;
+  }
+
+  protected async json(path: string, init: HttpRequestInit = {}): Promise<any> {
+    const { response, close } = await this.open(path, init);
+    try {
+      return await response.json();
+    } catch (error) {
+      throw this.failure(path, error, init.signal);
+    } finally {
+      close();
+    }
+  }
+
+  // Lines of a streamed body; the timeout restarts with every chunk, so only a stalled stream fails
+  protected async *streamLines(path: string, init: HttpRequestInit = {}): AsyncGenerator<string> {
+    const { response, touch, close } = await this.open(path, init);
+    try {
+      for await (const line of readLines(response, touch)) {
+        yield line;
+      }
+    } catch (error) {
+      throw this.failure(path, error, init.signal);
+    } finally {
+      close();
+    }
+  }
+
+  private async open(path: string, init: HttpRequestInit): Promise<OpenRequest> {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    let timeoutId = setTimeout(abort, this.timeoutMs);
+    if (init.signal?.aborted) abort();
+    init.signal?.addEventListener('abort', abort);
+
+    const close = () => {
+      clearTimeout(timeoutId);
+      init.signal?.removeEventListener('abort', abort);
+    };
+    const touch = () => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(abort, this.timeoutMs);
+    };
+
+    try {
+      const response = await fetch(`${this.baseUrl}${path}`, {
+        method: init.method || (init.body ? 'POST' : 'GET'),
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+        },
+        body: init.body ? JSON.stringify(init.body) : undefined,
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new LLMProviderError(`${this.kind} request to ${path} failed with ${response.status}: ${detail}`, this.kind, response.status);
+      }
+
+      return { response, touch, close };
+    } catch (error) {
+      close();
+      throw this.failure(path, error, init.signal);
+    }
+  }
+
+  private failure(path: string, error: unknown, signal?: AbortSignal): LLMProviderError {
+    if (error instanceof LLMProviderError) return error;
+    if (signal?.aborted) return new LLMProviderError(`${this.kind} request to ${path} was aborted`, this.kind);
+    if ((error as Error)?.name === 'AbortError') {
+      return new LLMProviderError(`${this.kind} request to ${path} timed out after ${this.timeoutMs}ms`, this.kind);
+    }
+    return new LLMProviderError(`${this.kind} request to ${path} failed: ${(error as Error).message}`, this.kind);
+  }
+}
+
+// Letta keeps agents, memory blocks and tools on the server
+export class LettaProvider extends HttpLLMProvider {
+  readonly kind: LLMProviderKind = 'letta';
+  private defaultAgentId: string | null = null;
+
+  constructor(config: LLMProviderConfig) {
+    super(config, 'http://localhost:8283', 'openai/gpt-4o-mini');
+  }
+
+  async createAgent(config: LLMAgentConfig): Promise<{ id: string }> {
+    const agent = await this.json('/v1/agents', {
+      body: {
+        name: config.name,
+        model: this.model,
+        system: config.system,
+        memory_blocks: (config.memoryBlocks || []).map(block => ({
+          label: block.label,
+          value: block.value,
+          limit: block.limit
+        })),
+        tools: (config.tools || []).map(tool => tool.name)
+      }
+    });
+
+    return { id: agent.id };
+  }
+
+  async getMemoryBlocks(agentId: string): Promise<MemoryBlock[]> {
+    const blocks = await this.json(`/v1/agents/${agentId}/core-memory/blocks`);
+    return (blocks || []).map((block: any) => ({ label: block.label, value: block.value, limit: block.limit }));
+  }
+
+  async updateMemoryBlock(agentId: string, label: string, value: string): Promise<void> {
+    await this.json(`/v1/agents/${agentId}/core-memory/blocks/${label}`, { method: 'PATCH', body: { value } });
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const agentId = await this.resolveAgentId(request);
+    const result = await this.json(`/v1/agents/${agentId}/messages`, {
+      body: { messages: this.toLettaMessages(request.messages) },
+      signal: request.signal
+    });
+
+    const messages: any[] = result.messages || [];
+    return {
+      id: `letta-${Date.now()}`,
+      content: messages
+        .filter(m => m.message_type === 'assistant_message')
+        .map(m => m.content)
+        .join(''),
+      toolCalls: messages
+        .filter(m => m.message_type === 'tool_call_message')
+        .map(m => this.parseToolCall(m.tool_call)),
+      provider: this.kind,
+      model: this.model,
+      finishReason: result.stop_reason?.stop_reason,
+      usage: result.usage ? {
+        promptTokens: result.usage.prompt_tokens || 0,
+        completionTokens: result.usage.completion_tokens || 0
+      } : undefined
+    };
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+    const agentId = await this.resolveAgentId(request);
+    const lines = this.streamLines(`/v1/agents/${agentId}/messages/stream`, {
+      body: { messages: this.toLettaMessages(request.messages), stream_tokens: true },
+      signal: request.signal
+    });
+
+    for await (const event of readServerSentEvents(lines)) {
+      if (event === '[DONE]') break;
+
+      const message = JSON.parse(event);
+      if (message.message_type === 'assistant_message') {
+        yield { delta: message.content || '', done: false };
+      } else if (message.message_type === 'tool_call_message') {
+        yield { delta: '', toolCalls: [this.parseToolCall(message.tool_call)], done: false };
+      }
+    }
+
+    yield { delta: '', done: true };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.request('/v1/health');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async resolveAgentId(request: LLMRequest): Promise<string> {
+    if (request.agentId) return request.agentId;
+
+    // Stateless generation goes through one shared agent
+    if (!this.defaultAgentId) {
+      const agent = await this.createAgent({
+        name: 'agentricai-text-generator',
+        memoryBlocks: request.memoryBlocks
+      });
+      this.defaultAgentId = agent.id;
+    }
+
+    return this.defaultAgentId;
+  }
+
+  private toLettaMessages(messages: LLMMessage[]): any[] {
+    // Letta holds the history itself, so only the new turns are sent
+    return messages
+      .filter(m => m.role === 'user' || m.role === 'system')
+      .map(m => ({ role: m.role, content: m.content }));
+  }
+
+  private parseToolCall(toolCall: any): LLMToolCall {
+    return {
+      id: toolCall?.tool_call_id || `call-${Date.now()}`,
+      name: toolCall?.name || 'unknown',
+      arguments: parseToolArguments(toolCall?.arguments)
+    };
+  }
+}
+
+// Any server that speaks the /v1/chat/completions protocol
+export class OpenAICompatibleProvider extends HttpLLMProvider {
+  readonly kind: LLMProviderKind = 'openai-compatible';
+
+  constructor(config: LLMProviderConfig) {
+    super(config, 'http://localhost:8000', 'gpt-4o-mini');
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const result = await this.json('/v1/chat/completions', { body: this.buildBody(request, false), signal: request.signal });
+    const choice = result.choices?.[0] || {};
+
+    return {
+      id: result.id || `chat-${Date.now()}`,
+      content: choice.message?.content || '',
+      toolCalls: (choice.message?.tool_calls || []).map((call: any) => ({
+        id: call.id,
+        name: call.function?.name,
+        arguments: parseToolArguments(call.function?.arguments)
+      })),
+      provider: this.kind,
+      model: result.model || this.model,
+      finishReason: choice.finish_reason,
+      usage: result.usage ? {
+        promptTokens: result.usage.prompt_tokens || 0,
+        completionTokens: result.usage.completion_tokens || 0
+      } : undefined
+    };
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+    const lines = this.streamLines('/v1/chat/completions', { body: this.buildBody(request, true), signal: request.signal });
+
+    // Tool call arguments arrive in fragments keyed by index
+    const pendingCalls: Map<number, { id: string; name: string; arguments: string }> = new Map();
+
+    for await (const event of readServerSentEvents(lines)) {
+      if (event === '[DONE]') break;
+
+      const delta = JSON.parse(event).choices?.[0]?.delta || {};
+      for (const call of delta.tool_calls || []) {
+        const pending = pendingCalls.get(call.index) || { id: call.id, name: '', arguments: '' };
+        pending.name += call.function?.name || '';
+        pending.arguments += call.function?.arguments || '';
+        pendingCalls.set(call.index, pending);
+      }
+
+      if (delta.content) {
+        yield { delta: delta.content, done: false };
+      }
+    }
+
+    const toolCalls = Array.from(pendingCalls.values()).map(call => ({
+      id: call.id,
+      name: call.name,
+      arguments: parseToolArguments(call.arguments)
+    }));
+
+    yield { delta: '', toolCalls: toolCalls.length > 0 ? toolCalls : undefined, done: true };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.request('/v1/models');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private buildBody(request: LLMRequest, stream: boolean): any {
+    return {
+      model: this.model,
+      stream,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      messages: withMemoryBlocks(request).map(m => ({
+        role: m.role,
+        content: m.content,
+        ...(m.toolCallId ? { tool_call_id: m.toolCallId } : {}),
+        ...(m.toolCalls ? {
+          tool_calls: m.toolCalls.map(call => ({
+            id: call.id,
+            type: 'function',
+            function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+          }))
+        } : {})
+      })),
+      tools: request.tools?.map(tool => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+      }))
+    };
+  }
+}
+
+// Ollama's native /api/chat endpoint, streamed as newline-delimited JSON
+export class OllamaProvider extends HttpLLMProvider {
+  readonly kind: LLMProviderKind = 'ollama';
+
+  constructor(config: LLMProviderConfig) {
+    super(config, 'http://localhost:11434', 'llama3.1');
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const result = await this.json('/api/chat', { body: this.buildBody(request, false), signal: request.signal });
+
+    return {
+      id: `ollama-${Date.now()}`,
+      content: result.message?.content || '',
+      toolCalls: this.parseToolCalls(result.message?.tool_calls),
+      provider: this.kind,
+      model: result.model || this.model,
+      finishReason: result.done_reason,
+      usage: result.prompt_eval_count !== undefined || result.eval_count !== undefined ? {
+        promptTokens: result.prompt_eval_count || 0,
+        completionTokens: result.eval_count || 0
+      } : undefined
+    };
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+    for await (const line of this.streamLines('/api/chat', { body: this.buildBody(request, true), signal: request.signal })) {
+      const chunk = JSON.parse(line);
+      const toolCalls = this.parseToolCalls(chunk.message?.tool_calls);
+
+      yield {
+        delta: chunk.message?.content || '',
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        done: Boolean(chunk.done)
+      };
+
+      if (chunk.done) return;
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.request('/api/tags');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private buildBody(request: LLMRequest, stream: boolean): any {
+    return {
+      model: this.model,
+      stream,
+      options: {
+        temperature: request.temperature,
+        num_predict: request.maxTokens
+      },
+      messages: withMemoryBlocks(request).map(m => ({
+        role: m.role,
+        content: m.content,
+        ...(m.toolCalls ? {
+          tool_calls: m.toolCalls.map(call => ({ function: { name: call.name, arguments: call.arguments } }))
+        } : {})
+      })),
+      tools: request.tools?.map(tool => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+      }))
+    };
+  }
+
+  private parseToolCalls(toolCalls: any[] | undefined): LLMToolCall[] {
+    return (toolCalls || []).map((call, index) => ({
+      id: `ollama-call-${Date.now()}-${index}`,
+      name: call.function?.name,
+      arguments: parseToolArguments(call.function?.arguments)
+    }));
+  }
+}
+
+// Offline fallback that keeps the previous demo behaviour
+export class DemoProvider implements LLMProvider {
+  readonly kind: LLMProviderKind = 'demo';
+  readonly model: string = 'demo';
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const lastUserMessage = [...request.messages].reverse().find(m => m.role === 'user');
+
+    return {
+      id: `demo-msg-${Date.now()}`,
+      content: `Demo response to: ${lastUserMessage?.content || ''}`,
+      toolCalls: [],
+      provider: this.kind,
+      model: this.model,
+      finishReason: 'stop'
+    };
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+    const response = await this.complete(request);
+
+    for (const word of response.content.split(/(?<= )/)) {
+      yield { delta: word, done: false };
+    }
+    yield { delta: '', done: true };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+}
+
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+  switch (config.kind) {
+    case 'letta':
+      return new LettaProvider(config);
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(config);
+    case 'ollama':
+      return new OllamaProvider(config);
+    case 'demo':
+      return new DemoProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${config.kind}`);
+  }
+}
+
+// Stateless providers get memory blocks rendered into the system prompt
+function withMemoryBlocks(request: LLMRequest): LLMMessage[] {
+  if (!request.memoryBlocks || request.memoryBlocks.length === 0) {
+    return request.messages;
+  }
+
+  const memory = request.memoryBlocks
+    .map(block => `<${block.label}>\n${block.value}\n</${block.label}>`)
+    .join('\n');
+
+  return [{ role: 'system', content: `Core memory:\n${memory}` }, ...request.messages];
+}
+
+// Drops the oldest messages beyond `maxMessages`, never keeping a tool result without the call that asked for it
+export function trimHistory(messages: LLMMessage[], maxMessages: number): LLMMessage[] {
+  let start = Math.max(0, messages.length - maxMessages);
+  while (start < messages.length && messages[start].role === 'tool') {
+    start++;
+  }
+  return start > 0 ? messages.slice(start) : messages;
+}
+
+function parseToolArguments(args: any): Record<string, any> {
+  if (!args) return {};
+  if (typeof args !== 'string') return args;
+
+  try {
+    return JSON.parse(args);
+  } catch {
+    return { raw: args };
+  }
+}
+
+async function* readLines(response: Response, onChunk: () => void): AsyncGenerator<string> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let finished = false;
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      onChunk();
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (line.trim()) yield line.trim();
+      }
+    }
+    finished = true;
+  } finally {
+    // A consumer that stops early, or an abort, releases the connection
+    if (!finished) reader.cancel().catch(() => {});
+  }
+
+  if (buffer.trim()) yield buffer.trim();
+}
+
+async function* readServerSentEvents(lines: AsyncIterable<string>): AsyncGenerator<string> {
+  for await (const line of lines) {
+    if (line.startsWith('data:')) {
+      yield line.slice(5).trim();
+    }
+  }
+}
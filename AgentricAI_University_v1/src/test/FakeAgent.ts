@@ -0,0 +1,72 @@
+// Fake Agent - Stand-in peer for tests: records what it receives and sends canned replies
+
+import { BaseAgent } from '../agents/base/BaseAgent';
+import { AgentMessage, MessageType } from '../agents/base/AgentTypes';
+
+export interface FakeReply {
+  type: MessageType;
+  data: any;
+}
+
+export type FakeHandler = (message: AgentMessage) => FakeReply | void | Promise<FakeReply | void>;
+
+export class FakeAgent extends BaseAgent {
+  readonly received: AgentMessage[] = [];
+  private handlers: Map<string, FakeHandler> = new Map();
+
+  constructor(id: string, capabilities: string[] = []) {
+    super({
+      id,
+      name: `Fake ${id}`,
+      type: 'meta-agent',
+      version: '0.0.0',
+      capabilities,
+      specialization: 'test_double',
+      neurodiverseOptimized: false,
+      priority: 'low',
+      memoryAllocation: '0MB',
+      status: 'initializing'
+    });
+  }
+
+  // Reply to every `messageType` message with whatever the handler returns
+  on(messageType: string, handler: FakeHandler): this {
+    this.handlers.set(messageType, handler);
+    return this;
+  }
+
+  receivedOfType(messageType: string): AgentMessage[] {
+    return this.received.filter(message => message.type === messageType);
+  }
+
+  clear(): void {
+    this.received.length = 0;
+  }
+
+  async processTask(taskData: any): Promise<any> {
+    return { received: taskData };
+  }
+
+  // Workflow tasks go through on() handlers like any other message; without one the fake runs
+  // processTask and replies with what it received
+  protected async handleWorkflowTask(message: AgentMessage): Promise<void> {
+    if (!this.handlers.has(message.type)) {
+      this.received.push(message);
+      return super.handleWorkflowTask(message);
+    }
+    return this.processMessage(message);
+  }
+
+  // Records every message, workflow tasks included, so it takes a plain AgentMessage
+  protected async processMessage(message: AgentMessage): Promise<void> {
+    this.received.push(message);
+
+    const handler = this.handlers.get(message.type);
+    if (!handler) return;
+
+    const reply = await handler(message);
+    if (reply) {
+      await this.respondTo(message, { ...reply, priority: message.priority });
+    }
+  }
+}
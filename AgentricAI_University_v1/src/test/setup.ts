@@ -0,0 +1,21 @@
+// Test Setup - Browser globals the agents rely on, for running under Node
+// Agents dispatch on `window` and persist to `localStorage`; tests get an in-memory version of each.
+
+if (typeof window === 'undefined') {
+  (globalThis as any).window = new EventTarget();
+}
+
+if (typeof localStorage === 'undefined') {
+  const store = new Map<string, string>();
+
+  (globalThis as any).localStorage = {
+    get length() {
+      return store.size;
+    },
+    key: (index: number) => Array.from(store.keys())[index] ?? null,
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, String(value)),
+    removeItem: (key: string) => store.delete(key),
+    clear: () => store.clear()
+  };
+}
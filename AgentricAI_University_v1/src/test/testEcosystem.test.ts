@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ErrorHandler } from '../agents/error/ErrorHandler';
+import { createTestEcosystem, TestEcosystem } from './testEcosystem';
+
+describe('createTestEcosystem', () => {
+  let ecosystem: TestEcosystem;
+  let errorHandler: ErrorHandler;
+
+  beforeEach(async () => {
+    ecosystem = await createTestEcosystem({
+      agents: [() => new ErrorHandler()],
+      fakes: ['event-bus']
+    });
+    errorHandler = ecosystem.get<ErrorHandler>('error-handler-001');
+  });
+
+  afterEach(async () => {
+    await ecosystem.stop();
+  });
+
+  it('captures events an agent publishes to the Event Bus', async () => {
+    const error = new TypeError('Cannot read properties of undefined');
+    await errorHandler.analyzeError(error, { userType: 'child' });
+
+    ecosystem.expectMessage('error-handler-001', 'event-bus', 'event-publish');
+    const event = ecosystem.expectEvent('error.detected', e => e.data.errorType === 'TypeError');
+    expect(event.agentId).toBe('error-handler-001');
+    expect(event.data.userType).toBe('child');
+    expect(ecosystem.expectEvent('error.*')).toBe(event);
+  });
+
+  it('delivers published events to the fake bus', async () => {
+    await errorHandler.analyzeError(new Error('boom'), {});
+
+    expect(ecosystem.fake('event-bus').receivedOfType('event-publish')).toHaveLength(1);
+  });
+
+  it('reports what it saw when an expectation fails', () => {
+    expect(() => ecosystem.expectMessage('error-handler-001', 'event-bus', 'event-publish'))
+      .toThrow(/Expected event-publish message from error-handler-001 to event-bus/);
+    expect(() => ecosystem.expectEvent('error.resolved')).toThrow(/Events seen/);
+    ecosystem.expectNoMessage('error-handler-001', 'event-bus', 'event-publish');
+  });
+});
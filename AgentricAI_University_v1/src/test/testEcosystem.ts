@@ -0,0 +1,146 @@
+// Test Ecosystem - Boots selected agents with fake peers under virtual time for tests
+// Every message the runtime handles and every event an agent raises is captured, so tests can
+// assert on traffic with expectMessage()/expectEvent() instead of reaching into agent internals.
+
+import { BaseAgent } from '../agents/base/BaseAgent';
+import { AgentEvent, AgentMessage } from '../agents/base/AgentTypes';
+import { AgentRuntime } from '../agents/base/AgentRuntime';
+import { AgentDefinition } from '../agents/system/AgentRegistry';
+import { matchesTopic } from '../agents/communication/EventTopics';
+import { SimulationRunner } from '../agents/simulation/SimulationRunner';
+import { VirtualClock } from '../agents/simulation/VirtualClock';
+import { SeededRandom } from '../agents/simulation/SeededRandom';
+import { FakeAgent } from './FakeAgent';
+
+export interface FakePeerDefinition {
+  id: string;
+  aliases?: string[];
+  capabilities?: string[];
+}
+
+export interface TestEcosystemOptions {
+  // Real agents under test
+  agents?: (AgentDefinition | (() => BaseAgent))[];
+  // Peers they talk to, by id or with aliases; include 'event-bus' to capture published events
+  fakes?: (string | FakePeerDefinition)[];
+  seed?: number;
+  startTime?: number | Date;
+}
+
+export interface TestEcosystem {
+  runtime: AgentRuntime;
+  clock: VirtualClock;
+  random: SeededRandom;
+  messages: AgentMessage[];
+  events: AgentEvent[];
+  get<T extends BaseAgent = BaseAgent>(idOrAlias: string): T;
+  fake(idOrAlias: string): FakeAgent;
+  expectMessage(from: string, to: string, type: string): AgentMessage;
+  expectNoMessage(from: string, to: string, type: string): void;
+  expectEvent(eventType: string, predicate?: (event: AgentEvent) => boolean): AgentEvent;
+  advance(ms: number): Promise<number>;
+  settle<T>(work: Promise<T>): Promise<T>;
+  stop(): Promise<void>;
+}
+
+export async function createTestEcosystem(options: TestEcosystemOptions = {}): Promise<TestEcosystem> {
+  const fakeDefinitions: AgentDefinition[] = (options.fakes || []).map(fake => {
+    const peer = typeof fake === 'string' ? { id: fake } : fake;
+    return { create: () => new FakeAgent(peer.id, peer.capabilities), aliases: peer.aliases || [] };
+  });
+  const agentDefinitions: AgentDefinition[] = (options.agents || []).map(agent =>
+    typeof agent === 'function' ? { create: agent, aliases: [] } : agent
+  );
+
+  const simulation = new SimulationRunner({
+    seed: options.seed,
+    startTime: options.startTime,
+    // Fakes first so they are registered before the real agents start talking
+    agents: [...fakeDefinitions, ...agentDefinitions],
+    eventBus: false
+  });
+  const { runtime } = simulation;
+
+  const messages: AgentMessage[] = [];
+  const events: AgentEvent[] = [];
+
+  // Delivered messages, plus anything published to the Event Bus (real or fake)
+  const stopObserving = runtime.observeMessages(message => {
+    messages.push(message);
+    if (message.type === 'event-publish' && message.data?.event) {
+      events.push(message.data.event);
+    }
+  });
+
+  // Lifecycle events raised through BaseAgent.emitEvent; agents are registered before they start
+  const onAgentEvent = (event: Event) => {
+    const agentEvent = (event as CustomEvent).detail as AgentEvent;
+    if (runtime.hasAgent(agentEvent.agentId)) events.push(agentEvent);
+  };
+  window.addEventListener('agentEvent', onAgentEvent);
+
+  await simulation.start();
+
+  const resolveId = (idOrAlias: string) => runtime.getAgent(idOrAlias)?.id || idOrAlias;
+
+  const findMessages = (from: string, to: string, type: string) =>
+    messages.filter(message =>
+      message.type === type &&
+      resolveId(message.fromAgentId) === resolveId(from) &&
+      resolveId(message.toAgentId) === resolveId(to)
+    );
+
+  const describeTraffic = () =>
+    messages.map(message => `  ${message.fromAgentId} -> ${message.toAgentId}: ${message.type}`).join('\n') || '  (none)';
+
+  return {
+    runtime,
+    clock: simulation.clock,
+    random: simulation.random,
+    messages,
+    events,
+
+    get: <T extends BaseAgent = BaseAgent>(idOrAlias: string) => simulation.getAgent<T>(idOrAlias),
+
+    fake(idOrAlias: string): FakeAgent {
+      const agent = simulation.getAgent(idOrAlias);
+      if (!(agent instanceof FakeAgent)) {
+        throw new Error(`${idOrAlias} is a real agent, not a fake`);
+      }
+      return agent;
+    },
+
+    expectMessage(from: string, to: string, type: string): AgentMessage {
+      const matches = findMessages(from, to, type);
+      if (matches.length === 0) {
+        throw new Error(`Expected ${type} message from ${from} to ${to}. Messages seen:\n${describeTraffic()}`);
+      }
+      return matches[matches.length - 1];
+    },
+
+    expectNoMessage(from: string, to: string, type: string): void {
+      if (findMessages(from, to, type).length > 0) {
+        throw new Error(`Expected no ${type} message from ${from} to ${to}. Messages seen:\n${describeTraffic()}`);
+      }
+    },
+
+    // eventType may be a topic pattern ('error.*')
+    expectEvent(eventType: string, predicate?: (event: AgentEvent) => boolean): AgentEvent {
+      const matches = events.filter(event => matchesTopic(eventType, event.type) && (!predicate || predicate(event)));
+      if (matches.length === 0) {
+        const seen = events.map(event => `  ${event.type} from ${event.agentId}`).join('\n') || '  (none)';
+        throw new Error(`Expected ${eventType} event${predicate ? ' matching the predicate' : ''}. Events seen:\n${seen}`);
+      }
+      return matches[matches.length - 1];
+    },
+
+    advance: (ms: number) => simulation.advance(ms),
+    settle: <T>(work: Promise<T>) => simulation.settle(work),
+
+    async stop(): Promise<void> {
+      stopObserving();
+      window.removeEventListener('agentEvent', onAgentEvent);
+      await simulation.stop();
+    }
+  };
+}
@@ -0,0 +1,622 @@
+// Database Types - Row, insert and update shapes for the tables in supabase/migrations
+// Generated by `npm run db:types`. Change the migrations and regenerate instead of editing this file.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      agent_memory: {
+        Row: {
+          agent_id: string
+          memory_data: Json
+          updated_at: string
+          owner_id: string
+        }
+        Insert: {
+          agent_id: string
+          memory_data?: Json
+          updated_at?: string
+          owner_id?: string
+        }
+        Update: {
+          agent_id?: string
+          memory_data?: Json
+          updated_at?: string
+          owner_id?: string
+        }
+        Relationships: []
+      }
+      agent_tasks: {
+        Row: {
+          id: string
+          agent_id: string | null
+          task_type: string
+          priority: Database["public"]["Enums"]["task_priority"]
+          status: Database["public"]["Enums"]["task_status"]
+          input_data: Json | null
+          output_data: Json | null
+          created_at: string
+          completed_at: string | null
+        }
+        Insert: {
+          id?: string
+          agent_id?: string | null
+          task_type: string
+          priority?: Database["public"]["Enums"]["task_priority"]
+          status?: Database["public"]["Enums"]["task_status"]
+          input_data?: Json | null
+          output_data?: Json | null
+          created_at?: string
+          completed_at?: string | null
+        }
+        Update: {
+          id?: string
+          agent_id?: string | null
+          task_type?: string
+          priority?: Database["public"]["Enums"]["task_priority"]
+          status?: Database["public"]["Enums"]["task_status"]
+          input_data?: Json | null
+          output_data?: Json | null
+          created_at?: string
+          completed_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agent_tasks_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      agentricai_activity_logs: {
+        Row: {
+          id: string
+          agent_id: string
+          activity: string
+          details: Json
+          timestamp: string
+        }
+        Insert: {
+          id?: string
+          agent_id: string
+          activity: string
+          details?: Json
+          timestamp?: string
+        }
+        Update: {
+          id?: string
+          agent_id?: string
+          activity?: string
+          details?: Json
+          timestamp?: string
+        }
+        Relationships: []
+      }
+      agentricai_agent_communications: {
+        Row: {
+          id: string
+          message_id: string
+          from_agent_id: string
+          to_agent_id: string
+          message_content: Json
+          priority: string
+          status: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          message_id: string
+          from_agent_id: string
+          to_agent_id: string
+          message_content: Json
+          priority?: string
+          status?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          message_id?: string
+          from_agent_id?: string
+          to_agent_id?: string
+          message_content?: Json
+          priority?: string
+          status?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      agentricai_agent_creation_history: {
+        Row: {
+          id: string
+          agent_id: string
+          created_for_task: Json | null
+          agent_spec: Json
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          agent_id: string
+          created_for_task?: Json | null
+          agent_spec: Json
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          agent_id?: string
+          created_for_task?: Json | null
+          agent_spec?: Json
+          created_at?: string
+        }
+        Relationships: []
+      }
+      agentricai_agent_memory: {
+        Row: {
+          id: string
+          agent_id: string
+          memory_type: string
+          memory_data: Json
+          priority: number
+          expiry_date: string | null
+          created_at: string
+          last_accessed: string
+          access_frequency: number
+          owner_id: string | null
+          sync_seq: number
+        }
+        Insert: {
+          id: string
+          agent_id: string
+          memory_type: string
+          memory_data: Json
+          priority?: number
+          expiry_date?: string | null
+          created_at?: string
+          last_accessed?: string
+          access_frequency?: number
+          owner_id?: string | null
+          sync_seq?: number
+        }
+        Update: {
+          id?: string
+          agent_id?: string
+          memory_type?: string
+          memory_data?: Json
+          priority?: number
+          expiry_date?: string | null
+          created_at?: string
+          last_accessed?: string
+          access_frequency?: number
+          owner_id?: string | null
+          sync_seq?: number
+        }
+        Relationships: []
+      }
+      agentricai_agent_registry: {
+        Row: {
+          agent_id: string
+          name: string
+          type: string
+          capabilities: string[]
+          status: string
+          memory_allocation: string | null
+          specialized_for: string | null
+          agentricai_config: Json
+          created_at: string
+          last_activity: string
+        }
+        Insert: {
+          agent_id: string
+          name: string
+          type: string
+          capabilities?: string[]
+          status?: string
+          memory_allocation?: string | null
+          specialized_for?: string | null
+          agentricai_config?: Json
+          created_at?: string
+          last_activity?: string
+        }
+        Update: {
+          agent_id?: string
+          name?: string
+          type?: string
+          capabilities?: string[]
+          status?: string
+          memory_allocation?: string | null
+          specialized_for?: string | null
+          agentricai_config?: Json
+          created_at?: string
+          last_activity?: string
+        }
+        Relationships: []
+      }
+      agentricai_core_os_knowledge_base: {
+        Row: {
+          id: string
+          category: string
+          key: string
+          value: Json
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          category: string
+          key: string
+          value: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          category?: string
+          key?: string
+          value?: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      agentricai_error_analysis: {
+        Row: {
+          id: string
+          error_type: string
+          error_message: string | null
+          analysis: Json | null
+          explanation: string | null
+          proposed_fix: Json | null
+          timestamp: string
+        }
+        Insert: {
+          id?: string
+          error_type: string
+          error_message?: string | null
+          analysis?: Json | null
+          explanation?: string | null
+          proposed_fix?: Json | null
+          timestamp?: string
+        }
+        Update: {
+          id?: string
+          error_type?: string
+          error_message?: string | null
+          analysis?: Json | null
+          explanation?: string | null
+          proposed_fix?: Json | null
+          timestamp?: string
+        }
+        Relationships: []
+      }
+      agentricai_knowledge_access_log: {
+        Row: {
+          id: string
+          agent_id: string
+          knowledge_key: string
+          access_type: string
+          timestamp: string
+          context: Json
+          owner_id: string | null
+        }
+        Insert: {
+          id?: string
+          agent_id: string
+          knowledge_key: string
+          access_type: string
+          timestamp?: string
+          context?: Json
+          owner_id?: string | null
+        }
+        Update: {
+          id?: string
+          agent_id?: string
+          knowledge_key?: string
+          access_type?: string
+          timestamp?: string
+          context?: Json
+          owner_id?: string | null
+        }
+        Relationships: []
+      }
+      agentricai_knowledge_base: {
+        Row: {
+          id: string
+          category: string
+          key: string
+          value: Json
+          confidence_score: number
+          source_agent: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+          access_count: number
+          tags: string[]
+          relationships: Json
+          owner_id: string | null
+          sync_seq: number
+        }
+        Insert: {
+          id?: string
+          category: string
+          key: string
+          value: Json
+          confidence_score?: number
+          source_agent?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+          access_count?: number
+          tags?: string[]
+          relationships?: Json
+          owner_id?: string | null
+          sync_seq?: number
+        }
+        Update: {
+          id?: string
+          category?: string
+          key?: string
+          value?: Json
+          confidence_score?: number
+          source_agent?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+          access_count?: number
+          tags?: string[]
+          relationships?: Json
+          owner_id?: string | null
+          sync_seq?: number
+        }
+        Relationships: []
+      }
+      agentricai_knowledge_versions: {
+        Row: {
+          id: string
+          knowledge_id: string
+          category: string
+          key: string
+          version: number
+          value: Json
+          confidence_score: number
+          source_agent: string | null
+          status: string
+          rolled_back_from: number | null
+          resolved_by: string | null
+          created_at: string
+          owner_id: string | null
+        }
+        Insert: {
+          id?: string
+          knowledge_id: string
+          category: string
+          key: string
+          version: number
+          value: Json
+          confidence_score?: number
+          source_agent?: string | null
+          status: string
+          rolled_back_from?: number | null
+          resolved_by?: string | null
+          created_at?: string
+          owner_id?: string | null
+        }
+        Update: {
+          id?: string
+          knowledge_id?: string
+          category?: string
+          key?: string
+          version?: number
+          value?: Json
+          confidence_score?: number
+          source_agent?: string | null
+          status?: string
+          rolled_back_from?: number | null
+          resolved_by?: string | null
+          created_at?: string
+          owner_id?: string | null
+        }
+        Relationships: []
+      }
+      agentricai_learning_patterns: {
+        Row: {
+          id: string
+          user_id: string | null
+          pattern_type: string
+          pattern_data: Json
+          effectiveness_score: number
+          usage_count: number
+          created_at: string
+          updated_at: string
+          owner_id: string | null
+          sync_seq: number
+        }
+        Insert: {
+          id: string
+          user_id?: string | null
+          pattern_type: string
+          pattern_data: Json
+          effectiveness_score?: number
+          usage_count?: number
+          created_at?: string
+          updated_at?: string
+          owner_id?: string | null
+          sync_seq?: number
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          pattern_type?: string
+          pattern_data?: Json
+          effectiveness_score?: number
+          usage_count?: number
+          created_at?: string
+          updated_at?: string
+          owner_id?: string | null
+          sync_seq?: number
+        }
+        Relationships: []
+      }
+      agentricai_workflow_logs: {
+        Row: {
+          id: string
+          workflow_id: string
+          workflow_type: string
+          status: string
+          execution_data: Json | null
+          timestamp: string
+        }
+        Insert: {
+          id?: string
+          workflow_id: string
+          workflow_type: string
+          status: string
+          execution_data?: Json | null
+          timestamp?: string
+        }
+        Update: {
+          id?: string
+          workflow_id?: string
+          workflow_type?: string
+          status?: string
+          execution_data?: Json | null
+          timestamp?: string
+        }
+        Relationships: []
+      }
+      agentricai_workflow_state: {
+        Row: {
+          workflow_id: string
+          template_id: string | null
+          status: string
+          state: Json
+          updated_at: string
+        }
+        Insert: {
+          workflow_id: string
+          template_id?: string | null
+          status: string
+          state: Json
+          updated_at?: string
+        }
+        Update: {
+          workflow_id?: string
+          template_id?: string | null
+          status?: string
+          state?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      agents: {
+        Row: {
+          id: string
+          name: string
+          type: Database["public"]["Enums"]["agent_type"]
+          status: Database["public"]["Enums"]["agent_status"]
+          config: Json
+          memory_allocated: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          type: Database["public"]["Enums"]["agent_type"]
+          status?: Database["public"]["Enums"]["agent_status"]
+          config?: Json
+          memory_allocated?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          type?: Database["public"]["Enums"]["agent_type"]
+          status?: Database["public"]["Enums"]["agent_status"]
+          config?: Json
+          memory_allocated?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      user_sessions: {
+        Row: {
+          id: string
+          user_id: string | null
+          agent_id: string | null
+          start_time: string
+          end_time: string | null
+          activities_completed: Json
+          adaptive_data: Json
+          progress_score: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          agent_id?: string | null
+          start_time?: string
+          end_time?: string | null
+          activities_completed?: Json
+          adaptive_data?: Json
+          progress_score?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          agent_id?: string | null
+          start_time?: string
+          end_time?: string | null
+          activities_completed?: Json
+          adaptive_data?: Json
+          progress_score?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_sessions_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      [_ in never]: never
+    }
+    Enums: {
+      agent_status: "active" | "processing" | "idle" | "error"
+      agent_type: "adaptive" | "monitoring" | "creative" | "analytical"
+      task_priority: "critical" | "high" | "medium" | "low"
+      task_status: "pending" | "running" | "completed" | "failed"
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database["public"]
+
+export type Tables<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Row"]
+export type TablesInsert<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Insert"]
+export type TablesUpdate<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Update"]
+export type Enums<T extends keyof PublicSchema["Enums"]> = PublicSchema["Enums"][T]
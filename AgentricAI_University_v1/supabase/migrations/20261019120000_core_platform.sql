@@ -0,0 +1,91 @@
+-- Core platform: agents, learner sessions, agent tasks and the agent memory cache
+-- Used by services/database.ts and hooks/useDatabase.ts.
+
+create type agent_type as enum ('adaptive', 'monitoring', 'creative', 'analytical');
+create type agent_status as enum ('active', 'processing', 'idle', 'error');
+create type task_priority as enum ('critical', 'high', 'medium', 'low');
+create type task_status as enum ('pending', 'running', 'completed', 'failed');
+
+create table agents (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  type agent_type not null,
+  status agent_status not null default 'idle',
+  config jsonb not null default '{}',
+  memory_allocated bigint not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table user_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users (id) on delete cascade,
+  agent_id uuid references agents (id) on delete set null,
+  start_time timestamptz not null default now(),
+  end_time timestamptz,
+  activities_completed jsonb not null default '[]',
+  adaptive_data jsonb not null default '{}',
+  progress_score integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index user_sessions_user_id_idx on user_sessions (user_id, created_at desc);
+
+create table agent_tasks (
+  id uuid primary key default gen_random_uuid(),
+  agent_id uuid references agents (id) on delete cascade,
+  task_type text not null,
+  priority task_priority not null default 'medium',
+  status task_status not null default 'pending',
+  input_data jsonb,
+  output_data jsonb,
+  created_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create index agent_tasks_agent_id_idx on agent_tasks (agent_id, status);
+
+-- One row per agent, replaced on every save
+create table agent_memory (
+  agent_id text primary key,
+  memory_data jsonb not null default '{}',
+  updated_at timestamptz not null default now()
+);
+
+alter table agents enable row level security;
+alter table user_sessions enable row level security;
+alter table agent_tasks enable row level security;
+alter table agent_memory enable row level security;
+
+-- Agents and their tasks are operational data the app manages with the anon key
+create policy "agents are readable" on agents
+  for select to anon, authenticated using (true);
+create policy "agents are writable" on agents
+  for insert to anon, authenticated with check (true);
+create policy "agents are updatable" on agents
+  for update to anon, authenticated using (true) with check (true);
+
+create policy "agent tasks are readable" on agent_tasks
+  for select to anon, authenticated using (true);
+create policy "agent tasks are writable" on agent_tasks
+  for insert to anon, authenticated with check (true);
+create policy "agent tasks are updatable" on agent_tasks
+  for update to anon, authenticated using (true) with check (true);
+
+create policy "agent memory is readable" on agent_memory
+  for select to anon, authenticated using (true);
+create policy "agent memory is writable" on agent_memory
+  for insert to anon, authenticated with check (true);
+create policy "agent memory is updatable" on agent_memory
+  for update to anon, authenticated using (true) with check (true);
+
+-- A learner's sessions are visible only to that signed-in learner
+create policy "learners read their own sessions" on user_sessions
+  for select to authenticated using (user_id = auth.uid());
+create policy "learners start their own sessions" on user_sessions
+  for insert to authenticated with check (user_id = auth.uid());
+create policy "learners update their own sessions" on user_sessions
+  for update to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+alter publication supabase_realtime add table agents, agent_tasks;
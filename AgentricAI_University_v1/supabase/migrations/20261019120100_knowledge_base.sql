@@ -0,0 +1,120 @@
+-- Knowledge database: entries, version history, agent memories, learning patterns and the access log
+-- Replaces the tables AgentricAIKnowledgeDatabase used to create at runtime through rpc('create_*_table').
+
+create table agentricai_knowledge_base (
+  id uuid primary key default gen_random_uuid(),
+  category text not null,
+  key text not null,
+  value jsonb not null,
+  confidence_score double precision not null default 1.0,
+  source_agent text,
+  created_by text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  access_count integer not null default 0,
+  tags text[] not null default '{}',
+  relationships jsonb not null default '{}',
+  unique (category, key)
+);
+
+-- The sync engine pulls every table in updated_at order from a cursor
+create index agentricai_knowledge_base_updated_at_idx on agentricai_knowledge_base (updated_at);
+create index agentricai_knowledge_base_source_agent_idx on agentricai_knowledge_base (source_agent);
+
+create table agentricai_knowledge_versions (
+  id uuid primary key default gen_random_uuid(),
+  knowledge_id text not null,
+  category text not null,
+  key text not null,
+  version integer not null,
+  value jsonb not null,
+  confidence_score double precision not null default 1.0,
+  source_agent text,
+  status text not null check (status in ('accepted', 'rejected', 'pending', 'dismissed')),
+  rolled_back_from integer,
+  resolved_by text,
+  created_at timestamptz not null default now(),
+  unique (knowledge_id, version)
+);
+
+-- Ids are assigned by the browser (`agent:type:timestamp`) so offline writes keep them when synced
+create table agentricai_agent_memory (
+  id text primary key,
+  agent_id text not null,
+  memory_type text not null,
+  memory_data jsonb not null,
+  priority integer not null default 5,
+  expiry_date timestamptz,
+  created_at timestamptz not null default now(),
+  last_accessed timestamptz not null default now(),
+  access_frequency integer not null default 1
+);
+
+create index agentricai_agent_memory_agent_id_idx on agentricai_agent_memory (agent_id, memory_type);
+create index agentricai_agent_memory_last_accessed_idx on agentricai_agent_memory (last_accessed);
+
+create table agentricai_learning_patterns (
+  id text primary key,
+  user_id text,
+  pattern_type text not null,
+  pattern_data jsonb not null,
+  effectiveness_score double precision not null default 0.5,
+  usage_count integer not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index agentricai_learning_patterns_user_id_idx on agentricai_learning_patterns (user_id, pattern_type);
+create index agentricai_learning_patterns_updated_at_idx on agentricai_learning_patterns (updated_at);
+
+create table agentricai_knowledge_access_log (
+  id uuid primary key default gen_random_uuid(),
+  agent_id text not null,
+  knowledge_key text not null,
+  access_type text not null,
+  timestamp timestamptz not null default now(),
+  context jsonb not null default '{}'
+);
+
+alter table agentricai_knowledge_base enable row level security;
+alter table agentricai_knowledge_versions enable row level security;
+alter table agentricai_agent_memory enable row level security;
+alter table agentricai_learning_patterns enable row level security;
+alter table agentricai_knowledge_access_log enable row level security;
+
+-- Classroom devices sync with the anon key, so they read and write these tables without
+-- signing in. Deleting is left to the service role.
+create policy "knowledge is readable" on agentricai_knowledge_base
+  for select to anon, authenticated using (true);
+create policy "knowledge is writable" on agentricai_knowledge_base
+  for insert to anon, authenticated with check (true);
+create policy "knowledge is updatable" on agentricai_knowledge_base
+  for update to anon, authenticated using (true) with check (true);
+
+-- Versions are history: added, never changed except to record a review decision
+create policy "knowledge versions are readable" on agentricai_knowledge_versions
+  for select to anon, authenticated using (true);
+create policy "knowledge versions are writable" on agentricai_knowledge_versions
+  for insert to anon, authenticated with check (true);
+create policy "knowledge versions record reviews" on agentricai_knowledge_versions
+  for update to anon, authenticated using (true) with check (true);
+
+create policy "agent memories are readable" on agentricai_agent_memory
+  for select to anon, authenticated using (true);
+create policy "agent memories are writable" on agentricai_agent_memory
+  for insert to anon, authenticated with check (true);
+create policy "agent memories are updatable" on agentricai_agent_memory
+  for update to anon, authenticated using (true) with check (true);
+
+create policy "learning patterns are readable" on agentricai_learning_patterns
+  for select to anon, authenticated using (true);
+create policy "learning patterns are writable" on agentricai_learning_patterns
+  for insert to anon, authenticated with check (true);
+create policy "learning patterns are updatable" on agentricai_learning_patterns
+  for update to anon, authenticated using (true) with check (true);
+
+-- The access log is append-only from the app and read from the dashboard
+create policy "knowledge access is logged" on agentricai_knowledge_access_log
+  for insert to anon, authenticated with check (true);
+
+alter publication supabase_realtime add table agentricai_knowledge_base, agentricai_agent_memory;
@@ -0,0 +1,122 @@
+-- Agent ecosystem: the agent registry, inter-agent messages, checkpointed workflows and the
+-- append-only logs services/agentEcosystem.ts writes.
+
+create table agentricai_agent_registry (
+  agent_id text primary key,
+  name text not null,
+  type text not null,
+  capabilities text[] not null default '{}',
+  status text not null default 'idle',
+  memory_allocation text,
+  specialized_for text,
+  agentricai_config jsonb not null default '{}',
+  created_at timestamptz not null default now(),
+  last_activity timestamptz not null default now()
+);
+
+create table agentricai_core_os_knowledge_base (
+  id uuid primary key default gen_random_uuid(),
+  category text not null,
+  key text not null,
+  value jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (category, key)
+);
+
+create table agentricai_workflow_state (
+  workflow_id text primary key,
+  template_id text,
+  status text not null,
+  state jsonb not null,
+  updated_at timestamptz not null default now()
+);
+
+create table agentricai_agent_communications (
+  id uuid primary key default gen_random_uuid(),
+  message_id text not null,
+  from_agent_id text not null,
+  to_agent_id text not null,
+  message_content jsonb not null,
+  priority text not null default 'medium',
+  status text not null default 'sent',
+  created_at timestamptz not null default now()
+);
+
+create index agentricai_agent_communications_to_agent_idx on agentricai_agent_communications (to_agent_id, created_at);
+
+create table agentricai_activity_logs (
+  id uuid primary key default gen_random_uuid(),
+  agent_id text not null,
+  activity text not null,
+  details jsonb not null default '{}',
+  timestamp timestamptz not null default now()
+);
+
+create table agentricai_agent_creation_history (
+  id uuid primary key default gen_random_uuid(),
+  agent_id text not null,
+  created_for_task jsonb,
+  agent_spec jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create table agentricai_error_analysis (
+  id uuid primary key default gen_random_uuid(),
+  error_type text not null,
+  error_message text,
+  analysis jsonb,
+  explanation text,
+  proposed_fix jsonb,
+  timestamp timestamptz not null default now()
+);
+
+create table agentricai_workflow_logs (
+  id uuid primary key default gen_random_uuid(),
+  workflow_id text not null,
+  workflow_type text not null,
+  status text not null,
+  execution_data jsonb,
+  timestamp timestamptz not null default now()
+);
+
+alter table agentricai_agent_registry enable row level security;
+alter table agentricai_core_os_knowledge_base enable row level security;
+alter table agentricai_workflow_state enable row level security;
+alter table agentricai_agent_communications enable row level security;
+alter table agentricai_activity_logs enable row level security;
+alter table agentricai_agent_creation_history enable row level security;
+alter table agentricai_error_analysis enable row level security;
+alter table agentricai_workflow_logs enable row level security;
+
+create policy "agent registry is readable" on agentricai_agent_registry
+  for select to anon, authenticated using (true);
+create policy "agents register themselves" on agentricai_agent_registry
+  for insert to anon, authenticated with check (true);
+create policy "agents update their registration" on agentricai_agent_registry
+  for update to anon, authenticated using (true) with check (true);
+
+create policy "core knowledge is readable" on agentricai_core_os_knowledge_base
+  for select to anon, authenticated using (true);
+
+-- Checkpoints are removed once their workflow finishes
+create policy "workflow state is readable" on agentricai_workflow_state
+  for select to anon, authenticated using (true);
+create policy "workflow state is writable" on agentricai_workflow_state
+  for insert to anon, authenticated with check (true);
+create policy "workflow state is updatable" on agentricai_workflow_state
+  for update to anon, authenticated using (true) with check (true);
+create policy "finished workflows are removable" on agentricai_workflow_state
+  for delete to anon, authenticated using (true);
+
+-- Logs are append-only from the app and read with the service role
+create policy "agent messages are logged" on agentricai_agent_communications
+  for insert to anon, authenticated with check (true);
+create policy "agent activity is logged" on agentricai_activity_logs
+  for insert to anon, authenticated with check (true);
+create policy "agent creation is logged" on agentricai_agent_creation_history
+  for insert to anon, authenticated with check (true);
+create policy "error analyses are logged" on agentricai_error_analysis
+  for insert to anon, authenticated with check (true);
+create policy "workflow runs are logged" on agentricai_workflow_logs
+  for insert to anon, authenticated with check (true);
@@ -0,0 +1,91 @@
+-- Scope learner data to its owner: knowledge, version history, agent memories, learning patterns,
+-- the agent memory cache and the access log belong to the signed-in user (`auth.uid()`) that wrote
+-- them, like user_sessions. The anon key no longer reads or writes any of it; a classroom device
+-- signs in, anonymously if nobody has, and sees only its own rows. Rows written before this
+-- migration have no owner and are left to the service role.
+
+alter table agentricai_knowledge_base
+  add column owner_id uuid default auth.uid() references auth.users (id) on delete cascade;
+alter table agentricai_knowledge_versions
+  add column owner_id uuid default auth.uid() references auth.users (id) on delete cascade;
+alter table agentricai_agent_memory
+  add column owner_id uuid default auth.uid() references auth.users (id) on delete cascade;
+alter table agentricai_learning_patterns
+  add column owner_id uuid default auth.uid() references auth.users (id) on delete cascade;
+alter table agentricai_knowledge_access_log
+  add column owner_id uuid default auth.uid() references auth.users (id) on delete cascade;
+
+-- Every device seeds the same core entries, so category and key are unique per owner
+alter table agentricai_knowledge_base drop constraint agentricai_knowledge_base_category_key_key;
+alter table agentricai_knowledge_base add constraint agentricai_knowledge_base_owner_category_key_key
+  unique (owner_id, category, key);
+alter table agentricai_knowledge_versions drop constraint agentricai_knowledge_versions_knowledge_id_version_key;
+alter table agentricai_knowledge_versions add constraint agentricai_knowledge_versions_owner_knowledge_id_version_key
+  unique (owner_id, knowledge_id, version);
+
+create index agentricai_agent_memory_owner_id_idx on agentricai_agent_memory (owner_id);
+create index agentricai_learning_patterns_owner_id_idx on agentricai_learning_patterns (owner_id, user_id);
+
+-- The cache is rebuilt on the next save, so rows nobody owns are dropped rather than kept hidden
+delete from agent_memory;
+alter table agent_memory
+  add column owner_id uuid not null default auth.uid() references auth.users (id) on delete cascade;
+alter table agent_memory drop constraint agent_memory_pkey;
+alter table agent_memory add primary key (owner_id, agent_id);
+
+drop policy "agent memory is readable" on agent_memory;
+drop policy "agent memory is writable" on agent_memory;
+drop policy "agent memory is updatable" on agent_memory;
+drop policy "knowledge is readable" on agentricai_knowledge_base;
+drop policy "knowledge is writable" on agentricai_knowledge_base;
+drop policy "knowledge is updatable" on agentricai_knowledge_base;
+drop policy "knowledge versions are readable" on agentricai_knowledge_versions;
+drop policy "knowledge versions are writable" on agentricai_knowledge_versions;
+drop policy "knowledge versions record reviews" on agentricai_knowledge_versions;
+drop policy "agent memories are readable" on agentricai_agent_memory;
+drop policy "agent memories are writable" on agentricai_agent_memory;
+drop policy "agent memories are updatable" on agentricai_agent_memory;
+drop policy "learning patterns are readable" on agentricai_learning_patterns;
+drop policy "learning patterns are writable" on agentricai_learning_patterns;
+drop policy "learning patterns are updatable" on agentricai_learning_patterns;
+drop policy "knowledge access is logged" on agentricai_knowledge_access_log;
+
+create policy "owners read their agent memory" on agent_memory
+  for select to authenticated using (owner_id = auth.uid());
+create policy "owners write their agent memory" on agent_memory
+  for insert to authenticated with check (owner_id = auth.uid());
+create policy "owners update their agent memory" on agent_memory
+  for update to authenticated using (owner_id = auth.uid()) with check (owner_id = auth.uid());
+
+create policy "owners read their knowledge" on agentricai_knowledge_base
+  for select to authenticated using (owner_id = auth.uid());
+create policy "owners write their knowledge" on agentricai_knowledge_base
+  for insert to authenticated with check (owner_id = auth.uid());
+create policy "owners update their knowledge" on agentricai_knowledge_base
+  for update to authenticated using (owner_id = auth.uid()) with check (owner_id = auth.uid());
+
+-- Versions are history: added, never changed except to record a review decision
+create policy "owners read their knowledge versions" on agentricai_knowledge_versions
+  for select to authenticated using (owner_id = auth.uid());
+create policy "owners write their knowledge versions" on agentricai_knowledge_versions
+  for insert to authenticated with check (owner_id = auth.uid());
+create policy "owners record reviews of their knowledge versions" on agentricai_knowledge_versions
+  for update to authenticated using (owner_id = auth.uid()) with check (owner_id = auth.uid());
+
+create policy "owners read their agent memories" on agentricai_agent_memory
+  for select to authenticated using (owner_id = auth.uid());
+create policy "owners write their agent memories" on agentricai_agent_memory
+  for insert to authenticated with check (owner_id = auth.uid());
+create policy "owners update their agent memories" on agentricai_agent_memory
+  for update to authenticated using (owner_id = auth.uid()) with check (owner_id = auth.uid());
+
+create policy "owners read their learning patterns" on agentricai_learning_patterns
+  for select to authenticated using (owner_id = auth.uid());
+create policy "owners write their learning patterns" on agentricai_learning_patterns
+  for insert to authenticated with check (owner_id = auth.uid());
+create policy "owners update their learning patterns" on agentricai_learning_patterns
+  for update to authenticated using (owner_id = auth.uid()) with check (owner_id = auth.uid());
+
+-- Still append-only from the app
+create policy "owners log their knowledge access" on agentricai_knowledge_access_log
+  for insert to authenticated with check (owner_id = auth.uid());
@@ -0,0 +1,34 @@
+-- Sync sequence - A server-assigned position for the tables devices replicate
+-- `updated_at` comes from the writing device's clock and still decides which copy wins, but it
+-- cannot order pulls: a device that was offline pushes rows stamped before cursors its peers have
+-- already passed. Every insert and update takes the next value of one sequence instead, so
+-- `(sync_seq, id)` only grows and a pull resumes exactly where the last one stopped.
+
+create sequence agentricai_sync_seq;
+grant usage on sequence agentricai_sync_seq to anon, authenticated;
+
+create or replace function agentricai_next_sync_seq() returns trigger
+  language plpgsql
+  as $$
+begin
+  new.sync_seq := nextval('agentricai_sync_seq');
+  return new;
+end
+$$;
+
+-- Existing rows are numbered as the column is added
+alter table agentricai_knowledge_base add column sync_seq bigint not null default nextval('agentricai_sync_seq');
+alter table agentricai_agent_memory add column sync_seq bigint not null default nextval('agentricai_sync_seq');
+alter table agentricai_learning_patterns add column sync_seq bigint not null default nextval('agentricai_sync_seq');
+
+-- Set on the server even when a device sends back a value it pulled earlier
+create trigger agentricai_knowledge_base_sync_seq before insert or update on agentricai_knowledge_base
+  for each row execute function agentricai_next_sync_seq();
+create trigger agentricai_agent_memory_sync_seq before insert or update on agentricai_agent_memory
+  for each row execute function agentricai_next_sync_seq();
+create trigger agentricai_learning_patterns_sync_seq before insert or update on agentricai_learning_patterns
+  for each row execute function agentricai_next_sync_seq();
+
+create index agentricai_knowledge_base_sync_seq_idx on agentricai_knowledge_base (sync_seq, id);
+create index agentricai_agent_memory_sync_seq_idx on agentricai_agent_memory (sync_seq, id);
+create index agentricai_learning_patterns_sync_seq_idx on agentricai_learning_patterns (sync_seq, id);